@@ -0,0 +1,14 @@
+-- Full-text search indexes for conversation search
+--
+-- Prisma cannot declare expression indexes, so these live outside the
+-- schema. Apply with `npm run db:search-indexes` after `db push`; searches
+-- still work without them, just with a full scan.
+--
+-- The expressions must match the ones in searchConversations
+-- (src/lib/db/services/conversation.ts) for the indexes to be used.
+
+CREATE INDEX IF NOT EXISTS "Message_content_search_idx"
+  ON "Message" USING GIN (to_tsvector('english', content));
+
+CREATE INDEX IF NOT EXISTS "Conversation_title_search_idx"
+  ON "Conversation" USING GIN (to_tsvector('english', title));
@@ -0,0 +1,56 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Embedding Backfill
+ *
+ * Embeds messages that have no vectors for the configured embedding model:
+ * messages saved before semantic search was enabled, imported or branched
+ * conversations, and everything after switching EMBEDDING_PROVIDER or
+ * EMBEDDING_MODEL. Project knowledge base documents are re-indexed the same way.
+ *
+ * Usage:
+ *   npm run embeddings:backfill
+ *   npm run embeddings:backfill -- --batch-size 100
+ */
+
+import 'dotenv/config'
+import { backfillEmbeddings, getEmbeddingProvider } from '../src/lib/embeddings'
+import { backfillProjectDocuments } from '../src/lib/knowledge'
+
+function parseBatchSize(argv: string[]): number | undefined {
+  const index = argv.indexOf('--batch-size')
+  if (index === -1) return undefined
+
+  const value = parseInt(argv[index + 1] ?? '', 10)
+  if (!Number.isInteger(value) || value < 1) {
+    console.error('--batch-size must be a positive integer')
+    process.exit(1)
+  }
+  return value
+}
+
+async function main() {
+  const provider = getEmbeddingProvider()
+  if (!provider) {
+    console.error('No embedding backend configured. Set EMBEDDING_PROVIDER (openai, local or hash).')
+    process.exit(1)
+  }
+
+  console.log(`Embedding messages with ${provider.provider}/${provider.model}...`)
+  const batchSize = parseBatchSize(process.argv.slice(2))
+  const processed = await backfillEmbeddings({
+    batchSize,
+    onBatch: (count) => console.log(`  ${count} messages`),
+  })
+  const documents = await backfillProjectDocuments({
+    batchSize,
+    onBatch: (count) => console.log(`  ${count} documents`),
+  })
+  console.log(`Done. ${processed} messages and ${documents} documents processed.`)
+  process.exit(0)
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,104 @@
+#!/usr/bin/env npx tsx
+
+/**
+ * Routing Classifier Evaluation
+ *
+ * Replays a labelled corpus of prompts through the rule-based classifier and
+ * prints per-intent precision/recall and a confusion matrix.
+ *
+ * Usage:
+ *   npm run routing:eval                         # scripts/routing-corpus.json
+ *   npm run routing:eval -- --corpus my.json     # custom corpus
+ *   npm run routing:eval -- --from-db            # user corrections from RoutingDecision
+ *   npm run routing:eval -- --json               # machine-readable output
+ *
+ * A corpus is a JSON array of { "prompt": string, "intent": RequestIntent }.
+ */
+
+import 'dotenv/config'
+import * as fs from 'node:fs/promises'
+import * as path from 'node:path'
+import {
+  evaluateClassifier,
+  formatEvaluationReport,
+  isRequestIntent,
+  type LabelledPrompt,
+} from '../src/lib/api/routing/evaluation'
+
+const DEFAULT_CORPUS = path.join(process.cwd(), 'scripts', 'routing-corpus.json')
+
+interface CliOptions {
+  corpusPath: string
+  fromDb: boolean
+  json: boolean
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { corpusPath: DEFAULT_CORPUS, fromDb: false, json: false }
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--corpus':
+        options.corpusPath = path.resolve(argv[++i] ?? '')
+        break
+      case '--from-db':
+        options.fromDb = true
+        break
+      case '--json':
+        options.json = true
+        break
+    }
+  }
+
+  return options
+}
+
+async function loadCorpusFile(corpusPath: string): Promise<LabelledPrompt[]> {
+  const raw = JSON.parse(await fs.readFile(corpusPath, 'utf-8')) as unknown[]
+
+  return raw.filter((entry): entry is LabelledPrompt => {
+    const example = entry as Partial<LabelledPrompt>
+    const valid = typeof example.prompt === 'string' && isRequestIntent(example.intent)
+    if (!valid) console.warn('Skipping invalid corpus entry:', JSON.stringify(entry))
+    return valid
+  })
+}
+
+/**
+ * Build a corpus from routing decisions that users corrected in the UI
+ */
+async function loadCorpusFromDb(): Promise<LabelledPrompt[]> {
+  const { getRoutingDecisions } = await import('../src/lib/db/services/routing')
+  const decisions = await getRoutingDecisions({ correctedOnly: true, limit: 5000 })
+
+  return decisions
+    .filter((d) => isRequestIntent(d.correctedIntent))
+    .map((d) => ({ prompt: d.query, intent: d.correctedIntent as LabelledPrompt['intent'] }))
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+  const corpus = options.fromDb
+    ? await loadCorpusFromDb()
+    : await loadCorpusFile(options.corpusPath)
+
+  if (corpus.length === 0) {
+    console.error('Corpus is empty, nothing to evaluate.')
+    process.exit(1)
+  }
+
+  const evaluation = await evaluateClassifier(corpus)
+
+  if (options.json) {
+    console.log(JSON.stringify(evaluation, null, 2))
+  } else {
+    console.log(formatEvaluationReport(evaluation))
+  }
+
+  process.exit(0)
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -1,72 +1,130 @@
 'use client'
 
-import { useState, useEffect, useMemo } from 'react'
-import { Plus, Search, Bot } from 'lucide-react'
+import { useState, useMemo } from 'react'
+import { useRouter } from 'next/navigation'
+import { Plus, Search, Bot, Loader2 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
-import { AgentCard, EditAgentDialog, DeleteAgentDialog } from '@/components/agents'
-import { GleanAgentCreator, GleanAgentTestPanel } from '@/components/model'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { ConfirmDeleteDialog } from '@/components/ui/confirm-delete-dialog'
 import {
-  useGleanAgents,
-  useActiveWorkspaceId,
-  useModelActions,
-  useUIActions,
-} from '@/stores'
-import { useWorkspace } from '@/lib/queries'
-import type { GleanAgentConfig, AgentPreviewConfig } from '@/types'
+  AssistantCard,
+  AssistantDialog,
+  CatalogAgentCard,
+  AGENT_PROVIDER_LABELS,
+} from '@/components/agents'
+import { GleanAgentCreator, GleanAgentTestPanel } from '@/components/model'
+import { useActiveWorkspaceId, useChatActions, useUIActions } from '@/stores'
+import { useAgentCatalog, useAssistants, useDeleteAssistant } from '@/lib/queries'
+import type { AgentCatalogEntry, AgentProvider } from '@/lib/agents/types'
+import type { Assistant, AgentPreviewConfig } from '@/types'
+
+function matchesQuery(item: { name: string; description?: string }, query: string) {
+  return item.name.toLowerCase().includes(query) || !!item.description?.toLowerCase().includes(query)
+}
+
+type ProviderFilter = AgentProvider | 'all'
 
 export default function AgentsPage() {
   const activeWorkspaceId = useActiveWorkspaceId()
-  const { data: workspace } = useWorkspace(activeWorkspaceId)
-  const agents = useGleanAgents(workspace?.id || '')
-  const { loadGleanAgents } = useModelActions()
   const { openModal } = useUIActions()
+  const router = useRouter()
+  const { createConversation, setActiveConversation, setEnabledTools } = useChatActions()
+  const { data: catalog = [], isLoading } = useAgentCatalog()
+  const { data: allAssistants = [] } = useAssistants()
+  const deleteAssistant = useDeleteAssistant()
 
   const [searchQuery, setSearchQuery] = useState('')
-  const [editingAgent, setEditingAgent] = useState<GleanAgentConfig | null>(null)
-  const [deletingAgent, setDeletingAgent] = useState<GleanAgentConfig | null>(null)
+  const [providerFilter, setProviderFilter] = useState<ProviderFilter>('all')
   const [testingConfig, setTestingConfig] = useState<AgentPreviewConfig | null>(null)
+  const [assistantDialog, setAssistantDialog] = useState<{ assistant: Assistant | null } | null>(null)
+  const [deletingAssistant, setDeletingAssistant] = useState<Assistant | null>(null)
+
+  // Custom assistants show when personal or shared in the active workspace
+  const assistantsById = useMemo(
+    () =>
+      new Map(
+        allAssistants
+          .filter(
+            (assistant) =>
+              assistant.scope === 'personal' ||
+              (assistant.workspaceId ?? null) === (activeWorkspaceId ?? null)
+          )
+          .map((assistant) => [assistant.id, assistant])
+      ),
+    [allAssistants, activeWorkspaceId]
+  )
 
-  // Load agents when workspace changes
-  useEffect(() => {
-    if (workspace?.id) {
-      loadGleanAgents(workspace.id)
-    }
-  }, [workspace?.id, loadGleanAgents])
+  const visibleAgents = useMemo(
+    () => catalog.filter((agent) => agent.provider !== 'local' || assistantsById.has(agent.id)),
+    [catalog, assistantsById]
+  )
 
-  // Filter agents by search query
-  const filteredAgents = useMemo(() => {
-    if (!searchQuery.trim()) return agents
+  const providers = useMemo(
+    () => Array.from(new Set(visibleAgents.map((agent) => agent.provider))),
+    [visibleAgents]
+  )
 
-    const query = searchQuery.toLowerCase()
-    return agents.filter(
+  const filteredAgents = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase()
+    return visibleAgents.filter(
       (agent) =>
-        agent.name.toLowerCase().includes(query) ||
-        agent.description?.toLowerCase().includes(query)
+        (providerFilter === 'all' || agent.provider === providerFilter) &&
+        (!query || matchesQuery(agent, query))
     )
-  }, [agents, searchQuery])
+  }, [visibleAgents, providerFilter, searchQuery])
 
-  const handleCreateAgent = () => {
+  const handleCreateGleanAgent = () => {
     openModal('create-glean-agent')
   }
 
-  const handleTestAgent = (agent: GleanAgentConfig) => {
-    const config: AgentPreviewConfig = {
+  const handleTestAgent = (agent: AgentCatalogEntry) => {
+    setTestingConfig({
       name: agent.name,
       description: agent.description,
-      systemPrompt: agent.systemPrompt,
-      dataSourceIds: agent.dataSources.map((ds) => ds.id),
-      temperature: agent.temperature,
+      systemPrompt: agent.instructions,
+      dataSourceIds: [],
+      temperature: agent.parameters?.temperature ?? 0.7,
       savedAgentId: agent.id,
       isDraft: false,
-    }
-    setTestingConfig(config)
+    })
   }
 
-  const handleAgentUpdated = () => {
-    if (workspace?.id) {
-      loadGleanAgents(workspace.id)
+  const openChat = async (modelId: string, projectId?: string) => {
+    const id = await createConversation('New conversation', projectId, modelId, null, activeWorkspaceId)
+    setActiveConversation(id)
+    router.push(`/chat/${id}`)
+  }
+
+  const handleChatWithAssistant = async (assistant: Assistant, modelId: string) => {
+    setEnabledTools(assistant.tools)
+    await openChat(modelId, assistant.projectId)
+  }
+
+  const renderAgent = (agent: AgentCatalogEntry) => {
+    const assistant = agent.provider === 'local' ? assistantsById.get(agent.id) : undefined
+    const chatModelId = agent.chatModelId
+
+    if (assistant && chatModelId) {
+      return (
+        <AssistantCard
+          key={`${agent.provider}:${agent.id}`}
+          assistant={assistant}
+          onChat={() => handleChatWithAssistant(assistant, chatModelId)}
+          onEdit={() => setAssistantDialog({ assistant })}
+          onDelete={() => setDeletingAssistant(assistant)}
+        />
+      )
     }
+
+    return (
+      <CatalogAgentCard
+        key={`${agent.provider}:${agent.id}`}
+        agent={agent}
+        onChat={chatModelId ? () => openChat(chatModelId) : undefined}
+        onTest={agent.provider === 'glean' ? () => handleTestAgent(agent) : undefined}
+      />
+    )
   }
 
   return (
@@ -77,30 +135,56 @@ export default function AgentsPage() {
           <div>
             <h1 className="text-2xl font-semibold">Agents</h1>
             <p className="text-muted-foreground">
-              Manage your Glean agents for specialized knowledge retrieval
+              Your custom assistants and the OpenAI, Glean and Dust agents available to you
             </p>
           </div>
-          <Button onClick={handleCreateAgent}>
-            <Plus className="h-4 w-4 mr-2" />
-            Create Agent
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleCreateGleanAgent}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create Glean Agent
+            </Button>
+            <Button onClick={() => setAssistantDialog({ assistant: null })}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create Assistant
+            </Button>
+          </div>
         </div>
 
-        {/* Search */}
-        <div className="relative max-w-sm">
-          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search agents..."
-            className="pl-8"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-          />
+        <div className="flex flex-wrap items-center gap-4">
+          {/* Search */}
+          <div className="relative w-full max-w-sm">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search agents..."
+              className="pl-8"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
+
+          {/* Provider filter */}
+          {providers.length > 1 && (
+            <Tabs value={providerFilter} onValueChange={(value) => setProviderFilter(value as ProviderFilter)}>
+              <TabsList>
+                <TabsTrigger value="all">All</TabsTrigger>
+                {providers.map((provider) => (
+                  <TabsTrigger key={provider} value={provider}>
+                    {provider === 'local' ? 'Assistants' : AGENT_PROVIDER_LABELS[provider]}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          )}
         </div>
       </div>
 
       {/* Content */}
       <div className="flex-1 overflow-auto p-6">
-        {filteredAgents.length === 0 ? (
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : filteredAgents.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-12 text-center">
             <Bot className="h-12 w-12 text-muted-foreground/50 mb-4" />
             <h3 className="text-lg font-medium mb-1">
@@ -109,26 +193,18 @@ export default function AgentsPage() {
             <p className="text-muted-foreground mb-4">
               {searchQuery
                 ? 'Try a different search term'
-                : 'Create your first agent to get started with specialized knowledge retrieval'}
+                : 'Create an assistant with its own instructions, model and tools to get started'}
             </p>
             {!searchQuery && (
-              <Button onClick={handleCreateAgent}>
+              <Button onClick={() => setAssistantDialog({ assistant: null })}>
                 <Plus className="h-4 w-4 mr-2" />
-                Create Agent
+                Create Assistant
               </Button>
             )}
           </div>
         ) : (
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {filteredAgents.map((agent) => (
-              <AgentCard
-                key={agent.id}
-                agent={agent}
-                onEdit={() => setEditingAgent(agent)}
-                onTest={() => handleTestAgent(agent)}
-                onDelete={() => setDeletingAgent(agent)}
-              />
-            ))}
+            {filteredAgents.map(renderAgent)}
           </div>
         )}
       </div>
@@ -136,18 +212,18 @@ export default function AgentsPage() {
       {/* Dialogs */}
       <GleanAgentCreator />
 
-      <EditAgentDialog
-        agent={editingAgent}
-        isOpen={!!editingAgent}
-        onClose={() => setEditingAgent(null)}
-        onSaved={handleAgentUpdated}
+      <AssistantDialog
+        assistant={assistantDialog?.assistant ?? null}
+        isOpen={!!assistantDialog}
+        onClose={() => setAssistantDialog(null)}
       />
 
-      <DeleteAgentDialog
-        agent={deletingAgent}
-        isOpen={!!deletingAgent}
-        onClose={() => setDeletingAgent(null)}
-        onDeleted={handleAgentUpdated}
+      <ConfirmDeleteDialog
+        open={!!deletingAssistant}
+        onOpenChange={(open) => !open && setDeletingAssistant(null)}
+        onConfirm={() => deletingAssistant && deleteAssistant.mutate(deletingAssistant.id)}
+        title="Delete assistant?"
+        description={`Are you sure you want to delete "${deletingAssistant?.name}"? Conversations with it are kept.`}
       />
 
       {testingConfig && (
@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import {
   AlertDialog,
@@ -27,7 +28,10 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { useProjectById, useProjectActions } from '@/stores'
+import { KnowledgeBaseCard } from '@/components/folders'
+import { useProjectById, useProjectActions, useModels, useProviders } from '@/stores'
+import { toolRegistry } from '@/lib/tools'
+import type { AIProvider, ContextStrategy } from '@/types'
 import { toast } from 'sonner'
 
 const PROJECT_COLORS = [
@@ -43,6 +47,32 @@ const PROJECT_COLORS = [
   { value: '#64748b', label: 'Slate' },
 ]
 
+const CONTEXT_STRATEGIES: { value: ContextStrategy; label: string; description: string }[] = [
+  {
+    value: 'summarize',
+    label: 'Summarize',
+    description: 'Older messages are condensed into a running summary',
+  },
+  {
+    value: 'truncate',
+    label: 'Truncate',
+    description: 'The oldest messages are dropped when the conversation gets too long',
+  },
+  {
+    value: 'sliding_window',
+    label: 'Sliding window',
+    description: 'Only the most recent messages are sent to the model',
+  },
+]
+
+const NONE = '__none__'
+
+const AUTO_ROUTING_OPTIONS = [
+  { value: NONE, label: 'Follow user preference' },
+  { value: 'on', label: 'Always auto-route' },
+  { value: 'off', label: 'Never auto-route' },
+]
+
 export default function ProjectSettingsPage() {
   const params = useParams()
   const router = useRouter()
@@ -53,6 +83,21 @@ export default function ProjectSettingsPage() {
   const [name, setName] = useState(project?.name || '')
   const [description, setDescription] = useState(project?.description || '')
   const [color, setColor] = useState(project?.color || '#6366f1')
+  const [contextStrategy, setContextStrategy] = useState<ContextStrategy>(
+    project?.settings?.contextStrategy || 'summarize'
+  )
+  const [defaultModel, setDefaultModel] = useState(project?.settings?.defaultModel || NONE)
+  const [systemPrompt, setSystemPrompt] = useState(project?.settings?.systemPrompt || '')
+  const [tools, setTools] = useState<string[]>(project?.settings?.tools || [])
+  const [autoRouting, setAutoRouting] = useState(
+    project?.settings?.autoRouting === undefined ? NONE : project.settings.autoRouting ? 'on' : 'off'
+  )
+  const [allowedProviders, setAllowedProviders] = useState<AIProvider[]>(
+    project?.settings?.allowedProviders || []
+  )
+  const models = useModels()
+  const providers = useProviders()
+  const allTools = toolRegistry.getAllTools()
   const [isLoading, setIsLoading] = useState(false)
   const [isDeleting, setIsDeleting] = useState(false)
 
@@ -77,6 +122,15 @@ export default function ProjectSettingsPage() {
         name: name.trim(),
         description: description.trim() || undefined,
         color,
+        settings: {
+          ...project.settings,
+          contextStrategy,
+          defaultModel: defaultModel === NONE ? undefined : defaultModel,
+          systemPrompt: systemPrompt.trim() || undefined,
+          tools: tools.length > 0 ? tools : undefined,
+          autoRouting: autoRouting === NONE ? undefined : autoRouting === 'on',
+          allowedProviders: allowedProviders.length > 0 ? allowedProviders : undefined,
+        },
       })
       toast.success('Folder settings saved')
     } catch (error) {
@@ -185,6 +239,166 @@ export default function ProjectSettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Conversation Context */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Conversation Context</CardTitle>
+            <CardDescription>
+              How long conversations in this folder are fit into the model&apos;s context window
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-2">
+              <Label htmlFor="context-strategy">Strategy</Label>
+              <Select
+                value={contextStrategy}
+                onValueChange={(value) => setContextStrategy(value as ContextStrategy)}
+              >
+                <SelectTrigger id="context-strategy" className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONTEXT_STRATEGIES.map((s) => (
+                    <SelectItem key={s.value} value={s.value}>
+                      {s.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {CONTEXT_STRATEGIES.find((s) => s.value === contextStrategy)?.description}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Conversation Defaults */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Conversation Defaults</CardTitle>
+            <CardDescription>
+              Applied to every conversation in this folder
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-2">
+              <Label htmlFor="system-prompt">Instructions</Label>
+              <Textarea
+                id="system-prompt"
+                value={systemPrompt}
+                onChange={(e) => setSystemPrompt(e.target.value)}
+                placeholder="e.g. You are helping the support team. Answer in a friendly, concise tone."
+                rows={5}
+              />
+              <p className="text-sm text-muted-foreground">
+                Sent to the model as a system prompt with every message
+              </p>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="default-model">Default model</Label>
+              <Select value={defaultModel} onValueChange={setDefaultModel}>
+                <SelectTrigger id="default-model" className="w-[280px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  {models.map((model) => (
+                    <SelectItem key={model.id} value={model.id}>
+                      {model.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                New conversations start with this model instead of the one last selected
+              </p>
+            </div>
+
+            {allTools.length > 0 && (
+              <div className="grid gap-2">
+                <Label>Tools</Label>
+                <p className="text-sm text-muted-foreground">
+                  Enabled when a new conversation is started in this folder
+                </p>
+                <div className="space-y-3 pt-1">
+                  {allTools.map((tool) => (
+                    <div key={tool.name} className="flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium">{tool.name}</p>
+                        <p className="truncate text-xs text-muted-foreground">{tool.description}</p>
+                      </div>
+                      <Switch
+                        checked={tools.includes(tool.name)}
+                        onCheckedChange={(checked) =>
+                          setTools((current) =>
+                            checked ? [...current, tool.name] : current.filter((t) => t !== tool.name)
+                          )
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Model Routing */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Model Routing</CardTitle>
+            <CardDescription>
+              Which models conversations in this folder may use
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-2">
+              <Label htmlFor="auto-routing">Auto-routing</Label>
+              <Select value={autoRouting} onValueChange={setAutoRouting}>
+                <SelectTrigger id="auto-routing" className="w-[240px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUTO_ROUTING_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {providers.length > 0 && (
+              <div className="grid gap-2">
+                <Label>Allowed providers</Label>
+                <p className="text-sm text-muted-foreground">
+                  Leave all off to allow every provider the workspace allows
+                </p>
+                <div className="space-y-3 pt-1">
+                  {providers.map((provider) => (
+                    <div key={provider.provider} className="flex items-center justify-between">
+                      <span className="text-sm font-medium">{provider.name}</span>
+                      <Switch
+                        checked={allowedProviders.includes(provider.provider)}
+                        onCheckedChange={(checked) =>
+                          setAllowedProviders((current) =>
+                            checked
+                              ? [...current, provider.provider]
+                              : current.filter((p) => p !== provider.provider)
+                          )
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <KnowledgeBaseCard projectId={projectId} />
+
         {/* Danger Zone */}
         <Card className="border-destructive/50">
           <CardHeader>
@@ -7,6 +7,7 @@ import { Input } from '@/components/ui/input'
 import { SearchResults } from '@/components/search/SearchResults'
 import { SearchFilters } from '@/components/search/SearchFilters'
 import { useConversations, useActiveWorkspaceId } from '@/stores'
+import type { ConversationSearchFilters, ConversationSearchMode, ConversationSearchSort } from '@/types'
 
 function SearchPageContent() {
   const searchParams = useSearchParams()
@@ -14,7 +15,9 @@ function SearchPageContent() {
 
   const [query, setQuery] = useState(initialQuery)
   const [folderId, setFolderId] = useState<string | null>(null)
-  const [sortBy, setSortBy] = useState<'date' | 'relevance'>('relevance')
+  const [sortBy, setSortBy] = useState<ConversationSearchSort>('relevance')
+  const [filters, setFilters] = useState<ConversationSearchFilters>({})
+  const [mode, setMode] = useState<ConversationSearchMode>('hybrid')
   const activeWorkspaceId = useActiveWorkspaceId()
   const conversations = useConversations(activeWorkspaceId)
 
@@ -47,6 +50,10 @@ function SearchPageContent() {
             onFolderChange={setFolderId}
             sortBy={sortBy}
             onSortChange={setSortBy}
+            filters={filters}
+            onFiltersChange={setFilters}
+            mode={mode}
+            onModeChange={setMode}
           />
         </div>
       </div>
@@ -59,6 +66,8 @@ function SearchPageContent() {
             conversations={conversations}
             folderId={folderId}
             sortBy={sortBy}
+            filters={filters}
+            mode={mode}
           />
         </div>
       </div>
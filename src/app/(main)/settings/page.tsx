@@ -21,6 +21,7 @@ import {
   EditProfileDialog,
   ChangePasswordDialog,
   Enable2FADialog,
+  ApiKeysCard,
 } from '@/components/settings'
 import type { RequestIntent } from '@/lib/api/routing'
 import type { AIProvider } from '@/types'
@@ -41,6 +42,7 @@ const PROVIDER_LABELS: Record<AIProvider, string> = {
   openai: 'GPT (OpenAI)',
   dust: 'Dust',
   ondobot: 'OndoBot',
+  local: 'Local model',
 }
 
 export default function SettingsPage() {
@@ -315,6 +317,9 @@ export default function SettingsPage() {
             </div>
           </CardContent>
         </Card>
+
+        {/* API Keys */}
+        <ApiKeysCard />
       </div>
     </div>
   )
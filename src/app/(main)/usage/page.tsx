@@ -0,0 +1,170 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { BarChart3, Download } from 'lucide-react'
+import { startOfDay, subDays } from 'date-fns'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { UsageBreakdownTable, UsageChart, UsageSummaryCards } from '@/components/usage'
+import { useUsageReport, useWorkspaces } from '@/lib/queries'
+import { usageApi } from '@/lib/api/client/usage'
+import { useAuthSession } from '@/hooks/useCurrentUser'
+import type { UsageDimension, UsageInterval, UsageQuery } from '@/types'
+
+const RANGE_OPTIONS = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last 12 months' },
+]
+
+const INTERVAL_OPTIONS: { value: UsageInterval; label: string }[] = [
+  { value: 'day', label: 'Daily' },
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+]
+
+const BREAKDOWN_TITLES: Record<UsageDimension, string> = {
+  user: 'By user',
+  workspace: 'By workspace',
+  project: 'By project',
+  model: 'By model',
+  provider: 'By provider',
+  source: 'By source',
+}
+
+const BREAKDOWN_ORDER: UsageDimension[] = ['user', 'model', 'project', 'workspace', 'provider', 'source']
+
+const SCOPE_ME = 'me'
+const SCOPE_ALL = 'all'
+
+export default function UsagePage() {
+  const { userId } = useAuthSession()
+  const { data: workspaces = [] } = useWorkspaces(userId || '')
+
+  const [range, setRange] = useState('30')
+  const [interval, setIntervalOption] = useState<UsageInterval>('day')
+  const [scope, setScope] = useState(SCOPE_ME)
+
+  const query = useMemo<UsageQuery>(() => {
+    const from = startOfDay(subDays(new Date(), Number(range) - 1))
+    return {
+      from,
+      interval,
+      all: scope === SCOPE_ALL,
+      workspaceId: scope !== SCOPE_ME && scope !== SCOPE_ALL ? scope : undefined,
+    }
+  }, [range, interval, scope])
+
+  const { data: report, isLoading, error } = useUsageReport(query)
+
+  const scopeNote = report && scope !== SCOPE_ME && !report.includesOtherUsers
+    ? 'Only workspace admins can see other members’ usage. Showing your own usage in this workspace.'
+    : null
+
+  return (
+    <div className="p-6 max-w-5xl mx-auto">
+      <div className="mb-6 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">Usage</h1>
+          <p className="text-muted-foreground">Token usage and estimated cost across providers</p>
+        </div>
+        <Button variant="outline" asChild>
+          <a href={usageApi.getExportUrl(query)} download>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </a>
+        </Button>
+      </div>
+
+      <div className="mb-6 flex flex-wrap gap-2">
+        <Select value={scope} onValueChange={setScope}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={SCOPE_ME}>My usage</SelectItem>
+            {workspaces.map((workspace) => (
+              <SelectItem key={workspace.id} value={workspace.id}>
+                {workspace.name}
+              </SelectItem>
+            ))}
+            {report?.canViewAll && <SelectItem value={SCOPE_ALL}>All usage</SelectItem>}
+          </SelectContent>
+        </Select>
+        <Select value={range} onValueChange={setRange}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={interval} onValueChange={(value) => setIntervalOption(value as UsageInterval)}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {INTERVAL_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-destructive">{error.message}</p>
+      ) : isLoading || !report ? (
+        <div className="space-y-4">
+          <Skeleton className="h-24 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {scopeNote && <p className="text-sm text-muted-foreground">{scopeNote}</p>}
+
+          <UsageSummaryCards totals={report.totals} />
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BarChart3 className="h-5 w-5" />
+                Cost over time
+              </CardTitle>
+              <CardDescription>
+                Estimated cost per {interval} based on provider list prices
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <UsageChart points={report.timeseries} interval={report.interval} />
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            {BREAKDOWN_ORDER.filter((dimension) => report.breakdowns[dimension]).map((dimension) => (
+              <UsageBreakdownTable
+                key={dimension}
+                title={BREAKDOWN_TITLES[dimension]}
+                items={report.breakdowns[dimension] ?? []}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
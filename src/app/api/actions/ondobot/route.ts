@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getProvider } from '@/lib/api/providers'
 import { OndoBotProvider } from '@/lib/api/providers/ondobot'
 import { requireSession } from '@/lib/auth/session'
+import { checkRateLimit, rateLimitHeaders, rateLimitResponse } from '@/lib/auth/rate-limit'
 
 /**
  * OndoBot Action Handler
@@ -49,6 +50,7 @@ function getOndoBotHeaders(): Record<string, string> {
 
 /**
  * Validate the authentication for OndoBot actions.
+ * Returns the caller's ID (used for rate limiting), or null if unauthorized.
  *
  * Authentication sources (in priority order):
  * 1. Session cookie (browser requests from authenticated users)
@@ -56,16 +58,16 @@ function getOndoBotHeaders(): Record<string, string> {
  * 3. OndoBot-specific key (ONDOBOT_API_KEY)
  * 4. Glean agent token (validated against GLEAN_API_KEY)
  */
-async function validateOndoBotAuth(request: NextRequest): Promise<boolean> {
+async function validateOndoBotAuth(request: NextRequest): Promise<string | null> {
   // Check for session-based auth first (browser requests)
   const session = await requireSession()
-  if (session) return true
+  if (session) return session.user.id
 
   // For external API requests, require Bearer token
   const authHeader = request.headers.get('authorization')
 
   if (!authHeader?.startsWith('Bearer ')) {
-    return false
+    return null
   }
 
   const token = authHeader.slice(7)
@@ -73,22 +75,22 @@ async function validateOndoBotAuth(request: NextRequest): Promise<boolean> {
   // Check internal API key
   const actionsApiKey = process.env.ACTIONS_API_KEY
   if (actionsApiKey && token === actionsApiKey) {
-    return true
+    return 'system'
   }
 
   // Check OndoBot-specific key
   const ondoBotApiKey = process.env.ONDOBOT_API_KEY
   if (ondoBotApiKey && token === ondoBotApiKey) {
-    return true
+    return 'ondobot'
   }
 
   // Validate Glean agent token against actual GLEAN_API_KEY
   const gleanApiKey = process.env.GLEAN_API_KEY
   if (gleanApiKey && token === gleanApiKey) {
-    return true
+    return 'glean-agent'
   }
 
-  return false
+  return null
 }
 
 /**
@@ -419,8 +421,8 @@ async function executeOndoBotAction(
 export async function POST(request: NextRequest) {
   try {
     // Validate authentication
-    const isAuthorized = await validateOndoBotAuth(request)
-    if (!isAuthorized) {
+    const callerId = await validateOndoBotAuth(request)
+    if (!callerId) {
       return NextResponse.json(
         {
           success: false,
@@ -433,6 +435,9 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const rateLimit = await checkRateLimit('actions', { userId: callerId })
+    if (rateLimit.limited) return rateLimitResponse(rateLimit)
+
     const body: OndoBotActionRequest = await request.json()
 
     // Validate request
@@ -477,6 +482,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(result, {
       status: result.success ? 200 : 500,
+      headers: rateLimitHeaders(rateLimit),
     })
   } catch (error) {
     console.error('OndoBot action error:', error)
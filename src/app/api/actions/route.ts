@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireSession } from '@/lib/auth/session'
+import { checkRateLimit, rateLimitHeaders, rateLimitResponse } from '@/lib/auth/rate-limit'
 
 /**
  * Action Dispatcher
@@ -195,6 +196,9 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const rateLimit = await checkRateLimit('actions', { userId: auth.user?.id ?? auth.source })
+    if (rateLimit.limited) return rateLimitResponse(rateLimit)
+
     // Check for OndoBot - redirect to dedicated endpoint
     if (body.system === 'ondobot') {
       return NextResponse.json(
@@ -246,6 +250,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(result, {
       status: result.success ? 200 : 500,
+      headers: rateLimitHeaders(rateLimit),
     })
   } catch (error) {
     console.error('Action dispatch error:', error)
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CATALOG_PROVIDERS, getAgentRegistry } from '@/lib/agents/registry'
+import { getAssistantAccess } from '@/lib/agents/database-storage'
+import { AgentOperationNotSupportedError } from '@/lib/agents/types'
+import type { AgentConfig, AgentProvider, AgentRunResult, AgentStreamEvent } from '@/lib/agents/types'
+import { APIError } from '@/lib/api/errors/apiErrors'
+import { getModelConfig } from '@/lib/api/config/providers'
+import { enforceMemberBudgets, enforceWorkspaceBudgets } from '@/lib/api/utils/budget'
+import { recordUsage } from '@/lib/db/services/usage'
+import { getWorkspace, parseWorkspaceSettings } from '@/lib/db/services/workspace'
+import { requireSession, unauthorizedResponse } from '@/lib/auth/session'
+import { checkRateLimit, rateLimitResponse } from '@/lib/auth/rate-limit'
+
+type RouteContext = { params: Promise<{ provider: string; agentId: string }> }
+
+const MAX_MESSAGE_LENGTH = 100000
+
+function toSSEStream(events: AsyncGenerator<AgentStreamEvent>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const encode = (event: AgentStreamEvent) => encoder.encode(`data: ${JSON.stringify(event)}\n\n`)
+  return new ReadableStream({
+    async start(controller) {
+      try {
+        for await (const event of events) {
+          controller.enqueue(encode(event))
+        }
+      } catch (error) {
+        controller.enqueue(encode({ type: 'error', error: error instanceof Error ? error.message : 'Unknown error' }))
+      } finally {
+        controller.close()
+      }
+    },
+  })
+}
+
+/**
+ * Workspace a run is charged to: that of a shared local assistant, else none
+ */
+function getRunWorkspaceId(agent: AgentConfig): string | null {
+  return agent.provider === 'local' ? getAssistantAccess(agent).workspaceId : null
+}
+
+/**
+ * Record a run's usage; remote agents bill by their own plans, so only
+ * models this deployment knows the price of have a cost
+ */
+function meterRun(
+  userId: string,
+  agent: AgentConfig,
+  usage: AgentRunResult['usage'],
+  metadata: Record<string, unknown>
+): void {
+  if (!usage) return
+  const model = getModelConfig(agent.model)
+  const pricing = model?.pricing
+  recordUsage({
+    userId,
+    workspaceId: getRunWorkspaceId(agent),
+    source: 'agent',
+    provider: model?.provider ?? agent.provider,
+    model: agent.model,
+    inputTokens: usage.inputTokens,
+    outputTokens: usage.outputTokens,
+    cost: pricing
+      ? (usage.inputTokens / 1_000_000) * pricing.inputPer1M + (usage.outputTokens / 1_000_000) * pricing.outputPer1M
+      : undefined,
+    metadata: { agentId: agent.id, agentProvider: agent.provider, ...metadata },
+  })
+}
+
+async function* meterStream(
+  events: AsyncGenerator<AgentStreamEvent>,
+  meter: (usage: AgentRunResult['usage'], runId?: string) => void
+): AsyncGenerator<AgentStreamEvent> {
+  let runId: string | undefined
+  for await (const event of events) {
+    if (event.type === 'start') runId = event.runId
+    if (event.type === 'done') meter(event.usage, runId)
+    yield event
+  }
+}
+
+// POST /api/agents/[provider]/[agentId]/runs - Run an agent, streaming agent events by default
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { provider, agentId } = await context.params
+    if (!CATALOG_PROVIDERS.includes(provider as AgentProvider)) {
+      return NextResponse.json({ error: `Unknown agent provider: ${provider}` }, { status: 400 })
+    }
+
+    const body = await request.json()
+    if (typeof body.message !== 'string' || !body.message.trim()) {
+      return NextResponse.json({ error: 'message is required' }, { status: 400 })
+    }
+    if (body.message.length > MAX_MESSAGE_LENGTH) {
+      return NextResponse.json(
+        { error: `message must be at most ${MAX_MESSAGE_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    const registry = getAgentRegistry(session.user)
+    const agent = await registry.getAgent(provider as AgentProvider, agentId).catch(() => null)
+    if (!agent) {
+      return NextResponse.json({ error: 'Agent not found' }, { status: 404 })
+    }
+
+    // Runs count towards the same rate limits and budgets as chats
+    const workspaceId = getRunWorkspaceId(agent)
+    const rateLimit = await checkRateLimit('chat', { userId: session.user.id, workspaceId })
+    if (rateLimit.limited) return rateLimitResponse(rateLimit)
+
+    const workspace = workspaceId ? await getWorkspace(workspaceId) : null
+    const budgets = workspace
+      ? await enforceWorkspaceBudgets(
+          workspace.id,
+          session.user.id,
+          [agent.model],
+          parseWorkspaceSettings(workspace).budgets
+        )
+      : await enforceMemberBudgets(session.user.id, [agent.model])
+    const headers: Record<string, string> = budgets.warning ? { 'X-Budget-Warning': budgets.warning } : {}
+
+    const meter = (usage: AgentRunResult['usage'], runId?: string) =>
+      meterRun(session.user.id, agent, usage, { runId })
+
+    const runRequest = {
+      agentId: agent.id,
+      threadId: typeof body.threadId === 'string' ? body.threadId : undefined,
+      message: body.message,
+      context: { timezone: typeof body.timezone === 'string' ? body.timezone : undefined },
+    }
+
+    if (body.stream === false) {
+      const result = await registry.run(agent.provider, runRequest)
+      meter(result.usage, result.runId)
+      return NextResponse.json({ data: result }, { headers })
+    }
+
+    return new Response(toSSEStream(meterStream(registry.runStream(agent.provider, runRequest), meter)), {
+      headers: {
+        ...headers,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      },
+    })
+  } catch (error) {
+    if (error instanceof AgentOperationNotSupportedError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error instanceof APIError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.statusCode })
+    }
+    console.error('Error running agent:', error)
+    return NextResponse.json(
+      { error: 'Failed to run agent' },
+      { status: 500 }
+    )
+  }
+}
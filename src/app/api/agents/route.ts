@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAgentRegistry } from '@/lib/agents/registry'
+import { requireSession, unauthorizedResponse } from '@/lib/auth/session'
+
+// GET /api/agents - List every agent the user can reach, across providers
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { searchParams } = new URL(request.url)
+    const query = searchParams.get('q') || undefined
+
+    const agents = await getAgentRegistry(session.user).listAgents({ query })
+
+    return NextResponse.json({ data: agents })
+  } catch (error) {
+    console.error('Error fetching agents:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch agents' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteApiKey, getApiKey } from '@/lib/db/services/api-key'
+import { requireSession, unauthorizedResponse, forbiddenResponse } from '@/lib/auth/session'
+
+interface RouteParams {
+  params: Promise<{ keyId: string }>
+}
+
+// DELETE /api/api-keys/:keyId - Revoke an API key
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { keyId } = await params
+
+    const key = await getApiKey(keyId)
+    if (!key) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      )
+    }
+
+    if (key.userId !== session.user.id) {
+      return forbiddenResponse()
+    }
+
+    await deleteApiKey(keyId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error revoking API key:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke API key' },
+      { status: 500 }
+    )
+  }
+}
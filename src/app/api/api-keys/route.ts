@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createApiKey, getUserApiKeys } from '@/lib/db/services/api-key'
+import { validateWorkspaceAccess } from '@/lib/auth/workspace'
+import { requireSession, unauthorizedResponse } from '@/lib/auth/session'
+
+const MAX_NAME_LENGTH = 100
+
+// GET /api/api-keys - List the session user's API keys
+export async function GET() {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const keys = await getUserApiKeys(session.user.id)
+
+    return NextResponse.json({ data: keys })
+  } catch (error) {
+    console.error('Error fetching API keys:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch API keys' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/api-keys - Create an API key; the secret is only returned here
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { name, workspaceId, expiresAt } = await request.json()
+
+    if (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Name is required and must be at most ${MAX_NAME_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    let expiry: Date | undefined
+    if (expiresAt) {
+      expiry = new Date(expiresAt)
+      if (isNaN(expiry.getTime()) || expiry.getTime() <= Date.now()) {
+        return NextResponse.json(
+          { error: 'Expiry must be a date in the future' },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (workspaceId) {
+      const hasAccess = await validateWorkspaceAccess(workspaceId, session.user.id)
+      if (!hasAccess) {
+        return NextResponse.json(
+          { error: 'Access denied to this workspace' },
+          { status: 403 }
+        )
+      }
+    }
+
+    const { key, secret } = await createApiKey({
+      userId: session.user.id,
+      name: name.trim(),
+      workspaceId: workspaceId || undefined,
+      expiresAt: expiry,
+    })
+
+    return NextResponse.json({ data: { ...key, secret } }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating API key:', error)
+    return NextResponse.json(
+      { error: 'Failed to create API key' },
+      { status: 500 }
+    )
+  }
+}
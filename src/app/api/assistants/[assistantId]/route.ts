@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAssistantAccess, getAssistantService } from '@/lib/agents/database-storage'
+import type { AgentConfig } from '@/lib/agents/types'
+import { getProviderForModel } from '@/lib/api/providers'
+import { validateAssistantInput } from '@/lib/db/services/assistant'
+import { canManageAssistant, canUseKnowledgeBases, resolveAssistantScope } from '@/lib/auth/assistant'
+import { requireSession, unauthorizedResponse, forbiddenResponse } from '@/lib/auth/session'
+
+type RouteContext = { params: Promise<{ assistantId: string }> }
+
+/**
+ * The assistant if the user can use it
+ */
+async function findAssistant(assistantId: string, userId: string): Promise<AgentConfig | null> {
+  return getAssistantService(userId).getAgent(assistantId).catch(() => null)
+}
+
+// GET /api/assistants/[assistantId] - Get a custom assistant
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { assistantId } = await context.params
+    const agent = await findAssistant(assistantId, session.user.id)
+    if (!agent) {
+      return NextResponse.json(
+        { error: 'Assistant not found' },
+        { status: 404 }
+      )
+    }
+
+    const canManage = await canManageAssistant(getAssistantAccess(agent), session.user.id)
+    return NextResponse.json({ data: { ...agent, canManage } })
+  } catch (error) {
+    console.error('Error fetching assistant:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch assistant' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/assistants/[assistantId] - Update a custom assistant
+export async function PATCH(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { assistantId } = await context.params
+    const existing = await findAssistant(assistantId, session.user.id)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Assistant not found' },
+        { status: 404 }
+      )
+    }
+
+    const access = getAssistantAccess(existing)
+    if (!(await canManageAssistant(access, session.user.id))) {
+      return forbiddenResponse()
+    }
+
+    const validated = validateAssistantInput(await request.json(), { partial: true })
+    if ('error' in validated) {
+      return NextResponse.json({ error: validated.error }, { status: 400 })
+    }
+    const { input } = validated
+
+    if (input.model) {
+      try {
+        getProviderForModel(input.model)
+      } catch {
+        return NextResponse.json({ error: `Unknown model: ${input.model}` }, { status: 400 })
+      }
+    }
+
+    let scope = { workspaceId: access.workspaceId, projectId: access.projectId }
+    if (input.scope) {
+      const resolved = await resolveAssistantScope(input, session.user.id)
+      if ('error' in resolved) {
+        return NextResponse.json({ error: resolved.error }, { status: 403 })
+      }
+      scope = resolved
+    }
+
+    if (input.dataSources && !(await canUseKnowledgeBases(input.dataSources, session.user.id))) {
+      return NextResponse.json({ error: 'Access denied to a knowledge base' }, { status: 403 })
+    }
+
+    // Only the fields sent are changed
+    const updates: Partial<AgentConfig> = {
+      metadata: { ...existing.metadata, ...scope },
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.description !== undefined && { description: input.description }),
+      ...(input.instructions !== undefined && { instructions: input.instructions }),
+      ...(input.model !== undefined && { model: input.model }),
+      ...(input.parameters !== undefined && { parameters: input.parameters }),
+      ...(input.tools !== undefined && { tools: input.tools }),
+      ...(input.dataSources !== undefined && { dataSources: input.dataSources }),
+    }
+
+    const agent = await getAssistantService(session.user.id).updateAgent(assistantId, updates)
+    return NextResponse.json({ data: { ...agent, canManage: true } })
+  } catch (error) {
+    console.error('Error updating assistant:', error)
+    return NextResponse.json(
+      { error: 'Failed to update assistant' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/assistants/[assistantId] - Delete a custom assistant; its threads are kept
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { assistantId } = await context.params
+    const existing = await findAssistant(assistantId, session.user.id)
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Assistant not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(await canManageAssistant(getAssistantAccess(existing), session.user.id))) {
+      return forbiddenResponse()
+    }
+
+    await getAssistantService(session.user.id).deleteAgent(assistantId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting assistant:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete assistant' },
+      { status: 500 }
+    )
+  }
+}
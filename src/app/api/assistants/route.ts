@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAssistantAccess, getAssistantService } from '@/lib/agents/database-storage'
+import { getProviderForModel } from '@/lib/api/providers'
+import { validateAssistantInput } from '@/lib/db/services/assistant'
+import { canManageAssistant, canUseKnowledgeBases, resolveAssistantScope } from '@/lib/auth/assistant'
+import { requireSession, unauthorizedResponse } from '@/lib/auth/session'
+
+// GET /api/assistants - List custom assistants the user can use
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { searchParams } = new URL(request.url)
+    const query = searchParams.get('q') || undefined
+
+    const agents = await getAssistantService(session.user.id).listAgents({ query })
+    const assistants = await Promise.all(
+      agents.map(async (agent) => ({
+        ...agent,
+        canManage: await canManageAssistant(getAssistantAccess(agent), session.user.id),
+      }))
+    )
+
+    return NextResponse.json({ data: assistants })
+  } catch (error) {
+    console.error('Error fetching assistants:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch assistants' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/assistants - Create a custom assistant
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const validated = validateAssistantInput(await request.json())
+    if ('error' in validated) {
+      return NextResponse.json({ error: validated.error }, { status: 400 })
+    }
+    const { input } = validated
+
+    try {
+      getProviderForModel(input.model as string)
+    } catch {
+      return NextResponse.json({ error: `Unknown model: ${input.model}` }, { status: 400 })
+    }
+
+    const scope = await resolveAssistantScope(input, session.user.id)
+    if ('error' in scope) {
+      return NextResponse.json({ error: scope.error }, { status: 403 })
+    }
+
+    if (input.dataSources && !(await canUseKnowledgeBases(input.dataSources, session.user.id))) {
+      return NextResponse.json({ error: 'Access denied to a knowledge base' }, { status: 403 })
+    }
+
+    const agent = await getAssistantService(session.user.id).createAgent({
+      name: input.name as string,
+      description: input.description,
+      instructions: input.instructions as string,
+      model: input.model as string,
+      provider: 'local',
+      parameters: input.parameters,
+      tools: input.tools,
+      dataSources: input.dataSources,
+      metadata: { ownerId: session.user.id, ...scope },
+    })
+
+    return NextResponse.json({ data: { ...agent, canManage: true } }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating assistant:', error)
+    return NextResponse.json(
+      { error: 'Failed to create assistant' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,18 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getTTSService, type TTSRequest, type TTSVoice, type TTSModel } from '@/lib/api/audio'
+import { getTTSService, getSpeechCost, type TTSRequest, type TTSVoice, type TTSModel } from '@/lib/api/audio'
+import { getUsageAttribution, recordUsage } from '@/lib/db/services/usage'
 import { requireSession, unauthorizedResponse } from '@/lib/auth/session'
-import { checkRateLimit, rateLimitResponse } from '@/lib/auth/rate-limit'
+import { checkRateLimit, rateLimitHeaders, rateLimitResponse } from '@/lib/auth/rate-limit'
 
 export async function POST(request: NextRequest) {
   try {
     const session = await requireSession()
     if (!session) return unauthorizedResponse()
 
-    // Rate limit: 10 requests per minute per user
-    const { limited, resetMs } = checkRateLimit(`audio:${session.user.id}`, 10)
-    if (limited) return rateLimitResponse(resetMs)
+    const body = await request.json() as TTSRequest & { conversationId?: string }
+    const attribution = await getUsageAttribution(session.user.id, body.conversationId)
 
-    const body = await request.json() as TTSRequest
+    const rateLimit = await checkRateLimit('speech', {
+      userId: session.user.id,
+      workspaceId: attribution.workspaceId,
+    })
+    if (rateLimit.limited) return rateLimitResponse(rateLimit)
 
     if (!body.text || body.text.trim().length === 0) {
       return NextResponse.json(
@@ -30,10 +34,11 @@ export async function POST(request: NextRequest) {
     }
 
     const ttsService = getTTSService()
+    const model = (body.model || 'tts-1') as TTSModel
     const result = await ttsService.speak({
       text: body.text,
       voice: body.voice as TTSVoice,
-      model: body.model as TTSModel,
+      model,
       speed: body.speed,
     })
 
@@ -44,11 +49,24 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    recordUsage({
+      userId: session.user.id,
+      ...attribution,
+      source: 'speech',
+      provider: 'openai',
+      model,
+      inputTokens: 0,
+      outputTokens: 0,
+      cost: getSpeechCost(body.text, model),
+      metadata: { characters: body.text.length },
+    })
+
     // Return audio as binary response
     return new NextResponse(result.audioBuffer, {
       headers: {
         'Content-Type': 'audio/mpeg',
         'Content-Length': result.audioBuffer.byteLength.toString(),
+        ...rateLimitHeaders(rateLimit),
       },
     })
   } catch (error) {
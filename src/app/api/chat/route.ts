@@ -1,12 +1,119 @@
 import { NextRequest, NextResponse } from 'next/server'
-import type { ChatCompletionRequest } from '@/types'
-import { getProviderForModel } from '@/lib/api/providers'
-import { createSSEStream } from '@/lib/api/streaming/encoder'
-import { APIError, ValidationError } from '@/lib/api/errors/apiErrors'
+import type {
+  ChatCompletionMetadata,
+  Citation,
+  ChatCompletionMessage,
+  ChatCompletionRequest,
+  ContextStrategy,
+  FunctionParameters,
+  StreamEvent,
+  TokenUsage,
+  ToolPolicies,
+  UsageSource,
+} from '@/types'
+import {
+  getProviderForModel,
+  getFallbackChain,
+  completeWithFallback,
+  streamWithFallback,
+} from '@/lib/api/providers'
+import { createSSEStream, meterStream } from '@/lib/api/streaming/encoder'
+import {
+  completeWithTools,
+  createToolContext,
+  filterDisabledTools,
+  getWorkspaceToolRegistry,
+  parseMaxToolSteps,
+  resolveServerTools,
+  streamWithTools,
+  type ToolLoopOptions,
+} from '@/lib/api/tools'
+import { APIError, ProviderNotAllowedError, ValidationError } from '@/lib/api/errors/apiErrors'
 import { chatLogger, logChatCompletion } from '@/lib/logging'
-import { getRouteForRequest, getRoutingConfig } from '@/lib/api/routing'
+import { getRouteForRequest, getRoutingConfig, extractLatestUserContent } from '@/lib/api/routing'
+import { manageContext, getContextConfig } from '@/lib/api/context'
+import { parseResponseFormat } from '@/lib/api/utils/structured-output'
+import { enforceMemberBudgets, enforceWorkspaceBudgets } from '@/lib/api/utils/budget'
+import { createRoutingDecision } from '@/lib/db/services/routing'
+import {
+  getConversation,
+  parseContextSummary,
+  updateConversationContextSummary,
+} from '@/lib/db/services/conversation'
+import { getProject, parseProjectSettings } from '@/lib/db/services/project'
+import { getWorkspace, isProviderAllowed, parseWorkspaceSettings } from '@/lib/db/services/workspace'
+import { recordUsage } from '@/lib/db/services/usage'
+import { getUserUploadedFiles } from '@/lib/db/services/uploaded-file'
+import { getCitedSources, retrieveProjectKnowledge, type RetrievedKnowledge } from '@/lib/knowledge'
+import { getAssistantIdFromModelId } from '@/lib/agents/assistants'
+import { getAssistantAccess, getAssistantService } from '@/lib/agents/database-storage'
+import type { AgentConfig } from '@/lib/agents/types'
 import { requireSession, unauthorizedResponse } from '@/lib/auth/session'
-import { checkRateLimit, rateLimitResponse } from '@/lib/auth/rate-limit'
+import { canSearchAssistantKnowledgeBase } from '@/lib/auth/assistant'
+import { checkRateLimit, rateLimitHeaders, rateLimitResponse } from '@/lib/auth/rate-limit'
+
+/**
+ * Attach the knowledge base sources the answer cites, unless the provider
+ * returned citations of its own
+ */
+async function* citeStream(
+  events: AsyncGenerator<StreamEvent>,
+  sources: Citation[]
+): AsyncGenerator<StreamEvent> {
+  for await (const event of events) {
+    if (event.type === 'done' && !event.data.citations?.length) {
+      const cited = getCitedSources(event.data.content ?? '', sources)
+      if (cited.length > 0) {
+        yield { ...event, data: { ...event.data, citations: cited } }
+        continue
+      }
+    }
+    yield event
+  }
+}
+
+/**
+ * Fill in the stored text of uploaded attachments, which clients send by id
+ */
+async function attachUploadedFiles(
+  messages: ChatCompletionMessage[],
+  userId: string
+): Promise<ChatCompletionMessage[]> {
+  const ids = messages
+    .flatMap((message) => message.files ?? [])
+    .map((file) => file.fileId)
+    .filter((id): id is string => !!id)
+  if (ids.length === 0) return messages
+
+  const uploaded = new Map(
+    (await getUserUploadedFiles(userId, Array.from(new Set(ids)))).map((file) => [file.id, file])
+  )
+
+  return messages.map((message) => {
+    if (!message.files?.length) return message
+    return {
+      ...message,
+      files: message.files.map((file) => {
+        const stored = file.fileId ? uploaded.get(file.fileId) : undefined
+        return stored ? { ...file, content: stored.content, status: 'ready' as const } : file
+      }),
+    }
+  })
+}
+
+/**
+ * The custom assistant an `assistant-<id>` model selects, if the user can use it
+ */
+async function resolveAssistant(model: string, userId: string): Promise<AgentConfig | null> {
+  const assistantId = getAssistantIdFromModelId(model)
+  if (!assistantId) return null
+
+  const assistant = await getAssistantService(userId).getAgent(assistantId).catch(() => null)
+  if (!assistant) {
+    throw new APIError(`Assistant not found: ${assistantId}`, 404, 'ASSISTANT_NOT_FOUND')
+  }
+  return assistant
+}
 
 export async function POST(request: NextRequest) {
   const requestId = crypto.randomUUID()
@@ -16,10 +123,6 @@ export async function POST(request: NextRequest) {
     const session = await requireSession()
     if (!session) return unauthorizedResponse()
 
-    // Rate limit: 30 requests per minute per user
-    const { limited, resetMs } = checkRateLimit(`chat:${session.user.id}`, 30)
-    if (limited) return rateLimitResponse(resetMs)
-
     const body = await request.json()
 
     // Validate request
@@ -31,43 +134,251 @@ export async function POST(request: NextRequest) {
       throw new ValidationError('Model is required')
     }
 
+    const conversation = body.conversationId ? await getConversation(body.conversationId) : null
+    const ownConversation = conversation?.userId === session.user.id ? conversation : null
+
+    const rateLimit = await checkRateLimit('chat', {
+      userId: session.user.id,
+      workspaceId: ownConversation?.workspaceId,
+    })
+    if (rateLimit.limited) return rateLimitResponse(rateLimit)
+
+    const responseFormat = parseResponseFormat(body.options?.responseFormat)
+    const stream = body.options?.stream ?? true
+    if (responseFormat && responseFormat.type !== 'text' && stream) {
+      throw new ValidationError('responseFormat requires a non-streaming request (options.stream: false)')
+    }
+
+    const toolExecution = body.options?.toolExecution ?? 'client'
+    if (toolExecution !== 'client' && toolExecution !== 'server') {
+      throw new ValidationError("toolExecution must be 'client' or 'server'")
+    }
+
+    // A custom assistant brings its own model, instructions, parameters and tools;
+    // options sent with the request still take precedence over its parameters
+    const assistant = await resolveAssistant(body.model, session.user.id)
+    const assistantTools = assistant?.tools
+      ?.filter((tool) => tool.type === 'function')
+      .map((tool) => ({
+        type: 'function' as const,
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: (tool.parameters ?? { type: 'object', properties: {} }) as FunctionParameters,
+        },
+      }))
+
     const chatRequest: ChatCompletionRequest = {
       conversationId: body.conversationId || 'default',
-      messages: body.messages,
-      provider: body.provider,
-      model: body.model,
+      messages: await attachUploadedFiles(body.messages, session.user.id),
+      provider: assistant ? getProviderForModel(assistant.model).provider : body.provider,
+      model: assistant?.model ?? body.model,
       userEmail: session.user.email || undefined,
       options: {
-        temperature: body.options?.temperature,
-        maxTokens: body.options?.maxTokens,
-        topP: body.options?.topP,
-        stream: body.options?.stream ?? true,
-        systemPrompt: body.options?.systemPrompt,
+        temperature: body.options?.temperature ?? assistant?.parameters?.temperature,
+        maxTokens: body.options?.maxTokens ?? assistant?.parameters?.maxTokens,
+        topP: body.options?.topP ?? assistant?.parameters?.topP,
+        stream,
+        systemPrompt: [assistant?.instructions, body.options?.systemPrompt].filter(Boolean).join('\n\n') || undefined,
         // Tool-related options
-        tools: body.options?.tools,
+        tools: body.options?.tools ?? (assistantTools?.length ? assistantTools : undefined),
         tool_choice: body.options?.tool_choice,
         parallel_tool_calls: body.options?.parallel_tool_calls,
+        responseFormat,
       },
     }
 
-    // Determine routing - check if auto-routing is enabled
+    // Server-side tool execution runs the tool loop here instead of in the browser
+    let toolLoop: ToolLoopOptions | undefined
+    if (toolExecution === 'server') {
+      toolLoop = {
+        maxSteps: parseMaxToolSteps(body.options?.maxToolSteps),
+        context: createToolContext(request),
+      }
+    }
+
+    // Project settings pin auto-routing, restrict providers and choose the context strategy
+    const project = ownConversation?.projectId ? await getProject(ownConversation.projectId) : null
+    const projectSettings = project ? parseProjectSettings(project.settings) : {}
+    // The project's instructions follow the assistant's and precede those sent with the request
+    if (projectSettings.systemPrompt) {
+      chatRequest.options = {
+        ...chatRequest.options,
+        systemPrompt: [assistant?.instructions, projectSettings.systemPrompt, body.options?.systemPrompt]
+          .filter(Boolean)
+          .join('\n\n'),
+      }
+    }
+
+    const meter = (source: UsageSource, usage: TokenUsage, metadata: ChatCompletionMetadata) => {
+      recordUsage({
+        userId: session.user.id,
+        workspaceId: ownConversation?.workspaceId,
+        projectId: ownConversation?.projectId,
+        conversationId: ownConversation?.id,
+        source,
+        provider: metadata.provider,
+        model: metadata.model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        cost: usage.estimatedCost,
+        metadata: {
+          requestId,
+          cacheReadTokens: usage.cacheReadTokens,
+          cacheWriteTokens: usage.cacheWriteTokens,
+          fallbackFrom: metadata.fallbackFrom,
+        },
+      })
+    }
+
+    // Determine routing - check if auto-routing is enabled; an assistant always uses its own model
     const routingConfig = getRoutingConfig()
-    const autoRouting = body.options?.autoRouting ?? routingConfig.autoRoutingEnabled
+    const autoRouting =
+      !assistant &&
+      (projectSettings.autoRouting ?? body.options?.autoRouting ?? routingConfig.autoRoutingEnabled)
 
     const route = await getRouteForRequest(chatRequest, {
       autoRouting,
       confidenceThreshold: routingConfig.confidenceThreshold,
       providerPreferences: body.options?.providerPreferences,
       modelOverrides: body.options?.modelOverrides,
+      onCompletion: (response) => meter('routing', response.usage, response.metadata),
     })
 
-    // Update request with routed model/provider if auto-routed
-    if (route.wasAutoRouted) {
+    // Update request with routed model/provider if auto-routed, unless the project forbids its provider
+    const wasAutoRouted =
+      route.wasAutoRouted && isProviderAllowed(projectSettings, getProviderForModel(route.model).provider)
+    if (wasAutoRouted) {
       chatRequest.model = route.model
       chatRequest.provider = route.provider
     }
 
     const provider = getProviderForModel(chatRequest.model)
+    if (!isProviderAllowed(projectSettings, provider.provider)) {
+      throw new ProviderNotAllowedError(provider.provider, chatRequest.model, 'project')
+    }
+    let fallbackChain = getFallbackChain(chatRequest).filter((model) =>
+      isProviderAllowed(projectSettings, getProviderForModel(model).provider)
+    )
+
+    // Persist the classification for offline evaluation and user corrections
+    let routingDecisionId: string | undefined
+    if (route.classification) {
+      routingDecisionId = crypto.randomUUID()
+      createRoutingDecision({
+        id: routingDecisionId,
+        userId: session.user.id,
+        conversationId: body.conversationId,
+        query: extractLatestUserContent(chatRequest.messages),
+        mode: routingConfig.mode,
+        intent: route.classification.intent,
+        confidence: route.classification.confidence,
+        reasoning: route.classification.reasoning,
+        routedProvider: chatRequest.provider || provider.provider,
+        routedModel: chatRequest.model,
+        wasAutoRouted,
+      }).catch((error) => {
+        chatLogger.warn('Failed to persist routing decision', {
+          requestId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      })
+    }
+
+    // Block the request before any provider call if a workspace budget is used up
+    let budgetWarning: string | undefined
+    let toolPolicies: ToolPolicies | undefined
+    if (ownConversation?.workspaceId) {
+      const workspace = await getWorkspace(ownConversation.workspaceId)
+      if (workspace) {
+        const workspaceSettings = parseWorkspaceSettings(workspace)
+        const budgets = await enforceWorkspaceBudgets(
+          workspace.id,
+          session.user.id,
+          fallbackChain,
+          workspaceSettings.budgets
+        )
+        fallbackChain = budgets.fallbackChain
+        budgetWarning = budgets.warning
+        toolPolicies = workspaceSettings.toolPolicies
+      }
+    } else {
+      // Outside a workspace, the member budgets of all the user's workspaces still apply
+      const budgets = await enforceMemberBudgets(session.user.id, fallbackChain)
+      fallbackChain = budgets.fallbackChain
+      budgetWarning = budgets.warning
+    }
+
+    // Tools the workspace disabled are never offered to the model
+    if (toolPolicies && chatRequest.options?.tools?.length) {
+      const tools = filterDisabledTools(chatRequest.options.tools, toolPolicies)
+      chatRequest.options.tools = tools.length > 0 ? tools : undefined
+    }
+    if (toolLoop) {
+      toolLoop.policies = toolPolicies
+      // Conversations in a workspace can also run the tools of its MCP servers
+      if (ownConversation?.workspaceId) {
+        toolLoop.registry = await getWorkspaceToolRegistry(ownConversation.workspaceId)
+      }
+      if (chatRequest.options?.tools?.length) {
+        chatRequest.options.tools = resolveServerTools(chatRequest.options.tools, toolLoop.registry)
+      }
+    }
+
+    const contextConfig = getContextConfig()
+    // Fit the history into the model's context window using the project's strategy
+    const contextStrategy: ContextStrategy = projectSettings.contextStrategy || contextConfig.strategy
+
+    // Ground the answer in the assistant's knowledge base, else the project's documents;
+    // retrieval problems never block the chat
+    let knowledgeProjectId = project?.id
+    const knowledgeBaseId = assistant?.dataSources?.find((source) => source.type === 'knowledge_base')?.id
+    if (assistant && knowledgeBaseId) {
+      if (await canSearchAssistantKnowledgeBase(getAssistantAccess(assistant), knowledgeBaseId, session.user.id)) {
+        knowledgeProjectId = knowledgeBaseId
+      } else {
+        chatLogger.warn('Skipping inaccessible assistant knowledge base', { requestId, assistantId: assistant.id })
+      }
+    }
+    let knowledge: RetrievedKnowledge | null = null
+    if (knowledgeProjectId) {
+      knowledge = await retrieveProjectKnowledge(knowledgeProjectId, extractLatestUserContent(chatRequest.messages), {
+        userId: session.user.id,
+        workspaceId: ownConversation?.workspaceId,
+        conversationId: ownConversation?.id,
+      }).catch((error) => {
+        chatLogger.warn('Failed to retrieve project knowledge', {
+          requestId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+        return null
+      })
+    }
+    if (knowledge) {
+      chatRequest.options = {
+        ...chatRequest.options,
+        systemPrompt: [chatRequest.options?.systemPrompt, knowledge.prompt].filter(Boolean).join('\n\n'),
+      }
+    }
+
+    const managed = await manageContext(chatRequest, {
+      strategy: contextStrategy,
+      summary: parseContextSummary(ownConversation?.contextSummary ?? null),
+      summaryModel: contextConfig.summaryModel,
+      windowTurns: contextConfig.windowTurns,
+      onCompletion: (response) => meter('context_summary', response.usage, response.metadata),
+    })
+    chatRequest.messages = managed.request.messages
+    chatRequest.options = managed.request.options
+
+    if (ownConversation && managed.summary) {
+      updateConversationContextSummary(ownConversation.id, managed.summary).catch((error) => {
+        chatLogger.warn('Failed to persist context summary', {
+          requestId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      })
+    }
 
     chatLogger.info('Chat request received', {
       requestId,
@@ -75,25 +386,49 @@ export async function POST(request: NextRequest) {
       model: chatRequest.model,
       provider: chatRequest.provider || provider.provider,
       messageCount: chatRequest.messages.length,
+      inputTokens: managed.inputTokens,
+      contextStrategy,
+      contextReductions: managed.applied,
+      knowledgeSources: knowledge?.citations.length,
       streaming: chatRequest.options?.stream !== false,
       hasTools: !!(chatRequest.options?.tools?.length),
-      autoRouted: route.wasAutoRouted,
+      toolExecution,
+      responseFormat: responseFormat?.type,
+      autoRouted: wasAutoRouted,
       intent: route.classification?.intent,
+      fallbackChain,
     })
 
     // Build routing headers for transparency
     const routingHeaders: Record<string, string> = {
+      ...rateLimitHeaders(rateLimit),
       'X-Request-Id': requestId,
-      'X-Routed-By': route.wasAutoRouted ? routingConfig.mode : 'explicit',
+      'X-Routed-By': wasAutoRouted ? routingConfig.mode : 'explicit',
     }
     if (route.classification) {
       routingHeaders['X-Intent'] = route.classification.intent
       routingHeaders['X-Intent-Confidence'] = route.classification.confidence.toFixed(2)
     }
+    if (routingDecisionId) {
+      routingHeaders['X-Routing-Decision-Id'] = routingDecisionId
+    }
+    if (managed.applied.length > 0) {
+      routingHeaders['X-Context-Managed'] = managed.applied.join(',')
+    }
+    if (budgetWarning) {
+      routingHeaders['X-Budget-Warning'] = budgetWarning
+    }
+    if (knowledge) {
+      routingHeaders['X-Knowledge-Sources'] = String(knowledge.citations.length)
+    }
 
     // Check if streaming is requested
     if (chatRequest.options?.stream !== false) {
-      const stream = createSSEStream(provider.stream(chatRequest))
+      // Every model turn of a server-side tool loop is metered on its own
+      const streamTurn = (turn: ChatCompletionRequest) =>
+        meterStream(streamWithFallback(turn, fallbackChain), (usage, metadata) => meter('chat', usage, metadata))
+      const events = toolLoop ? streamWithTools(chatRequest, streamTurn, toolLoop) : streamTurn(chatRequest)
+      const stream = createSSEStream(knowledge ? citeStream(events, knowledge.citations) : events)
 
       return new Response(stream, {
         headers: {
@@ -106,13 +441,27 @@ export async function POST(request: NextRequest) {
     }
 
     // Non-streaming response
-    const response = await provider.complete(chatRequest)
+    const completeTurn = async (turn: ChatCompletionRequest) => {
+      const response = await completeWithFallback(turn, fallbackChain)
+      meter('chat', response.usage, response.metadata)
+      return response
+    }
+    const response = toolLoop
+      ? await completeWithTools(chatRequest, completeTurn, toolLoop)
+      : await completeTurn(chatRequest)
+
+    if (knowledge && !response.citations?.length) {
+      const cited = getCitedSources(response.message.content ?? '', knowledge.citations)
+      if (cited.length > 0) response.citations = cited
+    }
 
     logChatCompletion(chatRequest.conversationId, {
-      provider: chatRequest.provider || provider.provider,
-      model: chatRequest.model,
+      provider: response.metadata.provider,
+      model: response.metadata.model,
       inputTokens: response.usage?.inputTokens,
       outputTokens: response.usage?.outputTokens,
+      cacheReadTokens: response.usage?.cacheReadTokens,
+      cacheWriteTokens: response.usage?.cacheWriteTokens,
       duration: Date.now() - startTime,
       toolCalls: response.message.tool_calls?.length,
       success: true,
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { TokenCountRequest, TokenCountResponse } from '@/types'
+import { getProviderForModel } from '@/lib/api/providers'
+import { getModelConfig } from '@/lib/api/config/providers'
+import { APIError, ValidationError } from '@/lib/api/errors/apiErrors'
+import { chatLogger } from '@/lib/logging'
+import { requireSession, unauthorizedResponse } from '@/lib/auth/session'
+import { checkRateLimit, rateLimitHeaders, rateLimitResponse } from '@/lib/auth/rate-limit'
+
+// Fallback context window for models outside the catalog (Glean agents, etc.)
+const DEFAULT_CONTEXT_WINDOW = 32000
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    // Counting runs while the user types, so allow more than chat requests
+    const rateLimit = await checkRateLimit('chat_tokens', { userId: session.user.id })
+    if (rateLimit.limited) return rateLimitResponse(rateLimit)
+
+    const body = await request.json()
+
+    if (!body.model) {
+      throw new ValidationError('Model is required')
+    }
+
+    if (!Array.isArray(body.messages)) {
+      throw new ValidationError('Messages array is required')
+    }
+
+    const countRequest: TokenCountRequest = {
+      model: body.model,
+      messages: body.messages,
+      systemPrompt: body.systemPrompt,
+      tools: body.tools,
+    }
+
+    const provider = getProviderForModel(countRequest.model)
+    const inputTokens = await provider.countTokens(countRequest)
+    const model = getModelConfig(countRequest.model)
+
+    const response: TokenCountResponse = {
+      model: countRequest.model,
+      inputTokens,
+      contextWindow: model?.capabilities.maxInputTokens ?? DEFAULT_CONTEXT_WINDOW,
+    }
+
+    return NextResponse.json(response, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    chatLogger.error('Token count failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+
+    if (error instanceof APIError) {
+      return NextResponse.json(error.toJSON(), { status: error.statusCode })
+    }
+
+    return NextResponse.json(
+      {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to count tokens',
+      },
+      { status: 500 }
+    )
+  }
+}
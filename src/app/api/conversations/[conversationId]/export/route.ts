@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getConversation, getConversationTree } from '@/lib/db/services/conversation'
+import {
+  buildExportDocument,
+  EXPORT_CONTENT_TYPES,
+  getExportFileName,
+  isExportFormat,
+  renderHtml,
+  renderMarkdown,
+} from '@/lib/conversations'
+import { validateWorkspaceAccess } from '@/lib/auth/workspace'
+import { requireSession, unauthorizedResponse, forbiddenResponse } from '@/lib/auth/session'
+
+type RouteContext = { params: Promise<{ conversationId: string }> }
+
+// GET /api/conversations/[conversationId]/export?format=markdown|json|html - Download a conversation with its branches
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { conversationId } = await context.params
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') ?? 'markdown'
+    // print=true opens the HTML inline with the print dialog, for saving as PDF
+    const print = searchParams.get('print') === 'true'
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: 'format must be one of markdown, json or html' },
+        { status: 400 }
+      )
+    }
+
+    const conversation = await getConversation(conversationId)
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
+    if (conversation.userId !== session.user.id) {
+      const hasAccess = conversation.workspaceId
+        ? await validateWorkspaceAccess(conversation.workspaceId, session.user.id)
+        : false
+      if (!hasAccess) return forbiddenResponse()
+    }
+
+    const tree = await getConversationTree(conversationId)
+    if (!tree) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
+    const document = buildExportDocument(tree)
+    const body =
+      format === 'json'
+        ? JSON.stringify(document, null, 2)
+        : format === 'html'
+          ? renderHtml(document, { autoPrint: print })
+          : renderMarkdown(document)
+
+    const fileName = getExportFileName(conversation.title, format)
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `${print ? 'inline' : 'attachment'}; filename="${fileName}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting conversation:', error)
+    return NextResponse.json(
+      { error: 'Failed to export conversation' },
+      { status: 500 }
+    )
+  }
+}
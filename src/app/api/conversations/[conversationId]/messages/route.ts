@@ -4,6 +4,7 @@ import {
   createMessage,
   getConversation,
 } from '@/lib/db/services/conversation'
+import { linkRoutingDecisionToMessage } from '@/lib/db/services/routing'
 import { validateWorkspaceAccess } from '@/lib/auth/workspace'
 import { requireSession, unauthorizedResponse, forbiddenResponse } from '@/lib/auth/session'
 
@@ -122,6 +123,14 @@ export async function POST(
       metadata,
     })
 
+    // Attach the auto-routing decision to the answer it produced
+    const decisionId = (metadata?.routing as { decisionId?: unknown } | undefined)?.decisionId
+    if (role === 'assistant' && typeof decisionId === 'string') {
+      linkRoutingDecisionToMessage(decisionId, message.id, session.user.id, conversationId).catch((error) => {
+        console.error('Error linking routing decision:', error)
+      })
+    }
+
     return NextResponse.json({ data: message }, { status: 201 })
   } catch (error) {
     console.error('Error creating message:', error)
@@ -8,6 +8,8 @@ import {
   archiveConversation,
   toggleConversationPin,
 } from '@/lib/db/services/conversation'
+import { getAssistantByModelId } from '@/lib/db/services/assistant'
+import { canUseAssistant } from '@/lib/auth/assistant'
 import { validateWorkspaceAccess } from '@/lib/auth/workspace'
 import { requireSession, unauthorizedResponse, forbiddenResponse } from '@/lib/auth/session'
 
@@ -120,10 +122,24 @@ export async function PATCH(
       }
     }
 
+    // Switching to a custom assistant makes the conversation one of its threads
+    let assistantId: string | null | undefined
+    if (model !== undefined) {
+      const assistant = await getAssistantByModelId(model)
+      if (assistant && !(await canUseAssistant(assistant, session.user.id))) {
+        return NextResponse.json(
+          { error: 'Access denied to this assistant' },
+          { status: 403 }
+        )
+      }
+      assistantId = assistant?.id ?? null
+    }
+
     const conversation = await updateConversation(conversationId, {
       title,
       model,
       provider,
+      assistantId,
       systemPrompt,
       archived,
       pinned,
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getConversation } from '@/lib/db/services/conversation'
+import { getConversationShare, revokeConversationShare } from '@/lib/db/services/share'
+import { canManageConversationShares } from '@/lib/auth/share'
+import { requireSession, unauthorizedResponse, forbiddenResponse } from '@/lib/auth/session'
+
+type RouteContext = { params: Promise<{ conversationId: string; shareId: string }> }
+
+// DELETE /api/conversations/[conversationId]/shares/[shareId] - Revoke a share link
+export async function DELETE(
+  _request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { conversationId, shareId } = await context.params
+    const share = await getConversationShare(shareId)
+    if (!share || share.conversationId !== conversationId) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 })
+    }
+
+    const conversation = await getConversation(conversationId)
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+    if (!(await canManageConversationShares(conversation, session.user.id))) {
+      return forbiddenResponse()
+    }
+
+    await revokeConversationShare(shareId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error revoking share link:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke share link' },
+      { status: 500 }
+    )
+  }
+}
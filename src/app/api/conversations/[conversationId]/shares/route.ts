@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getConversation } from '@/lib/db/services/conversation'
+import { createConversationShare, getConversationShares } from '@/lib/db/services/share'
+import { canManageConversationShares } from '@/lib/auth/share'
+import { requireSession, unauthorizedResponse, forbiddenResponse } from '@/lib/auth/session'
+
+type RouteContext = { params: Promise<{ conversationId: string }> }
+
+const MAX_EXPIRY_DAYS = 365
+
+// GET /api/conversations/[conversationId]/shares - List active share links
+export async function GET(
+  _request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { conversationId } = await context.params
+    const conversation = await getConversation(conversationId)
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+    if (!(await canManageConversationShares(conversation, session.user.id))) {
+      return forbiddenResponse()
+    }
+
+    const shares = await getConversationShares(conversationId)
+    return NextResponse.json({ data: shares })
+  } catch (error) {
+    console.error('Error fetching share links:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch share links' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/conversations/[conversationId]/shares - Create a read-only share link
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { conversationId } = await context.params
+    const body = await request.json().catch(() => ({}))
+    const { expiresInDays } = body as { expiresInDays?: number }
+
+    if (
+      expiresInDays !== undefined &&
+      (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS)
+    ) {
+      return NextResponse.json(
+        { error: `expiresInDays must be a whole number between 1 and ${MAX_EXPIRY_DAYS}` },
+        { status: 400 }
+      )
+    }
+
+    const conversation = await getConversation(conversationId)
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+    if (!(await canManageConversationShares(conversation, session.user.id))) {
+      return forbiddenResponse()
+    }
+
+    const expiresAt = expiresInDays ? new Date(Date.now() + expiresInDays * 86_400_000) : undefined
+    const share = await createConversationShare({
+      conversationId,
+      createdById: session.user.id,
+      expiresAt,
+    })
+
+    return NextResponse.json({ data: share }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating share link:', error)
+    return NextResponse.json(
+      { error: 'Failed to create share link' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { importConversation, type ImportTarget } from '@/lib/db/services/conversation'
+import { getProject } from '@/lib/db/services/project'
+import { getFolder } from '@/lib/db/services/folder'
+import {
+  MAX_IMPORT_FILE_BYTES,
+  detectImportSource,
+  parseImport,
+  parseImportFile,
+} from '@/lib/conversations'
+import { ZipLimitError } from '@/lib/files/zip'
+import { validateWorkspaceAccess } from '@/lib/auth/workspace'
+import { requireSession, unauthorizedResponse, forbiddenResponse } from '@/lib/auth/session'
+import { apiLogger } from '@/lib/logging'
+import type { ConversationImportResult } from '@/types'
+
+const MAX_IMPORT_CONVERSATIONS = 2000
+
+/**
+ * Where imported conversations go. A project decides the workspace; without
+ * one the conversations land unorganized in the given workspace.
+ */
+async function resolveImportTarget(
+  userId: string,
+  form: FormData
+): Promise<{ target: ImportTarget } | { response: NextResponse }> {
+  const projectId = (form.get('projectId') as string | null) || null
+  const folderId = (form.get('folderId') as string | null) || null
+  const workspaceIdParam = (form.get('workspaceId') as string | null) || null
+  const workspaceId = workspaceIdParam === 'null' ? null : workspaceIdParam
+
+  if (!projectId) {
+    if (folderId) {
+      return { response: NextResponse.json({ error: 'folderId requires projectId' }, { status: 400 }) }
+    }
+    if (workspaceId && !(await validateWorkspaceAccess(workspaceId, userId))) {
+      return { response: forbiddenResponse() }
+    }
+    return { target: { userId, workspaceId } }
+  }
+
+  const project = await getProject(projectId)
+  if (!project) {
+    return { response: NextResponse.json({ error: 'Project not found' }, { status: 404 }) }
+  }
+  if (project.ownerId !== userId) {
+    const hasAccess = project.workspaceId
+      ? await validateWorkspaceAccess(project.workspaceId, userId)
+      : false
+    if (!hasAccess) return { response: forbiddenResponse() }
+  }
+
+  if (folderId) {
+    const folder = await getFolder(folderId)
+    if (!folder || folder.projectId !== projectId) {
+      return { response: NextResponse.json({ error: 'Folder not found in project' }, { status: 400 }) }
+    }
+  }
+
+  return { target: { userId, workspaceId: project.workspaceId, projectId, folderId } }
+}
+
+// POST /api/conversations/import - Import a ChatGPT, Claude or Ondo AI export (multipart: file, projectId?, folderId?, workspaceId?)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const form = await request.formData()
+    const file = form.get('file')
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'file is required' }, { status: 400 })
+    }
+    if (file.size > MAX_IMPORT_FILE_BYTES) {
+      return NextResponse.json(
+        { error: `File exceeds maximum size of ${MAX_IMPORT_FILE_BYTES / (1024 * 1024)} MB` },
+        { status: 413 }
+      )
+    }
+
+    const resolved = await resolveImportTarget(session.user.id, form)
+    if ('response' in resolved) return resolved.response
+    const { target } = resolved
+
+    let data: unknown
+    try {
+      data = parseImportFile(Buffer.from(await file.arrayBuffer()))
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Could not read the file' },
+        { status: error instanceof ZipLimitError ? 413 : 400 }
+      )
+    }
+
+    const source = detectImportSource(data)
+    if (!source) {
+      return NextResponse.json(
+        { error: 'Unrecognized export. Upload a ChatGPT or Claude export, or an Ondo AI JSON export.' },
+        { status: 400 }
+      )
+    }
+
+    const conversations = parseImport(data, source)
+    if (conversations.length > MAX_IMPORT_CONVERSATIONS) {
+      return NextResponse.json(
+        { error: `Exports are limited to ${MAX_IMPORT_CONVERSATIONS} conversations per import` },
+        { status: 400 }
+      )
+    }
+
+    const result: ConversationImportResult = {
+      source,
+      imported: 0,
+      skipped: (Array.isArray(data) ? data.length : 1) - conversations.length,
+      messages: 0,
+      conversationIds: [],
+    }
+
+    // Sequential so a large migration does not exhaust the connection pool
+    for (const conversation of conversations) {
+      try {
+        const imported = await importConversation(target, conversation)
+        result.imported++
+        result.messages += imported.messageCount
+        result.conversationIds.push(imported.conversation.id)
+      } catch (error) {
+        result.skipped++
+        apiLogger.warn('Failed to import conversation', {
+          userId: session.user.id,
+          source,
+          title: conversation.title,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+    }
+
+    apiLogger.info('Conversations imported', {
+      userId: session.user.id,
+      source,
+      imported: result.imported,
+      skipped: result.skipped,
+      messages: result.messages,
+    })
+
+    return NextResponse.json({ data: result }, { status: 201 })
+  } catch (error) {
+    console.error('Error importing conversations:', error)
+    return NextResponse.json(
+      { error: 'Failed to import conversations' },
+      { status: 500 }
+    )
+  }
+}
@@ -5,9 +5,54 @@ import {
   getPinnedConversations,
   getRecentConversations,
   searchConversations,
+  hybridSearchConversations,
 } from '@/lib/db/services/conversation'
+import { getAssistantByModelId } from '@/lib/db/services/assistant'
+import { canUseAssistant } from '@/lib/auth/assistant'
 import { validateWorkspaceAccess } from '@/lib/auth/workspace'
 import { requireSession, unauthorizedResponse } from '@/lib/auth/session'
+import type { AIProvider, ConversationSearchFilters } from '@/types'
+
+const MAX_SEARCH_LIMIT = 100
+
+const SEARCH_ROLES = ['user', 'assistant'] as const
+const SEARCH_PROVIDERS: AIProvider[] = ['openai', 'anthropic', 'glean', 'dust', 'ondobot', 'local']
+
+function parseDateParam(value: string | null): Date | undefined | null {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+/** A non-negative integer, undefined when absent, or null when invalid */
+function parseCountParam(value: string | null): number | undefined | null {
+  if (!value) return undefined
+  return /^\d+$/.test(value) ? parseInt(value, 10) : null
+}
+
+/**
+ * Read search filters from the query string, or return null if any is invalid
+ */
+function parseSearchFilters(searchParams: URLSearchParams): ConversationSearchFilters | null {
+  const role = searchParams.get('role')
+  const provider = searchParams.get('provider')
+  const from = parseDateParam(searchParams.get('from'))
+  const to = parseDateParam(searchParams.get('to'))
+
+  if (role && !SEARCH_ROLES.includes(role as (typeof SEARCH_ROLES)[number])) return null
+  if (provider && !SEARCH_PROVIDERS.includes(provider as AIProvider)) return null
+  if (from === null || to === null) return null
+
+  return {
+    modelId: searchParams.get('model') || undefined,
+    provider: (provider as AIProvider) || undefined,
+    role: (role as ConversationSearchFilters['role']) || undefined,
+    from,
+    to,
+    hasAttachments: searchParams.get('hasAttachments') === 'true',
+    hasToolCalls: searchParams.get('hasToolCalls') === 'true',
+  }
+}
 
 // GET /api/conversations - Get conversations for user
 export async function GET(request: NextRequest) {
@@ -23,8 +68,14 @@ export async function GET(request: NextRequest) {
     const pinned = searchParams.get('pinned') === 'true'
     const recent = searchParams.get('recent') === 'true'
     const archived = searchParams.get('archived') === 'true'
-    const limit = searchParams.get('limit')
-    const offset = searchParams.get('offset')
+    const limit = parseCountParam(searchParams.get('limit'))
+    const offset = parseCountParam(searchParams.get('offset'))
+    if (limit === null || offset === null) {
+      return NextResponse.json(
+        { error: 'limit and offset must be non-negative integers' },
+        { status: 400 }
+      )
+    }
     // workspaceId: 'null' string means Personal space, actual value means workspace
     const workspaceIdParam = searchParams.get('workspaceId')
     const workspaceId = workspaceIdParam === 'null' ? null : workspaceIdParam
@@ -40,22 +91,33 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Search mode — returns conversations with matching message snippets
+    // Search mode — returns a page of ranked conversations with matching message snippets
     if (search) {
-      const results = await searchConversations(userId, workspaceId, search, {
+      const filters = parseSearchFilters(searchParams)
+      if (!filters) {
+        return NextResponse.json({ error: 'Invalid search filters' }, { status: 400 })
+      }
+
+      const sort = searchParams.get('sort')
+      // hybrid adds semantic matches from message embeddings
+      const runSearch = searchParams.get('mode') === 'hybrid' ? hybridSearchConversations : searchConversations
+      const page = await runSearch(userId, workspaceId, search, {
         projectId: projectId || undefined,
         folderId: folderId || undefined,
-        limit: limit ? parseInt(limit, 10) : undefined,
         includeArchived: archived,
+        filters,
+        sort: sort === 'date' ? 'date' : 'relevance',
+        limit: limit !== undefined ? Math.min(limit, MAX_SEARCH_LIMIT) : undefined,
+        offset,
       })
-      return NextResponse.json({ data: results })
+      return NextResponse.json({ data: page })
     }
 
     // Pinned conversations
     if (pinned) {
       const conversations = await getPinnedConversations(userId, workspaceId, {
         projectId: projectId || undefined,
-        limit: limit ? parseInt(limit, 10) : undefined,
+        limit,
       })
       return NextResponse.json({ data: conversations })
     }
@@ -63,7 +125,7 @@ export async function GET(request: NextRequest) {
     // Recent conversations (without project)
     if (recent) {
       const conversations = await getRecentConversations(userId, workspaceId, {
-        limit: limit ? parseInt(limit, 10) : undefined,
+        limit,
         excludeProjected: true,
       })
       return NextResponse.json({ data: conversations })
@@ -72,8 +134,8 @@ export async function GET(request: NextRequest) {
     // User conversations
     const conversations = await getUserConversations(userId, workspaceId, {
       projectId: projectId || undefined,
-      limit: limit ? parseInt(limit, 10) : undefined,
-      offset: offset ? parseInt(offset, 10) : undefined,
+      limit,
+      offset,
       archived,
     })
     return NextResponse.json({ data: conversations })
@@ -114,11 +176,21 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Conversations started with a custom assistant are its threads
+    const assistant = await getAssistantByModelId(model)
+    if (assistant && !(await canUseAssistant(assistant, userId))) {
+      return NextResponse.json(
+        { error: 'Access denied to this assistant' },
+        { status: 403 }
+      )
+    }
+
     const conversation = await createConversation({
       userId,
       projectId,
       folderId,
       workspaceId: workspaceId ?? null, // null = Personal space
+      assistantId: assistant?.id ?? null,
       title,
       model,
       provider,
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createUploadedFile } from '@/lib/db/services/uploaded-file'
+import { extractFile, MAX_EXTRACTED_CHARS } from '@/lib/files/extraction'
+import { FILE_SIZE_LIMITS, formatFileSize, getFileType } from '@/lib/files/types'
+import { requireSession, unauthorizedResponse } from '@/lib/auth/session'
+
+// POST /api/files - Extract and store the text of a chat attachment (multipart: file)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const form = await request.formData()
+    const file = form.get('file')
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'file is required' }, { status: 400 })
+    }
+
+    const limit = FILE_SIZE_LIMITS[getFileType(file.name, file.type)]
+    if (file.size > limit) {
+      return NextResponse.json(
+        { error: `File exceeds maximum size of ${formatFileSize(limit)}` },
+        { status: 413 }
+      )
+    }
+
+    let extracted
+    try {
+      extracted = await extractFile(Buffer.from(await file.arrayBuffer()), file.name, file.type, {
+        maxChars: MAX_EXTRACTED_CHARS,
+      })
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Could not read the file' },
+        { status: 400 }
+      )
+    }
+
+    const uploaded = await createUploadedFile({
+      userId: session.user.id,
+      name: file.name,
+      mimeType: extracted.mimeType,
+      fileType: extracted.fileType,
+      size: file.size,
+      content: extracted.content,
+      pageCount: extracted.pageCount,
+      truncated: extracted.truncated,
+      totalChars: extracted.totalChars,
+    })
+
+    return NextResponse.json({ data: uploaded }, { status: 201 })
+  } catch (error) {
+    console.error('Error uploading file:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload file' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import type { AgentPreviewConfig, GleanCitation } from '@/types'
 import { requireSession, unauthorizedResponse } from '@/lib/auth/session'
+import { recordUsage } from '@/lib/db/services/usage'
+import { estimateTextTokens } from '@/lib/api/utils/tokens'
 
 // Mock response for development
 const MOCK_CITATIONS: GleanCitation[] = [
@@ -96,9 +98,21 @@ export async function POST(request: NextRequest) {
     }
 
     const data = await gleanResponse.json()
+    const content: string = data.message?.content || data.content || ''
+
+    // Glean does not report token counts, so estimate them for metering
+    recordUsage({
+      userId: session.user.id,
+      source: 'agent_preview',
+      provider: 'glean',
+      model: 'glean-agent-preview',
+      inputTokens: estimateTextTokens(config.systemPrompt + query),
+      outputTokens: estimateTextTokens(content),
+      metadata: { estimated: true },
+    })
 
     return NextResponse.json({
-      response: data.message?.content || data.content || '',
+      response: content,
       citations: data.citations?.map((c: Record<string, unknown>, i: number) => ({
         id: `citation-${i}`,
         title: c.title || 'Untitled',
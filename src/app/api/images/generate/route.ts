@@ -1,18 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getDALLEService, type ImageGenerationRequest } from '@/lib/api/images'
+import { getDALLEService, getImageCost, IMAGE_MODEL, type ImageGenerationRequest } from '@/lib/api/images'
+import { getUsageAttribution, recordUsage } from '@/lib/db/services/usage'
 import { requireSession, unauthorizedResponse } from '@/lib/auth/session'
-import { checkRateLimit, rateLimitResponse } from '@/lib/auth/rate-limit'
+import { checkRateLimit, rateLimitHeaders, rateLimitResponse } from '@/lib/auth/rate-limit'
 
 export async function POST(request: NextRequest) {
   try {
     const session = await requireSession()
     if (!session) return unauthorizedResponse()
 
-    // Rate limit: 10 requests per minute per user
-    const { limited, resetMs } = checkRateLimit(`images:${session.user.id}`, 10)
-    if (limited) return rateLimitResponse(resetMs)
+    const body = await request.json() as ImageGenerationRequest & { conversationId?: string }
+    const attribution = await getUsageAttribution(session.user.id, body.conversationId)
 
-    const body = await request.json() as ImageGenerationRequest
+    const rateLimit = await checkRateLimit('images', {
+      userId: session.user.id,
+      workspaceId: attribution.workspaceId,
+    })
+    if (rateLimit.limited) return rateLimitResponse(rateLimit)
 
     if (!body.prompt || body.prompt.trim().length === 0) {
       return NextResponse.json(
@@ -36,10 +40,26 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    return NextResponse.json({
-      success: true,
-      images: result.images,
+    const imageCount = result.images?.length ?? 0
+    recordUsage({
+      userId: session.user.id,
+      ...attribution,
+      source: 'image',
+      provider: 'openai',
+      model: IMAGE_MODEL,
+      inputTokens: 0,
+      outputTokens: 0,
+      cost: getImageCost(body) * imageCount,
+      metadata: { images: imageCount, size: body.size || '1024x1024', quality: body.quality || 'standard' },
     })
+
+    return NextResponse.json(
+      {
+        success: true,
+        images: result.images,
+      },
+      { headers: rateLimitHeaders(rateLimit) }
+    )
   } catch (error) {
     console.error('Image generation error:', error)
     return NextResponse.json(
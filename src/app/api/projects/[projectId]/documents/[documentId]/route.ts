@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getProject } from '@/lib/db/services/project'
+import { deleteProjectDocument, getProjectDocument } from '@/lib/db/services/project-document'
+import { canAccessProject, canDeleteProjectDocument } from '@/lib/auth/project'
+import { requireSession, unauthorizedResponse, forbiddenResponse } from '@/lib/auth/session'
+
+type RouteContext = { params: Promise<{ projectId: string; documentId: string }> }
+
+// GET /api/projects/[projectId]/documents/[documentId] - View a document's extracted text (citation links open this)
+export async function GET(
+  _request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { projectId, documentId } = await context.params
+    const document = await getProjectDocument(documentId)
+    if (!document || document.projectId !== projectId) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const project = await getProject(projectId)
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+    if (!(await canAccessProject(project, session.user.id))) {
+      return forbiddenResponse()
+    }
+
+    return new Response(document.content, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Content-Disposition': `inline; filename="${encodeURIComponent(document.name)}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching project document:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch project document' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/projects/[projectId]/documents/[documentId] - Remove a document from the knowledge base
+export async function DELETE(
+  _request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { projectId, documentId } = await context.params
+    const document = await getProjectDocument(documentId)
+    if (!document || document.projectId !== projectId) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const project = await getProject(projectId)
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+    if (!(await canDeleteProjectDocument(project, document, session.user.id))) {
+      return forbiddenResponse()
+    }
+
+    await deleteProjectDocument(documentId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting project document:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete project document' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getProject } from '@/lib/db/services/project'
+import { createProjectDocument, getProjectDocuments } from '@/lib/db/services/project-document'
+import { extractDocumentText, indexProjectDocument, MAX_DOCUMENT_BYTES } from '@/lib/knowledge'
+import { getEmbeddingProvider } from '@/lib/embeddings'
+import { canAccessProject } from '@/lib/auth/project'
+import { requireSession, unauthorizedResponse, forbiddenResponse } from '@/lib/auth/session'
+
+type RouteContext = { params: Promise<{ projectId: string }> }
+
+// GET /api/projects/[projectId]/documents - List the project's knowledge base
+export async function GET(
+  _request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { projectId } = await context.params
+    const project = await getProject(projectId)
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+    if (!(await canAccessProject(project, session.user.id))) {
+      return forbiddenResponse()
+    }
+
+    const documents = await getProjectDocuments(projectId)
+    return NextResponse.json({ data: documents })
+  } catch (error) {
+    console.error('Error fetching project documents:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch project documents' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/projects/[projectId]/documents - Add a document to the knowledge base (multipart: file)
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { projectId } = await context.params
+    const project = await getProject(projectId)
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+    if (!(await canAccessProject(project, session.user.id))) {
+      return forbiddenResponse()
+    }
+
+    if (!getEmbeddingProvider()) {
+      return NextResponse.json(
+        { error: 'Knowledge bases require an embedding backend (EMBEDDING_PROVIDER)' },
+        { status: 503 }
+      )
+    }
+
+    const form = await request.formData()
+    const file = form.get('file')
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'file is required' }, { status: 400 })
+    }
+    if (file.size > MAX_DOCUMENT_BYTES) {
+      return NextResponse.json(
+        { error: `File exceeds maximum size of ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB` },
+        { status: 413 }
+      )
+    }
+
+    let extracted
+    try {
+      extracted = await extractDocumentText(file)
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Could not read the file' },
+        { status: 400 }
+      )
+    }
+
+    const document = await createProjectDocument({
+      projectId,
+      uploadedById: session.user.id,
+      name: file.name,
+      mimeType: extracted.mimeType,
+      fileType: extracted.fileType,
+      size: file.size,
+      content: extracted.content,
+      sections: extracted.sections,
+    })
+
+    // Indexed before responding so the document is searchable as soon as the upload finishes
+    const indexed = await indexProjectDocument(document, {
+      userId: session.user.id,
+      workspaceId: project.workspaceId,
+      projectId,
+    })
+
+    return NextResponse.json(
+      { data: { ...indexed, uploadedBy: { name: session.user.name ?? null, email: session.user.email } } },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error uploading project document:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload document' },
+      { status: 500 }
+    )
+  }
+}
@@ -7,23 +7,14 @@ import {
   deleteProject,
   archiveProject,
   unarchiveProject,
+  validateProjectSettings,
 } from '@/lib/db/services/project'
-import { validateWorkspaceAccess } from '@/lib/auth/workspace'
+import { canAccessProject } from '@/lib/auth/project'
 import { requireSession, unauthorizedResponse, forbiddenResponse } from '@/lib/auth/session'
+import type { ProjectSettings } from '@/types'
 
 type RouteContext = { params: Promise<{ projectId: string }> }
 
-/**
- * Verify the session user owns or has workspace access to a project.
- */
-async function authorizeProject(project: { ownerId: string; workspaceId: string | null }, sessionUserId: string) {
-  if (project.ownerId === sessionUserId) return true
-  if (project.workspaceId) {
-    return validateWorkspaceAccess(project.workspaceId, sessionUserId)
-  }
-  return false
-}
-
 // GET /api/projects/[projectId] - Get a single project
 export async function GET(
   request: NextRequest,
@@ -54,7 +45,7 @@ export async function GET(
       )
     }
 
-    if (!(await authorizeProject(project, session.user.id))) {
+    if (!(await canAccessProject(project, session.user.id))) {
       return forbiddenResponse()
     }
 
@@ -87,7 +78,7 @@ export async function PATCH(
       )
     }
 
-    if (!(await authorizeProject(existingProject, session.user.id))) {
+    if (!(await canAccessProject(existingProject, session.user.id))) {
       return forbiddenResponse()
     }
 
@@ -101,7 +92,16 @@ export async function PATCH(
       return NextResponse.json({ data: project })
     }
 
-    const { name, description, color, icon, archived, settings } = body
+    const { name, description, color, icon, archived } = body
+
+    let settings: ProjectSettings | undefined
+    if (body.settings !== undefined) {
+      const result = validateProjectSettings(body.settings)
+      if ('error' in result) {
+        return NextResponse.json({ error: result.error }, { status: 400 })
+      }
+      settings = result.settings
+    }
 
     const project = await updateProject(projectId, {
       name,
@@ -141,7 +141,7 @@ export async function DELETE(
       )
     }
 
-    if (!(await authorizeProject(existingProject, session.user.id))) {
+    if (!(await canAccessProject(existingProject, session.user.id))) {
       return forbiddenResponse()
     }
 
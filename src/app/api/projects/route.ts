@@ -3,9 +3,11 @@ import {
   createProject,
   getUserProjects,
   searchProjects,
+  validateProjectSettings,
 } from '@/lib/db/services/project'
 import { validateWorkspaceAccess } from '@/lib/auth/workspace'
 import { requireSession, unauthorizedResponse } from '@/lib/auth/session'
+import type { ProjectSettings } from '@/types'
 
 // GET /api/projects - Get projects for user or workspace
 export async function GET(request: NextRequest) {
@@ -69,7 +71,7 @@ export async function POST(request: NextRequest) {
     const userId = session.user.id
 
     const body = await request.json()
-    const { workspaceId, name, description, color, icon, settings } = body
+    const { workspaceId, name, description, color, icon } = body
 
     if (!name) {
       return NextResponse.json(
@@ -78,6 +80,15 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    let settings: ProjectSettings | undefined
+    if (body.settings !== undefined) {
+      const result = validateProjectSettings(body.settings)
+      if ('error' in result) {
+        return NextResponse.json({ error: result.error }, { status: 400 })
+      }
+      settings = result.settings
+    }
+
     // Validate workspace access if specified
     if (workspaceId) {
       const hasAccess = await validateWorkspaceAccess(workspaceId, userId)
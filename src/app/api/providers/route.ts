@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server'
 import type { ProvidersResponse } from '@/types'
-import { getAllProviders, getEnabledModels } from '@/lib/api/providers'
+import { getAllProviders, getEnabledModels, refreshDynamicModels } from '@/lib/api/providers'
 import { requireSession, unauthorizedResponse } from '@/lib/auth/session'
 
 export async function GET() {
@@ -8,6 +8,8 @@ export async function GET() {
     const session = await requireSession()
     if (!session) return unauthorizedResponse()
 
+    await refreshDynamicModels()
+
     const providers = getAllProviders()
     const models = getEnabledModels()
 
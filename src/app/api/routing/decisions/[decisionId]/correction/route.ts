@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRoutingDecision, recordRoutingCorrection } from '@/lib/db/services/routing'
+import { isRequestIntent } from '@/lib/api/routing/evaluation'
+import { requireSession, unauthorizedResponse, forbiddenResponse } from '@/lib/auth/session'
+import type { AIProvider } from '@/types'
+
+interface RouteParams {
+  params: Promise<{ decisionId: string }>
+}
+
+const PROVIDERS: AIProvider[] = ['openai', 'anthropic', 'glean', 'dust', 'ondobot', 'local']
+
+// POST /api/routing/decisions/:decisionId/correction - Record "this should have gone to X"
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { decisionId } = await params
+
+    const decision = await getRoutingDecision(decisionId)
+    if (!decision) {
+      return NextResponse.json(
+        { error: 'Routing decision not found' },
+        { status: 404 }
+      )
+    }
+
+    if (decision.userId !== session.user.id) {
+      return forbiddenResponse()
+    }
+
+    const body = await request.json()
+    const { intent, provider } = body
+
+    if (!isRequestIntent(intent)) {
+      return NextResponse.json(
+        { error: 'A valid intent is required' },
+        { status: 400 }
+      )
+    }
+
+    if (provider !== undefined && !PROVIDERS.includes(provider)) {
+      return NextResponse.json(
+        { error: 'Invalid provider' },
+        { status: 400 }
+      )
+    }
+
+    const updated = await recordRoutingCorrection(decisionId, {
+      correctedIntent: intent,
+      correctedProvider: provider,
+    })
+
+    return NextResponse.json({ data: updated })
+  } catch (error) {
+    console.error('Error recording routing correction:', error)
+    return NextResponse.json(
+      { error: 'Failed to record routing correction' },
+      { status: 500 }
+    )
+  }
+}
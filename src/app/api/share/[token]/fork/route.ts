@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { branchConversation } from '@/lib/db/services/conversation'
+import { getShareByToken, getSharedMessages } from '@/lib/db/services/share'
+import { validateWorkspaceAccess } from '@/lib/auth/workspace'
+import { requireSession, unauthorizedResponse, forbiddenResponse } from '@/lib/auth/session'
+
+interface RouteParams {
+  params: Promise<{ token: string }>
+}
+
+// POST /api/share/:token/fork - Copy a shared conversation into the caller's workspace
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { token } = await params
+    const body = await request.json().catch(() => ({}))
+    // null or omitted = Personal space
+    const workspaceId = (body as { workspaceId?: string | null }).workspaceId ?? null
+
+    if (workspaceId) {
+      const hasAccess = await validateWorkspaceAccess(workspaceId, session.user.id)
+      if (!hasAccess) return forbiddenResponse()
+    }
+
+    const lookup = await getShareByToken(token)
+    if (lookup.status !== 'active') {
+      return NextResponse.json(
+        { error: 'Share link is no longer available' },
+        { status: lookup.status === 'not_found' ? 404 : 410 }
+      )
+    }
+
+    const { share } = lookup
+    const messages = await getSharedMessages(share)
+    const lastMessage = messages[messages.length - 1]
+    if (!lastMessage) {
+      return NextResponse.json({ error: 'Shared conversation has no messages' }, { status: 400 })
+    }
+
+    // Copy up to the last shared message, detached from the original
+    const conversation = await branchConversation({
+      userId: session.user.id,
+      sourceConversationId: share.conversationId,
+      branchPointMessageId: lastMessage.id,
+      fork: {
+        workspaceId,
+        metadata: { forkedFrom: { shareId: share.id } },
+      },
+    })
+
+    return NextResponse.json({ data: conversation }, { status: 201 })
+  } catch (error) {
+    console.error('Error forking shared conversation:', error)
+    return NextResponse.json(
+      { error: 'Failed to fork conversation' },
+      { status: 500 }
+    )
+  }
+}
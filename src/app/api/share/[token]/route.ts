@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getShareByToken, getSharedMessages, recordShareView } from '@/lib/db/services/share'
+import { getUser } from '@/lib/db/services/user'
+import type { Message as DbMessage } from '@/generated/prisma'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: Promise<{ token: string }>
+}
+
+const UNAVAILABLE_MESSAGES = {
+  not_found: 'Share link not found',
+  expired: 'Share link has expired',
+  revoked: 'Share link has been revoked',
+} as const
+
+function parseJson(value: string | null) {
+  return value ? JSON.parse(value) : undefined
+}
+
+/**
+ * Shape a stored message like the chat UI's Message, with citations and tool
+ * executions lifted out of metadata
+ */
+function toSharedMessage(message: DbMessage) {
+  const { citations, tool_executions, ...metadata } = parseJson(message.metadata) ?? {}
+  return {
+    id: message.id,
+    conversationId: message.conversationId,
+    role: message.role,
+    content: message.content,
+    createdAt: message.createdAt,
+    metadata: { ...metadata, model: metadata.model ?? message.model ?? undefined },
+    attachments: parseJson(message.attachments),
+    tool_calls: parseJson(message.toolCalls),
+    tool_call_id: message.toolCallId ?? undefined,
+    tool_executions,
+    citations,
+  }
+}
+
+// GET /api/share/:token - Read-only view of a shared conversation (no login required)
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { token } = await params
+    const lookup = await getShareByToken(token)
+
+    if (lookup.status !== 'active') {
+      return NextResponse.json(
+        { error: UNAVAILABLE_MESSAGES[lookup.status], status: lookup.status },
+        { status: lookup.status === 'not_found' ? 404 : 410 }
+      )
+    }
+
+    const { share } = lookup
+    const [messages, sharedBy] = await Promise.all([
+      getSharedMessages(share),
+      getUser(share.createdById),
+    ])
+
+    recordShareView(share.id).catch((error) => {
+      console.error('Failed to record share view:', error)
+    })
+
+    return NextResponse.json({
+      data: {
+        title: share.conversation.title,
+        modelId: share.conversation.model,
+        sharedBy: sharedBy?.name ?? undefined,
+        sharedAt: share.createdAt,
+        expiresAt: share.expiresAt,
+        messages: messages.map(toSharedMessage),
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching shared conversation:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch shared conversation' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireSession, unauthorizedResponse } from '@/lib/auth/session'
+import { resolveUsageScope } from '@/lib/auth/usage'
+import { getUsageRecordsForExport } from '@/lib/db/services/usage'
+
+const MAX_EXPORT_ROWS = 50_000
+
+const COLUMNS = [
+  'createdAt',
+  'userEmail',
+  'workspace',
+  'project',
+  'conversationId',
+  'source',
+  'provider',
+  'model',
+  'inputTokens',
+  'outputTokens',
+  'cost',
+]
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return ''
+  const text = String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// GET /api/usage/export - Raw usage records as CSV
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const result = await resolveUsageScope(request.nextUrl.searchParams, session.user.id)
+    if (result.error !== undefined) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    const { filter } = result.scope
+    const records = await getUsageRecordsForExport(filter, MAX_EXPORT_ROWS)
+
+    const lines = [
+      COLUMNS.join(','),
+      ...records.map((record) =>
+        [
+          record.createdAt.toISOString(),
+          record.userEmail,
+          record.workspaceName,
+          record.projectName,
+          record.conversationId,
+          record.source,
+          record.provider,
+          record.model,
+          record.inputTokens,
+          record.outputTokens,
+          record.cost?.toFixed(6) ?? null,
+        ]
+          .map(csvCell)
+          .join(',')
+      ),
+    ]
+
+    const filename = `usage-${filter.from.toISOString().slice(0, 10)}-to-${filter.to.toISOString().slice(0, 10)}.csv`
+
+    return new Response(lines.join('\n') + '\n', {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        ...(records.length === MAX_EXPORT_ROWS && { 'X-Truncated': 'true' }),
+      },
+    })
+  } catch (error) {
+    console.error('Failed to export usage:', error)
+    return NextResponse.json(
+      { error: 'Failed to export usage' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireSession, unauthorizedResponse } from '@/lib/auth/session'
+import { resolveUsageScope } from '@/lib/auth/usage'
+import { getUsageBreakdown, getUsageTimeseries, getUsageTotals } from '@/lib/db/services/usage'
+import type { UsageDimension, UsageReport } from '@/types'
+
+// GET /api/usage - Usage totals, timeseries and breakdowns for the dashboard
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const result = await resolveUsageScope(request.nextUrl.searchParams, session.user.id)
+    if (result.error !== undefined) {
+      return NextResponse.json({ error: result.error }, { status: result.status })
+    }
+
+    const { filter, interval, includesOtherUsers, isAppAdmin } = result.scope
+    const dimensions: UsageDimension[] = ['model', 'provider', 'source', 'workspace', 'project']
+    if (includesOtherUsers) dimensions.push('user')
+
+    const [totals, timeseries, ...breakdowns] = await Promise.all([
+      getUsageTotals(filter),
+      getUsageTimeseries(filter, interval),
+      ...dimensions.map((dimension) => getUsageBreakdown(filter, dimension)),
+    ])
+
+    const report: UsageReport = {
+      from: filter.from.toISOString(),
+      to: filter.to.toISOString(),
+      interval,
+      totals,
+      timeseries,
+      breakdowns: Object.fromEntries(dimensions.map((dimension, i) => [dimension, breakdowns[i]])),
+      includesOtherUsers,
+      canViewAll: isAppAdmin,
+    }
+
+    return NextResponse.json({ data: report })
+  } catch (error) {
+    console.error('Failed to get usage report:', error)
+    return NextResponse.json(
+      { error: 'Failed to get usage report' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,225 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { ChatCompletionMetadata, ChatCompletionRequest, TokenUsage } from '@/types'
+import { completeWithFallback, refreshDynamicModels, streamWithFallback } from '@/lib/api/providers'
+import {
+  createOpenAIStream,
+  getGatewayFallbackChain,
+  getGatewayPolicy,
+  openAIErrorResponse,
+  resolveGatewayRoute,
+  toChatCompletionRequest,
+  toOpenAIErrorResponse,
+  toOpenAIResponse,
+  type OpenAIChatCompletionBody,
+} from '@/lib/api/gateway'
+import { meterStream } from '@/lib/api/streaming/encoder'
+import {
+  completeWithTools,
+  filterDisabledTools,
+  getGatewayToolRegistry,
+  parseMaxToolSteps,
+  resolveServerTools,
+  streamWithTools,
+  type ToolLoopOptions,
+} from '@/lib/api/tools'
+import { isJsonResponseFormat } from '@/lib/api/utils/structured-output'
+import { enforceMemberBudgets, enforceWorkspaceBudgets } from '@/lib/api/utils/budget'
+import { APIError, ValidationError } from '@/lib/api/errors/apiErrors'
+import { chatLogger, logChatCompletion } from '@/lib/logging'
+import { getUser } from '@/lib/db/services/user'
+import { recordUsage } from '@/lib/db/services/usage'
+import { requireApiKey } from '@/lib/auth/api-key'
+import { checkRateLimit, rateLimitHeaders } from '@/lib/auth/rate-limit'
+
+// POST /api/v1/chat/completions - OpenAI-compatible chat completions
+export async function POST(request: NextRequest) {
+  const requestId = crypto.randomUUID()
+  const startTime = Date.now()
+  const headers: Record<string, string> = { 'X-Request-Id': requestId }
+
+  try {
+    const apiKey = await requireApiKey(request)
+    if (!apiKey) return openAIErrorResponse('Invalid or missing API key', 401, 'invalid_api_key', headers)
+
+    // Shared by all of the user's keys
+    const rateLimit = await checkRateLimit('api', { userId: apiKey.userId, workspaceId: apiKey.workspaceId })
+    Object.assign(headers, rateLimitHeaders(rateLimit))
+    if (rateLimit.limited) {
+      return openAIErrorResponse('Too many requests. Please try again later.', 429, 'rate_limit_exceeded', {
+        ...headers,
+        'Retry-After': Math.ceil(rateLimit.resetMs / 1000).toString(),
+      })
+    }
+
+    const policy = await getGatewayPolicy(apiKey)
+    if (!policy) {
+      return openAIErrorResponse(
+        'This API key no longer has access to its workspace',
+        403,
+        'workspace_access_denied',
+        headers
+      )
+    }
+
+    let body: OpenAIChatCompletionBody
+    try {
+      body = await request.json()
+    } catch {
+      throw new ValidationError('Request body must be valid JSON')
+    }
+
+    const user = await getUser(apiKey.userId)
+    const chatRequest = toChatCompletionRequest(body, {
+      conversationId: `api-${requestId}`,
+      userEmail: user?.email,
+    })
+    const stream = chatRequest.options?.stream === true
+    if (stream && isJsonResponseFormat(chatRequest.options?.responseFormat)) {
+      throw new ValidationError('response_format requires a non-streaming request (stream: false)')
+    }
+    const toolExecution = body.tool_execution ?? 'client'
+    if (toolExecution !== 'client' && toolExecution !== 'server') {
+      throw new ValidationError("tool_execution must be 'client' or 'server'")
+    }
+
+    await refreshDynamicModels()
+    // Classifying an `auto` request may take a completion of its own
+    const route = await resolveGatewayRoute(chatRequest, policy, (response) => {
+      recordUsage({
+        userId: apiKey.userId,
+        workspaceId: policy.workspaceId,
+        source: 'routing',
+        provider: response.metadata.provider,
+        model: response.metadata.model,
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
+        cost: response.usage.estimatedCost,
+        metadata: { requestId, apiKeyId: apiKey.id },
+      })
+    })
+    chatRequest.model = route.model.id
+    chatRequest.provider = route.model.provider
+    let fallbackChain = getGatewayFallbackChain(chatRequest, policy)
+
+    const budgets = policy.workspaceId
+      ? await enforceWorkspaceBudgets(policy.workspaceId, apiKey.userId, fallbackChain, policy.settings.budgets)
+      : await enforceMemberBudgets(apiKey.userId, fallbackChain)
+    fallbackChain = budgets.fallbackChain
+    if (budgets.warning) headers['X-Budget-Warning'] = budgets.warning
+
+    // Server-side tool execution runs the loop with the tools an API key can use
+    let toolLoop: ToolLoopOptions | undefined
+    if (toolExecution === 'server') {
+      toolLoop = {
+        maxSteps: parseMaxToolSteps(body.max_tool_steps, 'max_tool_steps'),
+        context: {},
+        policies: policy.settings.toolPolicies,
+        registry: await getGatewayToolRegistry(policy.workspaceId),
+      }
+      if (chatRequest.options?.tools?.length) {
+        const tools = filterDisabledTools(chatRequest.options.tools, toolLoop.policies)
+        chatRequest.options.tools = tools.length > 0 ? resolveServerTools(tools, toolLoop.registry) : undefined
+      }
+    }
+
+    headers['X-Routed-By'] = route.wasAutoRouted ? 'auto' : 'explicit'
+    if (route.classification) {
+      headers['X-Intent'] = route.classification.intent
+    }
+
+    chatLogger.info('Gateway request received', {
+      requestId,
+      apiKeyId: apiKey.id,
+      workspaceId: policy.workspaceId,
+      model: chatRequest.model,
+      provider: chatRequest.provider,
+      messageCount: chatRequest.messages.length,
+      streaming: stream,
+      hasTools: !!chatRequest.options?.tools?.length,
+      toolExecution,
+      responseFormat: chatRequest.options?.responseFormat?.type,
+      autoRouted: route.wasAutoRouted,
+      intent: route.classification?.intent,
+      fallbackChain,
+    })
+
+    const recordCompletion = (usage: TokenUsage, metadata: ChatCompletionMetadata) => {
+      recordUsage({
+        userId: apiKey.userId,
+        workspaceId: policy.workspaceId,
+        source: 'api',
+        provider: metadata.provider,
+        model: metadata.model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        cost: usage.estimatedCost,
+        metadata: {
+          requestId,
+          apiKeyId: apiKey.id,
+          cacheReadTokens: usage.cacheReadTokens,
+          cacheWriteTokens: usage.cacheWriteTokens,
+          autoRouted: route.wasAutoRouted,
+          fallbackFrom: metadata.fallbackFrom,
+        },
+      })
+    }
+
+    const id = `chatcmpl-${requestId}`
+    const created = Math.floor(startTime / 1000)
+
+    if (stream) {
+      // Every model turn of a server-side tool loop is metered on its own
+      const streamTurn = (turn: ChatCompletionRequest) =>
+        meterStream(streamWithFallback(turn, fallbackChain), recordCompletion)
+      const events = toolLoop ? streamWithTools(chatRequest, streamTurn, toolLoop) : streamTurn(chatRequest)
+      const sse = createOpenAIStream(events, {
+        id,
+        created,
+        model: chatRequest.model,
+        includeUsage: body.stream_options?.include_usage === true,
+        serverTools: !!toolLoop,
+      })
+
+      return new Response(sse, {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+          ...headers,
+        },
+      })
+    }
+
+    const completeTurn = async (turn: ChatCompletionRequest) => {
+      const response = await completeWithFallback(turn, fallbackChain)
+      recordCompletion(response.usage, response.metadata)
+      return response
+    }
+    const response = toolLoop
+      ? await completeWithTools(chatRequest, completeTurn, toolLoop)
+      : await completeTurn(chatRequest)
+
+    logChatCompletion(chatRequest.conversationId, {
+      provider: response.metadata.provider,
+      model: response.metadata.model,
+      inputTokens: response.usage?.inputTokens,
+      outputTokens: response.usage?.outputTokens,
+      cacheReadTokens: response.usage?.cacheReadTokens,
+      cacheWriteTokens: response.usage?.cacheWriteTokens,
+      duration: Date.now() - startTime,
+      toolCalls: response.message.tool_calls?.length,
+      success: true,
+    })
+
+    return NextResponse.json(toOpenAIResponse(response, { id, created }), { headers })
+  } catch (error) {
+    chatLogger.error('Gateway request failed', {
+      requestId,
+      duration: Date.now() - startTime,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      errorCode: error instanceof APIError ? error.code : 'INTERNAL_ERROR',
+    })
+
+    return toOpenAIErrorResponse(error, headers)
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { refreshDynamicModels } from '@/lib/api/providers'
+import {
+  AUTO_MODEL,
+  getAllowedModels,
+  getGatewayPolicy,
+  openAIErrorResponse,
+  toOpenAIErrorResponse,
+} from '@/lib/api/gateway'
+import { apiLogger } from '@/lib/logging'
+import { requireApiKey } from '@/lib/auth/api-key'
+
+// GET /api/v1/models - List models available to the API key (OpenAI format)
+export async function GET(request: NextRequest) {
+  try {
+    const apiKey = await requireApiKey(request)
+    if (!apiKey) return openAIErrorResponse('Invalid or missing API key', 401, 'invalid_api_key')
+
+    const policy = await getGatewayPolicy(apiKey)
+    if (!policy) {
+      return openAIErrorResponse('This API key no longer has access to its workspace', 403, 'workspace_access_denied')
+    }
+
+    await refreshDynamicModels()
+
+    const created = Math.floor(Date.now() / 1000)
+    const models = getAllowedModels(policy).map((model) => ({
+      id: model.id,
+      object: 'model',
+      created,
+      owned_by: model.provider,
+    }))
+
+    return NextResponse.json({
+      object: 'list',
+      data: [{ id: AUTO_MODEL, object: 'model', created, owned_by: 'ondo' }, ...models],
+    })
+  } catch (error) {
+    apiLogger.error('Gateway models request failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    return toOpenAIErrorResponse(error)
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  deleteMcpServer,
+  getMcpServer,
+  getWorkspaceMcpServers,
+  toMcpServer,
+  updateMcpServer,
+  validateMcpServerInput,
+} from '@/lib/db/services/mcp-server'
+import { hasWorkspacePermission } from '@/lib/db/services/workspace'
+import { invalidateWorkspaceMcpCatalog } from '@/lib/api/mcp'
+import { requireSession, unauthorizedResponse, forbiddenResponse } from '@/lib/auth/session'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: Promise<{ workspaceId: string; serverId: string }>
+}
+
+// PATCH /api/workspaces/:workspaceId/mcp-servers/:serverId - Update an MCP server
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { workspaceId, serverId } = await params
+
+    const canManage = await hasWorkspacePermission(workspaceId, session.user.id, 'admin')
+    if (!canManage) return forbiddenResponse()
+
+    const existing = await getMcpServer(serverId)
+    if (!existing || existing.workspaceId !== workspaceId) {
+      return NextResponse.json(
+        { error: 'MCP server not found' },
+        { status: 404 }
+      )
+    }
+
+    // Fields left out of the body keep their stored values
+    const { name, transport, preset, url, enabled } = toMcpServer(existing)
+    const body = await request.json()
+    const result = validateMcpServerInput({ name, transport, preset, url, enabled, ...body })
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    if (result.input.name !== existing.name) {
+      const servers = await getWorkspaceMcpServers(workspaceId)
+      if (servers.some((server) => server.name === result.input.name)) {
+        return NextResponse.json(
+          { error: `An MCP server named "${result.input.name}" already exists` },
+          { status: 400 }
+        )
+      }
+    }
+
+    const server = await updateMcpServer(serverId, result.input)
+    invalidateWorkspaceMcpCatalog(workspaceId, serverId)
+
+    return NextResponse.json({ data: toMcpServer(server) })
+  } catch (error) {
+    console.error('Error updating MCP server:', error)
+    return NextResponse.json(
+      { error: 'Failed to update MCP server' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/workspaces/:workspaceId/mcp-servers/:serverId - Remove an MCP server
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { workspaceId, serverId } = await params
+
+    const canManage = await hasWorkspacePermission(workspaceId, session.user.id, 'admin')
+    if (!canManage) return forbiddenResponse()
+
+    const existing = await getMcpServer(serverId)
+    if (!existing || existing.workspaceId !== workspaceId) {
+      return NextResponse.json(
+        { error: 'MCP server not found' },
+        { status: 404 }
+      )
+    }
+
+    await deleteMcpServer(serverId)
+    invalidateWorkspaceMcpCatalog(workspaceId, serverId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting MCP server:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete MCP server' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  createMcpServer,
+  getWorkspaceMcpServers,
+  toMcpServer,
+  validateMcpServerInput,
+} from '@/lib/db/services/mcp-server'
+import { hasWorkspacePermission } from '@/lib/db/services/workspace'
+import { invalidateWorkspaceMcpCatalog } from '@/lib/api/mcp'
+import { validateWorkspaceAccess } from '@/lib/auth/workspace'
+import { requireSession, unauthorizedResponse, forbiddenResponse } from '@/lib/auth/session'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: Promise<{ workspaceId: string }>
+}
+
+// GET /api/workspaces/:workspaceId/mcp-servers - List MCP servers (without credentials)
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { workspaceId } = await params
+
+    const hasAccess = await validateWorkspaceAccess(workspaceId, session.user.id)
+    if (!hasAccess) return forbiddenResponse()
+
+    const servers = await getWorkspaceMcpServers(workspaceId)
+
+    return NextResponse.json({ data: servers.map(toMcpServer) })
+  } catch (error) {
+    console.error('Error fetching MCP servers:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch MCP servers' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/workspaces/:workspaceId/mcp-servers - Add an MCP server
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { workspaceId } = await params
+
+    // Servers run tools for every member, so only admins may add them
+    const canManage = await hasWorkspacePermission(workspaceId, session.user.id, 'admin')
+    if (!canManage) return forbiddenResponse()
+
+    const result = validateMcpServerInput(await request.json())
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    const existing = await getWorkspaceMcpServers(workspaceId)
+    if (existing.some((server) => server.name === result.input.name)) {
+      return NextResponse.json(
+        { error: `An MCP server named "${result.input.name}" already exists` },
+        { status: 400 }
+      )
+    }
+
+    const server = await createMcpServer(workspaceId, session.user.id, result.input)
+    invalidateWorkspaceMcpCatalog(workspaceId)
+
+    return NextResponse.json({ data: toMcpServer(server) }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating MCP server:', error)
+    return NextResponse.json(
+      { error: 'Failed to create MCP server' },
+      { status: 500 }
+    )
+  }
+}
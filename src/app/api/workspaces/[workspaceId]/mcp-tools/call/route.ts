@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { callWorkspaceMcpTool, getWorkspaceMcpCatalog } from '@/lib/api/mcp'
+import { getWorkspace, parseWorkspaceSettings } from '@/lib/db/services/workspace'
+import { disabledToolResult, getToolPolicy } from '@/lib/tools/policy'
+import { validateWorkspaceAccess } from '@/lib/auth/workspace'
+import { requireSession, unauthorizedResponse, forbiddenResponse } from '@/lib/auth/session'
+import { checkRateLimit, rateLimitResponse } from '@/lib/auth/rate-limit'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: Promise<{ workspaceId: string }>
+}
+
+// POST /api/workspaces/:workspaceId/mcp-tools/call - Run an MCP tool for the browser's tool loop
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { workspaceId } = await params
+
+    const hasAccess = await validateWorkspaceAccess(workspaceId, session.user.id)
+    if (!hasAccess) return forbiddenResponse()
+
+    const rateLimit = await checkRateLimit('actions', { userId: session.user.id, workspaceId })
+    if (rateLimit.limited) return rateLimitResponse(rateLimit)
+
+    const body = await request.json()
+    const { name, arguments: args = {}, confirmed } = body
+
+    if (typeof name !== 'string' || !name) {
+      return NextResponse.json(
+        { error: 'name is required' },
+        { status: 400 }
+      )
+    }
+    if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+      return NextResponse.json(
+        { error: 'arguments must be an object' },
+        { status: 400 }
+      )
+    }
+
+    // The browser applies the policy before calling, but it is enforced here too:
+    // disabled tools never run and tools that ask need the user's approval
+    const workspace = await getWorkspace(workspaceId)
+    const settings = workspace ? parseWorkspaceSettings(workspace) : undefined
+    const catalog = await getWorkspaceMcpCatalog(workspaceId)
+    const tool = catalog.tools.find((candidate) => candidate.name === name)
+    const policy = getToolPolicy(name, tool?.sideEffect ?? 'read', settings?.toolPolicies)
+    if (policy === 'disabled') {
+      return NextResponse.json({ data: disabledToolResult(name) })
+    }
+    if (policy === 'ask' && confirmed !== true) {
+      return NextResponse.json(
+        { error: `MCP tool "${name}" needs the user's approval before it runs` },
+        { status: 403 }
+      )
+    }
+
+    const result = await callWorkspaceMcpTool(workspaceId, name, args)
+
+    return NextResponse.json({ data: result })
+  } catch (error) {
+    console.error('Error calling MCP tool:', error)
+    return NextResponse.json(
+      { error: 'Failed to call MCP tool' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getWorkspaceMcpCatalog } from '@/lib/api/mcp'
+import { validateWorkspaceAccess } from '@/lib/auth/workspace'
+import { requireSession, unauthorizedResponse, forbiddenResponse } from '@/lib/auth/session'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+interface RouteParams {
+  params: Promise<{ workspaceId: string }>
+}
+
+// GET /api/workspaces/:workspaceId/mcp-tools - Server health and the tools they offer
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await requireSession()
+    if (!session) return unauthorizedResponse()
+
+    const { workspaceId } = await params
+    const { searchParams } = new URL(request.url)
+    const refresh = searchParams.get('refresh') === 'true'
+
+    const hasAccess = await validateWorkspaceAccess(workspaceId, session.user.id)
+    if (!hasAccess) return forbiddenResponse()
+
+    const catalog = await getWorkspaceMcpCatalog(workspaceId, { refresh })
+
+    return NextResponse.json({ data: catalog })
+  } catch (error) {
+    console.error('Error fetching MCP tools:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch MCP tools' },
+      { status: 500 }
+    )
+  }
+}
@@ -4,7 +4,12 @@ import {
   getWorkspaceWithMembers,
   updateWorkspace,
   deleteWorkspace,
+  hasWorkspacePermission,
+  parseWorkspaceSettings,
+  type WorkspaceSettings,
 } from '@/lib/db/services/workspace'
+import { parseBudgetPolicy } from '@/lib/db/services/budget'
+import { parseToolPolicies } from '@/lib/tools/policy'
 import { validateWorkspaceAccess } from '@/lib/auth/workspace'
 import { requireSession, unauthorizedResponse, forbiddenResponse } from '@/lib/auth/session'
 
@@ -59,7 +64,38 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     if (!hasAccess) return forbiddenResponse()
 
     const body = await request.json()
-    const { name, description, settings } = body
+    const { name, description } = body
+
+    // Settings carry policy (providers, budgets, tools), so only admins may change them
+    let settings: WorkspaceSettings | undefined
+    if (body.settings) {
+      const canManage = await hasWorkspacePermission(workspaceId, session.user.id, 'admin')
+      if (!canManage) return forbiddenResponse()
+
+      const existing = await getWorkspace(workspaceId)
+      if (!existing) {
+        return NextResponse.json(
+          { error: 'Workspace not found' },
+          { status: 404 }
+        )
+      }
+
+      settings = { ...parseWorkspaceSettings(existing), ...body.settings }
+      if (body.settings.budgets !== undefined) {
+        const parsed = parseBudgetPolicy(body.settings.budgets)
+        if ('error' in parsed) {
+          return NextResponse.json({ error: parsed.error }, { status: 400 })
+        }
+        settings = { ...settings, budgets: parsed.policy }
+      }
+      if (body.settings.toolPolicies !== undefined) {
+        const parsed = parseToolPolicies(body.settings.toolPolicies)
+        if ('error' in parsed) {
+          return NextResponse.json({ error: parsed.error }, { status: 400 })
+        }
+        settings = { ...settings, toolPolicies: parsed.policies }
+      }
+    }
 
     const workspace = await updateWorkspace(workspaceId, {
       name,
@@ -0,0 +1,145 @@
+'use client'
+
+import { useParams, useRouter } from 'next/navigation'
+import { signIn } from 'next-auth/react'
+import { Clock, GitFork, Loader2, LogIn, XCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
+import { MessageList } from '@/components/chat'
+import { useAuthSession } from '@/hooks/useCurrentUser'
+import { useActiveWorkspaceId } from '@/stores'
+import { useSharedConversation, useForkSharedConversation } from '@/lib/queries'
+
+type UnavailableStatus = 'not_found' | 'expired' | 'revoked' | 'error'
+
+const unavailableCopy: Record<UnavailableStatus, { title: string; description: string }> = {
+  not_found: {
+    title: 'Link Not Found',
+    description: 'This share link is invalid or has been removed.',
+  },
+  expired: {
+    title: 'Link Expired',
+    description: 'This share link has expired. Ask the owner of the conversation for a new one.',
+  },
+  revoked: {
+    title: 'Link Revoked',
+    description: 'The owner of this conversation has stopped sharing it.',
+  },
+  error: {
+    title: 'Something went wrong',
+    description: 'We could not load this conversation. Please try again later.',
+  },
+}
+
+function getUnavailableStatus(error: unknown): UnavailableStatus {
+  const message = error instanceof Error ? error.message : ''
+  if (message.includes('expired')) return 'expired'
+  if (message.includes('revoked')) return 'revoked'
+  if (message.includes('not found')) return 'not_found'
+  return 'error'
+}
+
+export default function SharedConversationPage() {
+  const params = useParams()
+  const router = useRouter()
+  const token = params.token as string
+
+  const { isAuthenticated } = useAuthSession()
+  const activeWorkspaceId = useActiveWorkspaceId()
+  const { data: conversation, isLoading, error } = useSharedConversation(token)
+  const forkConversation = useForkSharedConversation()
+
+  const handleFork = async () => {
+    try {
+      const conversationId = await forkConversation.mutateAsync({
+        token,
+        workspaceId: activeWorkspaceId,
+      })
+      router.push(`/chat/${conversationId}`)
+    } catch {
+      // Error toast is shown by the mutation
+    }
+  }
+
+  const handleSignIn = () => {
+    signIn('okta', { callbackUrl: `/share/${token}` })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6 flex flex-col items-center">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="mt-4 text-muted-foreground">Loading conversation...</p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (error || !conversation) {
+    const status = getUnavailableStatus(error)
+    const copy = unavailableCopy[status]
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            {status === 'expired' ? (
+              <div className="mx-auto mb-4 h-12 w-12 rounded-full bg-orange-100 dark:bg-orange-900/30 flex items-center justify-center">
+                <Clock className="h-6 w-6 text-orange-600 dark:text-orange-400" />
+              </div>
+            ) : (
+              <div className="mx-auto mb-4 h-12 w-12 rounded-full bg-destructive/10 flex items-center justify-center">
+                <XCircle className="h-6 w-6 text-destructive" />
+              </div>
+            )}
+            <CardTitle>{copy.title}</CardTitle>
+            <CardDescription>{copy.description}</CardDescription>
+          </CardHeader>
+          <CardFooter className="justify-center">
+            <Button onClick={() => router.push('/')}>
+              Go to Home
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b bg-background/95 backdrop-blur">
+        <div className="mx-auto flex max-w-3xl items-center justify-between gap-4 px-4 py-3">
+          <div className="min-w-0">
+            <h1 className="truncate font-semibold">{conversation.title}</h1>
+            <p className="text-xs text-muted-foreground">
+              {conversation.sharedBy ? `Shared by ${conversation.sharedBy} · ` : ''}
+              {conversation.sharedAt.toLocaleDateString()}
+              {conversation.expiresAt && ` · Link expires ${conversation.expiresAt.toLocaleDateString()}`}
+            </p>
+          </div>
+          {isAuthenticated ? (
+            <Button size="sm" onClick={handleFork} disabled={forkConversation.isPending}>
+              {forkConversation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <GitFork className="h-4 w-4 mr-2" />
+              )}
+              Fork into my workspace
+            </Button>
+          ) : (
+            <Button size="sm" variant="outline" onClick={handleSignIn}>
+              <LogIn className="h-4 w-4 mr-2" />
+              Sign in to continue
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl px-4 py-6">
+        <MessageList messages={conversation.messages} readOnly />
+      </main>
+    </div>
+  )
+}
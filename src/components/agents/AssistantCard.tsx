@@ -0,0 +1,122 @@
+'use client'
+
+import { MoreHorizontal, Pencil, MessageSquare, Trash2, Wrench, BookOpen } from 'lucide-react'
+import { formatRelativeTime } from '@/lib/utils'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { useModels } from '@/stores'
+import type { Assistant, AssistantScope } from '@/types'
+
+const SCOPE_LABELS: Record<AssistantScope, string> = {
+  personal: 'Personal',
+  workspace: 'Workspace',
+  project: 'Folder',
+}
+
+interface AssistantCardProps {
+  assistant: Assistant
+  onChat: () => void
+  onEdit: () => void
+  onDelete: () => void
+}
+
+export function AssistantCard({ assistant, onChat, onEdit, onDelete }: AssistantCardProps) {
+  const models = useModels()
+  const modelName = models.find((m) => m.id === assistant.model)?.name ?? assistant.model
+
+  return (
+    <Card className="group cursor-pointer transition-shadow hover:shadow-md" onClick={onChat}>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between">
+          <div className="flex-1 min-w-0">
+            <CardTitle className="text-base truncate">{assistant.name}</CardTitle>
+            {assistant.description && (
+              <CardDescription className="line-clamp-2 mt-1">
+                {assistant.description}
+              </CardDescription>
+            )}
+          </div>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 opacity-0 group-hover:opacity-100 shrink-0"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onChat()
+                }}
+              >
+                <MessageSquare className="h-4 w-4 mr-2" />
+                New chat
+              </DropdownMenuItem>
+              {assistant.canManage && (
+                <>
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onEdit()
+                    }}
+                  >
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Edit
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    className="text-destructive"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onDelete()
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap gap-1 mb-3">
+          <Badge variant="secondary" className="text-xs">
+            {SCOPE_LABELS[assistant.scope]}
+          </Badge>
+          {assistant.tools.length > 0 && (
+            <Badge variant="outline" className="text-xs">
+              <Wrench className="h-3 w-3 mr-1" />
+              {assistant.tools.length} {assistant.tools.length === 1 ? 'tool' : 'tools'}
+            </Badge>
+          )}
+          {assistant.knowledgeBase && (
+            <Badge variant="outline" className="text-xs">
+              <BookOpen className="h-3 w-3 mr-1" />
+              {assistant.knowledgeBase.name}
+            </Badge>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span className="truncate">{modelName}</span>
+          <span className="shrink-0">{formatRelativeTime(assistant.updatedAt)}</span>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,342 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { toolRegistry } from '@/lib/tools'
+import { useCreateAssistant, useUpdateAssistant, useWorkspace } from '@/lib/queries'
+import { useActiveWorkspaceId, useModels, useProjects } from '@/stores'
+import type { Assistant, AssistantInput, AssistantScope } from '@/types'
+
+// Select items need a non-empty value; this one stands for "no knowledge base"
+const NONE = '__none__'
+
+const DEFAULT_TEMPERATURE = 0.7
+
+interface AssistantDialogProps {
+  /** The assistant to edit; null creates a new one */
+  assistant: Assistant | null
+  isOpen: boolean
+  onClose: () => void
+}
+
+export function AssistantDialog({ assistant, isOpen, onClose }: AssistantDialogProps) {
+  const activeWorkspaceId = useActiveWorkspaceId()
+  const { data: workspace } = useWorkspace(activeWorkspaceId)
+  const projects = useProjects(activeWorkspaceId ?? null)
+  const models = useModels()
+  const allTools = toolRegistry.getAllTools()
+  const createAssistant = useCreateAssistant()
+  const updateAssistant = useUpdateAssistant()
+
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [instructions, setInstructions] = useState('')
+  const [model, setModel] = useState('')
+  const [temperature, setTemperature] = useState(DEFAULT_TEMPERATURE)
+  const [maxTokens, setMaxTokens] = useState('')
+  const [tools, setTools] = useState<string[]>([])
+  const [knowledgeBaseId, setKnowledgeBaseId] = useState(NONE)
+  const [scope, setScope] = useState<AssistantScope>('personal')
+  const [scopeProjectId, setScopeProjectId] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const isSubmitting = createAssistant.isPending || updateAssistant.isPending
+
+  // Populate the form when the dialog opens
+  useEffect(() => {
+    if (!isOpen) return
+    setName(assistant?.name ?? '')
+    setDescription(assistant?.description ?? '')
+    setInstructions(assistant?.instructions ?? '')
+    setModel(assistant?.model ?? '')
+    setTemperature(assistant?.parameters.temperature ?? DEFAULT_TEMPERATURE)
+    setMaxTokens(assistant?.parameters.maxTokens ? String(assistant.parameters.maxTokens) : '')
+    setTools(assistant?.tools ?? [])
+    setKnowledgeBaseId(assistant?.knowledgeBase?.id ?? NONE)
+    setScope(assistant?.scope ?? 'personal')
+    setScopeProjectId(assistant?.projectId ?? '')
+    setError(null)
+  }, [assistant, isOpen])
+
+  const handleSubmit = async () => {
+    if (!name.trim()) {
+      setError('Name is required')
+      return
+    }
+    if (!instructions.trim()) {
+      setError('Instructions are required')
+      return
+    }
+    if (!model) {
+      setError('Choose a model')
+      return
+    }
+    if (scope === 'project' && !scopeProjectId) {
+      setError('Choose the folder to share with')
+      return
+    }
+
+    const parsedMaxTokens = maxTokens.trim() ? Number(maxTokens) : undefined
+    if (parsedMaxTokens !== undefined && (!Number.isInteger(parsedMaxTokens) || parsedMaxTokens < 1)) {
+      setError('Max tokens must be a positive whole number')
+      return
+    }
+
+    // The current knowledge base may belong to another workspace's folder
+    const knowledgeBase =
+      projects.find((project) => project.id === knowledgeBaseId) ??
+      (assistant?.knowledgeBase?.id === knowledgeBaseId ? assistant.knowledgeBase : undefined)
+    const input: AssistantInput = {
+      name: name.trim(),
+      description: description.trim(),
+      instructions: instructions.trim(),
+      model,
+      parameters: { temperature, maxTokens: parsedMaxTokens },
+      tools,
+      knowledgeBase: knowledgeBase ? { id: knowledgeBase.id, name: knowledgeBase.name } : null,
+      scope,
+      // An assistant keeps the workspace it is shared with unless its scope changes
+      workspaceId:
+        scope === 'workspace'
+          ? (assistant?.scope === 'workspace' ? assistant.workspaceId : activeWorkspaceId) ?? undefined
+          : undefined,
+      projectId: scope === 'project' ? scopeProjectId : undefined,
+    }
+
+    setError(null)
+    try {
+      if (assistant) {
+        await updateAssistant.mutateAsync({ id: assistant.id, input })
+      } else {
+        await createAssistant.mutateAsync(input)
+      }
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save assistant')
+    }
+  }
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      onClose()
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{assistant ? 'Edit Assistant' : 'Create Assistant'}</DialogTitle>
+          <DialogDescription>
+            An assistant answers with its own instructions, model and tools. Select it in the
+            model picker to chat with it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-3">
+          <div className="space-y-4 py-2">
+            {error && (
+              <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="assistant-name">Name</Label>
+              <Input
+                id="assistant-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Release Notes Writer"
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="assistant-description">Description (optional)</Label>
+              <Input
+                id="assistant-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Brief description of what this assistant does"
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="assistant-instructions">Instructions</Label>
+              <Textarea
+                id="assistant-instructions"
+                value={instructions}
+                onChange={(e) => setInstructions(e.target.value)}
+                placeholder="You turn merged pull requests into concise, user-facing release notes..."
+                rows={5}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="assistant-model">Model</Label>
+              <Select value={model} onValueChange={setModel} disabled={isSubmitting}>
+                <SelectTrigger id="assistant-model">
+                  <SelectValue placeholder="Select a model" />
+                </SelectTrigger>
+                <SelectContent>
+                  {models.map((m) => (
+                    <SelectItem key={m.id} value={m.id}>
+                      {m.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Temperature: {temperature.toFixed(1)}</Label>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.1"
+                  value={temperature}
+                  onChange={(e) => setTemperature(parseFloat(e.target.value))}
+                  className="w-full"
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assistant-max-tokens">Max tokens (optional)</Label>
+                <Input
+                  id="assistant-max-tokens"
+                  type="number"
+                  min={1}
+                  value={maxTokens}
+                  onChange={(e) => setMaxTokens(e.target.value)}
+                  placeholder="Model default"
+                  disabled={isSubmitting}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="assistant-knowledge">Knowledge base</Label>
+              <Select value={knowledgeBaseId} onValueChange={setKnowledgeBaseId} disabled={isSubmitting}>
+                <SelectTrigger id="assistant-knowledge">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  {projects.map((project) => (
+                    <SelectItem key={project.id} value={project.id}>
+                      {project.name}
+                    </SelectItem>
+                  ))}
+                  {assistant?.knowledgeBase &&
+                    !projects.some((project) => project.id === assistant.knowledgeBase?.id) && (
+                      <SelectItem value={assistant.knowledgeBase.id}>
+                        {assistant.knowledgeBase.name}
+                      </SelectItem>
+                    )}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Answers are grounded in the documents of this folder
+              </p>
+            </div>
+
+            {allTools.length > 0 && (
+              <div className="space-y-2">
+                <Label>Tools</Label>
+                <div className="space-y-3 rounded-md border p-3">
+                  {allTools.map((tool) => (
+                    <div key={tool.name} className="flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium">{tool.name}</p>
+                        <p className="truncate text-xs text-muted-foreground">{tool.description}</p>
+                      </div>
+                      <Switch
+                        checked={tools.includes(tool.name)}
+                        disabled={isSubmitting}
+                        onCheckedChange={(checked) =>
+                          setTools((current) =>
+                            checked ? [...current, tool.name] : current.filter((t) => t !== tool.name)
+                          )
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="assistant-scope">Available to</Label>
+              <Select
+                value={scope}
+                onValueChange={(value) => setScope(value as AssistantScope)}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger id="assistant-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="personal">Only me</SelectItem>
+                  {workspace && (
+                    <SelectItem value="workspace">Everyone in {workspace.name}</SelectItem>
+                  )}
+                  {projects.length > 0 && <SelectItem value="project">Everyone in a folder</SelectItem>}
+                </SelectContent>
+              </Select>
+              {scope === 'project' && (
+                <Select value={scopeProjectId} onValueChange={setScopeProjectId} disabled={isSubmitting}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a folder" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {projects.map((project) => (
+                      <SelectItem key={project.id} value={project.id}>
+                        {project.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </div>
+        </ScrollArea>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {assistant ? 'Save Changes' : 'Create Assistant'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
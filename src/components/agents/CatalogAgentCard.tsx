@@ -0,0 +1,122 @@
+'use client'
+
+import { MoreHorizontal, MessageSquare, FlaskConical, Wrench } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { ModelIcon } from '@/components/model/ModelIcon'
+import type { AgentCatalogEntry, AgentProvider } from '@/lib/agents/types'
+
+export const AGENT_PROVIDER_LABELS: Record<AgentProvider, string> = {
+  local: 'Assistant',
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  glean: 'Glean',
+  dust: 'Dust',
+}
+
+interface CatalogAgentCardProps {
+  agent: AgentCatalogEntry
+  /** Opens a chat; omitted when the chat API cannot run the agent */
+  onChat?: () => void
+  onTest?: () => void
+}
+
+/**
+ * Card for an agent hosted by an external provider. What it offers follows
+ * the provider's capabilities: these agents are managed in their own console.
+ */
+export function CatalogAgentCard({ agent, onChat, onTest }: CatalogAgentCardProps) {
+  const label = AGENT_PROVIDER_LABELS[agent.provider]
+  const toolCount = agent.capabilities.toolCalling ? agent.tools?.length ?? 0 : 0
+  const hasActions = !!onChat || !!onTest
+
+  return (
+    <Card
+      className={hasActions ? 'group cursor-pointer transition-shadow hover:shadow-md' : 'group'}
+      onClick={onChat ?? onTest}
+    >
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between">
+          <div className="flex-1 min-w-0">
+            <CardTitle className="flex items-center gap-2 text-base">
+              {agent.provider !== 'local' && (
+                <ModelIcon provider={agent.provider} size="sm" />
+              )}
+              <span className="truncate">{agent.name}</span>
+            </CardTitle>
+            {agent.description && (
+              <CardDescription className="line-clamp-2 mt-1">
+                {agent.description}
+              </CardDescription>
+            )}
+          </div>
+          {hasActions && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 opacity-0 group-hover:opacity-100 shrink-0"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <MoreHorizontal className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {onChat && (
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onChat()
+                    }}
+                  >
+                    <MessageSquare className="h-4 w-4 mr-2" />
+                    New chat
+                  </DropdownMenuItem>
+                )}
+                {onTest && (
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onTest()
+                    }}
+                  >
+                    <FlaskConical className="h-4 w-4 mr-2" />
+                    Test
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap gap-1 mb-3">
+          <Badge variant="secondary" className="text-xs">
+            {label}
+          </Badge>
+          {toolCount > 0 && (
+            <Badge variant="outline" className="text-xs">
+              <Wrench className="h-3 w-3 mr-1" />
+              {toolCount} {toolCount === 1 ? 'tool' : 'tools'}
+            </Badge>
+          )}
+          {!agent.chatModelId && (
+            <Badge variant="outline" className="text-xs">
+              API only
+            </Badge>
+          )}
+        </div>
+
+        <p className="text-sm text-muted-foreground truncate">Managed in {label}</p>
+      </CardContent>
+    </Card>
+  )
+}
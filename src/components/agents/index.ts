@@ -1,3 +1,6 @@
 export { AgentCard } from './AgentCard'
 export { EditAgentDialog } from './EditAgentDialog'
 export { DeleteAgentDialog } from './DeleteAgentDialog'
+export { AssistantCard } from './AssistantCard'
+export { AssistantDialog } from './AssistantDialog'
+export { CatalogAgentCard, AGENT_PROVIDER_LABELS } from './CatalogAgentCard'
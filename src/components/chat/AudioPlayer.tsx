@@ -21,10 +21,12 @@ import { TTS_VOICES, type TTSVoice } from '@/lib/api/audio'
 
 interface ReadAloudButtonProps {
   text: string
+  /** Conversation the text belongs to, so the speech is billed to its workspace */
+  conversationId?: string
   className?: string
 }
 
-export function ReadAloudButton({ text, className }: ReadAloudButtonProps) {
+export function ReadAloudButton({ text, conversationId, className }: ReadAloudButtonProps) {
   const [isLoading, setIsLoading] = useState(false)
   const [isPlaying, setIsPlaying] = useState(false)
   const [voice, setVoice] = useState<TTSVoice>('nova')
@@ -51,7 +53,7 @@ export function ReadAloudButton({ text, className }: ReadAloudButtonProps) {
       const response = await fetch('/api/audio/speech', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text, voice }),
+        body: JSON.stringify({ text, voice, conversationId }),
       })
 
       if (!response.ok) {
@@ -6,6 +6,8 @@ import { ChatInput } from './ChatInput'
 import { TypingIndicator } from './TypingIndicator'
 import { BranchIndicator } from './BranchIndicator'
 import { BranchTabs } from './BranchTabs'
+import { ProjectSettingsIndicator } from './ProjectSettingsIndicator'
+import { ComparisonView } from './ComparisonView'
 import {
   useMessages,
   useIsStreaming,
@@ -14,6 +16,7 @@ import {
   useChatActions,
   useChatStore,
   useConversationBranches,
+  useComparison,
 } from '@/stores'
 
 interface ChatContainerProps {
@@ -46,6 +49,7 @@ export function ChatContainer({ conversationId, initialBranchId = null }: ChatCo
   const isStreaming = useIsStreaming()
   const streamingMessage = useStreamingMessage()
   const streamingThinking = useStreamingThinking()
+  const comparison = useComparison()
   const { branchConversation, deleteConversation, loadConversationMessages } = useChatActions()
   const scrollRef = useRef<HTMLDivElement>(null)
 
@@ -61,7 +65,7 @@ export function ChatContainer({ conversationId, initialBranchId = null }: ChatCo
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight
     }
-  }, [messages, streamingMessage, streamingThinking])
+  }, [messages, streamingMessage, streamingThinking, comparison])
 
   // Scroll to bottom when input area resizes (textarea grows)
   const handleInputHeightChange = useCallback(() => {
@@ -96,6 +100,16 @@ export function ChatContainer({ conversationId, initialBranchId = null }: ChatCo
     await deleteConversation(branchId)
   }, [activeBranchId, deleteConversation])
 
+  // Show the conversation an adopted comparison answer went into
+  const handleComparisonAdopted = useCallback(
+    (adoptedConversationId: string) => {
+      if (adoptedConversationId !== displayConversationId) {
+        setActiveBranchId(adoptedConversationId === conversationId ? null : adoptedConversationId)
+      }
+    },
+    [displayConversationId, conversationId]
+  )
+
   // Check if the displayed conversation is a branch (has a parentId)
   const isBranchView = !!displayConversation?.parentId
 
@@ -122,6 +136,8 @@ export function ChatContainer({ conversationId, initialBranchId = null }: ChatCo
         <BranchIndicator conversationId={activeBranchId} inline />
       )}
 
+      <ProjectSettingsIndicator conversationId={displayConversationId} />
+
       <div ref={scrollRef} className="flex-1 overflow-y-auto scrollbar-thin">
         <div className="mx-auto max-w-4xl px-4 pt-4 pb-6">
           <MessageList
@@ -131,6 +147,7 @@ export function ChatContainer({ conversationId, initialBranchId = null }: ChatCo
             onBranch={handleBranch}
           />
           {isStreaming && !streamingMessage && !streamingThinking && <TypingIndicator />}
+          <ComparisonView conversationId={displayConversationId} onAdopted={handleComparisonAdopted} />
         </div>
       </div>
       <div className="shrink-0 mx-auto w-full max-w-4xl px-4">
@@ -10,8 +10,22 @@ import { ImageUpload, ImagePreviewList } from './ImageUpload'
 import { FileUpload, FileDropZone } from './FileUpload'
 import { FilePreviewList } from './FilePreview'
 import { PromptSelector } from './PromptSelector'
-import { useChatActions, useIsStreaming, useUserPreferences, useChatStore, useActiveWorkspaceId, useModels } from '@/stores'
-import { useWorkspace } from '@/lib/queries'
+import { TokenMeter } from './TokenMeter'
+import { CompareSelector } from './CompareSelector'
+import {
+  useChatActions,
+  useIsStreaming,
+  useUserPreferences,
+  useChatStore,
+  useActiveWorkspaceId,
+  useModels,
+  useProjectById,
+  useCompareMode,
+  useIsComparing,
+  useCompareActions,
+} from '@/stores'
+import { useAssistants, useWorkspace } from '@/lib/queries'
+import { getAssistantModelId } from '@/lib/agents/assistants'
 import type { ImageAttachment, FileAttachment } from '@/types'
 
 interface ChatInputProps {
@@ -26,16 +40,26 @@ export function ChatInput({ conversationId, onHeightChange }: ChatInputProps) {
   const [activePromptName, setActivePromptName] = useState<string | null>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
-  const { sendMessage, updateConversationModel } = useChatActions()
-  const isStreaming = useIsStreaming()
+  const { sendMessage, updateConversationModel, setEnabledTools } = useChatActions()
+  const isCompareMode = useCompareMode()
+  const isComparing = useIsComparing()
+  const { startComparison } = useCompareActions()
+  // A running comparison blocks input like a normal stream
+  const isStreaming = useIsStreaming() || isComparing
   const preferences = useUserPreferences()
   const conversation = useChatStore((state) => state.conversations[conversationId])
+  const projectSettings = useProjectById(conversation?.projectId ?? '')?.settings
   const activeWorkspaceId = useActiveWorkspaceId()
   const { data: workspace } = useWorkspace(activeWorkspaceId)
 
   const selectedModelId = conversation?.modelId || preferences.defaultModelId || 'claude-sonnet-4-20250514'
   const models = useModels()
-  const selectedModel = models.find((m) => m.id === selectedModelId)
+  const { data: assistants } = useAssistants()
+  const findAssistant = (modelId: string) =>
+    assistants?.find((assistant) => getAssistantModelId(assistant.id) === modelId)
+  // An assistant runs on its own model, which decides capabilities and context size
+  const effectiveModelId = findAssistant(selectedModelId)?.model ?? selectedModelId
+  const selectedModel = models.find((m) => m.id === effectiveModelId)
   const supportsTools = selectedModel?.capabilities?.functionCalling ?? false
 
   const handleFilesSelected = useCallback((newFiles: FileAttachment[]) => {
@@ -44,6 +68,10 @@ export function ChatInput({ conversationId, onHeightChange }: ChatInputProps) {
 
   const handleModelSelect = (modelId: string) => {
     updateConversationModel(conversationId, modelId)
+    const assistant = findAssistant(modelId)
+    if (assistant) {
+      setEnabledTools(assistant.tools)
+    }
   }
 
   const handlePromptSelect = (content: string, promptName: string) => {
@@ -135,12 +163,18 @@ export function ChatInput({ conversationId, onHeightChange }: ChatInputProps) {
       }
     }
 
-    await sendMessage({
+    const input = {
       content: finalContent,
       conversationId,
       modelId: selectedModelId,
       attachments: allAttachments.length > 0 ? allAttachments : undefined,
-    })
+    }
+
+    if (isCompareMode) {
+      await startComparison(input)
+    } else {
+      await sendMessage(input)
+    }
   }
 
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
@@ -220,8 +254,10 @@ export function ChatInput({ conversationId, onHeightChange }: ChatInputProps) {
                 selectedModelId={selectedModelId}
                 onModelSelect={handleModelSelect}
                 workspaceId={workspace?.id}
+                projectId={conversation?.projectId ?? undefined}
                 compact
                 disabled={isStreaming}
+                allowedProviders={projectSettings?.allowedProviders}
               />
 
               <div className="w-px h-4 bg-border/60 mx-1" />
@@ -231,6 +267,8 @@ export function ChatInput({ conversationId, onHeightChange }: ChatInputProps) {
                 modelName={selectedModel?.name}
               />
 
+              <CompareSelector disabled={isStreaming} />
+
               <div className="w-px h-4 bg-border/60 mx-1" />
 
               <ImageUpload
@@ -252,6 +290,15 @@ export function ChatInput({ conversationId, onHeightChange }: ChatInputProps) {
             </div>
 
             <div className="flex items-center gap-2">
+              <TokenMeter
+                conversationId={conversationId}
+                modelId={effectiveModelId}
+                draft={message}
+                images={images}
+                files={files}
+                supportsTools={supportsTools}
+              />
+
               <span className="text-[11px] text-muted-foreground/60 hidden sm:block">
                 {preferences.sendWithEnter ? (
                   <kbd className="font-mono">Enter</kbd>
@@ -0,0 +1,79 @@
+'use client'
+
+import { Columns2, ChevronDown } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuCheckboxItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { ModelIcon } from '@/components/model'
+import {
+  useModels,
+  useCompareMode,
+  useCompareModelIds,
+  useCompareActions,
+  MAX_COMPARE_MODELS,
+} from '@/stores'
+
+interface CompareSelectorProps {
+  disabled?: boolean
+}
+
+export function CompareSelector({ disabled = false }: CompareSelectorProps) {
+  const models = useModels().filter((m) => m.isEnabled)
+  const isCompareMode = useCompareMode()
+  const modelIds = useCompareModelIds()
+  const { setCompareMode, toggleModel } = useCompareActions()
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn('gap-2 h-8', isCompareMode && 'border-primary/50')}
+          disabled={disabled}
+        >
+          <Columns2 className="h-4 w-4" />
+          <span className="hidden sm:inline">Compare</span>
+          {isCompareMode && modelIds.length > 0 && (
+            <Badge variant="secondary" className="h-5 px-1.5 text-xs">
+              {modelIds.length}
+            </Badge>
+          )}
+          <ChevronDown className="h-3 w-3 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-72">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Compare models</span>
+          <Switch checked={isCompareMode} onCheckedChange={setCompareMode} />
+        </DropdownMenuLabel>
+        <p className="px-2 pb-2 text-xs text-muted-foreground">
+          Send the next message to up to {MAX_COMPARE_MODELS} models and pick the best answer.
+        </p>
+        <DropdownMenuSeparator />
+        {models.map((model) => (
+          <DropdownMenuCheckboxItem
+            key={model.id}
+            checked={modelIds.includes(model.id)}
+            onCheckedChange={() => toggleModel(model.id)}
+            onSelect={(e) => e.preventDefault()}
+          >
+            <div className="flex items-center gap-2">
+              <ModelIcon provider={model.provider} size="sm" />
+              <span className="text-sm">{model.name}</span>
+            </div>
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
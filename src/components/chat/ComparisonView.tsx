@@ -0,0 +1,170 @@
+'use client'
+
+import { Check, ChevronDown, GitBranch, Loader2, Square, X, AlertCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { ModelIcon } from '@/components/model'
+import { MarkdownRenderer } from './MarkdownRenderer'
+import { ThinkingDisplay } from './ThinkingDisplay'
+import { useComparison, useCompareActions, useModels } from '@/stores'
+import { getProviderFromModelId } from '@/lib/services/chat-streaming'
+import type { ComparisonResult } from '@/types'
+
+interface ComparisonViewProps {
+  conversationId: string
+  /** Called with the conversation the answer was adopted into (a new branch or the same conversation) */
+  onAdopted?: (conversationId: string) => void
+}
+
+function formatDuration(ms?: number): string | null {
+  if (ms === undefined) return null
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`
+}
+
+function formatCost(cost?: number): string | null {
+  if (cost === undefined) return null
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`
+}
+
+function ComparisonColumn({
+  result,
+  onAdopt,
+}: {
+  result: ComparisonResult
+  onAdopt: (modelId: string, asBranch: boolean) => void
+}) {
+  const models = useModels()
+  const model = models.find((m) => m.id === result.modelId)
+  const answeredBy = result.answeredBy ? models.find((m) => m.id === result.answeredBy) : null
+  const provider = result.provider ?? model?.provider ?? getProviderFromModelId(result.modelId)
+  const isActive = result.status === 'pending' || result.status === 'streaming'
+
+  const metrics = [
+    formatDuration(result.latencyMs),
+    result.firstTokenMs !== undefined && `first token ${formatDuration(result.firstTokenMs)}`,
+    result.usage && `${result.usage.inputTokens.toLocaleString()} in / ${result.usage.outputTokens.toLocaleString()} out`,
+    formatCost(result.usage?.estimatedCost),
+  ].filter(Boolean)
+
+  return (
+    <div className="flex min-w-0 flex-col rounded-xl border border-border/60 bg-card">
+      <div className="flex items-center gap-2 border-b border-border/60 px-3 py-2">
+        <ModelIcon provider={provider} size="sm" />
+        <span className="truncate text-sm font-medium">{model?.name ?? result.modelId}</span>
+        {answeredBy && (
+          <span className="truncate text-xs text-muted-foreground">via {answeredBy.name}</span>
+        )}
+        {isActive && <Loader2 className="ml-auto h-3.5 w-3.5 shrink-0 animate-spin text-muted-foreground" />}
+      </div>
+
+      <div className="max-h-[28rem] flex-1 overflow-y-auto px-3 py-2 scrollbar-thin">
+        {result.thinking && (
+          <ThinkingDisplay thinking={result.thinking} isStreaming={result.status === 'streaming' && !result.content} />
+        )}
+        {result.status === 'error' ? (
+          <div className="flex items-start gap-2 text-sm text-destructive">
+            <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+            <span>{result.error}</span>
+          </div>
+        ) : result.content ? (
+          <MarkdownRenderer content={result.content} />
+        ) : (
+          <p className="text-sm text-muted-foreground">Waiting for response...</p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 border-t border-border/60 px-3 py-2">
+        <span className="truncate text-[11px] tabular-nums text-muted-foreground">
+          {metrics.join(' · ')}
+        </span>
+        {result.status === 'done' && (
+          <div className="flex shrink-0 items-center">
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 rounded-r-none px-2 text-xs"
+              onClick={() => onAdopt(result.modelId, false)}
+            >
+              <Check className="mr-1 h-3 w-3" />
+              Use this
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button size="sm" variant="outline" className="h-7 rounded-l-none border-l-0 px-1">
+                  <ChevronDown className="h-3 w-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => onAdopt(result.modelId, true)}>
+                  <GitBranch className="mr-2 h-4 w-4" />
+                  Use in a new branch
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Side-by-side answers from a model comparison, shown below the conversation
+ * until one is adopted or the comparison is dismissed
+ */
+export function ComparisonView({ conversationId, onAdopted }: ComparisonViewProps) {
+  const comparison = useComparison()
+  const { stopComparison, clearComparison, adoptResult } = useCompareActions()
+
+  if (!comparison || comparison.conversationId !== conversationId) return null
+
+  const handleAdopt = async (modelId: string, asBranch: boolean) => {
+    const adoptedInto = await adoptResult(modelId, { asBranch })
+    if (adoptedInto) onAdopted?.(adoptedInto)
+  }
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="ml-auto w-fit max-w-[80%] rounded-2xl bg-muted px-4 py-2 text-sm whitespace-pre-wrap">
+        {comparison.input.content}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-muted-foreground">
+          Comparing {comparison.results.length} models
+        </span>
+        <div className="flex items-center gap-1">
+          {comparison.isRunning && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={stopComparison}>
+              <Square className="mr-1 h-3 w-3" />
+              Stop
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={clearComparison}>
+            <X className="mr-1 h-3 w-3" />
+            Dismiss
+          </Button>
+        </div>
+      </div>
+
+      <div
+        className={cn(
+          'grid gap-3',
+          comparison.results.length === 2 && 'md:grid-cols-2',
+          comparison.results.length === 3 && 'md:grid-cols-3',
+          comparison.results.length >= 4 && 'md:grid-cols-2 xl:grid-cols-4'
+        )}
+      >
+        {comparison.results.map((result) => (
+          <ComparisonColumn key={result.modelId} result={result} onAdopt={handleAdopt} />
+        ))}
+      </div>
+    </div>
+  )
+}
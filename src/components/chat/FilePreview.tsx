@@ -5,6 +5,8 @@ import {
   File,
   FileText,
   FileCode,
+  FileSpreadsheet,
+  Presentation,
   Image,
   X,
   AlertCircle,
@@ -39,6 +41,10 @@ function getFileIcon(fileType: FileType) {
       return <FileCode className="h-4 w-4 text-blue-500" />
     case 'document':
       return <FileText className="h-4 w-4 text-blue-600" />
+    case 'spreadsheet':
+      return <FileSpreadsheet className="h-4 w-4 text-emerald-600" />
+    case 'presentation':
+      return <Presentation className="h-4 w-4 text-orange-500" />
     case 'text':
       return <File className="h-4 w-4 text-gray-500" />
     case 'image':
@@ -92,6 +98,7 @@ export function FilePreview({
               {formatFileSize(file.size)}
               {file.language && ` · ${file.language}`}
               {file.pageCount && ` · ${file.pageCount} pages`}
+              {file.truncated && ' · truncated'}
             </p>
           </div>
 
@@ -20,15 +20,24 @@ import { ModelBadge } from '@/components/model'
 import type { Message, AIProvider, ImageAttachment, FileAttachment } from '@/types'
 import type { RequestIntent } from '@/lib/api/routing'
 import { isFileAttachment } from '@/types'
-import { useCurrentUser, useModels, useIsExecutingTools, useShowRoutingIndicator, useStreamingThinking } from '@/stores'
+import {
+  useCurrentUser,
+  useModels,
+  useIsExecutingTools,
+  useToolConfirmations,
+  useChatActions,
+  useShowRoutingIndicator,
+  useStreamingThinking,
+} from '@/stores'
 
 interface MessageBubbleProps {
   message: Message
   isStreaming?: boolean
   onBranch?: (messageId: string) => void
+  readOnly?: boolean
 }
 
-export function MessageBubble({ message, isStreaming, onBranch }: MessageBubbleProps) {
+export function MessageBubble({ message, isStreaming, onBranch, readOnly }: MessageBubbleProps) {
   const [copied, setCopied] = useState(false)
   const contentRef = useRef<HTMLDivElement>(null)
 
@@ -45,6 +54,8 @@ export function MessageBubble({ message, isStreaming, onBranch }: MessageBubbleP
   const user = useCurrentUser()
   const models = useModels()
   const isExecutingTools = useIsExecutingTools()
+  const toolConfirmations = useToolConfirmations()
+  const { resolveToolConfirmation } = useChatActions()
   const showRoutingIndicator = useShowRoutingIndicator()
   const streamingThinking = useStreamingThinking()
   const isUser = message.role === 'user'
@@ -67,6 +78,7 @@ export function MessageBubble({ message, isStreaming, onBranch }: MessageBubbleP
     if (id.startsWith('glean-')) return 'glean'
     if (id.startsWith('dust-')) return 'dust'
     if (id.startsWith('ondobot-')) return 'ondobot'
+    if (id.startsWith('local/')) return 'local'
     return 'anthropic'
   }
 
@@ -149,7 +161,8 @@ export function MessageBubble({ message, isStreaming, onBranch }: MessageBubbleP
         </div>
 
         <Avatar className="h-7 w-7 shrink-0 mt-1">
-          <AvatarImage src={user?.avatarUrl} />
+          {/* The viewer of a shared conversation is not its author */}
+          {!readOnly && <AvatarImage src={user?.avatarUrl} />}
           <AvatarFallback>
             <User className="h-3.5 w-3.5" />
           </AvatarFallback>
@@ -207,6 +220,8 @@ export function MessageBubble({ message, isStreaming, onBranch }: MessageBubbleP
               toolCalls={message.tool_calls!}
               executions={message.tool_executions}
               isExecuting={isExecutingTools}
+              confirmations={readOnly ? undefined : toolConfirmations}
+              onConfirm={resolveToolConfirmation}
             />
           )}
           {isStreaming && (
@@ -229,6 +244,7 @@ export function MessageBubble({ message, isStreaming, onBranch }: MessageBubbleP
               intent={routingInfo.intent as RequestIntent | undefined}
               wasAutoRouted={routingInfo.wasAutoRouted}
               confidence={routingInfo.confidence}
+              decisionId={routingInfo.decisionId}
               size="sm"
             />
           )}
@@ -245,11 +261,11 @@ export function MessageBubble({ message, isStreaming, onBranch }: MessageBubbleP
                 <TooltipContent side="bottom">{copied ? 'Copied!' : 'Copy'}</TooltipContent>
               </Tooltip>
 
-              {!isStreaming && message.content && (
-                <ReadAloudButton text={message.content} />
+              {!isStreaming && !readOnly && message.content && (
+                <ReadAloudButton text={message.content} conversationId={message.conversationId} />
               )}
 
-              {!isStreaming && (
+              {!isStreaming && !readOnly && (
                 <Tooltip>
                   <TooltipTrigger asChild>
                     <Button variant="ghost" size="icon" className="h-6 w-6">
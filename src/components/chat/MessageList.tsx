@@ -8,9 +8,11 @@ interface MessageListProps {
   streamingMessage?: string
   streamingThinking?: string
   onBranch?: (messageId: string) => void
+  /** Hide actions that need an account, e.g. on a public share page */
+  readOnly?: boolean
 }
 
-export function MessageList({ messages, streamingMessage, streamingThinking, onBranch }: MessageListProps) {
+export function MessageList({ messages, streamingMessage, streamingThinking, onBranch, readOnly }: MessageListProps) {
   if (messages.length === 0 && !streamingMessage && !streamingThinking) {
     return (
       <div className="flex h-full items-center justify-center text-muted-foreground">
@@ -26,6 +28,7 @@ export function MessageList({ messages, streamingMessage, streamingThinking, onB
           key={message.id}
           message={message}
           onBranch={onBranch}
+          readOnly={readOnly}
         />
       ))}
       {(streamingMessage || streamingThinking) && (
@@ -0,0 +1,65 @@
+'use client'
+
+import Link from 'next/link'
+import { FolderCog, Settings } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useChatStore, useModelStore, useProjectById } from '@/stores'
+import type { ProjectSettings } from '@/types'
+
+interface ProjectSettingsIndicatorProps {
+  conversationId: string
+  className?: string
+}
+
+function describeSettings(settings: ProjectSettings, modelName?: string): string[] {
+  const parts: string[] = []
+  if (settings.systemPrompt) parts.push('Custom instructions')
+  if (settings.defaultModel) parts.push(`Default model: ${modelName ?? settings.defaultModel}`)
+  if (settings.tools?.length) {
+    parts.push(`${settings.tools.length} tool${settings.tools.length === 1 ? '' : 's'}`)
+  }
+  if (settings.autoRouting !== undefined) {
+    parts.push(settings.autoRouting ? 'Auto-routing on' : 'Auto-routing off')
+  }
+  if (settings.allowedProviders?.length) {
+    parts.push(`Providers: ${settings.allowedProviders.join(', ')}`)
+  }
+  return parts
+}
+
+/**
+ * Shows which of a folder's settings apply to a conversation
+ */
+export function ProjectSettingsIndicator({ conversationId, className }: ProjectSettingsIndicatorProps) {
+  const projectId = useChatStore((s) => s.conversations[conversationId]?.projectId)
+  const project = useProjectById(projectId ?? '')
+  const defaultModel = useModelStore((s) =>
+    project?.settings?.defaultModel ? s.models[project.settings.defaultModel] : undefined
+  )
+
+  if (!project?.settings) return null
+
+  const parts = describeSettings(project.settings, defaultModel?.name)
+  if (parts.length === 0) return null
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-2 px-4 py-1.5 bg-muted/30 border-b text-xs',
+        className
+      )}
+    >
+      <FolderCog className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+      <span className="min-w-0 truncate text-muted-foreground">
+        <span className="text-foreground/80">{project.name}</span> settings: {parts.join(' · ')}
+      </span>
+      <Link
+        href={`/projects/${project.id}/settings`}
+        className="ml-auto flex-shrink-0 text-muted-foreground hover:text-foreground"
+      >
+        <Settings className="h-3 w-3" />
+        <span className="sr-only">Folder settings</span>
+      </Link>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { Brain, Router, Sparkles, Code, Database, MessageSquare, Zap } from 'lucide-react'
+import { Brain, Router, Sparkles, Code, Database, MessageSquare, Zap, Flag, Check } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import {
   Tooltip,
@@ -8,7 +8,17 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { useProviderPreferences, useRoutingActions, useRoutingCorrection } from '@/stores'
 import type { AIProvider } from '@/types'
 import type { RequestIntent } from '@/lib/api/routing'
 
@@ -17,6 +27,8 @@ interface RoutingIndicatorProps {
   intent?: RequestIntent
   wasAutoRouted?: boolean
   confidence?: number
+  /** Persisted routing decision; enables the correction menu */
+  decisionId?: string
   className?: string
   size?: 'sm' | 'md'
 }
@@ -28,6 +40,7 @@ const PROVIDER_COLORS: Record<AIProvider, string> = {
   openai: 'bg-green-500/10 text-green-600 border-green-500/20',
   dust: 'bg-purple-500/10 text-purple-600 border-purple-500/20',
   ondobot: 'bg-blue-500/10 text-blue-600 border-blue-500/20',
+  local: 'bg-slate-500/10 text-slate-600 border-slate-500/20',
 }
 
 // Provider display names
@@ -37,6 +50,7 @@ const PROVIDER_NAMES: Record<AIProvider, string> = {
   openai: 'GPT',
   dust: 'Dust',
   ondobot: 'OndoBot',
+  local: 'Local',
 }
 
 // Intent icons
@@ -62,6 +76,7 @@ export function RoutingIndicator({
   intent,
   wasAutoRouted = false,
   confidence,
+  decisionId,
   className,
   size = 'sm',
 }: RoutingIndicatorProps) {
@@ -78,45 +93,107 @@ export function RoutingIndicator({
   const iconSize = size === 'sm' ? 'h-3 w-3' : 'h-4 w-4'
 
   return (
-    <TooltipProvider>
-      <Tooltip>
-        <TooltipTrigger asChild>
-          <Badge
-            variant="outline"
-            className={cn(
-              'font-normal gap-1 border cursor-default',
-              providerColor,
-              sizeClasses[size],
-              className
-            )}
-          >
-            {wasAutoRouted && (
-              <Router className={cn(iconSize, 'opacity-60')} />
-            )}
-            <IntentIcon className={iconSize} />
-            <span>{providerName}</span>
-          </Badge>
-        </TooltipTrigger>
-        <TooltipContent side="top" className="max-w-xs">
-          <div className="space-y-1">
-            <p className="font-medium">
-              {wasAutoRouted ? 'Auto-routed' : 'Manually selected'}: {providerName}
-            </p>
-            {intentName && (
-              <p className="text-muted-foreground text-xs">
-                Intent: {intentName}
-                {confidence !== undefined && ` (${Math.round(confidence * 100)}% confidence)`}
-              </p>
-            )}
-            {wasAutoRouted && (
-              <p className="text-muted-foreground text-xs">
-                Request was automatically routed to the best provider based on content analysis.
+    <span className="inline-flex items-center gap-0.5">
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Badge
+              variant="outline"
+              className={cn(
+                'font-normal gap-1 border cursor-default',
+                providerColor,
+                sizeClasses[size],
+                className
+              )}
+            >
+              {wasAutoRouted && (
+                <Router className={cn(iconSize, 'opacity-60')} />
+              )}
+              <IntentIcon className={iconSize} />
+              <span>{providerName}</span>
+            </Badge>
+          </TooltipTrigger>
+          <TooltipContent side="top" className="max-w-xs">
+            <div className="space-y-1">
+              <p className="font-medium">
+                {wasAutoRouted ? 'Auto-routed' : 'Manually selected'}: {providerName}
               </p>
-            )}
-          </div>
-        </TooltipContent>
-      </Tooltip>
-    </TooltipProvider>
+              {intentName && (
+                <p className="text-muted-foreground text-xs">
+                  Intent: {intentName}
+                  {confidence !== undefined && ` (${Math.round(confidence * 100)}% confidence)`}
+                </p>
+              )}
+              {wasAutoRouted && (
+                <p className="text-muted-foreground text-xs">
+                  Request was automatically routed to the best provider based on content analysis.
+                </p>
+              )}
+            </div>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+      {decisionId && intent && (
+        <RoutingCorrectionMenu decisionId={decisionId} intent={intent} iconSize={iconSize} />
+      )}
+    </span>
+  )
+}
+
+/**
+ * "This should have gone to X" feedback menu for an auto-routed message
+ */
+function RoutingCorrectionMenu({
+  decisionId,
+  intent,
+  iconSize,
+}: {
+  decisionId: string
+  intent: RequestIntent
+  iconSize: string
+}) {
+  const correctedIntent = useRoutingCorrection(decisionId)
+  const providerPreferences = useProviderPreferences()
+  const { submitCorrection } = useRoutingActions()
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn('h-5 w-5', correctedIntent ? 'text-primary' : 'text-muted-foreground')}
+          aria-label="Report wrong routing"
+        >
+          <Flag className={iconSize} />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-56">
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+          This should have gone to…
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {(Object.keys(INTENT_NAMES) as RequestIntent[])
+          .filter((option) => option !== intent)
+          .map((option) => {
+            const Icon = INTENT_ICONS[option]
+            return (
+              <DropdownMenuItem
+                key={option}
+                onClick={() => submitCorrection(decisionId, option)}
+                className="gap-2"
+              >
+                <Icon className="h-3.5 w-3.5" />
+                <span className="flex-1">
+                  {INTENT_NAMES[option]}
+                  <span className="text-muted-foreground"> · {PROVIDER_NAMES[providerPreferences[option]]}</span>
+                </span>
+                {correctedIntent === option && <Check className="h-3.5 w-3.5" />}
+              </DropdownMenuItem>
+            )
+          })}
+      </DropdownMenuContent>
+    </DropdownMenu>
   )
 }
 
@@ -1,7 +1,7 @@
 'use client'
 
 import { cn } from '@/lib/utils'
-import { FileText } from 'lucide-react'
+import { BookOpen, FileText } from 'lucide-react'
 import type { CitationSourceType } from '@/types'
 
 interface SourceTypeIconProps {
@@ -23,6 +23,7 @@ const sourceLabels: Record<CitationSourceType, string> = {
   jira: 'Jira',
   gdrive: 'Google Drive',
   notion: 'Notion',
+  project: 'Knowledge Base',
   custom: 'Document',
 }
 
@@ -103,6 +104,7 @@ const iconComponents: Record<CitationSourceType, React.FC<{ size: number }>> = {
   jira: JiraIcon,
   gdrive: GoogleDriveIcon,
   notion: NotionIcon,
+  project: ({ size }) => <BookOpen width={size} height={size} className="text-muted-foreground" />,
   custom: ({ size }) => <FileText width={size} height={size} className="text-muted-foreground" />,
 }
 
@@ -136,6 +138,7 @@ export function getSourceTypeColor(type: CitationSourceType): string {
     jira: 'text-blue-500',
     gdrive: 'text-green-600',
     notion: 'text-gray-800',
+    project: 'text-gray-500',
     custom: 'text-gray-500',
   }
   return colors[type] || colors.custom
@@ -0,0 +1,106 @@
+'use client'
+
+import { useMemo } from 'react'
+import { cn } from '@/lib/utils'
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
+import { useMessages, useEnabledTools } from '@/stores'
+import { useTokenCount } from '@/hooks/useTokenCount'
+import { buildApiMessages } from '@/lib/services/chat-streaming'
+import { getToolsConfig } from '@/lib/services/tool-execution'
+import type { ChatCompletionMessage, ImageAttachment, FileAttachment, TokenCountRequest } from '@/types'
+
+interface TokenMeterProps {
+  conversationId: string
+  modelId: string
+  draft: string
+  images: ImageAttachment[]
+  files: FileAttachment[]
+  supportsTools: boolean
+}
+
+// Only dimensions and detail matter for image token cost; skip the image data.
+// Providers estimate images sent this way from their width and height.
+function withoutImageData(images?: ImageAttachment[]): ImageAttachment[] | undefined {
+  return images?.map((img) => ({ ...img, url: '', base64: undefined }))
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(tokens >= 10_000 ? 0 : 1)}k`
+  return String(tokens)
+}
+
+/**
+ * Live "tokens / context window" meter for the chat input.
+ * The conversation history and the draft are counted separately so typing
+ * only re-counts the draft.
+ */
+export function TokenMeter({ conversationId, modelId, draft, images, files, supportsTools }: TokenMeterProps) {
+  const messages = useMessages(conversationId)
+  const enabledTools = useEnabledTools()
+
+  const historyRequest = useMemo<TokenCountRequest | null>(() => {
+    if (messages.length === 0) return null
+    return {
+      model: modelId,
+      messages: buildApiMessages(messages).map((msg) => ({ ...msg, images: withoutImageData(msg.images) })),
+      tools: supportsTools ? getToolsConfig(enabledTools) : undefined,
+    }
+  }, [messages, modelId, enabledTools, supportsTools])
+
+  const draftRequest = useMemo<TokenCountRequest | null>(() => {
+    const readyFiles = files.filter((f) => f.status === 'ready')
+    if (!draft.trim() && images.length === 0 && readyFiles.length === 0) return null
+
+    const draftMessage: ChatCompletionMessage = {
+      role: 'user',
+      content: draft,
+      ...(images.length > 0 && { images: withoutImageData(images) }),
+      ...(readyFiles.length > 0 && { files: readyFiles }),
+    }
+    return { model: modelId, messages: [draftMessage] }
+  }, [draft, images, files, modelId])
+
+  const { count: history } = useTokenCount(historyRequest, 0)
+  const { count: pending } = useTokenCount(draftRequest)
+
+  const contextWindow = pending?.contextWindow ?? history?.contextWindow
+  if (!contextWindow) return null
+
+  const historyTokens = historyRequest ? history?.inputTokens ?? 0 : 0
+  const draftTokens = draftRequest ? pending?.inputTokens ?? 0 : 0
+  const total = historyTokens + draftTokens
+  if (total === 0) return null
+
+  const usage = total / contextWindow
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span
+            className={cn(
+              'text-[11px] tabular-nums cursor-default',
+              usage >= 0.9
+                ? 'text-destructive'
+                : usage >= 0.75
+                  ? 'text-amber-600 dark:text-amber-500'
+                  : 'text-muted-foreground/60'
+            )}
+          >
+            {formatTokens(total)} / {formatTokens(contextWindow)}
+          </span>
+        </TooltipTrigger>
+        <TooltipContent side="top" className="text-xs">
+          <div className="space-y-0.5">
+            <p>Conversation: {historyTokens.toLocaleString()} tokens</p>
+            <p>Message: {draftTokens.toLocaleString()} tokens</p>
+            <p className="text-muted-foreground">
+              {Math.round(usage * 100)}% of {contextWindow.toLocaleString()} token context window
+            </p>
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
@@ -1,19 +1,136 @@
 'use client'
 
 import { useState } from 'react'
-import { ChevronDown, ChevronRight, Wrench, CheckCircle2, XCircle, Loader2 } from 'lucide-react'
+import {
+  ChevronDown,
+  ChevronRight,
+  Wrench,
+  CheckCircle2,
+  XCircle,
+  Loader2,
+  ShieldAlert,
+  Ban,
+} from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import type { ToolCall, ToolExecutionRecord } from '@/types'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import type {
+  ToolCall,
+  ToolConfirmationDecision,
+  ToolConfirmationRequest,
+  ToolExecutionRecord,
+  ToolSideEffect,
+} from '@/types'
+
+const SIDE_EFFECT_LABELS: Record<ToolSideEffect, string> = {
+  read: 'Read only',
+  write: 'Makes changes',
+  destructive: 'Destructive',
+}
+
+interface ToolConfirmationCardProps {
+  request: ToolConfirmationRequest
+  onConfirm: (decision: ToolConfirmationDecision) => void
+}
+
+/**
+ * Shows the exact arguments of a tool call that needs approval; the user can
+ * approve them as they are, edit them first, or reject the call with a reason
+ * the model gets back
+ */
+function ToolConfirmationCard({ request, onConfirm }: ToolConfirmationCardProps) {
+  const original = JSON.stringify(request.toolCall.arguments, null, 2)
+  const [argumentsText, setArgumentsText] = useState(original)
+  const [isRejecting, setIsRejecting] = useState(false)
+  const [reason, setReason] = useState('')
+
+  let parsedArguments: Record<string, unknown> | null = null
+  try {
+    const parsed = JSON.parse(argumentsText)
+    if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
+      parsedArguments = parsed
+    }
+  } catch {
+    // Invalid JSON, approval stays disabled
+  }
+
+  const handleApprove = () => {
+    if (!parsedArguments) return
+    const edited = JSON.stringify(parsedArguments, null, 2) !== original
+    onConfirm({ approved: true, ...(edited && { arguments: parsedArguments }) })
+  }
+
+  return (
+    <div className="px-3 pb-3 space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        <ShieldAlert className="h-4 w-4 shrink-0 text-amber-500" />
+        <span>This tool wants to run with these arguments. Approve it?</span>
+      </div>
+
+      <Textarea
+        value={argumentsText}
+        onChange={(e) => setArgumentsText(e.target.value)}
+        className="font-mono text-xs min-h-[120px]"
+        spellCheck={false}
+        aria-label="Tool arguments"
+      />
+      {!parsedArguments && (
+        <p className="text-xs text-destructive">Arguments must be a JSON object</p>
+      )}
+
+      {isRejecting ? (
+        <div className="flex gap-2">
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Why not? The assistant sees this (optional)"
+            className="h-8 text-sm"
+            autoFocus
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') onConfirm({ approved: false, reason })
+            }}
+          />
+          <Button size="sm" variant="destructive" onClick={() => onConfirm({ approved: false, reason })}>
+            Reject
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setIsRejecting(false)}>
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="outline" onClick={() => setIsRejecting(true)}>
+            Reject
+          </Button>
+          <Button size="sm" onClick={handleApprove} disabled={!parsedArguments}>
+            {parsedArguments && JSON.stringify(parsedArguments, null, 2) !== original
+              ? 'Approve edited'
+              : 'Approve'}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
 
 interface ToolCallDisplayProps {
   toolCalls: ToolCall[]
   executions?: ToolExecutionRecord[]
   isExecuting?: boolean
+  /** Calls waiting for the user's approval, by tool call ID */
+  confirmations?: Record<string, ToolConfirmationRequest>
+  onConfirm?: (toolCallId: string, decision: ToolConfirmationDecision) => void
 }
 
-export function ToolCallDisplay({ toolCalls, executions, isExecuting }: ToolCallDisplayProps) {
+export function ToolCallDisplay({
+  toolCalls,
+  executions,
+  isExecuting,
+  confirmations,
+  onConfirm,
+}: ToolCallDisplayProps) {
   const [expandedCalls, setExpandedCalls] = useState<Set<string>>(new Set())
 
   const toggleExpand = (id: string) => {
@@ -36,8 +153,9 @@ export function ToolCallDisplay({ toolCalls, executions, isExecuting }: ToolCall
     <div className="space-y-2 mt-2">
       {toolCalls.map((toolCall) => {
         const execution = getExecution(toolCall.id)
+        const confirmation = confirmations?.[toolCall.id]
         const isExpanded = expandedCalls.has(toolCall.id)
-        const isRunning = isExecuting && !execution
+        const isRunning = isExecuting && !execution && !confirmation
 
         let args: Record<string, unknown> = {}
         try {
@@ -67,13 +185,23 @@ export function ToolCallDisplay({ toolCalls, executions, isExecuting }: ToolCall
                   {toolCall.function.name}
                 </span>
                 <div className="flex-1" />
-                {isRunning ? (
+                {confirmation ? (
+                  <Badge variant="outline" className="gap-1 border-amber-500/50 text-amber-600 dark:text-amber-400">
+                    <ShieldAlert className="h-3 w-3" />
+                    {SIDE_EFFECT_LABELS[confirmation.sideEffect]} · Needs approval
+                  </Badge>
+                ) : isRunning ? (
                   <Badge variant="secondary" className="gap-1">
                     <Loader2 className="h-3 w-3 animate-spin" />
                     Running
                   </Badge>
                 ) : execution ? (
-                  execution.result.success ? (
+                  execution.confirmation?.approved === false ? (
+                    <Badge variant="secondary" className="gap-1">
+                      <Ban className="h-3 w-3" />
+                      Rejected
+                    </Badge>
+                  ) : execution.result.success ? (
                     <Badge variant="secondary" className="gap-1 bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
                       <CheckCircle2 className="h-3 w-3" />
                       Success
@@ -88,7 +216,12 @@ export function ToolCallDisplay({ toolCalls, executions, isExecuting }: ToolCall
               </div>
             </Button>
 
-            {isExpanded && (
+            {confirmation && onConfirm ? (
+              <ToolConfirmationCard
+                request={confirmation}
+                onConfirm={(decision) => onConfirm(toolCall.id, decision)}
+              />
+            ) : isExpanded && (
               <div className="px-3 pb-3 space-y-3">
                 {/* Arguments */}
                 <div>
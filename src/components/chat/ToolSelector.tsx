@@ -1,7 +1,7 @@
 'use client'
 
 import { useEffect } from 'react'
-import { Wrench, ChevronDown, AlertCircle } from 'lucide-react'
+import { Wrench, ChevronDown, AlertCircle, RefreshCw } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import {
@@ -19,8 +19,33 @@ import {
   TooltipTrigger,
   TooltipProvider,
 } from '@/components/ui/tooltip'
-import { toolRegistry } from '@/lib/tools'
-import { useEnabledTools, useChatActions } from '@/stores'
+import { toolRegistry, isMcpToolName } from '@/lib/tools'
+import { useWorkspaceMcpTools, useRefreshMcpCatalog } from '@/lib/queries'
+import { useEnabledTools, useChatActions, useActiveWorkspaceId } from '@/stores'
+import type { McpServerHealth, McpServerStatus } from '@/types'
+
+const HEALTH_COLORS: Record<McpServerHealth, string> = {
+  connected: 'bg-green-500',
+  error: 'bg-destructive',
+  disabled: 'bg-muted-foreground',
+}
+
+function getServerSummary(server: McpServerStatus): string {
+  switch (server.health) {
+    case 'connected':
+      return [
+        `${server.toolCount} ${server.toolCount === 1 ? 'tool' : 'tools'}`,
+        server.resourceCount > 0 && `${server.resourceCount} resources`,
+        server.promptCount > 0 && `${server.promptCount} prompts`,
+      ]
+        .filter(Boolean)
+        .join(', ')
+    case 'error':
+      return server.error || 'Unavailable'
+    default:
+      return 'Disabled'
+  }
+}
 
 interface ToolSelectorProps {
   supportsTools?: boolean
@@ -30,7 +55,15 @@ interface ToolSelectorProps {
 export function ToolSelector({ supportsTools = true, modelName }: ToolSelectorProps) {
   const enabledTools = useEnabledTools()
   const { setEnabledTools } = useChatActions()
-  const allTools = toolRegistry.getAllTools()
+  const activeWorkspaceId = useActiveWorkspaceId()
+  const { data: mcpCatalog, isFetching: isCheckingServers } = useWorkspaceMcpTools(activeWorkspaceId)
+  const refreshMcpCatalog = useRefreshMcpCatalog()
+
+  // MCP tools come from the catalog; the registry only catches up after render
+  const builtinTools = toolRegistry.getAllTools().filter((tool) => !isMcpToolName(tool.name))
+  const mcpServers = mcpCatalog?.servers ?? []
+  const mcpTools = mcpCatalog?.tools ?? []
+  const allTools = [...builtinTools, ...mcpTools]
 
   // Clear enabled tools when switching to a model that doesn't support them
   useEffect(() => {
@@ -55,6 +88,24 @@ export function ToolSelector({ supportsTools = true, modelName }: ToolSelectorPr
     setEnabledTools([])
   }
 
+  const renderTool = (tool: { name: string; description: string }) => (
+    <DropdownMenuCheckboxItem
+      key={tool.name}
+      checked={enabledTools.includes(tool.name)}
+      onCheckedChange={() => handleToggleTool(tool.name)}
+      className="flex flex-col items-start py-2"
+    >
+      <div className="flex items-center gap-2 w-full">
+        <span className="font-mono text-sm font-medium">
+          {tool.name}
+        </span>
+      </div>
+      <span className="text-xs text-muted-foreground mt-0.5 line-clamp-2">
+        {tool.description}
+      </span>
+    </DropdownMenuCheckboxItem>
+  )
+
   // If tools not supported, show disabled button with tooltip
   if (!supportsTools) {
     return (
@@ -101,7 +152,7 @@ export function ToolSelector({ supportsTools = true, modelName }: ToolSelectorPr
           <ChevronDown className="h-3 w-3 opacity-50" />
         </Button>
       </DropdownMenuTrigger>
-      <DropdownMenuContent align="start" className="w-72">
+      <DropdownMenuContent align="start" className="w-72 max-h-[60vh] overflow-y-auto">
         <DropdownMenuLabel className="flex items-center justify-between">
           <span>Available Tools</span>
           <div className="flex gap-1">
@@ -124,22 +175,41 @@ export function ToolSelector({ supportsTools = true, modelName }: ToolSelectorPr
           </div>
         </DropdownMenuLabel>
         <DropdownMenuSeparator />
-        {allTools.map((tool) => (
-          <DropdownMenuCheckboxItem
-            key={tool.name}
-            checked={enabledTools.includes(tool.name)}
-            onCheckedChange={() => handleToggleTool(tool.name)}
-            className="flex flex-col items-start py-2"
-          >
-            <div className="flex items-center gap-2 w-full">
-              <span className="font-mono text-sm font-medium">
-                {tool.name}
+        {builtinTools.map(renderTool)}
+        {mcpServers.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="flex items-center justify-between">
+              <span>MCP Servers</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => activeWorkspaceId && refreshMcpCatalog.mutate(activeWorkspaceId)}
+                disabled={isCheckingServers || refreshMcpCatalog.isPending}
+              >
+                <RefreshCw
+                  className={cn(
+                    'h-3 w-3 mr-1',
+                    (isCheckingServers || refreshMcpCatalog.isPending) && 'animate-spin'
+                  )}
+                />
+                Check
+              </Button>
+            </DropdownMenuLabel>
+          </>
+        )}
+        {mcpServers.map((server) => (
+          <div key={server.serverId}>
+            <div className="flex items-center gap-2 px-2 py-1.5" title={server.error}>
+              <span className={cn('h-2 w-2 shrink-0 rounded-full', HEALTH_COLORS[server.health])} />
+              <span className="font-mono text-xs font-medium">{server.name}</span>
+              <span className="truncate text-xs text-muted-foreground">
+                {getServerSummary(server)}
               </span>
             </div>
-            <span className="text-xs text-muted-foreground mt-0.5 line-clamp-2">
-              {tool.description}
-            </span>
-          </DropdownMenuCheckboxItem>
+            {mcpTools.filter((tool) => tool.serverId === server.serverId).map(renderTool)}
+          </div>
         ))}
         {allTools.length === 0 && (
           <div className="px-2 py-4 text-center text-sm text-muted-foreground">
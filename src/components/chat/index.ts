@@ -9,6 +9,9 @@ export { TypingIndicator } from './TypingIndicator'
 export { ToolCallDisplay, ToolResultDisplay } from './ToolCallDisplay'
 export { ToolSelector } from './ToolSelector'
 export { PromptSelector } from './PromptSelector'
+export { TokenMeter } from './TokenMeter'
+export { CompareSelector } from './CompareSelector'
+export { ComparisonView } from './ComparisonView'
 export { ReadAloudButton } from './AudioPlayer'
 export { ImageUpload, ImagePreviewList } from './ImageUpload'
 export { FileUpload, FileDropZone } from './FileUpload'
@@ -17,4 +20,5 @@ export { SourceTypeIcon, getSourceTypeLabel, getSourceTypeColor } from './Source
 export { CitationInline } from './CitationInline'
 export { CitationsList, CitationsCount } from './CitationsList'
 export { CitedContent, ContentWithCitations } from './CitedContent'
+export { ProjectSettingsIndicator } from './ProjectSettingsIndicator'
 export { RoutingIndicator, RoutingIndicatorCompact } from './RoutingIndicator'
@@ -12,18 +12,31 @@ import {
   GitBranch,
   ChevronRight,
   ChevronDown,
+  Download,
+  Link2,
 } from 'lucide-react'
 import { useDraggable } from '@dnd-kit/core'
 import { cn, formatRelativeTime } from '@/lib/utils'
+import { conversationApi } from '@/lib/api/client/conversations'
 import { Button } from '@/components/ui/button'
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
-import type { Conversation } from '@/types'
+import { ShareConversationDialog } from './ShareConversationDialog'
+import type { Conversation, ConversationExportFormat } from '@/types'
+
+const EXPORT_OPTIONS: Array<{ format: ConversationExportFormat; label: string }> = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+  { format: 'html', label: 'HTML' },
+]
 
 interface ConversationItemProps {
   conversation: Conversation
@@ -70,6 +83,7 @@ export function ConversationItem({
 }: ConversationItemProps) {
   const [isBranchesExpanded, setIsBranchesExpanded] = useState(false)
   const [isEditing, setIsEditing] = useState(false)
+  const [isShareOpen, setIsShareOpen] = useState(false)
   const [editTitle, setEditTitle] = useState(conversation.title)
   const inputRef = useRef<HTMLInputElement>(null)
 
@@ -246,6 +260,37 @@ export function ConversationItem({
                   Move
                 </DropdownMenuItem>
               )}
+              <DropdownMenuItem onClick={(e) => { e.stopPropagation(); setIsShareOpen(true) }}>
+                <Link2 className="h-4 w-4 mr-2" />
+                Share
+              </DropdownMenuItem>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger onClick={(e) => e.stopPropagation()}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {EXPORT_OPTIONS.map(({ format, label }) => (
+                    <DropdownMenuItem key={format} asChild>
+                      <a
+                        href={conversationApi.getExportUrl(conversation.id, format)}
+                        download
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        {label}
+                      </a>
+                    </DropdownMenuItem>
+                  ))}
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      window.open(conversationApi.getExportUrl(conversation.id, 'html', { print: true }), '_blank')
+                    }}
+                  >
+                    PDF (print)
+                  </DropdownMenuItem>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
               {onDelete && (
                 <>
                   <DropdownMenuSeparator />
@@ -263,6 +308,13 @@ export function ConversationItem({
         </div>
       </div>
 
+      <ShareConversationDialog
+        open={isShareOpen}
+        onOpenChange={setIsShareOpen}
+        conversationId={conversation.id}
+        conversationTitle={conversation.title}
+      />
+
       {/* Expanded branches — indented with left border */}
       {hasBranches && isBranchesExpanded && (
         <div className="ml-3 pl-2 border-l border-border/40 flex flex-col gap-0.5">
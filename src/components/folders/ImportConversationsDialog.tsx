@@ -0,0 +1,183 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Upload } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { Project, FolderTreeNode } from '@/types'
+
+const NONE = '__none__'
+
+interface ImportConversationsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSubmit: (data: { file: File; projectId: string | null; folderId: string | null }) => Promise<void>
+  projects: Project[]
+  foldersByProject: Record<string, FolderTreeNode[]>
+  defaultProjectId?: string | null
+}
+
+function flattenFolders(folders: FolderTreeNode[], depth = 0): Array<{ id: string; label: string }> {
+  return folders.flatMap((folder) => [
+    // Non-breaking spaces so the indentation survives in the option label
+    { id: folder.id, label: `${'\u00A0\u00A0'.repeat(depth)}${folder.name}` },
+    ...flattenFolders(folder.children, depth + 1),
+  ])
+}
+
+export function ImportConversationsDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  projects,
+  foldersByProject,
+  defaultProjectId,
+}: ImportConversationsDialogProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [projectId, setProjectId] = useState<string>(NONE)
+  const [folderId, setFolderId] = useState<string>(NONE)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setProjectId(defaultProjectId ?? NONE)
+      setFolderId(NONE)
+    }
+  }, [open, defaultProjectId])
+
+  const folderOptions = useMemo(
+    () => (projectId === NONE ? [] : flattenFolders(foldersByProject[projectId] || [])),
+    [projectId, foldersByProject]
+  )
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!file) return
+
+    setIsSubmitting(true)
+    try {
+      await onSubmit({
+        file,
+        projectId: projectId === NONE ? null : projectId,
+        folderId: folderId === NONE ? null : folderId,
+      })
+      setFile(null)
+      onOpenChange(false)
+    } catch {
+      // The caller reports the error; stay open so the user can retry
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (isSubmitting) return
+    if (!newOpen) setFile(null)
+    onOpenChange(newOpen)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Upload className="h-5 w-5" />
+              Import Conversations
+            </DialogTitle>
+            <DialogDescription>
+              Upload a ChatGPT or Claude data export (.zip or conversations.json), or a
+              conversation exported from Ondo AI as JSON.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">Export file</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".zip,.json,application/zip,application/json"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <Select
+                value={projectId}
+                onValueChange={(value) => {
+                  setProjectId(value)
+                  setFolderId(NONE)
+                }}
+                disabled={isSubmitting}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No Project (Recent)</SelectItem>
+                  {projects.map((project) => (
+                    <SelectItem key={project.id} value={project.id}>
+                      {project.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {folderOptions.length > 0 && (
+              <div className="space-y-2">
+                <Label>Folder</Label>
+                <Select value={folderId} onValueChange={setFolderId} disabled={isSubmitting}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No folder</SelectItem>
+                    {folderOptions.map((folder) => (
+                      <SelectItem key={folder.id} value={folder.id}>
+                        {folder.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!file || isSubmitting}>
+              {isSubmitting ? 'Importing...' : 'Import'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,147 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { BookOpen, FileCode, FileText, Loader2, Trash2, Upload } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { ConfirmDeleteDialog } from '@/components/ui/confirm-delete-dialog'
+import { formatRelativeTime } from '@/lib/utils'
+import { formatFileSize } from '@/lib/files'
+import {
+  useDeleteProjectDocument,
+  useProjectDocuments,
+  useUploadProjectDocument,
+} from '@/lib/queries'
+import type { ProjectDocument } from '@/types'
+
+/** Documents, spreadsheets, presentations, text and code; not images */
+const ACCEPTED_FILES = [
+  '.pdf', '.docx', '.xlsx', '.csv', '.pptx', '.html', '.htm',
+  '.txt', '.md', '.markdown', '.json', '.yaml', '.yml', '.xml', '.log',
+  '.js', '.jsx', '.ts', '.tsx', '.py', '.go', '.rs', '.java', '.rb', '.php',
+  '.sh', '.sql', '.css',
+].join(',')
+
+interface KnowledgeBaseCardProps {
+  projectId: string
+}
+
+export function KnowledgeBaseCard({ projectId }: KnowledgeBaseCardProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [pendingDelete, setPendingDelete] = useState<ProjectDocument | null>(null)
+  const { data: documents = [], isLoading } = useProjectDocuments(projectId)
+  const uploadDocument = useUploadProjectDocument()
+  const deleteDocument = useDeleteProjectDocument()
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files) return
+    // One at a time: each upload is chunked and embedded before it returns
+    for (const file of Array.from(files)) {
+      await uploadDocument.mutateAsync({ projectId, file }).catch(() => {
+        // Reported by the mutation; carry on with the remaining files
+      })
+    }
+    if (inputRef.current) inputRef.current.value = ''
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Knowledge Base</CardTitle>
+            <CardDescription>
+              Documents that conversations in this folder search automatically and cite in their answers
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => inputRef.current?.click()}
+            disabled={uploadDocument.isPending}
+          >
+            {uploadDocument.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            {uploadDocument.isPending ? 'Indexing...' : 'Upload'}
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            accept={ACCEPTED_FILES}
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : documents.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-6 text-center text-sm text-muted-foreground">
+            <BookOpen className="h-8 w-8" />
+            <p>No documents yet. Upload PDFs, Office documents, text or code files.</p>
+          </div>
+        ) : (
+          <ul className="divide-y">
+            {documents.map((document) => {
+              const Icon = document.fileType === 'code' ? FileCode : FileText
+              return (
+                <li key={document.id} className="flex items-center gap-3 py-2">
+                  <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium">{document.name}</p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {formatFileSize(document.size)}
+                      {document.status === 'ready' && ` · ${document.chunkCount} chunks`}
+                      {document.uploadedBy && ` · ${document.uploadedBy}`}
+                      {` · ${formatRelativeTime(document.createdAt)}`}
+                    </p>
+                  </div>
+                  {document.status === 'processing' && <Badge variant="secondary">Indexing</Badge>}
+                  {document.status === 'failed' && (
+                    <Badge variant="destructive" title={document.error}>
+                      Failed
+                    </Badge>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => setPendingDelete(document)}
+                    disabled={deleteDocument.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Remove {document.name}</span>
+                  </Button>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </CardContent>
+
+      <ConfirmDeleteDialog
+        open={!!pendingDelete}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+        onConfirm={() => {
+          if (pendingDelete) {
+            deleteDocument.mutate({ projectId, documentId: pendingDelete.id })
+          }
+          setPendingDelete(null)
+        }}
+        title="Remove document?"
+        description={
+          pendingDelete
+            ? `"${pendingDelete.name}" will no longer be used to answer questions in this folder.`
+            : undefined
+        }
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,169 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, Copy, Link2, Loader2, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { formatRelativeTime } from '@/lib/utils'
+import { useConversationShares, useCreateShare, useRevokeShare } from '@/lib/queries'
+
+const NEVER = 'never'
+
+const EXPIRY_OPTIONS = [
+  { value: '1', label: '1 day' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: NEVER, label: 'Never' },
+]
+
+interface ShareConversationDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  conversationId: string
+  conversationTitle: string
+}
+
+export function ShareConversationDialog({
+  open,
+  onOpenChange,
+  conversationId,
+  conversationTitle,
+}: ShareConversationDialogProps) {
+  const [expiry, setExpiry] = useState('7')
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+
+  const { data: shares = [], isLoading } = useConversationShares(open ? conversationId : null)
+  const createShare = useCreateShare()
+  const revokeShare = useRevokeShare()
+
+  const handleCopy = async (shareId: string, url: string) => {
+    await navigator.clipboard.writeText(url)
+    setCopiedId(shareId)
+    setTimeout(() => setCopiedId(null), 2000)
+  }
+
+  const handleCreate = async () => {
+    try {
+      const share = await createShare.mutateAsync({
+        conversationId,
+        expiresInDays: expiry === NEVER ? undefined : Number(expiry),
+      })
+      await handleCopy(share.id, share.url)
+      toast.success('Share link copied to clipboard')
+    } catch {
+      // Error toast is shown by the mutation
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            Share Conversation
+          </DialogTitle>
+          <DialogDescription>
+            Anyone with the link can read &quot;{conversationTitle}&quot; as it is now. Messages
+            sent after the link is created are not shared.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label>Link expires after</Label>
+              <Select value={expiry} onValueChange={setExpiry} disabled={createShare.isPending}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleCreate} disabled={createShare.isPending}>
+              {createShare.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create link
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Active links</Label>
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : shares.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-2">
+                This conversation is not shared.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {shares.map((share) => (
+                  <div key={share.id} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Input value={share.url} readOnly className="h-8 text-xs font-mono" />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        onClick={() => handleCopy(share.id, share.url)}
+                      >
+                        {copiedId === share.id ? (
+                          <Check className="h-4 w-4 text-green-500" />
+                        ) : (
+                          <Copy className="h-4 w-4" />
+                        )}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0 text-destructive"
+                        onClick={() => revokeShare.mutate({ conversationId, shareId: share.id })}
+                        disabled={revokeShare.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Created {formatRelativeTime(share.createdAt)}
+                      {' · '}
+                      {share.expiresAt && share.expiresAt <= new Date()
+                        ? 'Expired'
+                        : share.expiresAt
+                          ? `Expires ${share.expiresAt.toLocaleDateString()}`
+                          : 'Never expires'}
+                      {' · '}
+                      {share.viewCount} {share.viewCount === 1 ? 'view' : 'views'}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -3,3 +3,6 @@ export { FolderItem } from './FolderItem'
 export { ConversationItem } from './ConversationItem'
 export { CreateFolderDialog } from './CreateFolderDialog'
 export { MoveConversationDialog } from './MoveConversationDialog'
+export { ImportConversationsDialog } from './ImportConversationsDialog'
+export { ShareConversationDialog } from './ShareConversationDialog'
+export { KnowledgeBaseCard } from './KnowledgeBaseCard'
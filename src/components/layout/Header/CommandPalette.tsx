@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import {
   MessageSquare,
@@ -9,6 +9,7 @@ import {
   Settings,
   Plus,
   Search,
+  Loader2,
 } from 'lucide-react'
 import { Dialog, DialogContent } from '@/components/ui/dialog'
 import {
@@ -27,10 +28,14 @@ import {
   useFolders,
   useChatActions,
   useActiveWorkspaceId,
+  useCurrentUser,
 } from '@/stores'
-import { usePrompts as usePromptsQuery } from '@/lib/queries'
+import { usePrompts as usePromptsQuery, useConversationSearch } from '@/lib/queries'
 
 const ALWAYS_SHOW_PREFIX = 'search-all'
+// Server matches may share no words with the input, so cmdk must not filter them out
+const SEARCH_RESULT_PREFIX = 'search-result'
+const SEARCH_DEBOUNCE_MS = 250
 
 export function CommandPalette() {
   const router = useRouter()
@@ -42,7 +47,22 @@ export function CommandPalette() {
   const { data: prompts = [] } = usePromptsQuery({ userId: 'user-1' }) // TODO: Get from auth
   const { createConversation, setActiveConversation } = useChatActions()
 
+  const currentUser = useCurrentUser()
+
   const [inputValue, setInputValue] = useState('')
+  const [debouncedQuery, setDebouncedQuery] = useState('')
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(inputValue.trim()), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [inputValue])
+
+  const { data: searchPage, isFetching: isSearching } = useConversationSearch({
+    userId: currentUser?.id ?? '',
+    workspaceId: activeWorkspaceId,
+    query: debouncedQuery,
+  })
+  const searchResults = inputValue.trim() ? searchPage?.results ?? [] : []
 
   const handleSelect = (callback: () => void) => {
     callback()
@@ -65,7 +85,7 @@ export function CommandPalette() {
 
   // Custom filter: always show the "Search conversations" item, normal matching for rest
   const filter = useCallback((value: string, search: string) => {
-    if (value.startsWith(ALWAYS_SHOW_PREFIX)) return 1
+    if (value.startsWith(ALWAYS_SHOW_PREFIX) || value.startsWith(SEARCH_RESULT_PREFIX)) return 1
     if (value.toLowerCase().includes(search.toLowerCase())) return 1
     return 0
   }, [])
@@ -97,7 +117,30 @@ export function CommandPalette() {
                 <CommandItem value={ALWAYS_SHOW_PREFIX} onSelect={() => handleSelect(handleSearchAll)}>
                   <Search className="mr-2 h-4 w-4" />
                   Search all conversations for &ldquo;{inputValue.trim()}&rdquo;
+                  {isSearching && <Loader2 className="ml-auto h-4 w-4 animate-spin text-muted-foreground" />}
                 </CommandItem>
+                {searchResults.map((result) => (
+                  <CommandItem
+                    key={result.conversation.id}
+                    value={`${SEARCH_RESULT_PREFIX} ${result.conversation.id}`}
+                    onSelect={() =>
+                      handleSelect(() => {
+                        setActiveConversation(result.conversation.id)
+                        router.push(`/chat/${result.conversation.id}`)
+                      })
+                    }
+                  >
+                    <MessageSquare className="mr-2 h-4 w-4 shrink-0" />
+                    <div className="min-w-0">
+                      <p className="truncate">{result.conversation.title}</p>
+                      {result.matchingMessages[0] && (
+                        <p className="truncate text-xs text-muted-foreground">
+                          {result.matchingMessages[0].snippet}
+                        </p>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
               </CommandGroup>
             )}
 
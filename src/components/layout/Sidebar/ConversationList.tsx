@@ -2,7 +2,8 @@
 
 import { useState, useMemo, useCallback, useEffect, useRef } from 'react'
 import { useRouter } from 'next/navigation'
-import { Clock, FolderPlus, MessageSquare, Plus } from 'lucide-react'
+import { Clock, FolderPlus, MessageSquare, Plus, Upload } from 'lucide-react'
+import { toast } from 'sonner'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import { Separator } from '@/components/ui/separator'
@@ -20,20 +21,28 @@ import {
   useProjects,
   useProjectsInitialized,
   useProjectActions,
+  useCurrentUser,
 } from '@/stores'
 import { buildFolderTree } from '@/stores/folderStore'
+import { conversationApi } from '@/lib/api/client/conversations'
 import { PinnedSection } from './PinnedSection'
 import { ProjectSection } from './ProjectSection'
 import { QuickFilters, filterConversationsByQuickFilter } from './QuickFilters'
 import { SidebarDndContext } from './SidebarDndContext'
 import { SidebarSkeleton } from './SidebarSkeleton'
-import { ConversationItem, CreateFolderDialog, MoveConversationDialog } from '@/components/folders'
+import {
+  ConversationItem,
+  CreateFolderDialog,
+  ImportConversationsDialog,
+  MoveConversationDialog,
+} from '@/components/folders'
 import { ConfirmDeleteDialog } from '@/components/ui/confirm-delete-dialog'
 import type { QuickFilter } from './QuickFilters'
 import type { Conversation, FolderTreeNode } from '@/types'
 
 export function ConversationList() {
   const router = useRouter()
+  const currentUser = useCurrentUser()
   const activeWorkspaceId = useActiveWorkspaceId()
   const conversations = useConversations(activeWorkspaceId)
   const pinnedConversations = usePinnedConversations(activeWorkspaceId)
@@ -51,6 +60,7 @@ export function ConversationList() {
     updateConversationTitle,
     toggleConversationPinned,
     moveConversationToFolder,
+    fetchUserConversations,
   } = useChatActions()
   const { createFolder, deleteFolder, moveFolder, fetchProjectFolders } = useFolderActions()
   const { deleteProject } = useProjectActions()
@@ -80,6 +90,8 @@ export function ConversationList() {
   } | null>(null)
   const [moveConversationDialogOpen, setMoveConversationDialogOpen] = useState(false)
   const [conversationToMove, setConversationToMove] = useState<Conversation | null>(null)
+  const [importDialogOpen, setImportDialogOpen] = useState(false)
+  const [importProjectId, setImportProjectId] = useState<string | null>(null)
 
   // Delete confirmation state
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
@@ -274,6 +286,33 @@ export function ConversationList() {
     [moveConversationToFolder, conversationToMove]
   )
 
+  const handleImportConversations = useCallback((projectId?: string) => {
+    setImportProjectId(projectId ?? null)
+    setImportDialogOpen(true)
+  }, [])
+
+  const handleSubmitImport = useCallback(
+    async ({ file, projectId, folderId }: { file: File; projectId: string | null; folderId: string | null }) => {
+      try {
+        const result = await conversationApi.importConversations({
+          file,
+          projectId,
+          folderId,
+          workspaceId: activeWorkspaceId,
+        })
+        const skipped = result.skipped > 0 ? `, ${result.skipped} skipped` : ''
+        toast.success(`Imported ${result.imported} conversations${skipped}`)
+        if (currentUser?.id) {
+          await fetchUserConversations(currentUser.id, activeWorkspaceId)
+        }
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to import conversations')
+        throw error
+      }
+    },
+    [activeWorkspaceId, currentUser?.id, fetchUserConversations]
+  )
+
   // Drag and drop handlers
   const handleDndMoveConversation = useCallback(
     (conversationId: string, targetFolderId: string | null, targetProjectId?: string | null) => {
@@ -379,6 +418,17 @@ export function ConversationList() {
     }
   }, [selectedConversationId, visibleConversationIds])
 
+  const importDialog = (
+    <ImportConversationsDialog
+      open={importDialogOpen}
+      onOpenChange={setImportDialogOpen}
+      onSubmit={handleSubmitImport}
+      projects={projects}
+      foldersByProject={foldersByProject}
+      defaultProjectId={importProjectId}
+    />
+  )
+
   // Loading state
   if (isLoading && !isInitialized) {
     return <SidebarSkeleton showPinned={false} projectCount={0} conversationCount={4} />
@@ -396,18 +446,25 @@ export function ConversationList() {
           <p className="text-xs text-muted-foreground mb-4">
             Start chatting to see your conversations here
           </p>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={async () => {
-              const id = await createConversation('New conversation', undefined, undefined, null, activeWorkspaceId)
-              router.push(`/chat/${id}`)
-            }}
-          >
-            <Plus className="h-4 w-4 mr-1.5" />
-            New Conversation
-          </Button>
+          <div className="flex flex-col gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={async () => {
+                const id = await createConversation('New conversation', undefined, undefined, null, activeWorkspaceId)
+                router.push(`/chat/${id}`)
+              }}
+            >
+              <Plus className="h-4 w-4 mr-1.5" />
+              New Conversation
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => handleImportConversations()}>
+              <Upload className="h-4 w-4 mr-1.5" />
+              Import Conversations
+            </Button>
+          </div>
         </div>
+        {importDialog}
       </div>
     )
   }
@@ -421,11 +478,22 @@ export function ConversationList() {
     >
       <div className="flex flex-col h-full">
         {/* Quick Filters */}
-        <QuickFilters
-          activeFilter={quickFilter}
-          onFilterChange={setQuickFilter}
-          className="px-2 pb-2"
-        />
+        <div className="flex items-center px-2 pb-2">
+          <QuickFilters
+            activeFilter={quickFilter}
+            onFilterChange={setQuickFilter}
+            className="flex-1 min-w-0"
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 shrink-0 text-muted-foreground"
+            onClick={() => handleImportConversations()}
+            title="Import conversations"
+          >
+            <Upload className="h-3.5 w-3.5" />
+          </Button>
+        </div>
 
         <Separator />
 
@@ -474,6 +542,7 @@ export function ConversationList() {
                   onDeleteConversation={handleDeleteConversation}
                   onPinConversation={handlePinConversation}
                   onMoveConversation={handleMoveConversation}
+                  onImportConversations={handleImportConversations}
                   onEditProject={(id) => router.push(`/projects/${id}/settings`)}
                   onDeleteProject={handleDeleteProject}
                   defaultExpanded={projects.length === 1}
@@ -529,6 +598,8 @@ export function ConversationList() {
           parentFolderName={createFolderParent?.parentName}
         />
 
+        {importDialog}
+
         {/* Move Conversation Dialog */}
         {conversationToMove && (
           <MoveConversationDialog
@@ -9,6 +9,7 @@ import {
   Plus,
   Pencil,
   Trash2,
+  Upload,
 } from 'lucide-react'
 import { useDroppable } from '@dnd-kit/core'
 import { cn } from '@/lib/utils'
@@ -42,6 +43,7 @@ interface ProjectSectionProps {
   onDeleteConversation?: (id: string) => void
   onPinConversation?: (id: string) => void
   onMoveConversation?: (id: string) => void
+  onImportConversations?: (projectId: string) => void
   onEditProject?: (id: string) => void
   onDeleteProject?: (id: string) => void
   defaultExpanded?: boolean
@@ -67,6 +69,7 @@ export function ProjectSection({
   onDeleteConversation,
   onPinConversation,
   onMoveConversation,
+  onImportConversations,
   onEditProject,
   onDeleteProject,
   defaultExpanded = false,
@@ -186,6 +189,17 @@ export function ProjectSection({
                   <FolderPlus className="h-4 w-4 mr-2" />
                   New Folder
                 </DropdownMenuItem>
+                {onImportConversations && (
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onImportConversations(project.id)
+                    }}
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import Conversations
+                  </DropdownMenuItem>
+                )}
                 {onEditProject && (
                   <>
                     <DropdownMenuSeparator />
@@ -2,7 +2,7 @@
 
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
-import { MessageSquare, Folder, Library, Settings, Bot } from 'lucide-react'
+import { MessageSquare, Folder, Library, Settings, Bot, BarChart3 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 
@@ -27,6 +27,11 @@ const navItems = [
     href: '/agents',
     icon: Bot,
   },
+  {
+    label: 'Usage',
+    href: '/usage',
+    icon: BarChart3,
+  },
   {
     label: 'Settings',
     href: '/settings',
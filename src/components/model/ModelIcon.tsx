@@ -1,6 +1,6 @@
 'use client'
 
-import { Bot, Sparkles, Search, Cpu, Building2 } from 'lucide-react'
+import { Bot, Sparkles, Search, Cpu, Building2, HardDrive } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import type { AIProvider } from '@/types'
 
@@ -37,6 +37,10 @@ const providerStyles: Record<AIProvider, { icon: typeof Bot; className: string }
     icon: Building2,
     className: 'text-cyan-500',
   },
+  local: {
+    icon: HardDrive,
+    className: 'text-slate-500',
+  },
 }
 
 export function ModelIcon({ provider, className, size = 'md' }: ModelIconProps) {
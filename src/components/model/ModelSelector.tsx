@@ -1,7 +1,7 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { ChevronDown, Plus, Check, Loader2 } from 'lucide-react'
+import { useState, useEffect, useMemo } from 'react'
+import { ChevronDown, Plus, Check, Loader2, Bot } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import {
@@ -26,17 +26,23 @@ import {
   useGleanAgents,
   useUIActions,
 } from '@/stores'
-import type { ModelConfig, AIProvider, GleanAgentConfig } from '@/types'
+import { useAssistants } from '@/lib/queries'
+import { getAssistantModelId } from '@/lib/agents/assistants'
+import type { ModelConfig, AIProvider, Assistant, GleanAgentConfig } from '@/types'
 
 interface ModelSelectorProps {
   selectedModelId: string | null
   onModelSelect: (modelId: string) => void
   workspaceId?: string
+  /** Also offer the custom assistants of this project (folder) */
+  projectId?: string
   compact?: boolean
   disabled?: boolean
+  /** Only offer models from these providers (e.g. a project's allow-list) */
+  allowedProviders?: AIProvider[]
 }
 
-const providerOrder: AIProvider[] = ['anthropic', 'openai', 'glean', 'dust', 'ondobot']
+const providerOrder: AIProvider[] = ['anthropic', 'openai', 'glean', 'dust', 'ondobot', 'local']
 
 const providerLabels: Record<AIProvider, string> = {
   openai: 'OpenAI',
@@ -44,27 +50,55 @@ const providerLabels: Record<AIProvider, string> = {
   glean: 'Glean',
   dust: 'Dust',
   ondobot: 'OndoBot',
+  local: 'Local',
 }
 
 export function ModelSelector({
   selectedModelId,
   onModelSelect,
   workspaceId,
+  projectId,
   compact = false,
   disabled = false,
+  allowedProviders,
 }: ModelSelectorProps) {
   const [open, setOpen] = useState(false)
-  const models = useModels()
+  const allModels = useModels()
   const isLoading = useModelLoading()
   const { loadModels, loadGleanAgents } = useModelActions()
-  const gleanAgents = useGleanAgents(workspaceId || '')
+  const allGleanAgents = useGleanAgents(workspaceId || '')
+  const { data: allAssistants } = useAssistants()
   const { openModal } = useUIActions()
 
+  const models = useMemo(
+    () =>
+      allowedProviders?.length
+        ? allModels.filter((model) => allowedProviders.includes(model.provider))
+        : allModels,
+    [allModels, allowedProviders]
+  )
+  const gleanAgents =
+    !allowedProviders?.length || allowedProviders.includes('glean') ? allGleanAgents : []
+
+  // Personal assistants, those shared with the current workspace or project,
+  // and only those whose model is offered
+  const assistants = useMemo(
+    () =>
+      (allAssistants ?? []).filter((assistant) => {
+        const inScope =
+          assistant.scope === 'personal' ||
+          (assistant.scope === 'workspace' && assistant.workspaceId === workspaceId) ||
+          (assistant.scope === 'project' && assistant.projectId === projectId)
+        return inScope && (!allowedProviders?.length || models.some((model) => model.id === assistant.model))
+      }),
+    [allAssistants, workspaceId, projectId, allowedProviders, models]
+  )
+
   useEffect(() => {
-    if (models.length === 0) {
+    if (allModels.length === 0) {
       loadModels()
     }
-  }, [models.length, loadModels])
+  }, [allModels.length, loadModels])
 
   useEffect(() => {
     if (workspaceId) {
@@ -73,6 +107,9 @@ export function ModelSelector({
   }, [workspaceId, loadGleanAgents])
 
   const selectedModel = models.find((m) => m.id === selectedModelId)
+  const selectedAssistant = allAssistants?.find(
+    (assistant) => getAssistantModelId(assistant.id) === selectedModelId
+  )
 
   // Group models by provider
   const modelsByProvider = models.reduce((acc, model) => {
@@ -105,6 +142,13 @@ export function ModelSelector({
           >
             {isLoading ? (
               <Loader2 className="h-4 w-4 animate-spin" />
+            ) : selectedAssistant ? (
+              <>
+                <Bot className="h-4 w-4" />
+                <span className="max-w-[100px] truncate text-xs">
+                  {selectedAssistant.name}
+                </span>
+              </>
             ) : selectedModel ? (
               <>
                 <ModelIcon provider={selectedModel.provider} size="sm" />
@@ -123,6 +167,7 @@ export function ModelSelector({
             models={models}
             modelsByProvider={modelsByProvider}
             selectedModelId={selectedModelId}
+            assistants={assistants}
             gleanAgents={gleanAgents}
             onSelect={handleSelect}
             onCreateGleanAgent={handleCreateGleanAgent}
@@ -147,6 +192,11 @@ export function ModelSelector({
               <Loader2 className="h-4 w-4 animate-spin" />
               Loading models...
             </span>
+          ) : selectedAssistant ? (
+            <span className="flex items-center gap-2">
+              <Bot className="h-4 w-4" />
+              {selectedAssistant.name}
+            </span>
           ) : selectedModel ? (
             <span className="flex items-center gap-2">
               <ModelIcon provider={selectedModel.provider} />
@@ -163,6 +213,7 @@ export function ModelSelector({
           models={models}
           modelsByProvider={modelsByProvider}
           selectedModelId={selectedModelId}
+          assistants={assistants}
           gleanAgents={gleanAgents}
           onSelect={handleSelect}
           onCreateGleanAgent={handleCreateGleanAgent}
@@ -176,6 +227,7 @@ interface ModelSelectorContentProps {
   models: ModelConfig[]
   modelsByProvider: Record<AIProvider, ModelConfig[]>
   selectedModelId: string | null
+  assistants: Assistant[]
   gleanAgents: GleanAgentConfig[]
   onSelect: (modelId: string) => void
   onCreateGleanAgent: () => void
@@ -184,6 +236,7 @@ interface ModelSelectorContentProps {
 function ModelSelectorContent({
   modelsByProvider,
   selectedModelId,
+  assistants,
   gleanAgents,
   onSelect,
   onCreateGleanAgent,
@@ -225,6 +278,39 @@ function ModelSelectorContent({
           )
         })}
 
+        {/* Custom Assistants Section */}
+        {assistants.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Assistants">
+              {assistants.map((assistant) => {
+                const modelId = getAssistantModelId(assistant.id)
+                return (
+                  <CommandItem
+                    key={assistant.id}
+                    value={`${modelId} ${assistant.name}`}
+                    onSelect={() => onSelect(modelId)}
+                    className="flex items-center gap-2"
+                  >
+                    <Bot className="h-4 w-4" />
+                    <div className="flex flex-1 flex-col">
+                      <span className="text-sm">{assistant.name}</span>
+                      {assistant.description && (
+                        <span className="text-xs text-muted-foreground">
+                          {assistant.description}
+                        </span>
+                      )}
+                    </div>
+                    {selectedModelId === modelId && (
+                      <Check className="h-4 w-4" />
+                    )}
+                  </CommandItem>
+                )
+              })}
+            </CommandGroup>
+          </>
+        )}
+
         {/* Glean Agents Section */}
         {gleanAgents.length > 0 && (
           <>
@@ -1,7 +1,11 @@
 'use client'
 
-import { ArrowDownAZ, CalendarDays, Folder } from 'lucide-react'
+import { ArrowDownAZ, CalendarDays, Folder, SlidersHorizontal, Sparkles, Type } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 import {
   Select,
   SelectContent,
@@ -9,14 +13,58 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { useFolders } from '@/stores'
+import { useFolders, useModels } from '@/stores'
 import { cn } from '@/lib/utils'
+import type {
+  AIProvider,
+  ConversationSearchFilters,
+  ConversationSearchMode,
+  ConversationSearchSort,
+} from '@/types'
+
+const ANY = '__any__'
+
+const providerLabels: Record<AIProvider, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  glean: 'Glean',
+  dust: 'Dust',
+  ondobot: 'OndoBot',
+  local: 'Local',
+}
 
 interface SearchFiltersProps {
   folderId: string | null
   onFolderChange: (folderId: string | null) => void
-  sortBy: 'date' | 'relevance'
-  onSortChange: (sort: 'date' | 'relevance') => void
+  sortBy: ConversationSearchSort
+  onSortChange: (sort: ConversationSearchSort) => void
+  filters: ConversationSearchFilters
+  onFiltersChange: (filters: ConversationSearchFilters) => void
+  mode: ConversationSearchMode
+  onModeChange: (mode: ConversationSearchMode) => void
+}
+
+/** yyyy-mm-dd in local time, for date inputs */
+function toDateInputValue(date?: Date): string {
+  if (!date) return ''
+  const offset = date.getTimezoneOffset() * 60000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10)
+}
+
+function fromDateInputValue(value: string, endOfDay = false): Date | undefined {
+  if (!value) return undefined
+  return new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`)
+}
+
+function countActiveFilters(filters: ConversationSearchFilters): number {
+  return [
+    filters.modelId,
+    filters.provider,
+    filters.role,
+    filters.from || filters.to,
+    filters.hasAttachments,
+    filters.hasToolCalls,
+  ].filter(Boolean).length
 }
 
 export function SearchFilters({
@@ -24,8 +72,19 @@ export function SearchFilters({
   onFolderChange,
   sortBy,
   onSortChange,
+  filters,
+  onFiltersChange,
+  mode,
+  onModeChange,
 }: SearchFiltersProps) {
   const folders = useFolders()
+  const models = useModels()
+  const providers = Array.from(new Set(models.map((model) => model.provider)))
+  const activeCount = countActiveFilters(filters)
+
+  const update = (changes: Partial<ConversationSearchFilters>) => {
+    onFiltersChange({ ...filters, ...changes })
+  }
 
   return (
     <div className="flex items-center gap-2">
@@ -48,6 +107,164 @@ export function SearchFilters({
         </SelectContent>
       </Select>
 
+      {/* Message filters */}
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className={cn('h-8 px-3 text-xs gap-1.5', activeCount > 0 && 'border-primary/40')}
+          >
+            <SlidersHorizontal className="h-3.5 w-3.5" />
+            Filters
+            {activeCount > 0 && (
+              <span className="rounded-full bg-primary px-1.5 text-[10px] text-primary-foreground">
+                {activeCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72 space-y-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Model</Label>
+            <Select
+              value={filters.modelId ?? ANY}
+              onValueChange={(v) => update({ modelId: v === ANY ? undefined : v })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any model</SelectItem>
+                {models.map((model) => (
+                  <SelectItem key={model.id} value={model.id}>
+                    {model.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs">Provider</Label>
+            <Select
+              value={filters.provider ?? ANY}
+              onValueChange={(v) => update({ provider: v === ANY ? undefined : (v as AIProvider) })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any provider</SelectItem>
+                {providers.map((provider) => (
+                  <SelectItem key={provider} value={provider}>
+                    {providerLabels[provider]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="text-xs">Sent by</Label>
+            <Select
+              value={filters.role ?? ANY}
+              onValueChange={(v) =>
+                update({ role: v === ANY ? undefined : (v as ConversationSearchFilters['role']) })
+              }
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Anyone</SelectItem>
+                <SelectItem value="user">You</SelectItem>
+                <SelectItem value="assistant">AI</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1.5">
+              <Label className="text-xs">From</Label>
+              <Input
+                type="date"
+                className="h-8 text-xs"
+                value={toDateInputValue(filters.from)}
+                onChange={(e) => update({ from: fromDateInputValue(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">To</Label>
+              <Input
+                type="date"
+                className="h-8 text-xs"
+                value={toDateInputValue(filters.to)}
+                onChange={(e) => update({ to: fromDateInputValue(e.target.value, true) })}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="filter-attachments" className="text-xs">Has attachments</Label>
+            <Switch
+              id="filter-attachments"
+              checked={!!filters.hasAttachments}
+              onCheckedChange={(checked) => update({ hasAttachments: checked || undefined })}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="filter-tool-calls" className="text-xs">Has tool calls</Label>
+            <Switch
+              id="filter-tool-calls"
+              checked={!!filters.hasToolCalls}
+              onCheckedChange={(checked) => update({ hasToolCalls: checked || undefined })}
+            />
+          </div>
+
+          {activeCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-full text-xs"
+              onClick={() => onFiltersChange({})}
+            >
+              Clear filters
+            </Button>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      {/* Mode toggle: words only, or words and meaning */}
+      <div className="flex items-center rounded-md border bg-background">
+        <Button
+          variant="ghost"
+          size="sm"
+          title="Match the words you typed"
+          className={cn(
+            'h-8 px-3 text-xs rounded-r-none gap-1.5',
+            mode === 'keyword' && 'bg-muted'
+          )}
+          onClick={() => onModeChange('keyword')}
+        >
+          <Type className="h-3.5 w-3.5" />
+          Keyword
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          title="Also find messages with a similar meaning"
+          className={cn(
+            'h-8 px-3 text-xs rounded-l-none border-l gap-1.5',
+            mode === 'hybrid' && 'bg-muted'
+          )}
+          onClick={() => onModeChange('hybrid')}
+        >
+          <Sparkles className="h-3.5 w-3.5" />
+          Semantic
+        </Button>
+      </div>
+
       {/* Sort toggle buttons */}
       <div className="flex items-center rounded-md border bg-background">
         <Button
@@ -5,26 +5,43 @@ import { useRouter } from 'next/navigation'
 import { MessageSquare, GitBranch, Folder, User, Bot, Search, ArrowRight, Loader2 } from 'lucide-react'
 import { formatRelativeTime } from '@/lib/utils'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
 import { conversationApi, type SearchResultItem, type MessageSnippet } from '@/lib/api/client/conversations'
+import { findHighlights, parseSearchQuery } from '@/lib/conversations/search'
 import { useChatActions, useFolders, useProjects, useActiveWorkspaceId, useCurrentUser } from '@/stores'
-import type { Conversation } from '@/types'
+import type {
+  Conversation,
+  ConversationSearchFilters,
+  ConversationSearchMode,
+  ConversationSearchSort,
+  SearchHighlight,
+} from '@/types'
+
+const PAGE_SIZE = 20
 
 interface SearchResultsProps {
   query: string
   conversations: Conversation[]
   folderId?: string | null
-  sortBy?: 'date' | 'relevance'
+  sortBy?: ConversationSearchSort
+  filters?: ConversationSearchFilters
+  mode?: ConversationSearchMode
 }
 
-interface SearchResult {
-  conversation: Conversation
-  matchingMessages: MessageSnippet[]
+interface SearchResult extends SearchResultItem {
   folderName?: string
   folderColor?: string
   projectName?: string
 }
 
-export function SearchResults({ query, conversations, folderId, sortBy = 'relevance' }: SearchResultsProps) {
+export function SearchResults({
+  query,
+  conversations,
+  folderId,
+  sortBy = 'relevance',
+  filters,
+  mode = 'keyword',
+}: SearchResultsProps) {
   const router = useRouter()
   const { setActiveConversation } = useChatActions()
   const activeWorkspaceId = useActiveWorkspaceId()
@@ -33,8 +50,12 @@ export function SearchResults({ query, conversations, folderId, sortBy = 'releva
   const projects = useProjects(activeWorkspaceId)
 
   const [serverResults, setServerResults] = useState<SearchResultItem[]>([])
+  const [total, setTotal] = useState(0)
   const [isSearching, setIsSearching] = useState(false)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
   const debounceRef = useRef<ReturnType<typeof setTimeout>>()
+  // Ignores responses to searches that have since been superseded
+  const searchIdRef = useRef(0)
 
   // Build lookup maps
   const folderMap = useMemo(() => {
@@ -53,13 +74,24 @@ export function SearchResults({ query, conversations, folderId, sortBy = 'releva
     return map
   }, [projects])
 
-  // Debounced server search
+  const runSearch = (offset: number) =>
+    conversationApi.searchConversations(currentUser!.id, activeWorkspaceId, query.trim(), {
+      folderId: folderId ?? undefined,
+      filters,
+      sort: sortBy,
+      mode,
+      limit: PAGE_SIZE,
+      offset,
+    })
+
+  // Debounced server search; starts over from the first page when anything changes
   useEffect(() => {
     if (debounceRef.current) clearTimeout(debounceRef.current)
+    const searchId = ++searchIdRef.current
 
-    const trimmed = query.trim()
-    if (!trimmed || !currentUser?.id) {
+    if (!query.trim() || !currentUser?.id) {
       setServerResults([])
+      setTotal(0)
       setIsSearching(false)
       return
     }
@@ -67,89 +99,72 @@ export function SearchResults({ query, conversations, folderId, sortBy = 'releva
     setIsSearching(true)
     debounceRef.current = setTimeout(async () => {
       try {
-        const results = await conversationApi.searchConversations(
-          currentUser.id,
-          activeWorkspaceId,
-          trimmed,
-          {
-            folderId: folderId ?? undefined,
-            limit: 30,
-          }
-        )
-        setServerResults(results)
+        const page = await runSearch(0)
+        if (searchId !== searchIdRef.current) return
+        setServerResults(page.results)
+        setTotal(page.total)
       } catch {
+        if (searchId !== searchIdRef.current) return
         setServerResults([])
+        setTotal(0)
       } finally {
-        setIsSearching(false)
+        if (searchId === searchIdRef.current) setIsSearching(false)
       }
     }, 300)
 
     return () => {
       if (debounceRef.current) clearTimeout(debounceRef.current)
     }
-  }, [query, currentUser?.id, activeWorkspaceId, folderId])
+  }, [query, currentUser?.id, activeWorkspaceId, folderId, sortBy, filters, mode]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleLoadMore = async () => {
+    const searchId = searchIdRef.current
+    setIsLoadingMore(true)
+    try {
+      const page = await runSearch(serverResults.length)
+      if (searchId !== searchIdRef.current) return
+      setServerResults((prev) => [...prev, ...page.results])
+      setTotal(page.total)
+    } catch {
+      // Keep the results we have; the button stays available to retry
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
 
   // Build results from server response with folder/project context
   const results = useMemo((): SearchResult[] => {
     if (!query.trim()) return []
-    const lowerQuery = query.toLowerCase()
-
-    // Use server results as the source of truth
-    // Fall back to client-side title search if server hasn't returned yet
-    if (serverResults.length > 0) {
-      const resultsWithContext: SearchResult[] = serverResults.map((item) => {
-        const conv = item.conversation
-        const folder = conv.folderId ? folderMap[conv.folderId] : undefined
-        const projectName = conv.projectId ? projectMap[conv.projectId] : undefined
-
-        return {
-          conversation: conv,
-          matchingMessages: item.matchingMessages,
-          folderName: folder?.name,
-          folderColor: folder?.color ?? undefined,
-          projectName,
-        }
-      })
-
-      // Sort
-      if (sortBy === 'relevance') {
-        resultsWithContext.sort((a, b) => {
-          const scoreA = (a.conversation.title.toLowerCase().includes(lowerQuery) ? 10 : 0) + a.matchingMessages.length
-          const scoreB = (b.conversation.title.toLowerCase().includes(lowerQuery) ? 10 : 0) + b.matchingMessages.length
-          return scoreB - scoreA
-        })
-      } else {
-        resultsWithContext.sort(
-          (a, b) =>
-            new Date(b.conversation.lastMessageAt).getTime() -
-            new Date(a.conversation.lastMessageAt).getTime()
-        )
+
+    const withContext = (item: SearchResultItem): SearchResult => {
+      const conv = item.conversation
+      const folder = conv.folderId ? folderMap[conv.folderId] : undefined
+      return {
+        ...item,
+        folderName: folder?.name,
+        folderColor: folder?.color ?? undefined,
+        projectName: conv.projectId ? projectMap[conv.projectId] : undefined,
       }
+    }
 
-      return resultsWithContext
+    // Server results are the source of truth, already ranked and filtered
+    if (!isSearching || serverResults.length > 0) {
+      return serverResults.map(withContext)
     }
 
-    // Fallback: client-side title search while server is loading
-    const fallback = conversations
-      .filter((conv) => {
-        if (conv.parentId) return false
-        if (folderId && conv.folderId !== folderId) return false
-        return conv.title.toLowerCase().includes(lowerQuery)
-      })
-      .map((conv) => {
-        const folder = conv.folderId ? folderMap[conv.folderId] : undefined
-        const projectName = conv.projectId ? projectMap[conv.projectId] : undefined
-        return {
-          conversation: conv,
-          matchingMessages: [] as MessageSnippet[],
-          folderName: folder?.name,
-          folderColor: folder?.color ?? undefined,
-          projectName,
-        }
-      })
-
-    return fallback
-  }, [query, serverResults, conversations, folderId, sortBy, folderMap, projectMap])
+    // Fallback: client-side title search while the first page is loading
+    const parsed = parseSearchQuery(query)
+    if (!parsed) return []
+    return conversations
+      .filter((conv) => !conv.parentId && (!folderId || conv.folderId === folderId))
+      .map((conv) => ({ conv, titleHighlights: findHighlights(conv.title, parsed.terms) }))
+      .filter(({ titleHighlights }) => titleHighlights.length > 0)
+      .map(({ conv, titleHighlights }) =>
+        withContext({ conversation: conv, matchingMessages: [], matchCount: 0, titleHighlights })
+      )
+  }, [query, serverResults, isSearching, conversations, folderId, folderMap, projectMap])
+
+  const resultCount = isSearching && serverResults.length === 0 ? results.length : total
 
   const handleSelect = (conversationId: string) => {
     setActiveConversation(conversationId)
@@ -165,7 +180,8 @@ export function SearchResults({ query, conversations, folderId, sortBy = 'releva
         </div>
         <h3 className="text-base font-medium mb-1">Search your conversations</h3>
         <p className="text-sm text-muted-foreground max-w-sm">
-          Find messages across all your conversations. Search by keywords, phrases, or topics.
+          Find messages across all your conversations. Use &ldquo;quotes&rdquo; for exact phrases
+          and a trailing * to match word prefixes.
         </p>
       </div>
     )
@@ -190,7 +206,8 @@ export function SearchResults({ query, conversations, folderId, sortBy = 'releva
         </div>
         <h3 className="text-base font-medium mb-1">No results found</h3>
         <p className="text-sm text-muted-foreground max-w-sm">
-          No conversations or messages match &ldquo;{query}&rdquo;. Try a different search term.
+          No conversations or messages match &ldquo;{query}&rdquo;. Try a different search term
+          or fewer filters.
         </p>
       </div>
     )
@@ -201,7 +218,7 @@ export function SearchResults({ query, conversations, folderId, sortBy = 'releva
       {/* Results summary */}
       <div className="flex items-center gap-2">
         <p className="text-sm font-medium">
-          {results.length} conversation{results.length !== 1 ? 's' : ''}
+          {resultCount} conversation{resultCount !== 1 ? 's' : ''}
         </p>
         {isSearching && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
       </div>
@@ -211,24 +228,34 @@ export function SearchResults({ query, conversations, folderId, sortBy = 'releva
         <ResultCard
           key={result.conversation.id}
           result={result}
-          query={query}
           onSelect={handleSelect}
         />
       ))}
+
+      {serverResults.length < total && (
+        <Button
+          variant="outline"
+          className="self-center"
+          onClick={handleLoadMore}
+          disabled={isLoadingMore || isSearching}
+        >
+          {isLoadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Load more
+        </Button>
+      )}
     </div>
   )
 }
 
 function ResultCard({
   result,
-  query,
   onSelect,
 }: {
   result: SearchResult
-  query: string
   onSelect: (id: string) => void
 }) {
-  const { conversation, matchingMessages, folderName, folderColor, projectName } = result
+  const { conversation, matchingMessages, matchCount, titleHighlights, folderName, folderColor, projectName } = result
+  const moreMatches = matchCount - matchingMessages.length
 
   return (
     <button
@@ -247,7 +274,7 @@ function ResultCard({
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-2 mb-0.5">
             <h3 className="font-medium text-sm truncate">
-              <HighlightText text={conversation.title} query={query} />
+              <HighlightText text={conversation.title} highlights={titleHighlights} />
             </h3>
           </div>
           <div className="flex items-center gap-2 flex-wrap">
@@ -283,13 +310,13 @@ function ResultCard({
       {matchingMessages.length > 0 && (
         <div className="px-4 pb-3 pt-1">
           <div className="rounded-lg bg-muted/50 divide-y divide-border/50">
-            {matchingMessages.slice(0, 3).map((msg) => (
-              <SnippetPreview key={msg.id} snippet={msg} query={query} />
+            {matchingMessages.map((msg) => (
+              <SnippetPreview key={msg.id} snippet={msg} />
             ))}
           </div>
-          {matchingMessages.length > 3 && (
+          {moreMatches > 0 && (
             <p className="text-[11px] text-muted-foreground mt-2 ml-1">
-              + {matchingMessages.length - 3} more match{matchingMessages.length - 3 !== 1 ? 'es' : ''} in this conversation
+              + {moreMatches} more match{moreMatches !== 1 ? 'es' : ''} in this conversation
             </p>
           )}
         </div>
@@ -298,7 +325,7 @@ function ResultCard({
   )
 }
 
-function SnippetPreview({ snippet, query }: { snippet: MessageSnippet; query: string }) {
+function SnippetPreview({ snippet }: { snippet: MessageSnippet }) {
   return (
     <div className="flex gap-2.5 px-3 py-2.5 text-xs">
       {/* Role indicator */}
@@ -320,39 +347,36 @@ function SnippetPreview({ snippet, query }: { snippet: MessageSnippet; query: st
           {snippet.role === 'user' ? 'You' : 'AI'}
         </span>
         <span className="text-muted-foreground/80 leading-relaxed">
-          <HighlightText text={snippet.snippet} query={query} />
+          <HighlightText text={snippet.snippet} highlights={snippet.highlights} />
         </span>
       </div>
     </div>
   )
 }
 
-/** Highlights all occurrences of `query` within `text` */
-function HighlightText({ text, query }: { text: string; query: string }) {
-  if (!query.trim()) return <>{text}</>
+/** Wraps the given character ranges of `text` in <mark> */
+function HighlightText({ text, highlights }: { text: string; highlights: SearchHighlight[] }) {
+  if (highlights.length === 0) return <>{text}</>
 
-  const lowerText = text.toLowerCase()
-  const lowerQuery = query.toLowerCase()
   const parts: React.ReactNode[] = []
   let lastIndex = 0
 
-  let matchIndex = lowerText.indexOf(lowerQuery, lastIndex)
-  while (matchIndex !== -1) {
+  for (const { start, end } of highlights) {
+    if (start < lastIndex) continue
     // Text before match
-    if (matchIndex > lastIndex) {
-      parts.push(text.slice(lastIndex, matchIndex))
+    if (start > lastIndex) {
+      parts.push(text.slice(lastIndex, start))
     }
     // The match itself
     parts.push(
       <mark
-        key={matchIndex}
+        key={start}
         className="bg-yellow-200/80 dark:bg-yellow-800/40 text-foreground rounded-sm px-0.5 py-px"
       >
-        {text.slice(matchIndex, matchIndex + query.length)}
+        {text.slice(start, end)}
       </mark>
     )
-    lastIndex = matchIndex + query.length
-    matchIndex = lowerText.indexOf(lowerQuery, lastIndex)
+    lastIndex = end
   }
 
   // Remaining text
@@ -0,0 +1,262 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, Copy, KeyRound, Plus, Trash2 } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ConfirmDeleteDialog } from '@/components/ui/confirm-delete-dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useApiKeys, useCreateApiKey, useRevokeApiKey, useWorkspaces } from '@/lib/queries'
+import { useAuthSession } from '@/hooks/useCurrentUser'
+import type { ApiKey } from '@/types'
+
+const PERSONAL_SCOPE = 'personal'
+
+const EXPIRY_OPTIONS = [
+  { value: 'never', label: 'Never' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+]
+
+function CreateApiKeyDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}) {
+  const { userId } = useAuthSession()
+  const { data: workspaces = [] } = useWorkspaces(userId || '')
+  const createApiKey = useCreateApiKey()
+
+  const [name, setName] = useState('')
+  const [scope, setScope] = useState(PERSONAL_SCOPE)
+  const [expiry, setExpiry] = useState('90')
+  const [secret, setSecret] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setName('')
+      setScope(PERSONAL_SCOPE)
+      setExpiry('90')
+      setSecret(null)
+      setCopied(false)
+    }
+    onOpenChange(next)
+  }
+
+  const handleCreate = () => {
+    createApiKey.mutate(
+      {
+        name: name.trim(),
+        workspaceId: scope === PERSONAL_SCOPE ? undefined : scope,
+        expiresAt: expiry === 'never' ? undefined : new Date(Date.now() + Number(expiry) * 86_400_000),
+      },
+      { onSuccess: (key) => setSecret(key.secret) }
+    )
+  }
+
+  const handleCopy = async () => {
+    if (!secret) return
+    await navigator.clipboard.writeText(secret)
+    setCopied(true)
+    toast.success('API key copied')
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{secret ? 'Save your API key' : 'Create API key'}</DialogTitle>
+          <DialogDescription>
+            {secret
+              ? "This is the only time the key will be shown. Store it somewhere safe; you won't be able to see it again."
+              : 'Keys authenticate requests to the OpenAI-compatible API at /api/v1.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {secret ? (
+          <div className="flex items-center gap-2 py-2">
+            <Input value={secret} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy API key">
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input
+                id="api-key-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Data pipeline"
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Scope</Label>
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={PERSONAL_SCOPE}>Personal</SelectItem>
+                  {workspaces.map((workspace) => (
+                    <SelectItem key={workspace.id} value={workspace.id}>
+                      {workspace.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Workspace keys can only use the providers the workspace allows.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {secret ? (
+            <Button onClick={() => handleOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreate} disabled={!name.trim() || createApiKey.isPending}>
+                {createApiKey.isPending ? 'Creating...' : 'Create key'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function ApiKeysCard() {
+  const { userId } = useAuthSession()
+  const { data: keys = [], isLoading } = useApiKeys()
+  const { data: workspaces = [] } = useWorkspaces(userId || '')
+  const revokeApiKey = useRevokeApiKey()
+
+  const [showCreate, setShowCreate] = useState(false)
+  const [keyToRevoke, setKeyToRevoke] = useState<ApiKey | null>(null)
+
+  const scopeLabel = (key: ApiKey) =>
+    key.workspaceId
+      ? workspaces.find((w) => w.id === key.workspaceId)?.name ?? 'Workspace'
+      : 'Personal'
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          API Keys
+        </CardTitle>
+        <CardDescription>
+          Use the chat API from your own tools with any OpenAI-compatible client
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading API keys...</p>
+        ) : keys.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You have no API keys yet.</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {keys.map((key) => {
+              const isExpired = !!key.expiresAt && key.expiresAt.getTime() <= Date.now()
+              return (
+                <div key={key.id} className="flex items-center gap-3 px-3 py-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium">{key.name}</p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      <span className="font-mono">{key.prefix}…</span>
+                      {' · '}
+                      {scopeLabel(key)}
+                      {' · '}
+                      {key.lastUsedAt
+                        ? `used ${formatDistanceToNow(key.lastUsedAt, { addSuffix: true })}`
+                        : 'never used'}
+                      {key.expiresAt &&
+                        (isExpired
+                          ? ' · expired'
+                          : ` · expires ${formatDistanceToNow(key.expiresAt, { addSuffix: true })}`)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => setKeyToRevoke(key)}
+                    aria-label={`Revoke ${key.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={() => setShowCreate(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Create API Key
+          </Button>
+        </div>
+      </CardContent>
+
+      <CreateApiKeyDialog open={showCreate} onOpenChange={setShowCreate} />
+      <ConfirmDeleteDialog
+        open={!!keyToRevoke}
+        onOpenChange={(open) => !open && setKeyToRevoke(null)}
+        onConfirm={() => keyToRevoke && revokeApiKey.mutate(keyToRevoke.id)}
+        title="Revoke API key?"
+        description={
+          keyToRevoke
+            ? `Requests using "${keyToRevoke.name}" will stop working immediately. This action cannot be undone.`
+            : undefined
+        }
+      />
+    </Card>
+  )
+}
@@ -1,3 +1,4 @@
 export { EditProfileDialog } from './edit-profile-dialog'
 export { ChangePasswordDialog } from './change-password-dialog'
 export { Enable2FADialog } from './enable-2fa-dialog'
+export { ApiKeysCard } from './api-keys-card'
@@ -0,0 +1,72 @@
+'use client'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { UsageBreakdownItem } from '@/types'
+import { formatCost, formatTokens } from './format'
+
+interface UsageBreakdownTableProps {
+  title: string
+  items: UsageBreakdownItem[]
+  /** Rows shown before the remainder is collapsed into "Other" */
+  limit?: number
+}
+
+export function UsageBreakdownTable({ title, items, limit = 8 }: UsageBreakdownTableProps) {
+  const totalCost = items.reduce((sum, item) => sum + item.cost, 0)
+  const rows = items.slice(0, limit)
+  const rest = items.slice(limit)
+  if (rest.length > 0) {
+    rows.push({
+      key: null,
+      label: `Other (${rest.length})`,
+      requests: rest.reduce((sum, item) => sum + item.requests, 0),
+      inputTokens: rest.reduce((sum, item) => sum + item.inputTokens, 0),
+      outputTokens: rest.reduce((sum, item) => sum + item.outputTokens, 0),
+      cost: rest.reduce((sum, item) => sum + item.cost, 0),
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No usage</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-muted-foreground">
+                <th className="pb-2 font-medium">Name</th>
+                <th className="pb-2 text-right font-medium">Requests</th>
+                <th className="pb-2 text-right font-medium">Tokens</th>
+                <th className="pb-2 text-right font-medium">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={`${row.key}-${row.label}`} className="border-t">
+                  <td className="max-w-0 py-2 pr-2">
+                    <p className="truncate">{row.label}</p>
+                    <div className="mt-1 h-1 rounded bg-muted">
+                      <div
+                        className="h-1 rounded bg-primary/70"
+                        style={{ width: `${totalCost > 0 ? (row.cost / totalCost) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </td>
+                  <td className="py-2 text-right tabular-nums">{row.requests.toLocaleString()}</td>
+                  <td className="py-2 text-right tabular-nums">
+                    {formatTokens(row.inputTokens + row.outputTokens)}
+                  </td>
+                  <td className="py-2 text-right tabular-nums">{formatCost(row.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
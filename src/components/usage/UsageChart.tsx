@@ -0,0 +1,62 @@
+'use client'
+
+import { format } from 'date-fns'
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
+import type { UsageInterval, UsageTimeseriesPoint } from '@/types'
+import { formatCost, formatTokens } from './format'
+
+const PERIOD_FORMATS: Record<UsageInterval, string> = {
+  day: 'MMM d',
+  week: "'Week of' MMM d",
+  month: 'MMM yyyy',
+}
+
+interface UsageChartProps {
+  points: UsageTimeseriesPoint[]
+  interval: UsageInterval
+}
+
+/**
+ * Cost per period as a simple bar chart
+ */
+export function UsageChart({ points, interval }: UsageChartProps) {
+  if (points.length === 0) {
+    return (
+      <div className="flex h-48 items-center justify-center text-sm text-muted-foreground">
+        No usage in this period
+      </div>
+    )
+  }
+
+  const maxCost = Math.max(...points.map((p) => p.cost))
+
+  return (
+    <TooltipProvider delayDuration={100}>
+      <div className="flex h-48 items-end gap-1">
+        {points.map((point) => {
+          // Keep requests with no recorded cost visible
+          const height = maxCost > 0 ? Math.max((point.cost / maxCost) * 100, 2) : 2
+          return (
+            <Tooltip key={point.period}>
+              <TooltipTrigger asChild>
+                <div className="flex h-full min-w-0 flex-1 items-end">
+                  <div
+                    className="w-full rounded-t bg-primary/80 transition-colors hover:bg-primary"
+                    style={{ height: `${height}%` }}
+                  />
+                </div>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p className="font-medium">{format(new Date(point.period), PERIOD_FORMATS[interval])}</p>
+                <p>{formatCost(point.cost)} · {point.requests.toLocaleString()} requests</p>
+                <p>
+                  {formatTokens(point.inputTokens)} in · {formatTokens(point.outputTokens)} out
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          )
+        })}
+      </div>
+    </TooltipProvider>
+  )
+}
@@ -0,0 +1,31 @@
+'use client'
+
+import { Card, CardContent } from '@/components/ui/card'
+import type { UsageTotals } from '@/types'
+import { formatCost, formatTokens } from './format'
+
+interface UsageSummaryCardsProps {
+  totals: UsageTotals
+}
+
+export function UsageSummaryCards({ totals }: UsageSummaryCardsProps) {
+  const items = [
+    { label: 'Total cost', value: formatCost(totals.cost) },
+    { label: 'Requests', value: totals.requests.toLocaleString() },
+    { label: 'Input tokens', value: formatTokens(totals.inputTokens) },
+    { label: 'Output tokens', value: formatTokens(totals.outputTokens) },
+  ]
+
+  return (
+    <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+      {items.map((item) => (
+        <Card key={item.label}>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">{item.label}</p>
+            <p className="mt-1 text-2xl font-semibold">{item.value}</p>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+const compact = new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 })
+
+export function formatCost(cost: number): string {
+  if (cost > 0 && cost < 0.01) return `$${cost.toFixed(4)}`
+  return `$${cost.toFixed(2)}`
+}
+
+export function formatTokens(tokens: number): string {
+  return compact.format(tokens)
+}
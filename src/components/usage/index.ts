@@ -0,0 +1,3 @@
+export { UsageSummaryCards } from './UsageSummaryCards'
+export { UsageChart } from './UsageChart'
+export { UsageBreakdownTable } from './UsageBreakdownTable'
@@ -0,0 +1,288 @@
+'use client'
+
+import { useEffect, useState, type Dispatch, type SetStateAction } from 'react'
+import { Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Separator } from '@/components/ui/separator'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useUpdateWorkspaceBudgets } from '@/lib/queries'
+import { useModels } from '@/stores'
+import type {
+  BudgetLimit,
+  BudgetMetric,
+  Workspace,
+  WorkspaceBudgetPolicy,
+  WorkspaceMember,
+} from '@/types'
+
+interface LimitDraft {
+  metric: BudgetMetric
+  /** Empty means no limit */
+  amount: string
+}
+
+interface KeyedLimitDraft extends LimitDraft {
+  key: string
+}
+
+const EMPTY_LIMIT: LimitDraft = { metric: 'cost', amount: '' }
+
+function toDraft(limit?: BudgetLimit): LimitDraft {
+  return limit ? { metric: limit.metric, amount: String(limit.limit) } : EMPTY_LIMIT
+}
+
+function toLimit(draft: LimitDraft): BudgetLimit | undefined {
+  if (draft.amount.trim() === '') return undefined
+  const limit = Number(draft.amount)
+  return Number.isFinite(limit) && limit >= 0 ? { metric: draft.metric, limit } : undefined
+}
+
+function toKeyedDrafts(limits?: Record<string, BudgetLimit>): KeyedLimitDraft[] {
+  return Object.entries(limits ?? {}).map(([key, limit]) => ({ key, ...toDraft(limit) }))
+}
+
+function toLimitMap(drafts: KeyedLimitDraft[]): Record<string, BudgetLimit> | undefined {
+  const entries = drafts
+    .map((draft) => [draft.key, toLimit(draft)] as const)
+    .filter((entry): entry is readonly [string, BudgetLimit] => !!entry[0] && !!entry[1])
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined
+}
+
+function LimitInput({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: LimitDraft
+  onChange: (value: LimitDraft) => void
+  disabled?: boolean
+}) {
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={value.metric}
+        onValueChange={(metric) => onChange({ ...value, metric: metric as BudgetMetric })}
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-28">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="cost">USD</SelectItem>
+          <SelectItem value="tokens">Tokens</SelectItem>
+        </SelectContent>
+      </Select>
+      <Input
+        type="number"
+        min={0}
+        step={value.metric === 'cost' ? 1 : 1000}
+        value={value.amount}
+        onChange={(e) => onChange({ ...value, amount: e.target.value })}
+        placeholder="No limit"
+        className="w-36"
+        disabled={disabled}
+      />
+    </div>
+  )
+}
+
+interface WorkspaceBudgetSettingsProps {
+  workspace: Workspace
+  members: WorkspaceMember[]
+  canManage: boolean
+}
+
+export function WorkspaceBudgetSettings({ workspace, members, canManage }: WorkspaceBudgetSettingsProps) {
+  const models = useModels()
+  const updateBudgets = useUpdateWorkspaceBudgets()
+
+  const [workspaceLimit, setWorkspaceLimit] = useState<LimitDraft>(EMPTY_LIMIT)
+  const [memberLimit, setMemberLimit] = useState<LimitDraft>(EMPTY_LIMIT)
+  const [memberOverrides, setMemberOverrides] = useState<KeyedLimitDraft[]>([])
+  const [modelLimits, setModelLimits] = useState<KeyedLimitDraft[]>([])
+  const [thresholds, setThresholds] = useState('80')
+
+  useEffect(() => {
+    const budgets = workspace.budgets
+    setWorkspaceLimit(toDraft(budgets?.workspace))
+    setMemberLimit(toDraft(budgets?.perMember))
+    setMemberOverrides(toKeyedDrafts(budgets?.members))
+    setModelLimits(toKeyedDrafts(budgets?.models))
+    setThresholds((budgets?.warningThresholds ?? [80]).join(', '))
+  }, [workspace.budgets])
+
+  const parsedThresholds = thresholds
+    .split(',')
+    .map((t) => t.trim())
+    .filter(Boolean)
+    .map(Number)
+  const thresholdsValid = parsedThresholds.every((t) => Number.isFinite(t) && t > 0 && t < 100)
+
+  const handleSave = () => {
+    const budgets: WorkspaceBudgetPolicy = {
+      workspace: toLimit(workspaceLimit),
+      perMember: toLimit(memberLimit),
+      members: toLimitMap(memberOverrides),
+      models: toLimitMap(modelLimits),
+      warningThresholds: parsedThresholds,
+    }
+    updateBudgets.mutate({ workspaceId: workspace.id, budgets })
+  }
+
+  const updateRow = (
+    setRows: Dispatch<SetStateAction<KeyedLimitDraft[]>>,
+    index: number,
+    patch: Partial<KeyedLimitDraft>
+  ) => setRows((rows) => rows.map((row, i) => (i === index ? { ...row, ...patch } : row)))
+
+  const removeRow = (setRows: Dispatch<SetStateAction<KeyedLimitDraft[]>>, index: number) =>
+    setRows((rows) => rows.filter((_, i) => i !== index))
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Monthly limits reset on the 1st (UTC). Requests are blocked once a limit is reached.
+      </p>
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label>Workspace budget</Label>
+          <p className="text-xs text-muted-foreground">Total across all members</p>
+        </div>
+        <LimitInput value={workspaceLimit} onChange={setWorkspaceLimit} disabled={!canManage} />
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label>Per-member budget</Label>
+          <p className="text-xs text-muted-foreground">Default limit for each member</p>
+        </div>
+        <LimitInput value={memberLimit} onChange={setMemberLimit} disabled={!canManage} />
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2">
+        <Label>Member overrides</Label>
+        {memberOverrides.map((row, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Select
+              value={row.key}
+              onValueChange={(key) => updateRow(setMemberOverrides, index, { key })}
+              disabled={!canManage}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Select member" />
+              </SelectTrigger>
+              <SelectContent>
+                {members.map((member) => (
+                  <SelectItem key={member.userId} value={member.userId}>
+                    {member.user.name || member.user.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <LimitInput
+              value={row}
+              onChange={(draft) => updateRow(setMemberOverrides, index, draft)}
+              disabled={!canManage}
+            />
+            {canManage && (
+              <Button variant="ghost" size="icon" onClick={() => removeRow(setMemberOverrides, index)}>
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+        {canManage && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setMemberOverrides((rows) => [...rows, { key: '', ...EMPTY_LIMIT }])}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add member override
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Model budgets</Label>
+        {modelLimits.map((row, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Select
+              value={row.key}
+              onValueChange={(key) => updateRow(setModelLimits, index, { key })}
+              disabled={!canManage}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Select model" />
+              </SelectTrigger>
+              <SelectContent>
+                {models.map((model) => (
+                  <SelectItem key={model.id} value={model.id}>
+                    {model.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <LimitInput
+              value={row}
+              onChange={(draft) => updateRow(setModelLimits, index, draft)}
+              disabled={!canManage}
+            />
+            {canManage && (
+              <Button variant="ghost" size="icon" onClick={() => removeRow(setModelLimits, index)}>
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+        {canManage && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setModelLimits((rows) => [...rows, { key: '', ...EMPTY_LIMIT }])}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add model budget
+          </Button>
+        )}
+      </div>
+
+      <Separator />
+
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="budget-thresholds">Warning thresholds</Label>
+          <p className="text-xs text-muted-foreground">
+            Percentages at which members are warned, e.g. 50, 80, 90
+          </p>
+        </div>
+        <Input
+          id="budget-thresholds"
+          value={thresholds}
+          onChange={(e) => setThresholds(e.target.value)}
+          className="w-36"
+          disabled={!canManage}
+        />
+      </div>
+
+      {canManage && (
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={!thresholdsValid || updateBudgets.isPending}>
+            {updateBudgets.isPending ? 'Saving...' : 'Save Budgets'}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,374 @@
+'use client'
+
+import { useState } from 'react'
+import { Pencil, Plus, RefreshCw, Trash2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { ConfirmDeleteDialog } from '@/components/ui/confirm-delete-dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  useMcpServers,
+  useMcpCatalog,
+  useRefreshMcpCatalog,
+  useCreateMcpServer,
+  useUpdateMcpServer,
+  useDeleteMcpServer,
+} from '@/lib/queries'
+import type {
+  McpCredentials,
+  McpServer,
+  McpServerHealth,
+  McpServerInput,
+  McpTransport,
+  Workspace,
+} from '@/types'
+
+const HEALTH_LABELS: Record<McpServerHealth, { label: string; color: string }> = {
+  connected: { label: 'Connected', color: 'bg-green-500' },
+  error: { label: 'Unavailable', color: 'bg-destructive' },
+  disabled: { label: 'Disabled', color: 'bg-muted-foreground' },
+}
+
+interface ServerDraft {
+  name: string
+  transport: McpTransport
+  url: string
+  preset: string
+  /** `Name: value` (http) or `NAME=value` (stdio) per line; empty keeps stored credentials */
+  credentials: string
+  clearCredentials: boolean
+}
+
+const EMPTY_DRAFT: ServerDraft = {
+  name: '',
+  transport: 'http',
+  url: '',
+  preset: '',
+  credentials: '',
+  clearCredentials: false,
+}
+
+function toDraft(server: McpServer): ServerDraft {
+  return {
+    ...EMPTY_DRAFT,
+    name: server.name,
+    transport: server.transport,
+    url: server.url ?? '',
+    preset: server.preset ?? '',
+  }
+}
+
+function parsePairs(text: string, separator: string): Record<string, string> {
+  const pairs: Record<string, string> = {}
+  for (const line of text.split('\n')) {
+    const index = line.indexOf(separator)
+    if (index <= 0) continue
+    pairs[line.slice(0, index).trim()] = line.slice(index + 1).trim()
+  }
+  return pairs
+}
+
+function toCredentials(draft: ServerDraft): McpCredentials | null | undefined {
+  if (draft.clearCredentials) return null
+  if (!draft.credentials.trim()) return undefined
+  return draft.transport === 'http'
+    ? { headers: parsePairs(draft.credentials, ':') }
+    : { env: parsePairs(draft.credentials, '=') }
+}
+
+function toInput(draft: ServerDraft): McpServerInput {
+  return {
+    name: draft.name.trim(),
+    transport: draft.transport,
+    ...(draft.transport === 'http' ? { url: draft.url.trim() } : { preset: draft.preset.trim() }),
+    credentials: toCredentials(draft),
+  }
+}
+
+interface ServerFormProps {
+  draft: ServerDraft
+  onChange: (draft: ServerDraft) => void
+  hasCredentials: boolean
+  isSaving: boolean
+  onSave: () => void
+  onCancel: () => void
+}
+
+function ServerForm({ draft, onChange, hasCredentials, isSaving, onSave, onCancel }: ServerFormProps) {
+  const update = (changes: Partial<ServerDraft>) => onChange({ ...draft, ...changes })
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="mcp-name">Name</Label>
+          <Input
+            id="mcp-name"
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value.toLowerCase() })}
+            placeholder="jira"
+            className="font-mono"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Transport</Label>
+          <Select
+            value={draft.transport}
+            onValueChange={(value) => update({ transport: value as McpTransport })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="http">Streamable HTTP</SelectItem>
+              <SelectItem value="stdio">stdio (local process)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Tools are offered as <span className="font-mono">{draft.name || 'name'}__tool</span>.
+      </p>
+
+      {draft.transport === 'http' ? (
+        <div className="space-y-1">
+          <Label htmlFor="mcp-url">URL</Label>
+          <Input
+            id="mcp-url"
+            value={draft.url}
+            onChange={(e) => update({ url: e.target.value })}
+            placeholder="https://mcp.internal.example.com/mcp"
+          />
+        </div>
+      ) : (
+        <div className="space-y-1">
+          <Label htmlFor="mcp-preset">Preset</Label>
+          <Input
+            id="mcp-preset"
+            value={draft.preset}
+            onChange={(e) => update({ preset: e.target.value })}
+            placeholder="github"
+            className="font-mono"
+          />
+          <p className="text-xs text-muted-foreground">
+            Must be one of the stdio servers set up on this deployment, which decides the command it runs.
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor="mcp-credentials">
+          {draft.transport === 'http' ? 'Headers (Name: value per line)' : 'Environment (NAME=value per line)'}
+        </Label>
+        <Textarea
+          id="mcp-credentials"
+          value={draft.credentials}
+          onChange={(e) => update({ credentials: e.target.value, clearCredentials: false })}
+          placeholder={draft.transport === 'http' ? 'Authorization: Bearer ...' : 'API_TOKEN=...'}
+          rows={2}
+          className="font-mono text-xs"
+        />
+        <p className="text-xs text-muted-foreground">
+          Stored encrypted and never shown again.
+          {hasCredentials && !draft.clearCredentials && ' Leave empty to keep the stored credentials.'}
+        </p>
+        {hasCredentials && (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-xs"
+            onClick={() => update({ credentials: '', clearCredentials: !draft.clearCredentials })}
+          >
+            {draft.clearCredentials ? 'Keep stored credentials' : 'Remove stored credentials'}
+          </Button>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={onSave} disabled={isSaving || !draft.name.trim()}>
+          {isSaving ? 'Saving...' : 'Save Server'}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+interface WorkspaceMcpSettingsProps {
+  workspace: Workspace
+  canManage: boolean
+}
+
+export function WorkspaceMcpSettings({ workspace, canManage }: WorkspaceMcpSettingsProps) {
+  const { data: servers = [], isLoading } = useMcpServers(workspace.id)
+  const { data: catalog, isFetching } = useMcpCatalog(workspace.id)
+  const refreshCatalog = useRefreshMcpCatalog()
+  const createServer = useCreateMcpServer()
+  const updateServer = useUpdateMcpServer()
+  const deleteServer = useDeleteMcpServer()
+
+  // null: no form; an id of '' adds a server
+  const [editing, setEditing] = useState<{ id: string; draft: ServerDraft } | null>(null)
+  const [deleting, setDeleting] = useState<McpServer | null>(null)
+
+  const handleSave = () => {
+    if (!editing) return
+    const input = toInput(editing.draft)
+    const onSuccess = () => setEditing(null)
+
+    if (editing.id) {
+      updateServer.mutate({ workspaceId: workspace.id, serverId: editing.id, input }, { onSuccess })
+    } else {
+      createServer.mutate({ workspaceId: workspace.id, input }, { onSuccess })
+    }
+  }
+
+  const handleToggle = (server: McpServer, enabled: boolean) => {
+    updateServer.mutate({ workspaceId: workspace.id, serverId: server.id, input: { enabled } })
+  }
+
+  const isChecking = isFetching || refreshCatalog.isPending
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Tools, resources and prompts of these MCP servers are offered to everyone in the
+          workspace. Calls that make changes ask for approval like any other tool.
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          className="shrink-0"
+          onClick={() => refreshCatalog.mutate(workspace.id)}
+          disabled={isChecking || servers.length === 0}
+        >
+          <RefreshCw className={cn('h-4 w-4 mr-2', isChecking && 'animate-spin')} />
+          Check
+        </Button>
+      </div>
+
+      {!isLoading && servers.length === 0 && !editing && (
+        <p className="py-4 text-center text-sm text-muted-foreground">No MCP servers yet</p>
+      )}
+
+      {servers.map((server) => {
+        if (editing?.id === server.id) {
+          return (
+            <ServerForm
+              key={server.id}
+              draft={editing.draft}
+              onChange={(draft) => setEditing({ id: server.id, draft })}
+              hasCredentials={server.hasCredentials}
+              isSaving={updateServer.isPending}
+              onSave={handleSave}
+              onCancel={() => setEditing(null)}
+            />
+          )
+        }
+
+        const status = catalog?.servers.find((item) => item.serverId === server.id)
+        const health = status && HEALTH_LABELS[status.health]
+
+        return (
+          <div key={server.id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <span
+                  className={cn('h-2 w-2 shrink-0 rounded-full', health?.color ?? 'bg-muted')}
+                  title={health?.label ?? 'Checking...'}
+                />
+                <span className="font-mono text-sm font-medium">{server.name}</span>
+                <Badge variant="outline" className="text-xs">
+                  {server.transport === 'http' ? 'HTTP' : 'stdio'}
+                </Badge>
+                {server.hasCredentials && (
+                  <Badge variant="secondary" className="text-xs">
+                    Credentials
+                  </Badge>
+                )}
+              </div>
+              <p className="truncate text-xs text-muted-foreground">
+                {server.transport === 'http' ? server.url : `Preset: ${server.preset}`}
+              </p>
+              {status?.health === 'connected' && (
+                <p className="text-xs text-muted-foreground">
+                  {status.toolCount} tools, {status.resourceCount} resources, {status.promptCount} prompts
+                </p>
+              )}
+              {status?.error && <p className="text-xs text-destructive">{status.error}</p>}
+            </div>
+            {canManage && (
+              <div className="flex shrink-0 items-center gap-1">
+                <Switch
+                  checked={server.enabled}
+                  onCheckedChange={(checked) => handleToggle(server, checked)}
+                  aria-label={server.enabled ? 'Disable server' : 'Enable server'}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setEditing({ id: server.id, draft: toDraft(server) })}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive"
+                  onClick={() => setDeleting(server)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        )
+      })}
+
+      {editing?.id === '' && (
+        <ServerForm
+          draft={editing.draft}
+          onChange={(draft) => setEditing({ id: '', draft })}
+          hasCredentials={false}
+          isSaving={createServer.isPending}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {canManage && !editing && (
+        <div className="flex justify-end">
+          <Button onClick={() => setEditing({ id: '', draft: EMPTY_DRAFT })}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add MCP Server
+          </Button>
+        </div>
+      )}
+
+      <ConfirmDeleteDialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        onConfirm={() =>
+          deleting && deleteServer.mutate({ workspaceId: workspace.id, serverId: deleting.id })
+        }
+        title="Remove MCP server?"
+        description={`Its tools will no longer be offered in this workspace. Stored credentials for "${deleting?.name}" are deleted.`}
+      />
+    </div>
+  )
+}
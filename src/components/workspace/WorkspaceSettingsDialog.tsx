@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Settings, Users, UserPlus, Building2, Trash2 } from 'lucide-react'
+import { Settings, Users, UserPlus, Building2, Trash2, Wallet, Wrench, Plug } from 'lucide-react'
 import {
   Dialog,
   DialogContent,
@@ -28,6 +28,9 @@ import {
 import { Separator } from '@/components/ui/separator'
 import { MemberManagement } from './MemberManagement'
 import { AddMemberDialog } from './AddMemberDialog'
+import { WorkspaceBudgetSettings } from './WorkspaceBudgetSettings'
+import { WorkspaceToolSettings } from './WorkspaceToolSettings'
+import { WorkspaceMcpSettings } from './WorkspaceMcpSettings'
 import { useWorkspace, useWorkspaceMembers, useUpdateWorkspace, useDeleteWorkspace } from '@/lib/queries'
 import type { WorkspaceRole } from '@/types'
 
@@ -101,12 +104,12 @@ export function WorkspaceSettingsDialog({
               Workspace Settings
             </DialogTitle>
             <DialogDescription>
-              Manage your workspace settings and team members.
+              Manage your workspace settings, team members, budgets, tools and MCP servers.
             </DialogDescription>
           </DialogHeader>
 
           <Tabs value={activeTab} onValueChange={setActiveTab} className="mt-2">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="general" className="flex items-center gap-2">
                 <Building2 className="h-4 w-4" />
                 General
@@ -115,6 +118,18 @@ export function WorkspaceSettingsDialog({
                 <Users className="h-4 w-4" />
                 Members
               </TabsTrigger>
+              <TabsTrigger value="budgets" className="flex items-center gap-2">
+                <Wallet className="h-4 w-4" />
+                Budgets
+              </TabsTrigger>
+              <TabsTrigger value="tools" className="flex items-center gap-2">
+                <Wrench className="h-4 w-4" />
+                Tools
+              </TabsTrigger>
+              <TabsTrigger value="mcp" className="flex items-center gap-2">
+                <Plug className="h-4 w-4" />
+                MCP
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="general" className="space-y-4 mt-4">
@@ -214,6 +229,28 @@ export function WorkspaceSettingsDialog({
                 />
               </div>
             </TabsContent>
+
+            <TabsContent value="budgets" className="mt-4 max-h-[55vh] overflow-y-auto pr-1">
+              {workspace && (
+                <WorkspaceBudgetSettings
+                  workspace={workspace}
+                  members={members ?? []}
+                  canManage={canManageWorkspace}
+                />
+              )}
+            </TabsContent>
+
+            <TabsContent value="tools" className="mt-4 max-h-[55vh] overflow-y-auto pr-1">
+              {workspace && (
+                <WorkspaceToolSettings workspace={workspace} canManage={canManageWorkspace} />
+              )}
+            </TabsContent>
+
+            <TabsContent value="mcp" className="mt-4 max-h-[55vh] overflow-y-auto pr-1">
+              {workspace && (
+                <WorkspaceMcpSettings workspace={workspace} canManage={canManageWorkspace} />
+              )}
+            </TabsContent>
           </Tabs>
         </DialogContent>
       </Dialog>
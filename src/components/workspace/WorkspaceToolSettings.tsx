@@ -0,0 +1,129 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  toolRegistry,
+  getToolSideEffect,
+  isMcpToolName,
+  createMcpApiHandler,
+  createMcpTool,
+} from '@/lib/tools'
+import { useMcpCatalog, useUpdateWorkspaceToolPolicies } from '@/lib/queries'
+import type { ToolDefinition, ToolPolicies, ToolPolicy, Workspace } from '@/types'
+
+/** Select value for tools without a policy of their own */
+const DEFAULT_POLICY = 'default'
+
+const POLICY_LABELS: Record<ToolPolicy, string> = {
+  ask: 'Always ask',
+  auto: 'Auto-approve',
+  disabled: 'Disabled',
+}
+
+function getSideEffectLabel(tool: ToolDefinition): string {
+  if (typeof tool.sideEffect === 'function') return 'Some calls make changes'
+  switch (getToolSideEffect(tool, {})) {
+    case 'destructive':
+      return 'Destructive'
+    case 'write':
+      return 'Makes changes'
+    default:
+      return 'Read only'
+  }
+}
+
+function getDefaultLabel(tool: ToolDefinition): string {
+  return tool.sideEffect && getToolSideEffect(tool, {}) !== 'read'
+    ? 'Default (ask for changes)'
+    : 'Default (auto-approve)'
+}
+
+interface WorkspaceToolSettingsProps {
+  workspace: Workspace
+  canManage: boolean
+}
+
+export function WorkspaceToolSettings({ workspace, canManage }: WorkspaceToolSettingsProps) {
+  const updateToolPolicies = useUpdateWorkspaceToolPolicies()
+  const { data: mcpCatalog } = useMcpCatalog(workspace.id)
+  const [policies, setPolicies] = useState<ToolPolicies>({})
+
+  useEffect(() => {
+    setPolicies(workspace.toolPolicies ?? {})
+  }, [workspace.toolPolicies])
+
+  // The registry holds the active workspace's MCP tools, which may not be this one's
+  const handler = createMcpApiHandler(workspace.id)
+  const tools = [
+    ...toolRegistry.getAllTools().filter((tool) => !isMcpToolName(tool.name)),
+    ...(mcpCatalog?.tools ?? []).map((tool) => createMcpTool(tool, handler)),
+  ]
+
+  const handleChange = (name: string, value: string) => {
+    setPolicies((current) => {
+      const { [name]: _, ...rest } = current
+      return value === DEFAULT_POLICY ? rest : { ...rest, [name]: value as ToolPolicy }
+    })
+  }
+
+  const handleSave = () => {
+    updateToolPolicies.mutate({ workspaceId: workspace.id, toolPolicies: policies })
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Tools that make changes ask for approval before they run. Choose which tools always
+        ask, run without asking, or are never offered to the assistant.
+      </p>
+
+      {tools.map((tool) => (
+        <div key={tool.name} className="flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <Label className="font-mono">{tool.name}</Label>
+            <div className="mt-1">
+              <Badge variant="outline" className="text-xs">
+                {getSideEffectLabel(tool)}
+              </Badge>
+            </div>
+          </div>
+          <Select
+            value={policies[tool.name] ?? DEFAULT_POLICY}
+            onValueChange={(value) => handleChange(tool.name, value)}
+            disabled={!canManage}
+          >
+            <SelectTrigger className="w-52 shrink-0">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_POLICY}>{getDefaultLabel(tool)}</SelectItem>
+              {(Object.keys(POLICY_LABELS) as ToolPolicy[]).map((policy) => (
+                <SelectItem key={policy} value={policy}>
+                  {POLICY_LABELS[policy]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+
+      {canManage && (
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={updateToolPolicies.isPending}>
+            {updateToolPolicies.isPending ? 'Saving...' : 'Save Tool Policies'}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1 +1,2 @@
 export { useAuthSession, useUserId } from './useCurrentUser'
+export { useTokenCount } from './useTokenCount'
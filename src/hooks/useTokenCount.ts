@@ -0,0 +1,45 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { TokenCountRequest, TokenCountResponse } from '@/types'
+import { chatClient } from '@/lib/api/client'
+
+/**
+ * Count input tokens for a request via the server-side tokenizer.
+ * The request is debounced and in-flight counts are aborted when it changes,
+ * so pass a memoized request object. Pass null to skip counting.
+ */
+export function useTokenCount(request: TokenCountRequest | null, delayMs = 500) {
+  const [count, setCount] = useState<TokenCountResponse | null>(null)
+  const [isCounting, setIsCounting] = useState(false)
+
+  useEffect(() => {
+    if (!request) {
+      setCount(null)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsCounting(true)
+
+    const timeoutId = setTimeout(() => {
+      chatClient
+        .countTokens(request, controller.signal)
+        .then(setCount)
+        .catch((error) => {
+          if (error instanceof Error && error.name === 'AbortError') return
+          console.error('Failed to count tokens:', error)
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setIsCounting(false)
+        })
+    }, delayMs)
+
+    return () => {
+      clearTimeout(timeoutId)
+      controller.abort()
+    }
+  }, [request, delayMs])
+
+  return { count, isCounting }
+}
@@ -0,0 +1,32 @@
+/**
+ * Custom Assistants
+ *
+ * Assistants are local agents stored in the database and selected like a
+ * model, as `assistant-<id>`. The chat route resolves the id to the
+ * assistant's own model, instructions, parameters and tools.
+ */
+
+import type { AssistantScope } from '@/types'
+
+export const ASSISTANT_MODEL_PREFIX = 'assistant-'
+
+export function getAssistantModelId(assistantId: string): string {
+  return `${ASSISTANT_MODEL_PREFIX}${assistantId}`
+}
+
+/**
+ * The assistant a model id selects, or null for a regular model
+ */
+export function getAssistantIdFromModelId(modelId: string | null | undefined): string | null {
+  if (!modelId?.startsWith(ASSISTANT_MODEL_PREFIX)) return null
+  return modelId.slice(ASSISTANT_MODEL_PREFIX.length) || null
+}
+
+export function getAssistantScope(assistant: {
+  workspaceId?: string | null
+  projectId?: string | null
+}): AssistantScope {
+  if (assistant.projectId) return 'project'
+  if (assistant.workspaceId) return 'workspace'
+  return 'personal'
+}
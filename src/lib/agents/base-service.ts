@@ -10,6 +10,10 @@ import type {
   ProviderCapabilities,
   AgentConfig,
   AgentThread,
+  AgentMessage,
+  AgentTool,
+  AgentToolCall,
+  AgentCitation,
   AgentRunRequest,
   AgentRunResult,
   AgentStreamEvent,
@@ -42,6 +46,26 @@ export abstract class BaseAgentService implements IAgentService {
     }
   }
 
+  /**
+   * Drop the tools the provider cannot run and cap them at its tool limit
+   */
+  protected getSupportedTools(tools?: AgentTool[]): AgentTool[] | undefined {
+    if (!tools) return undefined
+    const caps = this.getCapabilities()
+    const supported = tools.filter((tool) => {
+      switch (tool.type) {
+        case 'function':
+          return caps.toolCalling
+        case 'code_interpreter':
+          return caps.codeExecution
+        case 'file_search':
+        case 'retrieval':
+          return caps.fileSearch
+      }
+    })
+    return caps.maxTools === 'unlimited' ? supported : supported.slice(0, caps.maxTools)
+  }
+
   // ==========================================================================
   // Agent CRUD - Abstract methods to be implemented by providers
   // ==========================================================================
@@ -95,6 +119,86 @@ export abstract class BaseAgentService implements IAgentService {
   // Utility Methods
   // ==========================================================================
 
+  /**
+   * Run to completion by consuming runStream, for providers whose API
+   * only streams
+   */
+  protected async collectRun(request: AgentRunRequest): Promise<AgentRunResult> {
+    let runId = this.generateRunId()
+    let threadId = request.threadId ?? ''
+    let content = ''
+    const toolCalls: AgentToolCall[] = []
+    const citations: AgentCitation[] = []
+
+    for await (const event of this.runStream(request)) {
+      switch (event.type) {
+        case 'start':
+          runId = event.runId
+          threadId = event.threadId
+          break
+        case 'delta':
+          content += event.content
+          break
+        case 'tool_call_start':
+          toolCalls.push(event.toolCall)
+          break
+        case 'citation':
+          citations.push(...event.citations)
+          break
+        case 'done':
+          return {
+            runId,
+            threadId,
+            message: event.message,
+            toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+            citations: citations.length > 0 ? citations : undefined,
+            usage: event.usage,
+            status: event.message.toolCalls?.length ? 'requires_action' : 'completed',
+          }
+        case 'error':
+          return {
+            runId,
+            threadId,
+            message: this.createAssistantMessage(content),
+            status: 'failed',
+            error: event.error,
+          }
+      }
+    }
+
+    return {
+      runId,
+      threadId,
+      message: this.createAssistantMessage(content),
+      status: 'failed',
+      error: 'The run ended without a response',
+    }
+  }
+
+  /**
+   * Text of a message; images and files are left out
+   */
+  protected getMessageText(content: AgentMessage['content']): string {
+    if (typeof content === 'string') return content
+    return content
+      .filter((c): c is { type: 'text'; text: string } => c.type === 'text')
+      .map((c) => c.text)
+      .join('\n')
+  }
+
+  protected createAssistantMessage(
+    content: string,
+    toolCalls?: AgentToolCall[]
+  ): AgentMessage {
+    return {
+      id: this.generateMessageId(),
+      role: 'assistant',
+      content,
+      toolCalls: toolCalls?.length ? toolCalls : undefined,
+      createdAt: new Date(),
+    }
+  }
+
   protected generateId(): string {
     return `agent_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`
   }
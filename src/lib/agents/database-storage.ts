@@ -0,0 +1,240 @@
+/**
+ * Database Agent Storage
+ *
+ * Persists local agents as custom assistants (Assistant rows) and their
+ * threads as regular conversations, so a thread with an assistant shows up
+ * in the sidebar like any other chat. Storage is bound to a user: it only
+ * reads assistants the user can use and threads the user owns. Writes are
+ * authorized by the caller.
+ *
+ * Server-only: reads and writes through Prisma.
+ */
+
+import 'server-only'
+import type { Assistant, Message } from '@/generated/prisma'
+import { getProviderForModel } from '@/lib/api/providers'
+import { canUseAssistant } from '@/lib/auth/assistant'
+import {
+  deleteAssistant,
+  getAssistant,
+  getUserAssistants,
+  parseAssistantJson,
+  saveAssistant,
+} from '@/lib/db/services/assistant'
+import {
+  createConversation,
+  createMessage,
+  deleteConversation,
+  getAssistantConversations,
+  getConversationWithMessages,
+  updateConversation,
+  type ConversationWithMessages,
+} from '@/lib/db/services/conversation'
+import type { ToolCall } from '@/types'
+import { getAssistantModelId } from './assistants'
+import { LocalAgentService, type AgentStorage } from './local-service'
+import { providerExecutor } from './provider-executor'
+import type { AgentConfig, AgentMessage, AgentThread } from './types'
+
+function toAgentConfig(assistant: Assistant): AgentConfig {
+  return {
+    id: assistant.id,
+    name: assistant.name,
+    description: assistant.description ?? undefined,
+    instructions: assistant.instructions,
+    model: assistant.model,
+    provider: 'local',
+    parameters: parseAssistantJson(assistant.parameters, {}),
+    tools: parseAssistantJson(assistant.tools, []),
+    dataSources: parseAssistantJson(assistant.dataSources, []),
+    metadata: {
+      ownerId: assistant.ownerId,
+      workspaceId: assistant.workspaceId,
+      projectId: assistant.projectId,
+    },
+    createdAt: assistant.createdAt,
+    updatedAt: assistant.updatedAt,
+  }
+}
+
+function toAgentMessage(message: Message): AgentMessage {
+  const toolCalls = parseAssistantJson<ToolCall[]>(message.toolCalls, [])
+  return {
+    id: message.id,
+    role: message.role as AgentMessage['role'],
+    content: message.content,
+    ...(toolCalls.length > 0 && {
+      toolCalls: toolCalls.map((call) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseAssistantJson(call.function.arguments, {}),
+      })),
+    }),
+    ...(message.toolCallId && {
+      toolResult: { toolCallId: message.toolCallId, output: message.content },
+    }),
+    createdAt: message.createdAt,
+  }
+}
+
+function toAgentThread(conversation: ConversationWithMessages): AgentThread {
+  return {
+    id: conversation.id,
+    agentId: conversation.assistantId as string,
+    provider: 'local',
+    title: conversation.title,
+    messages: conversation.messages.map(toAgentMessage),
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+  }
+}
+
+function getMessageText(message: AgentMessage): string {
+  if (typeof message.content === 'string') return message.content
+  return message.content
+    .filter((part): part is { type: 'text'; text: string } => part.type === 'text')
+    .map((part) => part.text)
+    .join('\n')
+}
+
+function getScopeId(agent: AgentConfig, key: 'workspaceId' | 'projectId'): string | null {
+  const value = agent.metadata?.[key]
+  return typeof value === 'string' && value ? value : null
+}
+
+/**
+ * The owner and scope of an assistant loaded through this storage
+ */
+export function getAssistantAccess(agent: AgentConfig): {
+  ownerId: string
+  workspaceId: string | null
+  projectId: string | null
+} {
+  return {
+    ownerId: String(agent.metadata?.ownerId ?? ''),
+    workspaceId: getScopeId(agent, 'workspaceId'),
+    projectId: getScopeId(agent, 'projectId'),
+  }
+}
+
+export class DatabaseAgentStorage implements AgentStorage {
+  constructor(private userId: string) {}
+
+  // Agents
+
+  async getAgent(id: string): Promise<AgentConfig | null> {
+    const assistant = await getAssistant(id)
+    if (!assistant || !(await canUseAssistant(assistant, this.userId))) return null
+    return toAgentConfig(assistant)
+  }
+
+  /**
+   * Scope comes from `metadata.workspaceId` and `metadata.projectId`; new
+   * assistants are owned by the storage's user
+   */
+  async setAgent(agent: AgentConfig): Promise<void> {
+    await saveAssistant({
+      id: agent.id,
+      ownerId: this.userId,
+      workspaceId: getScopeId(agent, 'workspaceId'),
+      projectId: getScopeId(agent, 'projectId'),
+      name: agent.name,
+      description: agent.description,
+      instructions: agent.instructions,
+      model: agent.model,
+      parameters: agent.parameters,
+      tools: agent.tools,
+      dataSources: agent.dataSources,
+    })
+  }
+
+  async deleteAgent(id: string): Promise<void> {
+    await deleteAssistant(id)
+  }
+
+  async listAgents(options?: { query?: string; limit?: number }): Promise<AgentConfig[]> {
+    const assistants = await getUserAssistants(this.userId, options)
+    return assistants.map(toAgentConfig)
+  }
+
+  // Threads
+
+  async getThread(id: string): Promise<AgentThread | null> {
+    const conversation = await getConversationWithMessages(id)
+    if (!conversation?.assistantId || conversation.userId !== this.userId) return null
+    return toAgentThread(conversation)
+  }
+
+  /**
+   * Create the thread's conversation if needed and append messages that are
+   * not stored yet. Database ids are written back to the thread and its
+   * messages, so callers keep working with the stored records.
+   */
+  async setThread(thread: AgentThread): Promise<void> {
+    let conversation = await getConversationWithMessages(thread.id)
+    if (conversation && conversation.userId !== this.userId) {
+      throw new Error(`Thread not found: ${thread.id}`)
+    }
+
+    if (!conversation) {
+      const agent = await this.getAgent(thread.agentId)
+      if (!agent) throw new Error(`Agent not found: ${thread.agentId}`)
+      const created = await createConversation({
+        userId: this.userId,
+        workspaceId: getScopeId(agent, 'workspaceId'),
+        projectId: getScopeId(agent, 'projectId') ?? undefined,
+        assistantId: agent.id,
+        title: thread.title || agent.name,
+        model: getAssistantModelId(agent.id),
+        provider: getProviderForModel(agent.model).provider,
+      })
+      conversation = { ...created, messages: [] }
+      thread.id = created.id
+    } else if (thread.title && thread.title !== conversation.title) {
+      await updateConversation(conversation.id, { title: thread.title })
+    }
+
+    const stored = new Set(conversation.messages.map((message) => message.id))
+    for (const message of thread.messages) {
+      if (stored.has(message.id)) continue
+      const created = await createMessage({
+        conversationId: conversation.id,
+        userId: message.role === 'user' ? this.userId : undefined,
+        role: message.role,
+        content: getMessageText(message),
+        toolCalls: message.toolCalls?.map((call) => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+        toolCallId: message.toolResult?.toolCallId,
+        metadata: message.metadata,
+      })
+      message.id = created.id
+    }
+  }
+
+  async deleteThread(id: string): Promise<void> {
+    if (await this.getThread(id)) {
+      await deleteConversation(id)
+    }
+  }
+
+  async listThreads(agentId: string): Promise<AgentThread[]> {
+    const conversations = await getAssistantConversations(agentId, this.userId)
+    return conversations.map(toAgentThread)
+  }
+}
+
+/**
+ * Local agent service backed by the database, acting as the given user.
+ * Chat with an assistant goes through /api/chat, which resolves its
+ * `assistant-<id>` model id; runs through the service call the providers
+ * directly.
+ */
+export function getAssistantService(userId: string): LocalAgentService {
+  return new LocalAgentService({
+    storage: new DatabaseAgentStorage(userId),
+    executor: providerExecutor,
+  })
+}
@@ -0,0 +1,260 @@
+/**
+ * Dust Agent Service
+ *
+ * Dust agent configurations are built in the Dust workspace UI; the API can
+ * only read them and talk to them. Threads are Dust conversations in the
+ * workspace set by DUST_WORKSPACE_ID.
+ */
+
+import 'server-only'
+
+import { BaseAgentService } from './base-service'
+import type {
+  AgentConfig,
+  AgentThread,
+  AgentMessage,
+  AgentRunRequest,
+  AgentRunResult,
+  AgentStreamEvent,
+} from './types'
+import { AgentOperationNotSupportedError } from './types'
+import { getProvider, DustProvider } from '@/lib/api/providers'
+import { ProviderNotConfiguredError } from '@/lib/api/errors/apiErrors'
+import type {
+  DustAgentConfiguration,
+  DustMessage,
+  DustMessageContext,
+  DustStreamEvent,
+} from '@/lib/api/glean/types'
+
+// The provider reports its own failures and the end of the stream this way
+type DustRunEvent =
+  | DustStreamEvent
+  | { type: 'error'; data?: { message?: string } }
+  | { type: 'done' }
+
+/**
+ * Model id that runs a Dust agent through the chat API
+ */
+export function getDustAgentModelId(workspaceId: string, agentId: string): string {
+  return `dust-${workspaceId}-${agentId}`
+}
+
+function toAgentConfig(agent: DustAgentConfiguration): AgentConfig {
+  // Dust does not report when a configuration was created or changed
+  const now = new Date()
+  return {
+    id: agent.sId,
+    name: agent.name,
+    description: agent.description || undefined,
+    instructions: agent.instructions ?? '',
+    model: agent.model.modelId,
+    provider: 'dust',
+    externalId: agent.sId,
+    parameters: { temperature: agent.model.temperature },
+    // Actions run inside Dust; they are listed for information only
+    tools: agent.actions.map((action) => ({
+      name: action.name,
+      description: action.description ?? '',
+      type: 'function',
+      providerConfig: { actionType: action.type },
+    })),
+    metadata: {
+      scope: agent.scope,
+      pictureUrl: agent.pictureUrl,
+      userFavorite: agent.userFavorite,
+      modelProvider: agent.model.providerId,
+    },
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+function toAgentMessage(message: DustMessage): AgentMessage {
+  return {
+    id: message.sId,
+    role: message.type === 'user_message' ? 'user' : 'assistant',
+    content: message.content ?? '',
+    createdAt: new Date(message.created),
+  }
+}
+
+// =============================================================================
+// Dust Agent Service Implementation
+// =============================================================================
+
+export class DustAgentService extends BaseAgentService {
+  constructor(private workspaceId: string | undefined = process.env.DUST_WORKSPACE_ID) {
+    super('dust')
+  }
+
+  private getDust(): DustProvider {
+    return getProvider('dust') as DustProvider
+  }
+
+  private getWorkspaceId(): string {
+    if (!this.workspaceId) throw new ProviderNotConfiguredError('dust')
+    return this.workspaceId
+  }
+
+  /**
+   * Model id that runs one of this workspace's agents through the chat API
+   */
+  getChatModelId(agentId: string): string {
+    return getDustAgentModelId(this.getWorkspaceId(), agentId)
+  }
+
+  // ==========================================================================
+  // Agent CRUD (read-only)
+  // ==========================================================================
+
+  async createAgent(): Promise<AgentConfig> {
+    throw new AgentOperationNotSupportedError('createAgent', this.provider)
+  }
+
+  async getAgent(agentId: string): Promise<AgentConfig> {
+    return toAgentConfig(await this.getDust().getAgent(this.getWorkspaceId(), agentId))
+  }
+
+  async updateAgent(): Promise<AgentConfig> {
+    // Only the user's favourite flag is writable through the API
+    throw new AgentOperationNotSupportedError('updateAgent', this.provider)
+  }
+
+  async deleteAgent(): Promise<void> {
+    throw new AgentOperationNotSupportedError('deleteAgent', this.provider)
+  }
+
+  async listAgents(options?: {
+    query?: string
+    limit?: number
+  }): Promise<AgentConfig[]> {
+    const dust = this.getDust()
+    const workspaceId = this.getWorkspaceId()
+    const agents = options?.query
+      ? await dust.searchAgents(workspaceId, options.query)
+      : await dust.listAgents(workspaceId, { view: 'list', limit: options?.limit })
+
+    const active = agents.filter((agent) => agent.status === 'active').map(toAgentConfig)
+    return options?.limit ? active.slice(0, options.limit) : active
+  }
+
+  // ==========================================================================
+  // Thread Management
+  // ==========================================================================
+
+  async createThread(agentId: string): Promise<AgentThread> {
+    const conversation = await this.getDust().createConversation(this.getWorkspaceId(), {})
+    const createdAt = new Date(conversation.created)
+    return {
+      id: conversation.sId,
+      agentId,
+      provider: 'dust',
+      externalId: conversation.sId,
+      title: conversation.title,
+      messages: [],
+      createdAt,
+      updatedAt: createdAt,
+    }
+  }
+
+  async getThread(threadId: string): Promise<AgentThread> {
+    const conversation = await this.getDust().getConversation(this.getWorkspaceId(), threadId)
+    const messages = conversation.messages.filter(
+      (m) => m.visibility === 'visible' && m.type !== 'content_fragment'
+    )
+    const createdAt = new Date(conversation.created)
+
+    return {
+      id: conversation.sId,
+      agentId: messages.find((m) => m.agentConfigurationId)?.agentConfigurationId ?? '',
+      provider: 'dust',
+      externalId: conversation.sId,
+      title: conversation.title,
+      messages: messages.map(toAgentMessage),
+      createdAt,
+      updatedAt: messages.length > 0 ? new Date(messages[messages.length - 1].created) : createdAt,
+    }
+  }
+
+  async deleteThread(): Promise<void> {
+    throw new AgentOperationNotSupportedError('deleteThread', this.provider)
+  }
+
+  async listThreads(): Promise<AgentThread[]> {
+    throw new AgentOperationNotSupportedError('listThreads', this.provider)
+  }
+
+  // ==========================================================================
+  // Execution
+  // ==========================================================================
+
+  async run(request: AgentRunRequest): Promise<AgentRunResult> {
+    return this.collectRun(request)
+  }
+
+  async *runStream(request: AgentRunRequest): AsyncGenerator<AgentStreamEvent> {
+    const dust = this.getDust()
+    const workspaceId = this.getWorkspaceId()
+    const threadId = request.threadId ?? (await this.createThread(request.agentId)).id
+
+    const user = request.context?.user
+    const context: DustMessageContext = {
+      username: user?.name || user?.email || 'user',
+      fullName: user?.name,
+      email: user?.email,
+      timezone: request.context?.timezone ?? 'UTC',
+    }
+    const userMessage = await dust.addMessage(workspaceId, threadId, {
+      content: this.getMessageText(request.message),
+      context,
+      mentions: [{ configurationId: request.agentId }],
+    })
+
+    yield { type: 'start', runId: userMessage.sId, threadId }
+
+    let content = ''
+    for await (const raw of dust.streamConversationEvents(workspaceId, threadId)) {
+      const event = raw as DustRunEvent
+      switch (event.type) {
+        case 'generation_tokens':
+          content += event.text
+          yield { type: 'delta', content: event.text }
+          break
+        case 'agent_action_started':
+          yield {
+            type: 'tool_call_start',
+            toolCall: { id: event.action.id, name: event.action.type, arguments: {} },
+          }
+          break
+        case 'agent_action_success':
+          yield {
+            type: 'tool_call_end',
+            toolCallId: event.action.id,
+            result: { toolCallId: event.action.id, output: JSON.stringify(event.action.output ?? null) },
+          }
+          break
+        case 'agent_message_success':
+          yield {
+            type: 'done',
+            message: { ...toAgentMessage(event.message), content: event.message.content ?? content },
+          }
+          return
+        case 'error':
+          yield {
+            type: 'error',
+            error: 'error' in event ? event.error.message : event.data?.message ?? 'Dust run failed',
+          }
+          return
+        case 'done':
+          yield { type: 'done', message: this.createAssistantMessage(content) }
+          return
+      }
+    }
+  }
+
+  async submitToolResults(): Promise<AgentRunResult> {
+    // Dust runs its actions itself
+    throw new AgentOperationNotSupportedError('submitToolResults', this.provider)
+  }
+}
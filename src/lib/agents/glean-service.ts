@@ -0,0 +1,272 @@
+/**
+ * Glean Agent Service
+ *
+ * Glean agents are built in the Glean Agent Builder UI; the API can only
+ * read and run them. Runs take the whole conversation, so threads are kept
+ * by this process and replayed on every run.
+ */
+
+import 'server-only'
+
+import { BaseAgentService } from './base-service'
+import type {
+  AgentConfig,
+  AgentThread,
+  AgentMessage,
+  AgentCitation,
+  AgentRunRequest,
+  AgentRunResult,
+  AgentStreamEvent,
+} from './types'
+import { AgentOperationNotSupportedError } from './types'
+import { getProvider, GleanProvider } from '@/lib/api/providers'
+import type {
+  GleanAgent,
+  GleanAgentMessage,
+  GleanCitation,
+  GleanStreamEvent,
+} from '@/lib/api/glean/types'
+
+/** Model id that runs a Glean agent through the chat API */
+export const GLEAN_AGENT_MODEL_PREFIX = 'glean-agent-'
+
+// The provider reports its own failures as a plain error string
+type GleanRunEvent = GleanStreamEvent | { type: 'error'; error: string }
+
+// Threads of all users, keyed by id; each records the user it belongs to
+const threads = new Map<string, AgentThread>()
+
+function toAgentConfig(agent: GleanAgent): AgentConfig {
+  return {
+    id: agent.id,
+    name: agent.name,
+    description: agent.description,
+    // Glean does not expose agent instructions
+    instructions: '',
+    model: `${GLEAN_AGENT_MODEL_PREFIX}${agent.id}`,
+    provider: 'glean',
+    externalId: agent.id,
+    metadata: {
+      createdBy: agent.createdBy?.name,
+      canRun: agent.permissions?.canRun ?? true,
+    },
+    createdAt: new Date(agent.createdAt),
+    updatedAt: new Date(agent.updatedAt),
+  }
+}
+
+function toAgentCitation(citation: GleanCitation): AgentCitation {
+  return {
+    id: citation.id,
+    title: citation.title,
+    url: citation.url,
+    snippet: citation.snippet,
+    source: citation.datasource,
+  }
+}
+
+function toUsage(usage?: { inputTokens?: number; outputTokens?: number }): AgentRunResult['usage'] {
+  if (!usage) return undefined
+  const inputTokens = usage.inputTokens ?? 0
+  const outputTokens = usage.outputTokens ?? 0
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens }
+}
+
+// =============================================================================
+// Glean Agent Service Implementation
+// =============================================================================
+
+export class GleanAgentService extends BaseAgentService {
+  /**
+   * @param userEmail - Glean applies this user's permissions to agents and results
+   */
+  constructor(private userEmail?: string) {
+    super('glean')
+  }
+
+  private getGlean(): GleanProvider {
+    return getProvider('glean') as GleanProvider
+  }
+
+  // ==========================================================================
+  // Agent CRUD (read-only)
+  // ==========================================================================
+
+  async createAgent(): Promise<AgentConfig> {
+    throw new AgentOperationNotSupportedError('createAgent', this.provider)
+  }
+
+  async getAgent(agentId: string): Promise<AgentConfig> {
+    return toAgentConfig(await this.getGlean().getAgent(agentId, this.userEmail))
+  }
+
+  async updateAgent(): Promise<AgentConfig> {
+    throw new AgentOperationNotSupportedError('updateAgent', this.provider)
+  }
+
+  async deleteAgent(): Promise<void> {
+    throw new AgentOperationNotSupportedError('deleteAgent', this.provider)
+  }
+
+  async listAgents(options?: {
+    query?: string
+    limit?: number
+  }): Promise<AgentConfig[]> {
+    const result = await this.getGlean().searchAgents(
+      { query: options?.query, pageSize: options?.limit ?? 50 },
+      this.userEmail
+    )
+    return result.agents
+      .filter((agent) => agent.permissions?.canRun !== false)
+      .map(toAgentConfig)
+  }
+
+  // ==========================================================================
+  // Thread Management
+  // ==========================================================================
+
+  async createThread(agentId: string): Promise<AgentThread> {
+    const now = new Date()
+    const thread: AgentThread = {
+      id: this.generateThreadId(),
+      agentId,
+      provider: 'glean',
+      messages: [],
+      metadata: { userEmail: this.userEmail },
+      createdAt: now,
+      updatedAt: now,
+    }
+    threads.set(thread.id, thread)
+    return thread
+  }
+
+  async getThread(threadId: string): Promise<AgentThread> {
+    const thread = threads.get(threadId)
+    if (!thread || thread.metadata?.userEmail !== this.userEmail) {
+      throw new Error(`Thread not found: ${threadId}`)
+    }
+    return thread
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await this.getThread(threadId)
+    threads.delete(threadId)
+  }
+
+  async listThreads(agentId: string): Promise<AgentThread[]> {
+    return Array.from(threads.values()).filter(
+      (t) => t.agentId === agentId && t.metadata?.userEmail === this.userEmail
+    )
+  }
+
+  // ==========================================================================
+  // Execution
+  // ==========================================================================
+
+  /**
+   * The thread to run in, with the new user message and the conversation
+   * to send to Glean
+   */
+  private async prepareRun(request: AgentRunRequest) {
+    const thread = request.threadId
+      ? await this.getThread(request.threadId)
+      : await this.createThread(request.agentId)
+
+    const userMessage: AgentMessage = {
+      id: this.generateMessageId(),
+      role: 'user',
+      content: request.message,
+      createdAt: new Date(),
+    }
+    const messages: GleanAgentMessage[] = [...thread.messages, userMessage]
+      .filter((m) => m.role === 'user' || m.role === 'assistant')
+      .map((m) => ({ role: m.role as GleanAgentMessage['role'], content: this.getMessageText(m.content) }))
+
+    return { thread, userMessage, messages }
+  }
+
+  private saveTurn(thread: AgentThread, userMessage: AgentMessage, reply: AgentMessage): void {
+    thread.messages.push(userMessage, reply)
+    thread.updatedAt = new Date()
+  }
+
+  async run(request: AgentRunRequest): Promise<AgentRunResult> {
+    const { thread, userMessage, messages } = await this.prepareRun(request)
+    const runId = this.generateRunId()
+
+    try {
+      const response = await this.getGlean().runAgentBlocking(
+        { agentId: request.agentId, messages, context: { conversationId: thread.externalId } },
+        this.userEmail
+      )
+      const reply = this.createAssistantMessage(response.message.content)
+      this.saveTurn(thread, userMessage, reply)
+      thread.externalId = response.conversationId ?? thread.externalId
+
+      return {
+        runId: response.runId || runId,
+        threadId: thread.id,
+        message: reply,
+        citations: response.citations?.map(toAgentCitation),
+        usage: toUsage(response.usage),
+        status: response.status,
+      }
+    } catch (error) {
+      return {
+        runId,
+        threadId: thread.id,
+        message: this.createAssistantMessage(''),
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }
+    }
+  }
+
+  async *runStream(request: AgentRunRequest): AsyncGenerator<AgentStreamEvent> {
+    const { thread, userMessage, messages } = await this.prepareRun(request)
+
+    yield { type: 'start', runId: this.generateRunId(), threadId: thread.id }
+
+    let content = ''
+    let usage: AgentRunResult['usage']
+    const stream = this.getGlean().runAgentStream(
+      { agentId: request.agentId, messages, context: { conversationId: thread.externalId } },
+      this.userEmail
+    )
+
+    for await (const raw of stream) {
+      const event = raw as GleanRunEvent
+      switch (event.type) {
+        case 'start':
+          thread.externalId = event.conversationId ?? thread.externalId
+          break
+        case 'delta':
+          content += event.content
+          yield { type: 'delta', content: event.content }
+          break
+        case 'citation':
+          yield { type: 'citation', citations: event.citations.map(toAgentCitation) }
+          break
+        case 'done':
+          // The provider also sends a bare done when the stream closes
+          if (event.message && !content) content = event.message.content
+          usage = toUsage(event.usage) ?? usage
+          break
+        case 'error':
+          yield {
+            type: 'error',
+            error: typeof event.error === 'string' ? event.error : event.error.message,
+          }
+          return
+      }
+    }
+
+    const reply = this.createAssistantMessage(content)
+    this.saveTurn(thread, userMessage, reply)
+    yield { type: 'done', message: reply, usage }
+  }
+
+  async submitToolResults(): Promise<AgentRunResult> {
+    throw new AgentOperationNotSupportedError('submitToolResults', this.provider)
+  }
+}
@@ -123,9 +123,8 @@ export function getAgentService(provider: AgentProvider): IAgentService {
       return getLocalAgentService()
 
     case 'openai':
-      // TODO: Implement OpenAI Assistants API service
+      // Server-only: use getAgentRegistry from '@/lib/agents/registry'
       // Note: OpenAI Assistants API is being deprecated (sunset Aug 2026)
-      // Consider using the new Responses API instead
       throw new AgentOperationNotSupportedError(
         'OpenAI agent service',
         provider
@@ -140,7 +139,7 @@ export function getAgentService(provider: AgentProvider): IAgentService {
       )
 
     case 'glean':
-      // TODO: Implement read-only Glean agent wrapper
+      // Server-only: use getAgentRegistry from '@/lib/agents/registry'
       // Glean agents are created in UI, can only read/execute via API
       throw new AgentOperationNotSupportedError(
         'Glean agent service',
@@ -148,7 +147,7 @@ export function getAgentService(provider: AgentProvider): IAgentService {
       )
 
     case 'dust':
-      // TODO: Implement read-only Dust agent wrapper
+      // Server-only: use getAgentRegistry from '@/lib/agents/registry'
       // Dust agents are created in UI, can only read/execute via API
       throw new AgentOperationNotSupportedError(
         'Dust agent service',
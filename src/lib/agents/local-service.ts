@@ -24,7 +24,7 @@ import type {
 // Storage Interface - Can be swapped for database, Redis, etc.
 // =============================================================================
 
-interface AgentStorage {
+export interface AgentStorage {
   // Agents
   getAgent(id: string): Promise<AgentConfig | null>
   setAgent(agent: AgentConfig): Promise<void>
@@ -103,7 +103,7 @@ class InMemoryStorage implements AgentStorage {
 // LLM Executor Interface - Handles actual model calls
 // =============================================================================
 
-interface LLMExecutor {
+export interface LLMExecutor {
   execute(
     model: string,
     messages: AgentMessage[],
@@ -518,6 +518,11 @@ export class LocalAgentService extends BaseAgentService {
       )
 
       for await (const event of stream) {
+        if (event.type === 'done') {
+          thread.messages.push(event.message)
+          thread.updatedAt = new Date()
+          await this.storage.setThread(thread)
+        }
         yield event
       }
     } catch (error) {
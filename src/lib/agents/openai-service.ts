@@ -0,0 +1,451 @@
+/**
+ * OpenAI Agent Service
+ *
+ * Wraps the OpenAI Assistants API: assistants are agents, and threads and
+ * runs live on OpenAI's side. The API is sunsetting in Aug 2026, so new
+ * agents should prefer the local provider.
+ */
+
+import 'server-only'
+
+import OpenAI from 'openai'
+import { BaseAgentService } from './base-service'
+import type {
+  AgentConfig,
+  AgentThread,
+  AgentMessage,
+  AgentTool,
+  AgentToolCall,
+  AgentCitation,
+  AgentRunRequest,
+  AgentRunResult,
+  AgentStreamEvent,
+  AgentToolResult,
+} from './types'
+import { AgentOperationNotSupportedError } from './types'
+import { getProviderApiKey } from '@/lib/api/config/providers'
+import { ProviderNotConfiguredError } from '@/lib/api/errors/apiErrors'
+
+type Assistant = OpenAI.Beta.Assistant
+type Run = OpenAI.Beta.Threads.Run
+type Message = OpenAI.Beta.Threads.Message
+
+// =============================================================================
+// Mapping
+// =============================================================================
+
+function toAgentTool(tool: OpenAI.Beta.AssistantTool): AgentTool {
+  switch (tool.type) {
+    case 'function':
+      return {
+        name: tool.function.name,
+        description: tool.function.description ?? '',
+        type: 'function',
+        parameters: tool.function.parameters,
+      }
+    case 'code_interpreter':
+      return { name: 'code_interpreter', description: 'Runs Python code', type: 'code_interpreter' }
+    case 'file_search':
+      return { name: 'file_search', description: 'Searches attached files', type: 'file_search' }
+  }
+}
+
+function toAssistantTool(tool: AgentTool): OpenAI.Beta.AssistantTool {
+  switch (tool.type) {
+    case 'function':
+      return {
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+      }
+    case 'code_interpreter':
+      return { type: 'code_interpreter' }
+    case 'file_search':
+    case 'retrieval':
+      return { type: 'file_search' }
+  }
+}
+
+function toAgentConfig(assistant: Assistant): AgentConfig {
+  const createdAt = new Date(assistant.created_at * 1000)
+  return {
+    id: assistant.id,
+    name: assistant.name || 'Untitled assistant',
+    description: assistant.description ?? undefined,
+    instructions: assistant.instructions ?? '',
+    model: assistant.model,
+    provider: 'openai',
+    externalId: assistant.id,
+    parameters: {
+      temperature: assistant.temperature ?? undefined,
+      topP: assistant.top_p ?? undefined,
+    },
+    tools: assistant.tools.map(toAgentTool),
+    metadata: (assistant.metadata as Record<string, string> | null) ?? undefined,
+    // The Assistants API does not report when an assistant last changed
+    createdAt,
+    updatedAt: createdAt,
+  }
+}
+
+// Assistant metadata holds at most 16 string values
+function toAssistantMetadata(metadata?: Record<string, unknown>): Record<string, string> | undefined {
+  if (!metadata) return undefined
+  return Object.fromEntries(
+    Object.entries(metadata)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .slice(0, 16)
+      .map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)])
+  )
+}
+
+function getCitations(message: Message): AgentCitation[] {
+  return message.content.flatMap((block) =>
+    block.type === 'text'
+      ? block.text.annotations
+          .filter((a): a is OpenAI.Beta.Threads.FileCitationAnnotation => a.type === 'file_citation')
+          .map((a) => ({
+            id: a.file_citation.file_id,
+            title: a.text,
+            url: '',
+            snippet: a.text,
+            source: 'openai_file',
+          }))
+      : []
+  )
+}
+
+function toAgentMessage(message: Message): AgentMessage {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content
+      .map((block) => (block.type === 'text' ? block.text.value : ''))
+      .join(''),
+    metadata: message.run_id ? { runId: message.run_id } : undefined,
+    createdAt: new Date(message.created_at * 1000),
+  }
+}
+
+function getToolCalls(run: Run): AgentToolCall[] {
+  return (run.required_action?.submit_tool_outputs.tool_calls ?? []).map((call) => {
+    let args: Record<string, unknown> = {}
+    try {
+      args = JSON.parse(call.function.arguments)
+    } catch {
+      // Leave malformed arguments empty; the tool reports what is missing
+    }
+    return { id: call.id, name: call.function.name, arguments: args }
+  })
+}
+
+function getUsage(run: Run): AgentRunResult['usage'] {
+  return run.usage
+    ? {
+        inputTokens: run.usage.prompt_tokens,
+        outputTokens: run.usage.completion_tokens,
+        totalTokens: run.usage.total_tokens,
+      }
+    : undefined
+}
+
+// =============================================================================
+// OpenAI Agent Service Implementation
+// =============================================================================
+
+export class OpenAIAgentService extends BaseAgentService {
+  private client: OpenAI | null = null
+  // Runs waiting for tool results, mapped to their thread
+  private pendingRuns = new Map<string, string>()
+
+  constructor() {
+    super('openai')
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      const apiKey = getProviderApiKey('openai')
+      if (!apiKey) throw new ProviderNotConfiguredError('openai')
+      this.client = new OpenAI({ apiKey })
+    }
+    return this.client
+  }
+
+  // ==========================================================================
+  // Agent CRUD
+  // ==========================================================================
+
+  async createAgent(
+    config: Omit<AgentConfig, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<AgentConfig> {
+    this.requireCapability('createAgent', 'createAgent')
+
+    const assistant = await this.getClient().beta.assistants.create({
+      model: config.model,
+      name: config.name,
+      description: config.description,
+      instructions: config.instructions,
+      tools: this.getSupportedTools(config.tools)?.map(toAssistantTool),
+      temperature: config.parameters?.temperature,
+      top_p: config.parameters?.topP,
+      metadata: toAssistantMetadata(config.metadata),
+    })
+    return toAgentConfig(assistant)
+  }
+
+  async getAgent(agentId: string): Promise<AgentConfig> {
+    const assistant = await this.getClient().beta.assistants.retrieve(agentId)
+    return toAgentConfig(assistant)
+  }
+
+  async updateAgent(
+    agentId: string,
+    updates: Partial<AgentConfig>
+  ): Promise<AgentConfig> {
+    this.requireCapability('updateAgent', 'updateAgent')
+
+    const assistant = await this.getClient().beta.assistants.update(agentId, {
+      model: updates.model,
+      name: updates.name,
+      description: updates.description,
+      instructions: updates.instructions,
+      tools: this.getSupportedTools(updates.tools)?.map(toAssistantTool),
+      temperature: updates.parameters?.temperature,
+      top_p: updates.parameters?.topP,
+      metadata: toAssistantMetadata(updates.metadata),
+    })
+    return toAgentConfig(assistant)
+  }
+
+  async deleteAgent(agentId: string): Promise<void> {
+    this.requireCapability('deleteAgent', 'deleteAgent')
+    await this.getClient().beta.assistants.delete(agentId)
+  }
+
+  async listAgents(options?: {
+    query?: string
+    limit?: number
+  }): Promise<AgentConfig[]> {
+    const agents: AgentConfig[] = []
+    // The API cannot search, so page through and filter by name
+    for await (const assistant of this.getClient().beta.assistants.list({ limit: 100 })) {
+      const agent = toAgentConfig(assistant)
+      const query = options?.query?.toLowerCase()
+      if (
+        !query ||
+        agent.name.toLowerCase().includes(query) ||
+        agent.description?.toLowerCase().includes(query)
+      ) {
+        agents.push(agent)
+      }
+      if (options?.limit && agents.length >= options.limit) break
+    }
+    return agents
+  }
+
+  // ==========================================================================
+  // Thread Management
+  // ==========================================================================
+
+  async createThread(agentId: string): Promise<AgentThread> {
+    const thread = await this.getClient().beta.threads.create({ metadata: { agentId } })
+    const createdAt = new Date(thread.created_at * 1000)
+    return {
+      id: thread.id,
+      agentId,
+      provider: 'openai',
+      externalId: thread.id,
+      messages: [],
+      createdAt,
+      updatedAt: createdAt,
+    }
+  }
+
+  async getThread(threadId: string): Promise<AgentThread> {
+    const client = this.getClient()
+    const thread = await client.beta.threads.retrieve(threadId)
+    const messages = await client.beta.threads.messages.list(threadId, { order: 'asc', limit: 100 })
+    const agentMessages = messages.data.map(toAgentMessage)
+
+    return {
+      id: thread.id,
+      agentId: (thread.metadata as Record<string, string> | null)?.agentId ?? '',
+      provider: 'openai',
+      externalId: thread.id,
+      messages: agentMessages,
+      createdAt: new Date(thread.created_at * 1000),
+      updatedAt: agentMessages.at(-1)?.createdAt ?? new Date(thread.created_at * 1000),
+    }
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await this.getClient().beta.threads.delete(threadId)
+  }
+
+  async listThreads(): Promise<AgentThread[]> {
+    // Threads can be fetched by id but the Assistants API cannot list them
+    throw new AgentOperationNotSupportedError('listThreads', this.provider)
+  }
+
+  // ==========================================================================
+  // Execution
+  // ==========================================================================
+
+  private async startThread(request: AgentRunRequest): Promise<string> {
+    const threadId = request.threadId ?? (await this.createThread(request.agentId)).id
+    await this.getClient().beta.threads.messages.create(threadId, {
+      role: 'user',
+      content: this.getMessageText(request.message),
+    })
+    return threadId
+  }
+
+  private getRunParameters(request: AgentRunRequest) {
+    return {
+      assistant_id: request.agentId,
+      temperature: request.parameterOverrides?.temperature,
+      top_p: request.parameterOverrides?.topP,
+      max_completion_tokens: request.parameterOverrides?.maxTokens,
+    }
+  }
+
+  /**
+   * Result of a finished run: its reply, or the tool calls it waits on
+   */
+  private async toRunResult(run: Run): Promise<AgentRunResult> {
+    const base = { runId: run.id, threadId: run.thread_id, usage: getUsage(run) }
+
+    if (run.status === 'requires_action') {
+      const toolCalls = getToolCalls(run)
+      this.pendingRuns.set(run.id, run.thread_id)
+      return {
+        ...base,
+        message: this.createAssistantMessage('', toolCalls),
+        toolCalls,
+        status: 'requires_action',
+      }
+    }
+
+    if (run.status !== 'completed') {
+      return {
+        ...base,
+        message: this.createAssistantMessage(''),
+        status: run.status === 'cancelled' ? 'cancelled' : 'failed',
+        error: run.last_error?.message ?? `Run ended with status ${run.status}`,
+      }
+    }
+
+    const messages = await this.getClient().beta.threads.messages.list(run.thread_id, {
+      run_id: run.id,
+      order: 'desc',
+      limit: 1,
+    })
+    const reply = messages.data[0]
+    const citations = reply ? getCitations(reply) : []
+
+    return {
+      ...base,
+      message: reply ? toAgentMessage(reply) : this.createAssistantMessage(''),
+      citations: citations.length > 0 ? citations : undefined,
+      status: 'completed',
+    }
+  }
+
+  async run(request: AgentRunRequest): Promise<AgentRunResult> {
+    const threadId = await this.startThread(request)
+    const run = await this.getClient().beta.threads.runs.createAndPoll(
+      threadId,
+      this.getRunParameters(request)
+    )
+    return this.toRunResult(run)
+  }
+
+  async *runStream(request: AgentRunRequest): AsyncGenerator<AgentStreamEvent> {
+    const threadId = await this.startThread(request)
+    const stream = this.getClient().beta.threads.runs.stream(threadId, this.getRunParameters(request))
+
+    let content = ''
+    let messageId: string | undefined
+    const toolCalls: AgentToolCall[] = []
+    let usage: AgentRunResult['usage']
+
+    for await (const event of stream) {
+      switch (event.event) {
+        case 'thread.run.created':
+          yield { type: 'start', runId: event.data.id, threadId }
+          break
+        case 'thread.message.delta':
+          messageId = event.data.id
+          for (const part of event.data.delta.content ?? []) {
+            if (part.type === 'text' && part.text?.value) {
+              content += part.text.value
+              yield { type: 'delta', content: part.text.value }
+            }
+          }
+          break
+        case 'thread.message.completed': {
+          const citations = getCitations(event.data)
+          if (citations.length > 0) yield { type: 'citation', citations }
+          break
+        }
+        case 'thread.run.requires_action':
+          this.pendingRuns.set(event.data.id, threadId)
+          for (const toolCall of getToolCalls(event.data)) {
+            toolCalls.push(toolCall)
+            yield { type: 'tool_call_start', toolCall }
+          }
+          usage = getUsage(event.data)
+          break
+        case 'thread.run.completed':
+          usage = getUsage(event.data)
+          break
+        case 'thread.run.failed':
+        case 'thread.run.expired':
+        case 'thread.run.incomplete':
+          yield {
+            type: 'error',
+            error: event.data.last_error?.message ?? `Run ended with status ${event.data.status}`,
+          }
+          return
+        case 'error':
+          yield { type: 'error', error: event.data.message }
+          return
+      }
+    }
+
+    const message = this.createAssistantMessage(content, toolCalls)
+    yield { type: 'done', message: messageId ? { ...message, id: messageId } : message, usage }
+  }
+
+  async submitToolResults(
+    runId: string,
+    results: AgentToolResult[]
+  ): Promise<AgentRunResult> {
+    const threadId = this.pendingRuns.get(runId)
+    if (!threadId) {
+      throw new Error(`No pending run found: ${runId}`)
+    }
+    this.pendingRuns.delete(runId)
+
+    const run = await this.getClient().beta.threads.runs.submitToolOutputsAndPoll(runId, {
+      thread_id: threadId,
+      tool_outputs: results.map((result) => ({
+        tool_call_id: result.toolCallId,
+        output: result.error ? `Error: ${result.error}` : result.output,
+      })),
+    })
+    return this.toRunResult(run)
+  }
+}
+
+// =============================================================================
+// Singleton
+// =============================================================================
+
+let openAIAgentService: OpenAIAgentService | null = null
+
+export function getOpenAIAgentService(): OpenAIAgentService {
+  if (!openAIAgentService) {
+    openAIAgentService = new OpenAIAgentService()
+  }
+  return openAIAgentService
+}
@@ -0,0 +1,139 @@
+/**
+ * Provider Executor
+ *
+ * Runs local agents on the server by calling the model providers directly;
+ * the default executor of LocalAgentService goes through /api/chat and only
+ * works in the browser.
+ */
+
+import 'server-only'
+
+import type {
+  ChatCompletionMessage,
+  ChatCompletionRequest,
+  FunctionParameters,
+  TokenUsage,
+} from '@/types'
+import type { ToolCall } from '@/types/tools'
+import { getProviderForModel } from '@/lib/api/providers'
+import type { LLMExecutor } from './local-service'
+import type { AgentConfig, AgentMessage, AgentRunResult, AgentToolCall } from './types'
+
+function toChatMessage(message: AgentMessage): ChatCompletionMessage {
+  const content =
+    typeof message.content === 'string'
+      ? message.content
+      : message.content
+          .filter((c): c is { type: 'text'; text: string } => c.type === 'text')
+          .map((c) => c.text)
+          .join('\n')
+
+  return {
+    role: message.role,
+    content,
+    tool_calls: message.toolCalls?.map((call) => ({
+      id: call.id,
+      type: 'function',
+      function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+    })),
+    tool_call_id: message.toolResult?.toolCallId,
+  }
+}
+
+function toChatRequest(
+  model: string,
+  messages: AgentMessage[],
+  tools?: AgentConfig['tools'],
+  parameters?: AgentConfig['parameters']
+): ChatCompletionRequest {
+  const functionTools = tools?.filter((tool) => tool.type === 'function') ?? []
+  return {
+    conversationId: crypto.randomUUID(),
+    provider: getProviderForModel(model).provider,
+    model,
+    messages: messages.map(toChatMessage),
+    options: {
+      temperature: parameters?.temperature,
+      maxTokens: parameters?.maxTokens,
+      topP: parameters?.topP,
+      tools: functionTools.length
+        ? functionTools.map((tool) => ({
+            type: 'function',
+            function: {
+              name: tool.name,
+              description: tool.description,
+              parameters: (tool.parameters ?? { type: 'object', properties: {} }) as FunctionParameters,
+            },
+          }))
+        : undefined,
+    },
+  }
+}
+
+function toAgentToolCalls(toolCalls?: ToolCall[]): AgentToolCall[] | undefined {
+  if (!toolCalls?.length) return undefined
+  return toolCalls.map((call) => {
+    let args: Record<string, unknown> = {}
+    try {
+      args = JSON.parse(call.function.arguments || '{}')
+    } catch {
+      // Leave malformed arguments empty; the tool reports what is missing
+    }
+    return { id: call.id, name: call.function.name, arguments: args }
+  })
+}
+
+function toAgentUsage(usage?: TokenUsage): AgentRunResult['usage'] {
+  return usage
+    ? { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens, totalTokens: usage.totalTokens }
+    : undefined
+}
+
+export const providerExecutor: LLMExecutor = {
+  execute: async (model, messages, tools, parameters) => {
+    const request = toChatRequest(model, messages, tools, parameters)
+    const response = await getProviderForModel(model).complete(request)
+    return {
+      content: response.message.content ?? '',
+      toolCalls: toAgentToolCalls(response.message.tool_calls),
+      usage: toAgentUsage(response.usage),
+    }
+  },
+
+  executeStream: async function* (model, messages, tools, parameters) {
+    const request = toChatRequest(model, messages, tools, parameters)
+    let content = ''
+
+    for await (const event of getProviderForModel(model).stream(request)) {
+      switch (event.type) {
+        case 'delta':
+          if (event.data.delta) {
+            content += event.data.delta
+            yield { type: 'delta', content: event.data.delta }
+          }
+          break
+        case 'done': {
+          const toolCalls = toAgentToolCalls(event.data.tool_calls)
+          for (const toolCall of toolCalls ?? []) {
+            yield { type: 'tool_call_start', toolCall }
+          }
+          yield {
+            type: 'done',
+            message: {
+              id: event.data.id ?? `msg_${Date.now()}`,
+              role: 'assistant',
+              content: event.data.content ?? content,
+              toolCalls,
+              createdAt: new Date(),
+            },
+            usage: toAgentUsage(event.data.usage),
+          }
+          return
+        }
+        case 'error':
+          yield { type: 'error', error: event.data.error ?? 'Unknown error' }
+          return
+      }
+    }
+  },
+}
@@ -0,0 +1,253 @@
+/**
+ * Agent Registry
+ *
+ * One entry point to every agent a user can reach: their custom assistants
+ * (local), the organization's OpenAI assistants, and Glean and Dust agents.
+ * Providers that are not configured are left out, runs are normalized to
+ * AgentStreamEvent, and what a provider cannot do degrades according to
+ * PROVIDER_CAPABILITIES instead of failing the run.
+ *
+ * Server-only: the services call providers and the database directly.
+ */
+
+import 'server-only'
+
+import type {
+  AgentCatalogEntry,
+  AgentConfig,
+  AgentProvider,
+  AgentRunRequest,
+  AgentRunResult,
+  AgentStreamEvent,
+  IAgentService,
+} from './types'
+import { PROVIDER_CAPABILITIES, AgentOperationNotSupportedError } from './types'
+import { getAssistantModelId } from './assistants'
+import { getAssistantAccess, getAssistantService } from './database-storage'
+import { getOpenAIAgentService } from './openai-service'
+import { GleanAgentService } from './glean-service'
+import { DustAgentService } from './dust-service'
+import { canManageAssistant } from '@/lib/auth/assistant'
+import { isProviderConfigured, isProviderEnabled } from '@/lib/api/config/providers'
+import { apiLogger } from '@/lib/logging'
+
+/** Providers listed in the catalogue, in display order */
+export const CATALOG_PROVIDERS: AgentProvider[] = ['local', 'openai', 'glean', 'dust']
+
+export interface AgentRegistryUser {
+  id: string
+  name?: string | null
+  email?: string | null
+}
+
+function isProviderReachable(provider: AgentProvider): boolean {
+  switch (provider) {
+    case 'local':
+      return true
+    case 'dust':
+      return isProviderConfigured('dust') && isProviderEnabled('dust') && !!process.env.DUST_WORKSPACE_ID
+    case 'openai':
+    case 'glean':
+      return isProviderConfigured(provider) && isProviderEnabled(provider)
+    default:
+      return false
+  }
+}
+
+/**
+ * Stream of a finished run, for providers that cannot stream
+ */
+async function* streamFromRun(result: Promise<AgentRunResult>): AsyncGenerator<AgentStreamEvent> {
+  const run = await result
+  yield { type: 'start', runId: run.runId, threadId: run.threadId }
+
+  if (run.status === 'failed') {
+    yield { type: 'error', error: run.error ?? 'Run failed' }
+    return
+  }
+
+  const content = typeof run.message.content === 'string' ? run.message.content : ''
+  if (content) yield { type: 'delta', content }
+  for (const toolCall of run.toolCalls ?? []) {
+    yield { type: 'tool_call_start', toolCall }
+  }
+  if (run.citations?.length) yield { type: 'citation', citations: run.citations }
+  yield { type: 'done', message: run.message, usage: run.usage }
+}
+
+/**
+ * Guarantee every stream opens with `start` and ends with exactly one
+ * `done` or `error`, whatever the provider sends
+ */
+export async function* normalizeAgentStream(
+  events: AsyncGenerator<AgentStreamEvent>,
+  request: AgentRunRequest
+): AsyncGenerator<AgentStreamEvent> {
+  let started = false
+  let content = ''
+
+  try {
+    for await (const event of events) {
+      if (event.type === 'start') {
+        if (started) continue
+        started = true
+      } else if (!started) {
+        started = true
+        yield { type: 'start', runId: `run_${Date.now()}`, threadId: request.threadId ?? '' }
+      }
+
+      if (event.type === 'delta') content += event.content
+      yield event
+      if (event.type === 'done' || event.type === 'error') return
+    }
+  } catch (error) {
+    if (!started) {
+      yield { type: 'start', runId: `run_${Date.now()}`, threadId: request.threadId ?? '' }
+    }
+    yield { type: 'error', error: error instanceof Error ? error.message : 'Unknown error' }
+    return
+  }
+
+  if (!started) {
+    yield { type: 'start', runId: `run_${Date.now()}`, threadId: request.threadId ?? '' }
+  }
+  yield {
+    type: 'done',
+    message: { id: `msg_${Date.now()}`, role: 'assistant', content, createdAt: new Date() },
+  }
+}
+
+export class AgentRegistry {
+  private services = new Map<AgentProvider, IAgentService>()
+
+  constructor(private user: AgentRegistryUser) {}
+
+  /**
+   * Providers whose agents this deployment can reach
+   */
+  getProviders(): AgentProvider[] {
+    return CATALOG_PROVIDERS.filter(isProviderReachable)
+  }
+
+  getService(provider: AgentProvider): IAgentService {
+    if (!this.getProviders().includes(provider)) {
+      throw new AgentOperationNotSupportedError('agent service', provider)
+    }
+
+    let service = this.services.get(provider)
+    if (!service) {
+      service = this.createService(provider)
+      this.services.set(provider, service)
+    }
+    return service
+  }
+
+  private createService(provider: AgentProvider): IAgentService {
+    switch (provider) {
+      case 'local':
+        return getAssistantService(this.user.id)
+      case 'openai':
+        return getOpenAIAgentService()
+      case 'glean':
+        return new GleanAgentService(this.user.email ?? undefined)
+      case 'dust':
+        return new DustAgentService()
+      default:
+        throw new AgentOperationNotSupportedError('agent service', provider)
+    }
+  }
+
+  /**
+   * All agents the user can reach. A provider that fails is logged and
+   * left out rather than failing the whole catalogue.
+   */
+  async listAgents(options?: { query?: string; limit?: number }): Promise<AgentCatalogEntry[]> {
+    const providers = this.getProviders()
+    const results = await Promise.allSettled(
+      providers.map(async (provider) => {
+        const agents = await this.getService(provider).listAgents(options)
+        return Promise.all(agents.map((agent) => this.toCatalogEntry(agent)))
+      })
+    )
+
+    return results.flatMap((result, index) => {
+      if (result.status === 'fulfilled') return result.value
+      apiLogger.warn('Agent provider listing failed', {
+        provider: providers[index],
+        error: result.reason instanceof Error ? result.reason.message : 'Unknown error',
+      })
+      return []
+    })
+  }
+
+  async getAgent(provider: AgentProvider, agentId: string): Promise<AgentCatalogEntry> {
+    return this.toCatalogEntry(await this.getService(provider).getAgent(agentId))
+  }
+
+  async run(provider: AgentProvider, request: AgentRunRequest): Promise<AgentRunResult> {
+    return this.getService(provider).run(this.adaptRequest(provider, request))
+  }
+
+  /**
+   * Run an agent as a normalized event stream
+   */
+  runStream(provider: AgentProvider, request: AgentRunRequest): AsyncGenerator<AgentStreamEvent> {
+    const service = this.getService(provider)
+    const adapted = this.adaptRequest(provider, request)
+    const events = service.getCapabilities().streaming
+      ? service.runStream(adapted)
+      : streamFromRun(service.run(adapted))
+    return normalizeAgentStream(events, adapted)
+  }
+
+  /**
+   * Fill in the user and drop what the provider would reject: a provider
+   * without server threads starts a new conversation on every run
+   */
+  private adaptRequest(provider: AgentProvider, request: AgentRunRequest): AgentRunRequest {
+    const capabilities = PROVIDER_CAPABILITIES[provider]
+    return {
+      ...request,
+      threadId: capabilities.serverThreads ? request.threadId : undefined,
+      context: {
+        ...request.context,
+        user: request.context?.user ?? {
+          id: this.user.id,
+          name: this.user.name ?? undefined,
+          email: this.user.email ?? undefined,
+        },
+      },
+    }
+  }
+
+  private async toCatalogEntry(agent: AgentConfig): Promise<AgentCatalogEntry> {
+    const capabilities = PROVIDER_CAPABILITIES[agent.provider]
+
+    switch (agent.provider) {
+      case 'local':
+        return {
+          ...agent,
+          capabilities,
+          chatModelId: getAssistantModelId(agent.id),
+          canManage: await canManageAssistant(getAssistantAccess(agent), this.user.id),
+        }
+      case 'glean':
+        return { ...agent, capabilities, chatModelId: agent.model, canManage: false }
+      case 'dust':
+        return {
+          ...agent,
+          capabilities,
+          chatModelId: (this.getService('dust') as DustAgentService).getChatModelId(agent.id),
+          canManage: false,
+        }
+      default:
+        // OpenAI assistants belong to the organization's API account and are
+        // managed in its console; the chat API cannot run them
+        return { ...agent, capabilities, canManage: false }
+    }
+  }
+}
+
+export function getAgentRegistry(user: AgentRegistryUser): AgentRegistry {
+  return new AgentRegistry(user)
+}
@@ -356,6 +356,24 @@ export type AgentStreamEvent =
   | { type: 'done'; message: AgentMessage; usage?: AgentRunResult['usage'] }
   | { type: 'error'; error: string }
 
+// =============================================================================
+// Agent Catalogue
+// =============================================================================
+
+/**
+ * An agent as listed by the agent registry, with what the user can do with it
+ */
+export interface AgentCatalogEntry extends AgentConfig {
+  /** What the hosting provider supports */
+  capabilities: ProviderCapabilities
+
+  /** Model id that opens a chat with this agent, if the chat API can run it */
+  chatModelId?: string
+
+  /** Whether the user may edit or delete the agent here */
+  canManage: boolean
+}
+
 // =============================================================================
 // Agent Service Interface
 // =============================================================================
@@ -1,6 +1,7 @@
 export {
   TTSService,
   getTTSService,
+  getSpeechCost,
   TTS_VOICES,
   type TTSRequest,
   type TTSResult,
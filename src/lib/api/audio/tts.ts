@@ -30,6 +30,19 @@ export const TTS_VOICES: { id: TTSVoice; name: string; description: string }[] =
   { id: 'shimmer', name: 'Shimmer', description: 'Clear and pleasant' },
 ]
 
+// Price per 1M input characters in USD
+const TTS_PRICING: Record<TTSModel, number> = {
+  'tts-1': 15,
+  'tts-1-hd': 30,
+}
+
+/**
+ * Price of synthesizing the text with a TTS model
+ */
+export function getSpeechCost(text: string, model: TTSModel = 'tts-1'): number {
+  return (text.length / 1_000_000) * (TTS_PRICING[model] ?? TTS_PRICING['tts-1'])
+}
+
 export class TTSService {
   private client: OpenAI
 
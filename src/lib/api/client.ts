@@ -9,6 +9,8 @@ import type {
   UpdateGleanAgentInput,
   GleanDataSource,
   AIProvider,
+  TokenCountRequest,
+  TokenCountResponse,
 } from '@/types'
 import type { RequestIntent } from './routing'
 import type { GleanAgent, GleanCitation } from './glean/types'
@@ -87,6 +89,8 @@ export interface RoutingInfo {
   confidence?: number
   wasAutoRouted: boolean
   routedBy?: string
+  /** Persisted routing decision, used to submit corrections */
+  decisionId?: string
 }
 
 export class ChatClient {
@@ -114,12 +118,14 @@ export class ChatClient {
     const routedBy = response.headers.get('X-Routed-By')
     const intent = response.headers.get('X-Intent') as RequestIntent | null
     const confidence = response.headers.get('X-Intent-Confidence')
+    const decisionId = response.headers.get('X-Routing-Decision-Id')
 
     return {
       intent: intent || undefined,
       confidence: confidence ? parseFloat(confidence) : undefined,
       wasAutoRouted: routedBy !== 'explicit',
       routedBy: routedBy || undefined,
+      decisionId: decisionId || undefined,
     }
   }
 
@@ -176,6 +182,27 @@ export class ChatClient {
     }, this.retryOptions)
   }
 
+  /** Count input tokens for a prospective request */
+  async countTokens(request: TokenCountRequest, signal?: AbortSignal): Promise<TokenCountResponse> {
+    const response = await fetch(`${this.baseUrl}/api/chat/tokens`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(request),
+      signal,
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({
+        message: response.statusText,
+      }))
+      throw new Error(error.message || 'Failed to count tokens')
+    }
+
+    return response.json()
+  }
+
   async stream(
     request: Omit<ChatCompletionRequest, 'options'> & {
       options?: Omit<ChatCompletionRequest['options'], 'stream'>
@@ -187,12 +214,15 @@ export class ChatClient {
     const {
       timeout = 180000, // 3 minutes default
       chunkTimeout = 60000, // 60 seconds between chunks (Glean RAG can be slow to first byte)
+      signal,
     } = options
 
     const mergedRoutingOptions = { ...this.routingOptions, ...routingOptions }
 
-    // Create abort controller for timeout
+    // Create abort controller for timeout and caller cancellation
     const controller = new AbortController()
+    if (signal?.aborted) return
+    signal?.addEventListener('abort', () => controller.abort(), { once: true })
     let overallTimeoutId: ReturnType<typeof setTimeout> | undefined
     let chunkTimeoutId: ReturnType<typeof setTimeout> | undefined
 
@@ -240,6 +270,11 @@ export class ChatClient {
         callbacks.onRoutingInfo(routingInfo)
       }
 
+      const budgetWarning = response.headers.get('X-Budget-Warning')
+      if (budgetWarning) {
+        callbacks.onBudgetWarning?.(budgetWarning)
+      }
+
       if (!response.ok) {
         clearTimeouts()
         const statusCode = response.status
@@ -329,6 +364,11 @@ export class ChatClient {
                 clearTimeouts()
                 callbacks.onError?.(event.data.error || 'Unknown error')
                 break
+              case 'fallback':
+                if (event.data.fallback) {
+                  callbacks.onFallback?.(event.data.fallback)
+                }
+                break
             }
           }
         }
@@ -339,7 +379,7 @@ export class ChatClient {
     } catch (error) {
       clearTimeouts()
       if (error instanceof Error && error.name === 'AbortError') {
-        // Timeout was already reported via callback
+        // Timeout was already reported via callback, cancellation needs no report
         return
       }
       callbacks.onError?.(error instanceof Error ? error.message : 'Stream error')
@@ -352,6 +392,8 @@ export interface StreamOptions {
   timeout?: number
   /** Timeout between chunks in ms (default: 60000 = 60 seconds) */
   chunkTimeout?: number
+  /** Cancels the stream without reporting an error */
+  signal?: AbortSignal
 }
 
 export class ProvidersClient {
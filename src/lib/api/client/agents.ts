@@ -0,0 +1,41 @@
+/**
+ * Agent API Client
+ * Lists the agent catalogue: custom assistants and OpenAI, Glean and Dust agents
+ */
+
+import type { AgentCatalogEntry } from '@/lib/agents/types'
+
+const API_BASE = '/api/agents'
+
+// API response type, dates arrive as ISO strings
+type AgentCatalogResponse = Omit<AgentCatalogEntry, 'createdAt' | 'updatedAt'> & {
+  createdAt: string
+  updatedAt: string
+}
+
+function mapAgentResponse(data: AgentCatalogResponse): AgentCatalogEntry {
+  return {
+    ...data,
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt),
+  }
+}
+
+class AgentApiClient {
+  /**
+   * Get every agent the current user can reach
+   */
+  async getAgents(): Promise<AgentCatalogEntry[]> {
+    const response = await fetch(API_BASE)
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to fetch agents')
+    }
+
+    const { data } = await response.json()
+    return (data as AgentCatalogResponse[]).map(mapAgentResponse)
+  }
+}
+
+export const agentApi = new AgentApiClient()
@@ -0,0 +1,89 @@
+/**
+ * API Key Client
+ * Handles API key management calls for the settings page
+ */
+
+import type { ApiKey, CreatedApiKey } from '@/types'
+
+const API_BASE = '/api/api-keys'
+
+// API response type from the database
+interface ApiKeyApiResponse {
+  id: string
+  name: string
+  prefix: string
+  workspaceId?: string | null
+  lastUsedAt?: string | null
+  expiresAt?: string | null
+  createdAt: string
+}
+
+function mapApiKeyResponse(data: ApiKeyApiResponse): ApiKey {
+  return {
+    id: data.id,
+    name: data.name,
+    prefix: data.prefix,
+    workspaceId: data.workspaceId || undefined,
+    lastUsedAt: data.lastUsedAt ? new Date(data.lastUsedAt) : undefined,
+    expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
+    createdAt: new Date(data.createdAt),
+  }
+}
+
+export interface CreateApiKeyInput {
+  name: string
+  workspaceId?: string
+  expiresAt?: Date
+}
+
+class ApiKeyApiClient {
+  /**
+   * Get the current user's API keys
+   */
+  async getApiKeys(): Promise<ApiKey[]> {
+    const response = await fetch(API_BASE)
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to fetch API keys')
+    }
+
+    const { data } = await response.json()
+    return (data as ApiKeyApiResponse[]).map(mapApiKeyResponse)
+  }
+
+  /**
+   * Create an API key. The secret is only returned by this call.
+   */
+  async createApiKey(input: CreateApiKeyInput): Promise<CreatedApiKey> {
+    const response = await fetch(API_BASE, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to create API key')
+    }
+
+    const { data } = await response.json()
+    return { ...mapApiKeyResponse(data as ApiKeyApiResponse), secret: data.secret }
+  }
+
+  /**
+   * Revoke an API key
+   */
+  async revokeApiKey(keyId: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/${keyId}`, {
+      method: 'DELETE',
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to revoke API key')
+    }
+  }
+}
+
+export const apiKeyApi = new ApiKeyApiClient()
@@ -0,0 +1,143 @@
+/**
+ * Assistant API Client
+ * Manages custom assistants for the Agents page and model picker
+ */
+
+import { toolRegistry } from '@/lib/tools'
+import { getAssistantScope } from '@/lib/agents/assistants'
+import type { Assistant, AssistantInput, AssistantParameters } from '@/types'
+
+const API_BASE = '/api/assistants'
+
+// API response type, an agent configuration from the local agent service
+interface AssistantApiResponse {
+  id: string
+  name: string
+  description?: string
+  instructions: string
+  model: string
+  parameters?: AssistantParameters
+  tools?: { name: string }[]
+  dataSources?: { id: string; type: string; name: string }[]
+  metadata: { ownerId: string; workspaceId: string | null; projectId: string | null }
+  canManage: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+function mapAssistantResponse(data: AssistantApiResponse): Assistant {
+  const knowledgeBase = data.dataSources?.find((source) => source.type === 'knowledge_base')
+  return {
+    id: data.id,
+    name: data.name,
+    description: data.description || undefined,
+    instructions: data.instructions,
+    model: data.model,
+    parameters: data.parameters ?? {},
+    tools: (data.tools ?? []).map((tool) => tool.name),
+    knowledgeBase: knowledgeBase ? { id: knowledgeBase.id, name: knowledgeBase.name } : undefined,
+    scope: getAssistantScope(data.metadata),
+    ownerId: data.metadata.ownerId,
+    workspaceId: data.metadata.workspaceId || undefined,
+    projectId: data.metadata.projectId || undefined,
+    canManage: data.canManage,
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt),
+  }
+}
+
+/**
+ * Request body for an assistant: tool names become full tool definitions
+ * and the knowledge base a data source
+ */
+function toRequestBody(input: Partial<AssistantInput>) {
+  const { tools, knowledgeBase, ...rest } = input
+  return {
+    ...rest,
+    ...(tools && {
+      tools: tools.map((name) => {
+        const tool = toolRegistry.getTool(name)
+        return {
+          name,
+          description: tool?.description ?? '',
+          type: 'function',
+          parameters: tool?.parameters,
+        }
+      }),
+    }),
+    ...(knowledgeBase !== undefined && {
+      dataSources: knowledgeBase ? [{ ...knowledgeBase, type: 'knowledge_base' }] : [],
+    }),
+  }
+}
+
+class AssistantApiClient {
+  /**
+   * Get the custom assistants the current user can use
+   */
+  async getAssistants(): Promise<Assistant[]> {
+    const response = await fetch(API_BASE)
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to fetch assistants')
+    }
+
+    const { data } = await response.json()
+    return (data as AssistantApiResponse[]).map(mapAssistantResponse)
+  }
+
+  /**
+   * Create a custom assistant
+   */
+  async createAssistant(input: AssistantInput): Promise<Assistant> {
+    const response = await fetch(API_BASE, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toRequestBody(input)),
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to create assistant')
+    }
+
+    const { data } = await response.json()
+    return mapAssistantResponse(data as AssistantApiResponse)
+  }
+
+  /**
+   * Update a custom assistant
+   */
+  async updateAssistant(id: string, input: Partial<AssistantInput>): Promise<Assistant> {
+    const response = await fetch(`${API_BASE}/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(toRequestBody(input)),
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to update assistant')
+    }
+
+    const { data } = await response.json()
+    return mapAssistantResponse(data as AssistantApiResponse)
+  }
+
+  /**
+   * Delete a custom assistant. Its conversations are kept.
+   */
+  async deleteAssistant(id: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/${id}`, {
+      method: 'DELETE',
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to delete assistant')
+    }
+  }
+}
+
+export const assistantApi = new AssistantApiClient()
@@ -3,7 +3,16 @@
  * Handles all conversation-related API calls
  */
 
-import type { Conversation, Message } from '@/types'
+import type {
+  Conversation,
+  ConversationExportFormat,
+  ConversationImportResult,
+  ConversationSearchFilters,
+  ConversationSearchMode,
+  ConversationSearchSort,
+  Message,
+  SearchHighlight,
+} from '@/types'
 
 const API_BASE = '/api/conversations'
 
@@ -86,6 +95,13 @@ export interface CreateMessageInput {
   metadata?: Record<string, unknown>
 }
 
+export interface ImportConversationsInput {
+  file: File
+  projectId?: string | null
+  folderId?: string | null
+  workspaceId?: string | null // null = Personal space
+}
+
 export interface ConversationWithMessages extends Conversation {
   messages: Message[]
 }
@@ -99,12 +115,22 @@ export interface MessageSnippet {
   id: string
   role: string
   snippet: string
+  highlights: SearchHighlight[]
   createdAt: string
 }
 
 export interface SearchResultItem {
   conversation: Conversation
   matchingMessages: MessageSnippet[]
+  matchCount: number
+  titleHighlights: SearchHighlight[]
+}
+
+export interface SearchResultsPage {
+  results: SearchResultItem[]
+  total: number
+  offset: number
+  limit: number
 }
 
 class ConversationApiClient {
@@ -193,7 +219,8 @@ class ConversationApiClient {
   }
 
   /**
-   * Search conversations in a workspace — returns conversations with matching message snippets
+   * Search conversations in a workspace — returns a page of ranked conversations
+   * with highlighted message snippets
    */
   async searchConversations(
     userId: string,
@@ -203,15 +230,31 @@ class ConversationApiClient {
       projectId?: string
       folderId?: string
       includeArchived?: boolean
+      filters?: ConversationSearchFilters
+      sort?: ConversationSearchSort
+      mode?: ConversationSearchMode
       limit?: number
+      offset?: number
     }
-  ): Promise<SearchResultItem[]> {
+  ): Promise<SearchResultsPage> {
     const params = new URLSearchParams({ userId, search: query })
     params.set('workspaceId', workspaceId === null ? 'null' : workspaceId)
     if (options?.projectId) params.set('projectId', options.projectId)
     if (options?.folderId) params.set('folderId', options.folderId)
     if (options?.includeArchived) params.set('archived', 'true')
+    if (options?.sort) params.set('sort', options.sort)
+    if (options?.mode) params.set('mode', options.mode)
     if (options?.limit) params.set('limit', options.limit.toString())
+    if (options?.offset) params.set('offset', options.offset.toString())
+
+    const filters = options?.filters
+    if (filters?.modelId) params.set('model', filters.modelId)
+    if (filters?.provider) params.set('provider', filters.provider)
+    if (filters?.role) params.set('role', filters.role)
+    if (filters?.from) params.set('from', filters.from.toISOString())
+    if (filters?.to) params.set('to', filters.to.toISOString())
+    if (filters?.hasAttachments) params.set('hasAttachments', 'true')
+    if (filters?.hasToolCalls) params.set('hasToolCalls', 'true')
 
     const response = await fetch(`${API_BASE}?${params}`)
 
@@ -221,10 +264,18 @@ class ConversationApiClient {
     }
 
     const { data } = await response.json()
-    return (data as { conversation: ConversationApiResponse; matchingMessages: MessageSnippet[] }[]).map((item) => ({
-      conversation: mapApiResponse(item.conversation),
-      matchingMessages: item.matchingMessages,
-    }))
+    const page = data as Omit<SearchResultsPage, 'results'> & {
+      results: (Omit<SearchResultItem, 'conversation'> & { conversation: ConversationApiResponse })[]
+    }
+    return {
+      ...page,
+      results: page.results.map((item) => ({
+        conversation: mapApiResponse(item.conversation),
+        matchingMessages: item.matchingMessages,
+        matchCount: item.matchCount,
+        titleHighlights: item.titleHighlights,
+      })),
+    }
   }
 
   /**
@@ -390,6 +441,48 @@ class ConversationApiClient {
     return branches.map(mapApiResponse)
   }
 
+  // ============================================================================
+  // Export / Import
+  // ============================================================================
+
+  /**
+   * Download URL for a conversation export. With print the HTML opens inline
+   * and shows the print dialog, for saving as PDF.
+   */
+  getExportUrl(
+    conversationId: string,
+    format: ConversationExportFormat,
+    options?: { print?: boolean }
+  ): string {
+    const params = new URLSearchParams({ format })
+    if (options?.print) params.set('print', 'true')
+    return `${API_BASE}/${conversationId}/export?${params}`
+  }
+
+  /**
+   * Import a ChatGPT or Claude export archive, or an Ondo AI JSON export
+   */
+  async importConversations(input: ImportConversationsInput): Promise<ConversationImportResult> {
+    const form = new FormData()
+    form.set('file', input.file)
+    if (input.projectId) form.set('projectId', input.projectId)
+    if (input.folderId) form.set('folderId', input.folderId)
+    form.set('workspaceId', input.workspaceId ?? 'null')
+
+    const response = await fetch(`${API_BASE}/import`, {
+      method: 'POST',
+      body: form,
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to import conversations')
+    }
+
+    const { data } = await response.json()
+    return data
+  }
+
   // ============================================================================
   // Messages
   // ============================================================================
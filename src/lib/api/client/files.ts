@@ -0,0 +1,65 @@
+/**
+ * File API Client
+ * Uploads chat attachments for server-side text extraction
+ */
+
+import type { FileType } from '@/types'
+
+const API_BASE = '/api/files'
+
+export interface UploadedFile {
+  id: string
+  name: string
+  mimeType: string
+  fileType: FileType
+  size: number
+  content: string
+  pageCount?: number
+  truncated: boolean
+  totalChars: number
+}
+
+// API response type from the database
+interface UploadedFileApiResponse extends Omit<UploadedFile, 'fileType' | 'pageCount'> {
+  fileType: string
+  pageCount: number | null
+}
+
+function mapUploadedFileResponse(data: UploadedFileApiResponse): UploadedFile {
+  return {
+    id: data.id,
+    name: data.name,
+    mimeType: data.mimeType,
+    fileType: data.fileType as FileType,
+    size: data.size,
+    content: data.content,
+    pageCount: data.pageCount ?? undefined,
+    truncated: data.truncated,
+    totalChars: data.totalChars,
+  }
+}
+
+class FileApiClient {
+  /**
+   * Upload a file and return its extracted text
+   */
+  async uploadFile(file: File): Promise<UploadedFile> {
+    const formData = new FormData()
+    formData.append('file', file)
+
+    const response = await fetch(API_BASE, {
+      method: 'POST',
+      body: formData,
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to upload file')
+    }
+
+    const { data } = await response.json()
+    return mapUploadedFileResponse(data as UploadedFileApiResponse)
+  }
+}
+
+export const fileApi = new FileApiClient()
@@ -0,0 +1,124 @@
+/**
+ * MCP API Client
+ * Manages a workspace's MCP servers and reads the tools they offer
+ */
+
+import type { McpCatalog, McpServer, McpServerInput, McpServerStatus } from '@/types'
+
+// API response types, dates as ISO strings
+type McpServerApiResponse = Omit<McpServer, 'createdAt' | 'updatedAt'> & {
+  createdAt: string
+  updatedAt: string
+}
+
+interface McpCatalogApiResponse {
+  servers: (Omit<McpServerStatus, 'checkedAt'> & { checkedAt: string })[]
+  tools: McpCatalog['tools']
+}
+
+function mapServerResponse(data: McpServerApiResponse): McpServer {
+  return {
+    ...data,
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt),
+  }
+}
+
+function getBase(workspaceId: string): string {
+  return `/api/workspaces/${workspaceId}`
+}
+
+class McpApiClient {
+  /**
+   * Get a workspace's MCP servers; credentials are never returned
+   */
+  async getServers(workspaceId: string): Promise<McpServer[]> {
+    const response = await fetch(`${getBase(workspaceId)}/mcp-servers`)
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to fetch MCP servers')
+    }
+
+    const { data } = await response.json()
+    return (data as McpServerApiResponse[]).map(mapServerResponse)
+  }
+
+  /**
+   * Add an MCP server to a workspace (admins only)
+   */
+  async createServer(workspaceId: string, input: McpServerInput): Promise<McpServer> {
+    const response = await fetch(`${getBase(workspaceId)}/mcp-servers`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to add MCP server')
+    }
+
+    const { data } = await response.json()
+    return mapServerResponse(data as McpServerApiResponse)
+  }
+
+  /**
+   * Update an MCP server (admins only); credentials left out are kept
+   */
+  async updateServer(
+    workspaceId: string,
+    serverId: string,
+    input: Partial<McpServerInput>
+  ): Promise<McpServer> {
+    const response = await fetch(`${getBase(workspaceId)}/mcp-servers/${serverId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to update MCP server')
+    }
+
+    const { data } = await response.json()
+    return mapServerResponse(data as McpServerApiResponse)
+  }
+
+  /**
+   * Remove an MCP server (admins only)
+   */
+  async deleteServer(workspaceId: string, serverId: string): Promise<void> {
+    const response = await fetch(`${getBase(workspaceId)}/mcp-servers/${serverId}`, {
+      method: 'DELETE',
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to remove MCP server')
+    }
+  }
+
+  /**
+   * Get the health of a workspace's MCP servers and the tools they offer.
+   * With `refresh`, every server is contacted again.
+   */
+  async getCatalog(workspaceId: string, refresh = false): Promise<McpCatalog> {
+    const response = await fetch(`${getBase(workspaceId)}/mcp-tools${refresh ? '?refresh=true' : ''}`)
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to fetch MCP tools')
+    }
+
+    const { data } = await response.json()
+    const catalog = data as McpCatalogApiResponse
+    return {
+      servers: catalog.servers.map((server) => ({ ...server, checkedAt: new Date(server.checkedAt) })),
+      tools: catalog.tools,
+    }
+  }
+}
+
+export const mcpApi = new McpApiClient()
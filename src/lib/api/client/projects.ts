@@ -3,7 +3,7 @@
  * Handles all project-related API calls
  */
 
-import type { Project } from '@/types'
+import type { FileType, Project, ProjectDocument, ProjectDocumentStatus, ProjectSettings } from '@/types'
 import { PROJECT_COLORS } from '@/types'
 
 const API_BASE = '/api/projects'
@@ -23,12 +23,52 @@ interface ProjectApiResponse {
   color?: string | null
   icon?: string | null
   archived?: boolean
+  settings?: string | null // JSON-encoded ProjectSettings
   createdAt: string
   updatedAt: string
   conversationCount?: number
   folderCount?: number
 }
 
+function parseSettings(settings?: string | null): ProjectSettings | undefined {
+  if (!settings) return undefined
+  try {
+    return JSON.parse(settings) as ProjectSettings
+  } catch {
+    return undefined
+  }
+}
+
+interface ProjectDocumentApiResponse {
+  id: string
+  projectId: string
+  name: string
+  mimeType: string
+  fileType: string
+  size: number
+  status: string
+  error?: string | null
+  chunkCount: number
+  uploadedBy?: { name: string | null; email: string }
+  createdAt: string
+}
+
+function mapDocumentResponse(data: ProjectDocumentApiResponse): ProjectDocument {
+  return {
+    id: data.id,
+    projectId: data.projectId,
+    name: data.name,
+    mimeType: data.mimeType,
+    fileType: data.fileType as FileType,
+    size: data.size,
+    status: data.status as ProjectDocumentStatus,
+    error: data.error || undefined,
+    chunkCount: data.chunkCount,
+    uploadedBy: data.uploadedBy ? data.uploadedBy.name || data.uploadedBy.email : undefined,
+    createdAt: new Date(data.createdAt),
+  }
+}
+
 // Map API response to frontend Project type
 function mapApiResponse(data: ProjectApiResponse): ProjectWithStats {
   return {
@@ -39,6 +79,7 @@ function mapApiResponse(data: ProjectApiResponse): ProjectWithStats {
     icon: data.icon || undefined,
     workspaceId: data.workspaceId ?? undefined, // null -> undefined for frontend
     userId: data.ownerId, // Map ownerId -> userId
+    settings: parseSettings(data.settings),
     conversationCount: data.conversationCount || 0,
     folderCount: data.folderCount || 0,
     createdAt: new Date(data.createdAt),
@@ -61,6 +102,7 @@ export interface UpdateProjectInput {
   color?: string
   icon?: string
   archived?: boolean
+  settings?: ProjectSettings
 }
 
 class ProjectApiClient {
@@ -296,6 +338,61 @@ class ProjectApiClient {
       throw new Error(error.error || 'Failed to delete project')
     }
   }
+
+  // ============================================================================
+  // Knowledge Base
+  // ============================================================================
+
+  /**
+   * Get the documents in a project's knowledge base
+   */
+  async getDocuments(projectId: string): Promise<ProjectDocument[]> {
+    const response = await fetch(`${API_BASE}/${projectId}/documents`)
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to fetch documents')
+    }
+
+    const { data } = await response.json()
+    return (data as ProjectDocumentApiResponse[]).map(mapDocumentResponse)
+  }
+
+  /**
+   * Upload a document to a project's knowledge base. The document is
+   * indexed before this resolves; check its status for the outcome.
+   */
+  async uploadDocument(projectId: string, file: File): Promise<ProjectDocument> {
+    const form = new FormData()
+    form.set('file', file)
+
+    const response = await fetch(`${API_BASE}/${projectId}/documents`, {
+      method: 'POST',
+      body: form,
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to upload document')
+    }
+
+    const { data } = await response.json()
+    return mapDocumentResponse(data as ProjectDocumentApiResponse)
+  }
+
+  /**
+   * Remove a document from a project's knowledge base
+   */
+  async deleteDocument(projectId: string, documentId: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/${projectId}/documents/${documentId}`, {
+      method: 'DELETE',
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to delete document')
+    }
+  }
 }
 
 export const projectApi = new ProjectApiClient()
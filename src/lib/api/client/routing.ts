@@ -0,0 +1,33 @@
+/**
+ * Routing API Client
+ * Handles routing telemetry feedback
+ */
+
+import type { AIProvider } from '@/types'
+import type { RequestIntent } from '@/lib/api/routing'
+
+const API_BASE = '/api/routing'
+
+class RoutingApiClient {
+  /**
+   * Record that a routed request should have gone to a different intent/provider
+   */
+  async submitCorrection(
+    decisionId: string,
+    intent: RequestIntent,
+    provider?: AIProvider
+  ): Promise<void> {
+    const response = await fetch(`${API_BASE}/decisions/${decisionId}/correction`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ intent, provider }),
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to submit routing correction')
+    }
+  }
+}
+
+export const routingApi = new RoutingApiClient()
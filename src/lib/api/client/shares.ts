@@ -0,0 +1,134 @@
+/**
+ * Share API Client
+ * Handles read-only share links for conversations
+ */
+
+import type { ConversationShare, CreateShareInput, Message, SharedConversation } from '@/types'
+
+const API_BASE = '/api/conversations'
+const SHARE_API_BASE = '/api/share'
+
+// API response type from the database
+interface ShareApiResponse {
+  id: string
+  conversationId: string
+  token: string
+  expiresAt?: string | null
+  viewCount: number
+  lastViewedAt?: string | null
+  createdAt: string
+}
+
+interface SharedMessageApiResponse extends Omit<Message, 'createdAt'> {
+  createdAt: string
+}
+
+function mapShareResponse(data: ShareApiResponse): ConversationShare {
+  return {
+    id: data.id,
+    conversationId: data.conversationId,
+    token: data.token,
+    url: `${window.location.origin}/share/${data.token}`,
+    expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
+    viewCount: data.viewCount,
+    lastViewedAt: data.lastViewedAt ? new Date(data.lastViewedAt) : undefined,
+    createdAt: new Date(data.createdAt),
+  }
+}
+
+class ShareApiClient {
+  /**
+   * Get the active share links for a conversation
+   */
+  async getShares(conversationId: string): Promise<ConversationShare[]> {
+    const response = await fetch(`${API_BASE}/${conversationId}/shares`)
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to fetch share links')
+    }
+
+    const { data } = await response.json()
+    return (data as ShareApiResponse[]).map(mapShareResponse)
+  }
+
+  /**
+   * Create a share link
+   */
+  async createShare(input: CreateShareInput): Promise<ConversationShare> {
+    const response = await fetch(`${API_BASE}/${input.conversationId}/shares`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ expiresInDays: input.expiresInDays }),
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to create share link')
+    }
+
+    const { data } = await response.json()
+    return mapShareResponse(data as ShareApiResponse)
+  }
+
+  /**
+   * Revoke a share link
+   */
+  async revokeShare(conversationId: string, shareId: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/${conversationId}/shares/${shareId}`, {
+      method: 'DELETE',
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to revoke share link')
+    }
+  }
+
+  /**
+   * Get a shared conversation by its link token (no login required)
+   */
+  async getSharedConversation(token: string): Promise<SharedConversation> {
+    const response = await fetch(`${SHARE_API_BASE}/${token}`)
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to fetch shared conversation')
+    }
+
+    const { data } = await response.json()
+    return {
+      title: data.title,
+      modelId: data.modelId,
+      sharedBy: data.sharedBy,
+      sharedAt: new Date(data.sharedAt),
+      expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
+      messages: (data.messages as SharedMessageApiResponse[]).map((message) => ({
+        ...message,
+        createdAt: new Date(message.createdAt),
+      })),
+    }
+  }
+
+  /**
+   * Copy a shared conversation into the current user's workspace.
+   * Returns the ID of the new conversation.
+   */
+  async forkSharedConversation(token: string, workspaceId: string | null): Promise<string> {
+    const response = await fetch(`${SHARE_API_BASE}/${token}/fork`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ workspaceId }),
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to fork conversation')
+    }
+
+    const { data } = await response.json()
+    return data.id
+  }
+}
+
+export const shareApi = new ShareApiClient()
@@ -0,0 +1,51 @@
+/**
+ * Usage Client
+ * Fetches usage reports and CSV exports for the usage dashboard
+ */
+
+import type { UsageQuery, UsageReport } from '@/types'
+
+const API_BASE = '/api/usage'
+
+/**
+ * Serialize a usage query to URL search params, omitting unset fields
+ */
+export function toUsageSearchParams(query: UsageQuery): Record<string, string> {
+  const params: Record<string, string> = {}
+  if (query.from) params.from = query.from.toISOString()
+  if (query.to) params.to = query.to.toISOString()
+  if (query.interval) params.interval = query.interval
+  if (query.workspaceId) params.workspaceId = query.workspaceId
+  if (query.projectId) params.projectId = query.projectId
+  if (query.userId) params.userId = query.userId
+  if (query.all) params.all = 'true'
+  return params
+}
+
+class UsageApiClient {
+  /**
+   * Get totals, timeseries and breakdowns for a date range
+   */
+  async getReport(query: UsageQuery): Promise<UsageReport> {
+    const params = new URLSearchParams(toUsageSearchParams(query))
+    const response = await fetch(`${API_BASE}?${params}`)
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to fetch usage')
+    }
+
+    const { data } = await response.json()
+    return data as UsageReport
+  }
+
+  /**
+   * URL that downloads the raw usage records as CSV
+   */
+  getExportUrl(query: UsageQuery): string {
+    const params = new URLSearchParams(toUsageSearchParams(query))
+    return `${API_BASE}/export?${params}`
+  }
+}
+
+export const usageApi = new UsageApiClient()
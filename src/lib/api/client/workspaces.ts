@@ -3,7 +3,7 @@
  * Handles all workspace-related API calls
  */
 
-import type { Workspace, WorkspaceMember, WorkspaceRole, User } from '@/types'
+import type { ToolPolicies, Workspace, WorkspaceBudgetPolicy, WorkspaceMember, WorkspaceRole, User } from '@/types'
 
 const API_BASE = '/api/workspaces'
 const USERS_API_BASE = '/api/users'
@@ -39,8 +39,20 @@ interface MemberApiResponse {
   }
 }
 
+function parseSettings(
+  settings?: string | null
+): { budgets?: WorkspaceBudgetPolicy; toolPolicies?: ToolPolicies } {
+  if (!settings) return {}
+  try {
+    return JSON.parse(settings)
+  } catch {
+    return {}
+  }
+}
+
 // Map API response to frontend Workspace type
 function mapWorkspaceResponse(data: WorkspaceApiResponse): Workspace {
+  const settings = parseSettings(data.settings)
   return {
     id: data.id,
     name: data.name,
@@ -48,6 +60,8 @@ function mapWorkspaceResponse(data: WorkspaceApiResponse): Workspace {
     slug: data.slug,
     ownerId: data.ownerId,
     memberCount: data._count?.members || 1,
+    budgets: settings.budgets,
+    toolPolicies: settings.toolPolicies,
     createdAt: new Date(data.createdAt),
     updatedAt: new Date(data.updatedAt),
   }
@@ -89,6 +103,8 @@ export interface UpdateWorkspaceInput {
     defaultModel?: string
     allowedProviders?: string[]
     features?: Record<string, boolean>
+    budgets?: WorkspaceBudgetPolicy
+    toolPolicies?: ToolPolicies
   }
 }
 
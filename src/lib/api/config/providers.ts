@@ -27,6 +27,11 @@ export const providerInfo: Record<AIProvider, Omit<ProviderInfo, 'isConfigured'
     name: 'OndoBot',
     description: 'Internal Ondo AI assistant',
   },
+  local: {
+    provider: 'local',
+    name: 'Local',
+    description: 'Self-hosted OpenAI-compatible server (Ollama, vLLM, LM Studio, llama.cpp)',
+  },
 }
 
 // Model configurations
@@ -67,6 +72,7 @@ export const modelConfigs: ModelConfig[] = [
     pricing: {
       inputPer1M: 5,
       outputPer1M: 15,
+      cacheReadPer1M: 2.5,
     },
     isEnabled: true,
     isDefault: true,
@@ -87,6 +93,7 @@ export const modelConfigs: ModelConfig[] = [
     pricing: {
       inputPer1M: 0.15,
       outputPer1M: 0.6,
+      cacheReadPer1M: 0.075,
     },
     isEnabled: true,
   },
@@ -126,6 +133,8 @@ export const modelConfigs: ModelConfig[] = [
     pricing: {
       inputPer1M: 3,
       outputPer1M: 15,
+      cacheReadPer1M: 0.3,
+      cacheWritePer1M: 3.75,
     },
     isEnabled: true,
     isDefault: true,
@@ -146,6 +155,8 @@ export const modelConfigs: ModelConfig[] = [
     pricing: {
       inputPer1M: 15,
       outputPer1M: 75,
+      cacheReadPer1M: 1.5,
+      cacheWritePer1M: 18.75,
     },
     isEnabled: true,
   },
@@ -165,6 +176,8 @@ export const modelConfigs: ModelConfig[] = [
     pricing: {
       inputPer1M: 0.8,
       outputPer1M: 4,
+      cacheReadPer1M: 0.08,
+      cacheWritePer1M: 1,
     },
     isEnabled: true,
   },
@@ -218,8 +231,23 @@ export const modelConfigs: ModelConfig[] = [
   },
 ]
 
+// Default fallback chains: models tried in order when the primary model's provider fails.
+// Override with PROVIDER_FALLBACK_CHAINS (JSON object of model ID -> model IDs).
+export const defaultFallbackChains: Record<string, string[]> = {
+  'claude-sonnet-4-20250514': ['gpt-4o', 'claude-3-5-haiku-20241022'],
+  'claude-opus-4-20250514': ['claude-sonnet-4-20250514', 'gpt-4o'],
+  'claude-3-5-haiku-20241022': ['gpt-4o-mini'],
+  'gpt-4-turbo': ['gpt-4o', 'claude-sonnet-4-20250514'],
+  'gpt-4o': ['claude-sonnet-4-20250514', 'gpt-4o-mini'],
+  'gpt-4o-mini': ['claude-3-5-haiku-20241022'],
+  'gpt-3.5-turbo': ['gpt-4o-mini', 'claude-3-5-haiku-20241022'],
+}
+
 // Environment variable mapping
-export const providerEnvVars: Record<AIProvider, { apiKey: string; apiUrl?: string; enableFlag: string }> = {
+export const providerEnvVars: Record<
+  AIProvider,
+  { apiKey: string; apiUrl?: string; enableFlag: string; requiresApiKey?: boolean }
+> = {
   openai: {
     apiKey: 'OPENAI_API_KEY',
     enableFlag: 'ENABLE_OPENAI',
@@ -243,15 +271,39 @@ export const providerEnvVars: Record<AIProvider, { apiKey: string; apiUrl?: stri
     apiUrl: 'ONDOBOT_API_URL',
     enableFlag: 'ENABLE_ONDOBOT',
   },
+  local: {
+    apiKey: 'LOCAL_LLM_API_KEY',
+    apiUrl: 'LOCAL_LLM_API_URL',
+    enableFlag: 'ENABLE_LOCAL_LLM',
+    // Most local servers accept any key; the server URL is what configures it
+    requiresApiKey: false,
+  },
+}
+
+// Models discovered at runtime (e.g. from a local server's /v1/models), keyed by provider
+const dynamicModelConfigs: Partial<Record<AIProvider, ModelConfig[]>> = {}
+
+/**
+ * Replace the runtime-discovered models for a provider
+ */
+export function registerDynamicModels(provider: AIProvider, models: ModelConfig[]): void {
+  dynamicModelConfigs[provider] = models
+}
+
+/**
+ * Static catalog plus all runtime-discovered models
+ */
+export function getAllModelConfigs(): ModelConfig[] {
+  return [...modelConfigs, ...Object.values(dynamicModelConfigs).flat()]
 }
 
 // Helper functions
 export function getModelConfig(modelId: string): ModelConfig | undefined {
-  return modelConfigs.find((m) => m.id === modelId)
+  return getAllModelConfigs().find((m) => m.id === modelId)
 }
 
 export function getModelsByProvider(provider: AIProvider): ModelConfig[] {
-  return modelConfigs.filter((m) => m.provider === provider && m.isEnabled)
+  return getAllModelConfigs().filter((m) => m.provider === provider && m.isEnabled)
 }
 
 export function getDefaultModelForProvider(provider: AIProvider): ModelConfig | undefined {
@@ -266,7 +318,10 @@ export function isProviderEnabled(provider: AIProvider): boolean {
 }
 
 export function isProviderConfigured(provider: AIProvider): boolean {
-  const { apiKey } = providerEnvVars[provider]
+  const { apiKey, apiUrl, requiresApiKey = true } = providerEnvVars[provider]
+  if (!requiresApiKey) {
+    return !!(apiUrl && process.env[apiUrl])
+  }
   return !!process.env[apiKey]
 }
 
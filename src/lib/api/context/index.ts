@@ -0,0 +1,367 @@
+/**
+ * Context Window Management
+ *
+ * Keeps chat requests within the model's context window. Clients send the
+ * full conversation history; when it no longer fits, stale tool outputs and
+ * file contents are compacted first, then the configured strategy decides
+ * what happens to the older turns:
+ *
+ * - summarize: older turns are replaced by a rolling summary in the system
+ *   prompt. The summary is returned for persistence and extended
+ *   incrementally on later requests instead of being regenerated.
+ * - truncate: the oldest turns are dropped.
+ * - sliding_window: only the most recent turns are ever sent.
+ */
+
+import { createHash } from 'crypto'
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatCompletionMessage,
+  ContextStrategy,
+  TokenCountRequest,
+} from '@/types'
+import { getProviderForModel } from '@/lib/api/providers'
+import { getModelConfig } from '@/lib/api/config/providers'
+import { estimateTokens, getMessageText } from '@/lib/api/utils/tokens'
+import type { ConversationContextSummary } from '@/lib/db/services/conversation'
+import { chatLogger } from '@/lib/logging'
+
+export type ContextReduction = 'window' | 'compact' | 'summarize' | 'truncate'
+
+export interface ContextManagerOptions {
+  strategy: ContextStrategy
+  /** Summary persisted on the conversation by a previous request */
+  summary?: ConversationContextSummary | null
+  /** Model used to write summaries (defaults to the request's model) */
+  summaryModel?: string
+  /** Turns kept by the sliding_window strategy */
+  windowTurns?: number
+  /** Called after each summarizer completion, for usage metering */
+  onCompletion?: (response: ChatCompletionResponse) => void
+}
+
+export interface ContextConfig {
+  strategy: ContextStrategy
+  summaryModel?: string
+  windowTurns: number
+}
+
+export interface ManagedContext {
+  request: ChatCompletionRequest
+  /** Input tokens of the managed request, when the model's window is known */
+  inputTokens?: number
+  /** Reductions applied to the request, in order */
+  applied: ContextReduction[]
+  /** New or extended summary that should be persisted on the conversation */
+  summary?: ConversationContextSummary
+}
+
+// Share of the remaining window the request may use, leaving room for
+// tokenizer differences between the count and the provider
+const BUDGET_RATIO = 0.9
+// Share of the budget kept verbatim when older turns are summarized
+const RECENT_TURNS_RATIO = 0.5
+// Turns at the end of the conversation that are never compacted
+const INTACT_TURNS = 2
+const DEFAULT_WINDOW_TURNS = 20
+const TOOL_OUTPUT_MAX_CHARS = 500
+const SUMMARY_MAX_TOKENS = 1024
+
+const SUMMARY_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant.
+Write a concise summary that preserves everything needed to continue the conversation: the user's goals and preferences, decisions made, facts and figures established, code or documents being worked on, and open questions.
+If an existing summary is provided, update it with the new messages instead of starting over.
+Respond with the summary only.`
+
+const ROLE_LABELS: Record<ChatCompletionMessage['role'], string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  system: 'System',
+  tool: 'Tool result',
+}
+
+type Turn = ChatCompletionMessage[]
+
+const CONTEXT_STRATEGIES: ContextStrategy[] = ['summarize', 'truncate', 'sliding_window']
+
+/**
+ * Deployment defaults; projects can override the strategy in their settings
+ */
+export function getContextConfig(): ContextConfig {
+  const strategy = process.env.CONTEXT_STRATEGY as ContextStrategy | undefined
+  const windowTurns = parseInt(process.env.CONTEXT_WINDOW_TURNS || '', 10)
+
+  return {
+    strategy: strategy && CONTEXT_STRATEGIES.includes(strategy) ? strategy : 'summarize',
+    summaryModel: process.env.CONTEXT_SUMMARY_MODEL || undefined,
+    windowTurns: isNaN(windowTurns) || windowTurns < 1 ? DEFAULT_WINDOW_TURNS : windowTurns,
+  }
+}
+
+/**
+ * Group messages into turns, each starting at a user message, so tool calls
+ * and their results are always kept or dropped together
+ */
+function splitTurns(messages: ChatCompletionMessage[]): Turn[] {
+  const turns: Turn[] = []
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message])
+    } else {
+      turns[turns.length - 1].push(message)
+    }
+  }
+  return turns
+}
+
+function appendNote(message: ChatCompletionMessage, note: string): ChatCompletionMessage {
+  if (typeof message.content === 'string') {
+    return { ...message, content: message.content ? `${message.content}\n\n${note}` : note }
+  }
+  return { ...message, content: [...message.content, { type: 'text', text: note }] }
+}
+
+/**
+ * Shorten tool outputs and drop file contents that the model has already seen
+ */
+function compactMessage(message: ChatCompletionMessage): ChatCompletionMessage {
+  if (
+    message.role === 'tool' &&
+    typeof message.content === 'string' &&
+    message.content.length > TOOL_OUTPUT_MAX_CHARS
+  ) {
+    return {
+      ...message,
+      content: `${message.content.slice(0, TOOL_OUTPUT_MAX_CHARS)}\n[Tool output truncated to save context]`,
+    }
+  }
+
+  const files = message.files?.filter((f) => f.content && f.status === 'ready') ?? []
+  if (files.length > 0) {
+    const names = files.map((f) => `"${f.name}"`).join(', ')
+    return appendNote(
+      { ...message, files: undefined },
+      `[Contents of attached ${files.length === 1 ? 'file' : 'files'} ${names} omitted to save context]`
+    )
+  }
+
+  return message
+}
+
+function hashMessages(messages: ChatCompletionMessage[]): string {
+  const hash = createHash('sha256')
+  for (const message of messages) {
+    hash.update(`${message.role}\0${getMessageText(message)}\0`)
+  }
+  return hash.digest('hex')
+}
+
+function formatTranscript(messages: ChatCompletionMessage[]): string {
+  return messages
+    .map((message) => `${ROLE_LABELS[message.role]}: ${getMessageText(message)}`)
+    .join('\n\n')
+}
+
+type CompletionCallback = ContextManagerOptions['onCompletion']
+
+async function summarizeChunk(
+  model: string,
+  previous: string | undefined,
+  messages: ChatCompletionMessage[],
+  onCompletion?: CompletionCallback
+): Promise<string> {
+  const provider = getProviderForModel(model)
+  const transcript = formatTranscript(messages)
+
+  const response = await provider.complete({
+    conversationId: 'context-summary',
+    provider: provider.provider,
+    model,
+    messages: [
+      {
+        role: 'user',
+        content: previous
+          ? `Existing summary:\n${previous}\n\nNew messages:\n${transcript}`
+          : `Conversation:\n${transcript}`,
+      },
+    ],
+    options: {
+      systemPrompt: SUMMARY_PROMPT,
+      temperature: 0,
+      maxTokens: SUMMARY_MAX_TOKENS,
+      stream: false,
+    },
+  })
+  onCompletion?.(response)
+
+  const content = response.message.content?.trim()
+  if (!content) {
+    throw new Error('Summarizer returned an empty response')
+  }
+  return content
+}
+
+/**
+ * Fold messages into a summary, in chunks small enough for the summarizer
+ */
+async function extendSummary(
+  model: string,
+  previous: string | undefined,
+  messages: ChatCompletionMessage[],
+  onCompletion?: CompletionCallback
+): Promise<string> {
+  const chunkBudget = Math.floor((getModelConfig(model)?.capabilities.maxInputTokens ?? 32000) * RECENT_TURNS_RATIO)
+
+  let summary = previous
+  let chunk: ChatCompletionMessage[] = []
+  let chunkTokens = 0
+
+  for (const message of messages) {
+    const tokens = estimateTokens({ model, messages: [message] })
+    if (chunk.length > 0 && chunkTokens + tokens > chunkBudget) {
+      summary = await summarizeChunk(model, summary, chunk, onCompletion)
+      chunk = []
+      chunkTokens = 0
+    }
+    chunk.push(message)
+    chunkTokens += tokens
+  }
+
+  if (chunk.length > 0) {
+    summary = await summarizeChunk(model, summary, chunk, onCompletion)
+  }
+
+  return summary!
+}
+
+/**
+ * Fit a chat request into its model's context window
+ */
+export async function manageContext(
+  request: ChatCompletionRequest,
+  options: ContextManagerOptions
+): Promise<ManagedContext> {
+  const model = getModelConfig(request.model)
+  // Without a known window (agents, unlisted models) the provider manages context
+  if (!model) {
+    return { request, applied: [] }
+  }
+
+  const { maxInputTokens, maxOutputTokens } = model.capabilities
+  const outputReserve = Math.min(request.options?.maxTokens ?? maxOutputTokens, Math.floor(maxInputTokens / 2))
+  const budget = Math.floor((maxInputTokens - outputReserve) * BUDGET_RATIO)
+
+  const provider = getProviderForModel(request.model)
+  const countRequest = (messages: ChatCompletionMessage[], systemPrompt?: string): TokenCountRequest => ({
+    model: request.model,
+    messages,
+    systemPrompt,
+    tools: request.options?.tools,
+  })
+
+  const applied: ContextReduction[] = []
+  let systemPrompt = request.options?.systemPrompt
+  let turns = splitTurns(request.messages)
+  let summary: ConversationContextSummary | undefined
+
+  const build = (): ManagedContext['request'] => ({
+    ...request,
+    messages: turns.flat(),
+    options: { ...request.options, systemPrompt },
+  })
+
+  if (options.strategy === 'sliding_window') {
+    const windowTurns = options.windowTurns ?? DEFAULT_WINDOW_TURNS
+    if (turns.length > windowTurns) {
+      turns = turns.slice(-windowTurns)
+      applied.push('window')
+    }
+  }
+
+  let inputTokens = await provider.countTokens(countRequest(turns.flat(), systemPrompt))
+  if (inputTokens <= budget) {
+    return { request: build(), inputTokens, applied }
+  }
+
+  // Older tool outputs and file contents are usually the bulk of a long history
+  const originalTurns = turns
+  const intactFrom = Math.max(0, turns.length - INTACT_TURNS)
+  turns = turns.map((turn, i) => (i < intactFrom ? turn.map(compactMessage) : turn))
+  applied.push('compact')
+
+  inputTokens = await provider.countTokens(countRequest(turns.flat(), systemPrompt))
+  if (inputTokens <= budget) {
+    return { request: build(), inputTokens, applied }
+  }
+
+  if (options.strategy === 'summarize' && turns.length > 1) {
+    // Keep as many recent turns verbatim as fit in part of the budget
+    let keep = 1
+    let recentTokens = estimateTokens(countRequest(turns[turns.length - 1]))
+    while (keep < turns.length - 1) {
+      const tokens = estimateTokens(countRequest(turns[turns.length - keep - 1]))
+      if (recentTokens + tokens > budget * RECENT_TURNS_RATIO) break
+      recentTokens += tokens
+      keep++
+    }
+
+    const olderCount = turns.length - keep
+    // Summaries are keyed by the messages as the client sent them, since
+    // compaction depends on the conversation's current length
+    const originalOlder = originalTurns.slice(0, olderCount).flat()
+    const compactedOlder = turns.slice(0, olderCount).flat()
+    const summaryModel = options.summaryModel || request.model
+
+    try {
+      const stored = options.summary
+      const reusable =
+        stored &&
+        stored.messageCount <= originalOlder.length &&
+        stored.hash === hashMessages(originalOlder.slice(0, stored.messageCount))
+
+      const content =
+        reusable && stored.messageCount === originalOlder.length
+          ? stored.content
+          : await extendSummary(
+              summaryModel,
+              reusable ? stored.content : undefined,
+              compactedOlder.slice(reusable ? stored.messageCount : 0),
+              options.onCompletion
+            )
+
+      if (!reusable || stored.messageCount !== originalOlder.length) {
+        summary = { content, messageCount: originalOlder.length, hash: hashMessages(originalOlder) }
+      }
+
+      turns = turns.slice(olderCount)
+      systemPrompt = [
+        request.options?.systemPrompt,
+        `Summary of the earlier conversation (older messages are not shown):\n${content}`,
+      ]
+        .filter(Boolean)
+        .join('\n\n')
+      applied.push('summarize')
+
+      inputTokens = await provider.countTokens(countRequest(turns.flat(), systemPrompt))
+      if (inputTokens <= budget) {
+        return { request: build(), inputTokens, applied, summary }
+      }
+    } catch (error) {
+      chatLogger.warn('Context summarization failed, truncating instead', {
+        model: summaryModel,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  // Drop the oldest turns, scaling the cheap estimate to the exact count
+  const estimate = (t: Turn[]) => estimateTokens(countRequest(t.flat(), systemPrompt))
+  const ratio = inputTokens / Math.max(1, estimate(turns))
+  while (turns.length > 1 && estimate(turns) * ratio > budget) {
+    turns = turns.slice(1)
+  }
+  applied.push('truncate')
+
+  inputTokens = await provider.countTokens(countRequest(turns.flat(), systemPrompt))
+  return { request: build(), inputTokens, applied, summary }
+}
@@ -1,4 +1,4 @@
-import type { AIProvider } from '@/types'
+import type { AIProvider, BudgetUsage } from '@/types'
 
 export class APIError extends Error {
   public readonly statusCode: number
@@ -113,6 +113,61 @@ export class StreamingError extends APIError {
   }
 }
 
+export class ProvidersUnavailableError extends APIError {
+  public readonly attempts: Array<{ model: string; provider: AIProvider; error: string }>
+
+  constructor(
+    model: string,
+    attempts: Array<{ model: string; provider: AIProvider; error: string }>
+  ) {
+    super(
+      `No provider could serve ${model}. ${attempts.length > 0 ? `Tried: ${attempts.map((a) => a.model).join(', ')}.` : 'All providers in the fallback chain are temporarily unavailable.'}`,
+      503,
+      'PROVIDERS_UNAVAILABLE',
+      { model, attempts }
+    )
+    this.name = 'ProvidersUnavailableError'
+    this.attempts = attempts
+  }
+}
+
+export class StructuredOutputError extends APIError {
+  constructor(model: string, attempts: number, error: string) {
+    super(
+      `${model} did not return JSON matching the requested format after ${attempts} attempts: ${error}`,
+      422,
+      'INVALID_STRUCTURED_OUTPUT',
+      { model, attempts, error }
+    )
+    this.name = 'StructuredOutputError'
+  }
+}
+
+export class ProviderNotAllowedError extends APIError {
+  public readonly provider: AIProvider
+
+  constructor(provider: AIProvider, model?: string, scope: 'workspace' | 'project' = 'workspace') {
+    super(
+      `Provider ${provider} is not allowed by this ${scope}'s policy`,
+      403,
+      'PROVIDER_NOT_ALLOWED',
+      { provider, model }
+    )
+    this.name = 'ProviderNotAllowedError'
+    this.provider = provider
+  }
+}
+
+export class BudgetExceededError extends APIError {
+  public readonly budget: BudgetUsage
+
+  constructor(message: string, budget: BudgetUsage) {
+    super(message, 402, 'BUDGET_EXCEEDED', { ...budget })
+    this.name = 'BudgetExceededError'
+    this.budget = budget
+  }
+}
+
 export class ValidationError extends APIError {
   constructor(message: string, details?: Record<string, unknown>) {
     super(message, 400, 'VALIDATION_ERROR', details)
@@ -0,0 +1,26 @@
+/**
+ * Public API Gateway
+ *
+ * OpenAI-compatible endpoints (/api/v1) authenticated with personal API keys.
+ */
+
+export {
+  toChatCompletionRequest,
+  toOpenAIResponse,
+  createOpenAIStream,
+  openAIErrorResponse,
+  toOpenAIErrorResponse,
+  type OpenAIChatMessage,
+  type OpenAIChatCompletionBody,
+  type OpenAIStreamOptions,
+} from './openai-format'
+
+export {
+  AUTO_MODEL,
+  getGatewayPolicy,
+  getAllowedModels,
+  resolveGatewayRoute,
+  getGatewayFallbackChain,
+  type GatewayPolicy,
+  type GatewayRoute,
+} from './policy'
@@ -0,0 +1,335 @@
+/**
+ * OpenAI wire format
+ *
+ * Translates between the OpenAI Chat Completions format spoken by the public
+ * gateway and the internal ChatCompletionRequest / StreamEvent types, so any
+ * OpenAI SDK can talk to the configured providers.
+ */
+
+import { NextResponse } from 'next/server'
+import type {
+  ChatCompletionMessage,
+  ChatCompletionMetadata,
+  ChatCompletionOptions,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ContentPart,
+  StreamEvent,
+  StreamEventData,
+  TokenUsage,
+  ToolAPIFormat,
+  ToolCall,
+} from '@/types'
+import { APIError, ValidationError } from '../errors/apiErrors'
+import { parseResponseFormat } from '../utils/structured-output'
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'auto' | 'low' | 'high' } }
+
+export interface OpenAIChatMessage {
+  role: 'system' | 'developer' | 'user' | 'assistant' | 'tool'
+  content?: string | OpenAIContentPart[] | null
+  name?: string
+  tool_calls?: ToolCall[]
+  tool_call_id?: string
+}
+
+export interface OpenAIChatCompletionBody {
+  model?: string
+  messages?: OpenAIChatMessage[]
+  temperature?: number
+  top_p?: number
+  max_tokens?: number
+  max_completion_tokens?: number
+  stream?: boolean
+  stream_options?: { include_usage?: boolean }
+  tools?: ToolAPIFormat[]
+  tool_choice?: ChatCompletionOptions['tool_choice']
+  parallel_tool_calls?: boolean
+  response_format?: unknown
+  /** Extension: 'server' runs the tool calls here, like /api/chat's toolExecution */
+  tool_execution?: 'client' | 'server'
+  /** Extension: tool rounds before the answer is returned with its tool calls */
+  max_tool_steps?: number
+}
+
+type OpenAIFinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter'
+
+const MESSAGE_ROLES = ['system', 'developer', 'user', 'assistant', 'tool']
+
+/**
+ * Content is a string or an array of parts; anything else is the client's
+ * mistake, not a server error
+ */
+function validateContent(content: unknown, index: number): void {
+  if (content === null || content === undefined || typeof content === 'string') return
+  if (!Array.isArray(content)) {
+    throw new ValidationError(`messages[${index}].content must be a string or an array of content parts`)
+  }
+  content.forEach((part: unknown, partIndex) => {
+    if (!part || typeof part !== 'object' || typeof (part as { type?: unknown }).type !== 'string') {
+      throw new ValidationError(`messages[${index}].content[${partIndex}] must be an object with a type`)
+    }
+    if ((part as { type: string }).type === 'text' && typeof (part as { text?: unknown }).text !== 'string') {
+      throw new ValidationError(`messages[${index}].content[${partIndex}].text must be a string`)
+    }
+  })
+}
+
+function textOf(content: OpenAIChatMessage['content']): string {
+  if (!content) return ''
+  if (typeof content === 'string') return content
+  return content
+    .filter((part): part is Extract<OpenAIContentPart, { type: 'text' }> => part.type === 'text')
+    .map((part) => part.text)
+    .join('\n')
+}
+
+function toContent(content: OpenAIChatMessage['content']): string | ContentPart[] {
+  if (!content) return ''
+  if (typeof content === 'string') return content
+  return content.filter((part) => part.type === 'text' || part.type === 'image_url')
+}
+
+/**
+ * Build an internal chat request from an OpenAI Chat Completions body.
+ * System and developer messages become the system prompt. The model is left
+ * as requested; routing and policy resolve it afterwards.
+ */
+export function toChatCompletionRequest(
+  body: OpenAIChatCompletionBody,
+  context: { conversationId: string; userEmail?: string }
+): ChatCompletionRequest {
+  if (!body.model || typeof body.model !== 'string') {
+    throw new ValidationError('model is required')
+  }
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    throw new ValidationError('messages must be a non-empty array')
+  }
+
+  const systemParts: string[] = []
+  const messages: ChatCompletionMessage[] = []
+
+  body.messages.forEach((message, index) => {
+    if (!message || !MESSAGE_ROLES.includes(message.role)) {
+      throw new ValidationError(`messages[${index}].role must be one of ${MESSAGE_ROLES.join(', ')}`)
+    }
+    validateContent(message.content, index)
+
+    if (message.role === 'system' || message.role === 'developer') {
+      systemParts.push(textOf(message.content))
+      return
+    }
+
+    if (message.role === 'tool') {
+      if (!message.tool_call_id) {
+        throw new ValidationError(`messages[${index}].tool_call_id is required for tool messages`)
+      }
+      messages.push({ role: 'tool', content: textOf(message.content), tool_call_id: message.tool_call_id })
+      return
+    }
+
+    messages.push({
+      role: message.role,
+      content: message.role === 'user' ? toContent(message.content) : textOf(message.content),
+      name: message.name,
+      tool_calls: message.role === 'assistant' && message.tool_calls?.length ? message.tool_calls : undefined,
+    })
+  })
+
+  if (messages.length === 0) {
+    throw new ValidationError('messages must include at least one user message')
+  }
+
+  return {
+    conversationId: context.conversationId,
+    messages,
+    // Resolved from the model config once the route is known
+    provider: 'openai',
+    model: body.model,
+    userEmail: context.userEmail,
+    options: {
+      temperature: body.temperature,
+      topP: body.top_p,
+      maxTokens: body.max_completion_tokens ?? body.max_tokens,
+      stream: body.stream === true,
+      systemPrompt: systemParts.filter(Boolean).join('\n\n') || undefined,
+      tools: body.tools?.length ? body.tools : undefined,
+      tool_choice: body.tool_choice,
+      parallel_tool_calls: body.parallel_tool_calls,
+      responseFormat: parseResponseFormat(body.response_format, 'response_format'),
+    },
+  }
+}
+
+function toFinishReason(metadata?: ChatCompletionMetadata, hasToolCalls = false): OpenAIFinishReason {
+  if (hasToolCalls) return 'tool_calls'
+  switch (metadata?.finishReason) {
+    case 'length':
+    case 'content_filter':
+    case 'tool_calls':
+      return metadata.finishReason
+    default:
+      return 'stop'
+  }
+}
+
+function toUsage(usage: TokenUsage) {
+  return {
+    prompt_tokens: usage.inputTokens,
+    completion_tokens: usage.outputTokens,
+    total_tokens: usage.totalTokens,
+    ...(usage.cacheReadTokens && { prompt_tokens_details: { cached_tokens: usage.cacheReadTokens } }),
+  }
+}
+
+/**
+ * Convert a completed response to an OpenAI `chat.completion` object
+ */
+export function toOpenAIResponse(
+  response: ChatCompletionResponse,
+  context: { id: string; created: number }
+) {
+  const toolCalls = response.message.tool_calls
+  return {
+    id: context.id,
+    object: 'chat.completion',
+    created: context.created,
+    model: response.metadata.model,
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: response.message.content,
+          ...(toolCalls?.length && { tool_calls: toolCalls }),
+        },
+        finish_reason: toFinishReason(response.metadata, !!toolCalls?.length),
+      },
+    ],
+    usage: toUsage(response.usage),
+    ...(response.tool_executions?.length && { tool_executions: response.tool_executions }),
+  }
+}
+
+export interface OpenAIStreamOptions {
+  id: string
+  created: number
+  model: string
+  includeUsage?: boolean
+  /** Tool calls run on the server: only those left in the final answer are sent */
+  serverTools?: boolean
+  /** Called with the final event once the answer is complete */
+  onDone?: (data: StreamEventData) => void
+}
+
+/**
+ * Re-encode internal stream events as OpenAI `chat.completion.chunk` SSE.
+ * Thinking deltas are dropped; errors are sent as an `error` payload and end
+ * the stream without `[DONE]`, which OpenAI SDKs surface as an exception.
+ */
+export function createOpenAIStream(
+  events: AsyncGenerator<StreamEvent, void, unknown>,
+  options: OpenAIStreamOptions
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let model = options.model
+
+  const chunk = (delta: Record<string, unknown>, finishReason: OpenAIFinishReason | null = null) => ({
+    id: options.id,
+    object: 'chat.completion.chunk',
+    created: options.created,
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  })
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (payload: unknown) =>
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`))
+      const sendError = (message: string) =>
+        send({ error: { message, type: 'api_error', param: null, code: null } })
+
+      let streamedToolCalls = false
+
+      try {
+        for await (const event of events) {
+          const { data } = event
+
+          if (event.type === 'start') {
+            send(chunk({ role: 'assistant', content: '' }))
+          } else if (event.type === 'fallback' && data.fallback) {
+            model = data.fallback.model
+          } else if (event.type === 'delta') {
+            if (data.delta) {
+              send(chunk({ content: data.delta }))
+            } else if (data.tool_call_delta && !options.serverTools) {
+              streamedToolCalls = true
+              const { index, ...toolCall } = data.tool_call_delta
+              send(chunk({ tool_calls: [{ index, ...toolCall }] }))
+            }
+          } else if (event.type === 'error') {
+            sendError(data.error || 'Unknown error')
+            return
+          } else if (event.type === 'done') {
+            const toolCalls = data.tool_calls ?? []
+            if (toolCalls.length > 0 && !streamedToolCalls) {
+              send(chunk({ tool_calls: toolCalls.map((call, index) => ({ index, ...call })) }))
+            }
+            if (data.metadata) model = data.metadata.model
+
+            send(chunk({}, toFinishReason(data.metadata, toolCalls.length > 0)))
+            if (options.includeUsage && data.usage) {
+              send({ ...chunk({}), choices: [], usage: toUsage(data.usage) })
+            }
+            options.onDone?.(data)
+          }
+        }
+
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'))
+      } catch (error) {
+        sendError(error instanceof Error ? error.message : 'Unknown error')
+      } finally {
+        controller.close()
+      }
+    },
+  })
+}
+
+function errorType(status: number): string {
+  switch (status) {
+    case 401:
+      return 'authentication_error'
+    case 402:
+      return 'insufficient_quota'
+    case 403:
+      return 'permission_error'
+    case 429:
+      return 'rate_limit_error'
+    default:
+      return status < 500 ? 'invalid_request_error' : 'api_error'
+  }
+}
+
+/**
+ * OpenAI-style error response: `{ error: { message, type, param, code } }`
+ */
+export function openAIErrorResponse(
+  message: string,
+  status: number,
+  code: string | null = null,
+  headers?: Record<string, string>
+) {
+  return NextResponse.json(
+    { error: { message, type: errorType(status), param: null, code } },
+    { status, headers }
+  )
+}
+
+export function toOpenAIErrorResponse(error: unknown, headers?: Record<string, string>) {
+  if (error instanceof APIError) {
+    return openAIErrorResponse(error.message, error.statusCode, error.code.toLowerCase(), headers)
+  }
+  return openAIErrorResponse('An internal error occurred', 500, 'internal_error', headers)
+}
@@ -0,0 +1,120 @@
+/**
+ * Gateway policy
+ *
+ * Resolves which models an API key may use. Keys scoped to a workspace are
+ * bound by its `allowedProviders` setting and lose access when their owner
+ * leaves the workspace.
+ */
+
+import type { ChatCompletionRequest, ModelConfig } from '@/types'
+import type { ApiKeySummary } from '@/lib/db/services/api-key'
+import {
+  getWorkspace,
+  isWorkspaceMember,
+  isProviderAllowed,
+  parseWorkspaceSettings,
+  type WorkspaceSettings,
+} from '@/lib/db/services/workspace'
+import { getModelConfig } from '../config/providers'
+import { APIError, ProviderNotAllowedError } from '../errors/apiErrors'
+import { getEnabledModels, getFallbackChain } from '../providers'
+import {
+  getRouteForRequest,
+  getRoutingConfig,
+  type ClassificationResult,
+  type RoutingOptions,
+} from '../routing'
+
+/** Model name that asks the gateway to pick a model by intent */
+export const AUTO_MODEL = 'auto'
+
+export interface GatewayPolicy {
+  workspaceId: string | null
+  settings: WorkspaceSettings
+}
+
+export interface GatewayRoute {
+  model: ModelConfig
+  wasAutoRouted: boolean
+  classification?: ClassificationResult
+}
+
+/**
+ * Load the policy for an API key, or null if the key's workspace is gone or
+ * its owner is no longer a member.
+ */
+export async function getGatewayPolicy(key: ApiKeySummary): Promise<GatewayPolicy | null> {
+  if (!key.workspaceId) return { workspaceId: null, settings: {} }
+
+  const [workspace, isMember] = await Promise.all([
+    getWorkspace(key.workspaceId),
+    isWorkspaceMember(key.workspaceId, key.userId),
+  ])
+  if (!workspace || !isMember) return null
+
+  return { workspaceId: workspace.id, settings: parseWorkspaceSettings(workspace) }
+}
+
+/**
+ * Enabled models whose provider the policy allows
+ */
+export function getAllowedModels(policy: GatewayPolicy): ModelConfig[] {
+  return getEnabledModels().filter((model) => isProviderAllowed(policy.settings, model.provider))
+}
+
+/**
+ * Resolve the model for a request. `auto` is routed by intent and falls back
+ * to the workspace default (or the first allowed model) when the routed model
+ * is not allowed; explicit models must be enabled and allowed.
+ */
+export async function resolveGatewayRoute(
+  request: ChatCompletionRequest,
+  policy: GatewayPolicy,
+  onCompletion?: RoutingOptions['onCompletion']
+): Promise<GatewayRoute> {
+  const allowed = getAllowedModels(policy)
+
+  if (request.model === AUTO_MODEL) {
+    const route = await getRouteForRequest(request, {
+      autoRouting: true,
+      confidenceThreshold: getRoutingConfig().confidenceThreshold,
+      onCompletion,
+    })
+
+    const model =
+      allowed.find((m) => m.id === route.model) ??
+      allowed.find((m) => m.id === policy.settings.defaultModel) ??
+      allowed[0]
+    if (!model) {
+      throw new APIError('No models are available to this API key', 503, 'NO_MODELS_AVAILABLE')
+    }
+    return { model, wasAutoRouted: true, classification: route.classification }
+  }
+
+  const model = getEnabledModels().find((m) => m.id === request.model)
+  if (!model) {
+    throw new APIError(
+      `The model ${request.model} does not exist or is not available`,
+      404,
+      'MODEL_NOT_FOUND',
+      { model: request.model }
+    )
+  }
+  if (!isProviderAllowed(policy.settings, model.provider)) {
+    throw new ProviderNotAllowedError(model.provider, model.id)
+  }
+  return { model, wasAutoRouted: false }
+}
+
+/**
+ * Fallback chain for a resolved request, without models the policy forbids
+ */
+export function getGatewayFallbackChain(
+  request: ChatCompletionRequest,
+  policy: GatewayPolicy
+): string[] {
+  return getFallbackChain(request).filter((id) => {
+    const model = getModelConfig(id)
+    return !!model && isProviderAllowed(policy.settings, model.provider)
+  })
+}
@@ -369,7 +369,8 @@ export interface DustActionExecution {
  */
 export interface DustCreateConversationRequest {
   title?: string
-  message: {
+  /** Omitted to create an empty conversation */
+  message?: {
     content: string
     context?: DustMessageContext
     mentions?: DustMention[]
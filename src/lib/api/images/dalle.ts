@@ -26,6 +26,24 @@ export interface ImageGenerationResult {
   error?: string
 }
 
+export const IMAGE_MODEL = 'dall-e-3'
+
+type ImageSize = NonNullable<ImageGenerationRequest['size']>
+type ImageQuality = NonNullable<ImageGenerationRequest['quality']>
+
+// DALL-E 3 price per image in USD
+const IMAGE_PRICING: Record<ImageQuality, Record<ImageSize, number>> = {
+  standard: { '1024x1024': 0.04, '1792x1024': 0.08, '1024x1792': 0.08 },
+  hd: { '1024x1024': 0.08, '1792x1024': 0.12, '1024x1792': 0.12 },
+}
+
+/**
+ * Price of generating one image with the request's size and quality
+ */
+export function getImageCost(request: Pick<ImageGenerationRequest, 'size' | 'quality'>): number {
+  return IMAGE_PRICING[request.quality || 'standard'][request.size || '1024x1024']
+}
+
 export class DALLEService {
   private client: OpenAI
 
@@ -38,7 +56,7 @@ export class DALLEService {
   async generateImage(request: ImageGenerationRequest): Promise<ImageGenerationResult> {
     try {
       const response = await this.client.images.generate({
-        model: 'dall-e-3',
+        model: IMAGE_MODEL,
         prompt: request.prompt,
         size: request.size || '1024x1024',
         quality: request.quality || 'standard',
@@ -70,7 +88,7 @@ export class DALLEService {
   async generateImageAsBase64(request: ImageGenerationRequest): Promise<ImageGenerationResult & { base64?: string }> {
     try {
       const response = await this.client.images.generate({
-        model: 'dall-e-3',
+        model: IMAGE_MODEL,
         prompt: request.prompt,
         size: request.size || '1024x1024',
         quality: request.quality || 'standard',
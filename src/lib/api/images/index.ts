@@ -1,6 +1,8 @@
 export {
   DALLEService,
   getDALLEService,
+  getImageCost,
+  IMAGE_MODEL,
   type ImageGenerationRequest,
   type GeneratedImage,
   type ImageGenerationResult,
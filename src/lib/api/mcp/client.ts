@@ -0,0 +1,414 @@
+/**
+ * MCP Client
+ *
+ * Connections to MCP servers, discovery of their tools, resources and
+ * prompts, and calls to them. A connection is kept per server and replaced
+ * when the server's configuration changes or the connection closes.
+ */
+
+import 'server-only'
+
+import { lookup } from 'node:dns/promises'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { StdioClientTransport, getDefaultEnvironment } from '@modelcontextprotocol/sdk/client/stdio.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import type { ContentBlock, Prompt, Resource, Tool } from '@modelcontextprotocol/sdk/types.js'
+import type { McpServer as McpServerRecord } from '@/generated/prisma'
+import type {
+  FunctionParameters,
+  McpServerStatus,
+  McpToolSummary,
+  McpTransport,
+  ToolResult,
+  ToolSideEffect,
+} from '@/types'
+import { MCP_PROMPT_TOOL, MCP_RESOURCE_TOOL, getMcpToolName } from '@/lib/tools/mcp'
+import { getMcpServerCredentials } from '@/lib/db/services/mcp-server'
+import { toolLogger } from '@/lib/logging'
+import { checkMcpHttpUrl, getMcpConfig, isAllowedMcpEnvKey, isAllowedMcpHost, isInternalAddress } from './config'
+
+const CLIENT_INFO = { name: 'ondo-ai', version: process.env.APP_VERSION || '0.1.0' }
+
+/** List pages read per server, so a misbehaving server cannot page forever */
+const MAX_LIST_PAGES = 10
+
+/** Resources and prompts named in the description of the generated tools */
+const MAX_DESCRIBED_ITEMS = 25
+
+interface Connection {
+  client: Client
+  /** Configuration the connection was opened with */
+  version: number
+}
+
+const connections = new Map<string, Promise<Connection>>()
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => setTimeout(() => reject(new Error(message)), ms)),
+  ])
+}
+
+function createStdioTransport(server: McpServerRecord, env: Record<string, string> = {}): StdioClientTransport {
+  // Looked up at connect time, so removing a preset stops its servers
+  const preset = server.preset ? getMcpConfig().stdioPresets[server.preset] : undefined
+  if (!preset) throw new Error(`MCP preset "${server.preset}" is not defined on this deployment`)
+
+  return new StdioClientTransport({
+    command: preset.command,
+    args: preset.args,
+    // Only a safe default environment is inherited, never the app's secrets,
+    // and stored variables cannot change what the process loads
+    env: {
+      ...getDefaultEnvironment(),
+      ...Object.fromEntries(Object.entries(env).filter(([name]) => isAllowedMcpEnvKey(name))),
+    },
+    stderr: 'ignore',
+  })
+}
+
+/**
+ * Check an HTTP server's host before each request: against the deployment's
+ * allowed hosts, else by the addresses it resolves to, so a name cannot be
+ * pointed at an internal address after the server was saved
+ */
+async function assertAllowedHttpHost(url: URL): Promise<void> {
+  const hostError = checkMcpHttpUrl(url)
+  if (hostError) throw new Error(`MCP server ${hostError}`)
+
+  const { httpAllowedHosts } = getMcpConfig()
+  if (isAllowedMcpHost(url.hostname, httpAllowedHosts)) return
+  const addresses = await lookup(url.hostname.replace(/^\[|\]$/g, ''), { all: true })
+  if (addresses.some(({ address }) => isInternalAddress(address))) {
+    throw new Error(`MCP server host ${url.hostname} resolves to a loopback, private or link-local address`)
+  }
+}
+
+/**
+ * fetch for HTTP transports; the transport only follows redirects within
+ * the same origin, which this check has already passed
+ */
+async function guardedFetch(url: string | URL, init?: RequestInit): Promise<Response> {
+  await assertAllowedHttpHost(new URL(url))
+  return fetch(url, init)
+}
+
+async function connect(server: McpServerRecord): Promise<Connection> {
+  const credentials = getMcpServerCredentials(server)
+  const transport =
+    server.transport === 'stdio'
+      ? createStdioTransport(server, credentials.env)
+      : new StreamableHTTPClientTransport(new URL(server.url ?? ''), {
+          requestInit: { headers: credentials.headers },
+          fetch: guardedFetch,
+        })
+
+  const client = new Client(CLIENT_INFO)
+  client.onclose = () => {
+    connections.delete(server.id)
+  }
+
+  try {
+    await withTimeout(
+      client.connect(transport),
+      getMcpConfig().connectTimeoutMs,
+      `Timed out connecting to MCP server "${server.name}"`
+    )
+  } catch (error) {
+    await client.close().catch(() => undefined)
+    throw error
+  }
+
+  return { client, version: server.updatedAt.getTime() }
+}
+
+async function getClient(server: McpServerRecord): Promise<Client> {
+  const existing = connections.get(server.id)
+  if (existing) {
+    const connection = await existing.catch(() => null)
+    if (connection?.version === server.updatedAt.getTime()) return connection.client
+    if (connections.get(server.id) === existing) closeMcpConnection(server.id)
+  }
+
+  const connection = connect(server)
+  connections.set(server.id, connection)
+  connection.catch(() => {
+    if (connections.get(server.id) === connection) connections.delete(server.id)
+  })
+  return (await connection).client
+}
+
+/**
+ * Close the connection to a server, after it was changed or removed
+ */
+export function closeMcpConnection(serverId: string): void {
+  const connection = connections.get(serverId)
+  connections.delete(serverId)
+  connection
+    ?.then(({ client }) => client.close())
+    .catch(() => undefined)
+}
+
+// ============================================================================
+// Discovery
+// ============================================================================
+
+async function listAll<T>(
+  list: (cursor?: string) => Promise<{ items: T[]; nextCursor?: string }>
+): Promise<T[]> {
+  const items: T[] = []
+  let cursor: string | undefined
+  for (let page = 0; page < MAX_LIST_PAGES; page++) {
+    const result = await list(cursor)
+    items.push(...result.items)
+    cursor = result.nextCursor
+    if (!cursor) break
+  }
+  return items
+}
+
+/**
+ * Side effect from the tool's annotations. As in the MCP spec, tools that
+ * do not say are assumed to be destructive.
+ */
+function getSideEffect(tool: Tool): ToolSideEffect {
+  if (tool.annotations?.readOnlyHint) return 'read'
+  return tool.annotations?.destructiveHint === false ? 'write' : 'destructive'
+}
+
+function describeItems(items: string[]): string {
+  const listed = items.slice(0, MAX_DESCRIBED_ITEMS).join('\n')
+  return items.length > MAX_DESCRIBED_ITEMS
+    ? `${listed}\n(and ${items.length - MAX_DESCRIBED_ITEMS} more)`
+    : listed
+}
+
+function toToolSummaries(
+  server: McpServerRecord,
+  tools: Tool[],
+  resources: Resource[],
+  prompts: Prompt[]
+): McpToolSummary[] {
+  const base = { serverId: server.id, serverName: server.name }
+  const summaries: McpToolSummary[] = tools.map((tool) => ({
+    ...base,
+    name: getMcpToolName(server.name, tool.name),
+    kind: 'tool',
+    serverToolName: tool.name,
+    description: tool.description || tool.title || tool.name,
+    parameters: {
+      ...tool.inputSchema,
+      properties: tool.inputSchema.properties ?? {},
+    } as FunctionParameters,
+    sideEffect: getSideEffect(tool),
+  }))
+
+  if (resources.length > 0) {
+    summaries.push({
+      ...base,
+      name: getMcpToolName(server.name, MCP_RESOURCE_TOOL),
+      kind: 'resource',
+      description: `Read a resource from the ${server.name} MCP server. Available resources:\n${describeItems(
+        resources.map((resource) =>
+          [resource.uri, resource.name, resource.description].filter(Boolean).join(' - ')
+        )
+      )}`,
+      parameters: {
+        type: 'object',
+        properties: {
+          uri: { type: 'string', description: 'URI of the resource to read' },
+        },
+        required: ['uri'],
+      },
+      sideEffect: 'read',
+    })
+  }
+
+  if (prompts.length > 0) {
+    summaries.push({
+      ...base,
+      name: getMcpToolName(server.name, MCP_PROMPT_TOOL),
+      kind: 'prompt',
+      description: `Get a prompt template from the ${server.name} MCP server. Available prompts:\n${describeItems(
+        prompts.map((prompt) => {
+          const args = prompt.arguments?.map((arg) => (arg.required ? arg.name : `${arg.name}?`))
+          return [`${prompt.name}(${args?.join(', ') ?? ''})`, prompt.description].filter(Boolean).join(' - ')
+        })
+      )}`,
+      parameters: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Name of the prompt', enum: prompts.map((prompt) => prompt.name) },
+          arguments: { type: 'object', description: 'Values for the prompt arguments, by name' },
+        },
+        required: ['name'],
+      },
+      sideEffect: 'read',
+    })
+  }
+
+  // Names are truncated to the providers' limit; keep the first of any clash
+  return summaries.filter(
+    (summary, index) => summaries.findIndex((other) => other.name === summary.name) === index
+  )
+}
+
+/**
+ * Connect to a server and list what it offers. Failures are reported in the
+ * status instead of thrown, so one broken server leaves the others usable.
+ */
+export async function discoverMcpServer(
+  server: McpServerRecord
+): Promise<{ status: McpServerStatus; tools: McpToolSummary[] }> {
+  const status: McpServerStatus = {
+    serverId: server.id,
+    name: server.name,
+    transport: server.transport as McpTransport,
+    health: 'disabled',
+    toolCount: 0,
+    resourceCount: 0,
+    promptCount: 0,
+    checkedAt: new Date(),
+  }
+  if (!server.enabled) return { status, tools: [] }
+
+  try {
+    const client = await getClient(server)
+    const capabilities = client.getServerCapabilities()
+    const options = { timeout: getMcpConfig().connectTimeoutMs }
+
+    const [tools, resources, prompts] = await Promise.all([
+      capabilities?.tools
+        ? listAll(async (cursor) => {
+            const result = await client.listTools({ cursor }, options)
+            return { items: result.tools, nextCursor: result.nextCursor }
+          })
+        : [],
+      capabilities?.resources
+        ? listAll(async (cursor) => {
+            const result = await client.listResources({ cursor }, options)
+            return { items: result.resources, nextCursor: result.nextCursor }
+          })
+        : [],
+      capabilities?.prompts
+        ? listAll(async (cursor) => {
+            const result = await client.listPrompts({ cursor }, options)
+            return { items: result.prompts, nextCursor: result.nextCursor }
+          })
+        : [],
+    ])
+
+    return {
+      status: {
+        ...status,
+        health: 'connected',
+        toolCount: tools.length,
+        resourceCount: resources.length,
+        promptCount: prompts.length,
+      },
+      tools: toToolSummaries(server, tools, resources, prompts),
+    }
+  } catch (error) {
+    closeMcpConnection(server.id)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    toolLogger.warn('MCP server unavailable', { serverId: server.id, name: server.name, error: message })
+    return { status: { ...status, health: 'error', error: message }, tools: [] }
+  }
+}
+
+// ============================================================================
+// Calls
+// ============================================================================
+
+function contentToText(content: ContentBlock): string {
+  switch (content.type) {
+    case 'text':
+      return content.text
+    case 'resource':
+      return 'text' in content.resource ? content.resource.text : `[resource: ${content.resource.uri}]`
+    case 'resource_link':
+      return `[resource: ${content.uri}]`
+    default:
+      return `[${content.type}: ${content.mimeType}]`
+  }
+}
+
+async function callTool(client: Client, tool: McpToolSummary, args: Record<string, unknown>): Promise<ToolResult> {
+  const result = await client.callTool({ name: tool.serverToolName ?? tool.name, arguments: args })
+
+  const content = Array.isArray(result.content) ? (result.content as ContentBlock[]) : []
+  const output =
+    content.map(contentToText).join('\n') ||
+    (result.structuredContent ? JSON.stringify(result.structuredContent, null, 2) : '')
+
+  if (result.isError) {
+    return { success: false, output: '', error: output || `MCP tool "${tool.name}" failed` }
+  }
+  return { success: true, output, metadata: { mcpServer: tool.serverName } }
+}
+
+async function readResource(client: Client, tool: McpToolSummary, args: Record<string, unknown>): Promise<ToolResult> {
+  if (typeof args.uri !== 'string' || !args.uri) {
+    return { success: false, output: '', error: 'uri is required' }
+  }
+
+  const result = await client.readResource({ uri: args.uri })
+  const output = result.contents
+    .map((content) =>
+      'text' in content && typeof content.text === 'string'
+        ? content.text
+        : `[binary resource: ${content.uri}${content.mimeType ? ` (${content.mimeType})` : ''}]`
+    )
+    .join('\n\n')
+
+  return { success: true, output, metadata: { mcpServer: tool.serverName, uri: args.uri } }
+}
+
+async function getPrompt(client: Client, tool: McpToolSummary, args: Record<string, unknown>): Promise<ToolResult> {
+  if (typeof args.name !== 'string' || !args.name) {
+    return { success: false, output: '', error: 'name is required' }
+  }
+
+  const promptArgs =
+    typeof args.arguments === 'object' && args.arguments !== null
+      ? Object.fromEntries(Object.entries(args.arguments).map(([key, value]) => [key, String(value)]))
+      : undefined
+  const result = await client.getPrompt({ name: args.name, arguments: promptArgs })
+
+  const output = [
+    result.description,
+    ...result.messages.map((message) => `${message.role}: ${contentToText(message.content)}`),
+  ]
+    .filter(Boolean)
+    .join('\n\n')
+
+  return { success: true, output, metadata: { mcpServer: tool.serverName, prompt: args.name } }
+}
+
+/**
+ * Run a discovered tool on its server
+ */
+export async function callMcpTool(
+  server: McpServerRecord,
+  tool: McpToolSummary,
+  args: Record<string, unknown>
+): Promise<ToolResult> {
+  try {
+    const client = await getClient(server)
+    switch (tool.kind) {
+      case 'resource':
+        return await readResource(client, tool, args)
+      case 'prompt':
+        return await getPrompt(client, tool, args)
+      default:
+        return await callTool(client, tool, args)
+    }
+  } catch (error) {
+    return {
+      success: false,
+      output: '',
+      error: error instanceof Error ? error.message : `MCP tool "${tool.name}" failed`,
+    }
+  }
+}
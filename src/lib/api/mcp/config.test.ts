@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { checkMcpHttpUrl, isAllowedMcpHost, isInternalAddress } from './config'
+
+describe('isInternalAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.20.0.1',
+    '192.168.1.1',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    '::',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:127.0.0.1',
+  ])('treats %s as internal', (address) => {
+    expect(isInternalAddress(address)).toBe(true)
+  })
+
+  it.each(['8.8.8.8', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8', 'example.com'])(
+    'treats %s as public',
+    (address) => {
+      expect(isInternalAddress(address)).toBe(false)
+    }
+  )
+})
+
+describe('isAllowedMcpHost', () => {
+  const allowed = ['mcp.example.com', '*.tools.example.com']
+
+  it('matches hosts and subdomains of wildcard entries', () => {
+    expect(isAllowedMcpHost('MCP.example.com', allowed)).toBe(true)
+    expect(isAllowedMcpHost('jira.tools.example.com', allowed)).toBe(true)
+  })
+
+  it('rejects other hosts', () => {
+    expect(isAllowedMcpHost('tools.example.com', allowed)).toBe(false)
+    expect(isAllowedMcpHost('evil-mcp.example.com', allowed)).toBe(false)
+    expect(isAllowedMcpHost('mcp.example.com.evil.test', allowed)).toBe(false)
+  })
+})
+
+describe('checkMcpHttpUrl', () => {
+  it('blocks internal hosts without an allowlist', () => {
+    expect(checkMcpHttpUrl(new URL('https://mcp.example.com/mcp'), [])).toBeNull()
+    expect(checkMcpHttpUrl(new URL('http://localhost:3000/mcp'), [])).toMatch(/loopback/)
+    expect(checkMcpHttpUrl(new URL('http://169.254.169.254/latest'), [])).toMatch(/link-local/)
+    expect(checkMcpHttpUrl(new URL('http://[::1]:8080/'), [])).toMatch(/loopback/)
+  })
+
+  it('only accepts listed hosts with an allowlist, internal ones included', () => {
+    const allowed = ['mcp.internal.example.com']
+    expect(checkMcpHttpUrl(new URL('http://mcp.internal.example.com/mcp'), allowed)).toBeNull()
+    expect(checkMcpHttpUrl(new URL('https://other.example.com/mcp'), allowed)).toMatch(/MCP_HTTP_ALLOWED_HOSTS/)
+  })
+})
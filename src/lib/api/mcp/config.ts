@@ -0,0 +1,157 @@
+/**
+ * MCP Configuration
+ *
+ * Deployment settings for MCP servers. stdio servers run as processes on the
+ * app server, so workspace admins can only pick one of the presets the
+ * deployment defines in MCP_STDIO_PRESETS; the command and its arguments
+ * come from the preset, never from the workspace. Without presets only HTTP
+ * servers can be added.
+ *
+ * HTTP servers are requested from the app server too. With
+ * MCP_HTTP_ALLOWED_HOSTS set, only those hosts can be used (internal ones
+ * included); otherwise any host can, as long as it does not resolve to a
+ * loopback, private or link-local address.
+ */
+
+import { BlockList, isIP } from 'node:net'
+import { toolLogger } from '@/lib/logging'
+
+/** A process stdio servers may run, defined by the deployment */
+export interface McpStdioPreset {
+  command: string
+  args: string[]
+}
+
+export interface McpConfig {
+  /** stdio presets by name */
+  stdioPresets: Record<string, McpStdioPreset>
+  /** Hosts HTTP servers may use, `*.` for subdomains; empty allows any public host */
+  httpAllowedHosts: string[]
+  /** How long connecting and listing a server may take */
+  connectTimeoutMs: number
+  /** How long a workspace's discovered tools are reused */
+  catalogTtlMs: number
+}
+
+const DEFAULT_CONNECT_TIMEOUT_MS = 10_000
+const DEFAULT_CATALOG_TTL_MS = 60_000
+
+/**
+ * Environment variables a workspace may not set for a stdio server: they
+ * change which code the process loads, e.g. NODE_OPTIONS=--require or
+ * LD_PRELOAD, or where its package manager installs from
+ */
+const BLOCKED_ENV_PATTERN = /^(?:PATH|NODE_.*|NPM_CONFIG_.*|LD_.*|DYLD_.*|PYTHON.*|PIP_.*|UV_.*|BASH_ENV|ENV)$/i
+
+export function isAllowedMcpEnvKey(name: string): boolean {
+  return !BLOCKED_ENV_PATTERN.test(name)
+}
+
+/** Addresses HTTP servers may not resolve to unless their host is allowed explicitly */
+const INTERNAL_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local (cloud metadata
+ * included), multicast or otherwise not on the public internet
+ */
+export function isInternalAddress(address: string): boolean {
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return isInternalAddress(mapped[1])
+
+  const version = isIP(address)
+  if (version === 0) return false
+  return INTERNAL_ADDRESSES.check(address, version === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Whether a host is on the deployment's list of hosts for HTTP servers
+ */
+export function isAllowedMcpHost(hostname: string, allowedHosts: string[]): boolean {
+  const host = hostname.toLowerCase()
+  return allowedHosts.some((allowed) =>
+    allowed.startsWith('*.') ? host.endsWith(allowed.slice(1)) : host === allowed
+  )
+}
+
+/**
+ * Why an HTTP server's URL cannot be used, judging by its host alone; the
+ * addresses a name resolves to are checked when connecting
+ */
+export function checkMcpHttpUrl(url: URL, allowedHosts = getMcpConfig().httpAllowedHosts): string | null {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  if (allowedHosts.length > 0) {
+    return isAllowedMcpHost(hostname, allowedHosts)
+      ? null
+      : `url host must be one of ${allowedHosts.join(', ')} (MCP_HTTP_ALLOWED_HOSTS)`
+  }
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || isInternalAddress(hostname)) {
+    return 'url must not point to a loopback, private or link-local address'
+  }
+  return null
+}
+
+function parseHostList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+function parseStdioPresets(value: string | undefined): Record<string, McpStdioPreset> {
+  if (!value) return {}
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(value)
+  } catch {
+    toolLogger.warn('Ignoring invalid MCP_STDIO_PRESETS, expected a JSON object')
+    return {}
+  }
+  if (typeof parsed !== 'object' || parsed === null) return {}
+
+  const presets: Record<string, McpStdioPreset> = {}
+  for (const [name, preset] of Object.entries(parsed)) {
+    const { command, args = [] } = (preset ?? {}) as Partial<McpStdioPreset>
+    if (typeof command !== 'string' || !Array.isArray(args) || !args.every((arg) => typeof arg === 'string')) {
+      toolLogger.warn('Ignoring invalid MCP stdio preset', { preset: name })
+      continue
+    }
+    presets[name] = { command, args }
+  }
+  return presets
+}
+
+export function getMcpConfig(): McpConfig {
+  const connectTimeoutMs = parseInt(process.env.MCP_CONNECT_TIMEOUT_MS || '', 10)
+
+  return {
+    stdioPresets: parseStdioPresets(process.env.MCP_STDIO_PRESETS),
+    httpAllowedHosts: parseHostList(process.env.MCP_HTTP_ALLOWED_HOSTS),
+    connectTimeoutMs:
+      isNaN(connectTimeoutMs) || connectTimeoutMs < 1 ? DEFAULT_CONNECT_TIMEOUT_MS : connectTimeoutMs,
+    catalogTtlMs: DEFAULT_CATALOG_TTL_MS,
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * MCP Credentials
+ *
+ * Headers and environment variables for MCP servers are stored encrypted
+ * with AES-256-GCM. The key is derived from MCP_CREDENTIALS_KEY, or from
+ * NEXTAUTH_SECRET when no separate key is set; changing it makes stored
+ * credentials unreadable, so they have to be entered again.
+ */
+
+import 'server-only'
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+import type { McpCredentials } from '@/types'
+
+const ALGORITHM = 'aes-256-gcm'
+const VERSION = 'v1'
+
+function getKey(): Buffer {
+  const secret = process.env.MCP_CREDENTIALS_KEY || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('MCP_CREDENTIALS_KEY or NEXTAUTH_SECRET is required to store MCP credentials')
+  }
+  return createHash('sha256').update(secret).digest()
+}
+
+export function encryptCredentials(credentials: McpCredentials): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv)
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(credentials), 'utf8'), cipher.final()])
+
+  return [VERSION, iv, cipher.getAuthTag(), encrypted]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+    .join(':')
+}
+
+/**
+ * Decrypt stored credentials; throws if they were stored with another key
+ */
+export function decryptCredentials(value: string): McpCredentials {
+  const [version, iv, tag, encrypted] = value.split(':')
+  if (version !== VERSION || !iv || !tag || !encrypted) {
+    throw new Error('Unsupported MCP credentials format')
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64url'))
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'))
+  const decrypted = Buffer.concat([
+    decipher.update(Buffer.from(encrypted, 'base64url')),
+    decipher.final(),
+  ])
+  return JSON.parse(decrypted.toString('utf8')) as McpCredentials
+}
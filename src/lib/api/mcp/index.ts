@@ -0,0 +1,110 @@
+/**
+ * Workspace MCP Catalog
+ *
+ * What the MCP servers of a workspace offer, discovered on first use and
+ * reused for a short while so every chat request does not reconnect to
+ * every server. Changing a server's configuration drops the workspace's
+ * catalog and the server's connection.
+ *
+ * Server-only: servers are reached from the app server, never the browser.
+ */
+
+import 'server-only'
+
+import type { McpServer as McpServerRecord } from '@/generated/prisma'
+import type { McpCatalog, ToolResult } from '@/types'
+import type { McpToolHandler } from '@/lib/tools/mcp'
+import { getWorkspaceMcpServers } from '@/lib/db/services/mcp-server'
+import { toolLogger } from '@/lib/logging'
+import { callMcpTool, closeMcpConnection, discoverMcpServer } from './client'
+import { getMcpConfig } from './config'
+
+export { closeMcpConnection } from './client'
+export { getMcpConfig } from './config'
+
+interface CachedCatalog {
+  catalog: Promise<McpCatalog>
+  servers: Map<string, McpServerRecord>
+  expiresAt: number
+}
+
+const catalogs = new Map<string, CachedCatalog>()
+
+async function discoverWorkspace(servers: McpServerRecord[]): Promise<McpCatalog> {
+  const discovered = await Promise.all(servers.map(discoverMcpServer))
+  return {
+    servers: discovered.map(({ status }) => status),
+    tools: discovered.flatMap(({ tools }) => tools),
+  }
+}
+
+async function loadCatalog(workspaceId: string, refresh: boolean): Promise<CachedCatalog> {
+  const cached = catalogs.get(workspaceId)
+  if (cached && !refresh && cached.expiresAt > Date.now()) return cached
+
+  const records = await getWorkspaceMcpServers(workspaceId)
+  const entry: CachedCatalog = {
+    catalog: discoverWorkspace(records),
+    servers: new Map(records.map((record) => [record.id, record])),
+    expiresAt: Date.now() + getMcpConfig().catalogTtlMs,
+  }
+  catalogs.set(workspaceId, entry)
+  entry.catalog.catch(() => {
+    if (catalogs.get(workspaceId) === entry) catalogs.delete(workspaceId)
+  })
+  return entry
+}
+
+/**
+ * The workspace's servers with their health, and the tools they offer.
+ * With `refresh`, every server is contacted again.
+ */
+export async function getWorkspaceMcpCatalog(
+  workspaceId: string,
+  options: { refresh?: boolean } = {}
+): Promise<McpCatalog> {
+  const entry = await loadCatalog(workspaceId, options.refresh ?? false)
+  return entry.catalog
+}
+
+/**
+ * Forget what was discovered for a workspace after one of its servers
+ * changed, closing that server's connection
+ */
+export function invalidateWorkspaceMcpCatalog(workspaceId: string, serverId?: string): void {
+  catalogs.delete(workspaceId)
+  if (serverId) closeMcpConnection(serverId)
+}
+
+/**
+ * Run one of the workspace's MCP tools by its namespaced name
+ */
+export async function callWorkspaceMcpTool(
+  workspaceId: string,
+  name: string,
+  args: Record<string, unknown>
+): Promise<ToolResult> {
+  const entry = await loadCatalog(workspaceId, false)
+  const catalog = await entry.catalog
+  const tool = catalog.tools.find((candidate) => candidate.name === name)
+  const server = tool && entry.servers.get(tool.serverId)
+  if (!tool || !server) {
+    return { success: false, output: '', error: `MCP tool "${name}" not found in this workspace` }
+  }
+
+  const result = await callMcpTool(server, tool, args)
+  toolLogger.info('Called MCP tool', {
+    workspaceId,
+    server: server.name,
+    tool: name,
+    success: result.success,
+  })
+  return result
+}
+
+/**
+ * Handler for the server-side tool loop, which calls the servers directly
+ */
+export function createWorkspaceMcpHandler(workspaceId: string): McpToolHandler {
+  return (tool, args) => callWorkspaceMcpTool(workspaceId, tool.name, args)
+}
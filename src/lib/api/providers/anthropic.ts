@@ -7,11 +7,14 @@ import type {
   ChatCompletionOptions,
   StreamEvent,
   TokenUsage,
+  TokenCountRequest,
+  ResponseFormat,
 } from '@/types'
 import type { ToolCall } from '@/types/tools'
 import { BaseProvider } from './base'
 import { getModelConfig } from '../config/providers'
 import { handleProviderError, ModelNotFoundError } from '../errors/apiErrors'
+import { estimateAnthropicImageTokens } from '../utils/tokens'
 import {
   createStartEvent,
   createDeltaEvent,
@@ -21,6 +24,12 @@ import {
   createToolCallsDoneEvent,
 } from '../streaming/encoder'
 
+// Anthropic allows at most four cache breakpoints per request
+const MAX_CACHE_BREAKPOINTS = 4
+// Roughly the 1024-token minimum cacheable prefix; smaller attachments don't earn a breakpoint
+const CACHEABLE_ATTACHMENT_CHARS = 4096
+const CACHE_CONTROL: Anthropic.CacheControlEphemeral = { type: 'ephemeral' }
+
 export class AnthropicProvider extends BaseProvider {
   provider = 'anthropic' as const
   private client: Anthropic | null = null
@@ -40,6 +49,32 @@ export class AnthropicProvider extends BaseProvider {
     this.getApiKey()
   }
 
+  async countTokens(request: TokenCountRequest): Promise<number> {
+    try {
+      const result = await this.getClient().messages.countTokens({
+        model: request.model,
+        messages: this.buildMessages(request),
+        system: request.systemPrompt,
+        tools: request.tools && this.buildTools(request.tools),
+      })
+      // Images sent without their data (e.g. from the token meter) are left out of
+      // the request above, so their cost is estimated from their dimensions
+      const strippedImageTokens = request.messages
+        .flatMap((message) => (message.role === 'user' ? message.images ?? [] : []))
+        .filter((image) => !image.base64?.startsWith('data:'))
+        .reduce((sum, image) => sum + estimateAnthropicImageTokens(image), 0)
+      return result.input_tokens + strippedImageTokens
+    } catch {
+      // Fall back to the local estimate if the count-tokens endpoint is unavailable
+      return super.countTokens(request)
+    }
+  }
+
+  supportsResponseFormat(format: ResponseFormat): boolean {
+    // JSON schemas are enforced by forcing a tool whose input is the schema
+    return format.type !== 'json_object'
+  }
+
   async complete(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
     const startTime = Date.now()
     const model = getModelConfig(request.model)
@@ -51,25 +86,28 @@ export class AnthropicProvider extends BaseProvider {
     try {
       const client = this.getClient()
 
-      // Build Anthropic message format with file support
-      const messages: Anthropic.MessageParam[] = this.buildMessages(request)
+      const system = this.buildSystem(request.options?.systemPrompt)
+      const hasTools = !!request.options?.tools?.length
+
+      // Build Anthropic message format with file support, caching large attachments
+      // with the breakpoints left after the tools and system prompt
+      const messages: Anthropic.MessageParam[] = this.buildMessages(
+        request,
+        MAX_CACHE_BREAKPOINTS - (system ? 1 : 0) - (hasTools ? 1 : 0)
+      )
 
       const requestParams: Anthropic.MessageCreateParams = {
         model: request.model,
         max_tokens: request.options?.maxTokens ?? model.capabilities.maxOutputTokens,
-        system: request.options?.systemPrompt,
+        system,
         messages,
         temperature: request.options?.temperature ?? 0.7,
         top_p: request.options?.topP,
       }
 
       // Add tools if provided
-      if (request.options?.tools && request.options.tools.length > 0) {
-        requestParams.tools = request.options.tools.map((tool) => ({
-          name: tool.function.name,
-          description: tool.function.description,
-          input_schema: tool.function.parameters as Anthropic.Tool['input_schema'],
-        }))
+      if (request.options?.tools && hasTools) {
+        requestParams.tools = this.buildTools(request.options.tools, { cache: true })
 
         // Map tool_choice if provided
         if (request.options.tool_choice) {
@@ -77,23 +115,43 @@ export class AnthropicProvider extends BaseProvider {
         }
       }
 
+      // Structured output: force a tool call whose input schema is the response schema
+      const responseFormat = request.options?.responseFormat
+      const responseTool = responseFormat?.type === 'json_schema' ? responseFormat.json_schema : undefined
+      if (responseTool) {
+        requestParams.tools = [
+          ...(requestParams.tools ?? []),
+          {
+            name: responseTool.name,
+            description: responseTool.description ?? 'Respond with the requested structured output',
+            input_schema: responseTool.schema as Anthropic.Tool['input_schema'],
+          },
+        ]
+        requestParams.tool_choice = { type: 'tool', name: responseTool.name }
+      }
+
       const response = await client.messages.create(requestParams)
 
       // Extract text content
-      const content = response.content
+      let content = response.content
         .filter((block): block is Anthropic.TextBlock => block.type === 'text')
         .map((block) => block.text)
         .join('')
 
       // Extract tool calls
-      const toolCalls = this.extractToolCalls(response.content)
-
-      const usage: TokenUsage = {
-        inputTokens: response.usage.input_tokens,
-        outputTokens: response.usage.output_tokens,
-        totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+      let toolCalls = this.extractToolCalls(response.content)
+      let finishReason = this.mapFinishReason(response.stop_reason)
+
+      // The forced tool's input is the answer, not a call for the client to run
+      const structured = responseTool && toolCalls.find((tc) => tc.function.name === responseTool.name)
+      if (structured) {
+        content = structured.function.arguments
+        toolCalls = toolCalls.filter((tc) => tc !== structured)
+        finishReason = 'stop'
       }
 
+      const usage = this.mapUsage(response.usage)
+
       usage.estimatedCost = this.calculateCost(usage, model)
 
       return {
@@ -107,7 +165,7 @@ export class AnthropicProvider extends BaseProvider {
           model: request.model,
           provider: 'anthropic',
           processingTimeMs: Date.now() - startTime,
-          finishReason: this.mapFinishReason(response.stop_reason),
+          finishReason,
         },
         usage,
       }
@@ -130,25 +188,28 @@ export class AnthropicProvider extends BaseProvider {
     try {
       const client = this.getClient()
 
-      // Build Anthropic message format with file support
-      const messages: Anthropic.MessageParam[] = this.buildMessages(request)
+      const system = this.buildSystem(request.options?.systemPrompt)
+      const hasTools = !!request.options?.tools?.length
+
+      // Build Anthropic message format with file support, caching large attachments
+      // with the breakpoints left after the tools and system prompt
+      const messages: Anthropic.MessageParam[] = this.buildMessages(
+        request,
+        MAX_CACHE_BREAKPOINTS - (system ? 1 : 0) - (hasTools ? 1 : 0)
+      )
 
       const requestParams: Anthropic.MessageStreamParams = {
         model: request.model,
         max_tokens: request.options?.maxTokens ?? model.capabilities.maxOutputTokens,
-        system: request.options?.systemPrompt,
+        system,
         messages,
         temperature: request.options?.temperature ?? 0.7,
         top_p: request.options?.topP,
       }
 
       // Add tools if provided
-      if (request.options?.tools && request.options.tools.length > 0) {
-        requestParams.tools = request.options.tools.map((tool) => ({
-          name: tool.function.name,
-          description: tool.function.description,
-          input_schema: tool.function.parameters as Anthropic.Tool['input_schema'],
-        }))
+      if (request.options?.tools && hasTools) {
+        requestParams.tools = this.buildTools(request.options.tools, { cache: true })
 
         // Map tool_choice if provided
         if (request.options.tool_choice) {
@@ -234,7 +295,7 @@ export class AnthropicProvider extends BaseProvider {
         }
 
         if (event.type === 'message_start' && event.message.usage) {
-          usage.inputTokens = event.message.usage.input_tokens
+          usage = this.mapUsage(event.message.usage)
         }
       }
 
@@ -262,14 +323,53 @@ export class AnthropicProvider extends BaseProvider {
       }
     } catch (error) {
       const apiError = handleProviderError(error, 'anthropic')
-      yield createErrorEvent(apiError.message)
+      yield createErrorEvent(apiError.message, apiError.statusCode)
+    }
+  }
+
+  private buildTools(
+    tools: NonNullable<ChatCompletionOptions['tools']>,
+    options: { cache?: boolean } = {}
+  ): Anthropic.Tool[] {
+    return tools.map((tool, index) => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: tool.function.parameters as Anthropic.Tool['input_schema'],
+      // A breakpoint on the last tool caches every definition before it
+      ...(options.cache && index === tools.length - 1 && { cache_control: CACHE_CONTROL }),
+    }))
+  }
+
+  private buildSystem(systemPrompt?: string): Anthropic.TextBlockParam[] | undefined {
+    if (!systemPrompt) return undefined
+    return [{ type: 'text', text: systemPrompt, cache_control: CACHE_CONTROL }]
+  }
+
+  /**
+   * Input tokens reported by Anthropic exclude cache reads and writes;
+   * fold them back in so inputTokens is the full prompt size
+   */
+  private mapUsage(usage: Anthropic.Usage): TokenUsage {
+    const cacheReadTokens = usage.cache_read_input_tokens ?? 0
+    const cacheWriteTokens = usage.cache_creation_input_tokens ?? 0
+    const inputTokens = usage.input_tokens + cacheReadTokens + cacheWriteTokens
+
+    return {
+      inputTokens,
+      outputTokens: usage.output_tokens,
+      totalTokens: inputTokens + usage.output_tokens,
+      cacheReadTokens,
+      cacheWriteTokens,
     }
   }
 
   private buildMessages(
-    request: ChatCompletionRequest
+    request: Pick<ChatCompletionRequest, 'messages'>,
+    cacheBreakpoints = 0
   ): Anthropic.MessageParam[] {
     const messages: Anthropic.MessageParam[] = []
+    // Indexes of user messages carrying large file attachments
+    const attachmentMessages: number[] = []
 
     for (const msg of request.messages) {
       // Handle tool result messages
@@ -338,13 +438,38 @@ export class AnthropicProvider extends BaseProvider {
       // Handle regular messages (original logic)
       const convertedMsg = this.convertRegularMessage(msg)
       if (convertedMsg) {
+        const attachmentChars = (msg.files ?? [])
+          .filter((f) => f.content && f.status === 'ready')
+          .reduce((sum, f) => sum + f.content!.length, 0)
+        if (convertedMsg.role === 'user' && attachmentChars >= CACHEABLE_ATTACHMENT_CHARS) {
+          attachmentMessages.push(messages.length)
+        }
         messages.push(convertedMsg)
       }
     }
 
+    // The latest attachments are the most likely to be resent on the next turn
+    if (cacheBreakpoints > 0) {
+      for (const index of attachmentMessages.slice(-cacheBreakpoints)) {
+        this.addCacheBreakpoint(messages[index])
+      }
+    }
+
     return messages
   }
 
+  private addCacheBreakpoint(message: Anthropic.MessageParam): void {
+    if (typeof message.content === 'string') {
+      message.content = [{ type: 'text', text: message.content, cache_control: CACHE_CONTROL }]
+      return
+    }
+
+    const last = message.content[message.content.length - 1]
+    if (last?.type === 'text' || last?.type === 'image') {
+      last.cache_control = CACHE_CONTROL
+    }
+  }
+
   private convertRegularMessage(
     msg: ChatCompletionRequest['messages'][0]
   ): Anthropic.MessageParam | null {
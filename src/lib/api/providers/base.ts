@@ -6,6 +6,8 @@ import type {
   ChatCompletionResponse,
   StreamEvent,
   TokenUsage,
+  TokenCountRequest,
+  ResponseFormat,
 } from '@/types'
 import {
   getModelsByProvider,
@@ -14,6 +16,7 @@ import {
   getProviderApiUrl,
 } from '../config/providers'
 import { ProviderNotConfiguredError } from '../errors/apiErrors'
+import { estimateTokens } from '../utils/tokens'
 
 export interface AIProviderInterface {
   provider: AIProvider
@@ -22,7 +25,8 @@ export interface AIProviderInterface {
   getModels(): ModelConfig[]
   complete(request: ChatCompletionRequest): Promise<ChatCompletionResponse>
   stream(request: ChatCompletionRequest): AsyncGenerator<StreamEvent>
-  countTokens(messages: ChatCompletionRequest['messages']): Promise<number>
+  countTokens(request: TokenCountRequest): Promise<number>
+  supportsResponseFormat(format: ResponseFormat): boolean
 }
 
 export abstract class BaseProvider implements AIProviderInterface {
@@ -80,10 +84,17 @@ export abstract class BaseProvider implements AIProviderInterface {
   abstract complete(request: ChatCompletionRequest): Promise<ChatCompletionResponse>
   abstract stream(request: ChatCompletionRequest): AsyncGenerator<StreamEvent>
 
-  async countTokens(messages: ChatCompletionRequest['messages']): Promise<number> {
-    // Default implementation: estimate ~4 chars per token
-    const totalChars = messages.reduce((sum, msg) => sum + (msg.content?.length || 0), 0)
-    return Math.ceil(totalChars / 4)
+  async countTokens(request: TokenCountRequest): Promise<number> {
+    // Default implementation: estimate ~4 chars per token, plus attachments
+    return estimateTokens(request)
+  }
+
+  /**
+   * Whether the provider can constrain output to the format itself. Other
+   * formats are requested through the system prompt (see completeStructured).
+   */
+  supportsResponseFormat(format: ResponseFormat): boolean {
+    return format.type === 'text'
   }
 
   protected abstract healthCheck(): Promise<void>
@@ -95,8 +106,14 @@ export abstract class BaseProvider implements AIProviderInterface {
   protected calculateCost(usage: TokenUsage, model: ModelConfig): number | undefined {
     if (!model.pricing) return undefined
 
-    const inputCost = (usage.inputTokens / 1_000_000) * model.pricing.inputPer1M
-    const outputCost = (usage.outputTokens / 1_000_000) * model.pricing.outputPer1M
+    const { inputPer1M, outputPer1M, cacheReadPer1M = inputPer1M, cacheWritePer1M = inputPer1M } = model.pricing
+    const cacheRead = usage.cacheReadTokens ?? 0
+    const cacheWrite = usage.cacheWriteTokens ?? 0
+    const uncached = Math.max(0, usage.inputTokens - cacheRead - cacheWrite)
+
+    const inputCost =
+      (uncached * inputPer1M + cacheRead * cacheReadPer1M + cacheWrite * cacheWritePer1M) / 1_000_000
+    const outputCost = (usage.outputTokens / 1_000_000) * outputPer1M
 
     return inputCost + outputCost
   }
@@ -8,6 +8,7 @@ import type {
 } from '@/types'
 import type {
   DustAgentConfiguration,
+  DustMention,
   DustConversation,
   DustCreateConversationRequest,
   DustCreateMessageRequest,
@@ -27,6 +28,7 @@ interface DustConversationRequest {
       username?: string
       timezone?: string
     }
+    mentions?: DustMention[]
   }
   blocking?: boolean
 }
@@ -70,7 +72,8 @@ export class DustProvider extends BaseProvider {
     const startTime = Date.now()
     const model = getModelConfig(request.model)
 
-    if (!model || model.provider !== 'dust') {
+    // Workspace agents are not in the model catalog
+    if (model ? model.provider !== 'dust' : !request.model.startsWith('dust-')) {
       throw new ModelNotFoundError(request.model, 'dust')
     }
 
@@ -106,9 +109,7 @@ export class DustProvider extends BaseProvider {
           const workspaceId = parts[1]
           const assistantId = parts.slice(2).join('-')
           endpoint = `${this.getBaseUrl()}/w/${workspaceId}/assistant/conversations`
-          dustRequest.message.context = {
-            ...dustRequest.message.context,
-          }
+          dustRequest.message.mentions = [{ configurationId: assistantId }]
         }
       }
 
@@ -133,7 +134,7 @@ export class DustProvider extends BaseProvider {
       const content = assistantMessage?.content ?? ''
 
       // Estimate tokens
-      const inputTokens = await this.countTokens(request.messages)
+      const inputTokens = await this.countTokens({ model: request.model, messages: request.messages })
       const outputTokens = Math.ceil(content.length / 4)
 
       const usage: TokenUsage = {
@@ -165,7 +166,8 @@ export class DustProvider extends BaseProvider {
     const startTime = Date.now()
     const model = getModelConfig(request.model)
 
-    if (!model || model.provider !== 'dust') {
+    // Workspace agents are not in the model catalog
+    if (model ? model.provider !== 'dust' : !request.model.startsWith('dust-')) {
       throw new ModelNotFoundError(request.model, 'dust')
     }
 
@@ -200,7 +202,9 @@ export class DustProvider extends BaseProvider {
         const parts = request.model.split('-')
         if (parts.length >= 3) {
           const workspaceId = parts[1]
+          const assistantId = parts.slice(2).join('-')
           endpoint = `${this.getBaseUrl()}/w/${workspaceId}/assistant/conversations`
+          dustRequest.message.mentions = [{ configurationId: assistantId }]
         }
       }
 
@@ -252,7 +256,7 @@ export class DustProvider extends BaseProvider {
         }
       }
 
-      const inputTokens = await this.countTokens(request.messages)
+      const inputTokens = await this.countTokens({ model: request.model, messages: request.messages })
       const outputTokens = Math.ceil(fullContent.length / 4)
 
       const usage: TokenUsage = {
@@ -269,7 +273,7 @@ export class DustProvider extends BaseProvider {
       })
     } catch (error) {
       const apiError = handleProviderError(error, 'dust')
-      yield createErrorEvent(apiError.message)
+      yield createErrorEvent(apiError.message, apiError.statusCode)
     }
   }
 
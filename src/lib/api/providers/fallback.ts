@@ -0,0 +1,284 @@
+/**
+ * Provider Fallback
+ *
+ * Runs a chat request against a chain of models (e.g. claude-sonnet-4 →
+ * gpt-4o → claude-3-5-haiku), moving to the next model when a provider fails.
+ * Each provider has a circuit breaker so a provider that keeps failing is
+ * skipped until its cooldown elapses, instead of every request paying for the
+ * retries in retry.ts first.
+ *
+ * Streams fail over transparently as long as nothing has been sent to the
+ * client yet: an error before the first delta moves on to the next model,
+ * and a `fallback` event announces the model that actually answered. Client
+ * errors (a prompt that is too long, an invalid request) are passed through
+ * as they are, since every model would reject them.
+ */
+
+import type {
+  AIProvider,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  StreamEvent,
+} from '@/types'
+import { defaultFallbackChains, getModelConfig, isProviderConfigured, isProviderEnabled } from '../config/providers'
+import { APIError, ProvidersUnavailableError } from '../errors/apiErrors'
+import { createFallbackEvent, createErrorEvent } from '../streaming/encoder'
+import { getCircuitBreaker, type CircuitBreaker } from '../utils/circuit-breaker'
+import { completeStructured } from '../utils/structured-output'
+import { chatLogger } from '@/lib/logging'
+import { getProviderForModel } from './index'
+import type { AIProviderInterface } from './base'
+
+export interface FallbackConfig {
+  enabled: boolean
+  chains: Record<string, string[]>
+  failureThreshold: number
+  cooldownMs: number
+}
+
+interface FallbackAttempt {
+  model: string
+  provider: AIProvider
+  error: string
+}
+
+// Client errors would fail the same way on every model in the chain
+const NON_RETRYABLE_STATUS_CODES = [400, 404, 413, 422]
+
+function isNonRetryable(statusCode: number | undefined): boolean {
+  return statusCode !== undefined && NON_RETRYABLE_STATUS_CODES.includes(statusCode)
+}
+
+/**
+ * Get fallback configuration from environment
+ */
+export function getFallbackConfig(): FallbackConfig {
+  const threshold = parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '', 10)
+  const cooldown = parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_MS || '', 10)
+
+  let chains = defaultFallbackChains
+  if (process.env.PROVIDER_FALLBACK_CHAINS) {
+    try {
+      chains = { ...defaultFallbackChains, ...JSON.parse(process.env.PROVIDER_FALLBACK_CHAINS) }
+    } catch {
+      chatLogger.warn('Ignoring invalid PROVIDER_FALLBACK_CHAINS, expected a JSON object')
+    }
+  }
+
+  return {
+    enabled: process.env.ENABLE_PROVIDER_FALLBACK !== 'false',
+    chains,
+    failureThreshold: isNaN(threshold) ? 5 : threshold,
+    cooldownMs: isNaN(cooldown) ? 30000 : cooldown,
+  }
+}
+
+/**
+ * Resolve the ordered list of models to try for a request: the requested
+ * model followed by its configured fallbacks. Fallbacks are dropped when
+ * their provider is not available or they lack a capability the request
+ * needs (tools, images, files).
+ */
+export function getFallbackChain(
+  request: ChatCompletionRequest,
+  config: FallbackConfig = getFallbackConfig()
+): string[] {
+  if (!config.enabled) return [request.model]
+
+  const needsTools = !!request.options?.tools?.length
+  const needsVision = request.messages.some((m) => m.images && m.images.length > 0)
+  const needsFiles = request.messages.some((m) => m.files && m.files.length > 0)
+
+  const fallbacks = (config.chains[request.model] ?? []).filter((id) => {
+    const model = getModelConfig(id)
+    if (!model || !model.isEnabled) return false
+    if (!isProviderConfigured(model.provider) || !isProviderEnabled(model.provider)) return false
+    if (needsTools && !model.capabilities.functionCalling) return false
+    if (needsVision && !model.capabilities.vision) return false
+    if (needsFiles && !model.capabilities.files) return false
+    return true
+  })
+
+  return Array.from(new Set([request.model, ...fallbacks]))
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+/**
+ * Get the provider for a chain entry if its circuit allows a request.
+ * A half-open circuit is probed with getStatus() before real traffic is sent.
+ */
+async function acquireProvider(
+  model: string,
+  config: FallbackConfig
+): Promise<{ provider: AIProviderInterface; breaker: CircuitBreaker } | null> {
+  const provider = getProviderForModel(model)
+  const breaker = getCircuitBreaker(provider.provider, {
+    failureThreshold: config.failureThreshold,
+    cooldownMs: config.cooldownMs,
+  })
+
+  const wasHalfOpen = breaker.state === 'half_open'
+  if (!breaker.canRequest()) {
+    chatLogger.debug('Skipping provider with open circuit', { model, provider: provider.provider })
+    return null
+  }
+
+  if (wasHalfOpen) {
+    const status = await provider.getStatus()
+    if (!status.isHealthy) {
+      breaker.recordFailure(status.errorMessage)
+      return null
+    }
+  }
+
+  return { provider, breaker }
+}
+
+function logFailover(requestedModel: string, attempt: FallbackAttempt): void {
+  chatLogger.warn('Provider failed, trying next model in fallback chain', {
+    requestedModel,
+    failedModel: attempt.model,
+    provider: attempt.provider,
+    error: attempt.error,
+  })
+}
+
+/**
+ * Complete a request, falling back along the chain on provider failure
+ */
+export async function completeWithFallback(
+  request: ChatCompletionRequest,
+  chain: string[] = getFallbackChain(request),
+  config: FallbackConfig = getFallbackConfig()
+): Promise<ChatCompletionResponse> {
+  const attempts: FallbackAttempt[] = []
+
+  for (const model of chain) {
+    const acquired = await acquireProvider(model, config)
+    if (!acquired) continue
+    const { provider, breaker } = acquired
+
+    try {
+      const response = await completeStructured(provider, { ...request, model, provider: provider.provider })
+      breaker.recordSuccess()
+
+      if (model !== request.model) {
+        response.metadata.fallbackFrom = request.model
+      }
+      return response
+    } catch (error) {
+      if (error instanceof APIError && isNonRetryable(error.statusCode)) {
+        breaker.release()
+        throw error
+      }
+
+      breaker.recordFailure(errorMessage(error))
+      const attempt = { model, provider: provider.provider, error: errorMessage(error) }
+      attempts.push(attempt)
+      logFailover(request.model, attempt)
+    }
+  }
+
+  throw new ProvidersUnavailableError(request.model, attempts)
+}
+
+/**
+ * Stream a request, falling back along the chain when a provider fails
+ * before producing any output. Once the first delta has been sent, errors
+ * are passed through unchanged.
+ */
+export async function* streamWithFallback(
+  request: ChatCompletionRequest,
+  chain: string[] = getFallbackChain(request),
+  config: FallbackConfig = getFallbackConfig()
+): AsyncGenerator<StreamEvent> {
+  const attempts: FallbackAttempt[] = []
+  let startSent = false
+
+  for (const model of chain) {
+    const acquired = await acquireProvider(model, config)
+    if (!acquired) continue
+    const { provider, breaker } = acquired
+
+    let committed = false
+    let failure: string | undefined
+
+    try {
+      for await (const event of provider.stream({ ...request, model, provider: provider.provider })) {
+        // Only the first start event reaches the client
+        if (event.type === 'start') {
+          if (!startSent) {
+            startSent = true
+            yield event
+          }
+          continue
+        }
+
+        if (!committed) {
+          if (event.type === 'error') {
+            // Not the provider's fault: report the real error and leave the circuit alone
+            if (isNonRetryable(event.data.statusCode)) {
+              breaker.release()
+              yield event
+              return
+            }
+            failure = event.data.error || 'Unknown error'
+            break
+          }
+
+          committed = true
+          if (model !== request.model) {
+            yield createFallbackEvent({
+              requestedModel: request.model,
+              model,
+              provider: provider.provider,
+              reason: attempts.map((a) => `${a.model}: ${a.error}`).join('; ') ||
+                'Requested provider is temporarily unavailable',
+            })
+          }
+        }
+
+        if (event.type === 'error') {
+          breaker.recordFailure(event.data.error)
+          yield event
+          return
+        }
+
+        if (event.type === 'done' && model !== request.model && event.data.metadata) {
+          event.data.metadata.fallbackFrom = request.model
+        }
+
+        yield event
+      }
+    } catch (error) {
+      if (committed) {
+        breaker.recordFailure(errorMessage(error))
+        throw error
+      }
+      if (error instanceof APIError && isNonRetryable(error.statusCode)) {
+        breaker.release()
+        throw error
+      }
+      failure = errorMessage(error)
+    }
+
+    if (committed) {
+      breaker.recordSuccess()
+      return
+    }
+
+    const attempt = {
+      model,
+      provider: provider.provider,
+      error: failure ?? 'Stream ended without a response',
+    }
+    breaker.recordFailure(attempt.error)
+    attempts.push(attempt)
+    logFailover(request.model, attempt)
+  }
+
+  yield createErrorEvent(new ProvidersUnavailableError(request.model, attempts).message)
+}
@@ -205,7 +205,8 @@ export class GleanProvider extends BaseProvider {
     const startTime = Date.now()
     const model = getModelConfig(request.model)
 
-    if (!model || model.provider !== 'glean') {
+    // Agents are not in the model catalog
+    if (model ? model.provider !== 'glean' : !request.model.startsWith('glean-agent-')) {
       throw new ModelNotFoundError(request.model, 'glean')
     }
 
@@ -250,7 +251,7 @@ export class GleanProvider extends BaseProvider {
       const structuredCitations = rawCitations.length > 0 ? this.buildCitations(rawCitations) : undefined
 
       // Estimate tokens (Glean doesn't provide token counts)
-      const inputTokens = await this.countTokens(request.messages)
+      const inputTokens = await this.countTokens({ model: request.model, messages: request.messages })
       const outputTokens = Math.ceil(content.length / 4)
 
       const usage: TokenUsage = {
@@ -283,7 +284,8 @@ export class GleanProvider extends BaseProvider {
     const startTime = Date.now()
     const model = getModelConfig(request.model)
 
-    if (!model || model.provider !== 'glean') {
+    // Agents are not in the model catalog
+    if (model ? model.provider !== 'glean' : !request.model.startsWith('glean-agent-')) {
       throw new ModelNotFoundError(request.model, 'glean')
     }
 
@@ -408,7 +410,7 @@ export class GleanProvider extends BaseProvider {
       // Build structured citations for the UI
       const structuredCitations = allRawCitations.length > 0 ? this.buildCitations(allRawCitations) : undefined
 
-      const inputTokens = await this.countTokens(request.messages)
+      const inputTokens = await this.countTokens({ model: request.model, messages: request.messages })
       const outputTokens = Math.ceil(fullContent.length / 4)
 
       const usage: TokenUsage = {
@@ -425,7 +427,7 @@ export class GleanProvider extends BaseProvider {
       }, structuredCitations, fullThinking || undefined)
     } catch (error) {
       const apiError = handleProviderError(error, 'glean')
-      yield createErrorEvent(apiError.message)
+      yield createErrorEvent(apiError.message, apiError.statusCode)
     }
   }
 
@@ -5,14 +5,16 @@ import { AnthropicProvider } from './anthropic'
 import { GleanProvider } from './glean'
 import { DustProvider } from './dust'
 import { OndoBotProvider } from './ondobot'
+import { LocalProvider, LOCAL_MODEL_PREFIX } from './local'
 import {
   providerInfo,
-  modelConfigs,
+  getAllModelConfigs,
   isProviderEnabled,
   isProviderConfigured,
   getModelConfig,
 } from '../config/providers'
 import { ProviderNotFoundError } from '../errors/apiErrors'
+import { apiLogger } from '@/lib/logging'
 
 // Provider registry
 const providerRegistry: Record<AIProvider, new () => BaseProvider> = {
@@ -21,6 +23,7 @@ const providerRegistry: Record<AIProvider, new () => BaseProvider> = {
   glean: GleanProvider,
   dust: DustProvider,
   ondobot: OndoBotProvider,
+  local: LocalProvider,
 }
 
 // Provider instance cache
@@ -51,6 +54,10 @@ export function getProviderForModel(modelId: string): AIProviderInterface {
     if (modelId.startsWith('dust-')) {
       return getProvider('dust')
     }
+    // Local models are registered on discovery, which may not have run yet
+    if (modelId.startsWith(LOCAL_MODEL_PREFIX)) {
+      return getProvider('local')
+    }
     throw new ProviderNotFoundError(modelId)
   }
 
@@ -58,7 +65,7 @@ export function getProviderForModel(modelId: string): AIProviderInterface {
 }
 
 export function getAllProviders(): ProviderInfo[] {
-  const providers: AIProvider[] = ['openai', 'anthropic', 'glean', 'dust', 'ondobot']
+  const providers: AIProvider[] = ['openai', 'anthropic', 'glean', 'dust', 'ondobot', 'local']
 
   return providers.map((provider) => ({
     ...providerInfo[provider],
@@ -68,13 +75,29 @@ export function getAllProviders(): ProviderInfo[] {
 }
 
 export function getEnabledModels(): ModelConfig[] {
-  return modelConfigs.filter((model) => {
+  return getAllModelConfigs().filter((model) => {
     return model.isEnabled && isProviderEnabled(model.provider) && isProviderConfigured(model.provider)
   })
 }
 
+/**
+ * Refresh models discovered at runtime from self-hosted servers.
+ * Discovery failures are logged and leave the previous model list in place.
+ */
+export async function refreshDynamicModels(): Promise<void> {
+  if (!isProviderConfigured('local') || !isProviderEnabled('local')) return
+
+  try {
+    await (getProvider('local') as LocalProvider).discoverModels()
+  } catch (error) {
+    apiLogger.warn('Local model discovery failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  }
+}
+
 export function getConfiguredProviders(): AIProvider[] {
-  const providers: AIProvider[] = ['openai', 'anthropic', 'glean', 'dust', 'ondobot']
+  const providers: AIProvider[] = ['openai', 'anthropic', 'glean', 'dust', 'ondobot', 'local']
   return providers.filter((p) => isProviderConfigured(p) && isProviderEnabled(p))
 }
 
@@ -86,3 +109,11 @@ export { AnthropicProvider } from './anthropic'
 export { GleanProvider } from './glean'
 export { DustProvider } from './dust'
 export { OndoBotProvider } from './ondobot'
+export { LocalProvider, LOCAL_MODEL_PREFIX } from './local'
+export {
+  getFallbackConfig,
+  getFallbackChain,
+  completeWithFallback,
+  streamWithFallback,
+  type FallbackConfig,
+} from './fallback'
@@ -0,0 +1,213 @@
+import 'server-only'
+
+import OpenAI from 'openai'
+import type {
+  AIProvider,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ModelConfig,
+  StreamEvent,
+  TokenCountRequest,
+} from '@/types'
+import { OpenAIProvider } from './openai'
+import { getModelConfig, getProviderApiKey, registerDynamicModels } from '../config/providers'
+import { ProviderNotConfiguredError } from '../errors/apiErrors'
+import { estimateTokens } from '../utils/tokens'
+
+/** Catalog ID prefix for models served by the local provider */
+export const LOCAL_MODEL_PREFIX = 'local/'
+
+/** Resolved to LOCAL_LLM_DEFAULT_MODEL or the first discovered model */
+const LOCAL_DEFAULT_MODEL_ID = `${LOCAL_MODEL_PREFIX}default`
+
+// How long a /v1/models listing is reused before asking the server again
+const DISCOVERY_TTL_MS = 60_000
+
+// Servers reject tool definitions for models without tool support with messages like
+// "registry.ollama.ai/library/gemma:2b does not support tools"
+const TOOLS_UNSUPPORTED_PATTERN = /does not support tools|tools? (?:are|is) not supported/i
+
+/**
+ * Provider for any server implementing the OpenAI chat completions API:
+ * Ollama, vLLM, LM Studio, llama.cpp server, etc.
+ *
+ * Models are discovered from the server's /v1/models endpoint and registered
+ * into the model catalog as `local/<model name>`. Tool calling is attempted
+ * for every model; when the server reports a model cannot use tools, the
+ * model is marked as such and the request is retried without them.
+ */
+export class LocalProvider extends OpenAIProvider {
+  provider: AIProvider = 'local'
+  private discoveredAt = 0
+  private discovery: Promise<ModelConfig[]> | null = null
+
+  private getBaseUrl(): string {
+    const url = this.getApiUrl()
+    if (!url) {
+      throw new ProviderNotConfiguredError(this.provider)
+    }
+    return url.replace(/\/+$/, '')
+  }
+
+  protected getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        baseURL: this.getBaseUrl(),
+        // The SDK requires a key even though most local servers ignore it
+        apiKey: getProviderApiKey(this.provider) || 'local',
+      })
+    }
+    return this.client
+  }
+
+  protected getUpstreamModelId(modelId: string): string {
+    return modelId.startsWith(LOCAL_MODEL_PREFIX) ? modelId.slice(LOCAL_MODEL_PREFIX.length) : modelId
+  }
+
+  protected async healthCheck(): Promise<void> {
+    await this.discoverModels({ force: true })
+  }
+
+  /**
+   * List the server's models and register them into the model catalog.
+   * Results are cached for a minute; concurrent callers share one request.
+   */
+  async discoverModels(options: { force?: boolean } = {}): Promise<ModelConfig[]> {
+    if (!options.force && Date.now() - this.discoveredAt < DISCOVERY_TTL_MS) {
+      return this.getModels()
+    }
+
+    if (!this.discovery) {
+      this.discovery = this.fetchModels()
+        .then((models) => {
+          registerDynamicModels(this.provider, models)
+          this.discoveredAt = Date.now()
+          return models
+        })
+        .finally(() => {
+          this.discovery = null
+        })
+    }
+
+    return this.discovery
+  }
+
+  private async fetchModels(): Promise<ModelConfig[]> {
+    const page = await this.getClient().models.list()
+    const contextWindow = parseInt(process.env.LOCAL_LLM_CONTEXT_WINDOW || '', 10)
+    const maxOutput = parseInt(process.env.LOCAL_LLM_MAX_OUTPUT_TOKENS || '', 10)
+
+    return page.data.map((model) => ({
+      id: `${LOCAL_MODEL_PREFIX}${model.id}`,
+      name: model.id,
+      provider: this.provider,
+      description: `Served by ${model.owned_by || 'local server'}`,
+      capabilities: {
+        streaming: true,
+        vision: false,
+        files: true,
+        // Kept until the server says otherwise (see TOOLS_UNSUPPORTED_PATTERN)
+        functionCalling: this.previousToolSupport(model.id),
+        maxInputTokens: isNaN(contextWindow) ? 8192 : contextWindow,
+        maxOutputTokens: isNaN(maxOutput) ? 2048 : maxOutput,
+      },
+      isEnabled: true,
+    }))
+  }
+
+  private previousToolSupport(upstreamId: string): boolean {
+    return getModelConfig(`${LOCAL_MODEL_PREFIX}${upstreamId}`)?.capabilities.functionCalling ?? true
+  }
+
+  /**
+   * Make sure the requested model is in the catalog, resolving the
+   * `local/default` placeholder used by routing.
+   */
+  private async resolveRequest(request: ChatCompletionRequest): Promise<ChatCompletionRequest> {
+    let modelId = request.model
+
+    if (modelId === LOCAL_DEFAULT_MODEL_ID) {
+      const models = await this.discoverModels()
+      const preferred = process.env.LOCAL_LLM_DEFAULT_MODEL
+      modelId = preferred
+        ? `${LOCAL_MODEL_PREFIX}${this.getUpstreamModelId(preferred)}`
+        : models[0]?.id ?? modelId
+    }
+
+    if (!getModelConfig(modelId)) {
+      await this.discoverModels({ force: true })
+    }
+
+    const model = getModelConfig(modelId)
+    const stripTools = model && !model.capabilities.functionCalling && request.options?.tools?.length
+
+    return {
+      ...request,
+      model: modelId,
+      provider: this.provider,
+      options: stripTools ? withoutTools(request.options) : request.options,
+    }
+  }
+
+  private markToolsUnsupported(modelId: string): void {
+    const model = getModelConfig(modelId)
+    if (model) {
+      model.capabilities.functionCalling = false
+    }
+  }
+
+  async countTokens(request: TokenCountRequest): Promise<number> {
+    // Local models use their own tokenizers; OpenAI's BPE would be no more accurate
+    return estimateTokens(request)
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+    const resolved = await this.resolveRequest(request)
+
+    try {
+      return await super.complete(resolved)
+    } catch (error) {
+      if (!resolved.options?.tools?.length || !isToolsUnsupportedError(error)) {
+        throw error
+      }
+      this.markToolsUnsupported(resolved.model)
+      return super.complete({ ...resolved, options: withoutTools(resolved.options) })
+    }
+  }
+
+  async *stream(request: ChatCompletionRequest): AsyncGenerator<StreamEvent> {
+    const resolved = await this.resolveRequest(request)
+    const hasTools = !!resolved.options?.tools?.length
+    let receivedOutput = false
+
+    for await (const event of super.stream(resolved)) {
+      if (event.type === 'error' && hasTools && !receivedOutput && isToolsUnsupportedError(event.data.error)) {
+        this.markToolsUnsupported(resolved.model)
+        // The start event was already sent; skip the retry's
+        for await (const retryEvent of super.stream({ ...resolved, options: withoutTools(resolved.options) })) {
+          if (retryEvent.type !== 'start') yield retryEvent
+        }
+        return
+      }
+
+      if (event.type !== 'start') receivedOutput = true
+      yield event
+    }
+  }
+}
+
+function withoutTools(
+  options: ChatCompletionRequest['options']
+): ChatCompletionRequest['options'] {
+  if (!options) return options
+  const stripped = { ...options }
+  delete stripped.tools
+  delete stripped.tool_choice
+  delete stripped.parallel_tool_calls
+  return stripped
+}
+
+function isToolsUnsupportedError(error: unknown): boolean {
+  const message = typeof error === 'string' ? error : error instanceof Error ? error.message : ''
+  return TOOLS_UNSUPPORTED_PATTERN.test(message)
+}
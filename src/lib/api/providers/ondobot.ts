@@ -113,7 +113,7 @@ export class OndoBotProvider extends BaseProvider {
       const data: OndoBotResponse = await response.json()
 
       // Estimate tokens if not provided
-      const inputTokens = await this.countTokens(request.messages)
+      const inputTokens = await this.countTokens({ model: request.model, messages: request.messages })
       const outputTokens = data.metadata?.tokensUsed ?? Math.ceil(data.response.length / 4)
 
       const usage: TokenUsage = {
@@ -243,7 +243,7 @@ export class OndoBotProvider extends BaseProvider {
         }
       }
 
-      const inputTokens = await this.countTokens(request.messages)
+      const inputTokens = await this.countTokens({ model: request.model, messages: request.messages })
       const outputTokens = Math.ceil(fullContent.length / 4)
 
       const usage: TokenUsage = {
@@ -262,7 +262,7 @@ export class OndoBotProvider extends BaseProvider {
       })
     } catch (error) {
       const apiError = handleProviderError(error, 'ondobot')
-      yield createErrorEvent(apiError.message)
+      yield createErrorEvent(apiError.message, apiError.statusCode)
     }
   }
 }
@@ -2,15 +2,19 @@ import 'server-only'
 
 import OpenAI from 'openai'
 import type {
+  AIProvider,
   ChatCompletionRequest,
   ChatCompletionResponse,
   StreamEvent,
   TokenUsage,
+  TokenCountRequest,
+  ResponseFormat,
 } from '@/types'
 import type { ToolCall } from '@/types/tools'
 import { BaseProvider } from './base'
 import { getModelConfig } from '../config/providers'
 import { handleProviderError, ModelNotFoundError } from '../errors/apiErrors'
+import { countOpenAITokens } from '../utils/tokens'
 import {
   createStartEvent,
   createDeltaEvent,
@@ -21,10 +25,10 @@ import {
 } from '../streaming/encoder'
 
 export class OpenAIProvider extends BaseProvider {
-  provider = 'openai' as const
-  private client: OpenAI | null = null
+  provider: AIProvider = 'openai'
+  protected client: OpenAI | null = null
 
-  private getClient(): OpenAI {
+  protected getClient(): OpenAI {
     if (!this.client) {
       this.client = new OpenAI({
         apiKey: this.getApiKey(),
@@ -33,17 +37,41 @@ export class OpenAIProvider extends BaseProvider {
     return this.client
   }
 
+  /**
+   * Model name sent to the API. Subclasses for OpenAI-compatible servers map
+   * catalog IDs back to the server's own model names.
+   */
+  protected getUpstreamModelId(modelId: string): string {
+    return modelId
+  }
+
   protected async healthCheck(): Promise<void> {
     const client = this.getClient()
     await client.models.list()
   }
 
+  async countTokens(request: TokenCountRequest): Promise<number> {
+    return countOpenAITokens(request)
+  }
+
+  supportsResponseFormat(): boolean {
+    return true
+  }
+
+  private mapResponseFormat(
+    format: ResponseFormat | undefined
+  ): OpenAI.Chat.Completions.ChatCompletionCreateParams['response_format'] {
+    if (!format || format.type !== 'json_schema') return format
+    const { name, description, schema, strict } = format.json_schema
+    return { type: 'json_schema', json_schema: { name, description, schema, strict } }
+  }
+
   async complete(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
     const startTime = Date.now()
     const model = getModelConfig(request.model)
 
-    if (!model || model.provider !== 'openai') {
-      throw new ModelNotFoundError(request.model, 'openai')
+    if (!model || model.provider !== this.provider) {
+      throw new ModelNotFoundError(request.model, this.provider)
     }
 
     try {
@@ -52,11 +80,12 @@ export class OpenAIProvider extends BaseProvider {
       const messages = this.buildMessages(request)
 
       const requestParams: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming = {
-        model: request.model,
+        model: this.getUpstreamModelId(request.model),
         messages,
         temperature: request.options?.temperature ?? 0.7,
         max_tokens: request.options?.maxTokens ?? model.capabilities.maxOutputTokens,
         top_p: request.options?.topP,
+        response_format: this.mapResponseFormat(request.options?.responseFormat),
       }
 
       // Add tools if provided
@@ -85,6 +114,8 @@ export class OpenAIProvider extends BaseProvider {
         inputTokens: response.usage?.prompt_tokens ?? 0,
         outputTokens: response.usage?.completion_tokens ?? 0,
         totalTokens: response.usage?.total_tokens ?? 0,
+        // Prompt caching is automatic; cached tokens are included in prompt_tokens
+        cacheReadTokens: response.usage?.prompt_tokens_details?.cached_tokens,
       }
 
       usage.estimatedCost = this.calculateCost(usage, model)
@@ -101,14 +132,14 @@ export class OpenAIProvider extends BaseProvider {
         },
         metadata: {
           model: request.model,
-          provider: 'openai',
+          provider: this.provider,
           processingTimeMs: Date.now() - startTime,
           finishReason: this.mapFinishReason(response.choices[0]?.finish_reason),
         },
         usage,
       }
     } catch (error) {
-      throw handleProviderError(error, 'openai')
+      throw handleProviderError(error, this.provider)
     }
   }
 
@@ -266,8 +297,8 @@ export class OpenAIProvider extends BaseProvider {
     const startTime = Date.now()
     const model = getModelConfig(request.model)
 
-    if (!model || model.provider !== 'openai') {
-      throw new ModelNotFoundError(request.model, 'openai')
+    if (!model || model.provider !== this.provider) {
+      throw new ModelNotFoundError(request.model, this.provider)
     }
 
     const id = this.generateId()
@@ -279,13 +310,14 @@ export class OpenAIProvider extends BaseProvider {
       const messages = this.buildMessages(request)
 
       const requestParams: OpenAI.Chat.Completions.ChatCompletionCreateParamsStreaming = {
-        model: request.model,
+        model: this.getUpstreamModelId(request.model),
         messages,
         temperature: request.options?.temperature ?? 0.7,
         max_tokens: request.options?.maxTokens ?? model.capabilities.maxOutputTokens,
         top_p: request.options?.topP,
         stream: true,
         stream_options: { include_usage: true },
+        response_format: this.mapResponseFormat(request.options?.responseFormat),
       }
 
       // Add tools if provided
@@ -375,6 +407,7 @@ export class OpenAIProvider extends BaseProvider {
             inputTokens: chunk.usage.prompt_tokens,
             outputTokens: chunk.usage.completion_tokens,
             totalTokens: chunk.usage.total_tokens,
+            cacheReadTokens: chunk.usage.prompt_tokens_details?.cached_tokens,
           }
         }
       }
@@ -388,21 +421,21 @@ export class OpenAIProvider extends BaseProvider {
       if (toolCalls.length > 0) {
         yield createToolCallsDoneEvent(fullContent || null, toolCalls, usage, {
           model: request.model,
-          provider: 'openai',
+          provider: this.provider,
           processingTimeMs: Date.now() - startTime,
           finishReason,
         })
       } else {
         yield createDoneEvent(fullContent, usage, {
           model: request.model,
-          provider: 'openai',
+          provider: this.provider,
           processingTimeMs: Date.now() - startTime,
           finishReason,
         })
       }
     } catch (error) {
-      const apiError = handleProviderError(error, 'openai')
-      yield createErrorEvent(apiError.message)
+      const apiError = handleProviderError(error, this.provider)
+      yield createErrorEvent(apiError.message, apiError.statusCode)
     }
   }
 
@@ -2,11 +2,13 @@
  * Request Classification System
  *
  * Classifies incoming requests to determine the optimal provider/model routing.
- * Uses rule-based patterns for fast, cost-free classification.
+ * Uses rule-based patterns for fast, cost-free classification, optionally
+ * backed by a small LLM for ambiguous cases (llm_hybrid mode).
  */
 
 import type { ChatCompletionMessage } from '@/types'
 import type { AIProvider } from '@/types/model'
+import { classifyWithLLM, mergeLLMClassification, type LLMClassifierOptions } from './llm-classifier'
 
 export type RequestIntent =
   | 'knowledge_query' // Enterprise knowledge search → Glean
@@ -26,6 +28,12 @@ export interface ClassificationResult {
 export interface ClassificationConfig {
   mode: 'rule_based' | 'llm_hybrid'
   confidenceThreshold: number
+  /** Model used to verify ambiguous classifications in llm_hybrid mode */
+  llmModel?: string
+  /** Latency budget for the LLM verification in ms */
+  llmTimeoutMs?: number
+  /** Called after the LLM verification completes, for usage metering */
+  onCompletion?: LLMClassifierOptions['onCompletion']
 }
 
 // Pattern groups for rule-based classification
@@ -112,7 +120,7 @@ const ACTION_PATTERNS: RegExp[] = [
 /**
  * Extract the latest user message content for classification
  */
-function extractLatestUserContent(messages: ChatCompletionMessage[]): string {
+export function extractLatestUserContent(messages: ChatCompletionMessage[]): string {
   // Find the last user message
   for (let i = messages.length - 1; i >= 0; i--) {
     const msg = messages[i]
@@ -158,14 +166,34 @@ function getDefaultModelForProvider(provider: AIProvider): string {
     openai: 'gpt-4o',
     dust: 'dust-default',
     ondobot: 'ondobot-default',
+    local: 'local/default',
   }
   return defaults[provider]
 }
 
+// Intent to provider mapping used by both classifiers
+const INTENT_PROVIDERS: Record<RequestIntent, AIProvider> = {
+  knowledge_query: 'glean',
+  code_task: 'anthropic',
+  data_analysis: 'openai',
+  action_request: 'glean',
+  general_chat: 'anthropic',
+}
+
+function getSuggestionForIntent(
+  intent: RequestIntent
+): Pick<ClassificationResult, 'suggestedProvider' | 'suggestedModel'> {
+  const provider = INTENT_PROVIDERS[intent]
+  return {
+    suggestedProvider: provider,
+    suggestedModel: getDefaultModelForProvider(provider),
+  }
+}
+
 /**
  * Rule-based request classification
  */
-function classifyWithRules(content: string): ClassificationResult {
+export function classifyWithRules(content: string): ClassificationResult {
   const knowledge = calculatePatternScore(content, KNOWLEDGE_PATTERNS)
   const code = calculatePatternScore(content, CODE_PATTERNS)
   const analysis = calculatePatternScore(content, DATA_ANALYSIS_PATTERNS)
@@ -200,22 +228,10 @@ function classifyWithRules(content: string): ClassificationResult {
   const separation = topScore.score - (secondScore?.score || 0)
   const confidence = Math.min(0.5 + separation + topScore.score * 0.3, 0.95)
 
-  // Map intent to provider
-  const providerMap: Record<RequestIntent, AIProvider> = {
-    knowledge_query: 'glean',
-    code_task: 'anthropic',
-    data_analysis: 'openai',
-    action_request: 'glean',
-    general_chat: 'anthropic',
-  }
-
-  const provider = providerMap[topScore.intent]
-
   return {
     intent: topScore.intent,
     confidence,
-    suggestedProvider: provider,
-    suggestedModel: getDefaultModelForProvider(provider),
+    ...getSuggestionForIntent(topScore.intent),
     reasoning: `Matched ${topScore.matches} patterns for ${topScore.intent} (score: ${topScore.score.toFixed(2)}).`,
   }
 }
@@ -239,20 +255,25 @@ export async function classifyRequest(
     }
   }
 
-  // For now, only rule-based classification
-  // LLM hybrid can be added later for ambiguous cases
   const result = classifyWithRules(content)
 
-  // If confidence is below threshold and LLM hybrid mode is enabled,
-  // we could invoke a small model to clarify intent
-  // For now, we just return the rule-based result
-  if (config.mode === 'llm_hybrid' && result.confidence < config.confidenceThreshold) {
-    // TODO: Implement LLM clarification for ambiguous cases
-    // This would use a fast, cheap model to confirm intent
-    result.reasoning += ' (Below confidence threshold, consider LLM verification.)'
+  if (config.mode !== 'llm_hybrid' || result.confidence >= config.confidenceThreshold) {
+    return result
   }
 
-  return result
+  // Ambiguous: ask a small model, falling back to the rule result on timeout or failure
+  const llmResult = await classifyWithLLM(content, {
+    model: config.llmModel,
+    timeoutMs: config.llmTimeoutMs,
+    onCompletion: config.onCompletion,
+  })
+
+  if (!llmResult) {
+    result.reasoning += ' (Below confidence threshold, LLM verification unavailable.)'
+    return result
+  }
+
+  return mergeLLMClassification(result, llmResult, getSuggestionForIntent)
 }
 
 /**
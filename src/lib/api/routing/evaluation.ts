@@ -0,0 +1,156 @@
+/**
+ * Classifier Evaluation
+ *
+ * Replays a labelled corpus of prompts through a classifier and reports
+ * accuracy, per-intent precision/recall/F1 and a confusion matrix. Used by
+ * `npm run routing:eval` to tune the pattern groups in classifier.ts.
+ */
+
+import { classifyWithRules, type ClassificationResult, type RequestIntent } from './classifier'
+
+export interface LabelledPrompt {
+  prompt: string
+  intent: RequestIntent
+}
+
+export interface IntentMetrics {
+  precision: number
+  recall: number
+  f1: number
+  /** Number of corpus examples labelled with this intent */
+  support: number
+}
+
+export interface Misclassification {
+  prompt: string
+  expected: RequestIntent
+  predicted: RequestIntent
+  confidence: number
+}
+
+export interface ClassifierEvaluation {
+  total: number
+  accuracy: number
+  perIntent: Record<RequestIntent, IntentMetrics>
+  /** confusionMatrix[expected][predicted] = count */
+  confusionMatrix: Record<RequestIntent, Record<RequestIntent, number>>
+  misclassified: Misclassification[]
+}
+
+export const REQUEST_INTENTS: RequestIntent[] = [
+  'knowledge_query',
+  'code_task',
+  'data_analysis',
+  'action_request',
+  'general_chat',
+]
+
+function emptyRow(): Record<RequestIntent, number> {
+  return Object.fromEntries(REQUEST_INTENTS.map((i) => [i, 0])) as Record<RequestIntent, number>
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : numerator / denominator
+}
+
+/**
+ * Check that a value is a known intent label
+ */
+export function isRequestIntent(value: unknown): value is RequestIntent {
+  return typeof value === 'string' && REQUEST_INTENTS.includes(value as RequestIntent)
+}
+
+/**
+ * Evaluate a classifier against a labelled corpus
+ */
+export async function evaluateClassifier(
+  corpus: LabelledPrompt[],
+  classify: (prompt: string) => ClassificationResult | Promise<ClassificationResult> = classifyWithRules
+): Promise<ClassifierEvaluation> {
+  const confusionMatrix = Object.fromEntries(
+    REQUEST_INTENTS.map((i) => [i, emptyRow()])
+  ) as Record<RequestIntent, Record<RequestIntent, number>>
+  const misclassified: Misclassification[] = []
+  let correct = 0
+
+  for (const example of corpus) {
+    const result = await classify(example.prompt)
+    confusionMatrix[example.intent][result.intent]++
+
+    if (result.intent === example.intent) {
+      correct++
+    } else {
+      misclassified.push({
+        prompt: example.prompt,
+        expected: example.intent,
+        predicted: result.intent,
+        confidence: result.confidence,
+      })
+    }
+  }
+
+  const perIntent = {} as Record<RequestIntent, IntentMetrics>
+  for (const intent of REQUEST_INTENTS) {
+    const truePositives = confusionMatrix[intent][intent]
+    const support = REQUEST_INTENTS.reduce((sum, p) => sum + confusionMatrix[intent][p], 0)
+    const predicted = REQUEST_INTENTS.reduce((sum, e) => sum + confusionMatrix[e][intent], 0)
+    const precision = ratio(truePositives, predicted)
+    const recall = ratio(truePositives, support)
+
+    perIntent[intent] = {
+      precision,
+      recall,
+      f1: ratio(2 * precision * recall, precision + recall),
+      support,
+    }
+  }
+
+  return {
+    total: corpus.length,
+    accuracy: ratio(correct, corpus.length),
+    perIntent,
+    confusionMatrix,
+    misclassified,
+  }
+}
+
+/**
+ * Render an evaluation as a plain-text report
+ */
+export function formatEvaluationReport(evaluation: ClassifierEvaluation): string {
+  const pct = (n: number) => `${(n * 100).toFixed(1)}%`.padStart(7)
+  const col = 16
+  const lines: string[] = []
+
+  lines.push(`Examples: ${evaluation.total}   Accuracy: ${pct(evaluation.accuracy).trim()}`)
+  lines.push('')
+  lines.push(`${'intent'.padEnd(col)}precision  recall      f1  support`)
+  for (const intent of REQUEST_INTENTS) {
+    const m = evaluation.perIntent[intent]
+    lines.push(
+      `${intent.padEnd(col)}  ${pct(m.precision)} ${pct(m.recall)} ${pct(m.f1)} ${String(m.support).padStart(8)}`
+    )
+  }
+
+  lines.push('')
+  lines.push('Confusion matrix (rows = expected, columns = predicted)')
+  lines.push(''.padEnd(col) + REQUEST_INTENTS.map((i) => i.slice(0, 9).padStart(10)).join(''))
+  for (const expected of REQUEST_INTENTS) {
+    lines.push(
+      expected.padEnd(col) +
+        REQUEST_INTENTS.map((p) => String(evaluation.confusionMatrix[expected][p]).padStart(10)).join('')
+    )
+  }
+
+  if (evaluation.misclassified.length > 0) {
+    lines.push('')
+    lines.push('Misclassified')
+    for (const miss of evaluation.misclassified) {
+      lines.push(
+        `  [${miss.expected} -> ${miss.predicted} @ ${miss.confidence.toFixed(2)}] ${miss.prompt}`
+      )
+    }
+  }
+
+  return lines.join('\n')
+}
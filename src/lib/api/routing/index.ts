@@ -10,6 +10,7 @@ import type { AIProvider } from '@/types/model'
 import {
   classifyRequest,
   adjustForMultiModal,
+  type ClassificationConfig,
   type ClassificationResult,
   type RequestIntent,
 } from './classifier'
@@ -30,6 +31,8 @@ export interface RoutingOptions {
   providerPreferences?: Partial<Record<RequestIntent, AIProvider>>
   /** Model overrides by intent type */
   modelOverrides?: Partial<Record<RequestIntent, string>>
+  /** Called after an LLM classification completes, for usage metering */
+  onCompletion?: ClassificationConfig['onCompletion']
 }
 
 // Default provider preferences
@@ -57,15 +60,20 @@ export function getRoutingConfig(): {
   mode: 'rule_based' | 'llm_hybrid'
   confidenceThreshold: number
   autoRoutingEnabled: boolean
+  llmModel?: string
+  llmTimeoutMs?: number
 } {
   const mode = (process.env.ROUTING_MODE || 'rule_based') as 'rule_based' | 'llm_hybrid'
   const threshold = parseFloat(process.env.ROUTING_CONFIDENCE_THRESHOLD || '0.7')
   const autoEnabled = process.env.ENABLE_AUTO_ROUTING === 'true'
+  const llmTimeout = parseInt(process.env.ROUTING_LLM_TIMEOUT_MS || '', 10)
 
   return {
     mode,
     confidenceThreshold: isNaN(threshold) ? 0.7 : threshold,
     autoRoutingEnabled: autoEnabled,
+    llmModel: process.env.ROUTING_LLM_MODEL || undefined,
+    llmTimeoutMs: isNaN(llmTimeout) ? undefined : llmTimeout,
   }
 }
 
@@ -90,6 +98,9 @@ export async function getRouteForRequest(
   let classification = await classifyRequest(request.messages, {
     mode: envConfig.mode,
     confidenceThreshold: options.confidenceThreshold || envConfig.confidenceThreshold,
+    llmModel: envConfig.llmModel,
+    llmTimeoutMs: envConfig.llmTimeoutMs,
+    onCompletion: options.onCompletion,
   })
 
   // Adjust for multi-modal content
@@ -131,7 +142,19 @@ export function mapIntentToRoute(
 
 // Re-export types and functions from classifier
 export type { ClassificationResult, RequestIntent } from './classifier'
-export { classifyRequest, hasMultiModalContent, adjustForMultiModal } from './classifier'
+export {
+  classifyRequest,
+  classifyWithRules,
+  extractLatestUserContent,
+  hasMultiModalContent,
+  adjustForMultiModal,
+} from './classifier'
+export {
+  classifyWithLLM,
+  clearLLMClassificationCache,
+  type LLMClassification,
+  type LLMClassifierOptions,
+} from './llm-classifier'
 
 // Re-export knowledge router
 export {
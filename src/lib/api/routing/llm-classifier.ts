@@ -0,0 +1,269 @@
+/**
+ * LLM Intent Classifier
+ *
+ * Second-opinion classification for ambiguous requests. When the rule-based
+ * classifier is not confident, a fast, cheap model is asked to pick one of the
+ * RequestIntent values via a forced tool call (structured output). Results are
+ * cached by message content and bounded by a hard latency budget so routing
+ * never waits on a slow model.
+ */
+
+import type { ChatCompletionRequest, ChatCompletionResponse } from '@/types'
+import type { ToolAPIFormat } from '@/types/tools'
+import { getModelConfig, isProviderConfigured } from '@/lib/api/config/providers'
+import { chatLogger } from '@/lib/logging'
+import type { ClassificationResult, RequestIntent } from './classifier'
+
+export interface LLMClassifierOptions {
+  /** Model used for classification (default: gpt-4o-mini, falling back to claude-3-5-haiku) */
+  model?: string
+  /** Hard latency budget in ms before falling back to the rule result (default: 1500) */
+  timeoutMs?: number
+  /** Called after the classifier completion, for usage metering; also when it missed the latency budget */
+  onCompletion?: (response: ChatCompletionResponse) => void
+}
+
+export interface LLMClassification {
+  intent: RequestIntent
+  confidence: number
+  reasoning: string
+  model: string
+}
+
+const INTENTS: RequestIntent[] = [
+  'knowledge_query',
+  'code_task',
+  'data_analysis',
+  'action_request',
+  'general_chat',
+]
+
+const DEFAULT_TIMEOUT_MS = 1500
+const CLASSIFIER_MODELS = ['gpt-4o-mini', 'claude-3-5-haiku-20241022']
+
+const CLASSIFY_TOOL: ToolAPIFormat = {
+  type: 'function',
+  function: {
+    name: 'classify_intent',
+    description: 'Record the intent of the user request.',
+    parameters: {
+      type: 'object',
+      properties: {
+        intent: {
+          type: 'string',
+          description: 'The single best intent for the request',
+          enum: INTENTS,
+        },
+        confidence: {
+          type: 'number',
+          description: 'Confidence in the chosen intent, from 0 to 1',
+        },
+        reasoning: {
+          type: 'string',
+          description: 'One short sentence explaining the choice',
+        },
+      },
+      required: ['intent', 'confidence'],
+    },
+  },
+}
+
+const SYSTEM_PROMPT = `You route requests inside a company AI assistant. Classify the user's request into exactly one intent:
+- knowledge_query: questions about the company, its people, policies, processes, projects or internal documents
+- code_task: writing, explaining, reviewing or debugging code, including questions about programming languages, types and APIs
+- data_analysis: calculations, statistics, metrics, spreadsheets or charts
+- action_request: performing an action in an external system (tickets, messages, meetings, CRM records, workflows)
+- general_chat: anything else
+A general programming question (e.g. "what is the TypeScript type for X") is a code_task, not a knowledge_query.
+Always answer by calling the classify_intent tool.`
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+const CACHE_TTL_MS = 10 * 60_000 // 10 minutes
+const CACHE_MAX_ENTRIES = 500
+
+interface CacheEntry {
+  result: LLMClassification
+  expiresAt: number
+}
+
+const cache = new Map<string, CacheEntry>()
+
+function cacheKey(content: string, model: string): string {
+  return `${model}:${content.trim().toLowerCase().replace(/\s+/g, ' ')}`
+}
+
+function readCache(key: string): LLMClassification | undefined {
+  const entry = cache.get(key)
+  if (!entry) return undefined
+  if (entry.expiresAt < Date.now()) {
+    cache.delete(key)
+    return undefined
+  }
+  // Refresh insertion order so the oldest-used entry is evicted first
+  cache.delete(key)
+  cache.set(key, entry)
+  return entry.result
+}
+
+function writeCache(key: string, result: LLMClassification): void {
+  if (cache.size >= CACHE_MAX_ENTRIES) {
+    const oldest = cache.keys().next().value
+    if (oldest !== undefined) cache.delete(oldest)
+  }
+  cache.set(key, { result, expiresAt: Date.now() + CACHE_TTL_MS })
+}
+
+/**
+ * Clear cached LLM classifications
+ */
+export function clearLLMClassificationCache(): void {
+  cache.clear()
+}
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+/**
+ * Pick the classifier model: the requested one if its provider is configured,
+ * otherwise the first configured default.
+ */
+function resolveClassifierModel(requested?: string): string | undefined {
+  const candidates = requested ? [requested, ...CLASSIFIER_MODELS] : CLASSIFIER_MODELS
+  return candidates.find((id) => {
+    const model = getModelConfig(id)
+    return model?.capabilities.functionCalling && isProviderConfigured(model.provider)
+  })
+}
+
+function parseClassification(rawArguments: string, model: string): LLMClassification | null {
+  let parsed: { intent?: unknown; confidence?: unknown; reasoning?: unknown }
+  try {
+    parsed = JSON.parse(rawArguments)
+  } catch {
+    return null
+  }
+
+  if (typeof parsed.intent !== 'string' || !INTENTS.includes(parsed.intent as RequestIntent)) {
+    return null
+  }
+
+  const confidence = typeof parsed.confidence === 'number' ? parsed.confidence : 0.7
+
+  return {
+    intent: parsed.intent as RequestIntent,
+    confidence: Math.max(0, Math.min(1, confidence)),
+    reasoning: typeof parsed.reasoning === 'string' ? parsed.reasoning : '',
+    model,
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T | null> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<null>((resolve) => {
+    timeoutId = setTimeout(() => resolve(null), timeoutMs)
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timeoutId))
+}
+
+async function requestClassification(
+  content: string,
+  model: string,
+  onCompletion?: LLMClassifierOptions['onCompletion']
+): Promise<LLMClassification | null> {
+  // Loaded lazily so the rule-based classifier stays importable outside the
+  // Next.js server runtime (e.g. the offline evaluation script)
+  const { getProviderForModel } = await import('@/lib/api/providers')
+  const provider = getProviderForModel(model)
+  const request: ChatCompletionRequest = {
+    conversationId: 'routing-classifier',
+    provider: provider.provider,
+    model,
+    messages: [{ role: 'user', content }],
+    options: {
+      systemPrompt: SYSTEM_PROMPT,
+      temperature: 0,
+      maxTokens: 150,
+      stream: false,
+      tools: [CLASSIFY_TOOL],
+      tool_choice: { type: 'function', function: { name: CLASSIFY_TOOL.function.name } },
+    },
+  }
+
+  const response = await provider.complete(request)
+  onCompletion?.(response)
+  const toolCall = response.message.tool_calls?.find(
+    (tc) => tc.function.name === CLASSIFY_TOOL.function.name
+  )
+  return toolCall ? parseClassification(toolCall.function.arguments, model) : null
+}
+
+/**
+ * Ask a small model to classify the request intent.
+ *
+ * Returns null when no classifier model is configured, the model does not
+ * answer within the latency budget, or its answer cannot be parsed. Callers
+ * should keep the rule-based result in that case.
+ */
+export async function classifyWithLLM(
+  content: string,
+  options: LLMClassifierOptions = {}
+): Promise<LLMClassification | null> {
+  const model = resolveClassifierModel(options.model)
+  if (!model) return null
+
+  const key = cacheKey(content, model)
+  const cached = readCache(key)
+  if (cached) return cached
+
+  const startTime = Date.now()
+  try {
+    const result = await withTimeout(
+      requestClassification(content, model, options.onCompletion),
+      options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    )
+
+    if (!result) {
+      chatLogger.warn('LLM classification unavailable, using rule result', {
+        model,
+        duration: Date.now() - startTime,
+      })
+      return null
+    }
+
+    writeCache(key, result)
+    return result
+  } catch (error) {
+    chatLogger.warn('LLM classification failed, using rule result', {
+      model,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    return null
+  }
+}
+
+/**
+ * Merge an LLM classification into the rule-based result
+ */
+export function mergeLLMClassification(
+  ruleResult: ClassificationResult,
+  llmResult: LLMClassification,
+  providerForIntent: (intent: RequestIntent) => Pick<ClassificationResult, 'suggestedProvider' | 'suggestedModel'>
+): ClassificationResult {
+  const agrees = llmResult.intent === ruleResult.intent
+
+  return {
+    intent: llmResult.intent,
+    // Agreement between both classifiers is stronger evidence than either alone
+    confidence: agrees
+      ? Math.max(ruleResult.confidence, llmResult.confidence)
+      : llmResult.confidence,
+    ...providerForIntent(llmResult.intent),
+    reasoning:
+      `${ruleResult.reasoning} LLM (${llmResult.model}) classified as ${llmResult.intent}` +
+      (llmResult.reasoning ? `: ${llmResult.reasoning}` : '.'),
+  }
+}
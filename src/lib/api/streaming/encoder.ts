@@ -1,6 +1,6 @@
-import type { StreamEvent, StreamEventData, TokenUsage, ChatCompletionMetadata } from '@/types'
+import type { StreamEvent, StreamEventData, TokenUsage, ChatCompletionMetadata, FallbackInfo } from '@/types'
 import type { Citation } from '@/types/chat'
-import type { ToolCall } from '@/types/tools'
+import type { ToolCall, ToolExecutionRecord } from '@/types/tools'
 
 const encoder = new TextEncoder()
 
@@ -42,8 +42,12 @@ export function createDoneEvent(
   })
 }
 
-export function createErrorEvent(error: string): StreamEvent {
-  return createStreamEvent('error', { error })
+export function createErrorEvent(error: string, statusCode?: number): StreamEvent {
+  return createStreamEvent('error', { error, statusCode })
+}
+
+export function createFallbackEvent(fallback: FallbackInfo): StreamEvent {
+  return createStreamEvent('fallback', { fallback })
 }
 
 export function createThinkingDeltaEvent(thinking: string): StreamEvent {
@@ -69,6 +73,14 @@ export function createToolCallDeltaEvent(
   })
 }
 
+export function createToolCallEvent(toolCalls: ToolCall[]): StreamEvent {
+  return createStreamEvent('tool_call', { tool_calls: toolCalls })
+}
+
+export function createToolResultEvent(execution: ToolExecutionRecord): StreamEvent {
+  return createStreamEvent('tool_result', { tool_execution: execution })
+}
+
 export function createToolCallsDoneEvent(
   content: string | null,
   toolCalls: ToolCall[],
@@ -149,6 +161,21 @@ export function createSSEStream(
   })
 }
 
+/**
+ * Pass stream events through, reporting the final usage once the answer is done
+ */
+export async function* meterStream(
+  events: AsyncGenerator<StreamEvent>,
+  onDone: (usage: TokenUsage, metadata: ChatCompletionMetadata) => void
+): AsyncGenerator<StreamEvent> {
+  for await (const event of events) {
+    if (event.type === 'done' && event.data.usage && event.data.metadata) {
+      onDone(event.data.usage, event.data.metadata)
+    }
+    yield event
+  }
+}
+
 export function parseSSEResponse(data: string): StreamEvent | null {
   const lines = data.split('\n')
 
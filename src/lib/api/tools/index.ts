@@ -0,0 +1,339 @@
+/**
+ * Server-side Tool Loop
+ *
+ * By default /api/chat hands tool calls back to the browser, which runs them
+ * and sends the results in a follow-up request. With
+ * `options.toolExecution: 'server'` the route runs the loop itself instead:
+ * the model's tool calls are executed with a server-side ToolRegistry and
+ * their results sent back to the model until it answers without tools or the
+ * step limit is reached. Streams carry a `tool_call` event before each round
+ * of tools and a `tool_result` event per finished tool.
+ *
+ * Workspace tool policies apply as in the browser, but nobody is there to
+ * approve a call: a round with a call that needs approval ends the loop, and
+ * the answer carries those tool calls unexecuted for the client to confirm.
+ *
+ * Conversations in a workspace can also use the tools of its MCP servers,
+ * which the server calls directly.
+ *
+ * This is what API-key clients, scheduled runs and anything else without a
+ * browser tab use. The gateway (/api/v1) runs the same loop with
+ * `tool_execution: 'server'`, minus the tools that call the app's own API
+ * routes: those only accept a signed-in user, not an API key.
+ */
+
+import type {
+  ChatCompletionMessage,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  StreamEvent,
+  TokenUsage,
+} from '@/types'
+import type {
+  ParsedToolCall,
+  ToolAPIFormat,
+  ToolCall,
+  ToolExecutionContext,
+  ToolExecutionRecord,
+  ToolPolicies,
+} from '@/types/tools'
+import {
+  ToolRegistry,
+  builtinTools,
+  disabledToolResult,
+  getToolPolicy,
+  getToolSideEffect,
+  syncMcpTools,
+} from '@/lib/tools'
+import { createWorkspaceMcpHandler, getWorkspaceMcpCatalog } from '../mcp'
+import { ValidationError } from '../errors/apiErrors'
+import { createToolCallEvent, createToolResultEvent } from '../streaming/encoder'
+import { chatLogger } from '@/lib/logging'
+
+/** Tool rounds allowed when the request does not set maxToolSteps */
+export const DEFAULT_MAX_TOOL_STEPS = 5
+export const MAX_TOOL_STEPS = 10
+
+export interface ToolLoopOptions {
+  /** Tool rounds before the answer is returned with its tool calls unexecuted */
+  maxSteps: number
+  context: ToolExecutionContext
+  /** Tool policies of the conversation's workspace */
+  policies?: ToolPolicies
+  /** Tools the loop can run (default: the server's built-in tools) */
+  registry?: ToolRegistry
+}
+
+let serverToolRegistry: ToolRegistry | null = null
+
+/**
+ * Registry of the tools the server can run; separate from the browser's
+ * singleton so enabling a tool in one never affects the other
+ */
+export function getServerToolRegistry(): ToolRegistry {
+  if (!serverToolRegistry) {
+    serverToolRegistry = new ToolRegistry()
+    for (const tool of builtinTools) {
+      serverToolRegistry.register(tool)
+    }
+  }
+  return serverToolRegistry
+}
+
+/**
+ * The server's tools plus those of the workspace's MCP servers
+ */
+export async function getWorkspaceToolRegistry(workspaceId: string): Promise<ToolRegistry> {
+  const registry = new ToolRegistry()
+  for (const tool of getServerToolRegistry().getAllTools()) {
+    registry.register(tool)
+  }
+
+  const { tools } = await getWorkspaceMcpCatalog(workspaceId)
+  syncMcpTools(registry, tools, createWorkspaceMcpHandler(workspaceId))
+  return registry
+}
+
+/**
+ * Tools an API key can run: the server's (and its workspace's MCP servers')
+ * except those that need a signed-in user
+ */
+export async function getGatewayToolRegistry(workspaceId: string | null): Promise<ToolRegistry> {
+  const source = workspaceId ? await getWorkspaceToolRegistry(workspaceId) : getServerToolRegistry()
+  const registry = new ToolRegistry()
+  for (const tool of source.getAllTools()) {
+    if (!tool.usesAppApi) registry.register(tool)
+  }
+  return registry
+}
+
+/**
+ * Leave out the tools a workspace disabled, so the model is never offered them
+ */
+export function filterDisabledTools(tools: ToolAPIFormat[], policies?: ToolPolicies): ToolAPIFormat[] {
+  return tools.filter((tool) => policies?.[tool.function.name] !== 'disabled')
+}
+
+/**
+ * Read `options.maxToolSteps` (or the gateway's `max_tool_steps`) from a request body
+ */
+export function parseMaxToolSteps(value: unknown, field = 'maxToolSteps'): number {
+  if (value === undefined || value === null) return DEFAULT_MAX_TOOL_STEPS
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_TOOL_STEPS) {
+    throw new ValidationError(`${field} must be an integer between 1 and ${MAX_TOOL_STEPS}`)
+  }
+  return value
+}
+
+/**
+ * Swap the requested tools for the server's own definitions, so the model
+ * only ever sees tools the server can run
+ */
+export function resolveServerTools(
+  tools: ToolAPIFormat[],
+  registry: ToolRegistry = getServerToolRegistry()
+): ToolAPIFormat[] {
+  const unknown = tools.map((tool) => tool.function.name).filter((name) => !registry.getTool(name))
+  if (unknown.length > 0) {
+    throw new ValidationError(`Tools not available for server-side execution: ${unknown.join(', ')}`)
+  }
+  return registry.toAPIFormat(tools.map((tool) => tool.function.name))
+}
+
+/**
+ * Context for tools that call the app's own API routes: relative paths are
+ * resolved against the incoming request and sent with its cookies, so those
+ * routes see the same user
+ */
+export function createToolContext(request: Request): ToolExecutionContext {
+  const origin = new URL(request.url).origin
+  const cookie = request.headers.get('cookie')
+
+  return {
+    fetch: (path, init) => {
+      const headers = new Headers(init?.headers)
+      if (cookie) headers.set('cookie', cookie)
+      return fetch(new URL(path, origin), { ...init, headers })
+    },
+  }
+}
+
+function addUsage(total: TokenUsage | undefined, usage: TokenUsage): TokenUsage {
+  if (!total) return usage
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+    cacheReadTokens: (total.cacheReadTokens ?? 0) + (usage.cacheReadTokens ?? 0) || undefined,
+    cacheWriteTokens: (total.cacheWriteTokens ?? 0) + (usage.cacheWriteTokens ?? 0) || undefined,
+    estimatedCost:
+      total.estimatedCost === undefined && usage.estimatedCost === undefined
+        ? undefined
+        : (total.estimatedCost ?? 0) + (usage.estimatedCost ?? 0),
+  }
+}
+
+/**
+ * Whether any call of a round must wait for the user's approval
+ */
+function needsConfirmation(toolCalls: ToolCall[], options: ToolLoopOptions): boolean {
+  const registry = options.registry ?? getServerToolRegistry()
+  return toolCalls.some((call) => {
+    const parsed = registry.parseToolCall(call)
+    const sideEffect = getToolSideEffect(registry.getTool(parsed.name), parsed.arguments)
+    return getToolPolicy(parsed.name, sideEffect, options.policies) === 'ask'
+  })
+}
+
+/**
+ * Run one round of tool calls and extend the conversation with the model's
+ * turn and the tool results
+ */
+async function executeStep(
+  request: ChatCompletionRequest,
+  content: string | null | undefined,
+  toolCalls: ToolCall[],
+  options: ToolLoopOptions
+): Promise<{ request: ChatCompletionRequest; executions: ToolExecutionRecord[] }> {
+  const registry = options.registry ?? getServerToolRegistry()
+  const calls = toolCalls.map((call) => registry.parseToolCall(call))
+  const isDisabled = (call: ParsedToolCall) => options.policies?.[call.name] === 'disabled'
+
+  const executed = await registry.executeToolCalls(
+    calls.filter((call) => !isDisabled(call)),
+    { parallel: request.options?.parallel_tool_calls !== false, context: options.context }
+  )
+  const executions = calls.map((call): ToolExecutionRecord => {
+    const execution = executed.find((record) => record.id === call.id)
+    if (execution) return execution
+    const now = Date.now()
+    return {
+      id: call.id,
+      toolName: call.name,
+      arguments: call.arguments,
+      result: disabledToolResult(call.name),
+      startedAt: now,
+      completedAt: now,
+      duration: 0,
+    }
+  })
+
+  chatLogger.info('Executed server-side tool calls', {
+    conversationId: request.conversationId,
+    tools: executions.map((execution) => execution.toolName),
+    failed: executions.filter((execution) => !execution.result.success).length,
+  })
+
+  const messages: ChatCompletionMessage[] = [
+    ...request.messages,
+    { role: 'assistant', content: content ?? '', tool_calls: toolCalls },
+    ...executions.map((execution) => ({
+      role: 'tool' as const,
+      content: execution.result.success
+        ? execution.result.output
+        : execution.result.error || 'Tool execution failed',
+      tool_call_id: execution.id,
+    })),
+  ]
+
+  return { request: { ...request, messages }, executions }
+}
+
+/**
+ * Whether a round of tool calls is handed back instead of run: the step
+ * limit is reached or a call needs the user's approval
+ */
+function isLastStep(
+  request: ChatCompletionRequest,
+  toolCalls: ToolCall[],
+  step: number,
+  options: ToolLoopOptions
+): boolean {
+  if (step >= options.maxSteps) {
+    chatLogger.warn('Tool step limit reached', {
+      conversationId: request.conversationId,
+      maxSteps: options.maxSteps,
+    })
+    return true
+  }
+  if (needsConfirmation(toolCalls, options)) {
+    chatLogger.info('Tool calls need confirmation', {
+      conversationId: request.conversationId,
+      tools: toolCalls.map((call) => call.function.name),
+    })
+    return true
+  }
+  return false
+}
+
+/**
+ * Stream a chat request, running its tool calls on the server between model
+ * turns. Text from every turn is streamed as deltas; only the final `done`
+ * is passed on, with the usage of all turns.
+ */
+export async function* streamWithTools(
+  request: ChatCompletionRequest,
+  streamTurn: (request: ChatCompletionRequest) => AsyncGenerator<StreamEvent>,
+  options: ToolLoopOptions
+): AsyncGenerator<StreamEvent> {
+  let current = request
+  let usage: TokenUsage | undefined
+
+  for (let step = 0; ; step++) {
+    let turnDone: StreamEvent | undefined
+
+    for await (const event of streamTurn(current)) {
+      if (event.type === 'start' && step > 0) continue
+      if (event.type === 'done') {
+        turnDone = event
+        break
+      }
+      yield event
+      if (event.type === 'error') return
+    }
+
+    if (!turnDone) return
+    if (turnDone.data.usage) usage = addUsage(usage, turnDone.data.usage)
+
+    const toolCalls = turnDone.data.tool_calls
+    if (!toolCalls?.length || isLastStep(request, toolCalls, step, options)) {
+      yield { ...turnDone, data: { ...turnDone.data, usage } }
+      return
+    }
+
+    yield createToolCallEvent(toolCalls)
+    const next = await executeStep(current, turnDone.data.content, toolCalls, options)
+    for (const execution of next.executions) {
+      yield createToolResultEvent(execution)
+    }
+    current = next.request
+  }
+}
+
+/**
+ * Complete a chat request, running its tool calls on the server between
+ * model turns. The response lists every tool the server ran.
+ */
+export async function completeWithTools(
+  request: ChatCompletionRequest,
+  completeTurn: (request: ChatCompletionRequest) => Promise<ChatCompletionResponse>,
+  options: ToolLoopOptions
+): Promise<ChatCompletionResponse> {
+  let current = request
+  let usage: TokenUsage | undefined
+  const toolExecutions: ToolExecutionRecord[] = []
+
+  for (let step = 0; ; step++) {
+    const response = await completeTurn(current)
+    usage = addUsage(usage, response.usage)
+
+    const toolCalls = response.message.tool_calls
+    if (!toolCalls?.length || isLastStep(request, toolCalls, step, options)) {
+      return { ...response, usage, tool_executions: toolExecutions }
+    }
+
+    const next = await executeStep(current, response.message.content, toolCalls, options)
+    toolExecutions.push(...next.executions)
+    current = next.request
+  }
+}
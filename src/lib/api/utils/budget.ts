@@ -0,0 +1,86 @@
+/**
+ * Budget enforcement for chat requests
+ *
+ * Blocks requests once a workspace, member or model budget is used up, and
+ * drops fallback models whose own budget is exhausted.
+ *
+ * Provider keys are shared across the organization, so requests made outside
+ * a workspace (personal chats, chats without a conversation, personal API
+ * keys) are held to the budgets of every workspace the user belongs to.
+ * Otherwise leaving out the conversation would step around a member budget.
+ * Such usage is recorded without a workspace and counts towards the user's
+ * member budget in each of them.
+ */
+
+import { checkWorkspaceBudgets, describeBudget } from '@/lib/db/services/budget'
+import { getUserWorkspaces, parseWorkspaceSettings } from '@/lib/db/services/workspace'
+import type { WorkspaceBudgetPolicy } from '@/types'
+import { BudgetExceededError } from '../errors/apiErrors'
+
+export interface BudgetEnforcement {
+  /** Fallback chain without models that are over budget */
+  fallbackChain: string[]
+  /** Warning for the closest budget past a threshold, if any */
+  warning?: string
+}
+
+/**
+ * @throws BudgetExceededError if the workspace, the member or the requested
+ * model (the head of the chain) is over budget
+ */
+export async function enforceWorkspaceBudgets(
+  workspaceId: string,
+  userId: string,
+  fallbackChain: string[],
+  policy: WorkspaceBudgetPolicy | undefined,
+  workspaceName?: string
+): Promise<BudgetEnforcement> {
+  const check = await checkWorkspaceBudgets(workspaceId, userId, fallbackChain, policy)
+
+  const blockedModels = new Set(check.exceeded.filter((b) => b.scope === 'model').map((b) => b.model))
+  const blocking = check.exceeded.find((b) => b.scope !== 'model' || b.model === fallbackChain[0])
+  if (blocking) {
+    throw new BudgetExceededError(describeBudget(blocking, workspaceName), blocking)
+  }
+
+  const closest = check.warnings
+    .filter((b) => b.scope !== 'model' || b.model === fallbackChain[0])
+    .sort((a, b) => b.used / b.limit - a.used / a.limit)[0]
+
+  return {
+    fallbackChain: fallbackChain.filter((model) => !blockedModels.has(model)),
+    warning: closest ? describeBudget(closest, workspaceName) : undefined,
+  }
+}
+
+/**
+ * Enforce the budgets of every workspace the user belongs to, for a request
+ * made outside a workspace
+ *
+ * @throws BudgetExceededError if any of them blocks the request
+ */
+export async function enforceMemberBudgets(
+  userId: string,
+  fallbackChain: string[]
+): Promise<BudgetEnforcement> {
+  let enforcement: BudgetEnforcement = { fallbackChain }
+
+  for (const workspace of await getUserWorkspaces(userId)) {
+    const { budgets } = parseWorkspaceSettings(workspace)
+    if (!budgets) continue
+
+    const result = await enforceWorkspaceBudgets(
+      workspace.id,
+      userId,
+      enforcement.fallbackChain,
+      budgets,
+      workspace.name
+    )
+    enforcement = {
+      fallbackChain: result.fallbackChain,
+      warning: enforcement.warning ?? result.warning,
+    }
+  }
+
+  return enforcement
+}
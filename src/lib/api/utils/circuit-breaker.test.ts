@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CircuitBreaker, getCircuitBreaker, getCircuitBreakerSnapshots, resetCircuitBreakers } from './circuit-breaker'
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function openBreaker() {
+    const breaker = new CircuitBreaker('openai', { failureThreshold: 2, cooldownMs: 1000 })
+    breaker.recordFailure('first')
+    breaker.recordFailure('second')
+    return breaker
+  }
+
+  it('stays closed below the failure threshold', () => {
+    const breaker = new CircuitBreaker('openai', { failureThreshold: 2, cooldownMs: 1000 })
+    breaker.recordFailure()
+
+    expect(breaker.state).toBe('closed')
+    expect(breaker.canRequest()).toBe(true)
+  })
+
+  it('resets the failure count on success', () => {
+    const breaker = new CircuitBreaker('openai', { failureThreshold: 2, cooldownMs: 1000 })
+    breaker.recordFailure()
+    breaker.recordSuccess()
+    breaker.recordFailure()
+
+    expect(breaker.state).toBe('closed')
+  })
+
+  it('opens after consecutive failures and skips requests during the cooldown', () => {
+    const breaker = openBreaker()
+
+    expect(breaker.state).toBe('open')
+    expect(breaker.canRequest()).toBe(false)
+    expect(breaker.snapshot()).toMatchObject({ consecutiveFailures: 2, lastError: 'second' })
+  })
+
+  it('lets a single trial through once the cooldown elapses', () => {
+    const breaker = openBreaker()
+    vi.advanceTimersByTime(1000)
+
+    expect(breaker.state).toBe('half_open')
+    expect(breaker.canRequest()).toBe(true)
+    expect(breaker.canRequest()).toBe(false)
+  })
+
+  it('closes after a successful trial', () => {
+    const breaker = openBreaker()
+    vi.advanceTimersByTime(1000)
+    breaker.canRequest()
+    breaker.recordSuccess()
+
+    expect(breaker.state).toBe('closed')
+    expect(breaker.canRequest()).toBe(true)
+  })
+
+  it('re-opens for another cooldown after a failed trial', () => {
+    const breaker = openBreaker()
+    vi.advanceTimersByTime(1000)
+    breaker.canRequest()
+    breaker.recordFailure('still down')
+
+    expect(breaker.state).toBe('open')
+    vi.advanceTimersByTime(999)
+    expect(breaker.canRequest()).toBe(false)
+  })
+
+  it('frees the trial slot on release without changing the state', () => {
+    const breaker = openBreaker()
+    vi.advanceTimersByTime(1000)
+    breaker.canRequest()
+    breaker.release()
+
+    expect(breaker.state).toBe('half_open')
+    expect(breaker.canRequest()).toBe(true)
+  })
+})
+
+describe('getCircuitBreaker', () => {
+  afterEach(() => {
+    resetCircuitBreakers()
+  })
+
+  it('keeps one breaker per key', () => {
+    expect(getCircuitBreaker('anthropic')).toBe(getCircuitBreaker('anthropic'))
+    expect(getCircuitBreaker('anthropic')).not.toBe(getCircuitBreaker('openai'))
+    expect(getCircuitBreakerSnapshots().map((snapshot) => snapshot.key)).toEqual(['anthropic', 'openai'])
+  })
+
+  it('forgets every breaker on reset', () => {
+    getCircuitBreaker('anthropic')
+    resetCircuitBreakers()
+    expect(getCircuitBreakerSnapshots()).toEqual([])
+  })
+})
@@ -0,0 +1,122 @@
+/**
+ * Circuit breaker for upstream providers
+ *
+ * After `failureThreshold` consecutive failures the circuit opens and callers
+ * skip the provider for `cooldownMs`. Once the cooldown elapses the circuit is
+ * half-open: a single trial request is let through, and its outcome either
+ * closes the circuit again or re-opens it for another cooldown.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures before the circuit opens (default: 5) */
+  failureThreshold?: number
+  /** Time in ms the circuit stays open before a trial request (default: 30000) */
+  cooldownMs?: number
+}
+
+export interface CircuitBreakerSnapshot {
+  key: string
+  state: CircuitState
+  consecutiveFailures: number
+  openedAt?: number
+  lastError?: string
+}
+
+const DEFAULT_OPTIONS: Required<CircuitBreakerOptions> = {
+  failureThreshold: 5,
+  cooldownMs: 30000,
+}
+
+export class CircuitBreaker {
+  readonly key: string
+  private options: Required<CircuitBreakerOptions>
+  private consecutiveFailures = 0
+  private openedAt?: number
+  private trialInFlight = false
+  private lastError?: string
+
+  constructor(key: string, options: CircuitBreakerOptions = {}) {
+    this.key = key
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === undefined) return 'closed'
+    return Date.now() - this.openedAt >= this.options.cooldownMs ? 'half_open' : 'open'
+  }
+
+  /**
+   * Whether a request may be sent. In the half-open state only one trial
+   * request is allowed until its outcome is recorded.
+   */
+  canRequest(): boolean {
+    const state = this.state
+    if (state === 'closed') return true
+    if (state === 'open' || this.trialInFlight) return false
+    this.trialInFlight = true
+    return true
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0
+    this.openedAt = undefined
+    this.trialInFlight = false
+    this.lastError = undefined
+  }
+
+  recordFailure(error?: string): void {
+    this.consecutiveFailures++
+    this.lastError = error
+    // A failed trial re-opens immediately; otherwise wait for the threshold
+    if (this.trialInFlight || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAt = Date.now()
+    }
+    this.trialInFlight = false
+  }
+
+  /** Release a half-open trial slot without recording an outcome */
+  release(): void {
+    this.trialInFlight = false
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    return {
+      key: this.key,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+      lastError: this.lastError,
+    }
+  }
+}
+
+// Breakers are process-local and keyed by provider
+const breakers = new Map<string, CircuitBreaker>()
+
+/**
+ * Get (or create) the circuit breaker for a key
+ */
+export function getCircuitBreaker(key: string, options?: CircuitBreakerOptions): CircuitBreaker {
+  let breaker = breakers.get(key)
+  if (!breaker) {
+    breaker = new CircuitBreaker(key, options)
+    breakers.set(key, breaker)
+  }
+  return breaker
+}
+
+/**
+ * Current state of every known circuit breaker
+ */
+export function getCircuitBreakerSnapshots(): CircuitBreakerSnapshot[] {
+  return Array.from(breakers.values()).map((b) => b.snapshot())
+}
+
+/**
+ * Forget all circuit breaker state
+ */
+export function resetCircuitBreakers(): void {
+  breakers.clear()
+}
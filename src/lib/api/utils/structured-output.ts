@@ -0,0 +1,205 @@
+/**
+ * Structured output helpers
+ *
+ * Providers with native JSON support (OpenAI response_format, Anthropic forced
+ * tool use) are asked for JSON directly. Everything else gets the schema in
+ * its system prompt. Either way the answer is parsed and validated here, and
+ * invalid answers are sent back to the model with the validation errors until
+ * it produces valid JSON or the repair attempts run out.
+ */
+
+import { z } from 'zod'
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ResponseFormat,
+  TokenUsage,
+} from '@/types'
+import type { AIProviderInterface } from '../providers/base'
+import { StructuredOutputError, ValidationError } from '../errors/apiErrors'
+
+// Follow-up requests allowed after the first invalid answer
+const MAX_REPAIR_ATTEMPTS = 2
+
+const SCHEMA_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/
+
+/**
+ * Validate a client-supplied response format.
+ *
+ * @param field - Name of the field in the request body, used in error messages
+ */
+export function parseResponseFormat(value: unknown, field = 'responseFormat'): ResponseFormat | undefined {
+  if (value === undefined || value === null) return undefined
+
+  const format = value as Partial<ResponseFormat> & { json_schema?: Record<string, unknown> }
+  if (format.type === 'text' || format.type === 'json_object') {
+    return { type: format.type }
+  }
+
+  if (format.type === 'json_schema') {
+    const jsonSchema = format.json_schema
+    if (!jsonSchema || typeof jsonSchema.name !== 'string' || !SCHEMA_NAME_PATTERN.test(jsonSchema.name)) {
+      throw new ValidationError(
+        `${field}.json_schema.name is required and may only contain letters, digits, underscores and dashes`
+      )
+    }
+    if (!jsonSchema.schema || typeof jsonSchema.schema !== 'object' || Array.isArray(jsonSchema.schema)) {
+      throw new ValidationError(`${field}.json_schema.schema must be a JSON Schema object`)
+    }
+    return {
+      type: 'json_schema',
+      json_schema: {
+        name: jsonSchema.name,
+        description: typeof jsonSchema.description === 'string' ? jsonSchema.description : undefined,
+        schema: jsonSchema.schema as Record<string, unknown>,
+        strict: typeof jsonSchema.strict === 'boolean' ? jsonSchema.strict : undefined,
+      },
+    }
+  }
+
+  throw new ValidationError(`${field}.type must be one of text, json_object or json_schema`)
+}
+
+export type ParseResult = { success: true; parsed: unknown } | { success: false; error: string }
+
+/**
+ * Whether a response format asks for JSON
+ */
+export function isJsonResponseFormat(format?: ResponseFormat): boolean {
+  return !!format && format.type !== 'text'
+}
+
+/**
+ * System prompt instructions describing the expected JSON
+ */
+export function buildFormatInstructions(format: ResponseFormat): string {
+  if (format.type === 'json_schema') {
+    const { name, description, schema } = format.json_schema
+    return [
+      `Respond with a single JSON object named "${name}" that matches this JSON Schema.`,
+      description,
+      'Output only the JSON, without code fences or commentary.',
+      JSON.stringify(schema, null, 2),
+    ]
+      .filter(Boolean)
+      .join('\n')
+  }
+  return 'Respond with a single valid JSON object. Output only the JSON, without code fences or commentary.'
+}
+
+/**
+ * Pull the JSON out of a model answer, tolerating code fences and surrounding prose
+ */
+function extractJson(content: string): string {
+  const trimmed = content.trim()
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/)
+  if (fenced) return fenced[1].trim()
+
+  const start = trimmed.search(/[[{]/)
+  const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'))
+  return start !== -1 && end > start ? trimmed.slice(start, end + 1) : trimmed
+}
+
+/**
+ * Parse a model answer and validate it against the requested format
+ */
+export function parseStructuredOutput(content: string, format: ResponseFormat): ParseResult {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(extractJson(content))
+  } catch (error) {
+    return { success: false, error: `Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}` }
+  }
+
+  if (format.type === 'json_schema') {
+    let schema: z.ZodType
+    try {
+      schema = z.fromJSONSchema(format.json_schema.schema as Parameters<typeof z.fromJSONSchema>[0])
+    } catch {
+      // Schemas zod can't interpret are left to the provider to enforce
+      return { success: true, parsed }
+    }
+
+    const result = schema.safeParse(parsed)
+    if (!result.success) {
+      return { success: false, error: z.prettifyError(result.error) }
+    }
+    return { success: true, parsed: result.data }
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return { success: false, error: 'Expected a JSON object' }
+  }
+  return { success: true, parsed }
+}
+
+function addUsage(total: TokenUsage, usage: TokenUsage): TokenUsage {
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+    cacheReadTokens: (total.cacheReadTokens ?? 0) + (usage.cacheReadTokens ?? 0) || undefined,
+    cacheWriteTokens: (total.cacheWriteTokens ?? 0) + (usage.cacheWriteTokens ?? 0) || undefined,
+    estimatedCost:
+      total.estimatedCost !== undefined || usage.estimatedCost !== undefined
+        ? (total.estimatedCost ?? 0) + (usage.estimatedCost ?? 0)
+        : undefined,
+  }
+}
+
+/**
+ * Complete a request that sets a JSON responseFormat, returning the parsed
+ * object in `parsed`. Usage covers every attempt, including repairs.
+ */
+export async function completeStructured(
+  provider: AIProviderInterface,
+  request: ChatCompletionRequest
+): Promise<ChatCompletionResponse> {
+  const format = request.options?.responseFormat
+  if (!format || !isJsonResponseFormat(format)) {
+    return provider.complete(request)
+  }
+
+  // OpenAI's json_object mode also requires the prompt to ask for JSON
+  let current: ChatCompletionRequest = request
+  if (!provider.supportsResponseFormat(format) || format.type === 'json_object') {
+    current = {
+      ...request,
+      options: {
+        ...request.options,
+        systemPrompt: [request.options?.systemPrompt, buildFormatInstructions(format)]
+          .filter(Boolean)
+          .join('\n\n'),
+      },
+    }
+  }
+
+  let usage: TokenUsage | undefined
+  let lastError = ''
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const response = await provider.complete(current)
+    usage = usage ? addUsage(usage, response.usage) : response.usage
+
+    const content = response.message.content ?? ''
+    const result = parseStructuredOutput(content, format)
+    if (result.success) {
+      return { ...response, usage, parsed: result.parsed }
+    }
+
+    lastError = result.error
+    current = {
+      ...current,
+      messages: [
+        ...current.messages,
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `Your response did not match the required format:\n${result.error}\n\nRespond again with only the corrected JSON.`,
+        },
+      ],
+    }
+  }
+
+  throw new StructuredOutputError(request.model, MAX_REPAIR_ATTEMPTS + 1, lastError)
+}
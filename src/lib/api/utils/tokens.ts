@@ -0,0 +1,169 @@
+/**
+ * Token counting helpers
+ *
+ * Providers use these to size requests before sending them: a BPE tokenizer
+ * for OpenAI models, image token formulas for OpenAI and Anthropic vision
+ * input, and a character heuristic for everything else. File attachments are
+ * counted the way providers send them, as text appended to the user message.
+ */
+
+import { Tiktoken } from 'js-tiktoken/lite'
+import type { TokenCountRequest, ChatCompletionMessage, ImageAttachment } from '@/types'
+
+export type TokenizerEncoding = 'o200k_base' | 'cl100k_base'
+
+// OpenAI chat format overhead: each message is wrapped in role/separator
+// tokens and every reply is primed with the assistant role.
+const TOKENS_PER_MESSAGE = 3
+const TOKENS_PER_REPLY = 3
+
+const encoders: Partial<Record<TokenizerEncoding, Promise<Tiktoken>>> = {}
+
+/**
+ * Load a BPE encoder. Rank tables are several MB, so they are imported on
+ * first use and shared afterwards.
+ */
+function getEncoder(encoding: TokenizerEncoding): Promise<Tiktoken> {
+  if (!encoders[encoding]) {
+    encoders[encoding] = (
+      encoding === 'o200k_base'
+        ? import('js-tiktoken/ranks/o200k_base')
+        : import('js-tiktoken/ranks/cl100k_base')
+    ).then((ranks) => new Tiktoken(ranks.default))
+  }
+  return encoders[encoding]!
+}
+
+/**
+ * Tokenizer used by an OpenAI model
+ */
+export function getEncodingForModel(modelId: string): TokenizerEncoding {
+  if (modelId.startsWith('gpt-4o') || modelId.startsWith('o1') || modelId.startsWith('o3')) {
+    return 'o200k_base'
+  }
+  return 'cl100k_base'
+}
+
+/**
+ * Rough token estimate for text when no tokenizer is available (~4 chars per token)
+ */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Text of a message as providers send it, including the extracted content
+ * of ready file attachments
+ */
+export function getMessageText(message: ChatCompletionMessage): string {
+  let text =
+    typeof message.content === 'string'
+      ? message.content
+      : Array.isArray(message.content)
+        ? message.content.map((part) => (part.type === 'text' ? part.text : '')).join('\n')
+        : ''
+
+  for (const file of message.files ?? []) {
+    if (file.content && file.status === 'ready') {
+      text += `\n\n--- File: ${file.name} ---\n${file.content}`
+    }
+  }
+
+  if (message.tool_calls) {
+    text += message.tool_calls
+      .map((tc) => `${tc.function.name}(${tc.function.arguments})`)
+      .join('\n')
+  }
+
+  return text
+}
+
+type ImageInput = Pick<ImageAttachment, 'width' | 'height' | 'detail'>
+
+function getMessageImages(message: ChatCompletionMessage): ImageInput[] {
+  const images: ImageInput[] = [...(message.images ?? [])]
+  if (Array.isArray(message.content)) {
+    for (const part of message.content) {
+      if (part.type === 'image_url') images.push({ detail: part.image_url.detail })
+    }
+  }
+  return images
+}
+
+/**
+ * OpenAI vision cost: 85 base tokens plus 170 per 512px tile after the image
+ * is fit within 2048x2048 and its short side scaled to 768px. Unknown sizes
+ * are treated as 1024x1024.
+ */
+export function estimateOpenAIImageTokens(image: ImageInput): number {
+  if (image.detail === 'low') return 85
+
+  let width = image.width ?? 1024
+  let height = image.height ?? 1024
+
+  const fit = Math.min(1, 2048 / Math.max(width, height))
+  width *= fit
+  height *= fit
+
+  const shortSide = Math.min(width, height)
+  if (shortSide > 768) {
+    const scale = 768 / shortSide
+    width *= scale
+    height *= scale
+  }
+
+  return 85 + 170 * Math.ceil(width / 512) * Math.ceil(height / 512)
+}
+
+/**
+ * Anthropic vision cost: about width * height / 750 after the long edge is
+ * scaled to at most 1568px. Unknown sizes get the ~1600 token maximum.
+ */
+export function estimateAnthropicImageTokens(image: ImageInput): number {
+  if (!image.width || !image.height) return 1600
+
+  const scale = Math.min(1, 1568 / Math.max(image.width, image.height))
+  return Math.min(1600, Math.ceil((image.width * scale * image.height * scale) / 750))
+}
+
+function countToolTokens(request: TokenCountRequest, countText: (text: string) => number): number {
+  if (!request.tools?.length) return 0
+  return countText(JSON.stringify(request.tools))
+}
+
+/**
+ * Count input tokens with the OpenAI tokenizer for the model
+ */
+export async function countOpenAITokens(request: TokenCountRequest): Promise<number> {
+  const encoder = await getEncoder(getEncodingForModel(request.model))
+  const countText = (text: string) => encoder.encode(text, [], []).length
+
+  let total = TOKENS_PER_REPLY
+  if (request.systemPrompt) {
+    total += TOKENS_PER_MESSAGE + countText(request.systemPrompt)
+  }
+
+  for (const message of request.messages) {
+    total += TOKENS_PER_MESSAGE + countText(getMessageText(message))
+    total += getMessageImages(message).reduce((sum, img) => sum + estimateOpenAIImageTokens(img), 0)
+  }
+
+  return total + countToolTokens(request, countText)
+}
+
+/**
+ * Heuristic input token count for providers without a tokenizer
+ */
+export function estimateTokens(
+  request: TokenCountRequest,
+  estimateImage: (image: ImageInput) => number = estimateAnthropicImageTokens
+): number {
+  let total = request.systemPrompt ? estimateTextTokens(request.systemPrompt) : 0
+
+  for (const message of request.messages) {
+    total += estimateTextTokens(getMessageText(message))
+    total += getMessageImages(message).reduce((sum, img) => sum + estimateImage(img), 0)
+  }
+
+  return total + countToolTokens(request, estimateTextTokens)
+}
@@ -0,0 +1,22 @@
+/**
+ * API Key Authentication
+ *
+ * Authenticates requests to the public gateway (/api/v1) with a personal
+ * API key sent as `Authorization: Bearer <key>`. Session cookies are not
+ * accepted there.
+ */
+
+import type { NextRequest } from 'next/server'
+import { verifyApiKey, type ApiKeySummary } from '@/lib/db/services/api-key'
+
+/**
+ * Get the API key presented with a request, or null if it is missing,
+ * unknown or expired.
+ */
+export async function requireApiKey(request: NextRequest): Promise<ApiKeySummary | null> {
+  const header = request.headers.get('authorization')
+  const match = header?.match(/^Bearer\s+(\S+)$/i)
+  if (!match) return null
+
+  return verifyApiKey(match[1])
+}
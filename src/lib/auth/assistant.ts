@@ -0,0 +1,92 @@
+/**
+ * Assistant Authorization
+ *
+ * An assistant can be used by its owner and, when shared, by members of its
+ * workspace or everyone who can open its project. Shared assistants can be
+ * edited by their owner and workspace admins (and the project's owner).
+ */
+
+import { getProject } from '@/lib/db/services/project'
+import { hasWorkspacePermission } from '@/lib/db/services/workspace'
+import { canAccessProject } from './project'
+import { validateWorkspaceAccess } from './workspace'
+
+type AssistantAccess = { ownerId: string; workspaceId: string | null; projectId: string | null }
+
+export async function canUseAssistant(assistant: AssistantAccess, userId: string): Promise<boolean> {
+  if (assistant.ownerId === userId) return true
+  if (assistant.projectId) {
+    const project = await getProject(assistant.projectId)
+    return !!project && canAccessProject(project, userId)
+  }
+  if (!assistant.workspaceId) return false
+  return validateWorkspaceAccess(assistant.workspaceId, userId)
+}
+
+export async function canManageAssistant(assistant: AssistantAccess, userId: string): Promise<boolean> {
+  if (assistant.ownerId === userId) return true
+  if (assistant.projectId) {
+    const project = await getProject(assistant.projectId)
+    if (project?.ownerId === userId) return true
+  }
+  if (!assistant.workspaceId) return false
+  return hasWorkspacePermission(assistant.workspaceId, userId, 'admin')
+}
+
+/**
+ * The workspace and project to store for an assistant's scope, after
+ * checking the user belongs to them. Project assistants also carry the
+ * project's workspace.
+ */
+export async function resolveAssistantScope(
+  input: { workspaceId?: string | null; projectId?: string | null },
+  userId: string
+): Promise<{ workspaceId: string | null; projectId: string | null } | { error: string }> {
+  if (input.projectId) {
+    const project = await getProject(input.projectId)
+    if (!project || !(await canAccessProject(project, userId))) {
+      return { error: 'Access denied to this folder' }
+    }
+    return { workspaceId: project.workspaceId, projectId: project.id }
+  }
+  if (input.workspaceId) {
+    if (!(await validateWorkspaceAccess(input.workspaceId, userId))) {
+      return { error: 'Access denied to this workspace' }
+    }
+    return { workspaceId: input.workspaceId, projectId: null }
+  }
+  return { workspaceId: null, projectId: null }
+}
+
+/**
+ * Knowledge base data sources are project ids; the user must be able to
+ * open each project to attach it
+ */
+export async function canUseKnowledgeBases(
+  dataSources: { id: string; type: string }[],
+  userId: string
+): Promise<boolean> {
+  for (const source of dataSources) {
+    if (source.type !== 'knowledge_base') continue
+    const project = await getProject(source.id)
+    if (!project || !(await canAccessProject(project, userId))) return false
+  }
+  return true
+}
+
+/**
+ * Whether a chat with the assistant may search a knowledge base project.
+ * Checked on every use, since the owner may have lost access since saving;
+ * anyone else only reaches projects within the assistant's own scope.
+ */
+export async function canSearchAssistantKnowledgeBase(
+  assistant: AssistantAccess,
+  projectId: string,
+  userId: string
+): Promise<boolean> {
+  const project = await getProject(projectId)
+  if (!project || !(await canAccessProject(project, assistant.ownerId))) return false
+  if (assistant.ownerId === userId) return true
+  if (assistant.projectId) return project.id === assistant.projectId
+  return !!assistant.workspaceId && project.workspaceId === assistant.workspaceId
+}
@@ -0,0 +1,29 @@
+/**
+ * Project Authorization
+ *
+ * A project is visible to its owner and, for workspace projects, to every
+ * member of the workspace. Knowledge base documents can be removed by
+ * whoever uploaded them, the project owner and workspace admins.
+ */
+
+import { hasWorkspacePermission } from '@/lib/db/services/workspace'
+import { validateWorkspaceAccess } from './workspace'
+
+export async function canAccessProject(
+  project: { ownerId: string; workspaceId: string | null },
+  userId: string
+): Promise<boolean> {
+  if (project.ownerId === userId) return true
+  if (!project.workspaceId) return false
+  return validateWorkspaceAccess(project.workspaceId, userId)
+}
+
+export async function canDeleteProjectDocument(
+  project: { ownerId: string; workspaceId: string | null },
+  document: { uploadedById: string },
+  userId: string
+): Promise<boolean> {
+  if (document.uploadedById === userId || project.ownerId === userId) return true
+  if (!project.workspaceId) return false
+  return hasWorkspacePermission(project.workspaceId, userId, 'admin')
+}
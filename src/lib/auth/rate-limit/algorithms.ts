@@ -0,0 +1,110 @@
+/**
+ * Rate limiting algorithms
+ *
+ * Pure functions from the stored state and the current time to the new state
+ * and the decision, so any store can run them inside its own transaction.
+ */
+
+import type { RateLimitPolicy, RateLimitResult } from './types'
+
+export interface SlidingWindowState {
+  windowStart: number
+  current: number
+  previous: number
+}
+
+export interface TokenBucketState {
+  tokens: number
+  updatedAt: number
+}
+
+/**
+ * Sliding window counter: the previous fixed window's count is weighted by
+ * how much of it still overlaps the sliding window. Needs constant state per
+ * key, unlike a log of timestamps.
+ */
+export function slidingWindow(
+  state: SlidingWindowState | null,
+  policy: RateLimitPolicy,
+  now: number
+): { state: SlidingWindowState; result: RateLimitResult } {
+  const { limit, windowMs } = policy
+  const windowStart = Math.floor(now / windowMs) * windowMs
+
+  let current = 0
+  let previous = 0
+  if (state?.windowStart === windowStart) {
+    current = state.current
+    previous = state.previous
+  } else if (state?.windowStart === windowStart - windowMs) {
+    previous = state.current
+  }
+
+  const elapsed = now - windowStart
+  const estimate = previous * (1 - elapsed / windowMs) + current
+
+  if (estimate + 1 > limit) {
+    // Time until the weighted previous window has decayed enough for one request
+    const untilDecayed =
+      current + 1 > limit || previous === 0
+        ? windowMs - elapsed
+        : windowMs * (1 - (limit - current - 1) / previous) - elapsed
+    return {
+      state: { windowStart, current, previous },
+      result: { limited: true, limit, remaining: 0, resetMs: Math.max(Math.ceil(untilDecayed), 1) },
+    }
+  }
+
+  return {
+    state: { windowStart, current: current + 1, previous },
+    result: {
+      limited: false,
+      limit,
+      remaining: Math.max(Math.floor(limit - estimate - 1), 0),
+      resetMs: windowMs - elapsed,
+    },
+  }
+}
+
+/**
+ * Token bucket: refills continuously at `limit` per window up to `burst`
+ * tokens, so short bursts are allowed while the average rate is capped.
+ */
+export function tokenBucket(
+  state: TokenBucketState | null,
+  policy: RateLimitPolicy,
+  now: number
+): { state: TokenBucketState; result: RateLimitResult } {
+  const capacity = policy.burst ?? policy.limit
+  const refillPerMs = policy.limit / policy.windowMs
+
+  const elapsed = state ? Math.max(now - state.updatedAt, 0) : 0
+  const tokens = state ? Math.min(capacity, state.tokens + elapsed * refillPerMs) : capacity
+
+  if (tokens < 1) {
+    return {
+      state: { tokens, updatedAt: now },
+      result: { limited: true, limit: capacity, remaining: 0, resetMs: Math.ceil((1 - tokens) / refillPerMs) },
+    }
+  }
+
+  const left = tokens - 1
+  return {
+    state: { tokens: left, updatedAt: now },
+    result: {
+      limited: false,
+      limit: capacity,
+      remaining: Math.floor(left),
+      resetMs: Math.ceil((capacity - left) / refillPerMs),
+    },
+  }
+}
+
+/**
+ * How long a bucket's state matters after its last update
+ */
+export function getStateTtl(policy: RateLimitPolicy): number {
+  return policy.algorithm === 'sliding_window'
+    ? policy.windowMs * 2
+    : Math.ceil((policy.burst ?? policy.limit) / (policy.limit / policy.windowMs))
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/db', () => ({ prisma: {} }))
+vi.mock('@/lib/db/services/workspace', () => ({
+  getWorkspace: vi.fn(),
+  parseWorkspaceSettings: vi.fn(),
+}))
+
+import { createRateLimiter } from './index'
+import type { RateLimitPolicy, RateLimitRoute, RateLimitStore } from './types'
+
+/** In-memory stand-in for the shared store, recording which keys were consumed */
+class StandInStore implements RateLimitStore {
+  states = new Map<string, unknown>()
+  updates: string[] = []
+
+  async update<S, R>(key: string, _ttlMs: number, transform: (state: S | null) => { state: S; result: R }) {
+    this.updates.push(key)
+    const { state, result } = transform((this.states.get(key) as S) ?? null)
+    this.states.set(key, state)
+    return result
+  }
+}
+
+const perMinute = (limit: number): RateLimitPolicy => ({ algorithm: 'sliding_window', limit, windowMs: 60_000 })
+
+function setup(userLimit: number, workspaceLimit?: number) {
+  const store = new StandInStore()
+  const limiter = createRateLimiter({
+    store,
+    policies: { chat: perMinute(userLimit) } as Record<RateLimitRoute, RateLimitPolicy>,
+    getWorkspacePolicies: async () => (workspaceLimit ? { chat: perMinute(workspaceLimit) } : {}),
+    now: () => 1_000_000,
+  })
+  return { store, limiter }
+}
+
+describe('createRateLimiter', () => {
+  it('limits a user once their policy is used up', async () => {
+    const { limiter } = setup(2)
+    const identity = { userId: 'user-1' }
+
+    expect((await limiter.check('chat', identity)).limited).toBe(false)
+    expect((await limiter.check('chat', identity)).limited).toBe(false)
+    expect((await limiter.check('chat', identity)).limited).toBe(true)
+  })
+
+  it('counts users separately', async () => {
+    const { limiter } = setup(1)
+
+    expect((await limiter.check('chat', { userId: 'user-1' })).limited).toBe(false)
+    expect((await limiter.check('chat', { userId: 'user-2' })).limited).toBe(false)
+  })
+
+  it('reports the tighter of the user and workspace limits', async () => {
+    const { limiter } = setup(10, 3)
+
+    const result = await limiter.check('chat', { userId: 'user-1', workspaceId: 'ws-1' })
+    expect(result.limit).toBe(3)
+    expect(result.remaining).toBe(2)
+  })
+
+  it('limits every member once the shared workspace limit is used up', async () => {
+    const { limiter } = setup(10, 2)
+
+    await limiter.check('chat', { userId: 'user-1', workspaceId: 'ws-1' })
+    await limiter.check('chat', { userId: 'user-2', workspaceId: 'ws-1' })
+    expect((await limiter.check('chat', { userId: 'user-3', workspaceId: 'ws-1' })).limited).toBe(true)
+  })
+
+  it('does not consume the workspace limit for a user who is already limited', async () => {
+    const { store, limiter } = setup(1, 5)
+    const identity = { userId: 'user-1', workspaceId: 'ws-1' }
+
+    await limiter.check('chat', identity)
+    for (let i = 0; i < 10; i++) {
+      expect((await limiter.check('chat', identity)).limited).toBe(true)
+    }
+
+    expect(store.updates.filter((key) => key === 'chat:workspace:ws-1')).toHaveLength(1)
+    const other = await limiter.check('chat', { userId: 'user-2', workspaceId: 'ws-1' })
+    expect(other.limited).toBe(false)
+  })
+})
@@ -0,0 +1,150 @@
+/**
+ * Rate Limiting
+ *
+ * Limits requests per user and, when a workspace configures it, per
+ * workspace. State lives in a pluggable store: in memory by default
+ * (limits are per instance), or in the database with
+ * RATE_LIMIT_STORE=database so limits hold across serverless instances.
+ */
+
+import { NextResponse } from 'next/server'
+import { apiLogger } from '@/lib/logging'
+import { getWorkspace, parseWorkspaceSettings } from '@/lib/db/services/workspace'
+import { getStateTtl, slidingWindow, tokenBucket, type SlidingWindowState, type TokenBucketState } from './algorithms'
+import { getUserRateLimitPolicies, parseRateLimitPolicies } from './policies'
+import { DatabaseRateLimitStore, MemoryRateLimitStore } from './stores'
+import type {
+  RateLimitIdentity,
+  RateLimitPolicy,
+  RateLimitResult,
+  RateLimitRoute,
+  RateLimitStore,
+} from './types'
+
+export type {
+  RateLimitAlgorithm,
+  RateLimitIdentity,
+  RateLimitPolicy,
+  RateLimitResult,
+  RateLimitRoute,
+  RateLimitStore,
+} from './types'
+export { slidingWindow, tokenBucket } from './algorithms'
+export { DEFAULT_RATE_LIMIT_POLICIES, parseRateLimitPolicies } from './policies'
+export { DatabaseRateLimitStore, MemoryRateLimitStore } from './stores'
+
+export interface RateLimiterOptions {
+  store: RateLimitStore
+  /** Per-user policy for each route */
+  policies?: Record<RateLimitRoute, RateLimitPolicy>
+  /** Shared workspace policies; defaults to `rateLimits` in workspace settings */
+  getWorkspacePolicies?: (workspaceId: string) => Promise<Partial<Record<RateLimitRoute, RateLimitPolicy>>>
+  now?: () => number
+}
+
+export interface RateLimiter {
+  check(route: RateLimitRoute, identity: RateLimitIdentity): Promise<RateLimitResult>
+}
+
+async function getWorkspaceRateLimitPolicies(workspaceId: string) {
+  const workspace = await getWorkspace(workspaceId)
+  return workspace ? parseRateLimitPolicies(parseWorkspaceSettings(workspace).rateLimits) : {}
+}
+
+export function createRateLimiter(options: RateLimiterOptions): RateLimiter {
+  const {
+    store,
+    policies = getUserRateLimitPolicies(),
+    getWorkspacePolicies = getWorkspaceRateLimitPolicies,
+    now = Date.now,
+  } = options
+
+  const consume = (key: string, policy: RateLimitPolicy) =>
+    policy.algorithm === 'token_bucket'
+      ? store.update<TokenBucketState, RateLimitResult>(key, getStateTtl(policy), (state) =>
+          tokenBucket(state, policy, now())
+        )
+      : store.update<SlidingWindowState, RateLimitResult>(key, getStateTtl(policy), (state) =>
+          slidingWindow(state, policy, now())
+        )
+
+  return {
+    async check(route, identity) {
+      const results = [await consume(`${route}:user:${identity.userId}`, policies[route])]
+
+      // A user over their own limit does not also use up the workspace's shared quota
+      if (identity.workspaceId && !results[0].limited) {
+        const workspacePolicy = (await getWorkspacePolicies(identity.workspaceId))[route]
+        if (workspacePolicy) {
+          results.push(await consume(`${route}:workspace:${identity.workspaceId}`, workspacePolicy))
+        }
+      }
+
+      // Report the limit closest to being hit
+      return results.reduce((tightest, result) => {
+        if (result.limited !== tightest.limited) return result.limited ? result : tightest
+        return result.remaining < tightest.remaining ? result : tightest
+      })
+    },
+  }
+}
+
+let defaultLimiter: RateLimiter | null = null
+
+function getDefaultLimiter(): RateLimiter {
+  if (!defaultLimiter) {
+    const store = process.env.RATE_LIMIT_STORE === 'database'
+      ? new DatabaseRateLimitStore()
+      : new MemoryRateLimitStore()
+    defaultLimiter = createRateLimiter({ store })
+  }
+  return defaultLimiter
+}
+
+/**
+ * Check and consume the rate limit for a request. Fails open if the store
+ * is unavailable, so an outage of the limiter does not take the app down.
+ */
+export async function checkRateLimit(
+  route: RateLimitRoute,
+  identity: RateLimitIdentity
+): Promise<RateLimitResult> {
+  try {
+    return await getDefaultLimiter().check(route, identity)
+  } catch (error) {
+    apiLogger.warn('Rate limit check failed, allowing request', {
+      route,
+      userId: identity.userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    const policy = getUserRateLimitPolicies()[route]
+    return { limited: false, limit: policy.limit, remaining: policy.limit, resetMs: policy.windowMs }
+  }
+}
+
+/**
+ * Standard X-RateLimit-* headers (reset is in seconds from now)
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': result.limit.toString(),
+    'X-RateLimit-Remaining': result.remaining.toString(),
+    'X-RateLimit-Reset': Math.ceil(result.resetMs / 1000).toString(),
+  }
+}
+
+/**
+ * Returns a 429 Too Many Requests response with Retry-After header.
+ */
+export function rateLimitResponse(result: RateLimitResult) {
+  return NextResponse.json(
+    { error: 'Too many requests. Please try again later.' },
+    {
+      status: 429,
+      headers: {
+        ...rateLimitHeaders(result),
+        'Retry-After': Math.ceil(result.resetMs / 1000).toString(),
+      },
+    }
+  )
+}
@@ -0,0 +1,70 @@
+/**
+ * Rate limit policies
+ *
+ * Per-user limits for each route, overridable with the RATE_LIMIT_POLICIES
+ * environment variable. Workspaces can add a shared limit per route through
+ * `rateLimits` in their settings.
+ */
+
+import type { RateLimitPolicy, RateLimitRoute } from './types'
+
+export const DEFAULT_RATE_LIMIT_POLICIES: Record<RateLimitRoute, RateLimitPolicy> = {
+  chat: { algorithm: 'sliding_window', limit: 30, windowMs: 60_000 },
+  chat_tokens: { algorithm: 'sliding_window', limit: 120, windowMs: 60_000 },
+  images: { algorithm: 'sliding_window', limit: 10, windowMs: 60_000 },
+  speech: { algorithm: 'sliding_window', limit: 10, windowMs: 60_000 },
+  actions: { algorithm: 'token_bucket', limit: 30, windowMs: 60_000, burst: 10 },
+  api: { algorithm: 'token_bucket', limit: 60, windowMs: 60_000 },
+}
+
+const ROUTES = Object.keys(DEFAULT_RATE_LIMIT_POLICIES) as RateLimitRoute[]
+
+/**
+ * Validate a policy from configuration. Returns null if it is malformed.
+ */
+export function parseRateLimitPolicy(value: unknown): RateLimitPolicy | null {
+  if (typeof value !== 'object' || value === null) return null
+  const policy = value as Partial<RateLimitPolicy>
+
+  if (policy.algorithm !== 'sliding_window' && policy.algorithm !== 'token_bucket') return null
+  if (typeof policy.limit !== 'number' || policy.limit <= 0) return null
+  if (typeof policy.windowMs !== 'number' || policy.windowMs <= 0) return null
+  if (policy.burst !== undefined && (typeof policy.burst !== 'number' || policy.burst < 1)) return null
+
+  return { algorithm: policy.algorithm, limit: policy.limit, windowMs: policy.windowMs, burst: policy.burst }
+}
+
+/**
+ * Keep the valid route policies from a configuration object
+ */
+export function parseRateLimitPolicies(value: unknown): Partial<Record<RateLimitRoute, RateLimitPolicy>> {
+  if (typeof value !== 'object' || value === null) return {}
+
+  const policies: Partial<Record<RateLimitRoute, RateLimitPolicy>> = {}
+  for (const route of ROUTES) {
+    const policy = parseRateLimitPolicy((value as Record<string, unknown>)[route])
+    if (policy) policies[route] = policy
+  }
+  return policies
+}
+
+let userPolicies: Record<RateLimitRoute, RateLimitPolicy> | null = null
+
+/**
+ * Per-user policies: defaults merged with RATE_LIMIT_POLICIES
+ */
+export function getUserRateLimitPolicies(): Record<RateLimitRoute, RateLimitPolicy> {
+  if (userPolicies) return userPolicies
+
+  let overrides = {}
+  if (process.env.RATE_LIMIT_POLICIES) {
+    try {
+      overrides = parseRateLimitPolicies(JSON.parse(process.env.RATE_LIMIT_POLICIES))
+    } catch {
+      console.warn('Invalid RATE_LIMIT_POLICIES JSON, using defaults')
+    }
+  }
+
+  userPolicies = { ...DEFAULT_RATE_LIMIT_POLICIES, ...overrides }
+  return userPolicies
+}
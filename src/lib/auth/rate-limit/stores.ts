@@ -0,0 +1,90 @@
+/**
+ * Rate limit stores
+ *
+ * MemoryRateLimitStore keeps state per instance, which is enough for local
+ * development and tests. DatabaseRateLimitStore shares state across
+ * instances through the RateLimitBucket table. A Redis store only needs to
+ * implement `update` (e.g. with WATCH/MULTI) to plug in the same way.
+ */
+
+import { prisma } from '@/lib/db'
+import type { RateLimitStore } from './types'
+
+interface MemoryEntry {
+  state: unknown
+  expiresAt: number
+}
+
+const CLEANUP_INTERVAL = 60_000 // 1 minute
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, MemoryEntry>()
+  private lastCleanup = Date.now()
+
+  async update<S, R>(
+    key: string,
+    ttlMs: number,
+    transform: (state: S | null) => { state: S; result: R }
+  ): Promise<R> {
+    const now = Date.now()
+    this.cleanup(now)
+
+    const entry = this.entries.get(key)
+    const current = entry && entry.expiresAt > now ? (entry.state as S) : null
+    const { state, result } = transform(current)
+    this.entries.set(key, { state, expiresAt: now + ttlMs })
+    return result
+  }
+
+  /** Drop all state (for tests) */
+  clear(): void {
+    this.entries.clear()
+  }
+
+  private cleanup(now: number) {
+    if (now - this.lastCleanup < CLEANUP_INTERVAL) return
+    this.lastCleanup = now
+
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.entries.delete(key)
+    })
+  }
+}
+
+// Serializable transactions can abort under contention; retry before giving up
+const MAX_ATTEMPTS = 3
+// Fraction of updates that also delete expired buckets
+const CLEANUP_PROBABILITY = 0.01
+
+export class DatabaseRateLimitStore implements RateLimitStore {
+  async update<S, R>(
+    key: string,
+    ttlMs: number,
+    transform: (state: S | null) => { state: S; result: R }
+  ): Promise<R> {
+    if (Math.random() < CLEANUP_PROBABILITY) {
+      prisma.rateLimitBucket.deleteMany({ where: { expiresAt: { lt: new Date() } } }).catch(() => {})
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await prisma.$transaction(async (tx) => {
+          const now = new Date()
+          const bucket = await tx.rateLimitBucket.findUnique({ where: { key } })
+          const current = bucket && bucket.expiresAt > now ? (JSON.parse(bucket.state) as S) : null
+
+          const { state, result } = transform(current)
+          const data = { state: JSON.stringify(state), expiresAt: new Date(now.getTime() + ttlMs) }
+          await tx.rateLimitBucket.upsert({
+            where: { key },
+            create: { key, ...data },
+            update: data,
+          })
+          return result
+        })
+      } catch (error) {
+        if (attempt >= MAX_ATTEMPTS) throw error
+      }
+    }
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Rate limiting types
+ */
+
+export type RateLimitAlgorithm = 'sliding_window' | 'token_bucket'
+
+/** Routes with their own limits */
+export type RateLimitRoute = 'chat' | 'chat_tokens' | 'images' | 'speech' | 'actions' | 'api'
+
+export interface RateLimitPolicy {
+  algorithm: RateLimitAlgorithm
+  /** Requests allowed per window (the refill rate for token buckets) */
+  limit: number
+  windowMs: number
+  /** Token bucket capacity (default: limit) */
+  burst?: number
+}
+
+export interface RateLimitResult {
+  limited: boolean
+  limit: number
+  remaining: number
+  /** Time until the limit resets, or until a limited request may retry */
+  resetMs: number
+}
+
+/**
+ * Shared state for rate limit buckets. `update` must apply the transform
+ * atomically so that concurrent requests on different instances cannot both
+ * take the last slot.
+ */
+export interface RateLimitStore {
+  update<S, R>(key: string, ttlMs: number, transform: (state: S | null) => { state: S; result: R }): Promise<R>
+}
+
+/** Who a request counts against */
+export interface RateLimitIdentity {
+  userId: string
+  /** Also count against the workspace's shared limit, if it has one */
+  workspaceId?: string | null
+}
@@ -0,0 +1,17 @@
+/**
+ * Share Link Authorization
+ *
+ * Share links expose a conversation outside its workspace, so only the
+ * conversation's owner and admins of its workspace may create or revoke them.
+ */
+
+import { hasWorkspacePermission } from '@/lib/db/services/workspace'
+
+export async function canManageConversationShares(
+  conversation: { userId: string; workspaceId: string | null },
+  userId: string
+): Promise<boolean> {
+  if (conversation.userId === userId) return true
+  if (!conversation.workspaceId) return false
+  return hasWorkspacePermission(conversation.workspaceId, userId, 'admin')
+}
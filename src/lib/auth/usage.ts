@@ -0,0 +1,95 @@
+/**
+ * Usage Report Authorization
+ *
+ * Turns usage query parameters into a filter the caller is allowed to see.
+ * - App admins can see everyone's usage
+ * - Workspace admins can see all usage within their workspace
+ * - Everyone else only sees their own usage
+ */
+
+import { isAdminUser } from '@/lib/db/services/user'
+import { hasWorkspacePermission } from '@/lib/db/services/workspace'
+import type { UsageFilter } from '@/lib/db/services/usage'
+import type { UsageInterval } from '@/types'
+
+const DAY_MS = 86_400_000
+const DEFAULT_RANGE_DAYS = 30
+const MAX_RANGE_DAYS = 366
+const INTERVALS: UsageInterval[] = ['day', 'week', 'month']
+
+export interface UsageScope {
+  filter: UsageFilter
+  interval: UsageInterval
+  /** Whether the filter spans other users' usage */
+  includesOtherUsers: boolean
+  isAppAdmin: boolean
+}
+
+export type UsageScopeResult =
+  | { scope: UsageScope; error?: undefined }
+  | { error: string; status: number; scope?: undefined }
+
+function parseDate(value: string | null): Date | null | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Resolve the usage filter for a request. Query parameters: from, to,
+ * interval, workspaceId, projectId, userId and all.
+ */
+export async function resolveUsageScope(
+  params: URLSearchParams,
+  currentUserId: string
+): Promise<UsageScopeResult> {
+  const from = parseDate(params.get('from'))
+  const to = parseDate(params.get('to'))
+  if (from === null || to === null) {
+    return { error: 'from and to must be valid dates', status: 400 }
+  }
+
+  const end = to ?? new Date()
+  const start = from ?? new Date(end.getTime() - DEFAULT_RANGE_DAYS * DAY_MS)
+  if (start >= end) {
+    return { error: 'from must be before to', status: 400 }
+  }
+  if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    return { error: `Date range cannot exceed ${MAX_RANGE_DAYS} days`, status: 400 }
+  }
+
+  const interval = (params.get('interval') || 'day') as UsageInterval
+  if (!INTERVALS.includes(interval)) {
+    return { error: `interval must be one of ${INTERVALS.join(', ')}`, status: 400 }
+  }
+
+  const workspaceId = params.get('workspaceId') || undefined
+  const projectId = params.get('projectId') || undefined
+  const requestedUserId = params.get('userId') || undefined
+  const all = params.get('all') === 'true'
+
+  const isAppAdmin = await isAdminUser(currentUserId)
+  if (all && !isAppAdmin) {
+    return { error: 'Forbidden', status: 403 }
+  }
+
+  const canSeeOthers =
+    isAppAdmin ||
+    (!!workspaceId && (await hasWorkspacePermission(workspaceId, currentUserId, 'admin')))
+
+  if (requestedUserId && requestedUserId !== currentUserId && !canSeeOthers) {
+    return { error: 'Forbidden', status: 403 }
+  }
+
+  // Without an explicit scope, even admins start with their own usage
+  const userId = canSeeOthers && (all || workspaceId) ? requestedUserId : requestedUserId ?? currentUserId
+
+  return {
+    scope: {
+      filter: { from: start, to: end, userId, workspaceId, projectId },
+      interval,
+      includesOtherUsers: !userId,
+      isAppAdmin,
+    },
+  }
+}
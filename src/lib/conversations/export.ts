@@ -0,0 +1,433 @@
+/**
+ * Conversation Export
+ *
+ * Renders a conversation and its branches as lossless JSON, Markdown or a
+ * print-ready HTML page (PDFs are produced by printing the HTML).
+ */
+
+import type { ConversationTree } from '@/lib/db/services/conversation'
+import type { Citation, ConversationExportFormat, MessageRole } from '@/types'
+import {
+  CONVERSATION_EXPORT_FORMAT,
+  CONVERSATION_EXPORT_VERSION,
+  type ConversationExportDocument,
+  type ExportedConversation,
+  type ExportedMessage,
+} from './types'
+
+export const EXPORT_CONTENT_TYPES: Record<ConversationExportFormat, string> = {
+  markdown: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+}
+
+export const EXPORT_EXTENSIONS: Record<ConversationExportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  html: 'html',
+}
+
+export function isExportFormat(value: string | null): value is ConversationExportFormat {
+  return !!value && value in EXPORT_CONTENT_TYPES
+}
+
+function parseJson<T>(value: string | null): T | null {
+  if (!value) return null
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return null
+  }
+}
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+function toExportedConversation(tree: ConversationTree): ExportedConversation {
+  return {
+    id: tree.id,
+    title: tree.title,
+    model: tree.model,
+    provider: tree.provider,
+    systemPrompt: tree.systemPrompt,
+    metadata: parseJson(tree.metadata),
+    contextSummary: parseJson(tree.contextSummary),
+    projectId: tree.projectId,
+    folderId: tree.folderId,
+    workspaceId: tree.workspaceId,
+    pinned: tree.pinned,
+    archived: tree.archived,
+    branchPointId: tree.branchPointId,
+    createdAt: tree.createdAt.toISOString(),
+    updatedAt: tree.updatedAt.toISOString(),
+    messages: tree.messages.map((message) => ({
+      id: message.id,
+      role: message.role as MessageRole,
+      content: message.content,
+      model: message.model,
+      provider: message.provider,
+      inputTokens: message.inputTokens,
+      outputTokens: message.outputTokens,
+      estimatedCost: message.estimatedCost,
+      toolCalls: parseJson(message.toolCalls),
+      toolCallId: message.toolCallId,
+      attachments: parseJson(message.attachments),
+      metadata: parseJson(message.metadata),
+      createdAt: message.createdAt.toISOString(),
+    })),
+    branches: tree.branches.map(toExportedConversation),
+  }
+}
+
+export function buildExportDocument(tree: ConversationTree): ConversationExportDocument {
+  return {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: toExportedConversation(tree),
+  }
+}
+
+// ============================================================================
+// Readable formats
+// ============================================================================
+
+interface ExportSection {
+  title: string
+  /** Set for branches: the parent message number the branch continues from */
+  branchedAfter?: number
+  messages: ExportedMessage[]
+  /** Number of the first message, counting the parent's shared messages */
+  firstNumber: number
+}
+
+interface ToolCallView {
+  name: string
+  arguments: string
+}
+
+interface CitationView {
+  number?: number
+  title: string
+  url?: string
+}
+
+interface AttachmentView {
+  name: string
+  mimeType?: string
+  size?: number
+}
+
+/**
+ * Flatten the branch tree into sections. Branches repeat their parent's
+ * messages up to the branch point, so only the new messages are kept.
+ */
+function toSections(conversation: ExportedConversation, path: string[] = [], offset = 0): ExportSection[] {
+  const sections: ExportSection[] = [
+    {
+      title: path.length === 0 ? conversation.title : path.join(' › '),
+      messages: conversation.messages.slice(offset),
+      firstNumber: offset + 1,
+      ...(path.length > 0 && { branchedAfter: offset }),
+    },
+  ]
+
+  for (const branch of conversation.branches) {
+    const branchPoint = conversation.messages.findIndex((m) => m.id === branch.branchPointId)
+    const shared = branchPoint === -1 ? 0 : branchPoint + 1
+    sections.push(...toSections(branch, [...path, branch.title], shared))
+  }
+
+  return sections
+}
+
+function getToolCalls(message: ExportedMessage): ToolCallView[] {
+  return (message.toolCalls ?? []).map((call) => {
+    const fn = (call.function ?? {}) as { name?: string; arguments?: string }
+    let args = fn.arguments ?? ''
+    try {
+      args = JSON.stringify(JSON.parse(args), null, 2)
+    } catch {
+      // Keep the raw argument string
+    }
+    return { name: fn.name ?? 'tool', arguments: args }
+  })
+}
+
+function getCitations(message: ExportedMessage): CitationView[] {
+  const citations = message.metadata?.citations
+  if (!Array.isArray(citations)) return []
+  return (citations as Partial<Citation>[]).map((citation) => ({
+    number: citation.number,
+    title: citation.source?.title || citation.text || 'Source',
+    url: citation.source?.url,
+  }))
+}
+
+function getAttachments(message: ExportedMessage): AttachmentView[] {
+  return (message.attachments ?? []).map((attachment) => ({
+    name: String(attachment.name ?? 'attachment'),
+    mimeType: typeof attachment.mimeType === 'string' ? attachment.mimeType : undefined,
+    size: typeof attachment.size === 'number' ? attachment.size : undefined,
+  }))
+}
+
+function getThinking(message: ExportedMessage): string | undefined {
+  const thinking = message.metadata?.thinking
+  return typeof thinking === 'string' && thinking.trim() ? thinking : undefined
+}
+
+const ROLE_LABELS: Record<MessageRole, string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  system: 'System',
+  tool: 'Tool result',
+}
+
+function formatTimestamp(iso: string): string {
+  return `${iso.slice(0, 16).replace('T', ' ')} UTC`
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function describeAttachment(attachment: AttachmentView): string {
+  const details = [attachment.mimeType, attachment.size !== undefined && formatBytes(attachment.size)]
+    .filter(Boolean)
+    .join(', ')
+  return details ? `${attachment.name} (${details})` : attachment.name
+}
+
+function messageHeading(message: ExportedMessage, number: number): string {
+  const parts = [`${number}. ${ROLE_LABELS[message.role] ?? message.role}`]
+  if (message.role === 'assistant' && message.model) parts.push(message.model)
+  parts.push(formatTimestamp(message.createdAt))
+  return parts.join(' · ')
+}
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+function fence(content: string, language = ''): string {
+  // Use a longer fence than any backtick run in the content
+  const longest = Math.max(2, ...(content.match(/`+/g) ?? []).map((run) => run.length))
+  const marker = '`'.repeat(longest + 1)
+  return `${marker}${language}\n${content}\n${marker}`
+}
+
+function renderMarkdownMessage(message: ExportedMessage, number: number): string {
+  const blocks = [`### ${messageHeading(message, number)}`]
+
+  const thinking = getThinking(message)
+  if (thinking) {
+    blocks.push(`<details>\n<summary>Thinking</summary>\n\n${thinking}\n\n</details>`)
+  }
+
+  if (message.role === 'tool') {
+    if (message.toolCallId) blocks.push(`Result for \`${message.toolCallId}\``)
+    blocks.push(fence(message.content))
+  } else if (message.content) {
+    blocks.push(message.content)
+  }
+
+  for (const call of getToolCalls(message)) {
+    blocks.push(`**Tool call:** \`${call.name}\`\n\n${fence(call.arguments, 'json')}`)
+  }
+
+  const attachments = getAttachments(message)
+  if (attachments.length > 0) {
+    blocks.push(`**Attachments**\n\n${attachments.map((a) => `- ${describeAttachment(a)}`).join('\n')}`)
+  }
+
+  const citations = getCitations(message)
+  if (citations.length > 0) {
+    const lines = citations.map((c, i) => {
+      const label = c.url ? `[${c.title}](${c.url})` : c.title
+      return `${c.number ?? i + 1}. ${label}`
+    })
+    blocks.push(`**Sources**\n\n${lines.join('\n')}`)
+  }
+
+  return blocks.join('\n\n')
+}
+
+export function renderMarkdown(document: ConversationExportDocument): string {
+  const { conversation } = document
+  const sections = toSections(conversation)
+
+  const details = [
+    `- Model: ${conversation.model} (${conversation.provider})`,
+    `- Created: ${formatTimestamp(conversation.createdAt)}`,
+    `- Exported: ${formatTimestamp(document.exportedAt)}`,
+    conversation.branches.length > 0 && `- Branches: ${sections.length - 1}`,
+  ].filter(Boolean)
+
+  let header = `# ${conversation.title}\n\n${details.join('\n')}`
+  if (conversation.systemPrompt) {
+    header += `\n\n## System prompt\n\n${fence(conversation.systemPrompt)}`
+  }
+
+  const body = sections.map((section, index) => {
+    const blocks: string[] = []
+    if (index > 0) {
+      blocks.push(`## Branch: ${section.title}`)
+      blocks.push(`_Continues after message ${section.branchedAfter}_`)
+    }
+    section.messages.forEach((message, i) => {
+      blocks.push(renderMarkdownMessage(message, section.firstNumber + i))
+    })
+    return blocks.join('\n\n')
+  })
+
+  return `${[header, ...body].join('\n\n---\n\n')}\n`
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function safeUrl(url: string): string | null {
+  return /^https?:\/\//i.test(url) ? url : null
+}
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; color: #111827; max-width: 820px; margin: 2rem auto; padding: 0 1rem; line-height: 1.55; }
+  h1 { margin-bottom: 0.25rem; }
+  h2 { margin-top: 2.5rem; border-top: 1px solid #e5e7eb; padding-top: 1.5rem; }
+  .meta { color: #6b7280; font-size: 0.875rem; }
+  .message { border: 1px solid #e5e7eb; border-radius: 8px; padding: 0.75rem 1rem; margin: 1rem 0; break-inside: avoid; }
+  .message.user { background: #f9fafb; }
+  .message.tool { background: #fefce8; }
+  .message h3 { font-size: 0.8125rem; color: #6b7280; margin: 0 0 0.5rem; font-weight: 600; }
+  .content { white-space: pre-wrap; word-wrap: break-word; }
+  pre { background: #f3f4f6; border-radius: 6px; padding: 0.5rem 0.75rem; overflow-x: auto; white-space: pre-wrap; font-size: 0.8125rem; }
+  details { color: #4b5563; margin-bottom: 0.5rem; }
+  .label { font-weight: 600; font-size: 0.8125rem; margin: 0.75rem 0 0.25rem; }
+  ul, ol { margin: 0.25rem 0; padding-left: 1.25rem; font-size: 0.875rem; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    .message { border-color: #d1d5db; }
+  }
+`
+
+function renderHtmlMessage(message: ExportedMessage, number: number): string {
+  const parts = [`<h3>${escapeHtml(messageHeading(message, number))}</h3>`]
+
+  const thinking = getThinking(message)
+  if (thinking) {
+    // Open so the reasoning is included when printed
+    parts.push(`<details open><summary>Thinking</summary><div class="content">${escapeHtml(thinking)}</div></details>`)
+  }
+
+  if (message.role === 'tool') {
+    if (message.toolCallId) {
+      parts.push(`<div class="meta">Result for <code>${escapeHtml(message.toolCallId)}</code></div>`)
+    }
+    parts.push(`<pre>${escapeHtml(message.content)}</pre>`)
+  } else if (message.content) {
+    parts.push(`<div class="content">${escapeHtml(message.content)}</div>`)
+  }
+
+  for (const call of getToolCalls(message)) {
+    parts.push(`<div class="label">Tool call: <code>${escapeHtml(call.name)}</code></div>`)
+    parts.push(`<pre>${escapeHtml(call.arguments)}</pre>`)
+  }
+
+  const attachments = getAttachments(message)
+  if (attachments.length > 0) {
+    const items = attachments.map((a) => `<li>${escapeHtml(describeAttachment(a))}</li>`).join('')
+    parts.push(`<div class="label">Attachments</div><ul>${items}</ul>`)
+  }
+
+  const citations = getCitations(message)
+  if (citations.length > 0) {
+    const items = citations
+      .map((c) => {
+        const url = c.url && safeUrl(c.url)
+        const title = escapeHtml(c.title)
+        return `<li value="${c.number ?? ''}">${url ? `<a href="${escapeHtml(url)}">${title}</a>` : title}</li>`
+      })
+      .join('')
+    parts.push(`<div class="label">Sources</div><ol>${items}</ol>`)
+  }
+
+  return `<section class="message ${message.role}">${parts.join('')}</section>`
+}
+
+/**
+ * Standalone HTML page. With autoPrint the browser's print dialog opens on
+ * load so the page can be saved as a PDF.
+ */
+export function renderHtml(document: ConversationExportDocument, options?: { autoPrint?: boolean }): string {
+  const { conversation } = document
+  const sections = toSections(conversation)
+
+  const body = sections.map((section, index) => {
+    const parts: string[] = []
+    if (index > 0) {
+      parts.push(`<h2>Branch: ${escapeHtml(section.title)}</h2>`)
+      parts.push(`<p class="meta">Continues after message ${section.branchedAfter}</p>`)
+    }
+    section.messages.forEach((message, i) => {
+      parts.push(renderHtmlMessage(message, section.firstNumber + i))
+    })
+    return parts.join('\n')
+  })
+
+  const meta = [
+    `${escapeHtml(conversation.model)} (${escapeHtml(conversation.provider)})`,
+    `Created ${formatTimestamp(conversation.createdAt)}`,
+    `Exported ${formatTimestamp(document.exportedAt)}`,
+  ].join(' · ')
+
+  const systemPrompt = conversation.systemPrompt
+    ? `<div class="label">System prompt</div><pre>${escapeHtml(conversation.systemPrompt)}</pre>`
+    : ''
+
+  const print = options?.autoPrint
+    ? `<script>window.addEventListener('load', function () { window.print() })</script>`
+    : ''
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(conversation.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(conversation.title)}</h1>
+<p class="meta">${meta}</p>
+${systemPrompt}
+${body.join('\n')}
+${print}
+</body>
+</html>
+`
+}
+
+/**
+ * File name for a download, derived from the conversation title
+ */
+export function getExportFileName(title: string, format: ConversationExportFormat): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80)
+  return `${slug || 'conversation'}.${EXPORT_EXTENSIONS[format]}`
+}
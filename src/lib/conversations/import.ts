@@ -0,0 +1,514 @@
+/**
+ * Conversation Import
+ *
+ * Parses exports from ChatGPT (conversations.json), Claude (conversations.json)
+ * and Ondo AI's own JSON export into conversations ready to be written.
+ * Both the raw JSON file and the ZIP archive the vendors ship are accepted.
+ */
+
+import { getModelConfig } from '@/lib/api/config/providers'
+import { isZipArchive, openZipArchive } from '@/lib/files/zip'
+import type { ConversationImportSource } from '@/types'
+import {
+  CONVERSATION_EXPORT_FORMAT,
+  CONVERSATION_EXPORT_VERSION,
+  type ConversationExportDocument,
+  type ExportedConversation,
+  type ImportedConversation,
+  type ImportedMessage,
+} from './types'
+
+/** Conversation model used when the source model is not one we serve */
+const FALLBACK_MODELS = {
+  openai: 'gpt-4o',
+  anthropic: 'claude-sonnet-4-20250514',
+} as const
+
+const UNTITLED = 'Imported conversation'
+
+/** Largest upload, and largest conversations.json inflated from an archive */
+export const MAX_IMPORT_FILE_BYTES = 100 * 1024 * 1024
+
+/**
+ * Read an uploaded export: a ZIP archive containing conversations.json, or
+ * the JSON file itself
+ *
+ * @throws ZipLimitError if conversations.json inflates past MAX_IMPORT_FILE_BYTES
+ */
+export function parseImportFile(buffer: Buffer): unknown {
+  let json = buffer
+  if (isZipArchive(buffer)) {
+    // The JSON inside an archive is held to the same size as an uploaded one
+    const archive = openZipArchive(buffer, {
+      maxEntryBytes: MAX_IMPORT_FILE_BYTES,
+      maxTotalBytes: MAX_IMPORT_FILE_BYTES,
+    })
+    const path = archive.paths.find((entry) => entry === 'conversations.json' || entry.endsWith('/conversations.json'))
+    const entry = path ? archive.read(path) : null
+    if (!entry) throw new Error('The archive does not contain conversations.json')
+    json = entry
+  }
+
+  try {
+    return JSON.parse(json.toString('utf8'))
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isExportDocument(value: unknown): value is ConversationExportDocument {
+  return isRecord(value) && value.format === CONVERSATION_EXPORT_FORMAT
+}
+
+export function detectImportSource(data: unknown): ConversationImportSource | null {
+  const first = Array.isArray(data) ? data[0] : data
+  if (isExportDocument(first)) return 'ondo'
+  if (!Array.isArray(data) || !isRecord(first)) return null
+  if ('mapping' in first) return 'chatgpt'
+  if ('chat_messages' in first) return 'claude'
+  return null
+}
+
+function resolveModel(slug: string | undefined, provider: keyof typeof FALLBACK_MODELS): string {
+  return slug && getModelConfig(slug) ? slug : FALLBACK_MODELS[provider]
+}
+
+function fromUnixSeconds(value: unknown): Date | undefined {
+  return typeof value === 'number' ? new Date(value * 1000) : undefined
+}
+
+function fromIsoString(value: unknown): Date | undefined {
+  if (typeof value !== 'string') return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+// ============================================================================
+// ChatGPT
+// ============================================================================
+
+interface ChatGPTMessage {
+  id: string
+  author: { role: string; name?: string | null }
+  create_time?: number | null
+  recipient?: string
+  content: {
+    content_type: string
+    parts?: unknown[]
+    text?: string
+    thoughts?: Array<{ summary?: string; content?: string }>
+  }
+  metadata?: {
+    model_slug?: string
+    is_visually_hidden_from_conversation?: boolean
+    attachments?: Array<{ id?: string; name?: string; size?: number; mime_type?: string }>
+  }
+}
+
+interface ChatGPTNode {
+  id: string
+  parent?: string | null
+  children?: string[]
+  message?: ChatGPTMessage | null
+}
+
+interface ChatGPTConversation {
+  id?: string
+  conversation_id?: string
+  title?: string | null
+  create_time?: number
+  update_time?: number
+  default_model_slug?: string
+  mapping: Record<string, ChatGPTNode>
+  current_node?: string | null
+}
+
+/**
+ * The visible thread: from the current node back to the root. Edited and
+ * regenerated alternatives that were not selected are left out.
+ */
+function getChatGPTThread(conversation: ChatGPTConversation): ChatGPTMessage[] {
+  const { mapping } = conversation
+  let nodeId = conversation.current_node ?? undefined
+
+  if (!nodeId || !mapping[nodeId]) {
+    // No current node recorded: follow the latest child from the root
+    let node = Object.values(mapping).find((n) => !n.parent)
+    while (node?.children?.length) node = mapping[node.children[node.children.length - 1]]
+    nodeId = node?.id
+  }
+
+  const thread: ChatGPTMessage[] = []
+  const visited = new Set<string>()
+  while (nodeId && mapping[nodeId] && !visited.has(nodeId)) {
+    visited.add(nodeId)
+    const node = mapping[nodeId]
+    if (node.message) thread.push(node.message)
+    nodeId = node.parent ?? undefined
+  }
+  return thread.reverse()
+}
+
+function getChatGPTContent(message: ChatGPTMessage): { text: string; attachments: Record<string, unknown>[] } {
+  const { content } = message
+  const attachments: Record<string, unknown>[] = []
+  const texts: string[] = []
+
+  for (const part of content.parts ?? []) {
+    if (typeof part === 'string') {
+      texts.push(part)
+    } else if (isRecord(part) && part.content_type === 'image_asset_pointer') {
+      attachments.push({
+        id: String(part.asset_pointer ?? `${message.id}-image-${attachments.length}`),
+        type: 'image',
+        name: 'image',
+        url: '',
+        mimeType: 'image/png',
+        size: typeof part.size_bytes === 'number' ? part.size_bytes : 0,
+        width: part.width,
+        height: part.height,
+      })
+    }
+  }
+  if (texts.length === 0 && typeof content.text === 'string') texts.push(content.text)
+
+  for (const file of message.metadata?.attachments ?? []) {
+    attachments.push({
+      id: file.id ?? `${message.id}-file-${attachments.length}`,
+      type: 'file',
+      name: file.name ?? 'file',
+      url: '',
+      mimeType: file.mime_type ?? 'application/octet-stream',
+      size: file.size ?? 0,
+    })
+  }
+
+  return { text: texts.join('\n').trim(), attachments }
+}
+
+function parseChatGPTConversation(conversation: ChatGPTConversation): ImportedConversation {
+  const messages: ImportedMessage[] = []
+  let systemPrompt: string | undefined
+  let pendingThinking: string[] = []
+  let pendingToolCallId: string | undefined
+  let lastModel = conversation.default_model_slug
+
+  for (const message of getChatGPTThread(conversation)) {
+    if (message.metadata?.is_visually_hidden_from_conversation) continue
+    const role = message.author.role
+    const createdAt = fromUnixSeconds(message.create_time)
+    const model = message.metadata?.model_slug
+    if (model) lastModel = model
+
+    switch (message.content.content_type) {
+      case 'thoughts':
+        pendingThinking.push(
+          ...(message.content.thoughts ?? []).map((t) => t.content || t.summary || '').filter(Boolean)
+        )
+        continue
+      case 'reasoning_recap':
+      case 'user_editable_context':
+        continue
+    }
+
+    const { text, attachments } = getChatGPTContent(message)
+
+    if (role === 'system') {
+      if (text && !systemPrompt) systemPrompt = text
+      continue
+    }
+
+    // Assistant messages addressed to a tool (python, browser, dalle) are tool calls
+    if (role === 'assistant' && message.recipient && message.recipient !== 'all') {
+      pendingToolCallId = message.id
+      messages.push({
+        role: 'assistant',
+        content: '',
+        model,
+        provider: 'openai',
+        toolCalls: [
+          {
+            id: message.id,
+            type: 'function',
+            function: { name: message.recipient, arguments: JSON.stringify({ input: text }) },
+          },
+        ],
+        createdAt,
+      })
+      continue
+    }
+
+    if (role === 'tool') {
+      if (!text && attachments.length === 0) continue
+      messages.push({
+        role: 'tool',
+        content: text,
+        toolCallId: pendingToolCallId,
+        ...(attachments.length > 0 && { attachments }),
+        ...(message.author.name && { metadata: { toolName: message.author.name } }),
+        createdAt,
+      })
+      pendingToolCallId = undefined
+      continue
+    }
+
+    if (role !== 'user' && role !== 'assistant') continue
+    if (!text && attachments.length === 0) continue
+
+    const thinking = role === 'assistant' && pendingThinking.length > 0 ? pendingThinking.join('\n\n') : undefined
+    if (role === 'assistant') pendingThinking = []
+
+    messages.push({
+      role,
+      content: text,
+      ...(role === 'assistant' && { model, provider: 'openai' }),
+      ...(attachments.length > 0 && { attachments }),
+      ...(thinking && { metadata: { thinking } }),
+      createdAt,
+    })
+  }
+
+  return {
+    title: conversation.title?.trim() || UNTITLED,
+    model: resolveModel(lastModel, 'openai'),
+    provider: 'openai',
+    systemPrompt,
+    metadata: {
+      importedFrom: { source: 'chatgpt', id: conversation.conversation_id ?? conversation.id, model: lastModel },
+    },
+    createdAt: fromUnixSeconds(conversation.create_time),
+    updatedAt: fromUnixSeconds(conversation.update_time),
+    messages,
+  }
+}
+
+// ============================================================================
+// Claude
+// ============================================================================
+
+interface ClaudeContentBlock {
+  type: string
+  text?: string
+  thinking?: string
+  id?: string
+  name?: string
+  input?: unknown
+  tool_use_id?: string
+  content?: unknown
+  start_timestamp?: string
+}
+
+interface ClaudeMessage {
+  uuid?: string
+  text?: string
+  sender: 'human' | 'assistant'
+  created_at?: string
+  content?: ClaudeContentBlock[]
+  attachments?: Array<{ file_name?: string; file_size?: number; file_type?: string; extracted_content?: string }>
+  files?: Array<{ file_name?: string }>
+}
+
+interface ClaudeConversation {
+  uuid?: string
+  name?: string
+  created_at?: string
+  updated_at?: string
+  chat_messages?: ClaudeMessage[]
+}
+
+function getClaudeText(value: unknown): string {
+  if (typeof value === 'string') return value
+  if (!Array.isArray(value)) return ''
+  return value
+    .map((block) => (isRecord(block) && typeof block.text === 'string' ? block.text : ''))
+    .filter(Boolean)
+    .join('\n')
+}
+
+function getClaudeAttachments(message: ClaudeMessage): Record<string, unknown>[] {
+  const attachments: Record<string, unknown>[] = (message.attachments ?? []).map((file, index) => ({
+    id: `${message.uuid ?? 'attachment'}-${index}`,
+    type: 'file',
+    name: file.file_name || 'file',
+    url: '',
+    mimeType: file.file_type || 'text/plain',
+    size: file.file_size ?? 0,
+    status: 'ready',
+    // The export has no file bytes, only the text Claude extracted
+    ...(file.extracted_content && { content: file.extracted_content }),
+  }))
+
+  for (const file of message.files ?? []) {
+    attachments.push({
+      id: `${message.uuid ?? 'file'}-${attachments.length}`,
+      type: 'file',
+      name: file.file_name || 'file',
+      url: '',
+      mimeType: 'application/octet-stream',
+      size: 0,
+    })
+  }
+
+  return attachments
+}
+
+/**
+ * Split one Claude message into the shape we store: assistant turns that
+ * used tools become assistant (tool calls) → tool result → assistant.
+ */
+function parseClaudeMessage(message: ClaudeMessage, model: string): ImportedMessage[] {
+  const createdAt = fromIsoString(message.created_at)
+
+  if (message.sender === 'human') {
+    const attachments = getClaudeAttachments(message)
+    const content = getClaudeText(message.content) || message.text || ''
+    if (!content && attachments.length === 0) return []
+    return [{ role: 'user', content, ...(attachments.length > 0 && { attachments }), createdAt }]
+  }
+
+  const blocks = message.content?.length ? message.content : [{ type: 'text', text: message.text ?? '' }]
+  const result: ImportedMessage[] = []
+  let text: string[] = []
+  let thinking: string[] = []
+  let toolCalls: Record<string, unknown>[] = []
+
+  const flush = () => {
+    if (text.length === 0 && thinking.length === 0 && toolCalls.length === 0) return
+    result.push({
+      role: 'assistant',
+      content: text.join('\n\n'),
+      model,
+      provider: 'anthropic',
+      ...(toolCalls.length > 0 && { toolCalls }),
+      ...(thinking.length > 0 && { metadata: { thinking: thinking.join('\n\n') } }),
+      createdAt,
+    })
+    text = []
+    thinking = []
+    toolCalls = []
+  }
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'text':
+        if (block.text) text.push(block.text)
+        break
+      case 'thinking':
+        if (block.thinking) thinking.push(block.thinking)
+        break
+      case 'tool_use':
+        toolCalls.push({
+          id: block.id ?? `${message.uuid ?? 'tool'}-${toolCalls.length}`,
+          type: 'function',
+          function: { name: block.name ?? 'tool', arguments: JSON.stringify(block.input ?? {}) },
+        })
+        break
+      case 'tool_result':
+        flush()
+        result.push({
+          role: 'tool',
+          content: getClaudeText(block.content),
+          toolCallId: block.tool_use_id,
+          ...(block.name && { metadata: { toolName: block.name } }),
+          createdAt,
+        })
+        break
+    }
+  }
+  flush()
+
+  return result
+}
+
+function parseClaudeConversation(conversation: ClaudeConversation): ImportedConversation {
+  // The export does not say which model answered
+  const model = FALLBACK_MODELS.anthropic
+  return {
+    title: conversation.name?.trim() || UNTITLED,
+    model,
+    provider: 'anthropic',
+    metadata: { importedFrom: { source: 'claude', id: conversation.uuid } },
+    createdAt: fromIsoString(conversation.created_at),
+    updatedAt: fromIsoString(conversation.updated_at),
+    messages: (conversation.chat_messages ?? []).flatMap((message) => parseClaudeMessage(message, model)),
+  }
+}
+
+// ============================================================================
+// Ondo AI
+// ============================================================================
+
+function parseExportedConversation(
+  conversation: ExportedConversation,
+  parentMessageIds?: string[]
+): ImportedConversation {
+  const branchPointIndex = parentMessageIds?.indexOf(conversation.branchPointId ?? '')
+  const messageIds = conversation.messages.map((m) => m.id)
+
+  return {
+    title: conversation.title,
+    model: conversation.model,
+    provider: conversation.provider,
+    systemPrompt: conversation.systemPrompt,
+    metadata: {
+      ...conversation.metadata,
+      importedFrom: { source: 'ondo', id: conversation.id },
+    },
+    pinned: conversation.pinned,
+    archived: conversation.archived,
+    createdAt: fromIsoString(conversation.createdAt),
+    updatedAt: fromIsoString(conversation.updatedAt),
+    messages: conversation.messages.map((message) => ({
+      role: message.role,
+      content: message.content,
+      model: message.model ?? undefined,
+      provider: message.provider ?? undefined,
+      inputTokens: message.inputTokens ?? undefined,
+      outputTokens: message.outputTokens ?? undefined,
+      estimatedCost: message.estimatedCost ?? undefined,
+      toolCalls: message.toolCalls ?? undefined,
+      toolCallId: message.toolCallId ?? undefined,
+      attachments: message.attachments ?? undefined,
+      metadata: message.metadata ?? undefined,
+      createdAt: fromIsoString(message.createdAt),
+    })),
+    ...(branchPointIndex !== undefined && branchPointIndex >= 0 && { branchPointIndex }),
+    branches: conversation.branches.map((branch) => parseExportedConversation(branch, messageIds)),
+  }
+}
+
+function parseOndoDocument(document: ConversationExportDocument): ImportedConversation {
+  if (document.version > CONVERSATION_EXPORT_VERSION) {
+    throw new Error(`Export version ${document.version} is newer than this server supports`)
+  }
+  return parseExportedConversation(document.conversation)
+}
+
+// ============================================================================
+// Entry point
+// ============================================================================
+
+/**
+ * Convert parsed export data into conversations. Conversations without any
+ * messages are dropped.
+ */
+export function parseImport(data: unknown, source: ConversationImportSource): ImportedConversation[] {
+  const items: unknown[] = Array.isArray(data) ? data : [data]
+
+  const conversations = items.filter(isRecord).map((item) => {
+    switch (source) {
+      case 'chatgpt':
+        return parseChatGPTConversation(item as unknown as ChatGPTConversation)
+      case 'claude':
+        return parseClaudeConversation(item as unknown as ClaudeConversation)
+      case 'ondo':
+        return parseOndoDocument(item as unknown as ConversationExportDocument)
+    }
+  })
+
+  return conversations.filter((conversation) => conversation.messages.length > 0)
+}
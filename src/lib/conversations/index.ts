@@ -0,0 +1,4 @@
+export * from './types'
+export * from './export'
+export * from './import'
+export * from './search'
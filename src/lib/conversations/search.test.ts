@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { buildSnippet, findHighlights, fuseRankings, parseSearchQuery } from './search'
+
+describe('fuseRankings', () => {
+  it('scores each id by its ranks across the lists', () => {
+    const scores = fuseRankings([['a', 'b'], ['b', 'c']], 60)
+
+    expect(scores.get('a')).toBeCloseTo(1 / 61)
+    expect(scores.get('b')).toBeCloseTo(1 / 62 + 1 / 61)
+    expect(scores.get('c')).toBeCloseTo(1 / 62)
+  })
+
+  it('ranks an id found by both lists above one that tops only one', () => {
+    const scores = fuseRankings([
+      ['keyword-only', 'both'],
+      ['semantic-only', 'both'],
+    ])
+
+    const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]).map(([id]) => id)
+    expect(ranked[0]).toBe('both')
+  })
+
+  it('returns no scores for empty lists', () => {
+    expect(fuseRankings([[], []]).size).toBe(0)
+  })
+})
+
+describe('parseSearchQuery', () => {
+  it('returns null when nothing is searchable', () => {
+    expect(parseSearchQuery('  ')).toBeNull()
+    expect(parseSearchQuery('!!! ""')).toBeNull()
+  })
+
+  it('requires every word', () => {
+    expect(parseSearchQuery('Deploy Service')).toEqual({
+      terms: [
+        { words: ['deploy'], prefix: false },
+        { words: ['service'], prefix: false },
+      ],
+      tsquery: 'deploy & service',
+    })
+  })
+
+  it('matches quoted phrases as adjacent words', () => {
+    expect(parseSearchQuery('"release notes" draft')?.tsquery).toBe('(release <-> notes) & draft')
+  })
+
+  it('treats a trailing * as a prefix', () => {
+    expect(parseSearchQuery('deploy*')?.tsquery).toBe('deploy:*')
+    expect(parseSearchQuery('"deploy*"')?.tsquery).toBe('deploy')
+  })
+
+  it('turns hyphenated tokens into phrases', () => {
+    expect(parseSearchQuery('follow-up')?.tsquery).toBe('(follow <-> up)')
+  })
+
+  it('strips tsquery operators from the input', () => {
+    expect(parseSearchQuery("a & b | !c ) ' :*")?.tsquery).toBe('a & b & c')
+  })
+
+  it('caps the number of terms', () => {
+    const query = Array.from({ length: 40 }, (_, i) => `w${i}`).join(' ')
+    expect(parseSearchQuery(query)?.terms).toHaveLength(16)
+  })
+})
+
+describe('findHighlights', () => {
+  const terms = parseSearchQuery('deploy')!.terms
+
+  it('highlights longer forms of a word at word starts only', () => {
+    expect(findHighlights('Deployment redeploy deploys', terms)).toEqual([
+      { start: 0, end: 10 },
+      { start: 20, end: 27 },
+    ])
+  })
+})
+
+describe('buildSnippet', () => {
+  const terms = parseSearchQuery('needle')!.terms
+
+  it('returns the start of the content when nothing matches', () => {
+    expect(buildSnippet('short text', terms)).toEqual({ snippet: 'short text', highlights: [] })
+    expect(buildSnippet('x'.repeat(200), terms, 10)).toEqual({ snippet: `${'x'.repeat(20)}...`, highlights: [] })
+  })
+
+  it('centers the snippet on the first match with relative highlights', () => {
+    const content = `${'a'.repeat(50)} needle ${'b'.repeat(50)}`
+    const { snippet, highlights } = buildSnippet(content, terms, 10)
+
+    expect(snippet).toBe(`...${'a'.repeat(9)} needle ${'b'.repeat(9)}...`)
+    expect(highlights).toHaveLength(1)
+    expect(snippet.slice(highlights[0].start, highlights[0].end)).toBe('needle')
+  })
+
+  it('cuts highlights at the end of the window', () => {
+    const content = 'needle needles'
+    const { snippet, highlights } = buildSnippet(content, terms, 2)
+
+    expect(snippet).toBe('needle n...')
+    expect(highlights.map(({ start, end }) => snippet.slice(start, end))).toEqual(['needle', 'n'])
+  })
+})
@@ -0,0 +1,125 @@
+/**
+ * Full-text search query parsing and highlighting
+ *
+ * Queries are a list of words, all of which must match. "Quoted phrases"
+ * must match as adjacent words and a trailing * makes a word a prefix
+ * (`deploy*` matches deployment). Matching itself happens in the database
+ * against an English tsvector; highlighting is done here so it works on
+ * databases without ts_headline.
+ */
+
+import type { SearchHighlight } from '@/types'
+
+export interface SearchTerm {
+  words: string[]
+  /** The last word matches as a prefix */
+  prefix: boolean
+}
+
+export interface ParsedSearchQuery {
+  terms: SearchTerm[]
+  /** Input for to_tsquery; only contains letters, digits and operators */
+  tsquery: string
+}
+
+const WORD = new RegExp('[\\p{L}\\p{N}]+', 'gu')
+
+/** Keeps pathological queries from producing huge tsqueries */
+const MAX_TERMS = 16
+
+function toWords(text: string): string[] {
+  return (text.toLowerCase().match(WORD) ?? []).slice(0, MAX_TERMS)
+}
+
+/**
+ * Parse a user query, or return null if it contains nothing searchable
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery | null {
+  const terms: SearchTerm[] = []
+
+  for (const [, phrase, token] of Array.from(query.matchAll(/"([^"]*)"?|(\S+)/g))) {
+    const words = toWords(phrase ?? token)
+    if (words.length === 0) continue
+    terms.push({ words, prefix: !phrase && token.endsWith('*') })
+    if (terms.length === MAX_TERMS) break
+  }
+
+  if (terms.length === 0) return null
+
+  // A hyphenated token like "follow-up" becomes a phrase, as it does in the tsvector
+  const tsquery = terms
+    .map(({ words, prefix }) => {
+      const lexemes = words.map((word, i) => (prefix && i === words.length - 1 ? `${word}:*` : word))
+      return lexemes.length > 1 ? `(${lexemes.join(' <-> ')})` : lexemes[0]
+    })
+    .join(' & ')
+
+  return { terms, tsquery }
+}
+
+/**
+ * Ranges of text matching any query word. Every word also matches longer
+ * forms of itself, which approximates the stemming the database applies.
+ */
+export function findHighlights(text: string, terms: SearchTerm[]): SearchHighlight[] {
+  const words = Array.from(new Set(terms.flatMap((term) => term.words)))
+  if (words.length === 0) return []
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${words.join('|')})[\\p{L}\\p{N}]*`, 'giu')
+  return Array.from(text.matchAll(pattern), (match) => ({
+    start: match.index,
+    end: match.index + match[0].length,
+  }))
+}
+
+// Reciprocal rank fusion constant; dampens the advantage of the very top ranks
+const RRF_K = 60
+
+/**
+ * Merge ranked lists of ids with reciprocal rank fusion: each list adds
+ * 1 / (k + rank) to an id's score, so ids near the top of several lists
+ * beat ids at the top of only one
+ */
+export function fuseRankings(rankings: string[][], k = RRF_K): Map<string, number> {
+  const scores = new Map<string, number>()
+  for (const ranking of rankings) {
+    ranking.forEach((id, rank) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (k + rank + 1))
+    })
+  }
+  return scores
+}
+
+/**
+ * A window of `content` around its first match, with highlight ranges
+ * relative to the returned snippet
+ */
+export function buildSnippet(
+  content: string,
+  terms: SearchTerm[],
+  radius = 80
+): { snippet: string; highlights: SearchHighlight[] } {
+  const matches = findHighlights(content, terms)
+  const first = matches[0]
+  if (!first) {
+    const end = Math.min(content.length, radius * 2)
+    return { snippet: content.slice(0, end) + (end < content.length ? '...' : ''), highlights: [] }
+  }
+
+  const start = Math.max(0, first.start - radius)
+  const end = Math.min(content.length, first.end + radius)
+  const prefix = start > 0 ? '...' : ''
+  const suffix = end < content.length ? '...' : ''
+  const offset = prefix.length - start
+
+  return {
+    snippet: prefix + content.slice(start, end) + suffix,
+    // Matches cut off by the window are highlighted up to the cut
+    highlights: matches
+      .filter((match) => match.start < end)
+      .map((match) => ({
+        start: match.start + offset,
+        end: Math.min(match.end, end) + offset,
+      })),
+  }
+}
@@ -0,0 +1,92 @@
+import type { MessageRole } from '@/types'
+
+export const CONVERSATION_EXPORT_FORMAT = 'ondo-ai.conversation'
+export const CONVERSATION_EXPORT_VERSION = 1
+
+// ============================================================================
+// Lossless JSON export
+// ============================================================================
+
+export interface ExportedMessage {
+  id: string
+  role: MessageRole
+  content: string
+  model: string | null
+  provider: string | null
+  inputTokens: number | null
+  outputTokens: number | null
+  estimatedCost: number | null
+  toolCalls: Record<string, unknown>[] | null
+  toolCallId: string | null
+  attachments: Record<string, unknown>[] | null
+  /** Holds citations, thinking, routing and tool executions */
+  metadata: Record<string, unknown> | null
+  createdAt: string
+}
+
+export interface ExportedConversation {
+  id: string
+  title: string
+  model: string
+  provider: string
+  systemPrompt: string | null
+  metadata: Record<string, unknown> | null
+  contextSummary: Record<string, unknown> | null
+  projectId: string | null
+  folderId: string | null
+  workspaceId: string | null
+  pinned: boolean
+  archived: boolean
+  /** Message in the parent conversation this branch was created from */
+  branchPointId: string | null
+  createdAt: string
+  updatedAt: string
+  /** Branches repeat the parent's messages up to the branch point */
+  messages: ExportedMessage[]
+  branches: ExportedConversation[]
+}
+
+export interface ConversationExportDocument {
+  format: typeof CONVERSATION_EXPORT_FORMAT
+  version: number
+  exportedAt: string
+  conversation: ExportedConversation
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+export interface ImportedMessage {
+  role: MessageRole
+  content: string
+  model?: string
+  provider?: string
+  inputTokens?: number
+  outputTokens?: number
+  estimatedCost?: number
+  toolCalls?: Record<string, unknown>[]
+  toolCallId?: string
+  attachments?: Record<string, unknown>[]
+  metadata?: Record<string, unknown>
+  createdAt?: Date
+}
+
+/**
+ * A conversation parsed from an export file, ready to be written to the database
+ */
+export interface ImportedConversation {
+  title: string
+  model: string
+  provider: string
+  systemPrompt?: string | null
+  metadata?: Record<string, unknown>
+  pinned?: boolean
+  archived?: boolean
+  createdAt?: Date
+  updatedAt?: Date
+  messages: ImportedMessage[]
+  /** Index of the parent message this branch was created from */
+  branchPointIndex?: number
+  branches?: ImportedConversation[]
+}
@@ -62,4 +62,5 @@ export type {
   AgentTask,
   AgentTaskEvent,
   UsageRecord,
+  RoutingDecision,
 } from '@/generated/prisma'
@@ -0,0 +1,96 @@
+/**
+ * API Key Database Service
+ *
+ * Issues and verifies personal API keys for the public gateway. Only a
+ * SHA-256 hash of each secret is stored; the secret itself is returned once,
+ * when the key is created.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { prisma } from '../index'
+import type { ApiKey } from '@/generated/prisma'
+
+const KEY_PREFIX = 'ondo_'
+const PREFIX_LENGTH = 8
+
+// lastUsedAt is only written when it is older than this, to keep hot keys cheap
+const LAST_USED_RESOLUTION_MS = 60_000
+
+export interface CreateApiKeyInput {
+  userId: string
+  name: string
+  workspaceId?: string
+  expiresAt?: Date
+}
+
+export type ApiKeySummary = Omit<ApiKey, 'keyHash'>
+
+export function hashApiKey(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex')
+}
+
+function toSummary({ keyHash: _keyHash, ...key }: ApiKey): ApiKeySummary {
+  return key
+}
+
+/**
+ * Create an API key. The returned secret cannot be recovered later.
+ */
+export async function createApiKey(
+  input: CreateApiKeyInput
+): Promise<{ key: ApiKeySummary; secret: string }> {
+  const secret = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`
+
+  const key = await prisma.apiKey.create({
+    data: {
+      userId: input.userId,
+      name: input.name,
+      workspaceId: input.workspaceId,
+      keyHash: hashApiKey(secret),
+      prefix: secret.slice(0, KEY_PREFIX.length + PREFIX_LENGTH),
+      expiresAt: input.expiresAt,
+    },
+  })
+
+  return { key: toSummary(key), secret }
+}
+
+export async function getUserApiKeys(userId: string): Promise<ApiKeySummary[]> {
+  const keys = await prisma.apiKey.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  })
+  return keys.map(toSummary)
+}
+
+export async function getApiKey(id: string): Promise<ApiKeySummary | null> {
+  const key = await prisma.apiKey.findUnique({ where: { id } })
+  return key ? toSummary(key) : null
+}
+
+/**
+ * Revoke an API key. Revoked keys are deleted, so their hash stops matching.
+ */
+export async function deleteApiKey(id: string): Promise<void> {
+  await prisma.apiKey.delete({ where: { id } })
+}
+
+/**
+ * Look up the key for a presented secret. Returns null for unknown or
+ * expired keys and records the time of use otherwise.
+ */
+export async function verifyApiKey(secret: string): Promise<ApiKeySummary | null> {
+  if (!secret.startsWith(KEY_PREFIX)) return null
+
+  const key = await prisma.apiKey.findUnique({ where: { keyHash: hashApiKey(secret) } })
+  if (!key) return null
+  if (key.expiresAt && key.expiresAt.getTime() <= Date.now()) return null
+
+  if (!key.lastUsedAt || Date.now() - key.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    const lastUsedAt = new Date()
+    await prisma.apiKey.update({ where: { id: key.id }, data: { lastUsedAt } })
+    key.lastUsedAt = lastUsedAt
+  }
+
+  return toSummary(key)
+}
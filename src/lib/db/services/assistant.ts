@@ -0,0 +1,342 @@
+/**
+ * Assistant Database Service
+ *
+ * Custom assistants visible to a user are their own, those shared with a
+ * workspace they belong to, and those of projects they can open.
+ */
+
+import { prisma } from '../index'
+import type { Assistant } from '@/generated/prisma'
+import type { AgentDataSource, AgentParameters, AgentTool } from '@/lib/agents/types'
+import { getAssistantIdFromModelId } from '@/lib/agents/assistants'
+import type { AssistantScope } from '@/types'
+
+export interface SaveAssistantInput {
+  id: string
+  ownerId: string
+  workspaceId: string | null
+  projectId: string | null
+  name: string
+  description?: string
+  instructions: string
+  model: string
+  parameters?: AgentParameters
+  tools?: AgentTool[]
+  dataSources?: AgentDataSource[]
+}
+
+/**
+ * Assistant fields from a request body. Scope ids are checked against the
+ * user's memberships by the route.
+ */
+export interface AssistantInput {
+  name?: string
+  description?: string
+  instructions?: string
+  model?: string
+  parameters?: AgentParameters
+  tools?: AgentTool[]
+  dataSources?: AgentDataSource[]
+  scope?: AssistantScope
+  workspaceId?: string | null
+  projectId?: string | null
+}
+
+// ============================================================================
+// Assistant CRUD
+// ============================================================================
+
+/**
+ * Create the assistant, or update it if the id exists. The owner never changes.
+ */
+export async function saveAssistant(input: SaveAssistantInput): Promise<Assistant> {
+  const data = {
+    workspaceId: input.workspaceId,
+    projectId: input.projectId,
+    name: input.name,
+    description: input.description ?? null,
+    instructions: input.instructions,
+    model: input.model,
+    parameters: input.parameters ? JSON.stringify(input.parameters) : null,
+    tools: input.tools?.length ? JSON.stringify(input.tools) : null,
+    dataSources: input.dataSources?.length ? JSON.stringify(input.dataSources) : null,
+  }
+
+  return prisma.assistant.upsert({
+    where: { id: input.id },
+    create: { id: input.id, ownerId: input.ownerId, ...data },
+    update: data,
+  })
+}
+
+export async function getAssistant(id: string): Promise<Assistant | null> {
+  return prisma.assistant.findUnique({
+    where: { id },
+  })
+}
+
+/**
+ * The assistant a model id such as `assistant-<id>` selects
+ */
+export async function getAssistantByModelId(modelId: string): Promise<Assistant | null> {
+  const id = getAssistantIdFromModelId(modelId)
+  return id ? getAssistant(id) : null
+}
+
+export async function getUserAssistants(
+  userId: string,
+  options?: { query?: string; limit?: number }
+): Promise<Assistant[]> {
+  const memberships = await prisma.workspaceMember.findMany({
+    where: { userId },
+    select: { workspaceId: true },
+  })
+  const workspaceIds = memberships.map((m) => m.workspaceId)
+
+  return prisma.assistant.findMany({
+    where: {
+      AND: [
+        {
+          OR: [
+            { ownerId: userId },
+            { projectId: null, workspaceId: { in: workspaceIds } },
+            { project: { OR: [{ ownerId: userId }, { workspaceId: { in: workspaceIds } }] } },
+          ],
+        },
+        options?.query
+          ? {
+              OR: [
+                { name: { contains: options.query } },
+                { description: { contains: options.query } },
+              ],
+            }
+          : {},
+      ],
+    },
+    orderBy: { name: 'asc' },
+    take: options?.limit,
+  })
+}
+
+export async function deleteAssistant(id: string): Promise<void> {
+  // Threads keep their messages; their assistantId is cleared by the schema
+  await prisma.assistant.delete({
+    where: { id },
+  })
+}
+
+/**
+ * Parse one of the JSON columns of an assistant
+ */
+export function parseAssistantJson<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return fallback
+  }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const SCOPES: AssistantScope[] = ['personal', 'workspace', 'project']
+const TOOL_TYPES: AgentTool['type'][] = ['function', 'code_interpreter', 'file_search', 'retrieval']
+const DATA_SOURCE_TYPES: AgentDataSource['type'][] = ['file', 'vector_store', 'knowledge_base', 'api']
+
+const MAX_NAME_LENGTH = 100
+const MAX_DESCRIPTION_LENGTH = 500
+/** Longest assistant instructions accepted, in characters */
+const MAX_INSTRUCTIONS_LENGTH = 20000
+const MAX_TOOLS = 32
+const MAX_DATA_SOURCES = 10
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+function validateNumber(
+  value: unknown,
+  name: string,
+  options: { min: number; max?: number; integer?: boolean }
+): { value?: number } | { error: string } {
+  if (value === undefined || value === null || value === '') return {}
+  const range = options.max !== undefined ? `between ${options.min} and ${options.max}` : `at least ${options.min}`
+  if (
+    typeof value !== 'number' ||
+    !Number.isFinite(value) ||
+    (options.integer && !Number.isInteger(value)) ||
+    value < options.min ||
+    (options.max !== undefined && value > options.max)
+  ) {
+    return { error: `parameters.${name} must be ${options.integer ? 'an integer' : 'a number'} ${range}` }
+  }
+  return { value }
+}
+
+function validateParameters(value: unknown): { parameters: AgentParameters } | { error: string } {
+  if (!isRecord(value)) return { error: 'parameters must be an object' }
+  const parameters: AgentParameters = {}
+
+  const numbers = [
+    ['temperature', { min: 0, max: 2 }],
+    ['maxTokens', { min: 1, integer: true }],
+    ['topP', { min: 0, max: 1 }],
+    ['topK', { min: 1, integer: true }],
+  ] as const
+  for (const [name, options] of numbers) {
+    const result = validateNumber(value[name], name, options)
+    if ('error' in result) return result
+    if (result.value !== undefined) parameters[name] = result.value
+  }
+
+  if (value.stopSequences !== undefined && value.stopSequences !== null) {
+    if (!isStringArray(value.stopSequences) || value.stopSequences.length > 4) {
+      return { error: 'parameters.stopSequences must be at most 4 strings' }
+    }
+    if (value.stopSequences.length > 0) parameters.stopSequences = value.stopSequences
+  }
+
+  return { parameters }
+}
+
+function validateTools(value: unknown): { tools: AgentTool[] } | { error: string } {
+  if (!Array.isArray(value) || value.length > MAX_TOOLS) {
+    return { error: `tools must be an array of at most ${MAX_TOOLS} tools` }
+  }
+
+  const tools: AgentTool[] = []
+  for (const tool of value) {
+    if (!isRecord(tool) || typeof tool.name !== 'string' || !tool.name) {
+      return { error: 'Each tool must have a name' }
+    }
+    const type = (tool.type ?? 'function') as AgentTool['type']
+    if (!TOOL_TYPES.includes(type)) {
+      return { error: `tool type must be one of ${TOOL_TYPES.join(', ')}` }
+    }
+    if (tools.some((t) => t.name === tool.name)) continue
+    tools.push({
+      name: tool.name,
+      description: typeof tool.description === 'string' ? tool.description : '',
+      type,
+      ...(isRecord(tool.parameters) && { parameters: tool.parameters }),
+    })
+  }
+  return { tools }
+}
+
+function validateDataSources(value: unknown): { dataSources: AgentDataSource[] } | { error: string } {
+  if (!Array.isArray(value) || value.length > MAX_DATA_SOURCES) {
+    return { error: `dataSources must be an array of at most ${MAX_DATA_SOURCES} sources` }
+  }
+
+  const dataSources: AgentDataSource[] = []
+  for (const source of value) {
+    if (!isRecord(source) || typeof source.id !== 'string' || !source.id) {
+      return { error: 'Each data source must have an id' }
+    }
+    if (!DATA_SOURCE_TYPES.includes(source.type as AgentDataSource['type'])) {
+      return { error: `data source type must be one of ${DATA_SOURCE_TYPES.join(', ')}` }
+    }
+    dataSources.push({
+      id: source.id,
+      type: source.type as AgentDataSource['type'],
+      name: typeof source.name === 'string' ? source.name : source.id,
+    })
+  }
+  return { dataSources }
+}
+
+/**
+ * Validate assistant fields from a request body. With `partial`, only the
+ * fields present are checked (for updates); otherwise name, instructions and
+ * model are required. Returns the normalized input, or an error message.
+ */
+export function validateAssistantInput(
+  value: unknown,
+  options: { partial?: boolean } = {}
+): { input: AssistantInput } | { error: string } {
+  if (!isRecord(value)) return { error: 'Request body must be an object' }
+  const input: AssistantInput = {}
+
+  if (value.name !== undefined || !options.partial) {
+    if (typeof value.name !== 'string' || !value.name.trim()) return { error: 'name is required' }
+    if (value.name.trim().length > MAX_NAME_LENGTH) {
+      return { error: `name must be at most ${MAX_NAME_LENGTH} characters` }
+    }
+    input.name = value.name.trim()
+  }
+
+  if (value.description !== undefined && value.description !== null) {
+    if (typeof value.description !== 'string') return { error: 'description must be a string' }
+    if (value.description.length > MAX_DESCRIPTION_LENGTH) {
+      return { error: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters` }
+    }
+    input.description = value.description.trim()
+  }
+
+  if (value.instructions !== undefined || !options.partial) {
+    if (typeof value.instructions !== 'string' || !value.instructions.trim()) {
+      return { error: 'instructions are required' }
+    }
+    if (value.instructions.length > MAX_INSTRUCTIONS_LENGTH) {
+      return { error: `instructions must be at most ${MAX_INSTRUCTIONS_LENGTH} characters` }
+    }
+    input.instructions = value.instructions.trim()
+  }
+
+  if (value.model !== undefined || !options.partial) {
+    if (typeof value.model !== 'string' || !value.model) return { error: 'model is required' }
+    if (getAssistantIdFromModelId(value.model)) {
+      return { error: 'model must be a model, not another assistant' }
+    }
+    input.model = value.model
+  }
+
+  if (value.parameters !== undefined && value.parameters !== null) {
+    const result = validateParameters(value.parameters)
+    if ('error' in result) return result
+    input.parameters = result.parameters
+  }
+
+  if (value.tools !== undefined && value.tools !== null) {
+    const result = validateTools(value.tools)
+    if ('error' in result) return result
+    input.tools = result.tools
+  }
+
+  if (value.dataSources !== undefined && value.dataSources !== null) {
+    const result = validateDataSources(value.dataSources)
+    if ('error' in result) return result
+    input.dataSources = result.dataSources
+  }
+
+  if (value.scope !== undefined || !options.partial) {
+    const scope = (value.scope ?? 'personal') as AssistantScope
+    if (!SCOPES.includes(scope)) return { error: `scope must be one of ${SCOPES.join(', ')}` }
+    input.scope = scope
+
+    if (scope === 'workspace') {
+      if (typeof value.workspaceId !== 'string' || !value.workspaceId) {
+        return { error: 'workspaceId is required for workspace assistants' }
+      }
+      input.workspaceId = value.workspaceId
+      input.projectId = null
+    } else if (scope === 'project') {
+      if (typeof value.projectId !== 'string' || !value.projectId) {
+        return { error: 'projectId is required for project assistants' }
+      }
+      input.projectId = value.projectId
+    } else {
+      input.workspaceId = null
+      input.projectId = null
+    }
+  }
+
+  return { input }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('./usage', () => ({ getUsageTotals: vi.fn() }))
+
+import { checkWorkspaceBudgets, describeBudget, getBudgetPeriodStart, parseBudgetPolicy } from './budget'
+import { getUsageTotals } from './usage'
+import type { BudgetUsage } from '@/types'
+
+describe('parseBudgetPolicy', () => {
+  it('normalizes a full policy', () => {
+    expect(
+      parseBudgetPolicy({
+        workspace: { metric: 'cost', limit: 100 },
+        perMember: { metric: 'tokens', limit: 50_000 },
+        members: { 'user-1': { metric: 'cost', limit: 10 }, 'user-2': null },
+        models: { 'gpt-4o': { metric: 'cost', limit: 25 } },
+        warningThresholds: [90, 50, 90],
+      })
+    ).toEqual({
+      policy: {
+        workspace: { metric: 'cost', limit: 100 },
+        perMember: { metric: 'tokens', limit: 50_000 },
+        members: { 'user-1': { metric: 'cost', limit: 10 } },
+        models: { 'gpt-4o': { metric: 'cost', limit: 25 } },
+        warningThresholds: [50, 90],
+      },
+    })
+  })
+
+  it('drops empty limit maps', () => {
+    expect(parseBudgetPolicy({ members: {} })).toEqual({
+      policy: { workspace: undefined, perMember: undefined, members: undefined, models: undefined, warningThresholds: undefined },
+    })
+  })
+
+  it.each([
+    [null, 'budgets must be an object'],
+    [[], 'budgets must be an object'],
+    [{ workspace: { metric: 'requests', limit: 1 } }, 'budgets.workspace.metric must be "cost" or "tokens"'],
+    [{ perMember: { metric: 'cost', limit: -1 } }, 'budgets.perMember.limit must be a non-negative number'],
+    [{ perMember: { metric: 'cost', limit: Infinity } }, 'budgets.perMember.limit must be a non-negative number'],
+    [{ members: [] }, 'budgets.members must be an object'],
+    [{ models: { 'gpt-4o': { metric: 'cost' } } }, 'budgets.models.gpt-4o.limit must be a non-negative number'],
+    [{ warningThresholds: [100] }, 'budgets.warningThresholds must be percentages between 0 and 100'],
+    [{ warningThresholds: 80 }, 'budgets.warningThresholds must be percentages between 0 and 100'],
+  ])('rejects %j', (input, error) => {
+    expect(parseBudgetPolicy(input)).toEqual({ error })
+  })
+})
+
+describe('describeBudget', () => {
+  const usage = (changes: Partial<BudgetUsage>): BudgetUsage => ({
+    scope: 'workspace',
+    workspaceId: 'ws-1',
+    metric: 'cost',
+    limit: 100,
+    used: 0,
+    ...changes,
+  })
+
+  it('describes a reached budget', () => {
+    expect(describeBudget(usage({ used: 120 }), 'Acme')).toBe('The monthly budget of Acme of $100.00 has been reached')
+  })
+
+  it('describes a partly used budget', () => {
+    expect(describeBudget(usage({ scope: 'member', metric: 'tokens', limit: 10_000, used: 8_500 }))).toBe(
+      'Your monthly budget in this workspace is 85% used (8,500 tokens of 10,000 tokens)'
+    )
+  })
+
+  it('names the model of a model budget', () => {
+    expect(describeBudget(usage({ scope: 'model', model: 'gpt-4o', used: 0, limit: 0 }))).toBe(
+      'The monthly budget for gpt-4o in this workspace of $0.00 has been reached'
+    )
+  })
+})
+
+describe('getBudgetPeriodStart', () => {
+  it('starts at the first of the month in UTC', () => {
+    expect(getBudgetPeriodStart(new Date('2024-03-15T12:00:00Z')).toISOString()).toBe('2024-03-01T00:00:00.000Z')
+  })
+})
+
+describe('checkWorkspaceBudgets', () => {
+  it('sorts budgets into exceeded and warnings', async () => {
+    vi.mocked(getUsageTotals).mockImplementation(async (filter) => ({
+      requests: 1,
+      inputTokens: 0,
+      outputTokens: 0,
+      cost: filter.model ? 30 : filter.userId ? 9 : 50,
+    }))
+
+    const check = await checkWorkspaceBudgets('ws-1', 'user-1', ['gpt-4o', 'gpt-4o'], {
+      workspace: { metric: 'cost', limit: 100 },
+      perMember: { metric: 'cost', limit: 10 },
+      models: { 'gpt-4o': { metric: 'cost', limit: 25 } },
+      warningThresholds: [50, 80],
+    })
+
+    expect(check.exceeded.map((usage) => usage.scope)).toEqual(['model'])
+    expect(check.warnings.map((usage) => [usage.scope, usage.threshold])).toEqual([
+      ['workspace', 50],
+      ['member', 80],
+    ])
+    expect(getUsageTotals).toHaveBeenCalledTimes(3)
+    expect(getUsageTotals).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-1', includePersonal: true }))
+  })
+
+  it('does not query usage without a policy', async () => {
+    vi.mocked(getUsageTotals).mockClear()
+    expect(await checkWorkspaceBudgets('ws-1', 'user-1', [], undefined)).toEqual({ exceeded: [], warnings: [] })
+    expect(getUsageTotals).not.toHaveBeenCalled()
+  })
+})
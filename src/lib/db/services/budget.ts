@@ -0,0 +1,187 @@
+/**
+ * Budget Database Service
+ *
+ * Checks month-to-date usage against a workspace's budget policy. Usage is
+ * read from UsageRecord, so anything metered counts towards the budgets.
+ * A member's budget also counts their usage outside any workspace, which
+ * the budget applies to as well.
+ */
+
+import { getUsageTotals, type UsageFilter } from './usage'
+import type { BudgetLimit, BudgetScope, BudgetUsage, UsageTotals, WorkspaceBudgetPolicy } from '@/types'
+
+const DEFAULT_WARNING_THRESHOLDS = [80]
+
+export interface BudgetCheck {
+  /** Budgets at or over their limit */
+  exceeded: BudgetUsage[]
+  /** Budgets past a warning threshold but under their limit */
+  warnings: Array<BudgetUsage & { threshold: number }>
+}
+
+/**
+ * Start of the current budget period (first of the month, UTC)
+ */
+export function getBudgetPeriodStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+}
+
+function measure(totals: UsageTotals, limit: BudgetLimit): number {
+  return limit.metric === 'cost' ? totals.cost : totals.inputTokens + totals.outputTokens
+}
+
+/**
+ * Check the budgets that apply to a member using the given models.
+ * Only budgets that are configured are queried.
+ */
+export async function checkWorkspaceBudgets(
+  workspaceId: string,
+  userId: string,
+  models: string[],
+  policy: WorkspaceBudgetPolicy | undefined
+): Promise<BudgetCheck> {
+  if (!policy) return { exceeded: [], warnings: [] }
+
+  const now = new Date()
+  const period: UsageFilter = { from: getBudgetPeriodStart(now), to: now, workspaceId }
+
+  const budgets: Array<{ scope: BudgetScope; limit: BudgetLimit; filter: UsageFilter; model?: string }> = []
+  if (policy.workspace) {
+    budgets.push({ scope: 'workspace', limit: policy.workspace, filter: period })
+  }
+  const memberLimit = policy.members?.[userId] ?? policy.perMember
+  if (memberLimit) {
+    budgets.push({
+      scope: 'member',
+      limit: memberLimit,
+      filter: { ...period, userId, includePersonal: true },
+    })
+  }
+  for (const model of Array.from(new Set(models))) {
+    const modelLimit = policy.models?.[model]
+    if (modelLimit) {
+      budgets.push({ scope: 'model', limit: modelLimit, filter: { ...period, model }, model })
+    }
+  }
+
+  const results = await Promise.all(
+    budgets.map(async ({ scope, limit, filter, model }): Promise<BudgetUsage> => ({
+      scope,
+      workspaceId,
+      metric: limit.metric,
+      limit: limit.limit,
+      used: measure(await getUsageTotals(filter), limit),
+      model,
+    }))
+  )
+
+  const thresholds = (policy.warningThresholds ?? DEFAULT_WARNING_THRESHOLDS)
+    .filter((t) => t > 0 && t < 100)
+    .sort((a, b) => b - a)
+
+  const check: BudgetCheck = { exceeded: [], warnings: [] }
+  for (const usage of results) {
+    const percent = usage.limit > 0 ? (usage.used / usage.limit) * 100 : 100
+    if (percent >= 100) {
+      check.exceeded.push(usage)
+      continue
+    }
+    const threshold = thresholds.find((t) => percent >= t)
+    if (threshold !== undefined) {
+      check.warnings.push({ ...usage, threshold })
+    }
+  }
+  return check
+}
+
+function formatAmount(usage: BudgetLimit, value: number): string {
+  return usage.metric === 'cost' ? `$${value.toFixed(2)}` : `${Math.round(value).toLocaleString('en-US')} tokens`
+}
+
+function describeScope(usage: BudgetUsage, workspaceName?: string): string {
+  switch (usage.scope) {
+    case 'workspace':
+      return workspaceName ? `The monthly budget of ${workspaceName}` : "This workspace's monthly budget"
+    case 'member':
+      return `Your monthly budget in ${workspaceName ?? 'this workspace'}`
+    case 'model':
+      return `The monthly budget for ${usage.model} in ${workspaceName ?? 'this workspace'}`
+  }
+}
+
+/**
+ * User-facing description of a budget, e.g. for errors and warnings.
+ * Name the workspace when the request was not made in it.
+ */
+export function describeBudget(usage: BudgetUsage, workspaceName?: string): string {
+  const percent = usage.limit > 0 ? Math.floor((usage.used / usage.limit) * 100) : 100
+  if (percent >= 100) {
+    return `${describeScope(usage, workspaceName)} of ${formatAmount(usage, usage.limit)} has been reached`
+  }
+  return `${describeScope(usage, workspaceName)} is ${percent}% used (${formatAmount(usage, usage.used)} of ${formatAmount(usage, usage.limit)})`
+}
+
+function parseLimit(value: unknown, field: string): BudgetLimit | undefined | string {
+  if (value === undefined || value === null) return undefined
+  const limit = value as Partial<BudgetLimit>
+  if (limit.metric !== 'cost' && limit.metric !== 'tokens') {
+    return `${field}.metric must be "cost" or "tokens"`
+  }
+  if (typeof limit.limit !== 'number' || !Number.isFinite(limit.limit) || limit.limit < 0) {
+    return `${field}.limit must be a non-negative number`
+  }
+  return { metric: limit.metric, limit: limit.limit }
+}
+
+function parseLimitMap(value: unknown, field: string): Record<string, BudgetLimit> | undefined | string {
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== 'object' || Array.isArray(value)) return `${field} must be an object`
+
+  const limits: Record<string, BudgetLimit> = {}
+  for (const [key, entry] of Object.entries(value)) {
+    const limit = parseLimit(entry, `${field}.${key}`)
+    if (typeof limit === 'string') return limit
+    if (limit) limits[key] = limit
+  }
+  return Object.keys(limits).length > 0 ? limits : undefined
+}
+
+/**
+ * Validate a budget policy from a request body.
+ * Returns the normalized policy, or an error message.
+ */
+export function parseBudgetPolicy(value: unknown): { policy: WorkspaceBudgetPolicy } | { error: string } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'budgets must be an object' }
+  }
+  const input = value as Record<string, unknown>
+
+  const workspace = parseLimit(input.workspace, 'budgets.workspace')
+  const perMember = parseLimit(input.perMember, 'budgets.perMember')
+  const members = parseLimitMap(input.members, 'budgets.members')
+  const models = parseLimitMap(input.models, 'budgets.models')
+  for (const result of [workspace, perMember, members, models]) {
+    if (typeof result === 'string') return { error: result }
+  }
+
+  let warningThresholds: number[] | undefined
+  if (input.warningThresholds !== undefined) {
+    if (
+      !Array.isArray(input.warningThresholds) ||
+      !input.warningThresholds.every((t) => typeof t === 'number' && t > 0 && t < 100)
+    ) {
+      return { error: 'budgets.warningThresholds must be percentages between 0 and 100' }
+    }
+    warningThresholds = Array.from(new Set(input.warningThresholds as number[])).sort((a, b) => a - b)
+  }
+
+  return {
+    policy: {
+      workspace: workspace as BudgetLimit | undefined,
+      perMember: perMember as BudgetLimit | undefined,
+      members: members as Record<string, BudgetLimit> | undefined,
+      models: models as Record<string, BudgetLimit> | undefined,
+      warningThresholds,
+    },
+  }
+}
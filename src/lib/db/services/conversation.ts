@@ -5,13 +5,20 @@
  */
 
 import { prisma } from '../index'
-import type { Conversation, Message } from '@/generated/prisma'
+import { dbLogger } from '@/lib/logging'
+import { Prisma, type Conversation, type Message } from '@/generated/prisma'
+import type { ImportedConversation } from '@/lib/conversations/types'
+import { buildSnippet, findHighlights, fuseRankings, parseSearchQuery } from '@/lib/conversations/search'
+import { embedQuery, queueMessageEmbedding } from '@/lib/embeddings'
+import { toVectorLiteral } from './embedding'
+import type { ConversationSearchFilters, ConversationSearchSort, SearchHighlight } from '@/types'
 
 export interface CreateConversationInput {
   userId: string
   projectId?: string
   folderId?: string | null
   workspaceId?: string | null // null = Personal space
+  assistantId?: string | null // Custom assistant the conversation is a thread with
   title: string
   model: string
   provider: string
@@ -55,6 +62,7 @@ export async function createConversation(
       projectId: input.projectId,
       folderId: input.folderId ?? null,
       workspaceId: input.workspaceId ?? null,
+      assistantId: input.assistantId ?? null,
       title: input.title,
       model: input.model,
       provider: input.provider,
@@ -108,6 +116,25 @@ export async function getUserConversations(
   })
 }
 
+/**
+ * A user's threads with a custom assistant, most recent first
+ */
+export async function getAssistantConversations(
+  assistantId: string,
+  userId: string
+): Promise<ConversationWithMessages[]> {
+  return prisma.conversation.findMany({
+    where: { assistantId, userId, archived: false },
+    include: {
+      messages: {
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+    orderBy: { updatedAt: 'desc' },
+    take: 50,
+  })
+}
+
 export async function updateConversation(
   id: string,
   data: Partial<{
@@ -120,6 +147,7 @@ export async function updateConversation(
     projectId: string | null
     folderId: string | null
     workspaceId: string | null
+    assistantId: string | null
     metadata: Record<string, unknown>
   }>
 ): Promise<Conversation> {
@@ -132,6 +160,37 @@ export async function updateConversation(
   })
 }
 
+/**
+ * Rolling summary of a conversation's older turns, reused across requests
+ * until the summarized messages change
+ */
+export interface ConversationContextSummary {
+  content: string
+  /** Number of leading messages covered by the summary */
+  messageCount: number
+  /** Fingerprint of the covered messages */
+  hash: string
+}
+
+export function parseContextSummary(value: string | null): ConversationContextSummary | null {
+  if (!value) return null
+  try {
+    return JSON.parse(value) as ConversationContextSummary
+  } catch {
+    return null
+  }
+}
+
+export async function updateConversationContextSummary(
+  id: string,
+  summary: ConversationContextSummary | null
+): Promise<void> {
+  await prisma.conversation.update({
+    where: { id },
+    data: { contextSummary: summary ? JSON.stringify(summary) : null },
+  })
+}
+
 export async function deleteConversation(id: string): Promise<void> {
   await prisma.conversation.delete({
     where: { id },
@@ -151,12 +210,12 @@ export async function archiveConversation(id: string): Promise<Conversation> {
 
 export async function createMessage(input: CreateMessageInput): Promise<Message> {
   // Update conversation's updatedAt timestamp
-  await prisma.conversation.update({
+  const conversation = await prisma.conversation.update({
     where: { id: input.conversationId },
     data: { updatedAt: new Date() },
   })
 
-  return prisma.message.create({
+  const message = await prisma.message.create({
     data: {
       conversationId: input.conversationId,
       userId: input.userId,
@@ -173,6 +232,16 @@ export async function createMessage(input: CreateMessageInput): Promise<Message>
       metadata: input.metadata ? JSON.stringify(input.metadata) : null,
     },
   })
+
+  // Index for semantic search without holding up the response
+  queueMessageEmbedding(message, {
+    userId: conversation.userId,
+    workspaceId: conversation.workspaceId,
+    projectId: conversation.projectId,
+    conversationId: conversation.id,
+  })
+
+  return message
 }
 
 /**
@@ -285,6 +354,14 @@ export interface BranchConversationInput {
   sourceConversationId: string
   branchPointMessageId: string
   title?: string
+  /**
+   * Copy into another space as an independent conversation instead of a
+   * branch: no parent link, and no project or folder from the source
+   */
+  fork?: {
+    workspaceId: string | null
+    metadata?: Record<string, unknown>
+  }
 }
 
 export interface ConversationWithBranches extends Conversation {
@@ -317,20 +394,23 @@ export async function branchConversation(
   const messagesToCopy = source.messages.slice(0, branchPointIndex + 1)
 
   // Create the new conversation
-  const branchTitle = input.title || `Branch of ${source.title}`
+  const { fork } = input
+  const branchTitle = input.title || (fork ? source.title : `Branch of ${source.title}`)
   const newConversation = await prisma.conversation.create({
     data: {
       userId: input.userId,
-      projectId: source.projectId,
-      folderId: source.folderId,
-      workspaceId: source.workspaceId, // Inherit workspace from source
+      projectId: fork ? null : source.projectId,
+      folderId: fork ? null : source.folderId,
+      workspaceId: fork ? fork.workspaceId : source.workspaceId, // Branches inherit workspace from source
       title: branchTitle,
       model: source.model,
       provider: source.provider,
       systemPrompt: source.systemPrompt,
-      metadata: source.metadata,
-      parentId: source.id,
-      branchPointId: input.branchPointMessageId,
+      metadata: fork?.metadata
+        ? JSON.stringify({ ...(source.metadata ? JSON.parse(source.metadata) : {}), ...fork.metadata })
+        : source.metadata,
+      parentId: fork ? null : source.id,
+      branchPointId: fork ? null : input.branchPointMessageId,
     },
   })
 
@@ -367,6 +447,127 @@ export async function getConversationBranches(
   })
 }
 
+export interface ConversationTree extends ConversationWithMessages {
+  branches: ConversationTree[]
+}
+
+/**
+ * A conversation with its messages and every branch below it, for export
+ */
+export async function getConversationTree(id: string): Promise<ConversationTree | null> {
+  const conversation = await getConversationWithMessages(id)
+  if (!conversation) return null
+
+  const children = await prisma.conversation.findMany({
+    where: { parentId: id },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+  })
+  const branches = await Promise.all(children.map((child) => getConversationTree(child.id)))
+
+  return {
+    ...conversation,
+    branches: branches.filter((branch): branch is ConversationTree => branch !== null),
+  }
+}
+
+export interface ImportTarget {
+  userId: string
+  workspaceId: string | null
+  projectId?: string | null
+  folderId?: string | null
+}
+
+/**
+ * Timestamps for imported messages. Messages are ordered by createdAt, so
+ * missing or out-of-order times are nudged forward to keep the sequence.
+ */
+function sequenceTimestamps(times: Array<Date | undefined>, start: Date): Date[] {
+  let previous = start.getTime() - 1
+  return times.map((time) => {
+    const ms = time && !isNaN(time.getTime()) ? time.getTime() : previous + 1
+    previous = Math.max(ms, previous + 1)
+    return new Date(previous)
+  })
+}
+
+/**
+ * Write an imported conversation and its branches. Each conversation is
+ * created in its own transaction so one bad record does not undo the rest.
+ */
+export async function importConversation(
+  target: ImportTarget,
+  input: ImportedConversation,
+  parent?: { id: string; messageIds: string[] }
+): Promise<{ conversation: Conversation; messageCount: number }> {
+  const createdAt = input.createdAt ?? input.messages[0]?.createdAt ?? new Date()
+  const timestamps = sequenceTimestamps(input.messages.map((m) => m.createdAt), createdAt)
+  const updatedAt = input.updatedAt ?? timestamps[timestamps.length - 1] ?? createdAt
+
+  const { conversation, messageIds } = await prisma.$transaction(async (tx) => {
+    const conversation = await tx.conversation.create({
+      data: {
+        userId: target.userId,
+        workspaceId: target.workspaceId,
+        projectId: target.projectId ?? null,
+        folderId: target.folderId ?? null,
+        title: input.title,
+        model: input.model,
+        provider: input.provider,
+        systemPrompt: input.systemPrompt ?? null,
+        metadata: input.metadata ? JSON.stringify(input.metadata) : null,
+        pinned: input.pinned ?? false,
+        archived: input.archived ?? false,
+        parentId: parent?.id ?? null,
+        branchPointId:
+          parent && input.branchPointIndex !== undefined
+            ? parent.messageIds[input.branchPointIndex] ?? null
+            : null,
+        createdAt,
+        updatedAt,
+      },
+    })
+
+    await tx.message.createMany({
+      data: input.messages.map((message, index) => ({
+        conversationId: conversation.id,
+        userId: message.role === 'user' ? target.userId : null,
+        role: message.role,
+        content: message.content,
+        model: message.model,
+        provider: message.provider,
+        inputTokens: message.inputTokens,
+        outputTokens: message.outputTokens,
+        estimatedCost: message.estimatedCost,
+        toolCalls: message.toolCalls ? JSON.stringify(message.toolCalls) : null,
+        toolCallId: message.toolCallId,
+        attachments: message.attachments ? JSON.stringify(message.attachments) : null,
+        metadata: message.metadata ? JSON.stringify(message.metadata) : null,
+        createdAt: timestamps[index],
+      })),
+    })
+
+    // Branch points refer to messages by ID, so read them back in order
+    const messages = input.branches?.length
+      ? await tx.message.findMany({
+          where: { conversationId: conversation.id },
+          select: { id: true },
+          orderBy: { createdAt: 'asc' },
+        })
+      : []
+
+    return { conversation, messageIds: messages.map((m) => m.id) }
+  })
+
+  let messageCount = input.messages.length
+  for (const branch of input.branches ?? []) {
+    const result = await importConversation(target, branch, { id: conversation.id, messageIds })
+    messageCount += result.messageCount
+  }
+
+  return { conversation, messageCount }
+}
+
 export async function getConversationWithBranches(
   id: string
 ): Promise<ConversationWithBranches | null> {
@@ -432,80 +633,322 @@ export interface MessageSnippet {
   id: string
   role: string
   snippet: string
+  highlights: SearchHighlight[]
   createdAt: Date
 }
 
 export interface SearchResult {
   conversation: Conversation
+  /** Best-ranked matching messages, in conversation order */
   matchingMessages: MessageSnippet[]
+  /** Total matching messages, which may exceed matchingMessages */
+  matchCount: number
+  titleHighlights: SearchHighlight[]
+  score: number
 }
 
-function extractSnippet(content: string, query: string, radius = 80): string {
-  const lowerContent = content.toLowerCase()
-  const lowerQuery = query.toLowerCase()
-  const idx = lowerContent.indexOf(lowerQuery)
-  if (idx === -1) return content.slice(0, radius * 2)
+export interface SearchResultsPage {
+  results: SearchResult[]
+  total: number
+  offset: number
+  limit: number
+}
 
-  const start = Math.max(0, idx - radius)
-  const end = Math.min(content.length, idx + query.length + radius)
-  const prefix = start > 0 ? '...' : ''
-  const suffix = end < content.length ? '...' : ''
-  return prefix + content.slice(start, end) + suffix
+export interface SearchConversationsOptions {
+  projectId?: string
+  folderId?: string
+  includeArchived?: boolean
+  filters?: ConversationSearchFilters
+  sort?: ConversationSearchSort
+  limit?: number
+  offset?: number
 }
 
+const SNIPPETS_PER_CONVERSATION = 3
+
+/**
+ * SQL conditions shared by keyword and semantic search, over Conversation c
+ * and (for messageWhere) Message m
+ */
+function buildSearchConditions(
+  userId: string,
+  workspaceId: string | null,
+  options: SearchConversationsOptions
+) {
+  const filters = options.filters ?? {}
+
+  const conversationWhere = [
+    Prisma.sql`c."userId" = ${userId}`,
+    // null = Personal space
+    workspaceId ? Prisma.sql`c."workspaceId" = ${workspaceId}` : Prisma.sql`c."workspaceId" IS NULL`,
+  ]
+  if (options.projectId) conversationWhere.push(Prisma.sql`c."projectId" = ${options.projectId}`)
+  if (options.folderId) conversationWhere.push(Prisma.sql`c."folderId" = ${options.folderId}`)
+  if (!options.includeArchived) conversationWhere.push(Prisma.sql`c.archived = false`)
+
+  // Messages are filtered on their own model and date, falling back to the conversation's
+  const messageWhere = [...conversationWhere, Prisma.sql`m.role <> 'tool'`]
+  if (filters.role) messageWhere.push(Prisma.sql`m.role = ${filters.role}`)
+  if (filters.modelId) messageWhere.push(Prisma.sql`COALESCE(m.model, c.model) = ${filters.modelId}`)
+  if (filters.provider) messageWhere.push(Prisma.sql`COALESCE(m.provider, c.provider) = ${filters.provider}`)
+  if (filters.from) messageWhere.push(Prisma.sql`m."createdAt" >= ${filters.from}`)
+  if (filters.to) messageWhere.push(Prisma.sql`m."createdAt" <= ${filters.to}`)
+  if (filters.hasAttachments) {
+    messageWhere.push(Prisma.sql`m.attachments IS NOT NULL AND m.attachments NOT IN ('', '[]')`)
+  }
+  if (filters.hasToolCalls) {
+    messageWhere.push(Prisma.sql`m."toolCalls" IS NOT NULL AND m."toolCalls" NOT IN ('', '[]')`)
+  }
+
+  // Message-only filters rule out conversations that match on title alone
+  const titleWhere = [...conversationWhere]
+  if (filters.role || filters.hasAttachments || filters.hasToolCalls) titleWhere.push(Prisma.sql`false`)
+  if (filters.modelId) titleWhere.push(Prisma.sql`c.model = ${filters.modelId}`)
+  if (filters.provider) titleWhere.push(Prisma.sql`c.provider = ${filters.provider}`)
+  if (filters.from) titleWhere.push(Prisma.sql`c."updatedAt" >= ${filters.from}`)
+  if (filters.to) titleWhere.push(Prisma.sql`c."updatedAt" <= ${filters.to}`)
+
+  return { messageWhere, titleWhere }
+}
+
+/**
+ * Full-text search over conversation titles and message content, ranked by
+ * relevance. Matching uses to_tsvector('english', ...) expressions, which
+ * prisma/search-indexes.sql backs with inverted indexes.
+ */
 export async function searchConversations(
   userId: string,
   workspaceId: string | null,
   query: string,
-  options?: {
-    projectId?: string
-    folderId?: string
-    limit?: number
-    includeArchived?: boolean
-  }
-): Promise<SearchResult[]> {
-  const conversations = await prisma.conversation.findMany({
-    where: {
-      userId,
-      workspaceId: workspaceId, // null = Personal space
-      projectId: options?.projectId,
-      folderId: options?.folderId,
-      archived: options?.includeArchived ? undefined : false,
-      OR: [
-        { title: { contains: query, mode: 'insensitive' } },
-        {
-          messages: {
-            some: {
-              content: { contains: query, mode: 'insensitive' },
-            },
-          },
-        },
-      ],
-    },
-    include: {
-      messages: {
-        where: {
-          content: { contains: query, mode: 'insensitive' },
-          role: { not: 'tool' },
-        },
-        select: { id: true, role: true, content: true, createdAt: true },
-        orderBy: { createdAt: 'asc' },
-        take: 3,
-      },
-    },
-    orderBy: { updatedAt: 'desc' },
-    take: options?.limit ?? 20,
-  })
+  options: SearchConversationsOptions = {}
+): Promise<SearchResultsPage> {
+  const limit = options.limit ?? 20
+  const offset = options.offset ?? 0
+  const parsed = parseSearchQuery(query)
+  if (!parsed) return { results: [], total: 0, offset, limit }
+
+  const tsquery = Prisma.sql`to_tsquery('english', ${parsed.tsquery})`
+  const { messageWhere, titleWhere } = buildSearchConditions(userId, workspaceId, options)
+
+  const orderBy =
+    options.sort === 'date'
+      ? Prisma.sql`c."updatedAt" DESC, s.id`
+      : Prisma.sql`s.score DESC, c."updatedAt" DESC, s.id`
+
+  // Title matches weigh double; more matching messages add a small, diminishing boost
+  const ranked = await prisma.$queryRaw<
+    Array<{ id: string; score: number; matches: bigint; total: bigint }>
+  >`
+    WITH message_hits AS (
+      SELECT m."conversationId" AS id,
+             max(ts_rank(to_tsvector('english', m.content), ${tsquery}))::FLOAT8 AS rank,
+             count(*) AS matches
+      FROM "Message" m
+      JOIN "Conversation" c ON c.id = m."conversationId"
+      WHERE ${Prisma.join(messageWhere, ' AND ')}
+        AND to_tsvector('english', m.content) @@ ${tsquery}
+      GROUP BY m."conversationId"
+    ),
+    title_hits AS (
+      SELECT c.id, ts_rank(to_tsvector('english', c.title), ${tsquery})::FLOAT8 AS rank
+      FROM "Conversation" c
+      WHERE ${Prisma.join(titleWhere, ' AND ')}
+        AND to_tsvector('english', c.title) @@ ${tsquery}
+    ),
+    scored AS (
+      SELECT COALESCE(h.id, t.id) AS id,
+             COALESCE(t.rank, 0) * 2 + COALESCE(h.rank, 0)
+               + ln(1 + COALESCE(h.matches, 0)::FLOAT8) * 0.1 AS score,
+             COALESCE(h.matches, 0) AS matches
+      FROM message_hits h
+      FULL OUTER JOIN title_hits t ON t.id = h.id
+    )
+    SELECT s.id, s.score, s.matches, count(*) OVER () AS total
+    FROM scored s
+    JOIN "Conversation" c ON c.id = s.id
+    ORDER BY ${orderBy}
+    LIMIT ${limit} OFFSET ${offset}
+  `
+
+  if (ranked.length === 0) return { results: [], total: 0, offset, limit }
+  const ids = ranked.map((row) => row.id)
+
+  const [conversations, messages] = await Promise.all([
+    prisma.conversation.findMany({ where: { id: { in: ids } } }),
+    prisma.$queryRaw<Array<Pick<Message, 'id' | 'conversationId' | 'role' | 'content' | 'createdAt'>>>`
+      SELECT id, "conversationId", role, content, "createdAt"
+      FROM (
+        SELECT m.id, m."conversationId", m.role, m.content, m."createdAt",
+               row_number() OVER (
+                 PARTITION BY m."conversationId"
+                 ORDER BY ts_rank(to_tsvector('english', m.content), ${tsquery}) DESC, m."createdAt"
+               ) AS position
+        FROM "Message" m
+        JOIN "Conversation" c ON c.id = m."conversationId"
+        WHERE m."conversationId" IN (${Prisma.join(ids)})
+          AND ${Prisma.join(messageWhere, ' AND ')}
+          AND to_tsvector('english', m.content) @@ ${tsquery}
+      ) ranked
+      WHERE position <= ${SNIPPETS_PER_CONVERSATION}
+      ORDER BY "createdAt"
+    `,
+  ])
 
-  return conversations.map(({ messages, ...conv }) => ({
-    conversation: conv,
-    matchingMessages: messages.map((msg) => ({
+  const conversationsById = new Map(conversations.map((conv) => [conv.id, conv]))
+  const snippetsByConversation = new Map<string, MessageSnippet[]>()
+  for (const msg of messages) {
+    const snippets = snippetsByConversation.get(msg.conversationId) ?? []
+    snippets.push({
       id: msg.id,
       role: msg.role,
-      snippet: extractSnippet(msg.content, query),
-      createdAt: msg.createdAt,
-    })),
-  }))
+      ...buildSnippet(msg.content, parsed.terms),
+      createdAt: new Date(msg.createdAt),
+    })
+    snippetsByConversation.set(msg.conversationId, snippets)
+  }
+
+  const results = ranked.flatMap((row): SearchResult[] => {
+    const conversation = conversationsById.get(row.id)
+    if (!conversation) return []
+    return [{
+      conversation,
+      matchingMessages: snippetsByConversation.get(row.id) ?? [],
+      matchCount: Number(row.matches),
+      titleHighlights: findHighlights(conversation.title, parsed.terms),
+      score: Number(row.score),
+    }]
+  })
+
+  return { results, total: Number(ranked[0].total), offset, limit }
+}
+
+// Chunks considered by semantic search, before grouping by conversation
+const SEMANTIC_CANDIDATES = 200
+// Beyond this cosine distance a chunk is unrelated to the query
+const MAX_SEMANTIC_DISTANCE = 0.7
+// Keyword and semantic results are merged from the top of each list
+const HYBRID_CANDIDATES = 100
+
+interface SemanticMatch {
+  conversationId: string
+  messageId: string
+  role: string
+  content: string
+  createdAt: Date
+  distance: number
+}
+
+/**
+ * Closest message chunk per conversation to the query embedding, nearest first
+ */
+async function findSemanticMatches(
+  userId: string,
+  workspaceId: string | null,
+  query: string,
+  options: SearchConversationsOptions
+): Promise<SemanticMatch[]> {
+  const embedding = await embedQuery(query, { userId, workspaceId })
+  if (!embedding) return []
+
+  const { messageWhere } = buildSearchConditions(userId, workspaceId, options)
+  const rows = await prisma.$queryRaw<SemanticMatch[]>`
+    SELECT m."conversationId", e."messageId", m.role, e.content, m."createdAt",
+           (e.embedding <=> ${toVectorLiteral(embedding.vector)}::VECTOR)::FLOAT8 AS distance
+    FROM "MessageEmbedding" e
+    JOIN "Message" m ON m.id = e."messageId"
+    JOIN "Conversation" c ON c.id = m."conversationId"
+    WHERE e.model = ${embedding.model}
+      AND ${Prisma.join(messageWhere, ' AND ')}
+    ORDER BY distance
+    LIMIT ${SEMANTIC_CANDIDATES}
+  `
+
+  const best = new Map<string, SemanticMatch>()
+  for (const row of rows) {
+    if (row.distance > MAX_SEMANTIC_DISTANCE) break
+    if (!best.has(row.conversationId)) best.set(row.conversationId, row)
+  }
+  return Array.from(best.values())
+}
+
+/**
+ * Keyword and semantic search combined with reciprocal rank fusion, so a
+ * conversation ranks well if it matches the words, the meaning, or both.
+ * Falls back to keyword search alone when no embedding backend is configured.
+ */
+export async function hybridSearchConversations(
+  userId: string,
+  workspaceId: string | null,
+  query: string,
+  options: SearchConversationsOptions = {}
+): Promise<SearchResultsPage> {
+  const limit = options.limit ?? 20
+  const offset = options.offset ?? 0
+
+  const [keyword, semantic] = await Promise.all([
+    searchConversations(userId, workspaceId, query, {
+      ...options,
+      sort: 'relevance',
+      limit: HYBRID_CANDIDATES,
+      offset: 0,
+    }),
+    findSemanticMatches(userId, workspaceId, query, options).catch((error) => {
+      dbLogger.warn('Semantic search failed, using keyword results only', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      return []
+    }),
+  ])
+
+  const scores = fuseRankings([
+    keyword.results.map((result) => result.conversation.id),
+    semantic.slice(0, HYBRID_CANDIDATES).map((match) => match.conversationId),
+  ])
+
+  // Conversations only found by meaning still need their records and a snippet
+  const keywordResults = new Map(keyword.results.map((result) => [result.conversation.id, result]))
+  const semanticOnly = semantic.filter((match) => !keywordResults.has(match.conversationId))
+  const conversations = semanticOnly.length
+    ? await prisma.conversation.findMany({
+        where: { id: { in: semanticOnly.map((match) => match.conversationId) } },
+      })
+    : []
+  const conversationsById = new Map(conversations.map((conv) => [conv.id, conv]))
+  const terms = parseSearchQuery(query)?.terms ?? []
+
+  const merged: SearchResult[] = Array.from(keywordResults.values())
+  for (const match of semanticOnly) {
+    const conversation = conversationsById.get(match.conversationId)
+    if (!conversation) continue
+    merged.push({
+      conversation,
+      matchingMessages: [{
+        id: match.messageId,
+        role: match.role,
+        ...buildSnippet(match.content, terms),
+        createdAt: new Date(match.createdAt),
+      }],
+      matchCount: 1,
+      titleHighlights: findHighlights(conversation.title, terms),
+      score: 0,
+    })
+  }
+
+  for (const result of merged) {
+    result.score = scores.get(result.conversation.id) ?? 0
+  }
+  merged.sort((a, b) =>
+    options.sort === 'date'
+      ? b.conversation.updatedAt.getTime() - a.conversation.updatedAt.getTime()
+      : b.score - a.score
+  )
+
+  return {
+    results: merged.slice(offset, offset + limit),
+    total: merged.length,
+    offset,
+    limit,
+  }
 }
 
 // ============================================================================
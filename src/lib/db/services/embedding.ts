@@ -0,0 +1,67 @@
+/**
+ * Message Embedding Database Service
+ *
+ * Stores chunk vectors for semantic search. The embedding column is a
+ * VECTOR, which Prisma cannot read or write, so inserts use raw SQL; the
+ * similarity query lives with the rest of search in the conversation service.
+ */
+
+import { prisma } from '../index'
+import { Prisma, type Message } from '@/generated/prisma'
+
+export interface EmbeddedChunk {
+  chunkIndex: number
+  content: string
+  vector: number[]
+}
+
+/** Text form accepted by a ::VECTOR cast */
+export function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(',')}]`
+}
+
+/**
+ * Replace a message's vectors for one model
+ */
+export async function saveMessageEmbeddings(
+  messageId: string,
+  model: string,
+  chunks: EmbeddedChunk[]
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.messageEmbedding.deleteMany({ where: { messageId, model } }),
+    ...chunks.map((chunk) => prisma.$executeRaw`
+      INSERT INTO "MessageEmbedding" ("messageId", "chunkIndex", content, model, embedding)
+      VALUES (${messageId}, ${chunk.chunkIndex}, ${chunk.content}, ${model}, ${toVectorLiteral(chunk.vector)}::VECTOR)
+    `),
+  ])
+}
+
+/**
+ * Searchable messages with no vectors for `model`, oldest first, for
+ * backfills. Pass the last message of the previous batch as `after` so
+ * messages that produce no vectors are not returned again.
+ */
+export async function getMessagesWithoutEmbeddings(
+  model: string,
+  limit: number,
+  after?: Pick<Message, 'id' | 'createdAt'>
+): Promise<Message[]> {
+  const cursor = after
+    ? Prisma.sql`AND (m."createdAt", m.id) > (${after.createdAt}, ${after.id})`
+    : Prisma.empty
+
+  return prisma.$queryRaw<Message[]>`
+    SELECT m.*
+    FROM "Message" m
+    WHERE m.role IN ('user', 'assistant')
+      AND m.content <> ''
+      ${cursor}
+      AND NOT EXISTS (
+        SELECT 1 FROM "MessageEmbedding" e
+        WHERE e."messageId" = m.id AND e.model = ${model}
+      )
+    ORDER BY m."createdAt", m.id
+    LIMIT ${limit}
+  `
+}
@@ -0,0 +1,201 @@
+/**
+ * MCP Server Database Service
+ *
+ * MCP servers configured for a workspace. Credentials are encrypted at rest
+ * and left out of everything sent to the browser.
+ */
+
+import { prisma } from '../index'
+import type { McpServer as McpServerRecord } from '@/generated/prisma'
+import type { McpCredentials, McpServer, McpServerInput, McpTransport } from '@/types'
+import { MCP_SERVER_NAME_PATTERN } from '@/lib/tools/mcp'
+import { decryptCredentials, encryptCredentials } from '@/lib/api/mcp/credentials'
+import { checkMcpHttpUrl, getMcpConfig, isAllowedMcpEnvKey } from '@/lib/api/mcp/config'
+
+const TRANSPORTS: McpTransport[] = ['stdio', 'http']
+const MAX_CREDENTIAL_ENTRIES = 32
+
+export function toMcpServer(record: McpServerRecord): McpServer {
+  return {
+    id: record.id,
+    workspaceId: record.workspaceId,
+    name: record.name,
+    transport: record.transport as McpTransport,
+    preset: record.preset ?? undefined,
+    url: record.url ?? undefined,
+    enabled: record.enabled,
+    hasCredentials: !!record.credentials,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  }
+}
+
+/**
+ * Decrypted credentials of a server, for connecting to it
+ */
+export function getMcpServerCredentials(record: McpServerRecord): McpCredentials {
+  return record.credentials ? decryptCredentials(record.credentials) : {}
+}
+
+// ============================================================================
+// MCP Server CRUD
+// ============================================================================
+
+function toData(input: McpServerInput) {
+  return {
+    name: input.name,
+    transport: input.transport,
+    preset: input.transport === 'stdio' ? input.preset : null,
+    url: input.transport === 'http' ? input.url : null,
+    enabled: input.enabled ?? true,
+    // undefined keeps the stored credentials, null removes them
+    credentials:
+      input.credentials === undefined
+        ? undefined
+        : input.credentials && (input.credentials.headers || input.credentials.env)
+          ? encryptCredentials(input.credentials)
+          : null,
+  }
+}
+
+export async function getWorkspaceMcpServers(workspaceId: string): Promise<McpServerRecord[]> {
+  return prisma.mcpServer.findMany({
+    where: { workspaceId },
+    orderBy: { name: 'asc' },
+  })
+}
+
+export async function getMcpServer(id: string): Promise<McpServerRecord | null> {
+  return prisma.mcpServer.findUnique({
+    where: { id },
+  })
+}
+
+export async function createMcpServer(
+  workspaceId: string,
+  createdById: string,
+  input: McpServerInput
+): Promise<McpServerRecord> {
+  return prisma.mcpServer.create({
+    data: { workspaceId, createdById, ...toData(input) },
+  })
+}
+
+export async function updateMcpServer(id: string, input: McpServerInput): Promise<McpServerRecord> {
+  return prisma.mcpServer.update({
+    where: { id },
+    data: toData(input),
+  })
+}
+
+export async function deleteMcpServer(id: string): Promise<void> {
+  await prisma.mcpServer.delete({
+    where: { id },
+  })
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function validateStringMap(
+  value: unknown,
+  name: string
+): { map?: Record<string, string> } | { error: string } {
+  if (value === undefined || value === null) return {}
+  if (
+    !isRecord(value) ||
+    Object.keys(value).length > MAX_CREDENTIAL_ENTRIES ||
+    !Object.values(value).every((entry) => typeof entry === 'string')
+  ) {
+    return { error: `credentials.${name} must map at most ${MAX_CREDENTIAL_ENTRIES} names to strings` }
+  }
+  return Object.keys(value).length > 0 ? { map: value as Record<string, string> } : {}
+}
+
+function validateCredentials(value: unknown): { credentials: McpCredentials } | { error: string } {
+  if (!isRecord(value)) return { error: 'credentials must be an object' }
+
+  const headers = validateStringMap(value.headers, 'headers')
+  if ('error' in headers) return headers
+  const env = validateStringMap(value.env, 'env')
+  if ('error' in env) return env
+  const blocked = Object.keys(env.map ?? {}).filter((name) => !isAllowedMcpEnvKey(name))
+  if (blocked.length > 0) {
+    return { error: `credentials.env may not set ${blocked.join(', ')}` }
+  }
+
+  return {
+    credentials: {
+      ...(headers.map && { headers: headers.map }),
+      ...(env.map && { env: env.map }),
+    },
+  }
+}
+
+/**
+ * Validate MCP server fields from a request body. For updates, the route
+ * merges the body into the stored server first. Returns the normalized
+ * input, or an error message.
+ */
+export function validateMcpServerInput(value: unknown): { input: McpServerInput } | { error: string } {
+  if (!isRecord(value)) return { error: 'Request body must be an object' }
+
+  if (typeof value.name !== 'string' || !MCP_SERVER_NAME_PATTERN.test(value.name)) {
+    return {
+      error: 'name must be 1-32 lowercase letters, digits, "-" or "_", starting with a letter or digit',
+    }
+  }
+
+  const transport = value.transport as McpTransport
+  if (!TRANSPORTS.includes(transport)) {
+    return { error: `transport must be one of ${TRANSPORTS.join(', ')}` }
+  }
+
+  const input: McpServerInput = { name: value.name, transport }
+
+  if (transport === 'http') {
+    if (typeof value.url !== 'string') return { error: 'url is required for HTTP servers' }
+    let url: URL
+    try {
+      url = new URL(value.url)
+    } catch {
+      return { error: 'url must be a valid URL' }
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return { error: 'url must use http or https' }
+    }
+    const hostError = checkMcpHttpUrl(url)
+    if (hostError) return { error: hostError }
+    input.url = url.toString()
+  } else {
+    // The command line comes from the deployment's preset, never the request
+    const presets = Object.keys(getMcpConfig().stdioPresets)
+    if (presets.length === 0) {
+      return { error: 'stdio servers are not enabled on this deployment (MCP_STDIO_PRESETS)' }
+    }
+    if (typeof value.preset !== 'string' || !presets.includes(value.preset)) {
+      return { error: `preset must be one of ${presets.join(', ')}` }
+    }
+    input.preset = value.preset
+  }
+
+  if (value.enabled !== undefined) {
+    if (typeof value.enabled !== 'boolean') return { error: 'enabled must be a boolean' }
+    input.enabled = value.enabled
+  }
+
+  if (value.credentials === null) {
+    input.credentials = null
+  } else if (value.credentials !== undefined) {
+    const result = validateCredentials(value.credentials)
+    if ('error' in result) return result
+    input.credentials = result.credentials
+  }
+
+  return { input }
+}
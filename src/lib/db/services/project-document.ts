@@ -0,0 +1,145 @@
+/**
+ * Project Document Database Service
+ *
+ * Documents in a project's knowledge base and the vectors of their chunks.
+ * Like message embeddings, the embedding column is a VECTOR that Prisma
+ * cannot read or write, so chunk inserts and retrieval use raw SQL.
+ */
+
+import { prisma } from '../index'
+import { Prisma, type ProjectDocument } from '@/generated/prisma'
+import { toVectorLiteral, type EmbeddedChunk } from './embedding'
+
+export interface CreateProjectDocumentInput {
+  projectId: string
+  uploadedById: string
+  name: string
+  mimeType: string
+  fileType: string
+  size: number
+  content: string
+  sections?: string
+}
+
+/** A document without its extracted text */
+export type ProjectDocumentRecord = Omit<ProjectDocument, 'content' | 'sections'>
+
+export type ProjectDocumentSummary = ProjectDocumentRecord & {
+  uploadedBy: { name: string | null; email: string }
+}
+
+export interface RetrievedChunk {
+  documentId: string
+  documentName: string
+  chunkIndex: number
+  content: string
+  distance: number
+}
+
+export async function createProjectDocument(input: CreateProjectDocumentInput): Promise<ProjectDocument> {
+  return prisma.projectDocument.create({ data: input })
+}
+
+export async function getProjectDocument(id: string): Promise<ProjectDocument | null> {
+  return prisma.projectDocument.findUnique({ where: { id } })
+}
+
+/**
+ * Documents in a project, newest first
+ */
+export async function getProjectDocuments(projectId: string): Promise<ProjectDocumentSummary[]> {
+  return prisma.projectDocument.findMany({
+    where: { projectId },
+    omit: { content: true, sections: true },
+    include: { uploadedBy: { select: { name: true, email: true } } },
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
+export async function updateProjectDocumentStatus(
+  id: string,
+  data: { status: 'processing' | 'ready' | 'failed'; chunkCount?: number; error?: string | null }
+): Promise<ProjectDocumentRecord> {
+  return prisma.projectDocument.update({ where: { id }, data, omit: { content: true, sections: true } })
+}
+
+export async function deleteProjectDocument(id: string): Promise<void> {
+  await prisma.projectDocument.delete({ where: { id } })
+}
+
+/**
+ * Whether a project has any documents ready for retrieval
+ */
+export async function hasReadyProjectDocuments(projectId: string): Promise<boolean> {
+  const count = await prisma.projectDocument.count({
+    where: { projectId, status: 'ready' },
+    take: 1,
+  })
+  return count > 0
+}
+
+/**
+ * Replace a document's vectors for one model
+ */
+export async function saveProjectDocumentChunks(
+  document: Pick<ProjectDocument, 'id' | 'projectId'>,
+  model: string,
+  chunks: EmbeddedChunk[]
+): Promise<void> {
+  await prisma.$transaction([
+    prisma.projectDocumentChunk.deleteMany({ where: { documentId: document.id, model } }),
+    ...chunks.map((chunk) => prisma.$executeRaw`
+      INSERT INTO "ProjectDocumentChunk" ("documentId", "projectId", "chunkIndex", content, model, embedding)
+      VALUES (${document.id}, ${document.projectId}, ${chunk.chunkIndex}, ${chunk.content}, ${model}, ${toVectorLiteral(chunk.vector)}::VECTOR)
+    `),
+  ])
+}
+
+/**
+ * The chunks of a project's ready documents nearest to `vector`, closest first
+ */
+export async function findNearestProjectChunks(
+  projectId: string,
+  model: string,
+  vector: number[],
+  limit: number
+): Promise<RetrievedChunk[]> {
+  return prisma.$queryRaw<RetrievedChunk[]>`
+    SELECT ch."documentId", d.name AS "documentName", ch."chunkIndex", ch.content,
+           (ch.embedding <=> ${toVectorLiteral(vector)}::VECTOR)::FLOAT8 AS distance
+    FROM "ProjectDocumentChunk" ch
+    JOIN "ProjectDocument" d ON d.id = ch."documentId"
+    WHERE ch."projectId" = ${projectId}
+      AND ch.model = ${model}
+      AND d.status = 'ready'
+    ORDER BY distance
+    LIMIT ${limit}
+  `
+}
+
+/**
+ * Documents with no vectors for `model`, oldest first, for backfills.
+ * Pass the last document of the previous batch as `after`.
+ */
+export async function getProjectDocumentsWithoutEmbeddings(
+  model: string,
+  limit: number,
+  after?: Pick<ProjectDocument, 'id' | 'createdAt'>
+): Promise<ProjectDocument[]> {
+  const cursor = after
+    ? Prisma.sql`AND (d."createdAt", d.id) > (${after.createdAt}, ${after.id})`
+    : Prisma.empty
+
+  return prisma.$queryRaw<ProjectDocument[]>`
+    SELECT d.*
+    FROM "ProjectDocument" d
+    WHERE d.content <> ''
+      ${cursor}
+      AND NOT EXISTS (
+        SELECT 1 FROM "ProjectDocumentChunk" ch
+        WHERE ch."documentId" = d.id AND ch.model = ${model}
+      )
+    ORDER BY d."createdAt", d.id
+    LIMIT ${limit}
+  `
+}
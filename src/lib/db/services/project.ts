@@ -6,6 +6,7 @@
 
 import { prisma } from '../index'
 import type { Project, Conversation, Folder } from '@/generated/prisma'
+import type { AIProvider, ContextStrategy, ProjectSettings } from '@/types'
 
 export interface CreateProjectInput {
   workspaceId?: string | null // null = Personal space
@@ -14,7 +15,7 @@ export interface CreateProjectInput {
   description?: string
   color?: string
   icon?: string
-  settings?: Record<string, unknown>
+  settings?: ProjectSettings
 }
 
 export interface UpdateProjectInput {
@@ -23,7 +24,7 @@ export interface UpdateProjectInput {
   color?: string
   icon?: string
   archived?: boolean
-  settings?: Record<string, unknown>
+  settings?: ProjectSettings
 }
 
 export interface ProjectWithStats extends Project {
@@ -179,6 +180,84 @@ export async function updateProject(
   })
 }
 
+/**
+ * Parse the JSON settings column of a project
+ */
+export function parseProjectSettings(settings: string | null): ProjectSettings {
+  if (!settings) return {}
+  try {
+    return JSON.parse(settings) as ProjectSettings
+  } catch {
+    return {}
+  }
+}
+
+const CONTEXT_STRATEGIES: ContextStrategy[] = ['summarize', 'truncate', 'sliding_window']
+const PROVIDERS: AIProvider[] = ['openai', 'anthropic', 'glean', 'dust', 'ondobot', 'local']
+
+/** Longest project system prompt accepted, in characters */
+const MAX_SYSTEM_PROMPT_LENGTH = 20000
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+/**
+ * Validate project settings from a request body.
+ * Returns the normalized settings, or an error message.
+ */
+export function validateProjectSettings(value: unknown): { settings: ProjectSettings } | { error: string } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'settings must be an object' }
+  }
+  const input = value as Record<string, unknown>
+  const settings: ProjectSettings = {}
+
+  if (input.contextStrategy !== undefined && input.contextStrategy !== null) {
+    if (!CONTEXT_STRATEGIES.includes(input.contextStrategy as ContextStrategy)) {
+      return { error: `settings.contextStrategy must be one of ${CONTEXT_STRATEGIES.join(', ')}` }
+    }
+    settings.contextStrategy = input.contextStrategy as ContextStrategy
+  }
+
+  if (input.defaultModel !== undefined && input.defaultModel !== null && input.defaultModel !== '') {
+    if (typeof input.defaultModel !== 'string') return { error: 'settings.defaultModel must be a string' }
+    settings.defaultModel = input.defaultModel
+  }
+
+  if (input.systemPrompt !== undefined && input.systemPrompt !== null) {
+    if (typeof input.systemPrompt !== 'string') return { error: 'settings.systemPrompt must be a string' }
+    if (input.systemPrompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+      return { error: `settings.systemPrompt must be at most ${MAX_SYSTEM_PROMPT_LENGTH} characters` }
+    }
+    if (input.systemPrompt.trim()) settings.systemPrompt = input.systemPrompt.trim()
+  }
+
+  if (input.tools !== undefined && input.tools !== null) {
+    if (!isStringArray(input.tools)) return { error: 'settings.tools must be an array of tool names' }
+    settings.tools = Array.from(new Set(input.tools))
+  }
+
+  if (input.autoRouting !== undefined && input.autoRouting !== null) {
+    if (typeof input.autoRouting !== 'boolean') return { error: 'settings.autoRouting must be a boolean' }
+    settings.autoRouting = input.autoRouting
+  }
+
+  if (input.allowedProviders !== undefined && input.allowedProviders !== null) {
+    if (
+      !isStringArray(input.allowedProviders) ||
+      !input.allowedProviders.every((p) => PROVIDERS.includes(p as AIProvider))
+    ) {
+      return { error: `settings.allowedProviders must only contain ${PROVIDERS.join(', ')}` }
+    }
+    if (input.allowedProviders.length > 0) {
+      settings.allowedProviders = Array.from(new Set(input.allowedProviders)) as AIProvider[]
+    }
+  }
+
+  return { settings }
+}
+
 export async function deleteProject(id: string): Promise<void> {
   // Cascade delete is handled by Prisma schema
   await prisma.project.delete({
@@ -0,0 +1,127 @@
+/**
+ * Routing Telemetry Database Service
+ *
+ * Persists routing decisions and user corrections so the classifier can be
+ * evaluated and tuned against real traffic.
+ */
+
+import { prisma } from '../index'
+import type { RoutingDecision } from '@/generated/prisma'
+
+// Classified text is truncated before storage to bound row size
+const MAX_QUERY_LENGTH = 2000
+
+export interface CreateRoutingDecisionInput {
+  id?: string
+  userId: string
+  conversationId?: string
+  query: string
+  mode: string
+  intent: string
+  confidence: number
+  reasoning?: string
+  routedProvider: string
+  routedModel: string
+  wasAutoRouted?: boolean
+}
+
+export interface RoutingCorrectionInput {
+  correctedIntent: string
+  correctedProvider?: string
+}
+
+export interface RoutingDecisionFilter {
+  userId?: string
+  conversationId?: string
+  correctedOnly?: boolean
+  fromDate?: Date
+  toDate?: Date
+  limit?: number
+}
+
+/**
+ * Record a routing decision
+ */
+export async function createRoutingDecision(
+  input: CreateRoutingDecisionInput
+): Promise<RoutingDecision> {
+  return prisma.routingDecision.create({
+    data: {
+      id: input.id,
+      userId: input.userId,
+      conversationId: input.conversationId,
+      query: input.query.slice(0, MAX_QUERY_LENGTH),
+      mode: input.mode,
+      intent: input.intent,
+      confidence: input.confidence,
+      reasoning: input.reasoning,
+      routedProvider: input.routedProvider,
+      routedModel: input.routedModel,
+      wasAutoRouted: input.wasAutoRouted ?? true,
+    },
+  })
+}
+
+/**
+ * Get a routing decision by ID
+ */
+export async function getRoutingDecision(id: string): Promise<RoutingDecision | null> {
+  return prisma.routingDecision.findUnique({
+    where: { id },
+  })
+}
+
+/**
+ * Link a routing decision to the assistant message it produced. The id comes
+ * from the client, so only the user's own decision for the same conversation
+ * is linked.
+ */
+export async function linkRoutingDecisionToMessage(
+  id: string,
+  messageId: string,
+  userId: string,
+  conversationId: string
+): Promise<void> {
+  await prisma.routingDecision.updateMany({
+    where: { id, userId, conversationId, messageId: null },
+    data: { messageId },
+  })
+}
+
+/**
+ * Record a user correction ("this should have gone to X")
+ */
+export async function recordRoutingCorrection(
+  id: string,
+  correction: RoutingCorrectionInput
+): Promise<RoutingDecision> {
+  return prisma.routingDecision.update({
+    where: { id },
+    data: {
+      correctedIntent: correction.correctedIntent,
+      correctedProvider: correction.correctedProvider ?? null,
+      correctedAt: new Date(),
+    },
+  })
+}
+
+/**
+ * List routing decisions, newest first
+ */
+export async function getRoutingDecisions(
+  filter: RoutingDecisionFilter = {}
+): Promise<RoutingDecision[]> {
+  return prisma.routingDecision.findMany({
+    where: {
+      userId: filter.userId,
+      conversationId: filter.conversationId,
+      correctedIntent: filter.correctedOnly ? { not: null } : undefined,
+      createdAt: {
+        gte: filter.fromDate,
+        lte: filter.toDate,
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: filter.limit ?? 1000,
+  })
+}
@@ -0,0 +1,87 @@
+/**
+ * Conversation Share Database Service
+ *
+ * Read-only public links to a conversation. A link shows the conversation
+ * as it was when the link was created; later messages are not included.
+ */
+
+import { randomBytes } from 'crypto'
+import { prisma } from '../index'
+import type { Conversation, ConversationShare, Message } from '@/generated/prisma'
+
+export interface CreateShareInput {
+  conversationId: string
+  createdById: string
+  expiresAt?: Date
+}
+
+export type ShareLookup =
+  | { status: 'active'; share: ConversationShare & { conversation: Conversation } }
+  | { status: 'not_found' | 'expired' | 'revoked' }
+
+export async function createConversationShare(input: CreateShareInput): Promise<ConversationShare> {
+  return prisma.conversationShare.create({
+    data: {
+      conversationId: input.conversationId,
+      createdById: input.createdById,
+      token: randomBytes(24).toString('base64url'),
+      expiresAt: input.expiresAt,
+    },
+  })
+}
+
+/**
+ * Links for a conversation that have not been revoked, newest first
+ */
+export async function getConversationShares(conversationId: string): Promise<ConversationShare[]> {
+  return prisma.conversationShare.findMany({
+    where: { conversationId, revokedAt: null },
+    orderBy: { createdAt: 'desc' },
+  })
+}
+
+export async function getConversationShare(id: string): Promise<ConversationShare | null> {
+  return prisma.conversationShare.findUnique({ where: { id } })
+}
+
+/**
+ * Revoked links are kept so visitors get a "revoked" page rather than a 404
+ */
+export async function revokeConversationShare(id: string): Promise<ConversationShare> {
+  return prisma.conversationShare.update({
+    where: { id },
+    data: { revokedAt: new Date() },
+  })
+}
+
+export async function getShareByToken(token: string): Promise<ShareLookup> {
+  const share = await prisma.conversationShare.findUnique({
+    where: { token },
+    include: { conversation: true },
+  })
+
+  if (!share) return { status: 'not_found' }
+  if (share.revokedAt) return { status: 'revoked' }
+  if (share.expiresAt && share.expiresAt <= new Date()) return { status: 'expired' }
+  return { status: 'active', share }
+}
+
+/**
+ * Messages visible through a link: those sent before it was created
+ */
+export async function getSharedMessages(share: ConversationShare): Promise<Message[]> {
+  return prisma.message.findMany({
+    where: {
+      conversationId: share.conversationId,
+      createdAt: { lte: share.createdAt },
+    },
+    orderBy: { createdAt: 'asc' },
+  })
+}
+
+export async function recordShareView(id: string): Promise<void> {
+  await prisma.conversationShare.update({
+    where: { id },
+    data: { viewCount: { increment: 1 }, lastViewedAt: new Date() },
+  })
+}
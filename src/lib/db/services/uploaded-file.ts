@@ -0,0 +1,39 @@
+/**
+ * Uploaded File Database Service
+ *
+ * The extracted text of chat attachments. Messages reference a file by id,
+ * so its text is stored once however many times the conversation is sent.
+ */
+
+import { prisma } from '../index'
+import type { UploadedFile } from '@/generated/prisma'
+
+export interface CreateUploadedFileInput {
+  userId: string
+  name: string
+  mimeType: string
+  fileType: string
+  size: number
+  content: string
+  pageCount?: number
+  truncated: boolean
+  totalChars: number
+}
+
+export async function createUploadedFile(input: CreateUploadedFileInput): Promise<UploadedFile> {
+  return prisma.uploadedFile.create({ data: input })
+}
+
+export async function getUploadedFile(id: string): Promise<UploadedFile | null> {
+  return prisma.uploadedFile.findUnique({ where: { id } })
+}
+
+/**
+ * The user's files among `ids`; ids of other users' files are ignored
+ */
+export async function getUserUploadedFiles(userId: string, ids: string[]): Promise<UploadedFile[]> {
+  if (ids.length === 0) return []
+  return prisma.uploadedFile.findMany({
+    where: { id: { in: ids }, userId },
+  })
+}
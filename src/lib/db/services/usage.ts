@@ -0,0 +1,302 @@
+/**
+ * Usage Database Service
+ *
+ * Records token usage and cost for every provider call and aggregates it
+ * for the usage dashboard and CSV export.
+ */
+
+import { prisma } from '../index'
+import { Prisma, type UsageRecord } from '@/generated/prisma'
+import { dbLogger } from '@/lib/logging'
+import type {
+  UsageBreakdownItem,
+  UsageDimension,
+  UsageInterval,
+  UsageSource,
+  UsageTimeseriesPoint,
+  UsageTotals,
+} from '@/types'
+
+export interface CreateUsageRecordInput {
+  userId: string
+  workspaceId?: string | null
+  projectId?: string | null
+  conversationId?: string | null
+  source: UsageSource
+  provider: string
+  model: string
+  inputTokens: number
+  outputTokens: number
+  cost?: number
+  metadata?: Record<string, unknown>
+}
+
+export interface UsageFilter {
+  from: Date
+  to: Date
+  userId?: string
+  workspaceId?: string
+  /** With workspaceId, also count usage made outside any workspace */
+  includePersonal?: boolean
+  projectId?: string
+  model?: string
+}
+
+export interface UsageExportRow extends UsageRecord {
+  userEmail: string | null
+  workspaceName: string | null
+  projectName: string | null
+}
+
+const DIMENSION_FIELDS = {
+  user: 'userId',
+  workspace: 'workspaceId',
+  project: 'projectId',
+  model: 'model',
+  provider: 'provider',
+  source: 'source',
+} as const satisfies Record<UsageDimension, keyof UsageRecord>
+
+export async function createUsageRecord(input: CreateUsageRecordInput): Promise<UsageRecord> {
+  return prisma.usageRecord.create({
+    data: {
+      userId: input.userId,
+      workspaceId: input.workspaceId ?? null,
+      projectId: input.projectId ?? null,
+      conversationId: input.conversationId ?? null,
+      source: input.source,
+      provider: input.provider,
+      model: input.model,
+      inputTokens: input.inputTokens,
+      outputTokens: input.outputTokens,
+      cost: input.cost,
+      metadata: input.metadata ? JSON.stringify(input.metadata) : null,
+    },
+  })
+}
+
+/**
+ * Record usage without waiting for the write. Metering must never fail the
+ * request it measures, so errors are only logged.
+ */
+export function recordUsage(input: CreateUsageRecordInput): void {
+  createUsageRecord(input).catch((error) => {
+    dbLogger.warn('Failed to record usage', {
+      userId: input.userId,
+      source: input.source,
+      model: input.model,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  })
+}
+
+/**
+ * Workspace and project to bill a request to, taken from a conversation the
+ * user owns. Conversations belonging to someone else are ignored.
+ */
+export async function getUsageAttribution(
+  userId: string,
+  conversationId?: string
+): Promise<Pick<CreateUsageRecordInput, 'workspaceId' | 'projectId' | 'conversationId'>> {
+  if (!conversationId) return {}
+
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: { id: true, userId: true, workspaceId: true, projectId: true },
+  })
+  if (!conversation || conversation.userId !== userId) return {}
+
+  return {
+    workspaceId: conversation.workspaceId,
+    projectId: conversation.projectId,
+    conversationId: conversation.id,
+  }
+}
+
+function buildWhere(filter: UsageFilter): Prisma.UsageRecordWhereInput {
+  return {
+    createdAt: { gte: filter.from, lt: filter.to },
+    ...(filter.userId && { userId: filter.userId }),
+    ...(filter.workspaceId &&
+      (filter.includePersonal
+        ? { OR: [{ workspaceId: filter.workspaceId }, { workspaceId: null }] }
+        : { workspaceId: filter.workspaceId })),
+    ...(filter.projectId && { projectId: filter.projectId }),
+    ...(filter.model && { model: filter.model }),
+  }
+}
+
+function toTotals(row: {
+  _count: { _all: number }
+  _sum: { inputTokens: number | null; outputTokens: number | null; cost: number | null }
+}): UsageTotals {
+  return {
+    requests: row._count._all,
+    inputTokens: row._sum.inputTokens ?? 0,
+    outputTokens: row._sum.outputTokens ?? 0,
+    cost: row._sum.cost ?? 0,
+  }
+}
+
+export async function getUsageTotals(filter: UsageFilter): Promise<UsageTotals> {
+  const result = await prisma.usageRecord.aggregate({
+    where: buildWhere(filter),
+    _count: { _all: true },
+    _sum: { inputTokens: true, outputTokens: true, cost: true },
+  })
+  return toTotals(result)
+}
+
+/**
+ * Display names for grouped IDs. Users are labelled by name, then email.
+ */
+async function getLabels(dimension: UsageDimension, keys: string[]): Promise<Map<string, string>> {
+  if (keys.length === 0) return new Map()
+
+  switch (dimension) {
+    case 'user': {
+      const users = await prisma.user.findMany({
+        where: { id: { in: keys } },
+        select: { id: true, name: true, email: true },
+      })
+      return new Map(users.map((u) => [u.id, u.name || u.email]))
+    }
+    case 'workspace': {
+      const workspaces = await prisma.workspace.findMany({
+        where: { id: { in: keys } },
+        select: { id: true, name: true },
+      })
+      return new Map(workspaces.map((w) => [w.id, w.name]))
+    }
+    case 'project': {
+      const projects = await prisma.project.findMany({
+        where: { id: { in: keys } },
+        select: { id: true, name: true },
+      })
+      return new Map(projects.map((p) => [p.id, p.name]))
+    }
+    default:
+      return new Map(keys.map((key) => [key, key]))
+  }
+}
+
+const NULL_LABELS: Partial<Record<UsageDimension, string>> = {
+  workspace: 'Personal',
+  project: 'No project',
+}
+
+/**
+ * Usage grouped by one dimension, most expensive first
+ */
+export async function getUsageBreakdown(
+  filter: UsageFilter,
+  dimension: UsageDimension
+): Promise<UsageBreakdownItem[]> {
+  const field = DIMENSION_FIELDS[dimension]
+  const groups = await prisma.usageRecord.groupBy({
+    by: [field],
+    where: buildWhere(filter),
+    _count: { _all: true },
+    _sum: { inputTokens: true, outputTokens: true, cost: true },
+  })
+
+  const keys = groups.map((g) => g[field]).filter((key): key is string => !!key)
+  const labels = await getLabels(dimension, keys)
+
+  return groups
+    .map((group) => {
+      const key = group[field] ?? null
+      return {
+        key,
+        label: key ? labels.get(key) ?? 'Deleted' : NULL_LABELS[dimension] ?? 'Unknown',
+        ...toTotals(group),
+      }
+    })
+    .sort((a, b) => b.cost - a.cost || b.requests - a.requests)
+}
+
+/**
+ * Usage bucketed by day, week or month (bucket starts in UTC)
+ */
+export async function getUsageTimeseries(
+  filter: UsageFilter,
+  interval: UsageInterval
+): Promise<UsageTimeseriesPoint[]> {
+  const conditions = [
+    Prisma.sql`"createdAt" >= ${filter.from}`,
+    Prisma.sql`"createdAt" < ${filter.to}`,
+  ]
+  if (filter.userId) conditions.push(Prisma.sql`"userId" = ${filter.userId}`)
+  if (filter.workspaceId) conditions.push(Prisma.sql`"workspaceId" = ${filter.workspaceId}`)
+  if (filter.projectId) conditions.push(Prisma.sql`"projectId" = ${filter.projectId}`)
+  if (filter.model) conditions.push(Prisma.sql`"model" = ${filter.model}`)
+
+  // The interval is a validated union, so it is safe to inline
+  const unit = Prisma.raw(`'${interval}'`)
+
+  const rows = await prisma.$queryRaw<
+    Array<{ period: Date; requests: bigint; inputTokens: unknown; outputTokens: unknown; cost: unknown }>
+  >`
+    SELECT date_trunc(${unit}, "createdAt") AS period,
+           COUNT(*) AS requests,
+           COALESCE(SUM("inputTokens"), 0) AS "inputTokens",
+           COALESCE(SUM("outputTokens"), 0) AS "outputTokens",
+           COALESCE(SUM("cost"), 0) AS cost
+    FROM "UsageRecord"
+    WHERE ${Prisma.join(conditions, ' AND ')}
+    GROUP BY period
+    ORDER BY period
+  `
+
+  // SUM and COUNT come back as Decimal / bigint
+  return rows.map((row) => ({
+    period: new Date(row.period).toISOString(),
+    requests: Number(row.requests),
+    inputTokens: Number(row.inputTokens),
+    outputTokens: Number(row.outputTokens),
+    cost: Number(row.cost),
+  }))
+}
+
+/**
+ * Individual records for export, oldest first, with display names resolved
+ */
+export async function getUsageRecordsForExport(
+  filter: UsageFilter,
+  limit: number
+): Promise<UsageExportRow[]> {
+  const records = await prisma.usageRecord.findMany({
+    where: buildWhere(filter),
+    orderBy: { createdAt: 'asc' },
+    take: limit,
+  })
+
+  const unique = (values: Array<string | null>) =>
+    Array.from(new Set(values.filter((v): v is string => !!v)))
+
+  const [users, workspaces, projects] = await Promise.all([
+    prisma.user.findMany({
+      where: { id: { in: unique(records.map((r) => r.userId)) } },
+      select: { id: true, email: true },
+    }),
+    prisma.workspace.findMany({
+      where: { id: { in: unique(records.map((r) => r.workspaceId)) } },
+      select: { id: true, name: true },
+    }),
+    prisma.project.findMany({
+      where: { id: { in: unique(records.map((r) => r.projectId)) } },
+      select: { id: true, name: true },
+    }),
+  ])
+
+  const emails = new Map(users.map((u) => [u.id, u.email]))
+  const workspaceNames = new Map(workspaces.map((w) => [w.id, w.name]))
+  const projectNames = new Map(projects.map((p) => [p.id, p.name]))
+
+  return records.map((record) => ({
+    ...record,
+    userEmail: emails.get(record.userId) ?? null,
+    workspaceName: record.workspaceId ? workspaceNames.get(record.workspaceId) ?? null : null,
+    projectName: record.projectId ? projectNames.get(record.projectId) ?? null : null,
+  }))
+}
@@ -57,6 +57,14 @@ export async function getUser(id: string): Promise<User | null> {
   })
 }
 
+export async function isAdminUser(id: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: { role: true },
+  })
+  return user?.role === 'admin'
+}
+
 export async function getUserByEmail(email: string): Promise<User | null> {
   return prisma.user.findUnique({
     where: { email },
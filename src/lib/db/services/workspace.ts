@@ -7,6 +7,8 @@
 import { prisma } from '../index'
 import type { Workspace, WorkspaceMember, User } from '@/generated/prisma'
 import { generateId } from '@/lib/utils'
+import type { ToolPolicies, WorkspaceBudgetPolicy } from '@/types'
+import type { RateLimitPolicy, RateLimitRoute } from '@/lib/auth/rate-limit/types'
 
 export interface WorkspaceSettings {
   defaultModel?: string
@@ -15,6 +17,11 @@ export interface WorkspaceSettings {
     gleanIntegration?: boolean
     slackIntegration?: boolean
   }
+  budgets?: WorkspaceBudgetPolicy
+  /** Limits shared by all members, on top of each member's own limits */
+  rateLimits?: Partial<Record<RateLimitRoute, RateLimitPolicy>>
+  /** When tools ask for confirmation, by tool name; unset tools ask only for side effects */
+  toolPolicies?: ToolPolicies
 }
 
 export interface CreateWorkspaceInput {
@@ -411,3 +418,12 @@ export function parseWorkspaceSettings(workspace: Workspace): WorkspaceSettings
     return {}
   }
 }
+
+/**
+ * Whether a workspace's (or project's) policy lets its members use a provider.
+ * An unset or empty allow-list allows every provider.
+ */
+export function isProviderAllowed(settings: { allowedProviders?: string[] }, provider: string): boolean {
+  if (!settings.allowedProviders || settings.allowedProviders.length === 0) return true
+  return settings.allowedProviders.includes(provider)
+}
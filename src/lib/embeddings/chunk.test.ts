@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { chunkSections, chunkText } from './chunk'
+
+describe('chunkText', () => {
+  it('returns nothing for blank text', () => {
+    expect(chunkText('   \n\n ')).toEqual([])
+  })
+
+  it('keeps short text in one chunk', () => {
+    expect(chunkText('  Hello world.  ')).toEqual([{ index: 0, content: 'Hello world.' }])
+  })
+
+  it('breaks at paragraph boundaries before sentences and words', () => {
+    const first = 'a'.repeat(60)
+    const second = 'b'.repeat(60)
+    const chunks = chunkText(`${first}\n\n${second}`, { maxChars: 100, overlapChars: 0 })
+
+    expect(chunks.map((chunk) => chunk.content)).toEqual([first, second])
+  })
+
+  it('overlaps consecutive chunks', () => {
+    const words = Array.from({ length: 100 }, (_, i) => `word${i}`).join(' ')
+    const chunks = chunkText(words, { maxChars: 200, overlapChars: 50 })
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (let i = 1; i < chunks.length; i++) {
+      const previousWords = chunks[i - 1].content.split(' ')
+      expect(previousWords).toContain(chunks[i].content.split(' ')[0])
+    }
+  })
+
+  it('never exceeds the maximum size and covers the whole text', () => {
+    const text = Array.from({ length: 50 }, (_, i) => `Sentence number ${i} is here.`).join(' ')
+    const chunks = chunkText(text, { maxChars: 120, overlapChars: 20 })
+
+    expect(chunks.every((chunk) => chunk.content.length <= 120)).toBe(true)
+    expect(chunks[0].content.startsWith('Sentence number 0')).toBe(true)
+    expect(chunks[chunks.length - 1].content.endsWith('Sentence number 49 is here.')).toBe(true)
+    expect(chunks.map((chunk) => chunk.index)).toEqual(chunks.map((_, i) => i))
+  })
+
+  it('splits text without any break characters', () => {
+    const chunks = chunkText('x'.repeat(250), { maxChars: 100, overlapChars: 0 })
+    expect(chunks.map((chunk) => chunk.content.length)).toEqual([100, 100, 50])
+  })
+})
+
+describe('chunkSections', () => {
+  it('labels each chunk with its section and numbers chunks across sections', () => {
+    const chunks = chunkSections([
+      { label: 'Page 1', content: 'First page.' },
+      { content: 'Unlabeled.' },
+      { label: 'Page 3', content: '' },
+      { label: 'Page 4', content: 'Last page.' },
+    ])
+
+    expect(chunks).toEqual([
+      { index: 0, content: 'Page 1\nFirst page.' },
+      { index: 1, content: 'Unlabeled.' },
+      { index: 2, content: 'Page 4\nLast page.' },
+    ])
+  })
+})
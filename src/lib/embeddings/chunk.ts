@@ -0,0 +1,68 @@
+/**
+ * Message and document chunking
+ *
+ * Long messages are split so each vector describes one topic rather than an
+ * average of several. Chunks break at paragraph, then sentence, then word
+ * boundaries and overlap slightly so a thought split across two chunks is
+ * still found.
+ */
+
+import type { TextChunk } from './types'
+
+export interface ChunkOptions {
+  /** Roughly 500 tokens */
+  maxChars?: number
+  overlapChars?: number
+}
+
+const BREAKS = ['\n\n', '\n', '. ', ' ']
+
+function findBreak(text: string, start: number, end: number): number {
+  const minEnd = start + Math.floor((end - start) / 2)
+  for (const separator of BREAKS) {
+    const at = text.lastIndexOf(separator, end - separator.length)
+    if (at >= minEnd) return at + separator.length
+  }
+  return end
+}
+
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const { maxChars = 2000, overlapChars = 200 } = options
+  const content = text.trim()
+  if (!content) return []
+
+  const chunks: TextChunk[] = []
+  let start = 0
+
+  while (start < content.length) {
+    const end = start + maxChars >= content.length
+      ? content.length
+      : findBreak(content, start, start + maxChars)
+
+    chunks.push({ index: chunks.length, content: content.slice(start, end).trim() })
+    if (end >= content.length) break
+    start = Math.max(end - overlapChars, start + 1)
+  }
+
+  return chunks.filter((chunk) => chunk.content.length > 0)
+}
+
+/**
+ * Chunk each section of a document separately, so no chunk spans two pages,
+ * sheets or slides, and start every chunk with its section's label
+ */
+export function chunkSections(
+  sections: Array<{ label?: string; content: string }>,
+  options: ChunkOptions = {}
+): TextChunk[] {
+  const chunks: TextChunk[] = []
+  for (const section of sections) {
+    for (const chunk of chunkText(section.content, options)) {
+      chunks.push({
+        index: chunks.length,
+        content: section.label ? `${section.label}\n${chunk.content}` : chunk.content,
+      })
+    }
+  }
+  return chunks
+}
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/db', () => ({ prisma: {} }))
+vi.mock('@/lib/db/services/usage', () => ({ recordUsage: vi.fn() }))
+vi.mock('@/lib/db/services/embedding', () => ({
+  getMessagesWithoutEmbeddings: vi.fn(),
+  saveMessageEmbeddings: vi.fn(),
+}))
+
+import { recordUsage } from '@/lib/db/services/usage'
+import { HashEmbeddingProvider, createEmbeddingProvider, embedChunks } from './index'
+import type { EmbeddingProvider } from './types'
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0)
+}
+
+/** Deterministic stub: a vector from the text length, or zero for "empty" */
+function createStubProvider(tokensPerText = 10): EmbeddingProvider & { batches: string[][] } {
+  const batches: string[][] = []
+  return {
+    model: 'stub',
+    provider: 'stub',
+    costPerMillionTokens: 1,
+    batches,
+    async embed(texts) {
+      batches.push(texts)
+      return {
+        vectors: texts.map((text) => (text === 'empty' ? [0, 0] : [text.length, 1])),
+        tokens: texts.length * tokensPerText,
+      }
+    },
+  }
+}
+
+describe('HashEmbeddingProvider', () => {
+  const provider = new HashEmbeddingProvider(64)
+
+  it('is deterministic and normalized', async () => {
+    const first = await provider.embed(['deploy the service'])
+    const second = await provider.embed(['deploy the service'])
+
+    expect(first.vectors).toEqual(second.vectors)
+    expect(first.vectors[0]).toHaveLength(64)
+    expect(cosine(first.vectors[0], first.vectors[0])).toBeCloseTo(1)
+    expect(first.tokens).toBe(0)
+  })
+
+  it('places texts with shared words closer together', async () => {
+    const { vectors } = await provider.embed([
+      'quarterly revenue report',
+      'the revenue report for the quarter',
+      'hiking trails near the lake',
+    ])
+
+    expect(cosine(vectors[0], vectors[1])).toBeGreaterThan(cosine(vectors[0], vectors[2]))
+  })
+
+  it('embeds text without words as the zero vector', async () => {
+    const { vectors } = await provider.embed(['!!! ???'])
+    expect(vectors[0].every((value) => value === 0)).toBe(true)
+  })
+})
+
+describe('createEmbeddingProvider', () => {
+  it('selects the hash backend by name and disables embeddings with none', () => {
+    expect(createEmbeddingProvider('hash')).toBeInstanceOf(HashEmbeddingProvider)
+    expect(createEmbeddingProvider('none')).toBeNull()
+  })
+})
+
+describe('embedChunks', () => {
+  beforeEach(() => {
+    vi.mocked(recordUsage).mockClear()
+  })
+
+  it('embeds in batches and keeps chunk indexes', async () => {
+    const provider = createStubProvider()
+    const chunks = Array.from({ length: 70 }, (_, i) => ({ index: i, content: `chunk ${i}` }))
+
+    const embedded = await embedChunks(provider, chunks, { userId: 'user-1' })
+
+    expect(provider.batches.map((batch) => batch.length)).toEqual([64, 6])
+    expect(embedded).toHaveLength(70)
+    expect(embedded[69]).toEqual({ chunkIndex: 69, content: 'chunk 69', vector: [8, 1] })
+  })
+
+  it('drops chunks that embed to the zero vector', async () => {
+    const embedded = await embedChunks(
+      createStubProvider(),
+      [
+        { index: 0, content: 'empty' },
+        { index: 1, content: 'text' },
+      ],
+      { userId: 'user-1' }
+    )
+
+    expect(embedded.map((chunk) => chunk.chunkIndex)).toEqual([1])
+  })
+
+  it('meters billed tokens to the owner, and nothing for free backends', async () => {
+    const owner = { userId: 'user-1', workspaceId: 'ws-1' }
+    await embedChunks(createStubProvider(), [{ index: 0, content: 'text' }], owner)
+    await embedChunks(createStubProvider(0), [{ index: 0, content: 'text' }], owner)
+
+    expect(recordUsage).toHaveBeenCalledTimes(1)
+    expect(recordUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ ...owner, source: 'embedding', model: 'stub', inputTokens: 10, cost: 0.00001 })
+    )
+  })
+})
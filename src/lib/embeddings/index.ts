@@ -0,0 +1,219 @@
+/**
+ * Embeddings
+ *
+ * Messages are chunked and embedded as they are saved so past conversations
+ * can be found by meaning as well as by keyword. The backend is chosen with
+ * EMBEDDING_PROVIDER:
+ *
+ * - openai: OpenAI embeddings API (default when OPENAI_API_KEY is set)
+ * - local: the OpenAI-compatible server at LOCAL_LLM_API_URL
+ * - hash: deterministic, offline word hashing for tests and development
+ * - none: semantic search is disabled and search is keyword-only
+ */
+
+import { dbLogger } from '@/lib/logging'
+import { prisma } from '@/lib/db'
+import { recordUsage } from '@/lib/db/services/usage'
+import {
+  getMessagesWithoutEmbeddings,
+  saveMessageEmbeddings,
+  type EmbeddedChunk,
+} from '@/lib/db/services/embedding'
+import { chunkText } from './chunk'
+import { HashEmbeddingProvider, OpenAIEmbeddingProvider } from './providers'
+import type { EmbeddingProvider, TextChunk } from './types'
+
+export type { EmbeddingProvider, EmbeddingResult, TextChunk } from './types'
+export { chunkSections, chunkText, type ChunkOptions } from './chunk'
+export { HashEmbeddingProvider, OpenAIEmbeddingProvider } from './providers'
+
+const EMBEDDED_ROLES = ['user', 'assistant']
+
+/** Texts sent per embedding request; long documents are split across several */
+const EMBED_BATCH_SIZE = 64
+
+export function createEmbeddingProvider(name: string | undefined): EmbeddingProvider | null {
+  const model = process.env.EMBEDDING_MODEL || undefined
+
+  switch (name) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider({ model })
+    case 'local':
+      if (!process.env.LOCAL_LLM_API_URL) return null
+      return new OpenAIEmbeddingProvider({
+        model: model ?? 'nomic-embed-text',
+        baseURL: process.env.LOCAL_LLM_API_URL,
+        // The SDK requires a key even though most local servers ignore it
+        apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+        provider: 'local',
+        costPerMillionTokens: 0,
+      })
+    case 'hash':
+      return new HashEmbeddingProvider()
+    case 'none':
+      return null
+    default:
+      return process.env.OPENAI_API_KEY ? new OpenAIEmbeddingProvider({ model }) : null
+  }
+}
+
+let defaultProvider: EmbeddingProvider | null | undefined
+
+/**
+ * The configured backend, or null when semantic search is disabled
+ */
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  if (defaultProvider === undefined) {
+    defaultProvider = createEmbeddingProvider(process.env.EMBEDDING_PROVIDER)
+  }
+  return defaultProvider
+}
+
+/** Override the configured backend (for tests and scripts) */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  defaultProvider = provider
+}
+
+export interface EmbeddableMessage {
+  id: string
+  role: string
+  content: string
+}
+
+/** Who embedding costs are billed to */
+export interface EmbeddingOwner {
+  userId: string
+  workspaceId?: string | null
+  projectId?: string | null
+  conversationId?: string | null
+}
+
+function meter(provider: EmbeddingProvider, owner: EmbeddingOwner, tokens: number, texts: number) {
+  if (tokens === 0) return
+  recordUsage({
+    ...owner,
+    source: 'embedding',
+    provider: provider.provider,
+    model: provider.model,
+    inputTokens: tokens,
+    outputTokens: 0,
+    cost: (tokens / 1_000_000) * provider.costPerMillionTokens,
+    metadata: { texts },
+  })
+}
+
+/**
+ * Embed chunks with `provider`, billing `owner`
+ */
+export async function embedChunks(
+  provider: EmbeddingProvider,
+  chunks: TextChunk[],
+  owner: EmbeddingOwner
+): Promise<EmbeddedChunk[]> {
+  const embedded: EmbeddedChunk[] = []
+
+  for (let start = 0; start < chunks.length; start += EMBED_BATCH_SIZE) {
+    const batch = chunks.slice(start, start + EMBED_BATCH_SIZE)
+    const { vectors, tokens } = await provider.embed(batch.map((chunk) => chunk.content))
+    meter(provider, owner, tokens, batch.length)
+
+    batch.forEach((chunk, i) => {
+      // A chunk with no words hashes to the zero vector, which has no direction to compare
+      const vector = vectors[i]
+      if (vector?.some((value) => value !== 0)) {
+        embedded.push({ chunkIndex: chunk.index, content: chunk.content, vector })
+      }
+    })
+  }
+
+  return embedded
+}
+
+/**
+ * Chunk, embed and store one message. Returns the number of chunks stored;
+ * messages that are not user or assistant turns are skipped.
+ */
+export async function embedMessage(message: EmbeddableMessage, owner: EmbeddingOwner): Promise<number> {
+  const provider = getEmbeddingProvider()
+  if (!provider || !EMBEDDED_ROLES.includes(message.role)) return 0
+
+  const chunks = chunkText(message.content)
+  if (chunks.length === 0) return 0
+
+  const embedded = await embedChunks(provider, chunks, owner)
+  await saveMessageEmbeddings(message.id, provider.model, embedded)
+  return embedded.length
+}
+
+/**
+ * Embed a message in the background. Failures are logged, never thrown:
+ * a message that fails here is picked up by the next backfill.
+ */
+export function queueMessageEmbedding(message: EmbeddableMessage, owner: EmbeddingOwner): void {
+  if (!getEmbeddingProvider()) return
+
+  embedMessage(message, owner).catch((error) => {
+    dbLogger.warn('Failed to embed message', {
+      messageId: message.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+  })
+}
+
+/**
+ * Embed a search query with the configured backend
+ */
+export async function embedQuery(
+  text: string,
+  owner: EmbeddingOwner
+): Promise<{ model: string; vector: number[] } | null> {
+  const provider = getEmbeddingProvider()
+  if (!provider) return null
+
+  const { vectors, tokens } = await provider.embed([text])
+  meter(provider, owner, tokens, 1)
+
+  const vector = vectors[0]
+  return vector?.some((value) => value !== 0) ? { model: provider.model, vector } : null
+}
+
+/**
+ * Embed messages saved before semantic search was enabled, or with a
+ * different backend. Returns the number of messages processed.
+ */
+export async function backfillEmbeddings(
+  options: { batchSize?: number; onBatch?: (processed: number) => void } = {}
+): Promise<number> {
+  const provider = getEmbeddingProvider()
+  if (!provider) return 0
+
+  const batchSize = options.batchSize ?? 50
+  let processed = 0
+  let after: { id: string; createdAt: Date } | undefined
+
+  for (;;) {
+    const messages = await getMessagesWithoutEmbeddings(provider.model, batchSize, after)
+    if (messages.length === 0) return processed
+
+    const conversations = await prisma.conversation.findMany({
+      where: { id: { in: Array.from(new Set(messages.map((m) => m.conversationId))) } },
+      select: { id: true, userId: true, workspaceId: true, projectId: true },
+    })
+    const owners = new Map(conversations.map((c) => [c.id, c]))
+
+    for (const message of messages) {
+      const conversation = owners.get(message.conversationId)
+      if (!conversation) continue
+      await embedMessage(message, {
+        userId: conversation.userId,
+        workspaceId: conversation.workspaceId,
+        projectId: conversation.projectId,
+        conversationId: conversation.id,
+      })
+    }
+
+    processed += messages.length
+    after = messages[messages.length - 1]
+    options.onBatch?.(processed)
+  }
+}
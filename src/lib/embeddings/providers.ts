@@ -0,0 +1,102 @@
+/**
+ * Embedding providers
+ *
+ * OpenAIEmbeddingProvider calls the OpenAI embeddings API, or any server
+ * implementing it (Ollama, vLLM, LM Studio) when given a base URL.
+ * HashEmbeddingProvider needs no network: it hashes words into a fixed
+ * number of dimensions, which is deterministic and good enough for tests
+ * and local development, but only captures shared vocabulary, not meaning.
+ */
+
+import OpenAI from 'openai'
+import type { EmbeddingProvider, EmbeddingResult } from './types'
+
+// Inputs per request; the OpenAI API accepts up to 2048
+const MAX_BATCH_SIZE = 256
+
+export interface OpenAIEmbeddingProviderOptions {
+  model?: string
+  apiKey?: string
+  /** For OpenAI-compatible servers */
+  baseURL?: string
+  /** Reported in usage records */
+  provider?: string
+  costPerMillionTokens?: number
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string
+  readonly provider: string
+  readonly costPerMillionTokens: number
+  private client: OpenAI
+
+  constructor(options: OpenAIEmbeddingProviderOptions = {}) {
+    this.model = options.model ?? 'text-embedding-3-small'
+    this.provider = options.provider ?? 'openai'
+    // text-embedding-3-small list price
+    this.costPerMillionTokens = options.costPerMillionTokens ?? 0.02
+    this.client = new OpenAI({
+      apiKey: options.apiKey ?? process.env.OPENAI_API_KEY,
+      baseURL: options.baseURL,
+    })
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    const vectors: number[][] = []
+    let tokens = 0
+
+    for (let i = 0; i < texts.length; i += MAX_BATCH_SIZE) {
+      const response = await this.client.embeddings.create({
+        model: this.model,
+        input: texts.slice(i, i + MAX_BATCH_SIZE),
+      })
+      // Results carry their input index; do not rely on response order
+      const batch = [...response.data].sort((a, b) => a.index - b.index)
+      vectors.push(...batch.map((item) => item.embedding))
+      tokens += response.usage?.prompt_tokens ?? 0
+    }
+
+    return { vectors, tokens }
+  }
+}
+
+/** FNV-1a, so the same word always lands in the same dimension */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+const WORD = new RegExp('[\\p{L}\\p{N}]+', 'gu')
+
+export class HashEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string
+  readonly provider = 'hash'
+  readonly costPerMillionTokens = 0
+
+  constructor(private dimensions = 256) {
+    this.model = `hash-${dimensions}`
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingResult> {
+    return { vectors: texts.map((text) => this.embedOne(text)), tokens: 0 }
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0)
+    const words: string[] = text.toLowerCase().match(WORD) ?? []
+
+    // Unigrams and bigrams, with the sign taken from the hash to spread collisions
+    const features = words.concat(words.slice(1).map((word, i) => `${words[i]} ${word}`))
+    for (const feature of features) {
+      const hash = hashString(feature)
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+    return norm > 0 ? vector.map((value) => value / norm) : vector
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Embedding types
+ */
+
+export interface EmbeddingResult {
+  /** One vector per input text, in order */
+  vectors: number[][]
+  /** Input tokens billed for the request (0 when the backend is free) */
+  tokens: number
+}
+
+/**
+ * A backend that turns text into vectors. Vectors are only compared with
+ * vectors from the same `model`, so switching backends needs a backfill
+ * before semantic search finds older messages again.
+ */
+export interface EmbeddingProvider {
+  /** Stored with every vector, e.g. "text-embedding-3-small" */
+  readonly model: string
+  /** Reported in usage records */
+  readonly provider: string
+  /** USD per million input tokens */
+  readonly costPerMillionTokens: number
+  embed(texts: string[]): Promise<EmbeddingResult>
+}
+
+export interface TextChunk {
+  index: number
+  content: string
+}
@@ -27,10 +27,36 @@ const serverEnvSchema = z.object({
   ONDOBOT_API_KEY: z.string().optional(),
   ONDOBOT_API_URL: z.string().url().optional(),
 
+  // Local OpenAI-compatible server (Ollama, vLLM, LM Studio, llama.cpp)
+  LOCAL_LLM_API_URL: z.string().url().optional(),
+  LOCAL_LLM_API_KEY: z.string().optional(),
+  LOCAL_LLM_DEFAULT_MODEL: z.string().optional(),
+  LOCAL_LLM_CONTEXT_WINDOW: z.string().optional(),
+  LOCAL_LLM_MAX_OUTPUT_TOKENS: z.string().optional(),
+
+  // MCP servers
+  MCP_CREDENTIALS_KEY: z.string().optional(),
+  MCP_STDIO_PRESETS: z.string().optional(),
+  MCP_HTTP_ALLOWED_HOSTS: z.string().optional(),
+  MCP_CONNECT_TIMEOUT_MS: z.string().optional(),
+
   // Routing
   ROUTING_MODE: z.enum(['rule_based', 'llm_hybrid']).default('rule_based'),
   ROUTING_CONFIDENCE_THRESHOLD: z.string().default('0.7').transform(Number).pipe(z.number().min(0).max(1)),
   ENABLE_AUTO_ROUTING: z.string().default('false').transform((v) => v === 'true'),
+  ROUTING_LLM_MODEL: z.string().optional(),
+  ROUTING_LLM_TIMEOUT_MS: z.string().default('1500').transform(Number).pipe(z.number().int().positive()),
+
+  // Provider fallback
+  ENABLE_PROVIDER_FALLBACK: z.string().default('true').transform((v) => v !== 'false'),
+  PROVIDER_FALLBACK_CHAINS: z.string().optional(),
+  CIRCUIT_BREAKER_FAILURE_THRESHOLD: z.string().default('5').transform(Number).pipe(z.number().int().positive()),
+  CIRCUIT_BREAKER_COOLDOWN_MS: z.string().default('30000').transform(Number).pipe(z.number().int().positive()),
+
+  // Context window management
+  CONTEXT_STRATEGY: z.enum(['summarize', 'truncate', 'sliding_window']).default('summarize'),
+  CONTEXT_SUMMARY_MODEL: z.string().optional(),
+  CONTEXT_WINDOW_TURNS: z.string().default('20').transform(Number).pipe(z.number().int().positive()),
 
   // Logging
   LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).optional(),
@@ -0,0 +1,152 @@
+/**
+ * File Extraction
+ *
+ * Turns uploaded files into clean text on the server: PDF pages, Word
+ * documents, Excel sheets and CSV files as Markdown tables, PowerPoint
+ * slides and HTML pages, as well as plain text and code. Text is kept in
+ * sections (pages, sheets, slides) so it can be chunked without mixing them
+ * and truncated without losing track of where it stopped.
+ *
+ * Server-only: uses zlib and PDF.js.
+ */
+
+import 'server-only'
+import { getFileExtension, getFileType, getMimeType, isSupportedFileType } from '../types'
+import { isZipArchive } from '../zip'
+import { htmlToText } from './markup'
+import { extractDocx, extractPptx, extractXlsx } from './office'
+import { extractPdf } from './pdf'
+import { parseCsv, toMarkdownTable } from './table'
+import type { ExtractedFile, ExtractedSection } from './types'
+
+export type { ExtractedFile, ExtractedSection } from './types'
+
+/** Characters of extracted text kept for a chat attachment, roughly 25k tokens */
+export const MAX_EXTRACTED_CHARS = 100000
+
+export interface ExtractOptions {
+  /** Truncate `content` to this many characters; `sections` are always complete */
+  maxChars?: number
+}
+
+function formatSection(section: ExtractedSection): string {
+  return section.label ? `## ${section.label}\n\n${section.content}` : section.content
+}
+
+/**
+ * The sections as one text, with their labels as headings
+ */
+export function formatSections(sections: ExtractedSection[]): string {
+  return sections.map(formatSection).join('\n\n')
+}
+
+/**
+ * Keep whole sections while they fit, then cut the next one at a line break
+ */
+function truncateSections(sections: ExtractedSection[], maxChars: number): string {
+  const parts: string[] = []
+  let length = 0
+  let lastLabel: string | undefined
+
+  for (const section of sections) {
+    const text = formatSection(section)
+    if (length + text.length <= maxChars) {
+      parts.push(text)
+      length += text.length + 2
+      lastLabel = section.label
+      continue
+    }
+
+    const remaining = maxChars - length
+    if (remaining > 0) {
+      const cut = text.slice(0, remaining)
+      const lastNewline = cut.lastIndexOf('\n')
+      parts.push(lastNewline > remaining * 0.8 ? cut.slice(0, lastNewline) : cut)
+      lastLabel = section.label
+    }
+    break
+  }
+
+  const note = lastLabel ? `[Content truncated after ${lastLabel}]` : '[Content truncated...]'
+  return `${parts.join('\n\n')}\n\n${note}`
+}
+
+function readText(buffer: Buffer, name: string): string {
+  const text = buffer.toString('utf8').replace(/^\uFEFF/, '')
+  if (text.includes('\u0000')) {
+    throw new Error(`${name} is not a text file`)
+  }
+  return text
+}
+
+async function extractSections(
+  buffer: Buffer,
+  name: string
+): Promise<{ sections: ExtractedSection[]; pageCount?: number }> {
+  const extension = getFileExtension(name)
+
+  switch (extension) {
+    case '.pdf':
+      return extractPdf(buffer)
+    case '.docx':
+    case '.xlsx':
+    case '.pptx': {
+      if (!isZipArchive(buffer)) {
+        throw new Error(`${name} is not a valid ${extension.slice(1).toUpperCase()} file`)
+      }
+      const extract = extension === '.docx' ? extractDocx : extension === '.xlsx' ? extractXlsx : extractPptx
+      return { sections: extract(buffer) }
+    }
+    case '.csv': {
+      const table = toMarkdownTable(parseCsv(readText(buffer, name)))
+      return { sections: table ? [{ content: table }] : [] }
+    }
+    case '.html':
+    case '.htm': {
+      const { title, content } = htmlToText(readText(buffer, name))
+      return { sections: content ? [{ label: title, content }] : [] }
+    }
+    default: {
+      const content = readText(buffer, name).trim()
+      return { sections: content ? [{ content }] : [] }
+    }
+  }
+}
+
+/**
+ * Extract the text of an uploaded file. Throws with a message suitable for
+ * the user when the file cannot be read.
+ */
+export async function extractFile(
+  buffer: Buffer,
+  name: string,
+  mimeType?: string,
+  options: ExtractOptions = {}
+): Promise<ExtractedFile> {
+  const fileType = getFileType(name, mimeType)
+  if (!isSupportedFileType(name) || fileType === 'image') {
+    throw new Error(`Unsupported file type: ${getFileExtension(name) || 'unknown'}`)
+  }
+
+  const { sections, pageCount } = await extractSections(buffer, name)
+  if (sections.length === 0) {
+    throw new Error(
+      fileType === 'pdf'
+        ? `No text found in ${name}. Scanned PDFs are not supported.`
+        : `${name} is empty`
+    )
+  }
+
+  const full = formatSections(sections)
+  const truncated = options.maxChars !== undefined && full.length > options.maxChars
+
+  return {
+    fileType,
+    mimeType: mimeType || getMimeType(name),
+    content: truncated ? truncateSections(sections, options.maxChars as number) : full,
+    sections,
+    pageCount,
+    truncated,
+    totalChars: full.length,
+  }
+}
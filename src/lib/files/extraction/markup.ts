@@ -0,0 +1,123 @@
+/**
+ * XML and HTML text helpers
+ *
+ * Office documents are small, regular XML, so they are read with regular
+ * expressions rather than a full parser.
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  bull: '•',
+  middot: '·',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+}
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+/**
+ * Every match of a tag (including its body) in document order. Elements of
+ * the same tag must not nest.
+ */
+export function findElements(xml: string, tag: string): string[] {
+  const escaped = tag.replace(':', '\\:')
+  const pattern = new RegExp(`<${escaped}(?:\\s[^>]*?)?(?:/>|>[\\s\\S]*?</${escaped}>)`, 'g')
+  return xml.match(pattern) ?? []
+}
+
+export function getAttribute(element: string, name: string): string | undefined {
+  const match = element.match(new RegExp(`\\s${name.replace(':', '\\:')}="([^"]*)"`))
+  return match ? decodeEntities(match[1]) : undefined
+}
+
+/**
+ * Concatenated text of every `tag` run in an element, e.g. w:t or a:t
+ */
+export function getRunText(element: string, tag: string): string {
+  const escaped = tag.replace(':', '\\:')
+  const pattern = new RegExp(`<${escaped}(?:\\s[^>]*)?>([^<]*)</${escaped}>`, 'g')
+  let text = ''
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(element)) !== null) {
+    text += decodeEntities(match[1])
+  }
+  return text
+}
+
+/**
+ * Map relationship ids to their targets from a .rels part, resolved
+ * against the directory of the part that owns them
+ */
+export function parseRelationships(xml: string, baseDir: string): Map<string, string> {
+  const relationships = new Map<string, string>()
+  for (const element of findElements(xml, 'Relationship')) {
+    const id = getAttribute(element, 'Id')
+    const target = getAttribute(element, 'Target')
+    if (!id || !target) continue
+    relationships.set(id, target.startsWith('/') ? target.slice(1) : resolvePath(baseDir, target))
+  }
+  return relationships
+}
+
+function resolvePath(baseDir: string, target: string): string {
+  const parts = baseDir.split('/').filter(Boolean)
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop()
+    else if (segment && segment !== '.') parts.push(segment)
+  }
+  return parts.join('/')
+}
+
+const BLOCK_TAGS = 'p|div|section|article|header|footer|main|aside|nav|ul|ol|table|tr|blockquote|pre|h[1-6]|dl|dt|dd|figure|figcaption'
+
+/**
+ * Readable text from an HTML page: scripts, styles and markup are removed,
+ * block elements become line breaks and headings and list items keep a
+ * Markdown-style prefix.
+ */
+export function htmlToText(html: string): { title?: string; content: string } {
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)
+  const title = titleMatch ? decodeEntities(titleMatch[1]).trim() || undefined : undefined
+
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<h([1-6])\b[^>]*>/gi, (_match, level: string) => `\n\n${'#'.repeat(Number(level))} `)
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(t[dh])\b[^>]*>/gi, ' ')
+    .replace(new RegExp(`</?(${BLOCK_TAGS})\\b[^>]*>`, 'gi'), '\n\n')
+    .replace(/<[^>]+>/g, '')
+
+  const content = decodeEntities(text)
+    .split('\n')
+    .map((line) => line.replace(/[ \t\u00A0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+  return { title, content }
+}
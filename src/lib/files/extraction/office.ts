@@ -0,0 +1,175 @@
+/**
+ * Office Open XML extraction
+ *
+ * DOCX, XLSX and PPTX files are ZIP packages of XML parts. Text is read
+ * from the parts directly: paragraphs and tables from Word documents, cell
+ * values per sheet from workbooks and text frames per slide from
+ * presentations. Formatting, images and embedded objects are ignored.
+ */
+
+import { openZipArchive, type ZipArchive, type ZipLimits } from '../zip'
+import { findElements, getAttribute, getRunText, parseRelationships } from './markup'
+import { toMarkdownTable, type TableRow } from './table'
+import type { ExtractedSection } from './types'
+
+/**
+ * Limits for uploaded documents. Real documents stay far below them, while a
+ * small crafted upload would otherwise inflate to gigabytes.
+ */
+const OFFICE_ZIP_LIMITS: ZipLimits = {
+  maxEntryBytes: 32 * 1024 * 1024,
+  maxTotalBytes: 64 * 1024 * 1024,
+}
+
+function readPart(archive: ZipArchive, path: string): string | null {
+  return archive.read(path)?.toString('utf8') ?? null
+}
+
+function requirePart(archive: ZipArchive, path: string, kind: string): string {
+  const part = readPart(archive, path)
+  if (part === null) throw new Error(`Not a valid ${kind} file`)
+  return part
+}
+
+// ============================================================================
+// Word
+// ============================================================================
+
+function getParagraphText(paragraph: string): string {
+  const text = getRunText(
+    paragraph.replace(/<w:tab\/>/g, '<w:t>\t</w:t>').replace(/<w:(?:br|cr)(?:\s[^>]*)?\/>/g, '<w:t>\n</w:t>'),
+    'w:t'
+  ).trim()
+  if (!text) return ''
+
+  const style = paragraph.match(/<w:pStyle w:val="([^"]*)"/)?.[1] ?? ''
+  const heading = style.match(/^(?:Heading|Title)(\d)?$/i)
+  if (heading) return `${'#'.repeat(Math.min(Number(heading[1] ?? 1), 6))} ${text}`
+  if (/<w:numPr\b/.test(paragraph)) return `- ${text}`
+  return text
+}
+
+function getWordTable(table: string): string {
+  const rows: TableRow[] = findElements(table, 'w:tr').map((row) =>
+    findElements(row, 'w:tc').map((cell) =>
+      findElements(cell, 'w:p').map(getParagraphText).filter(Boolean).join(' ')
+    )
+  )
+  return toMarkdownTable(rows)
+}
+
+export function extractDocx(buffer: Buffer): ExtractedSection[] {
+  const xml = requirePart(openZipArchive(buffer, OFFICE_ZIP_LIMITS), 'word/document.xml', 'Word')
+  const body = xml.match(/<w:body>([\s\S]*)<\/w:body>/)?.[1] ?? xml
+
+  // Top-level tables and paragraphs in document order
+  const blocks = body.match(/<w:tbl>[\s\S]*?<\/w:tbl>|<w:p(?:\s[^>]*?)?(?:\/>|>[\s\S]*?<\/w:p>)/g) ?? []
+  const content = blocks
+    .map((block) => (block.startsWith('<w:tbl>') ? getWordTable(block) : getParagraphText(block)))
+    .filter(Boolean)
+    .join('\n\n')
+
+  return content ? [{ content }] : []
+}
+
+// ============================================================================
+// Excel
+// ============================================================================
+
+function getSharedStrings(archive: ZipArchive): string[] {
+  const xml = readPart(archive, 'xl/sharedStrings.xml')
+  if (!xml) return []
+  return findElements(xml, 'si').map((item) => getRunText(item, 't'))
+}
+
+/** "A" -> 0, "AB" -> 27 */
+function getColumnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/)?.[0] ?? ''
+  let index = 0
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64)
+  }
+  return index - 1
+}
+
+function getCellValue(cell: string, sharedStrings: string[]): string {
+  const type = getAttribute(cell, 't')
+  if (type === 'inlineStr') return getRunText(cell, 't')
+
+  const value = getRunText(cell, 'v')
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(value)] ?? ''
+    case 'b':
+      return value === '1' ? 'TRUE' : 'FALSE'
+    default:
+      // Numbers, dates (as serial numbers), formula results and errors
+      return value
+  }
+}
+
+function getSheetRows(xml: string, sharedStrings: string[]): TableRow[] {
+  return findElements(xml, 'row').map((row) => {
+    const cells: TableRow = []
+    findElements(row, 'c').forEach((cell, position) => {
+      const reference = getAttribute(cell, 'r')
+      const column = reference ? getColumnIndex(reference) : position
+      cells[column] = getCellValue(cell, sharedStrings)
+    })
+    return Array.from(cells, (value) => value ?? '')
+  })
+}
+
+export function extractXlsx(buffer: Buffer): ExtractedSection[] {
+  const archive = openZipArchive(buffer, OFFICE_ZIP_LIMITS)
+  const workbook = requirePart(archive, 'xl/workbook.xml', 'Excel')
+  const relationships = parseRelationships(readPart(archive, 'xl/_rels/workbook.xml.rels') ?? '', 'xl')
+  const sharedStrings = getSharedStrings(archive)
+
+  const sections: ExtractedSection[] = []
+  for (const sheet of findElements(workbook, 'sheet')) {
+    const name = getAttribute(sheet, 'name') ?? `Sheet ${sections.length + 1}`
+    const target = relationships.get(getAttribute(sheet, 'r:id') ?? '')
+    const xml = target ? readPart(archive, target) : null
+    if (!xml) continue
+
+    const table = toMarkdownTable(getSheetRows(xml, sharedStrings))
+    if (table) sections.push({ label: `Sheet: ${name}`, content: table })
+  }
+  return sections
+}
+
+// ============================================================================
+// PowerPoint
+// ============================================================================
+
+function getSlideText(xml: string): string {
+  return findElements(xml, 'a:p')
+    .map((paragraph) => getRunText(paragraph.replace(/<a:br(?:\s[^>]*)?\/>/g, '<a:t>\n</a:t>'), 'a:t').trim())
+    .filter(Boolean)
+    .join('\n')
+}
+
+export function extractPptx(buffer: Buffer): ExtractedSection[] {
+  const archive = openZipArchive(buffer, OFFICE_ZIP_LIMITS)
+  const presentation = requirePart(archive, 'ppt/presentation.xml', 'PowerPoint')
+  const relationships = parseRelationships(readPart(archive, 'ppt/_rels/presentation.xml.rels') ?? '', 'ppt')
+
+  // Slide order comes from the presentation, not the part names
+  let slidePaths = findElements(presentation, 'p:sldId')
+    .map((slide) => relationships.get(getAttribute(slide, 'r:id') ?? ''))
+    .filter((path): path is string => !!path)
+  if (slidePaths.length === 0) {
+    slidePaths = archive.paths
+      .filter((path) => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+      .sort((a, b) => Number(a.match(/\d+/)?.[0]) - Number(b.match(/\d+/)?.[0]))
+  }
+
+  const sections: ExtractedSection[] = []
+  slidePaths.forEach((path, i) => {
+    const xml = readPart(archive, path)
+    const content = xml ? getSlideText(xml) : ''
+    if (content) sections.push({ label: `Slide ${i + 1}`, content })
+  })
+  return sections
+}
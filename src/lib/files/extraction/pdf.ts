@@ -0,0 +1,31 @@
+/**
+ * PDF text extraction with the serverless build of PDF.js
+ *
+ * Only the text layer is read; scanned documents without one have no text
+ * to extract.
+ */
+
+import { extractText, getDocumentProxy } from 'unpdf'
+import type { ExtractedSection } from './types'
+
+export async function extractPdf(buffer: Buffer): Promise<{ sections: ExtractedSection[]; pageCount: number }> {
+  let pdf
+  try {
+    pdf = await getDocumentProxy(new Uint8Array(buffer))
+  } catch (error) {
+    if (error instanceof Error && error.name === 'PasswordException') {
+      throw new Error('Password-protected PDFs are not supported')
+    }
+    throw new Error('Not a valid PDF file')
+  }
+
+  try {
+    const { totalPages, text } = await extractText(pdf, { mergePages: false })
+    const sections = text
+      .map((page, i) => ({ label: `Page ${i + 1}`, content: page.trim() }))
+      .filter((section) => section.content)
+    return { sections, pageCount: totalPages }
+  } finally {
+    await pdf.destroy()
+  }
+}
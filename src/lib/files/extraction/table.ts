@@ -0,0 +1,86 @@
+/**
+ * Tabular data as Markdown tables, which models read more reliably than
+ * raw CSV or a grid of cell references
+ */
+
+export type TableRow = string[]
+
+function formatCell(value: string): string {
+  return value.replace(/\r?\n/g, ' ').replace(/\|/g, '\\|').trim()
+}
+
+/**
+ * Render rows as a Markdown table with the first row as the header.
+ * Empty rows and trailing empty columns are dropped.
+ */
+export function toMarkdownTable(rows: TableRow[]): string {
+  const nonEmpty = rows.filter((row) => row.some((cell) => cell.trim() !== ''))
+  if (nonEmpty.length === 0) return ''
+
+  let width = 0
+  for (const row of nonEmpty) {
+    for (let i = row.length - 1; i >= width; i--) {
+      if (row[i]?.trim()) {
+        width = i + 1
+        break
+      }
+    }
+  }
+
+  const lines = nonEmpty.map((row) => {
+    const cells = Array.from({ length: width }, (_, i) => formatCell(row[i] ?? ''))
+    return `| ${cells.join(' | ')} |`
+  })
+  lines.splice(1, 0, `|${' --- |'.repeat(width)}`)
+  return lines.join('\n')
+}
+
+/**
+ * Parse RFC 4180 CSV: quoted fields may contain commas, newlines and
+ * doubled quotes
+ */
+export function parseCsv(text: string, delimiter = ','): TableRow[] {
+  const rows: TableRow[] = []
+  let row: TableRow = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          quoted = false
+        }
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
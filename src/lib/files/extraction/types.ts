@@ -0,0 +1,26 @@
+import type { FileType } from '@/types/chat'
+
+/**
+ * A page, sheet or slide of a document. Chunks never span sections, so
+ * every chunk can be traced back to where it came from.
+ */
+export interface ExtractedSection {
+  /** e.g. "Page 3", "Sheet: Revenue" or "Slide 2"; absent for flowing text */
+  label?: string
+  content: string
+}
+
+export interface ExtractedFile {
+  fileType: FileType
+  mimeType: string
+  /** The sections as one text, with their labels as headings */
+  content: string
+  /** Every section, even when `content` is truncated */
+  sections: ExtractedSection[]
+  /** Pages in a PDF */
+  pageCount?: number
+  /** Whether `content` was cut to fit the character limit */
+  truncated: boolean
+  /** Length of the full text before truncation */
+  totalChars: number
+}
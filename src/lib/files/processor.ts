@@ -1,16 +1,7 @@
-import type { FileType, FileAttachment } from '@/types/chat'
+import type { FileAttachment } from '@/types/chat'
+import { fileApi } from '@/lib/api/client/files'
 import { getFileType, getLanguage } from './types'
 
-/**
- * Result of processing a file
- */
-export interface ProcessedFile {
-  content: string
-  pageCount?: number
-  language?: string
-  truncated?: boolean
-}
-
 /**
  * Read a text file and return its content
  */
@@ -47,93 +38,6 @@ export async function readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
   })
 }
 
-/**
- * Truncate content if it exceeds max length
- */
-function truncateContent(content: string, maxLength: number = 100000): { content: string; truncated: boolean } {
-  if (content.length <= maxLength) {
-    return { content, truncated: false }
-  }
-
-  // Try to truncate at a natural break point
-  const truncated = content.slice(0, maxLength)
-  const lastNewline = truncated.lastIndexOf('\n')
-  const breakPoint = lastNewline > maxLength * 0.8 ? lastNewline : maxLength
-
-  return {
-    content: truncated.slice(0, breakPoint) + '\n\n[Content truncated...]',
-    truncated: true,
-  }
-}
-
-/**
- * Process a text or code file
- */
-async function processTextFile(file: File): Promise<ProcessedFile> {
-  const content = await readTextFile(file)
-  const { content: processedContent, truncated } = truncateContent(content)
-  const language = getLanguage(file.name)
-
-  return {
-    content: processedContent,
-    language,
-    truncated,
-  }
-}
-
-/**
- * Process a PDF file (client-side extraction)
- * Note: For full PDF support, pdf-parse or similar would be used server-side
- */
-async function processPDFFile(file: File): Promise<ProcessedFile> {
-  // Client-side PDF text extraction is limited
-  // Return a placeholder indicating server-side processing is needed
-  return {
-    content: `[PDF file: ${file.name}]\n\nThis PDF requires server-side processing for text extraction.`,
-    pageCount: undefined, // Would be extracted server-side
-    truncated: false,
-  }
-}
-
-/**
- * Process a document file (DOC/DOCX)
- */
-async function processDocumentFile(file: File): Promise<ProcessedFile> {
-  // Document files require server-side processing
-  return {
-    content: `[Document file: ${file.name}]\n\nThis document requires server-side processing for text extraction.`,
-    truncated: false,
-  }
-}
-
-/**
- * Process a file and extract its content
- */
-export async function processFile(file: File): Promise<ProcessedFile> {
-  const fileType = getFileType(file.name, file.type)
-
-  switch (fileType) {
-    case 'text':
-    case 'code':
-      return processTextFile(file)
-    case 'pdf':
-      return processPDFFile(file)
-    case 'document':
-      return processDocumentFile(file)
-    case 'image':
-      // Images are handled separately
-      return {
-        content: `[Image file: ${file.name}]`,
-        truncated: false,
-      }
-    default:
-      return {
-        content: `[File: ${file.name}]`,
-        truncated: false,
-      }
-  }
-}
-
 /**
  * Generate a unique file ID
  */
@@ -142,7 +46,9 @@ export function generateFileId(): string {
 }
 
 /**
- * Create a FileAttachment from a File object
+ * Create a FileAttachment from a File object. The file is uploaded so its
+ * text is extracted on the server; the attachment keeps the extracted text
+ * and the id it is stored under.
  */
 export async function createFileAttachment(
   file: File,
@@ -163,10 +69,13 @@ export async function createFileAttachment(
     language,
   }
 
-  if (processContent && (fileType === 'text' || fileType === 'code')) {
+  if (processContent && fileType !== 'image') {
     try {
-      const processed = await processFile(file)
-      attachment.content = processed.content
+      const uploaded = await fileApi.uploadFile(file)
+      attachment.fileId = uploaded.id
+      attachment.content = uploaded.content
+      attachment.pageCount = uploaded.pageCount
+      attachment.truncated = uploaded.truncated
       attachment.status = 'ready'
     } catch (error) {
       attachment.status = 'error'
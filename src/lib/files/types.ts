@@ -30,7 +30,6 @@ export const MIME_TYPES: Record<string, string> = {
   '.css': 'text/css',
   '.scss': 'text/x-scss',
   '.less': 'text/x-less',
-  '.html': 'text/html',
   '.vue': 'text/x-vue',
   '.svelte': 'text/x-svelte',
 
@@ -42,15 +41,22 @@ export const MIME_TYPES: Record<string, string> = {
   '.yaml': 'text/yaml',
   '.yml': 'text/yaml',
   '.xml': 'text/xml',
-  '.csv': 'text/csv',
   '.log': 'text/plain',
   '.env': 'text/plain',
   '.gitignore': 'text/plain',
   '.dockerfile': 'text/plain',
 
-  // Documents
-  '.doc': 'application/msword',
+  // Documents (extracted on the server)
   '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+
+  // Spreadsheets
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.csv': 'text/csv',
+
+  // Presentations
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
 
   // Images (for reference)
   '.png': 'image/png',
@@ -66,15 +72,20 @@ export const CODE_EXTENSIONS = new Set([
   '.js', '.jsx', '.ts', '.tsx', '.py', '.go', '.rs', '.java',
   '.cpp', '.c', '.h', '.hpp', '.rb', '.php', '.swift', '.kt',
   '.scala', '.sh', '.bash', '.zsh', '.sql', '.css', '.scss',
-  '.less', '.html', '.vue', '.svelte',
+  '.less', '.vue', '.svelte',
 ])
 
 // Text file extensions
 export const TEXT_EXTENSIONS = new Set([
   '.txt', '.md', '.markdown', '.json', '.yaml', '.yml',
-  '.xml', '.csv', '.log', '.env', '.gitignore', '.dockerfile',
+  '.xml', '.log', '.env', '.gitignore', '.dockerfile',
 ])
 
+// Office and web documents whose text is extracted on the server
+export const DOCUMENT_EXTENSIONS = new Set(['.docx', '.html', '.htm'])
+export const SPREADSHEET_EXTENSIONS = new Set(['.xlsx', '.csv'])
+export const PRESENTATION_EXTENSIONS = new Set(['.pptx'])
+
 // Extension to language mapping for syntax highlighting
 export const LANGUAGE_MAP: Record<string, string> = {
   '.js': 'javascript',
@@ -118,6 +129,8 @@ export const FILE_SIZE_LIMITS: Record<FileType, number> = {
   code: 5 * 1024 * 1024,      // 5MB
   text: 5 * 1024 * 1024,      // 5MB
   document: 10 * 1024 * 1024, // 10MB
+  spreadsheet: 10 * 1024 * 1024, // 10MB
+  presentation: 25 * 1024 * 1024, // 25MB
   image: 20 * 1024 * 1024,    // 20MB
 }
 
@@ -148,12 +161,16 @@ export function getFileType(filename: string, mimeType?: string): FileType {
   if (ext === '.pdf') return 'pdf'
   if (CODE_EXTENSIONS.has(ext)) return 'code'
   if (TEXT_EXTENSIONS.has(ext)) return 'text'
-  if (ext === '.doc' || ext === '.docx') return 'document'
+  if (DOCUMENT_EXTENSIONS.has(ext)) return 'document'
+  if (SPREADSHEET_EXTENSIONS.has(ext)) return 'spreadsheet'
+  if (PRESENTATION_EXTENSIONS.has(ext)) return 'presentation'
   if (mimeType?.startsWith('image/')) return 'image'
 
   // Fallback to MIME type
   if (mimeType) {
     if (mimeType === 'application/pdf') return 'pdf'
+    if (mimeType === 'text/html') return 'document'
+    if (mimeType === 'text/csv') return 'spreadsheet'
     if (mimeType.startsWith('text/')) return 'text'
     if (mimeType.includes('javascript') || mimeType.includes('typescript')) return 'code'
     if (mimeType.startsWith('image/')) return 'image'
@@ -202,6 +219,8 @@ export function getFileIconName(fileType: FileType): string {
     case 'pdf': return 'FileText'
     case 'code': return 'FileCode'
     case 'document': return 'FileText'
+    case 'spreadsheet': return 'FileSpreadsheet'
+    case 'presentation': return 'Presentation'
     case 'text': return 'File'
     case 'image': return 'Image'
     default: return 'File'
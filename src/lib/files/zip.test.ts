@@ -0,0 +1,121 @@
+import { deflateRawSync } from 'zlib'
+import { describe, expect, it } from 'vitest'
+import { ZipLimitError, isZipArchive, openZipArchive } from './zip'
+
+interface TestEntry {
+  path: string
+  data: Buffer
+  /** Store instead of deflating */
+  stored?: boolean
+  /** Size written to the headers, to fake a lying archive */
+  declaredSize?: number
+}
+
+/** Build a ZIP archive of stored or deflated entries (CRCs are not checked by the reader) */
+function createZip(entries: TestEntry[]): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path, 'utf8')
+    const data = entry.stored ? entry.data : deflateRawSync(entry.data)
+    const size = entry.declaredSize ?? entry.data.length
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(entry.stored ? 0 : 8, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(size, 22)
+    local.writeUInt16LE(name.length, 26)
+    locals.push(local, name, data)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(entry.stored ? 0 : 8, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(size, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, name)
+
+    offset += local.length + name.length + data.length
+  }
+
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, directory, end])
+}
+
+const text = (value: string) => Buffer.from(value, 'utf8')
+
+describe('openZipArchive', () => {
+  const archive = createZip([
+    { path: 'a.txt', data: text('deflated entry') },
+    { path: 'dir/b.txt', data: text('stored entry'), stored: true },
+  ])
+
+  it('recognizes archives', () => {
+    expect(isZipArchive(archive)).toBe(true)
+    expect(isZipArchive(text('{"json": true}'))).toBe(false)
+  })
+
+  it('lists entries without extracting them', () => {
+    expect(openZipArchive(archive).paths).toEqual(['a.txt', 'dir/b.txt'])
+  })
+
+  it('reads stored and deflated entries', () => {
+    const zip = openZipArchive(archive)
+    expect(zip.read('a.txt')?.toString()).toBe('deflated entry')
+    expect(zip.read('dir/b.txt')?.toString()).toBe('stored entry')
+    expect(zip.read('missing.txt')).toBeNull()
+  })
+
+  it('rejects entries declared larger than the entry limit', () => {
+    const zip = openZipArchive(createZip([{ path: 'big.txt', data: text('x'.repeat(1000)) }]), {
+      maxEntryBytes: 100,
+    })
+    expect(() => zip.read('big.txt')).toThrow(ZipLimitError)
+  })
+
+  it('stops inflating entries that understate their size', () => {
+    const zip = openZipArchive(
+      createZip([{ path: 'bomb.txt', data: Buffer.alloc(100_000), declaredSize: 10 }]),
+      { maxEntryBytes: 1000 }
+    )
+    expect(() => zip.read('bomb.txt')).toThrow(ZipLimitError)
+  })
+
+  it('rejects stored entries larger than the entry limit', () => {
+    const zip = openZipArchive(
+      createZip([{ path: 'stored.bin', data: Buffer.alloc(500), stored: true, declaredSize: 10 }]),
+      { maxEntryBytes: 100 }
+    )
+    expect(() => zip.read('stored.bin')).toThrow(ZipLimitError)
+  })
+
+  it('counts every read towards the total limit', () => {
+    const zip = openZipArchive(
+      createZip([
+        { path: 'one.txt', data: text('x'.repeat(60)) },
+        { path: 'two.txt', data: text('y'.repeat(60)) },
+      ]),
+      { maxEntryBytes: 100, maxTotalBytes: 100 }
+    )
+
+    expect(zip.read('one.txt')).toHaveLength(60)
+    expect(() => zip.read('two.txt')).toThrow(ZipLimitError)
+  })
+
+  it('rejects data that is not an archive', () => {
+    expect(() => openZipArchive(text('not a zip file at all, just some text'))).toThrow(
+      'end of central directory not found'
+    )
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * Minimal ZIP reader
+ *
+ * Used for ChatGPT and Claude export archives and for Office documents,
+ * which are ZIP packages of XML parts. Only stored and deflated entries are
+ * supported, which covers both; ZIP64 archives are rejected.
+ */
+
+import { inflateRawSync } from 'zlib'
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+
+/** Default upper bound on a single extracted entry, guarding against zip bombs */
+const MAX_ENTRY_BYTES = 512 * 1024 * 1024
+
+/**
+ * Bounds on what is extracted from an archive. Untrusted uploads should set
+ * both well below the defaults, which are sized for export archives.
+ */
+export interface ZipLimits {
+  /** Largest single entry, uncompressed */
+  maxEntryBytes?: number
+  /** Largest total of all entries extracted from the archive */
+  maxTotalBytes?: number
+}
+
+/**
+ * An archive whose central directory has been read: entry paths are known
+ * without inflating anything, and every read counts toward the limits
+ */
+export interface ZipArchive {
+  /** Paths of all entries, in archive order */
+  paths: string[]
+  /** Extract an entry, or null if there is none with that path */
+  read: (path: string) => Buffer | null
+}
+
+/**
+ * Thrown when an entry or the archive would inflate past its limits
+ */
+export class ZipLimitError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ZipLimitError'
+  }
+}
+
+interface ZipEntry {
+  path: string
+  method: number
+  compressedSize: number
+  size: number
+  localOffset: number
+}
+
+export function isZipArchive(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The record is 22 bytes plus a comment of at most 64 KB
+  const stop = Math.max(0, buffer.length - 22 - 0xffff)
+  for (let offset = buffer.length - 22; offset >= stop; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset
+  }
+  throw new Error('Invalid ZIP archive: end of central directory not found')
+}
+
+function readCentralDirectory(buffer: Buffer): ZipEntry[] {
+  const entries: ZipEntry[] = []
+  const eocd = findEndOfCentralDirectory(buffer)
+  const entryCount = buffer.readUInt16LE(eocd + 10)
+  let offset = buffer.readUInt32LE(eocd + 16)
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Invalid ZIP archive: corrupt central directory')
+    }
+
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    entries.push({
+      path: buffer.toString('utf8', offset + 46, offset + 46 + nameLength),
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      size: buffer.readUInt32LE(offset + 24),
+      localOffset: buffer.readUInt32LE(offset + 42),
+    })
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+/**
+ * Extract an entry of at most `maxBytes`. The declared size is checked up
+ * front, and inflation is capped in case it lies.
+ */
+function extractEntry(buffer: Buffer, entry: ZipEntry, maxBytes: number): Buffer {
+  const { path, method, compressedSize, size, localOffset } = entry
+  if (compressedSize === 0xffffffff || size === 0xffffffff || localOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported')
+  }
+  if (size > maxBytes || (method === METHOD_STORED && compressedSize > maxBytes)) {
+    throw new ZipLimitError(`${path} is too large to extract`)
+  }
+  if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+    throw new Error('Invalid ZIP archive: corrupt local header')
+  }
+
+  // The local header has its own name and extra field lengths
+  const dataStart =
+    localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28)
+  const data = buffer.subarray(dataStart, dataStart + compressedSize)
+
+  switch (method) {
+    case METHOD_STORED:
+      return data
+    case METHOD_DEFLATE:
+      try {
+        return inflateRawSync(data, { maxOutputLength: maxBytes })
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw new ZipLimitError(`${path} is too large to extract`)
+        }
+        throw error
+      }
+    default:
+      throw new Error(`Unsupported ZIP compression method ${method}`)
+  }
+}
+
+/**
+ * Read the central directory of an archive, for listing and extracting
+ * entries within the given limits
+ */
+export function openZipArchive(buffer: Buffer, limits: ZipLimits = {}): ZipArchive {
+  const entries = readCentralDirectory(buffer)
+  const maxEntryBytes = limits.maxEntryBytes ?? MAX_ENTRY_BYTES
+  let remainingBytes = limits.maxTotalBytes ?? Infinity
+
+  return {
+    paths: entries.map((entry) => entry.path),
+    read(path) {
+      const entry = entries.find((candidate) => candidate.path === path)
+      if (!entry) return null
+
+      if (remainingBytes <= 0) throw new ZipLimitError('Archive is too large to extract')
+      const data = extractEntry(buffer, entry, Math.min(maxEntryBytes, remainingBytes))
+      remainingBytes -= data.length
+      return data
+    },
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Project Knowledge Base
+ *
+ * Documents uploaded to a project are chunked and embedded with the same
+ * backend as message search. Every chat request in the project retrieves
+ * the chunks nearest to the latest user message, passes them to the model
+ * as numbered sources and returns the ones it cites as citations.
+ *
+ * Any file the extraction service reads is supported. PDFs, spreadsheets
+ * and presentations are chunked per page, sheet or slide so each excerpt
+ * says where it came from.
+ */
+
+import { dbLogger } from '@/lib/logging'
+import { prisma } from '@/lib/db'
+import {
+  findNearestProjectChunks,
+  getProjectDocumentsWithoutEmbeddings,
+  hasReadyProjectDocuments,
+  saveProjectDocumentChunks,
+  updateProjectDocumentStatus,
+  type ProjectDocumentRecord,
+} from '@/lib/db/services/project-document'
+import {
+  chunkSections,
+  chunkText,
+  embedChunks,
+  embedQuery,
+  getEmbeddingProvider,
+  type EmbeddingOwner,
+} from '@/lib/embeddings'
+import { extractFile, type ExtractedSection } from '@/lib/files/extraction'
+import { parseCitationMarkers } from '@/lib/utils/citationParser'
+import type { ProjectDocument } from '@/generated/prisma'
+import type { Citation, FileType } from '@/types'
+
+/** Largest file accepted for a knowledge base */
+export const MAX_DOCUMENT_BYTES = 25 * 1024 * 1024
+
+/** Chunks passed to the model per request */
+const RETRIEVAL_LIMIT = 6
+
+/** Cosine distance above which a chunk is not considered relevant */
+const MAX_RETRIEVAL_DISTANCE = 0.6
+
+const SNIPPET_CHARS = 240
+
+const KNOWLEDGE_PROMPT = `The following excerpts come from documents in this project's knowledge base. Use them when they help answer the user, and cite each excerpt you rely on with its number in square brackets, for example [1] or [1,2]. If none of them are relevant, answer normally without mentioning them.`
+
+export interface ExtractedDocument {
+  content: string
+  /** JSON array of pages, sheets or slides, chunked separately */
+  sections: string
+  fileType: FileType
+  mimeType: string
+}
+
+/**
+ * Read the text of an uploaded file. Throws with a message suitable for the
+ * user when the file cannot be indexed.
+ */
+export async function extractDocumentText(file: File): Promise<ExtractedDocument> {
+  const extracted = await extractFile(Buffer.from(await file.arrayBuffer()), file.name, file.type)
+  return {
+    content: extracted.content,
+    sections: JSON.stringify(extracted.sections),
+    fileType: extracted.fileType,
+    mimeType: extracted.mimeType,
+  }
+}
+
+function getDocumentChunks(document: ProjectDocument) {
+  if (document.sections) {
+    try {
+      return chunkSections(JSON.parse(document.sections) as ExtractedSection[])
+    } catch {
+      // Fall back to the flat text below
+    }
+  }
+  return chunkText(document.content)
+}
+
+/**
+ * Chunk, embed and store a document, marking it ready or failed.
+ * Never throws; the failure is recorded on the document instead.
+ */
+export async function indexProjectDocument(
+  document: ProjectDocument,
+  owner: EmbeddingOwner
+): Promise<ProjectDocumentRecord> {
+  const provider = getEmbeddingProvider()
+  if (!provider) {
+    return updateProjectDocumentStatus(document.id, {
+      status: 'failed',
+      error: 'No embedding backend is configured',
+    })
+  }
+
+  try {
+    const embedded = await embedChunks(provider, getDocumentChunks(document), owner)
+    await saveProjectDocumentChunks(document, provider.model, embedded)
+    return updateProjectDocumentStatus(document.id, {
+      status: 'ready',
+      chunkCount: embedded.length,
+      error: null,
+    })
+  } catch (error) {
+    dbLogger.warn('Failed to index project document', {
+      documentId: document.id,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    })
+    return updateProjectDocumentStatus(document.id, {
+      status: 'failed',
+      error: 'The document could not be indexed',
+    })
+  }
+}
+
+export interface RetrievedKnowledge {
+  /** Instructions and numbered excerpts to add to the system prompt */
+  prompt: string
+  /** One per excerpt, numbered as in the prompt */
+  citations: Citation[]
+}
+
+/**
+ * Find the excerpts of a project's documents most relevant to `query`.
+ * Returns null when the project has no indexed documents or nothing is close enough.
+ */
+export async function retrieveProjectKnowledge(
+  projectId: string,
+  query: string,
+  owner: EmbeddingOwner
+): Promise<RetrievedKnowledge | null> {
+  if (!query.trim() || !getEmbeddingProvider()) return null
+  if (!(await hasReadyProjectDocuments(projectId))) return null
+
+  const embedding = await embedQuery(query, { ...owner, projectId })
+  if (!embedding) return null
+
+  const chunks = (
+    await findNearestProjectChunks(projectId, embedding.model, embedding.vector, RETRIEVAL_LIMIT)
+  ).filter((chunk) => chunk.distance <= MAX_RETRIEVAL_DISTANCE)
+  if (chunks.length === 0) return null
+
+  const citations: Citation[] = chunks.map((chunk, i) => ({
+    id: `${chunk.documentId}:${chunk.chunkIndex}`,
+    number: i + 1,
+    text: chunk.content,
+    source: {
+      type: 'project',
+      title: chunk.documentName,
+      url: `/api/projects/${projectId}/documents/${chunk.documentId}`,
+    },
+    relevanceScore: 1 - chunk.distance,
+    snippet:
+      chunk.content.length > SNIPPET_CHARS
+        ? `${chunk.content.slice(0, SNIPPET_CHARS).trimEnd()}...`
+        : chunk.content,
+  }))
+
+  const excerpts = chunks.map((chunk, i) => `[${i + 1}] ${chunk.documentName}\n${chunk.content}`)
+  return {
+    prompt: [KNOWLEDGE_PROMPT, ...excerpts].join('\n\n'),
+    citations,
+  }
+}
+
+/**
+ * The citations an answer actually refers to. Numbers are kept as they
+ * were, so the markers in the answer still match.
+ */
+export function getCitedSources(content: string, citations: Citation[]): Citation[] {
+  const cited = new Set(parseCitationMarkers(content).map((marker) => marker.number))
+  return citations.filter((citation) => cited.has(citation.number))
+}
+
+/**
+ * Embed documents that have no vectors for the configured model, e.g.
+ * after switching EMBEDDING_PROVIDER. Returns the number of documents processed.
+ */
+export async function backfillProjectDocuments(
+  options: { batchSize?: number; onBatch?: (processed: number) => void } = {}
+): Promise<number> {
+  const provider = getEmbeddingProvider()
+  if (!provider) return 0
+
+  const batchSize = options.batchSize ?? 20
+  let processed = 0
+  let after: { id: string; createdAt: Date } | undefined
+
+  for (;;) {
+    const documents = await getProjectDocumentsWithoutEmbeddings(provider.model, batchSize, after)
+    if (documents.length === 0) return processed
+
+    const projects = await prisma.project.findMany({
+      where: { id: { in: Array.from(new Set(documents.map((d) => d.projectId))) } },
+      select: { id: true, workspaceId: true },
+    })
+    const workspaces = new Map(projects.map((p) => [p.id, p.workspaceId]))
+
+    for (const document of documents) {
+      await indexProjectDocument(document, {
+        userId: document.uploadedById,
+        workspaceId: workspaces.get(document.projectId),
+        projectId: document.projectId,
+      })
+    }
+
+    processed += documents.length
+    after = documents[documents.length - 1]
+    options.onBatch?.(processed)
+  }
+}
@@ -189,6 +189,8 @@ export interface ChatCompletionLogData {
   model: string
   inputTokens?: number
   outputTokens?: number
+  cacheReadTokens?: number
+  cacheWriteTokens?: number
   duration?: number
   toolCalls?: number
   success: boolean
@@ -0,0 +1,16 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys } from './keys'
+import { agentApi } from '@/lib/api/client/agents'
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+export function useAgentCatalog() {
+  return useQuery({
+    queryKey: queryKeys.agents.all,
+    queryFn: () => agentApi.getAgents(),
+  })
+}
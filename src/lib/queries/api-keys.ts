@@ -0,0 +1,52 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { queryKeys } from './keys'
+import { apiKeyApi } from '@/lib/api/client/api-keys'
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+export function useApiKeys() {
+  return useQuery({
+    queryKey: queryKeys.apiKeys.all,
+    queryFn: () => apiKeyApi.getApiKeys(),
+  })
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+export function useCreateApiKey() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: apiKeyApi.createApiKey.bind(apiKeyApi),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.apiKeys.all })
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : 'Failed to create API key'
+      toast.error(message)
+    },
+  })
+}
+
+export function useRevokeApiKey() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (keyId: string) => apiKeyApi.revokeApiKey(keyId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.apiKeys.all })
+      toast.success('API key revoked')
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : 'Failed to revoke API key'
+      toast.error(message)
+    },
+  })
+}
@@ -0,0 +1,74 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { queryKeys } from './keys'
+import { assistantApi } from '@/lib/api/client/assistants'
+import type { AssistantInput } from '@/types'
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+export function useAssistants() {
+  return useQuery({
+    queryKey: queryKeys.assistants.all,
+    queryFn: () => assistantApi.getAssistants(),
+  })
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+export function useCreateAssistant() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: AssistantInput) => assistantApi.createAssistant(input),
+    onSuccess: (assistant) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.assistants.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.agents.all })
+      toast.success(`Created ${assistant.name}`)
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : 'Failed to create assistant'
+      toast.error(message)
+    },
+  })
+}
+
+export function useUpdateAssistant() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: string; input: Partial<AssistantInput> }) =>
+      assistantApi.updateAssistant(id, input),
+    onSuccess: (assistant) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.assistants.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.agents.all })
+      toast.success(`Saved ${assistant.name}`)
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : 'Failed to update assistant'
+      toast.error(message)
+    },
+  })
+}
+
+export function useDeleteAssistant() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => assistantApi.deleteAssistant(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.assistants.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.agents.all })
+      toast.success('Assistant deleted')
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : 'Failed to delete assistant'
+      toast.error(message)
+    },
+  })
+}
@@ -4,7 +4,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { toast } from 'sonner'
 import { queryKeys } from './keys'
 import { conversationApi } from '@/lib/api/client/conversations'
-import type { Conversation, Message } from '@/types'
+import type { Conversation, ConversationSearchMode, Message } from '@/types'
 
 // ============================================================================
 // Queries
@@ -67,6 +67,26 @@ export function useRecentConversations(
   })
 }
 
+/**
+ * Top matches for a quick search (e.g. the command palette). Callers
+ * debounce `query`; an empty query disables the search.
+ */
+export function useConversationSearch(params: {
+  userId: string
+  workspaceId: string | null
+  query: string
+  mode?: ConversationSearchMode
+  limit?: number
+}) {
+  const { userId, workspaceId, query, mode = 'hybrid', limit = 5 } = params
+  return useQuery({
+    queryKey: queryKeys.conversations.search({ userId, workspaceId, query, mode }),
+    queryFn: () => conversationApi.searchConversations(userId, workspaceId, query, { mode, limit }),
+    enabled: !!userId && query.trim().length > 0,
+    placeholderData: (previous) => previous,
+  })
+}
+
 // ============================================================================
 // Mutations
 // ============================================================================
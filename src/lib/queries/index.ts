@@ -11,6 +11,8 @@ export {
   useWorkspaceMembers,
   useCreateWorkspace,
   useUpdateWorkspace,
+  useUpdateWorkspaceBudgets,
+  useUpdateWorkspaceToolPolicies,
   useDeleteWorkspace,
   useUpdateMemberRole,
   useRemoveMember,
@@ -43,6 +45,7 @@ export {
   useMessages,
   usePinnedConversations,
   useRecentConversations,
+  useConversationSearch,
   useCreateConversation,
   useUpdateConversation,
   useDeleteConversation,
@@ -53,3 +56,51 @@ export {
   useUpdateMessageInCache,
   useInvalidateConversation,
 } from './conversations'
+
+// Share Link Queries & Mutations
+export {
+  useConversationShares,
+  useSharedConversation,
+  useCreateShare,
+  useRevokeShare,
+  useForkSharedConversation,
+} from './shares'
+
+// Project Knowledge Base Queries & Mutations
+export {
+  useProjectDocuments,
+  useUploadProjectDocument,
+  useDeleteProjectDocument,
+} from './projects'
+
+// Custom Assistant Queries & Mutations
+export {
+  useAssistants,
+  useCreateAssistant,
+  useUpdateAssistant,
+  useDeleteAssistant,
+} from './assistants'
+
+// MCP Server Queries & Mutations
+export {
+  useMcpServers,
+  useMcpCatalog,
+  useWorkspaceMcpTools,
+  useRefreshMcpCatalog,
+  useCreateMcpServer,
+  useUpdateMcpServer,
+  useDeleteMcpServer,
+} from './mcp'
+
+// Agent Catalogue Queries
+export { useAgentCatalog } from './agents'
+
+// API Key Queries & Mutations
+export {
+  useApiKeys,
+  useCreateApiKey,
+  useRevokeApiKey,
+} from './api-keys'
+
+// Usage Queries
+export { useUsageReport } from './usage'
@@ -49,6 +49,8 @@ export const queryKeys = {
     recent: (userId: string, workspaceId: string | null) =>
       ['conversations', 'recent', userId, workspaceId] as const,
     branches: (conversationId: string) => ['conversations', 'branches', conversationId] as const,
+    search: (params: { userId: string; workspaceId: string | null; query: string; mode: string }) =>
+      ['conversations', 'search', params] as const,
   },
 
   // Projects
@@ -56,6 +58,7 @@ export const queryKeys = {
     all: ['projects'] as const,
     list: (userId: string) => ['projects', 'list', userId] as const,
     detail: (projectId: string) => ['projects', 'detail', projectId] as const,
+    documents: (projectId: string) => ['projects', 'documents', projectId] as const,
   },
 
   // Folders
@@ -64,4 +67,39 @@ export const queryKeys = {
     list: (projectId: string) => ['folders', 'list', projectId] as const,
     detail: (folderId: string) => ['folders', 'detail', folderId] as const,
   },
+
+  // Share links
+  shares: {
+    all: ['shares'] as const,
+    list: (conversationId: string) => ['shares', 'list', conversationId] as const,
+    byToken: (token: string) => ['shares', 'token', token] as const,
+  },
+
+  // Custom assistants
+  assistants: {
+    all: ['assistants'] as const,
+  },
+
+  // MCP servers of a workspace and the tools they offer
+  mcp: {
+    all: ['mcp'] as const,
+    servers: (workspaceId: string) => ['mcp', 'servers', workspaceId] as const,
+    catalog: (workspaceId: string) => ['mcp', 'catalog', workspaceId] as const,
+  },
+
+  // Agent catalogue across providers
+  agents: {
+    all: ['agents'] as const,
+  },
+
+  // API keys
+  apiKeys: {
+    all: ['apiKeys'] as const,
+  },
+
+  // Usage
+  usage: {
+    all: ['usage'] as const,
+    report: (query: Record<string, string>) => ['usage', 'report', query] as const,
+  },
 } as const
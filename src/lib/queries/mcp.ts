@@ -0,0 +1,138 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { queryKeys } from './keys'
+import { mcpApi } from '@/lib/api/client/mcp'
+import { toolRegistry, createMcpApiHandler, removeMcpTools, syncMcpTools } from '@/lib/tools'
+import type { McpServerInput } from '@/types'
+
+// The server reuses what it discovered for a minute, so polling faster is wasted
+const CATALOG_STALE_TIME = 60 * 1000
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+export function useMcpServers(workspaceId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.mcp.servers(workspaceId ?? ''),
+    queryFn: () => mcpApi.getServers(workspaceId!),
+    enabled: !!workspaceId,
+  })
+}
+
+/**
+ * Health of the workspace's MCP servers and the tools they offer
+ */
+export function useMcpCatalog(workspaceId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.mcp.catalog(workspaceId ?? ''),
+    queryFn: () => mcpApi.getCatalog(workspaceId!),
+    enabled: !!workspaceId,
+    staleTime: CATALOG_STALE_TIME,
+  })
+}
+
+/**
+ * Catalog of the active workspace, with its tools registered in the
+ * browser's tool registry so chats can offer and run them
+ */
+export function useWorkspaceMcpTools(workspaceId: string | null) {
+  const catalog = useMcpCatalog(workspaceId)
+  const tools = catalog.data?.tools
+
+  useEffect(() => {
+    if (workspaceId && tools) {
+      syncMcpTools(toolRegistry, tools, createMcpApiHandler(workspaceId))
+    } else {
+      removeMcpTools(toolRegistry)
+    }
+  }, [workspaceId, tools])
+
+  return catalog
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Contact every server of the workspace again, e.g. after one came back up
+ */
+export function useRefreshMcpCatalog() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (workspaceId: string) => mcpApi.getCatalog(workspaceId, true),
+    onSuccess: (catalog, workspaceId) => {
+      queryClient.setQueryData(queryKeys.mcp.catalog(workspaceId), catalog)
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : 'Failed to check MCP servers'
+      toast.error(message)
+    },
+  })
+}
+
+export function useCreateMcpServer() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ workspaceId, input }: { workspaceId: string; input: McpServerInput }) =>
+      mcpApi.createServer(workspaceId, input),
+    onSuccess: (server, { workspaceId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.mcp.servers(workspaceId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.mcp.catalog(workspaceId) })
+      toast.success(`Added ${server.name}`)
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : 'Failed to add MCP server'
+      toast.error(message)
+    },
+  })
+}
+
+export function useUpdateMcpServer() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      workspaceId,
+      serverId,
+      input,
+    }: {
+      workspaceId: string
+      serverId: string
+      input: Partial<McpServerInput>
+    }) => mcpApi.updateServer(workspaceId, serverId, input),
+    onSuccess: (server, { workspaceId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.mcp.servers(workspaceId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.mcp.catalog(workspaceId) })
+      toast.success(`Saved ${server.name}`)
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : 'Failed to update MCP server'
+      toast.error(message)
+    },
+  })
+}
+
+export function useDeleteMcpServer() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ workspaceId, serverId }: { workspaceId: string; serverId: string }) =>
+      mcpApi.deleteServer(workspaceId, serverId),
+    onSuccess: (_, { workspaceId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.mcp.servers(workspaceId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.mcp.catalog(workspaceId) })
+      toast.success('MCP server removed')
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : 'Failed to remove MCP server'
+      toast.error(message)
+    },
+  })
+}
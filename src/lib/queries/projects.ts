@@ -0,0 +1,60 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { queryKeys } from './keys'
+import { projectApi } from '@/lib/api/client/projects'
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+export function useProjectDocuments(projectId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.projects.documents(projectId ?? ''),
+    queryFn: () => projectApi.getDocuments(projectId!),
+    enabled: !!projectId,
+  })
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+export function useUploadProjectDocument() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ projectId, file }: { projectId: string; file: File }) =>
+      projectApi.uploadDocument(projectId, file),
+    onSuccess: (document) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects.documents(document.projectId) })
+      if (document.status === 'failed') {
+        toast.error(`${document.name} could not be indexed`)
+      } else {
+        toast.success(`${document.name} added to the knowledge base`)
+      }
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : 'Failed to upload document'
+      toast.error(message)
+    },
+  })
+}
+
+export function useDeleteProjectDocument() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ projectId, documentId }: { projectId: string; documentId: string }) =>
+      projectApi.deleteDocument(projectId, documentId),
+    onSuccess: (_, { projectId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects.documents(projectId) })
+      toast.success('Document removed')
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : 'Failed to delete document'
+      toast.error(message)
+    },
+  })
+}
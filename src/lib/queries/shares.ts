@@ -0,0 +1,80 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { queryKeys } from './keys'
+import { shareApi } from '@/lib/api/client/shares'
+import type { CreateShareInput } from '@/types'
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+export function useConversationShares(conversationId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.shares.list(conversationId ?? ''),
+    queryFn: () => shareApi.getShares(conversationId!),
+    enabled: !!conversationId,
+  })
+}
+
+export function useSharedConversation(token: string | null) {
+  return useQuery({
+    queryKey: queryKeys.shares.byToken(token ?? ''),
+    queryFn: () => shareApi.getSharedConversation(token!),
+    enabled: !!token,
+    retry: false,
+  })
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+export function useCreateShare() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: CreateShareInput) => shareApi.createShare(input),
+    onSuccess: (share) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.shares.list(share.conversationId) })
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : 'Failed to create share link'
+      toast.error(message)
+    },
+  })
+}
+
+export function useRevokeShare() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ conversationId, shareId }: { conversationId: string; shareId: string }) =>
+      shareApi.revokeShare(conversationId, shareId),
+    onSuccess: (_, { conversationId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.shares.list(conversationId) })
+      toast.success('Share link revoked')
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : 'Failed to revoke share link'
+      toast.error(message)
+    },
+  })
+}
+
+export function useForkSharedConversation() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ token, workspaceId }: { token: string; workspaceId: string | null }) =>
+      shareApi.forkSharedConversation(token, workspaceId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.conversations.all })
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : 'Failed to fork conversation'
+      toast.error(message)
+    },
+  })
+}
@@ -0,0 +1,18 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { queryKeys } from './keys'
+import { toUsageSearchParams, usageApi } from '@/lib/api/client/usage'
+import type { UsageQuery } from '@/types'
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+export function useUsageReport(query: UsageQuery) {
+  return useQuery({
+    queryKey: queryKeys.usage.report(toUsageSearchParams(query)),
+    queryFn: () => usageApi.getReport(query),
+    placeholderData: (previous) => previous,
+  })
+}
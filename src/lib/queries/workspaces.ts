@@ -4,7 +4,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { toast } from 'sonner'
 import { queryKeys } from './keys'
 import { workspaceApi, type WorkspaceInvitation, type InvitationDetails } from '@/lib/api/client/workspaces'
-import type { Workspace, WorkspaceMember, WorkspaceRole, User } from '@/types'
+import type { ToolPolicies, Workspace, WorkspaceBudgetPolicy, WorkspaceMember, WorkspaceRole, User } from '@/types'
 
 // ============================================================================
 // Queries
@@ -105,6 +105,40 @@ export function useUpdateWorkspace() {
   })
 }
 
+export function useUpdateWorkspaceBudgets() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ workspaceId, budgets }: { workspaceId: string; budgets: WorkspaceBudgetPolicy }) =>
+      workspaceApi.updateWorkspace(workspaceId, { settings: { budgets } }),
+    onSuccess: (workspace) => {
+      queryClient.setQueryData(queryKeys.workspaces.detail(workspace.id), workspace)
+      toast.success('Budgets saved')
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : 'Failed to save budgets'
+      toast.error(message)
+    },
+  })
+}
+
+export function useUpdateWorkspaceToolPolicies() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ workspaceId, toolPolicies }: { workspaceId: string; toolPolicies: ToolPolicies }) =>
+      workspaceApi.updateWorkspace(workspaceId, { settings: { toolPolicies } }),
+    onSuccess: (workspace) => {
+      queryClient.setQueryData(queryKeys.workspaces.detail(workspace.id), workspace)
+      toast.success('Tool policies saved')
+    },
+    onError: (error) => {
+      const message = error instanceof Error ? error.message : 'Failed to save tool policies'
+      toast.error(message)
+    },
+  })
+}
+
 export function useDeleteWorkspace() {
   const queryClient = useQueryClient()
 
@@ -16,10 +16,16 @@ import type {
   ChatCompletionMessage,
   OndoBotStructuredResult,
   Citation,
+  FallbackInfo,
+  ToolConfirmationDecision,
+  ToolConfirmationRequest,
+  ToolPolicies,
 } from '@/types'
 import { generateId } from '@/lib/utils'
+import { getModelConfig } from '@/lib/api/config/providers'
 import { chatClient, type RoutingInfo } from '@/lib/api/client'
 import { conversationApi } from '@/lib/api/client/conversations'
+import { workspaceApi } from '@/lib/api/client/workspaces'
 import { executeToolCalls as executeToolCallsService, getToolsConfig } from './tool-execution'
 
 // ============================================================================
@@ -35,6 +41,10 @@ export interface StreamingConfig {
   modelId: string
   tools?: string[]
   toolChoice?: 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } }
+  /** Project instructions, sent as the system prompt of every request in the loop */
+  systemPrompt?: string
+  /** Workspace whose tool policies apply */
+  workspaceId?: string
   routingOptions?: {
     autoRouting?: boolean
     confidenceThreshold?: number
@@ -51,7 +61,11 @@ export interface StreamingCallbacks {
   onMessagePersisted: (clientId: string, dbId: string) => void
   onToolsExecuting: (toolCalls: ToolCall[]) => void
   onToolsComplete: (results: ToolExecutionRecord[]) => void
+  /** Pauses the tool loop until the user approves or rejects each call */
+  onToolConfirmation: (requests: ToolConfirmationRequest[]) => Promise<ToolConfirmationDecision[]>
   onRoutingInfo: (info: RoutingInfo) => void
+  onFallback: (info: FallbackInfo) => void
+  onBudgetWarning: (message: string) => void
   onError: (error: string) => void
 }
 
@@ -66,13 +80,17 @@ export interface StreamingResult {
 // ============================================================================
 
 /**
- * Determine provider from model ID
+ * Determine provider from model ID, using the model catalog when the model is
+ * known and ID prefixes for dynamic models (Glean agents, local models, ...)
  */
 export function getProviderFromModelId(modelId: string): AIProvider {
+  const model = getModelConfig(modelId)
+  if (model) return model.provider
   if (modelId.startsWith('gpt-')) return 'openai'
   if (modelId.startsWith('glean-')) return 'glean'
   if (modelId.startsWith('dust-')) return 'dust'
   if (modelId.startsWith('ondobot-')) return 'ondobot'
+  if (modelId.startsWith('local/')) return 'local'
   return 'anthropic'
 }
 
@@ -82,7 +100,9 @@ export function getProviderFromModelId(modelId: string): AIProvider {
 export function buildApiMessages(messages: Message[]): ChatMessage[] {
   return messages.map((msg): ChatMessage => {
     const images = msg.attachments?.filter((a) => a.type === 'image') as ImageAttachment[] | undefined
-    const files = msg.attachments?.filter((a) => a.type === 'file') as FileAttachment[] | undefined
+    // Uploaded files are sent by id; the server fills in their stored text
+    const files = (msg.attachments?.filter((a) => a.type === 'file') as FileAttachment[] | undefined)
+      ?.map((f) => (f.fileId ? { ...f, content: undefined } : f))
 
     return {
       role: msg.role as MessageRole,
@@ -129,6 +149,7 @@ export function createAssistantMessage(
       confidence?: number
       wasAutoRouted?: boolean
       routedBy?: string
+      decisionId?: string
     }
     // OndoBot structured result data for rich UI rendering
     ondoBotStructured?: OndoBotStructuredResult
@@ -176,6 +197,20 @@ export function createToolMessage(
   }
 }
 
+/**
+ * Tool policies of a workspace, read when tools are called so an admin's
+ * change applies to the next call
+ */
+async function getWorkspaceToolPolicies(workspaceId?: string): Promise<ToolPolicies | undefined> {
+  if (!workspaceId) return undefined
+  try {
+    return (await workspaceApi.getWorkspace(workspaceId)).toolPolicies
+  } catch (error) {
+    console.error('Failed to load tool policies:', error)
+    return undefined
+  }
+}
+
 // ============================================================================
 // Persistence Functions
 // ============================================================================
@@ -190,6 +225,7 @@ export async function persistMessage(
     provider?: AIProvider
     inputTokens?: number
     outputTokens?: number
+    estimatedCost?: number
     toolCalls?: ToolCall[]
   }
 ): Promise<string> {
@@ -202,6 +238,7 @@ export async function persistMessage(
         provider: options?.provider,
         inputTokens: options?.inputTokens,
         outputTokens: options?.outputTokens,
+        estimatedCost: options?.estimatedCost,
         toolCalls: options?.toolCalls as unknown as Record<string, unknown>[],
         metadata: {
           ...message.metadata as Record<string, unknown>,
@@ -218,7 +255,15 @@ export async function persistMessage(
           url: a.url,
           name: a.name,
           ...(a.type === 'image' && { width: (a as ImageAttachment).width, height: (a as ImageAttachment).height }),
-          ...(a.type === 'file' && { size: (a as FileAttachment).size, mimeType: (a as FileAttachment).mimeType }),
+          ...(a.type === 'file' && {
+            size: (a as FileAttachment).size,
+            mimeType: (a as FileAttachment).mimeType,
+            fileId: (a as FileAttachment).fileId,
+            fileType: (a as FileAttachment).fileType,
+            language: (a as FileAttachment).language,
+            pageCount: (a as FileAttachment).pageCount,
+            truncated: (a as FileAttachment).truncated,
+          }),
         })),
       }),
     })
@@ -240,7 +285,7 @@ export async function streamChat(
   config: StreamingConfig,
   callbacks: StreamingCallbacks
 ): Promise<StreamingResult> {
-  const { conversationId, provider, modelId, tools = [], toolChoice, routingOptions } = config
+  const { conversationId, provider, modelId, tools = [], toolChoice, systemPrompt, workspaceId, routingOptions } = config
   let apiMessages = [...config.messages]
   const toolsConfig = getToolsConfig(tools)
 
@@ -262,6 +307,7 @@ export async function streamChat(
           options: {
             tools: toolsConfig,
             tool_choice: toolChoice,
+            systemPrompt,
           },
         },
         {
@@ -280,6 +326,12 @@ export async function streamChat(
             routingInfo = info
             callbacks.onRoutingInfo(info)
           },
+          onFallback: (info) => {
+            callbacks.onFallback(info)
+          },
+          onBudgetWarning: (message) => {
+            callbacks.onBudgetWarning(message)
+          },
           onDone: async (response) => {
             try {
               // Check if response contains tool calls
@@ -297,6 +349,7 @@ export async function streamChat(
                     confidence: routingInfo.confidence,
                     wasAutoRouted: routingInfo.wasAutoRouted,
                     routedBy: routingInfo.routedBy,
+                    decisionId: routingInfo.decisionId,
                   } : undefined,
                   ondoBotStructured: response.metadata.ondoBotStructured as OndoBotStructuredResult | undefined,
                   citations: response.citations,
@@ -307,9 +360,10 @@ export async function streamChat(
                 // Persist assistant message
                 const assistantClientId = assistantMessage.id
                 persistMessage(conversationId, assistantMessage, {
-                  provider,
+                  provider: response.metadata.provider ?? provider,
                   inputTokens: response.usage.inputTokens,
                   outputTokens: response.usage.outputTokens,
+                  estimatedCost: response.usage.estimatedCost,
                   toolCalls: receivedToolCalls,
                 })
                   .then((dbId) => callbacks.onMessagePersisted(assistantClientId, dbId))
@@ -317,7 +371,11 @@ export async function streamChat(
 
                 // Execute tool calls
                 callbacks.onToolsExecuting(receivedToolCalls)
-                const toolResults = await executeToolCallsService(receivedToolCalls, { parallel: true })
+                const toolResults = await executeToolCallsService(receivedToolCalls, {
+                  parallel: true,
+                  policies: await getWorkspaceToolPolicies(workspaceId),
+                  confirm: callbacks.onToolConfirmation,
+                })
                 callbacks.onToolsComplete(toolResults)
 
                 // Create tool response messages
@@ -362,6 +420,7 @@ export async function streamChat(
                     confidence: routingInfo.confidence,
                     wasAutoRouted: routingInfo.wasAutoRouted,
                     routedBy: routingInfo.routedBy,
+                    decisionId: routingInfo.decisionId,
                   } : undefined,
                   ondoBotStructured: response.metadata.ondoBotStructured as OndoBotStructuredResult | undefined,
                   citations: response.citations,
@@ -374,9 +433,10 @@ export async function streamChat(
                 // Persist final message
                 const finalClientId = finalMessage.id
                 persistMessage(conversationId, finalMessage, {
-                  provider,
+                  provider: response.metadata.provider ?? provider,
                   inputTokens: response.usage.inputTokens,
                   outputTokens: response.usage.outputTokens,
+                  estimatedCost: response.usage.estimatedCost,
                 })
                   .then((dbId) => callbacks.onMessagePersisted(finalClientId, dbId))
                   .catch(console.error)
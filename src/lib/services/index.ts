@@ -1,3 +1,4 @@
 // Service modules
 export * from './tool-execution'
 export * from './chat-streaming'
+export * from './model-comparison'
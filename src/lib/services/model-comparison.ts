@@ -0,0 +1,96 @@
+/**
+ * Model Comparison Service
+ *
+ * Sends the same conversation to several models at once so their answers can
+ * be compared side by side. Each model gets its own /api/chat stream with
+ * auto-routing disabled, so the requested model (or its fallback) answers.
+ * Tools are not sent: executing the same tool calls once per model would
+ * repeat their side effects.
+ */
+
+import type { ComparisonResult } from '@/types'
+import { chatClient } from '@/lib/api/client'
+import { getProviderFromModelId, type ChatMessage } from './chat-streaming'
+
+export interface ComparisonConfig {
+  conversationId: string
+  messages: ChatMessage[]
+  modelIds: string[]
+  signal?: AbortSignal
+}
+
+export interface ComparisonCallbacks {
+  onUpdate: (modelId: string, update: Partial<ComparisonResult>) => void
+}
+
+async function streamModel(
+  config: ComparisonConfig,
+  modelId: string,
+  callbacks: ComparisonCallbacks
+): Promise<void> {
+  const startTime = Date.now()
+  const provider = getProviderFromModelId(modelId)
+  let content = ''
+  let thinking = ''
+  let firstTokenMs: number | undefined
+
+  const markFirstToken = () => {
+    if (firstTokenMs === undefined) {
+      firstTokenMs = Date.now() - startTime
+      callbacks.onUpdate(modelId, { firstTokenMs })
+    }
+  }
+
+  await chatClient.stream(
+    {
+      conversationId: config.conversationId,
+      messages: config.messages,
+      provider,
+      model: modelId,
+    },
+    {
+      onStart: () => {
+        callbacks.onUpdate(modelId, { status: 'streaming', provider })
+      },
+      onDelta: (delta) => {
+        markFirstToken()
+        content += delta
+        callbacks.onUpdate(modelId, { content })
+      },
+      onThinkingDelta: (delta) => {
+        markFirstToken()
+        thinking += delta
+        callbacks.onUpdate(modelId, { thinking })
+      },
+      onFallback: (info) => {
+        callbacks.onUpdate(modelId, { answeredBy: info.model, provider: info.provider })
+      },
+      onDone: (response) => {
+        callbacks.onUpdate(modelId, {
+          status: 'done',
+          content: response.message.content ?? content,
+          provider: response.metadata.provider,
+          latencyMs: Date.now() - startTime,
+          usage: response.usage,
+          citations: response.citations,
+        })
+      },
+      onError: (error) => {
+        callbacks.onUpdate(modelId, { status: 'error', error, latencyMs: Date.now() - startTime })
+      },
+    },
+    { signal: config.signal },
+    { autoRouting: false }
+  )
+}
+
+/**
+ * Stream one conversation to several models in parallel.
+ * Resolves once every stream has finished, failed or been cancelled.
+ */
+export async function streamComparison(
+  config: ComparisonConfig,
+  callbacks: ComparisonCallbacks
+): Promise<void> {
+  await Promise.all(config.modelIds.map((modelId) => streamModel(config, modelId, callbacks)))
+}
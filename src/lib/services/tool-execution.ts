@@ -6,8 +6,23 @@
  */
 
 import { toast } from 'sonner'
-import { toolRegistry } from '@/lib/tools'
-import type { ToolCall, ToolExecutionRecord } from '@/types'
+import {
+  toolRegistry,
+  getToolSideEffect,
+  getToolPolicy,
+  disabledToolResult,
+  rejectedToolResult,
+} from '@/lib/tools'
+import type {
+  ToolCall,
+  ToolExecutionRecord,
+  ToolConfirmationDecision,
+  ToolConfirmationOutcome,
+  ToolConfirmationRequest,
+  ToolExecutionContext,
+  ToolPolicies,
+  ToolResult,
+} from '@/types'
 
 export interface ParsedToolCall {
   id: string
@@ -17,6 +32,13 @@ export interface ParsedToolCall {
 
 export interface ToolExecutionOptions {
   parallel?: boolean
+  /** Workspace tool policies, by tool name */
+  policies?: ToolPolicies
+  /**
+   * Ask the user about calls that need approval; resolves with one decision
+   * per request, in order. Without it those calls are rejected.
+   */
+  confirm?: (requests: ToolConfirmationRequest[]) => Promise<ToolConfirmationDecision[]>
 }
 
 /**
@@ -47,19 +69,88 @@ export function parseToolCallArguments(tc: ToolCall): ParsedToolCall {
   }
 }
 
+function createSkippedRecord(
+  call: ParsedToolCall,
+  result: ToolResult,
+  confirmation?: ToolConfirmationOutcome
+): ToolExecutionRecord {
+  const now = Date.now()
+  return {
+    id: call.id,
+    toolName: call.name,
+    arguments: call.arguments,
+    result,
+    startedAt: now,
+    completedAt: now,
+    duration: 0,
+    confirmation,
+  }
+}
+
 /**
- * Execute multiple tool calls
+ * Execute multiple tool calls, applying workspace policies: disabled tools
+ * are refused and calls that need approval wait for the user
  */
 export async function executeToolCalls(
   toolCalls: ToolCall[],
   options: ToolExecutionOptions = {}
 ): Promise<ToolExecutionRecord[]> {
-  const { parallel = true } = options
+  const { parallel = true, policies, confirm } = options
 
   try {
     const parsedCalls = toolCalls.map(parseToolCallArguments)
-    const results = await toolRegistry.executeToolCalls(parsedCalls, { parallel })
-    return results
+    const records = new Map<string, ToolExecutionRecord>()
+    const confirmations = new Map<string, ToolConfirmationOutcome>()
+    const runnable: ParsedToolCall[] = []
+    const requests: ToolConfirmationRequest[] = []
+
+    for (const call of parsedCalls) {
+      const sideEffect = getToolSideEffect(toolRegistry.getTool(call.name), call.arguments)
+      const policy = getToolPolicy(call.name, sideEffect, policies)
+      if (policy === 'disabled') {
+        records.set(call.id, createSkippedRecord(call, disabledToolResult(call.name)))
+      } else if (policy === 'ask') {
+        requests.push({ toolCall: call, sideEffect })
+      } else {
+        runnable.push(call)
+      }
+    }
+
+    if (requests.length > 0) {
+      const decisions = confirm
+        ? await confirm(requests)
+        : requests.map((): ToolConfirmationDecision => ({ approved: false, reason: 'Confirmation is not available' }))
+
+      requests.forEach(({ toolCall }, index) => {
+        const decision = decisions[index]
+        if (decision?.approved) {
+          const edited = !!decision.arguments
+          confirmations.set(toolCall.id, { approved: true, edited })
+          runnable.push(edited ? { ...toolCall, arguments: decision.arguments! } : toolCall)
+        } else {
+          const reason = decision?.reason
+          records.set(
+            toolCall.id,
+            createSkippedRecord(toolCall, rejectedToolResult(reason), { approved: false, reason })
+          )
+        }
+      })
+    }
+
+    // Approved calls carry the approval, so routes that enforce 'ask' let them through
+    const run = (calls: ParsedToolCall[], context?: ToolExecutionContext) =>
+      toolRegistry.executeToolCalls(calls, { parallel, context })
+    const automatic = runnable.filter((call) => !confirmations.has(call.id))
+    const approved = runnable.filter((call) => confirmations.has(call.id))
+    const results = parallel
+      ? (await Promise.all([run(automatic), run(approved, { confirmed: true })])).flat()
+      : [...(await run(automatic)), ...(await run(approved, { confirmed: true }))]
+    for (const result of results) {
+      records.set(result.id, { ...result, confirmation: confirmations.get(result.id) })
+    }
+
+    // Keep the model's order so each result follows its call
+    return parsedCalls.map((call) => records.get(call.id)!)
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Tool execution failed'
     console.error('Tool execution error:', error)
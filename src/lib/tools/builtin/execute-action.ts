@@ -8,6 +8,18 @@ import type { ToolResult } from '@/types/tools'
 
 export type ActionSystem = 'ondobot' | 'hubspot' | 'jira' | 'slack'
 
+// Actions that only look things up; anything else changes the external system
+const READ_ONLY_ACTIONS = new Set([
+  'search_ownership',
+  'list_owner_areas',
+  'search_candidates',
+  'get_candidate_profile',
+  'list_tools',
+  'query_data',
+  'get_status',
+  'list_automations',
+])
+
 interface ActionResponse {
   success: boolean
   data?: unknown
@@ -39,7 +51,7 @@ export const executeActionTool = createTool(
     },
     required: ['system', 'action'],
   },
-  async (args): Promise<ToolResult> => {
+  async (args, context): Promise<ToolResult> => {
     try {
       const system = args.system as ActionSystem
       const action = args.action as string
@@ -78,7 +90,7 @@ export const executeActionTool = createTool(
         body = { system, action, parameters }
       }
 
-      const response = await fetch(endpoint, {
+      const response = await (context?.fetch ?? fetch)(endpoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -124,7 +136,9 @@ export const executeActionTool = createTool(
         error: error instanceof Error ? error.message : 'Action execution failed',
       }
     }
-  }
+  },
+  (args) => (READ_ONLY_ACTIONS.has(args.action as string) ? 'read' : 'write'),
+  { usesAppApi: true }
 )
 
 /**
@@ -34,7 +34,7 @@ export const generateImageTool = createTool(
     },
     required: ['prompt'],
   },
-  async (args): Promise<ToolResult> => {
+  async (args, context): Promise<ToolResult> => {
     try {
       const prompt = args.prompt as string
       const size = (args.size as string) || '1024x1024'
@@ -50,7 +50,7 @@ export const generateImageTool = createTool(
       }
 
       // Call the API endpoint
-      const response = await fetch('/api/images/generate', {
+      const response = await (context?.fetch ?? fetch)('/api/images/generate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ prompt, size, quality, style }),
@@ -85,5 +85,7 @@ export const generateImageTool = createTool(
         error: error instanceof Error ? error.message : 'Image generation failed',
       }
     }
-  }
+  },
+  undefined,
+  { usesAppApi: true }
 )
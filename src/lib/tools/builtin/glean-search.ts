@@ -27,7 +27,7 @@ export const gleanSearchTool = createTool(
     },
     required: ['query'],
   },
-  async (args): Promise<ToolResult> => {
+  async (args, context): Promise<ToolResult> => {
     try {
       const query = args.query as string
       const datasource = args.datasource as string | undefined
@@ -42,7 +42,7 @@ export const gleanSearchTool = createTool(
       }
 
       // Call the API endpoint
-      const response = await fetch('/api/glean/search', {
+      const response = await (context?.fetch ?? fetch)('/api/glean/search', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ query, datasource, maxResults }),
@@ -105,5 +105,7 @@ export const gleanSearchTool = createTool(
         error: error instanceof Error ? error.message : 'Glean search failed',
       }
     }
-  }
+  },
+  undefined,
+  { usesAppApi: true }
 )
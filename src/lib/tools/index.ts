@@ -6,6 +6,31 @@
 // Export registry
 export { toolRegistry, createTool, ToolRegistry } from './registry'
 
+// Export policies
+export {
+  TOOL_POLICIES,
+  getToolSideEffect,
+  getToolPolicy,
+  disabledToolResult,
+  rejectedToolResult,
+  parseToolPolicies,
+} from './policy'
+
+// Export MCP tool helpers
+export {
+  MCP_TOOL_SEPARATOR,
+  MCP_SERVER_NAME_PATTERN,
+  MCP_RESOURCE_TOOL,
+  MCP_PROMPT_TOOL,
+  getMcpToolName,
+  isMcpToolName,
+  createMcpApiHandler,
+  createMcpTool,
+  removeMcpTools,
+  syncMcpTools,
+} from './mcp'
+export type { McpToolHandler } from './mcp'
+
 // Export built-in tools
 export {
   builtinTools,
@@ -25,5 +50,12 @@ export type {
   ParsedToolCall,
   ToolExecutionRecord,
   ToolExecutionOptions,
+  ToolExecutionContext,
   FunctionParameters,
+  ToolSideEffect,
+  ToolPolicy,
+  ToolPolicies,
+  ToolConfirmationRequest,
+  ToolConfirmationDecision,
+  ToolConfirmationOutcome,
 } from '@/types/tools'
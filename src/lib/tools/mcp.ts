@@ -0,0 +1,104 @@
+/**
+ * MCP Tools
+ *
+ * Tools, resources and prompts of a workspace's MCP servers are offered to
+ * the model as namespaced tools: `<server>__<tool>`, plus
+ * `<server>__read_resource` and `<server>__get_prompt` for servers with
+ * resources or prompts. The servers are only reachable from the app server,
+ * so in the browser the handlers go through the workspace's MCP API routes;
+ * the server-side tool loop passes handlers that call the servers directly.
+ */
+
+import { createTool } from './registry'
+import type { ToolRegistry } from './registry'
+import type { McpToolSummary } from '@/types/mcp'
+import type { ToolDefinition, ToolExecutionContext, ToolResult } from '@/types/tools'
+
+export const MCP_TOOL_SEPARATOR = '__'
+
+/** Longest tool name the providers accept */
+const MAX_TOOL_NAME_LENGTH = 64
+
+/** Server names double as tool namespaces */
+export const MCP_SERVER_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/
+
+export const MCP_RESOURCE_TOOL = 'read_resource'
+export const MCP_PROMPT_TOOL = 'get_prompt'
+
+/**
+ * Namespaced name of a server's tool, limited to the characters and length
+ * providers accept
+ */
+export function getMcpToolName(serverName: string, toolName: string): string {
+  const name = toolName.replace(/[^a-zA-Z0-9_-]/g, '_')
+  return `${serverName}${MCP_TOOL_SEPARATOR}${name}`.slice(0, MAX_TOOL_NAME_LENGTH)
+}
+
+/**
+ * Built-in tool names never contain the separator
+ */
+export function isMcpToolName(name: string): boolean {
+  return name.includes(MCP_TOOL_SEPARATOR)
+}
+
+export type McpToolHandler = (
+  tool: McpToolSummary,
+  args: Record<string, unknown>,
+  context?: ToolExecutionContext
+) => Promise<ToolResult>
+
+/**
+ * Handler that runs MCP tools through the workspace's API route. The route
+ * refuses tools that need approval unless the user approved the call.
+ */
+export function createMcpApiHandler(workspaceId: string): McpToolHandler {
+  return async (tool, args, context) => {
+    const response = await fetch(`/api/workspaces/${workspaceId}/mcp-tools/call`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: tool.name, arguments: args, confirmed: context?.confirmed === true }),
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      return {
+        success: false,
+        output: '',
+        error: error.error || `MCP tool "${tool.name}" failed`,
+      }
+    }
+
+    const { data } = await response.json()
+    return data as ToolResult
+  }
+}
+
+export function createMcpTool(tool: McpToolSummary, handler: McpToolHandler): ToolDefinition {
+  return createTool(
+    tool.name,
+    tool.description,
+    tool.parameters,
+    (args, context) => handler(tool, args, context),
+    tool.sideEffect
+  )
+}
+
+export function removeMcpTools(registry: ToolRegistry): void {
+  for (const tool of registry.getAllTools()) {
+    if (isMcpToolName(tool.name)) registry.unregister(tool.name)
+  }
+}
+
+/**
+ * Replace the MCP tools of a registry with those of a workspace
+ */
+export function syncMcpTools(
+  registry: ToolRegistry,
+  tools: McpToolSummary[],
+  handler: McpToolHandler
+): void {
+  removeMcpTools(registry)
+  for (const tool of tools) {
+    registry.register(createMcpTool(tool, handler))
+  }
+}
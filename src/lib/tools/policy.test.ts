@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import {
+  disabledToolResult,
+  getToolPolicy,
+  getToolSideEffect,
+  parseToolPolicies,
+  rejectedToolResult,
+} from './policy'
+import type { ToolDefinition } from '@/types/tools'
+
+const tool = (sideEffect: ToolDefinition['sideEffect']) => ({ sideEffect }) as ToolDefinition
+
+describe('getToolSideEffect', () => {
+  it('treats unknown and undeclared tools as read-only', () => {
+    expect(getToolSideEffect(undefined, {})).toBe('read')
+    expect(getToolSideEffect(tool(undefined), {})).toBe('read')
+  })
+
+  it('uses a fixed or per-call side effect', () => {
+    expect(getToolSideEffect(tool('destructive'), {})).toBe('destructive')
+    const perCall = tool((args) => (args.delete ? 'destructive' : 'write'))
+    expect(getToolSideEffect(perCall, { delete: true })).toBe('destructive')
+    expect(getToolSideEffect(perCall, {})).toBe('write')
+  })
+})
+
+describe('getToolPolicy', () => {
+  it('runs read-only calls and asks for the rest by default', () => {
+    expect(getToolPolicy('search', 'read')).toBe('auto')
+    expect(getToolPolicy('write_file', 'write')).toBe('ask')
+    expect(getToolPolicy('delete_file', 'destructive')).toBe('ask')
+  })
+
+  it('prefers the workspace policy for the tool', () => {
+    const policies = { search: 'disabled' as const, write_file: 'auto' as const }
+    expect(getToolPolicy('search', 'read', policies)).toBe('disabled')
+    expect(getToolPolicy('write_file', 'write', policies)).toBe('auto')
+    expect(getToolPolicy('delete_file', 'destructive', policies)).toBe('ask')
+  })
+})
+
+describe('tool results', () => {
+  it('names the disabled tool', () => {
+    expect(disabledToolResult('search')).toEqual({
+      success: false,
+      output: '',
+      error: 'Tool "search" is disabled in this workspace',
+    })
+  })
+
+  it('includes the rejection reason when given', () => {
+    expect(rejectedToolResult(' not now ').error).toBe('The user rejected this tool call: not now')
+    expect(rejectedToolResult('  ').error).toBe('The user rejected this tool call')
+    expect(rejectedToolResult().error).toBe('The user rejected this tool call')
+  })
+})
+
+describe('parseToolPolicies', () => {
+  it('accepts known policies', () => {
+    expect(parseToolPolicies({ search: 'auto', write_file: 'ask', jira__delete: 'disabled' })).toEqual({
+      policies: { search: 'auto', write_file: 'ask', jira__delete: 'disabled' },
+    })
+    expect(parseToolPolicies({})).toEqual({ policies: {} })
+  })
+
+  it.each([null, [], 'auto'])('rejects %j', (input) => {
+    expect(parseToolPolicies(input)).toEqual({ error: 'toolPolicies must be an object' })
+  })
+
+  it('rejects unknown policies', () => {
+    expect(parseToolPolicies({ search: 'always' })).toEqual({
+      error: 'toolPolicies.search must be one of: ask, auto, disabled',
+    })
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * Tool Policies
+ *
+ * Decides whether a tool call runs straight away, waits for the user's
+ * approval, or is refused. Tools declare a side-effect level; calls that
+ * write or destroy ask first unless a workspace admin set a policy for the
+ * tool. Shared by the browser and the server-side tool loop.
+ */
+
+import type {
+  ToolDefinition,
+  ToolPolicies,
+  ToolPolicy,
+  ToolResult,
+  ToolSideEffect,
+} from '@/types/tools'
+
+export const TOOL_POLICIES: ToolPolicy[] = ['ask', 'auto', 'disabled']
+
+/**
+ * Side-effect level of one call; unknown tools are treated as read-only
+ * since they fail without running
+ */
+export function getToolSideEffect(
+  tool: ToolDefinition | undefined,
+  args: Record<string, unknown>
+): ToolSideEffect {
+  if (!tool?.sideEffect) return 'read'
+  return typeof tool.sideEffect === 'function' ? tool.sideEffect(args) : tool.sideEffect
+}
+
+/**
+ * Policy applied to a call: the workspace's policy for the tool, else ask
+ * for anything that is not read-only
+ */
+export function getToolPolicy(
+  name: string,
+  sideEffect: ToolSideEffect,
+  policies?: ToolPolicies
+): ToolPolicy {
+  return policies?.[name] ?? (sideEffect === 'read' ? 'auto' : 'ask')
+}
+
+/**
+ * Result returned to the model for a call the workspace disabled
+ */
+export function disabledToolResult(name: string): ToolResult {
+  return {
+    success: false,
+    output: '',
+    error: `Tool "${name}" is disabled in this workspace`,
+  }
+}
+
+/**
+ * Result returned to the model for a call the user rejected
+ */
+export function rejectedToolResult(reason?: string): ToolResult {
+  return {
+    success: false,
+    output: '',
+    error: reason?.trim()
+      ? `The user rejected this tool call: ${reason.trim()}`
+      : 'The user rejected this tool call',
+  }
+}
+
+/**
+ * Validate tool policies from a request body.
+ * Returns the policies, or an error message.
+ */
+export function parseToolPolicies(value: unknown): { policies: ToolPolicies } | { error: string } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'toolPolicies must be an object' }
+  }
+
+  const policies: ToolPolicies = {}
+  for (const [name, policy] of Object.entries(value)) {
+    if (!TOOL_POLICIES.includes(policy as ToolPolicy)) {
+      return { error: `toolPolicies.${name} must be one of: ${TOOL_POLICIES.join(', ')}` }
+    }
+    policies[name] = policy as ToolPolicy
+  }
+  return { policies }
+}
@@ -149,7 +149,7 @@ class ToolRegistry {
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
         const result = await Promise.race([
-          tool.handler(args),
+          tool.handler(args, options.context),
           new Promise<ToolResult>((_, reject) =>
             setTimeout(() => reject(new Error('Tool execution timeout')), timeout)
           ),
@@ -229,9 +229,11 @@ export function createTool(
   name: string,
   description: string,
   parameters: ToolDefinition['parameters'],
-  handler: ToolDefinition['handler']
+  handler: ToolDefinition['handler'],
+  sideEffect?: ToolDefinition['sideEffect'],
+  options: Pick<ToolDefinition, 'usesAppApi'> = {}
 ): ToolDefinition {
-  return { name, description, parameters, handler }
+  return { name, description, parameters, handler, sideEffect, ...options }
 }
 
 export { ToolRegistry }
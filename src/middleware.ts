@@ -9,8 +9,9 @@ export default withAuth(
   {
     callbacks: {
       authorized: ({ token, req }) => {
-        // Allow public routes
-        const publicPaths = ['/auth/signin', '/auth/error', '/api/auth']
+        // Allow public routes. The /api/v1 gateway authenticates with API keys itself,
+        // and share links are readable without an account.
+        const publicPaths = ['/auth/signin', '/auth/error', '/api/auth', '/api/v1/', '/share/', '/api/share/']
         const isPublicPath = publicPaths.some((path) =>
           req.nextUrl.pathname.startsWith(path)
         )
@@ -2,20 +2,34 @@ import { useMemo } from 'react'
 import { create } from 'zustand'
 import { devtools, persist } from 'zustand/middleware'
 import { toast } from 'sonner'
-import type { Conversation, Message, Citation, SendMessageInput, AIProvider, ToolCall, ToolExecutionRecord } from '@/types'
+import type {
+  Conversation,
+  Message,
+  Citation,
+  SendMessageInput,
+  AdoptAnswerInput,
+  AIProvider,
+  ToolCall,
+  ToolExecutionRecord,
+  ToolConfirmationDecision,
+  ToolConfirmationRequest,
+} from '@/types'
 import { generateId } from '@/lib/utils'
+import { getModelConfig } from '@/lib/api/config/providers'
 import { conversationApi } from '@/lib/api/client/conversations'
 import { registerBuiltinTools } from '@/lib/tools'
 import {
   streamChat,
   buildApiMessages,
   createUserMessage,
+  createAssistantMessage,
   getProviderFromModelId,
   persistMessage,
 } from '@/lib/services/chat-streaming'
 import { executeToolCalls as executeToolCallsService } from '@/lib/services/tool-execution'
 import { useRoutingStore } from './routingStore'
 import { useUserStore } from './userStore'
+import { useProjectStore } from './projectStore'
 
 // Helper to get current user ID from user store
 function getCurrentUserId(): string {
@@ -27,9 +41,17 @@ function getCurrentUserId(): string {
   return user.id
 }
 
+// Helper to get the settings of the project a conversation belongs to
+function getProjectSettings(projectId?: string | null) {
+  return projectId ? useProjectStore.getState().projects[projectId]?.settings : undefined
+}
+
 // Register built-in tools on module load
 registerBuiltinTools()
 
+// Resolvers of tool calls waiting for the user, by tool call ID (kept out of state: not serializable)
+const toolConfirmationResolvers = new Map<string, (decision: ToolConfirmationDecision) => void>()
+
 interface ChatState {
   conversations: Record<string, Conversation>
   activeConversationId: string | null
@@ -43,8 +65,12 @@ interface ChatState {
   isInitialized: boolean
   // Tool-related state
   enabledTools: string[]
+  /** Tools of conversations started in a project with its own tools; these override enabledTools */
+  conversationTools: Record<string, string[]>
   isExecutingTools: boolean
   pendingToolCalls: ToolCall[]
+  /** Tool calls waiting for the user's approval, by tool call ID */
+  toolConfirmations: Record<string, ToolConfirmationRequest>
 }
 
 interface ChatActions {
@@ -59,8 +85,11 @@ interface ChatActions {
   fetchUserConversations: (userId: string, workspaceId: string | null, projectId?: string) => Promise<void>
   loadConversationMessages: (conversationId: string) => Promise<void>
   // Tool-related actions
+  /** Set the tools of the active conversation if it has its own, else the default tools */
   setEnabledTools: (toolNames: string[]) => void
   executeToolCalls: (toolCalls: ToolCall[]) => Promise<ToolExecutionRecord[]>
+  requestToolConfirmations: (requests: ToolConfirmationRequest[]) => Promise<ToolConfirmationDecision[]>
+  resolveToolConfirmation: (toolCallId: string, decision: ToolConfirmationDecision) => void
   // Folder & organization actions
   moveConversationToFolder: (conversationId: string, folderId: string | null, projectId?: string | null) => Promise<void>
   moveConversationToProject: (conversationId: string, projectId: string | null) => Promise<void>
@@ -69,6 +98,8 @@ interface ChatActions {
   // Branching actions
   branchConversation: (sourceId: string, branchPointMessageId: string, title?: string) => Promise<string>
   loadBranchConversations: (parentId: string) => Promise<void>
+  // Model comparison
+  adoptAnswer: (input: AdoptAnswerInput) => Promise<string>
   // Search
   searchConversations: (query: string, workspaceId?: string | null, projectId?: string) => Conversation[]
 }
@@ -91,18 +122,26 @@ export const useChatStore = create<ChatStore>()(
         isInitialized: false,
         // Tool-related initial state
         enabledTools: [],
+        conversationTools: {},
         isExecutingTools: false,
         pendingToolCalls: [],
+        toolConfirmations: {},
 
         actions: {
           setActiveConversation: (id, branchId = null) => {
             set({ activeConversationId: id, activeBranchId: branchId })
           },
 
-          createConversation: async (title = 'New conversation', projectId, modelId, folderId = null, workspaceId = null) => {
+          createConversation: async (title = 'New conversation', projectId, requestedModelId, folderId = null, workspaceId = null) => {
             const tempId = `conv-${generateId()}`
             const now = new Date()
 
+            // Conversations started in a project inherit its default model and tools;
+            // the tools apply to this conversation only
+            const projectSettings = getProjectSettings(projectId)
+            const modelId = requestedModelId ?? projectSettings?.defaultModel
+            const projectTools = projectSettings?.tools
+
             const userId = getCurrentUserId()
             const conversation: Conversation = {
               id: tempId,
@@ -126,6 +165,9 @@ export const useChatStore = create<ChatStore>()(
             set((state) => ({
               conversations: { ...state.conversations, [tempId]: conversation },
               messagesByConversation: { ...state.messagesByConversation, [tempId]: [] },
+              conversationTools: projectTools
+                ? { ...state.conversationTools, [tempId]: projectTools }
+                : state.conversationTools,
               activeConversationId: tempId,
               isSyncing: true,
             }))
@@ -139,17 +181,19 @@ export const useChatStore = create<ChatStore>()(
                 workspaceId,
                 title,
                 model: modelId || 'claude-sonnet-4-20250514',
-                provider: 'anthropic',
+                provider: modelId ? getProviderFromModelId(modelId) : 'anthropic',
               })
 
               // Replace temp with real - API client already maps to correct Conversation type
               set((state) => {
                 const { [tempId]: _, ...restConvs } = state.conversations
                 const { [tempId]: __, ...restMsgs } = state.messagesByConversation
+                const { [tempId]: tools, ...restTools } = state.conversationTools
 
                 return {
                   conversations: { ...restConvs, [created.id]: created },
                   messagesByConversation: { ...restMsgs, [created.id]: [] },
+                  conversationTools: tools ? { ...restTools, [created.id]: tools } : restTools,
                   activeConversationId: created.id,
                   isSyncing: false,
                 }
@@ -161,9 +205,11 @@ export const useChatStore = create<ChatStore>()(
               set((state) => {
                 const { [tempId]: _, ...restConvs } = state.conversations
                 const { [tempId]: __, ...restMsgs } = state.messagesByConversation
+                const { [tempId]: ___, ...restTools } = state.conversationTools
                 return {
                   conversations: restConvs,
                   messagesByConversation: restMsgs,
+                  conversationTools: restTools,
                   activeConversationId: null,
                   isSyncing: false,
                 }
@@ -211,7 +257,11 @@ export const useChatStore = create<ChatStore>()(
 
             try {
               await conversationApi.deleteConversation(id)
-              set({ isSyncing: false })
+              set((state) => {
+                const conversationTools = { ...state.conversationTools }
+                for (const rid of [id, ...branchIds]) delete conversationTools[rid]
+                return { conversationTools, isSyncing: false }
+              })
             } catch (error) {
               // Rollback main conversation and branches
               set((state) => {
@@ -287,7 +337,7 @@ export const useChatStore = create<ChatStore>()(
           },
 
           sendMessage: async (input) => {
-            const { activeConversationId, conversations, messagesByConversation, enabledTools } = get()
+            const { activeConversationId, conversations, messagesByConversation, enabledTools, conversationTools } = get()
             // Use provided conversationId or fall back to activeConversationId
             const targetConversationId = input.conversationId || activeConversationId
             if (!targetConversationId) return
@@ -365,8 +415,9 @@ export const useChatStore = create<ChatStore>()(
                 messages: apiMessages,
                 provider,
                 modelId,
-                tools: input.tools || enabledTools,
+                tools: input.tools || (conversationTools[targetConversationId] ?? enabledTools),
                 toolChoice: input.tool_choice,
+                workspaceId: conversation.workspaceId,
                 routingOptions,
               },
               {
@@ -422,6 +473,7 @@ export const useChatStore = create<ChatStore>()(
                 onToolsComplete: () => {
                   set({ isExecutingTools: false, pendingToolCalls: [] })
                 },
+                onToolConfirmation: (requests) => get().actions.requestToolConfirmations(requests),
                 onRoutingInfo: (info) => {
                   useRoutingStore.getState().actions.setLastRouteInfo({
                     intent: info.intent,
@@ -430,6 +482,14 @@ export const useChatStore = create<ChatStore>()(
                     wasAutoRouted: info.wasAutoRouted,
                   })
                 },
+                onFallback: (info) => {
+                  const requested = getModelConfig(info.requestedModel)?.name ?? info.requestedModel
+                  const answered = getModelConfig(info.model)?.name ?? info.model
+                  toast.info(`${requested} is unavailable, answered with ${answered}`)
+                },
+                onBudgetWarning: (message) => {
+                  toast.warning(message, { id: 'budget-warning' })
+                },
                 onError: (error) => {
                   console.error('Chat error:', error)
                   const errorMessage: Message = {
@@ -559,14 +619,22 @@ export const useChatStore = create<ChatStore>()(
           },
 
           setEnabledTools: (toolNames: string[]) => {
-            set({ enabledTools: toolNames })
+            set((state) => {
+              const id = state.activeConversationId
+              return id && state.conversationTools[id]
+                ? { conversationTools: { ...state.conversationTools, [id]: toolNames } }
+                : { enabledTools: toolNames }
+            })
           },
 
           executeToolCalls: async (toolCalls: ToolCall[]) => {
             set({ isExecutingTools: true, pendingToolCalls: toolCalls })
 
             try {
-              const results = await executeToolCallsService(toolCalls, { parallel: true })
+              const results = await executeToolCallsService(toolCalls, {
+                parallel: true,
+                confirm: get().actions.requestToolConfirmations,
+              })
               set({ isExecutingTools: false, pendingToolCalls: [] })
               return results
             } catch (error) {
@@ -575,6 +643,34 @@ export const useChatStore = create<ChatStore>()(
             }
           },
 
+          requestToolConfirmations: (requests) => {
+            set((state) => ({
+              toolConfirmations: {
+                ...state.toolConfirmations,
+                ...Object.fromEntries(requests.map((request) => [request.toolCall.id, request])),
+              },
+            }))
+
+            return Promise.all(
+              requests.map(
+                (request) =>
+                  new Promise<ToolConfirmationDecision>((resolve) => {
+                    toolConfirmationResolvers.set(request.toolCall.id, resolve)
+                  })
+              )
+            )
+          },
+
+          resolveToolConfirmation: (toolCallId, decision) => {
+            const resolve = toolConfirmationResolvers.get(toolCallId)
+            toolConfirmationResolvers.delete(toolCallId)
+            set((state) => {
+              const { [toolCallId]: _, ...toolConfirmations } = state.toolConfirmations
+              return { toolConfirmations }
+            })
+            resolve?.(decision)
+          },
+
           moveConversationToFolder: async (conversationId, folderId, projectId) => {
             const existing = get().conversations[conversationId]
             if (!existing) return
@@ -790,6 +886,88 @@ export const useChatStore = create<ChatStore>()(
             }
           },
 
+          adoptAnswer: async ({ conversationId, content, attachments, result, asBranch }) => {
+            // Branch after the last existing message so the question and answer
+            // are added to the branch only
+            let targetConversationId = conversationId
+            const existingMessages = get().messagesByConversation[conversationId] || []
+            if (asBranch && existingMessages.length > 0) {
+              const lastMessage = existingMessages[existingMessages.length - 1]
+              targetConversationId = await get().actions.branchConversation(conversationId, lastMessage.id)
+            }
+
+            const conversation = get().conversations[targetConversationId]
+            if (!conversation) return targetConversationId
+
+            const modelId = result.answeredBy ?? result.modelId
+            const userMessage = createUserMessage(targetConversationId, content, attachments)
+            const assistantMessage = createAssistantMessage(targetConversationId, result.content, {
+              model: modelId,
+              tokenCount: result.usage?.outputTokens,
+              processingTimeMs: result.latencyMs,
+              citations: result.citations,
+              thinking: result.thinking,
+            })
+            const now = new Date()
+            const isFirstMessage = conversation.messageCount === 0
+            const title = content.slice(0, 50) + (content.length > 50 ? '...' : '')
+
+            set((state) => ({
+              messagesByConversation: {
+                ...state.messagesByConversation,
+                [targetConversationId]: [
+                  ...(state.messagesByConversation[targetConversationId] || []),
+                  userMessage,
+                  assistantMessage,
+                ],
+              },
+              conversations: {
+                ...state.conversations,
+                [targetConversationId]: {
+                  ...state.conversations[targetConversationId],
+                  messageCount: state.conversations[targetConversationId].messageCount + 2,
+                  lastMessageAt: now,
+                  updatedAt: now,
+                  title: isFirstMessage ? title : state.conversations[targetConversationId].title,
+                },
+              },
+            }))
+
+            if (isFirstMessage) {
+              conversationApi.updateConversation(targetConversationId, { title }).catch(console.error)
+            }
+
+            const replaceId = (clientId: string, dbId: string) => {
+              set((state) => {
+                const messages = state.messagesByConversation[targetConversationId] || []
+                return {
+                  messagesByConversation: {
+                    ...state.messagesByConversation,
+                    [targetConversationId]: messages.map((msg) =>
+                      msg.id === clientId ? { ...msg, id: dbId } : msg
+                    ),
+                  },
+                }
+              })
+            }
+
+            // Persist in order so the question precedes the answer
+            persistMessage(targetConversationId, userMessage)
+              .then((dbId) => {
+                replaceId(userMessage.id, dbId)
+                return persistMessage(targetConversationId, assistantMessage, {
+                  provider: result.provider ?? getProviderFromModelId(modelId),
+                  inputTokens: result.usage?.inputTokens,
+                  outputTokens: result.usage?.outputTokens,
+                  estimatedCost: result.usage?.estimatedCost,
+                })
+              })
+              .then((dbId) => replaceId(assistantMessage.id, dbId))
+              .catch(console.error)
+
+            return targetConversationId
+          },
+
           loadBranchConversations: async (parentId) => {
             try {
               const branches = await conversationApi.getBranches(parentId)
@@ -850,6 +1028,7 @@ export const useChatStore = create<ChatStore>()(
           activeConversationId: state.activeConversationId,
           activeBranchId: state.activeBranchId,
           enabledTools: state.enabledTools,
+          conversationTools: state.conversationTools,
         }),
       }
     ),
@@ -889,12 +1068,17 @@ export const useStreamingMessage = () => useChatStore((state) => state.streaming
 
 export const useStreamingThinking = () => useChatStore((state) => state.streamingThinking)
 
-export const useEnabledTools = () => useChatStore((state) => state.enabledTools)
+export const useEnabledTools = () =>
+  useChatStore((state) =>
+    (state.activeConversationId && state.conversationTools[state.activeConversationId]) || state.enabledTools
+  )
 
 export const useIsExecutingTools = () => useChatStore((state) => state.isExecutingTools)
 
 export const usePendingToolCalls = () => useChatStore((state) => state.pendingToolCalls)
 
+export const useToolConfirmations = () => useChatStore((state) => state.toolConfirmations)
+
 export const useChatLoading = (): boolean => {
   return useChatStore((state) => state.isLoading)
 }
@@ -0,0 +1,190 @@
+/**
+ * Model Comparison Store
+ * Fans a message out to several models and keeps their answers side by side
+ * until one is adopted into the conversation
+ */
+
+import { create } from 'zustand'
+import { devtools, persist } from 'zustand/middleware'
+import { toast } from 'sonner'
+import type { ComparisonResult, SendMessageInput } from '@/types'
+import { buildApiMessages, createUserMessage } from '@/lib/services/chat-streaming'
+import { streamComparison } from '@/lib/services/model-comparison'
+import { useChatStore } from './chatStore'
+
+/** Most models a single comparison may fan out to */
+export const MAX_COMPARE_MODELS = 4
+
+export interface Comparison {
+  conversationId: string
+  input: SendMessageInput
+  /** Results in the order the models were selected */
+  results: ComparisonResult[]
+  isRunning: boolean
+}
+
+interface CompareState {
+  /** Sending from the chat input starts a comparison instead of a normal message */
+  isCompareMode: boolean
+  /** Models selected for comparison */
+  modelIds: string[]
+  comparison: Comparison | null
+}
+
+interface CompareActions {
+  setCompareMode: (enabled: boolean) => void
+  toggleModel: (modelId: string) => void
+  startComparison: (input: SendMessageInput & { conversationId: string }) => Promise<void>
+  stopComparison: () => void
+  clearComparison: () => void
+  /** Add the question and the chosen answer to the conversation; returns the target conversation ID */
+  adoptResult: (modelId: string, options?: { asBranch?: boolean }) => Promise<string | null>
+}
+
+type CompareStore = CompareState & { actions: CompareActions }
+
+// Not part of state: controllers aren't serializable and never need to render
+let activeController: AbortController | null = null
+
+export const useCompareStore = create<CompareStore>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        isCompareMode: false,
+        modelIds: [],
+        comparison: null,
+
+        actions: {
+          setCompareMode: (enabled) => {
+            set({ isCompareMode: enabled })
+          },
+
+          toggleModel: (modelId) => {
+            const { modelIds } = get()
+            if (modelIds.includes(modelId)) {
+              set({ modelIds: modelIds.filter((id) => id !== modelId) })
+            } else if (modelIds.length < MAX_COMPARE_MODELS) {
+              set({ modelIds: [...modelIds, modelId] })
+            } else {
+              toast.error(`Compare up to ${MAX_COMPARE_MODELS} models at a time`)
+            }
+          },
+
+          startComparison: async (input) => {
+            const { modelIds } = get()
+            if (modelIds.length < 2) {
+              toast.error('Select at least two models to compare')
+              return
+            }
+
+            activeController?.abort()
+            const controller = new AbortController()
+            activeController = controller
+
+            const { conversationId } = input
+            const existingMessages = useChatStore.getState().messagesByConversation[conversationId] || []
+            const userMessage = createUserMessage(conversationId, input.content, input.attachments)
+
+            set({
+              comparison: {
+                conversationId,
+                input,
+                results: modelIds.map((modelId) => ({ modelId, status: 'pending', content: '' })),
+                isRunning: true,
+              },
+            })
+
+            await streamComparison(
+              {
+                conversationId,
+                messages: buildApiMessages([...existingMessages, userMessage]),
+                modelIds,
+                signal: controller.signal,
+              },
+              {
+                onUpdate: (modelId, update) => {
+                  // Ignore late events from a comparison that was replaced
+                  if (activeController !== controller) return
+                  set((state) => ({
+                    comparison: state.comparison && {
+                      ...state.comparison,
+                      results: state.comparison.results.map((r) =>
+                        r.modelId === modelId ? { ...r, ...update } : r
+                      ),
+                    },
+                  }))
+                },
+              }
+            )
+
+            if (activeController === controller) {
+              activeController = null
+              set((state) => ({
+                comparison: state.comparison && { ...state.comparison, isRunning: false },
+              }))
+            }
+          },
+
+          stopComparison: () => {
+            activeController?.abort()
+            activeController = null
+            set((state) => ({
+              comparison: state.comparison && {
+                ...state.comparison,
+                isRunning: false,
+                results: state.comparison.results.map((r) =>
+                  r.status === 'pending' || r.status === 'streaming'
+                    ? { ...r, status: 'error', error: 'Stopped' }
+                    : r
+                ),
+              },
+            }))
+          },
+
+          clearComparison: () => {
+            get().actions.stopComparison()
+            set({ comparison: null })
+          },
+
+          adoptResult: async (modelId, options = {}) => {
+            const { comparison } = get()
+            const result = comparison?.results.find((r) => r.modelId === modelId)
+            if (!comparison || !result || result.status !== 'done') return null
+
+            try {
+              const conversationId = await useChatStore.getState().actions.adoptAnswer({
+                conversationId: comparison.conversationId,
+                content: comparison.input.content,
+                attachments: comparison.input.attachments,
+                result,
+                asBranch: options.asBranch,
+              })
+              get().actions.clearComparison()
+              return conversationId
+            } catch (error) {
+              const message = error instanceof Error ? error.message : 'Failed to adopt answer'
+              toast.error(message)
+              return null
+            }
+          },
+        },
+      }),
+      {
+        name: 'compare-preferences',
+        partialize: (state) => ({ modelIds: state.modelIds }),
+      }
+    ),
+    { name: 'compare-store' }
+  )
+)
+
+// Selector hooks
+export const useCompareMode = () => useCompareStore((state) => state.isCompareMode)
+
+export const useCompareModelIds = () => useCompareStore((state) => state.modelIds)
+
+export const useComparison = () => useCompareStore((state) => state.comparison)
+
+export const useIsComparing = () => useCompareStore((state) => state.comparison?.isRunning ?? false)
+
+export const useCompareActions = () => useCompareStore.getState().actions
@@ -7,3 +7,4 @@ export * from './uiStore'
 export * from './userStore'
 export * from './modelStore'
 export * from './routingStore'
+export * from './compareStore'
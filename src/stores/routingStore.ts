@@ -5,8 +5,10 @@
 
 import { create } from 'zustand'
 import { devtools, persist } from 'zustand/middleware'
+import { toast } from 'sonner'
 import type { AIProvider } from '@/types'
 import type { RequestIntent } from '@/lib/api/routing'
+import { routingApi } from '@/lib/api/client/routing'
 
 export interface RoutingPreferences {
   /** Enable automatic routing based on intent classification */
@@ -30,6 +32,8 @@ interface RoutingState {
     provider?: AIProvider
     wasAutoRouted?: boolean
   } | null
+  /** Intent corrections submitted this session, keyed by routing decision ID */
+  corrections: Record<string, RequestIntent>
 }
 
 interface RoutingActions {
@@ -40,6 +44,7 @@ interface RoutingActions {
   setConfidenceThreshold: (threshold: number) => void
   resetToDefaults: () => void
   setLastRouteInfo: (info: RoutingState['lastRouteInfo']) => void
+  submitCorrection: (decisionId: string, intent: RequestIntent) => Promise<void>
   getRoutingOptions: () => {
     autoRouting: boolean
     confidenceThreshold: number
@@ -71,6 +76,7 @@ export const useRoutingStore = create<RoutingStore>()(
       (set, get) => ({
         preferences: { ...DEFAULT_PREFERENCES },
         lastRouteInfo: null,
+        corrections: {},
 
         actions: {
           setAutoRouting: (enabled: boolean) => {
@@ -140,6 +146,34 @@ export const useRoutingStore = create<RoutingStore>()(
             set({ lastRouteInfo: info })
           },
 
+          submitCorrection: async (decisionId: string, intent: RequestIntent) => {
+            const previous = get().corrections[decisionId]
+
+            // Optimistic update
+            set((state) => ({
+              corrections: { ...state.corrections, [decisionId]: intent },
+            }))
+
+            try {
+              const provider = get().preferences.providerPreferences[intent]
+              await routingApi.submitCorrection(decisionId, intent, provider)
+              toast.success('Thanks — routing feedback recorded')
+            } catch (error) {
+              // Rollback
+              set((state) => {
+                const corrections = { ...state.corrections }
+                if (previous) {
+                  corrections[decisionId] = previous
+                } else {
+                  delete corrections[decisionId]
+                }
+                return { corrections }
+              })
+              const message = error instanceof Error ? error.message : 'Failed to submit routing feedback'
+              toast.error(message)
+            }
+          },
+
           getRoutingOptions: () => {
             const { preferences } = get()
             return {
@@ -176,4 +210,7 @@ export const useProviderPreferences = () =>
 export const useLastRouteInfo = () =>
   useRoutingStore((state) => state.lastRouteInfo)
 
+export const useRoutingCorrection = (decisionId?: string) =>
+  useRoutingStore((state) => (decisionId ? state.corrections[decisionId] : undefined))
+
 export const useRoutingActions = () => useRoutingStore.getState().actions
@@ -1,6 +1,6 @@
 import type { AIProvider, ModelConfig } from './model'
 import type { Message, MessageRole, ContentPart, ImageAttachment, FileAttachment, Citation } from './chat'
-import type { ToolAPIFormat, ToolCall } from './tools'
+import type { ToolAPIFormat, ToolCall, ToolExecutionRecord } from './tools'
 
 // Chat completion request
 export interface ChatCompletionRequest {
@@ -37,6 +37,38 @@ export interface ChatCompletionOptions {
   tools?: ToolAPIFormat[]
   tool_choice?: 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } }
   parallel_tool_calls?: boolean
+  /** Constrain the response to JSON, optionally matching a schema (non-streaming only) */
+  responseFormat?: ResponseFormat
+}
+
+// Structured output
+export interface JsonSchemaFormat {
+  /** Schema name; letters, digits, underscores and dashes */
+  name: string
+  description?: string
+  schema: Record<string, unknown>
+  /** Ask providers with native support to enforce the schema strictly */
+  strict?: boolean
+}
+
+export type ResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | { type: 'json_schema'; json_schema: JsonSchemaFormat }
+
+// Token counting
+export interface TokenCountRequest {
+  model: string
+  messages: ChatCompletionMessage[]
+  systemPrompt?: string
+  tools?: ToolAPIFormat[]
+}
+
+export interface TokenCountResponse {
+  model: string
+  inputTokens: number
+  /** Model's maxInputTokens */
+  contextWindow: number
 }
 
 // Chat completion response
@@ -51,6 +83,10 @@ export interface ChatCompletionResponse {
   usage: TokenUsage
   // Citations from knowledge providers (e.g. Glean)
   citations?: Citation[]
+  // Parsed JSON when the request set a JSON responseFormat
+  parsed?: unknown
+  // Tools the server ran before answering, in order
+  tool_executions?: ToolExecutionRecord[]
 }
 
 export interface ChatCompletionMetadata {
@@ -58,15 +94,22 @@ export interface ChatCompletionMetadata {
   provider: AIProvider
   processingTimeMs: number
   finishReason: 'stop' | 'length' | 'content_filter' | 'error' | 'tool_calls'
+  // Model originally requested when a fallback model answered
+  fallbackFrom?: string
   // OndoBot structured result data for rich UI rendering
   ondoBotStructured?: Record<string, unknown>
 }
 
 // Token usage tracking
 export interface TokenUsage {
+  /** All input tokens, including those read from or written to the prompt cache */
   inputTokens: number
   outputTokens: number
   totalTokens: number
+  /** Input tokens served from the provider's prompt cache */
+  cacheReadTokens?: number
+  /** Input tokens written to the provider's prompt cache */
+  cacheWriteTokens?: number
   estimatedCost?: number
 }
 
@@ -76,6 +119,10 @@ export type StreamEventType =
   | 'delta'
   | 'done'
   | 'error'
+  | 'fallback'
+  // Server-side tool execution (options.toolExecution: 'server')
+  | 'tool_call'
+  | 'tool_result'
 
 export interface StreamEvent {
   type: StreamEventType
@@ -89,6 +136,8 @@ export interface StreamEventData {
   content?: string
   usage?: TokenUsage
   error?: string
+  // HTTP status of the provider error, when there was one
+  statusCode?: number
   metadata?: ChatCompletionMetadata
   // Tool call streaming support
   tool_calls?: ToolCall[]
@@ -105,6 +154,18 @@ export interface StreamEventData {
   citations?: Citation[]
   // Thinking/reasoning text (e.g. from Glean UPDATE messages)
   thinking?: string
+  // Set when a fallback model answered instead of the requested one
+  fallback?: FallbackInfo
+  // Result of a tool the server ran, sent with 'tool_result'
+  tool_execution?: ToolExecutionRecord
+}
+
+// Provider fallback details sent before the first delta of a fallback answer
+export interface FallbackInfo {
+  requestedModel: string
+  model: string
+  provider: AIProvider
+  reason: string
 }
 
 // Provider list response
@@ -127,6 +188,9 @@ export interface StreamCallbacks {
   onDelta?: (delta: string) => void
   onThinkingDelta?: (thinking: string) => void
   onToolCallDelta?: (delta: StreamEventData['tool_call_delta']) => void
+  onFallback?: (info: FallbackInfo) => void
+  /** A workspace budget is nearly used up */
+  onBudgetWarning?: (message: string) => void
   onDone?: (response: ChatCompletionResponse) => void
   onError?: (error: string) => void
 }
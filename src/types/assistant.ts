@@ -0,0 +1,52 @@
+/**
+ * Who can use a custom assistant:
+ * - personal: its owner only
+ * - workspace: every member of the workspace
+ * - project: everyone who can open the project (folder)
+ */
+export type AssistantScope = 'personal' | 'workspace' | 'project'
+
+export interface AssistantParameters {
+  temperature?: number
+  maxTokens?: number
+  topP?: number
+}
+
+/**
+ * A custom assistant: instructions, a model, parameters, tools and a
+ * knowledge base, selected in the model picker like a model
+ */
+export interface Assistant {
+  id: string
+  name: string
+  description?: string
+  instructions: string
+  model: string
+  parameters: AssistantParameters
+  /** Names of the tools enabled when the assistant is selected */
+  tools: string[]
+  /** Folder whose knowledge base grounds the assistant's answers */
+  knowledgeBase?: { id: string; name: string }
+  scope: AssistantScope
+  ownerId: string
+  workspaceId?: string
+  projectId?: string
+  /** Whether the current user may edit or delete it */
+  canManage: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface AssistantInput {
+  name: string
+  description?: string
+  instructions: string
+  model: string
+  parameters?: AssistantParameters
+  tools?: string[]
+  /** null removes the knowledge base */
+  knowledgeBase?: { id: string; name: string } | null
+  scope: AssistantScope
+  workspaceId?: string
+  projectId?: string
+}
@@ -1,5 +1,7 @@
 import type { ToolCall, ToolExecutionRecord } from './tools'
 import type { OndoBotStructuredResult } from './ondobot'
+import type { AIProvider } from './model'
+import type { TokenUsage } from './api'
 
 export type MessageRole = 'user' | 'assistant' | 'system' | 'tool'
 
@@ -23,14 +25,16 @@ export interface ImageAttachment extends Attachment {
 }
 
 // File-specific attachment
-export type FileType = 'pdf' | 'document' | 'code' | 'text' | 'image'
+export type FileType = 'pdf' | 'document' | 'spreadsheet' | 'presentation' | 'code' | 'text' | 'image'
 export type FileStatus = 'uploading' | 'processing' | 'ready' | 'error'
 
 export interface FileAttachment extends Attachment {
   type: 'file'
   fileType: FileType
   status: FileStatus
-  content?: string // Extracted text content for text/code files
+  content?: string // Extracted text content
+  fileId?: string // Server-side upload holding the extracted text
+  truncated?: boolean // Content was cut to fit the context limit
   error?: string
   uploadProgress?: number // 0-100
   pageCount?: number // For PDFs
@@ -72,6 +76,9 @@ export interface MessageMetadata {
     confidence?: number
     wasAutoRouted?: boolean
     routedBy?: string
+    decisionId?: string
+    // Intent the user said the request should have been routed to
+    correctedIntent?: string
   }
   // OndoBot structured result data for rich rendering
   ondoBotStructured?: OndoBotStructuredResult
@@ -142,8 +149,46 @@ export interface SendMessageInput {
   tool_choice?: 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } }
 }
 
+// Model comparison
+export type ComparisonStatus = 'pending' | 'streaming' | 'done' | 'error'
+
+export interface ComparisonResult {
+  modelId: string
+  status: ComparisonStatus
+  content: string
+  thinking?: string
+  error?: string
+  /** Model that actually answered, when the requested one failed over */
+  answeredBy?: string
+  provider?: AIProvider
+  /** Time until the first streamed token */
+  firstTokenMs?: number
+  /** Time until the response completed */
+  latencyMs?: number
+  usage?: TokenUsage
+  citations?: Citation[]
+}
+
+export interface AdoptAnswerInput {
+  conversationId: string
+  /** The question as sent to every model */
+  content: string
+  attachments?: Omit<Attachment, 'id'>[]
+  result: ComparisonResult
+  /** Adopt into a new branch instead of the conversation itself */
+  asBranch?: boolean
+}
+
 // Citation Types (for Glean responses)
-export type CitationSourceType = 'confluence' | 'slack' | 'github' | 'jira' | 'gdrive' | 'notion' | 'custom'
+export type CitationSourceType =
+  | 'confluence'
+  | 'slack'
+  | 'github'
+  | 'jira'
+  | 'gdrive'
+  | 'notion'
+  | 'project' // A document in the conversation's project knowledge base
+  | 'custom'
 
 export interface CitationSource {
   type: CitationSourceType
@@ -168,3 +213,41 @@ export interface MessageCitations {
   citations: Citation[]
   parsedContent: string // Content with citation markers
 }
+
+// Conversation export / import
+export type ConversationExportFormat = 'markdown' | 'json' | 'html'
+
+/** Export formats the importer recognises */
+export type ConversationImportSource = 'chatgpt' | 'claude' | 'ondo'
+
+export interface ConversationImportResult {
+  source: ConversationImportSource
+  imported: number
+  /** Conversations that were empty or failed to import */
+  skipped: number
+  messages: number
+  conversationIds: string[]
+}
+
+// Conversation search
+export type ConversationSearchSort = 'relevance' | 'date'
+
+/** keyword matches words only; hybrid also finds messages with a similar meaning */
+export type ConversationSearchMode = 'keyword' | 'hybrid'
+
+export interface ConversationSearchFilters {
+  modelId?: string
+  provider?: AIProvider
+  /** Matching messages sent in this range (inclusive) */
+  from?: Date
+  to?: Date
+  role?: 'user' | 'assistant'
+  hasAttachments?: boolean
+  hasToolCalls?: boolean
+}
+
+/** Character range of a match within a title or snippet */
+export interface SearchHighlight {
+  start: number
+  end: number
+}
@@ -8,6 +8,10 @@ export * from './model'
 export * from './api'
 export * from './tools'
 export * from './ondobot'
+export * from './usage'
+export * from './share'
+export * from './assistant'
+export * from './mcp'
 
 // API response types
 export interface ApiResponse<T> {
@@ -0,0 +1,89 @@
+import type { FunctionParameters, ToolSideEffect } from './tools'
+
+/**
+ * How the app reaches an MCP server:
+ * - stdio: a local process started by the server, from a deployment preset
+ * - http: a streamable HTTP endpoint
+ */
+export type McpTransport = 'stdio' | 'http'
+
+/**
+ * Secrets sent to an MCP server; stored encrypted and never returned by the API
+ */
+export interface McpCredentials {
+  /** Request headers (http), e.g. Authorization */
+  headers?: Record<string, string>
+  /** Environment variables of the process (stdio) */
+  env?: Record<string, string>
+}
+
+/**
+ * An MCP server configured for a workspace. Its tools are offered as
+ * `<name>__<tool>`.
+ */
+export interface McpServer {
+  id: string
+  workspaceId: string
+  name: string
+  transport: McpTransport
+  /** stdio: preset the deployment defines; its command line is never sent */
+  preset?: string
+  url?: string
+  enabled: boolean
+  /** Whether credentials are stored; the credentials themselves are never sent */
+  hasCredentials: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface McpServerInput {
+  name: string
+  transport: McpTransport
+  preset?: string
+  url?: string
+  enabled?: boolean
+  /** null removes the stored credentials; omitted keeps them */
+  credentials?: McpCredentials | null
+}
+
+export type McpServerHealth = 'connected' | 'error' | 'disabled'
+
+export interface McpServerStatus {
+  serverId: string
+  name: string
+  transport: McpTransport
+  health: McpServerHealth
+  /** Why the server could not be reached */
+  error?: string
+  toolCount: number
+  resourceCount: number
+  promptCount: number
+  checkedAt: Date
+}
+
+/**
+ * What a namespaced MCP tool reaches on its server: one of its tools, or the
+ * generated tools that read its resources and render its prompts
+ */
+export type McpToolKind = 'tool' | 'resource' | 'prompt'
+
+export interface McpToolSummary {
+  /** Namespaced name offered to the model */
+  name: string
+  serverId: string
+  serverName: string
+  kind: McpToolKind
+  /** Name of the tool on its server, for kind 'tool' */
+  serverToolName?: string
+  description: string
+  parameters: FunctionParameters
+  sideEffect: ToolSideEffect
+}
+
+/**
+ * The MCP servers of a workspace with their health, and the tools they offer
+ */
+export interface McpCatalog {
+  servers: McpServerStatus[]
+  tools: McpToolSummary[]
+}
@@ -1,5 +1,5 @@
 // AI Provider types
-export type AIProvider = 'openai' | 'anthropic' | 'glean' | 'dust' | 'ondobot'
+export type AIProvider = 'openai' | 'anthropic' | 'glean' | 'dust' | 'ondobot' | 'local'
 
 // Model capabilities
 export interface ModelCapabilities {
@@ -15,6 +15,10 @@ export interface ModelCapabilities {
 export interface ModelPricing {
   inputPer1M: number
   outputPer1M: number
+  /** Rate for input tokens read from the prompt cache (defaults to inputPer1M) */
+  cacheReadPer1M?: number
+  /** Rate for input tokens written to the prompt cache (defaults to inputPer1M) */
+  cacheWritePer1M?: number
 }
 
 // Model configuration
@@ -1,3 +1,6 @@
+import type { FileType } from './chat'
+import type { AIProvider } from './model'
+
 export interface Project {
   id: string
   name: string
@@ -7,6 +10,7 @@ export interface Project {
   workspaceId?: string | null // null = Personal space
   userId: string
   defaultPromptId?: string
+  settings?: ProjectSettings
   conversationCount: number
   createdAt: Date
   updatedAt: Date
@@ -27,6 +31,51 @@ export interface UpdateProjectInput {
   color?: string
   icon?: string
   defaultPromptId?: string
+  settings?: ProjectSettings
+}
+
+/**
+ * How older turns are handled when a conversation approaches the model's
+ * context window:
+ * - summarize: older turns are replaced by a rolling summary
+ * - truncate: the oldest turns are dropped until the request fits
+ * - sliding_window: only the most recent turns are ever sent
+ */
+export type ContextStrategy = 'summarize' | 'truncate' | 'sliding_window'
+
+// Stored as JSON in Project.settings
+export interface ProjectSettings {
+  contextStrategy?: ContextStrategy
+  /** Model new conversations in the project start with */
+  defaultModel?: string
+  /** Instructions sent with every request in the project */
+  systemPrompt?: string
+  /** Tools enabled when a conversation is started in the project */
+  tools?: string[]
+  /** Pins auto-routing on (true) or off (false); unset follows each user's preference */
+  autoRouting?: boolean
+  /** Providers the project's conversations may use; unset or empty allows all */
+  allowedProviders?: AIProvider[]
+}
+
+export type ProjectDocumentStatus = 'processing' | 'ready' | 'failed'
+
+/**
+ * A document in a project's knowledge base. Its text is chunked and embedded
+ * so conversations in the project can retrieve and cite it.
+ */
+export interface ProjectDocument {
+  id: string
+  projectId: string
+  name: string
+  mimeType: string
+  fileType: FileType
+  size: number
+  status: ProjectDocumentStatus
+  error?: string
+  chunkCount: number
+  uploadedBy?: string
+  createdAt: Date
 }
 
 export const PROJECT_COLORS = [
@@ -0,0 +1,32 @@
+import type { Message } from './chat'
+
+export interface ConversationShare {
+  id: string
+  conversationId: string
+  token: string
+  /** Absolute link to the read-only page */
+  url: string
+  expiresAt?: Date
+  viewCount: number
+  lastViewedAt?: Date
+  createdAt: Date
+}
+
+export interface CreateShareInput {
+  conversationId: string
+  /** Omit for a link that never expires */
+  expiresInDays?: number
+}
+
+/**
+ * A conversation as seen through a share link. Only messages that existed
+ * when the link was created are included.
+ */
+export interface SharedConversation {
+  title: string
+  modelId: string
+  sharedBy?: string
+  sharedAt: Date
+  expiresAt?: Date
+  messages: Message[]
+}
@@ -22,12 +22,33 @@ export interface FunctionParameters {
   [key: string]: unknown
 }
 
+// Where a tool runs; the server passes one so handlers can reach the app's own API routes
+export interface ToolExecutionContext {
+  /** fetch for relative `/api/...` paths, authenticated as the calling user; the browser's own fetch when omitted */
+  fetch?: (path: string, init?: RequestInit) => Promise<Response>
+  /** Set when the user approved the call before it ran */
+  confirmed?: boolean
+}
+
+// What a tool call changes outside the conversation
+export type ToolSideEffect = 'read' | 'write' | 'destructive'
+
+// Workspace policy for a tool: always ask before running, run without asking, or never offer it
+export type ToolPolicy = 'ask' | 'auto' | 'disabled'
+
+// Policies set by workspace admins, by tool name
+export type ToolPolicies = Record<string, ToolPolicy>
+
 // Tool Definition (how tools are registered)
 export interface ToolDefinition {
   name: string
   description: string
   parameters: FunctionParameters
-  handler: (args: Record<string, unknown>) => Promise<ToolResult>
+  handler: (args: Record<string, unknown>, context?: ToolExecutionContext) => Promise<ToolResult>
+  /** Defaults to 'read'; a function when it depends on the arguments */
+  sideEffect?: ToolSideEffect | ((args: Record<string, unknown>) => ToolSideEffect)
+  /** Calls the app's own API routes through `context.fetch`, which only accept a signed-in user */
+  usesAppApi?: boolean
 }
 
 // Tool in API format (for sending to OpenAI)
@@ -74,6 +95,26 @@ export interface ToolExecutionRecord {
   startedAt: number
   completedAt: number
   duration: number
+  /** Set when the user was asked before the tool ran */
+  confirmation?: ToolConfirmationOutcome
+}
+
+// A tool call waiting for the user's approval
+export interface ToolConfirmationRequest {
+  toolCall: ParsedToolCall
+  sideEffect: ToolSideEffect
+}
+
+// The user's answer to a confirmation request; edited arguments replace the model's
+export type ToolConfirmationDecision =
+  | { approved: true; arguments?: Record<string, unknown> }
+  | { approved: false; reason?: string }
+
+export interface ToolConfirmationOutcome {
+  approved: boolean
+  /** The user changed the arguments before approving */
+  edited?: boolean
+  reason?: string
 }
 
 // Message with tool calls
@@ -102,6 +143,7 @@ export interface ToolExecutionOptions {
   timeout?: number
   maxRetries?: number
   parallel?: boolean
+  context?: ToolExecutionContext
 }
 
 // Tool registry state
@@ -0,0 +1,58 @@
+// Usage metering
+
+export type UsageSource =
+  | 'chat'
+  | 'api'
+  | 'context_summary'
+  | 'routing'
+  | 'image'
+  | 'speech'
+  | 'agent'
+  | 'agent_preview'
+  | 'embedding'
+
+export type UsageDimension = 'user' | 'workspace' | 'project' | 'model' | 'provider' | 'source'
+
+export type UsageInterval = 'day' | 'week' | 'month'
+
+export interface UsageTotals {
+  requests: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+}
+
+export interface UsageBreakdownItem extends UsageTotals {
+  /** ID of the grouped entity; null for usage outside any workspace or project */
+  key: string | null
+  label: string
+}
+
+export interface UsageTimeseriesPoint extends UsageTotals {
+  /** Start of the bucket (ISO date) */
+  period: string
+}
+
+export interface UsageReport {
+  from: string
+  to: string
+  interval: UsageInterval
+  totals: UsageTotals
+  timeseries: UsageTimeseriesPoint[]
+  breakdowns: Partial<Record<UsageDimension, UsageBreakdownItem[]>>
+  /** Whether the report covers other users' usage */
+  includesOtherUsers: boolean
+  /** Whether the viewer may request usage across all users (app admins) */
+  canViewAll: boolean
+}
+
+export interface UsageQuery {
+  from?: Date
+  to?: Date
+  interval?: UsageInterval
+  workspaceId?: string
+  projectId?: string
+  userId?: string
+  /** Usage across every user and workspace (app admins only) */
+  all?: boolean
+}
@@ -15,3 +15,19 @@ export interface UserPreferences {
   defaultWorkspaceId?: string
   defaultModelId?: string
 }
+
+// Personal API key for the OpenAI-compatible gateway. The secret is only
+// returned once, when the key is created.
+export interface ApiKey {
+  id: string
+  name: string
+  prefix: string
+  workspaceId?: string
+  lastUsedAt?: Date
+  expiresAt?: Date
+  createdAt: Date
+}
+
+export interface CreatedApiKey extends ApiKey {
+  secret: string
+}
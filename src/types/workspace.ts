@@ -1,4 +1,5 @@
 import type { User } from './user'
+import type { ToolPolicies } from './tools'
 
 export type WorkspaceRole = 'owner' | 'admin' | 'member' | 'viewer'
 
@@ -10,10 +11,49 @@ export interface Workspace {
   logoUrl?: string
   ownerId: string
   memberCount: number
+  budgets?: WorkspaceBudgetPolicy
+  /** Admin overrides of when tools ask for confirmation, by tool name */
+  toolPolicies?: ToolPolicies
   createdAt: Date
   updatedAt: Date
 }
 
+export type BudgetMetric = 'cost' | 'tokens'
+
+export interface BudgetLimit {
+  metric: BudgetMetric
+  /** Monthly limit: USD for cost, input + output tokens for tokens */
+  limit: number
+}
+
+/**
+ * Monthly spend or token caps for a workspace. Budgets reset at the start of
+ * each calendar month (UTC).
+ */
+export interface WorkspaceBudgetPolicy {
+  /** Cap on the whole workspace */
+  workspace?: BudgetLimit
+  /** Default cap on each member's usage within the workspace */
+  perMember?: BudgetLimit
+  /** Caps for specific members by user ID, replacing perMember */
+  members?: Record<string, BudgetLimit>
+  /** Caps on a model's usage across the workspace, by model ID */
+  models?: Record<string, BudgetLimit>
+  /** Percentages of a budget at which members are warned (default [80]) */
+  warningThresholds?: number[]
+}
+
+export type BudgetScope = 'workspace' | 'member' | 'model'
+
+/** Month-to-date usage against one budget */
+export interface BudgetUsage extends BudgetLimit {
+  scope: BudgetScope
+  workspaceId: string
+  used: number
+  /** Set for model budgets */
+  model?: string
+}
+
 export interface WorkspaceMember {
   id: string
   workspaceId: string